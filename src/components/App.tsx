@@ -4,28 +4,42 @@ import { useConnectionStore } from '../store/connection.js';
 import { useStore } from '../store/index.js';
 import type { Configuration } from '../types/config.js';
 import type { NodeInfo } from '../store/types.js';
+import type { Recording, SessionRecorder } from '../services/recording/index.js';
+import type { Scenario } from '../services/simulator/index.js';
 import { ConnectionStatus } from './ConnectionStatus.js';
+import { ReplaySession } from './ReplaySession.js';
+import { DemoSession } from './DemoSession.js';
 import { Dashboard } from './Dashboard.js';
 import { ThemeProvider } from '../theme/index.js';
 
 export interface AppProps {
   config: Configuration;
+  /** Write polling cycles to this recorder (--record) */
+  recorder?: SessionRecorder;
+  /** Replay this recording instead of connecting (--replay) */
+  recording?: Recording;
+  /** Poll a simulated cluster instead of connecting (--demo) */
+  scenario?: Scenario;
 }
 
 /**
  * Root application component.
  * Manages screen transitions between connection-status and dashboard.
+ * With a recording or demo scenario, the replay or demo driver stands in
+ * for the connection screen.
  */
-export function App({ config }: AppProps): React.ReactElement {
+export function App({ config, recorder, recording, scenario }: AppProps): React.ReactElement {
   const currentScreen = useConnectionStore((s) => s.currentScreen);
   const setPglogicalMode = useConnectionStore((s) => s.setPglogicalMode);
   const initializeNodes = useConnectionStore((s) => s.initializeNodes);
   const initializeNodesInfo = useStore((s) => s.initializeNodesInfo);
+  const setThresholds = useStore((s) => s.setThresholds);
   const resetConnectionStates = useConnectionStore((s) => s.resetConnectionStates);
 
   // Initialize store with config on mount
   React.useEffect(() => {
     setPglogicalMode(config.pglogical);
+    setThresholds(config.thresholds);
     initializeNodes(Object.keys(config.nodes));
 
     // Initialize node info for topology panel
@@ -40,7 +54,7 @@ export function App({ config }: AppProps): React.ReactElement {
       })
     );
     initializeNodesInfo(nodeInfos);
-  }, [config, setPglogicalMode, initializeNodes, initializeNodesInfo]);
+  }, [config, setPglogicalMode, setThresholds, initializeNodes, initializeNodesInfo]);
 
   // Handle retry action from ConnectionStatus
   const handleRetry = React.useCallback(() => {
@@ -50,8 +64,18 @@ export function App({ config }: AppProps): React.ReactElement {
   return (
     <ThemeProvider theme={config.theme}>
       <Box flexDirection="column" width="100%" height="100%">
-        {currentScreen === 'connection-status' && (
-          <ConnectionStatus config={config} onRetry={handleRetry} />
+        {recording ? (
+          <ReplaySession config={config} recording={recording} />
+        ) : scenario ? (
+          <DemoSession config={config} scenario={scenario} {...(recorder !== undefined && { recorder })} />
+        ) : (
+          currentScreen === 'connection-status' && (
+            <ConnectionStatus
+              config={config}
+              onRetry={handleRetry}
+              {...(recorder !== undefined && { recorder })}
+            />
+          )
         )}
         {currentScreen === 'dashboard' && <Dashboard config={config} />}
       </Box>
@@ -5,11 +5,18 @@ import { useStore } from '../store/index.js';
 import { exitApp } from '../index.js';
 import { ConnectionManager } from '../services/connection-manager/index.js';
 import { PollingService } from '../services/polling/index.js';
+import { AlertEngine } from '../services/alerts/index.js';
+import { AlertNotifier } from '../services/notifier/index.js';
+import { HistoryStore, collectHistorySamples } from '../services/history/index.js';
+import type { SessionRecorder } from '../services/recording/index.js';
+import { MAX_LAG_HISTORY_SAMPLES } from '../store/types.js';
 import type { Configuration } from '../types/config.js';
 
 // Module-level manager instance for the app
 let connectionManager: ConnectionManager | null = null;
 let pollingService: PollingService | null = null;
+let alertNotifier: AlertNotifier | null = null;
+let historyStore: HistoryStore | null = null;
 
 export function getConnectionManager(): ConnectionManager | null {
   return connectionManager;
@@ -19,9 +26,36 @@ export function getPollingService(): PollingService | null {
   return pollingService;
 }
 
+export function getHistoryStore(): HistoryStore | null {
+  return historyStore;
+}
+
+/**
+ * Stop polling, let in-flight alert notifications and queued history writes
+ * finish, and drain connections. Every TUI exit runs this through exitApp.
+ */
+export async function shutdownSession(): Promise<void> {
+  if (pollingService) {
+    pollingService.stop();
+    pollingService = null;
+  }
+
+  const notifier = alertNotifier;
+  const history = historyStore;
+  alertNotifier = null;
+  historyStore = null;
+  await Promise.all([notifier?.close(), history?.close()]);
+
+  const manager = connectionManager;
+  connectionManager = null;
+  await manager?.shutdown();
+}
+
 interface ConnectionStatusProps {
   config: Configuration;
   onRetry: () => void;
+  /** Records every polling cycle and error (--record) */
+  recorder?: SessionRecorder;
 }
 
 /**
@@ -31,6 +65,7 @@ interface ConnectionStatusProps {
 export function ConnectionStatus({
   config,
   onRetry,
+  recorder,
 }: ConnectionStatusProps): React.ReactElement {
   const setNodeStatus = useConnectionStore((s) => s.setNodeStatus);
   const setConnectionError = useConnectionStore((s) => s.setConnectionError);
@@ -69,14 +104,50 @@ export function ConnectionStatus({
             // Start polling service before transitioning to dashboard
             if (connectionManager && !pollingService) {
               pollingService = new PollingService(connectionManager, { intervalMs: 1000 });
+              const alertEngine = new AlertEngine(config.thresholds, config.alerts);
+              const notifier = new AlertNotifier(config.alerts.sinks, {
+                cluster: config.activeCluster ?? null,
+              });
+              alertNotifier = notifier;
+              alertEngine.on('alert', (event) => notifier.notify(event));
 
               // Wire polling data event to store
               // Use the 'data' event to get complete PollingCycleResult
               // This allows handlePollingData to process slots and subscriptions together
               // for proper lag calculation (subscription's slot may be on different node)
               const store = useStore.getState();
+
+              // Persist samples across restarts; restore the sparkline window first
+              const history = config.history.enabled
+                ? new HistoryStore({ dir: config.history.path, retention: config.history.retention })
+                : null;
+              historyStore = history;
+              if (history) {
+                const now = new Date();
+                const since = new Date(now.getTime() - MAX_LAG_HISTORY_SAMPLES * 1000);
+                history
+                  .open(now)
+                  .then(() => history.readLagHistory(since, now))
+                  .then((restored) => store.restoreLagHistory(restored))
+                  .catch(() => {
+                    // History is best-effort; live polling continues without it
+                  });
+              }
+
               pollingService.on('data', (result) => {
+                recorder?.record(result);
                 store.handlePollingData(result);
+                store.applyAlertEvaluation(alertEngine.evaluate(result));
+                history?.record(
+                  collectHistorySamples(result, useStore.getState().lagHistory),
+                  result.completedAt
+                );
+              });
+
+              // Cycle-level failures feed the polling error counters
+              pollingService.on('error', (error) => {
+                recorder?.recordError(error);
+                store.handlePollingError(error);
               });
 
               pollingService.start();
@@ -86,6 +157,13 @@ export function ConnectionStatus({
         }
       });
 
+      // Keep per-node health in the store for the whole session (metrics endpoint)
+      connectionManager.on('node:health', ({ nodeId, status }) => {
+        if (!quittingRef.current) {
+          useStore.getState().setHealth(nodeId, status);
+        }
+      });
+
       connectionManager.on('node:disconnected', ({ nodeId, error }) => {
         if (!cancelled && !quittingRef.current) {
           setNodeStatus(nodeId, 'failed');
@@ -139,24 +217,14 @@ export function ConnectionStatus({
     return () => {
       cancelled = true;
     };
-  }, [config, connectionAttempt, setNodeStatus, setConnectionError, setCurrentScreen]);
+  }, [config, recorder, connectionAttempt, setNodeStatus, setConnectionError, setCurrentScreen]);
 
   // Handle keyboard input
   useInput((input, key) => {
     if (input === 'q' || (key.ctrl && input === 'c')) {
       // Mark as quitting to prevent UI updates during shutdown
       quittingRef.current = true;
-      // Stop polling first
-      if (pollingService) {
-        pollingService.stop();
-        pollingService = null;
-      }
-      // Cleanup before exit
-      if (connectionManager) {
-        connectionManager.shutdown().finally(() => exitApp(0));
-      } else {
-        exitApp(0);
-      }
+      exitApp(0);
       return;
     }
     if (input === 'r') {
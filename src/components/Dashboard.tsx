@@ -6,7 +6,10 @@ import { Panel } from './layout/Panel.js';
 import { TopologyPanel } from './panels/TopologyPanel.js';
 import { SubscriptionsPanel } from './panels/SubscriptionsPanel.js';
 import { SlotsPanel } from './panels/SlotsPanel.js';
+import { PublicationsPanel } from './panels/PublicationsPanel.js';
 import { ConflictsPanel } from './panels/ConflictsPanel.js';
+import { AlertsPanel } from './panels/AlertsPanel.js';
+import { LagTimelinePanel } from './panels/LagTimelinePanel.js';
 
 interface DashboardProps {
   config: Configuration;
@@ -14,7 +17,7 @@ interface DashboardProps {
 
 /**
  * Main dashboard view using the new layout system.
- * Shows topology, subscriptions, slots, and conflicts panels.
+ * Shows topology, subscriptions, slots, publications, conflicts, alerts, and lag timeline panels.
  */
 export function Dashboard({ config }: DashboardProps): React.ReactElement {
   return (
@@ -29,9 +32,18 @@ export function Dashboard({ config }: DashboardProps): React.ReactElement {
         <Panel title="Slots" panelId="slots">
           <SlotsPanel config={config} />
         </Panel>
+        <Panel title="Publications" panelId="publications">
+          <PublicationsPanel config={config} />
+        </Panel>
         <Panel title="Conflicts" panelId="conflicts">
           <ConflictsPanel config={config} />
         </Panel>
+        <Panel title="Alerts" panelId="alerts">
+          <AlertsPanel config={config} />
+        </Panel>
+        <Panel title="Lag Timeline" panelId="timeline">
+          <LagTimelinePanel config={config} />
+        </Panel>
       </Box>
     </MainLayout>
   );
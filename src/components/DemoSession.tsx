@@ -0,0 +1,101 @@
+import React from 'react';
+import { Box, Text } from 'ink';
+import { useConnectionStore } from '../store/connection.js';
+import { useStore } from '../store/index.js';
+import { PollingService } from '../services/polling/index.js';
+import { AlertEngine } from '../services/alerts/index.js';
+import { SimulatedCluster } from '../services/simulator/index.js';
+import type { Scenario } from '../services/simulator/index.js';
+import type { SessionRecorder } from '../services/recording/index.js';
+import type { Configuration } from '../types/config.js';
+
+// Module-level simulator for the demo badge in MainLayout
+let demoCluster: SimulatedCluster | null = null;
+
+export function getDemoCluster(): SimulatedCluster | null {
+  return demoCluster;
+}
+
+interface DemoSessionProps {
+  config: Configuration;
+  scenario: Scenario;
+  /** Records every polling cycle and error (--record) */
+  recorder?: SessionRecorder;
+}
+
+/**
+ * Demo driver used instead of the connection screen.
+ * Polls a simulated cluster with the regular polling service and feeds the
+ * store exactly like a live session, then switches to the dashboard.
+ */
+export function DemoSession({ config, scenario, recorder }: DemoSessionProps): React.ReactElement | null {
+  const currentScreen = useConnectionStore((s) => s.currentScreen);
+  const setNodeStatus = useConnectionStore((s) => s.setNodeStatus);
+  const setConnectionError = useConnectionStore((s) => s.setConnectionError);
+  const clearConnectionError = useConnectionStore((s) => s.clearConnectionError);
+  const setCurrentScreen = useConnectionStore((s) => s.setCurrentScreen);
+
+  React.useEffect(() => {
+    const store = useStore.getState();
+    const cluster = new SimulatedCluster(scenario);
+    const pollingService = new PollingService(cluster, { intervalMs: 1000 });
+    // Alerts fire in the Alerts panel only (no sinks)
+    const alertEngine = new AlertEngine(config.thresholds, config.alerts);
+    demoCluster = cluster;
+    let stopped = false;
+
+    cluster.on('node:connected', ({ nodeId }) => {
+      setNodeStatus(nodeId, 'connected');
+      clearConnectionError(nodeId);
+    });
+
+    cluster.on('node:disconnected', ({ nodeId, error }) => {
+      if (stopped) return;
+      setNodeStatus(nodeId, 'failed');
+      // Shown as stale until the node answers a poll again
+      store.markNodeStale(nodeId);
+      if (error) {
+        setConnectionError(nodeId, error.message);
+      }
+    });
+
+    cluster.on('node:health', ({ nodeId, status }) => {
+      store.setHealth(nodeId, status);
+    });
+
+    pollingService.on('data', (result) => {
+      recorder?.record(result);
+      store.handlePollingData(result);
+      store.applyAlertEvaluation(alertEngine.evaluate(result));
+    });
+
+    pollingService.on('error', (error) => {
+      recorder?.recordError(error);
+      store.handlePollingError(error);
+    });
+
+    // Start after App's mount effect has initialized nodes in the store
+    const startTimer = setTimeout(() => {
+      cluster.initialize();
+      pollingService.start();
+      setCurrentScreen('dashboard');
+    }, 0);
+
+    return () => {
+      stopped = true;
+      clearTimeout(startTimer);
+      pollingService.stop();
+      void cluster.shutdown();
+      demoCluster = null;
+    };
+  }, [config, scenario, recorder, setNodeStatus, setConnectionError, clearConnectionError, setCurrentScreen]);
+
+  // Stays mounted behind the dashboard to keep the simulation running
+  if (currentScreen === 'dashboard') return null;
+
+  return (
+    <Box padding={1}>
+      <Text dimColor>Starting demo scenario {scenario.name}...</Text>
+    </Box>
+  );
+}
@@ -0,0 +1,98 @@
+import React from 'react';
+import { Box, Text } from 'ink';
+import { useConnectionStore } from '../store/connection.js';
+import { useStore } from '../store/index.js';
+import { AlertEngine } from '../services/alerts/index.js';
+import { ReplayController } from '../services/recording/index.js';
+import type { Recording, RecordingFrame } from '../services/recording/index.js';
+import type { Configuration } from '../types/config.js';
+import type { NodeInfo } from '../store/types.js';
+
+// Module-level controller for the replay keys in MainLayout
+let replayController: ReplayController | null = null;
+
+export function getReplayController(): ReplayController | null {
+  return replayController;
+}
+
+interface ReplaySessionProps {
+  config: Configuration;
+  recording: Recording;
+}
+
+/**
+ * Replay driver used instead of the connection screen.
+ * Feeds recorded frames through the store exactly like the polling service
+ * would, then switches to the dashboard.
+ */
+export function ReplaySession({ config, recording }: ReplaySessionProps): React.ReactElement | null {
+  const currentScreen = useConnectionStore((s) => s.currentScreen);
+  const setNodeStatus = useConnectionStore((s) => s.setNodeStatus);
+  const setCurrentScreen = useConnectionStore((s) => s.setCurrentScreen);
+
+  React.useEffect(() => {
+    const store = useStore.getState();
+    const nodeInfos: NodeInfo[] = Object.entries(config.nodes).map(([id, node]) => ({
+      id,
+      name: id,
+      host: node.host,
+      port: node.port,
+      database: node.database,
+      hasPglogical: false,
+    }));
+
+    // Alerts are re-evaluated from recorded cycle times (no sinks)
+    let alertEngine = new AlertEngine(config.thresholds, config.alerts);
+
+    const controller = new ReplayController(recording);
+    replayController = controller;
+
+    controller.on('frame', ({ frame }: { frame: RecordingFrame }) => {
+      if (frame.type === 'cycle') {
+        store.handlePollingData(frame.result);
+        store.applyAlertEvaluation(alertEngine.evaluate(frame.result));
+      } else {
+        store.handlePollingError(frame.error);
+      }
+    });
+
+    // Seeking backwards replays from the first frame on a clean slate
+    controller.on('reset', () => {
+      alertEngine = new AlertEngine(config.thresholds, config.alerts);
+      store.clearReplicationData();
+      store.initializeNodesInfo(nodeInfos);
+      store.applyAlertEvaluation({ alerts: [], events: [] });
+      store.clearAlertHistory();
+    });
+
+    controller.on('status', (status) => {
+      store.setReplayStatus(status);
+    });
+
+    // Start after App's mount effect has initialized nodes in the store
+    const startTimer = setTimeout(() => {
+      // Recorded nodes were connected when the session was captured
+      for (const nodeId of Object.keys(config.nodes)) {
+        setNodeStatus(nodeId, 'connected');
+      }
+      controller.start();
+      setCurrentScreen('dashboard');
+    }, 0);
+
+    return () => {
+      clearTimeout(startTimer);
+      controller.stop();
+      replayController = null;
+      store.setReplayStatus(null);
+    };
+  }, [config, recording, setNodeStatus, setCurrentScreen]);
+
+  // Stays mounted behind the dashboard to keep playback running
+  if (currentScreen === 'dashboard') return null;
+
+  return (
+    <Box padding={1}>
+      <Text dimColor>Loading recording {recording.file}...</Text>
+    </Box>
+  );
+}
@@ -0,0 +1,131 @@
+/**
+ * Tests for LineChart rendering helpers
+ */
+import { describe, test, expect } from 'bun:test';
+import {
+  bucketPoints,
+  findNearestPoint,
+  getAxisLabels,
+  getColumnTime,
+  getScaleMax,
+  renderBlocks,
+  renderBraille,
+} from './LineChart.js';
+import { pickTimelineUnit, toTimelinePoints } from '../../utils/timeline.js';
+import type { ChartSeries, TimelinePoint } from '../../types/timeline.js';
+
+const T0 = Date.UTC(2024, 5, 1, 12, 0, 0);
+const from = new Date(T0);
+const to = new Date(T0 + 4000);
+
+function point(offsetMs: number, value: number): TimelinePoint {
+  return { timestamp: new Date(T0 + offsetMs), value };
+}
+
+function chars(grid: { char: string }[][]): string[] {
+  return grid.map((row) => row.map((cell) => cell.char).join(''));
+}
+
+describe('bucketPoints', () => {
+  test('keeps the highest value per column and leaves gaps empty', () => {
+    const points = [point(0, 1), point(500, 7), point(2500, 3), point(9000, 99)];
+    expect(bucketPoints(points, from, to, 4)).toEqual([7, null, 3, null]);
+  });
+
+  test('places the window end in the last column', () => {
+    expect(bucketPoints([point(4000, 5)], from, to, 4)).toEqual([null, null, null, 5]);
+  });
+});
+
+describe('getScaleMax', () => {
+  test('ignores points outside the window', () => {
+    const series: ChartSeries[] = [
+      { id: 'a', color: 'red', points: [point(1000, 4), point(-1000, 50)] },
+      { id: 'b', color: 'blue', points: [point(2000, 9)] },
+    ];
+    expect(getScaleMax(series, from, to)).toBe(9);
+  });
+});
+
+describe('renderBraille', () => {
+  test('draws a connected line from bottom to top', () => {
+    // 2 cells wide = 4 dot columns, 1 row = 4 dot rows
+    const series: ChartSeries[] = [
+      { id: 'a', color: 'red', points: [point(0, 0), point(1000, 1), point(2000, 2), point(3000, 3)] },
+    ];
+    const grid = renderBraille(series, from, to, 2, 1, 3);
+
+    // ⡠ = dots 6+7 (left bottom, right third row), ⠊ = dots 2+4 (left second row, right top)
+    expect(chars(grid)).toEqual(['⡠⠊']);
+    expect(grid[0]?.map((cell) => cell.color)).toEqual(['red', 'red']);
+  });
+
+  test('fills the vertical span on a jump', () => {
+    const series: ChartSeries[] = [{ id: 'a', color: 'red', points: [point(0, 0), point(2000, 3)] }];
+    const grid = renderBraille(series, from, to, 1, 1, 3);
+    // Left bottom dot plus the right column from one row above it to the top
+    expect(chars(grid)).toEqual([String.fromCharCode(0x2800 + 0x40 + 0x08 + 0x10 + 0x20)]);
+  });
+
+  test('draws the first series on top where series share a cell', () => {
+    const series: ChartSeries[] = [
+      { id: 'a', color: 'red', points: [point(0, 1)] },
+      { id: 'b', color: 'blue', points: [point(0, 1), point(3000, 1)] },
+    ];
+    const grid = renderBraille(series, from, to, 2, 1, 1);
+    expect(grid[0]?.map((cell) => cell.color)).toEqual(['red', 'blue']);
+  });
+});
+
+describe('renderBlocks', () => {
+  test('fills columns in eighths from the bottom', () => {
+    const series: ChartSeries[] = [
+      { id: 'a', color: 'red', points: [point(0, 4), point(2000, 1), point(3000, 0.01)] },
+    ];
+    const grid = renderBlocks(series, from, to, 4, 2, 4);
+    expect(chars(grid)).toEqual(['█   ', '█ ▄▁']);
+  });
+
+  test('colors each column by its highest series', () => {
+    const series: ChartSeries[] = [
+      { id: 'a', color: 'red', points: [point(0, 1), point(1000, 4)] },
+      { id: 'b', color: 'blue', points: [point(0, 2), point(1000, 3)] },
+    ];
+    const grid = renderBlocks(series, from, to, 4, 1, 4);
+    expect(grid[0]?.slice(0, 2).map((cell) => cell.color)).toEqual(['blue', 'red']);
+  });
+});
+
+describe('axis and cursor helpers', () => {
+  test('labels top, middle, and bottom rows', () => {
+    expect(getAxisLabels(2048, 5, 'bytes')).toEqual(['2.0 KB', '', '1.0 KB', '', '0 B']);
+    expect(getAxisLabels(0, 3, 'seconds')).toEqual(['', '', '0ms']);
+  });
+
+  test('finds the sample nearest to a column', () => {
+    const time = getColumnTime(1, from, to, 4);
+    expect(time.getTime()).toBe(T0 + 1500);
+
+    const points = [point(0, 1), point(1400, 2), point(1700, 3)];
+    expect(findNearestPoint(points, time, 1000)?.value).toBe(2);
+    expect(findNearestPoint(points, new Date(T0 + 9000), 1000)).toBeNull();
+  });
+});
+
+describe('timeline units', () => {
+  const bytesOnly = { timestamp: new Date(T0), lagBytes: 100, lagSeconds: null };
+  const withSeconds = { timestamp: new Date(T0), lagBytes: 100, lagSeconds: 2 };
+
+  test('uses seconds only when every series reports them', () => {
+    expect(pickTimelineUnit([[withSeconds], []])).toBe('seconds');
+    expect(pickTimelineUnit([[withSeconds], [bytesOnly]])).toBe('bytes');
+    expect(pickTimelineUnit([])).toBe('bytes');
+  });
+
+  test('skips samples without seconds in seconds mode', () => {
+    expect(toTimelinePoints([bytesOnly, withSeconds], 'seconds')).toEqual([
+      { timestamp: new Date(T0), value: 2 },
+    ]);
+    expect(toTimelinePoints([bytesOnly], 'bytes')).toEqual([{ timestamp: new Date(T0), value: 100 }]);
+  });
+});
@@ -0,0 +1,414 @@
+/**
+ * LineChart Component
+ *
+ * Multi-row time-series chart for the Lag Timeline panel. Overlays several
+ * series in their own colors, with Y-axis labels, a time axis, and an
+ * optional cursor column.
+ *
+ * Two rendering styles:
+ * - braille: each cell holds 2x4 dots, giving connected lines at twice the
+ *   horizontal and four times the vertical resolution
+ * - block: filled columns using eighth-block characters (▁▂▃▄▅▆▇█); where
+ *   series overlap the highest one is drawn
+ */
+
+import React from 'react';
+import { Box, Text } from 'ink';
+import { useTheme } from '../../hooks/useTheme.js';
+import { formatBytes } from '../../hooks/useSlots.js';
+import { formatLag } from '../../utils/topology.js';
+import type {
+  ChartSeries,
+  TimelineChartStyle,
+  TimelinePoint,
+  TimelineUnit,
+} from '../../types/timeline.js';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/**
+ * Eighth-block characters, index 0 = empty, index 8 = full block.
+ */
+const BLOCK_CHARS = [' ', '▁', '▂', '▃', '▄', '▅', '▆', '▇', '█'] as const;
+
+/** First braille code point (no dots raised) */
+const BRAILLE_BASE = 0x2800;
+
+/**
+ * Braille dot bits indexed by [dot row][dot column] within a cell.
+ */
+const BRAILLE_DOTS: readonly (readonly [number, number])[] = [
+  [0x01, 0x08],
+  [0x02, 0x10],
+  [0x04, 0x20],
+  [0x40, 0x80],
+];
+
+/** Width reserved for Y-axis labels (fits "1023.9 MB") */
+const Y_LABEL_WIDTH = 9;
+
+/**
+ * Columns taken by the Y axis: label, space, and axis line.
+ */
+export const Y_AXIS_WIDTH = Y_LABEL_WIDTH + 2;
+
+/** Character drawn for the cursor in empty cells */
+const CURSOR_CHAR = '│';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface LineChartProps {
+  /** Series to draw; earlier series are drawn on top */
+  series: ChartSeries[];
+  /** Start of the time axis */
+  from: Date;
+  /** End of the time axis */
+  to: Date;
+  /** Plot width in characters (excluding the Y axis) */
+  width: number;
+  /** Plot height in rows */
+  height: number;
+  /** Unit for Y-axis labels */
+  unit: TimelineUnit;
+  /** Rendering style (default: braille) */
+  chartStyle?: TimelineChartStyle;
+  /** Cursor column from the left edge (null = no cursor) */
+  cursorColumn?: number | null;
+  /** Left time-axis label (e.g., "-5m") */
+  startLabel: string;
+}
+
+/**
+ * One rendered chart cell.
+ */
+export interface ChartCell {
+  /** Character to draw */
+  char: string;
+  /** Color of the series that owns the cell (null = empty) */
+  color: string | null;
+}
+
+/**
+ * Consecutive cells drawn with the same style.
+ */
+interface CellRun {
+  text: string;
+  color: string | null;
+  inverse: boolean;
+}
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+/**
+ * Format a value in the timeline unit.
+ */
+export function formatTimelineValue(value: number, unit: TimelineUnit): string {
+  return unit === 'seconds' ? formatLag(value) : formatBytes(value);
+}
+
+/**
+ * Bucket points into columns across [from, to], keeping the highest value
+ * per column so short spikes stay visible.
+ *
+ * @returns One entry per column, null where the column has no points
+ */
+export function bucketPoints(
+  points: TimelinePoint[],
+  from: Date,
+  to: Date,
+  columns: number
+): (number | null)[] {
+  const buckets: (number | null)[] = new Array<number | null>(columns).fill(null);
+  const start = from.getTime();
+  const span = to.getTime() - start;
+  if (columns <= 0 || span <= 0) return buckets;
+
+  for (const point of points) {
+    const offset = point.timestamp.getTime() - start;
+    if (offset < 0 || offset > span) continue;
+    const column = Math.min(columns - 1, Math.floor((offset / span) * columns));
+    const current = buckets[column] ?? null;
+    if (current === null || point.value > current) {
+      buckets[column] = point.value;
+    }
+  }
+  return buckets;
+}
+
+/**
+ * Highest value of any series within [from, to] (0 when empty).
+ */
+export function getScaleMax(series: ChartSeries[], from: Date, to: Date): number {
+  const start = from.getTime();
+  const end = to.getTime();
+  let max = 0;
+  for (const s of series) {
+    for (const point of s.points) {
+      const time = point.timestamp.getTime();
+      if (time >= start && time <= end && point.value > max) max = point.value;
+    }
+  }
+  return max;
+}
+
+/**
+ * Create an empty cell grid.
+ */
+function emptyGrid(width: number, height: number): ChartCell[][] {
+  return Array.from({ length: height }, () =>
+    Array.from({ length: width }, () => ({ char: ' ', color: null }))
+  );
+}
+
+/**
+ * Render series as braille lines.
+ *
+ * @returns Rows of cells, top row first
+ */
+export function renderBraille(
+  series: ChartSeries[],
+  from: Date,
+  to: Date,
+  width: number,
+  height: number,
+  max: number
+): ChartCell[][] {
+  const dotWidth = width * 2;
+  const dotHeight = height * 4;
+  const bits: number[][] = Array.from({ length: height }, () => new Array<number>(width).fill(0));
+  const owners: (string | null)[][] = Array.from({ length: height }, () =>
+    new Array<string | null>(width).fill(null)
+  );
+
+  const toDotRow = (value: number): number => {
+    const ratio = max > 0 ? Math.min(1, Math.max(0, value / max)) : 0;
+    return dotHeight - 1 - Math.round(ratio * (dotHeight - 1));
+  };
+
+  const setDot = (x: number, y: number, color: string): void => {
+    const row = Math.floor(y / 4);
+    const column = Math.floor(x / 2);
+    const bit = BRAILLE_DOTS[y % 4]?.[x % 2] ?? 0;
+    const rowBits = bits[row];
+    const rowOwners = owners[row];
+    if (!rowBits || !rowOwners) return;
+    rowBits[column] = (rowBits[column] ?? 0) | bit;
+    rowOwners[column] = color;
+  };
+
+  // Draw in reverse so the first series ends up on top
+  for (const s of [...series].reverse()) {
+    const values = bucketPoints(s.points, from, to, dotWidth);
+    let previous: number | null = null;
+    values.forEach((value, x) => {
+      if (value === null) {
+        previous = null;
+        return;
+      }
+      const y = toDotRow(value);
+      if (previous === null) {
+        setDot(x, y, s.color);
+      } else {
+        // Fill the vertical span from the previous column to keep the line connected
+        const step = y > previous ? 1 : -1;
+        for (let row = previous + (y === previous ? 0 : step); row !== y + step; row += step) {
+          setDot(x, row, s.color);
+        }
+      }
+      previous = y;
+    });
+  }
+
+  return bits.map((rowBits, row) =>
+    rowBits.map((cellBits, column) => ({
+      char: cellBits === 0 ? ' ' : String.fromCharCode(BRAILLE_BASE + cellBits),
+      color: cellBits === 0 ? null : (owners[row]?.[column] ?? null),
+    }))
+  );
+}
+
+/**
+ * Render series as filled block columns. Each column shows the highest
+ * series at that point, in that series' color.
+ *
+ * @returns Rows of cells, top row first
+ */
+export function renderBlocks(
+  series: ChartSeries[],
+  from: Date,
+  to: Date,
+  width: number,
+  height: number,
+  max: number
+): ChartCell[][] {
+  const grid = emptyGrid(width, height);
+  const bucketed = series.map((s) => bucketPoints(s.points, from, to, width));
+
+  for (let column = 0; column < width; column++) {
+    let value: number | null = null;
+    let color: string | null = null;
+    bucketed.forEach((values, index) => {
+      const v = values[column] ?? null;
+      if (v !== null && (value === null || v > value)) {
+        value = v;
+        color = series[index]?.color ?? null;
+      }
+    });
+    if (value === null) continue;
+
+    const ratio = max > 0 ? Math.min(1, Math.max(0, value / max)) : 0;
+    // Keep non-zero values visible as at least one eighth
+    const eighths = Math.max(value > 0 ? 1 : 0, Math.round(ratio * height * 8));
+    for (let level = 0; level < height; level++) {
+      const fill = Math.min(8, Math.max(0, eighths - level * 8));
+      const cell = grid[height - 1 - level]?.[column];
+      if (!cell || fill === 0) continue;
+      cell.char = BLOCK_CHARS[fill] ?? ' ';
+      cell.color = color;
+    }
+  }
+
+  return grid;
+}
+
+/**
+ * Y-axis label per row: the maximum on the top row, half of it in the
+ * middle, and zero on the bottom row.
+ */
+export function getAxisLabels(max: number, height: number, unit: TimelineUnit): string[] {
+  const labels = new Array<string>(height).fill('');
+  if (height <= 0) return labels;
+  labels[height - 1] = formatTimelineValue(0, unit);
+  if (max <= 0 || height < 2) return labels;
+  labels[0] = formatTimelineValue(max, unit);
+  if (height >= 5) {
+    labels[Math.floor((height - 1) / 2)] = formatTimelineValue(max / 2, unit);
+  }
+  return labels;
+}
+
+/**
+ * Center time of a column.
+ */
+export function getColumnTime(column: number, from: Date, to: Date, width: number): Date {
+  const span = to.getTime() - from.getTime();
+  return new Date(from.getTime() + ((column + 0.5) / width) * span);
+}
+
+/**
+ * Point closest to a time, if one lies within the tolerance.
+ */
+export function findNearestPoint(
+  points: TimelinePoint[],
+  time: Date,
+  toleranceMs: number
+): TimelinePoint | null {
+  const target = time.getTime();
+  let nearest: TimelinePoint | null = null;
+  let nearestDistance = Infinity;
+  for (const point of points) {
+    const distance = Math.abs(point.timestamp.getTime() - target);
+    if (distance <= toleranceMs && distance < nearestDistance) {
+      nearest = point;
+      nearestDistance = distance;
+    }
+  }
+  return nearest;
+}
+
+/**
+ * Group a row of cells into runs with the same color and cursor state.
+ */
+function toRuns(row: ChartCell[], cursorColumn: number | null, cursorColor: string): CellRun[] {
+  const runs: CellRun[] = [];
+  row.forEach((cell, column) => {
+    const isCursor = column === cursorColumn;
+    const empty = cell.color === null;
+    const text = isCursor && empty ? CURSOR_CHAR : cell.char;
+    const color = isCursor && empty ? cursorColor : cell.color;
+    const inverse = isCursor && !empty;
+    const last = runs[runs.length - 1];
+    if (last && last.color === color && last.inverse === inverse) {
+      last.text += text;
+    } else {
+      runs.push({ text, color, inverse });
+    }
+  });
+  return runs;
+}
+
+// =============================================================================
+// Component
+// =============================================================================
+
+/**
+ * Multi-series line chart with Y-axis labels and a time axis.
+ *
+ * Renders:
+ * - One row per chart line, prefixed by a right-aligned Y-axis label
+ * - Series in their own colors (braille lines or block columns)
+ * - A cursor column (inverse over data, │ over empty cells)
+ * - Time axis from startLabel to "now"
+ */
+export function LineChart({
+  series,
+  from,
+  to,
+  width,
+  height,
+  unit,
+  chartStyle = 'braille',
+  cursorColumn = null,
+  startLabel,
+}: LineChartProps): React.ReactElement {
+  const colors = useTheme();
+  const plotWidth = Math.max(1, Math.floor(width));
+  const plotHeight = Math.max(1, Math.floor(height));
+
+  const max = getScaleMax(series, from, to);
+  const grid =
+    chartStyle === 'block'
+      ? renderBlocks(series, from, to, plotWidth, plotHeight, max)
+      : renderBraille(series, from, to, plotWidth, plotHeight, max);
+  const labels = getAxisLabels(max, plotHeight, unit);
+  const gutter = Y_LABEL_WIDTH;
+
+  return (
+    <Box flexDirection="column">
+      {grid.map((row, index) => (
+        <Box key={index}>
+          <Text color={colors.muted}>
+            {(labels[index] ?? '').padStart(gutter)} {labels[index] ? '┤' : '│'}
+          </Text>
+          <Text>
+            {toRuns(row, cursorColumn, colors.muted).map((run, runIndex) => (
+              <Text
+                key={runIndex}
+                {...(run.color !== null ? { color: run.color } : {})}
+                inverse={run.inverse}
+              >
+                {run.text}
+              </Text>
+            ))}
+          </Text>
+        </Box>
+      ))}
+
+      {/* Time axis */}
+      <Text color={colors.muted}>
+        {' '.repeat(gutter + 1)}└{'─'.repeat(plotWidth)}
+      </Text>
+      <Box width={gutter + 2 + plotWidth}>
+        <Text color={colors.muted}>{' '.repeat(gutter + 2)}{startLabel}</Text>
+        <Box flexGrow={1} />
+        <Text color={colors.muted}>now</Text>
+      </Box>
+    </Box>
+  );
+}
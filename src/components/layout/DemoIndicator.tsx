@@ -0,0 +1,42 @@
+import React from 'react';
+import { Box, Text } from 'ink';
+import { useTheme } from '../../hooks/useTheme.js';
+import { scenarioPosition } from '../../services/simulator/index.js';
+import type { SimulatedCluster } from '../../services/simulator/index.js';
+
+/** How often the scenario clock is redrawn */
+const TICK_MS = 1000;
+
+export interface DemoIndicatorProps {
+  cluster: SimulatedCluster;
+}
+
+function formatClock(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  return `${Math.floor(totalSeconds / 60)}:${String(totalSeconds % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Header badge for demo mode: scenario name and position in the script.
+ */
+export function DemoIndicator({ cluster }: DemoIndicatorProps): React.ReactElement {
+  const colors = useTheme();
+  const [elapsedMs, setElapsedMs] = React.useState(() => cluster.getElapsedMs());
+
+  React.useEffect(() => {
+    const timer = setInterval(() => setElapsedMs(cluster.getElapsedMs()), TICK_MS);
+    return () => clearInterval(timer);
+  }, [cluster]);
+
+  const { scenario } = cluster;
+  const { lap, offsetMs } = scenarioPosition(scenario, elapsedMs);
+
+  return (
+    <Box>
+      <Text color={colors.warning} bold>DEMO</Text>
+      <Text color={colors.foreground}> {scenario.name}</Text>
+      <Text color={colors.muted}>  {formatClock(offsetMs)}/{formatClock(scenario.durationMs)}</Text>
+      {lap > 0 && <Text color={colors.muted}> (run {lap + 1})</Text>}
+    </Box>
+  );
+}
@@ -3,6 +3,7 @@ import { Box, Text } from 'ink';
 import { useTheme } from '../../hooks/useTheme.js';
 import { useConnectionStore } from '../../store/connection.js';
 import { useStore } from '../../store/index.js';
+import { getDemoCluster } from '../DemoSession.js';
 import type { Panel } from '../../store/types.js';
 
 export interface FooterProps {
@@ -16,15 +17,23 @@ export function Footer({ currentPanel, showTimestamp = false, keyboardHints }: F
   const currentScreen = useConnectionStore((s) => s.currentScreen);
   const pglogicalMode = useConnectionStore((s) => s.pglogicalMode);
   const focusedPanel = useStore((s) => s.focusedPanel);
+  const replay = useStore((s) => s.replay);
   const displayPanel = currentPanel ?? focusedPanel;
-  const hints = keyboardHints ?? (currentScreen === 'connection-status' ? '[r] retry  [q] quit' : '[t]op [s]ubs [sl]ots [c]onf [o]ps  [?] help  [q] quit');
+  const dashboardHints = replay
+    ? '[p]ause [/] ±10s {/} ±1m ,/. step 1/2/3 speed  [?] help  [q] quit'
+    : getDemoCluster()
+      ? '[t]op [s]ubs [sl]ots p[u]bs [c]onf [a]lerts [g]raph [d]iag  [?] help  [q] quit'
+      : '[t]op [s]ubs [sl]ots p[u]bs [c]onf [a]lerts [g]raph [o]ps [d]iag  [?] help  [q] quit';
+  const hints = keyboardHints ?? (currentScreen === 'connection-status' ? '[r] retry  [q] quit' : dashboardHints);
+  // Replays show the replayed time instead of the wall clock
+  const timestamp = replay?.currentTime ?? new Date();
 
   return (
     <Box borderStyle="single" borderTop={true} borderBottom={false} borderLeft={false} borderRight={false} borderColor={colors.muted} paddingX={1}>
       <Box flexGrow={1}><Text color={colors.muted}>{pglogicalMode && '[pglogical] '}{hints}</Text></Box>
       <Box>
         {currentScreen === 'dashboard' && <Text color={colors.primary} bold>{displayPanel.charAt(0).toUpperCase() + displayPanel.slice(1)}</Text>}
-        {showTimestamp && <Text color={colors.muted} dimColor> {new Date().toLocaleTimeString()}</Text>}
+        {showTimestamp && <Text color={colors.muted} dimColor> {timestamp.toLocaleTimeString()}</Text>}
       </Box>
     </Box>
   );
@@ -3,17 +3,27 @@ import { Box, useInput } from 'ink';
 import { Header } from './Header.js';
 import { Footer } from './Footer.js';
 import { Modal } from './Modal.js';
+import { ReplayIndicator } from './ReplayIndicator.js';
+import { DemoIndicator } from './DemoIndicator.js';
 import { useBreakpoint } from '../../hooks/useBreakpoint.js';
 import { useTerminalSize } from '../../hooks/useTerminalSize.js';
 import { useConnectionStore } from '../../store/connection.js';
 import { useStore } from '../../store/index.js';
 import { useSubscriptions } from '../../hooks/useSubscriptions.js';
 import { useSlots } from '../../hooks/useSlots.js';
+import { usePublications } from '../../hooks/usePublications.js';
 import { useTopology } from '../../hooks/useTopology.js';
 import { useConflicts } from '../../hooks/useConflicts.js';
 import { PANEL_SHORTCUTS } from '../../store/types.js';
 import type { Panel } from '../../store/types.js';
 import { exitApp } from '../../index.js';
+import { getReplayController } from '../ReplaySession.js';
+import { getDemoCluster } from '../DemoSession.js';
+import { REPLAY_SPEEDS } from '../../types/replay.js';
+
+/** Replay seek steps (recorded time) */
+const REPLAY_SEEK_SHORT_MS = 10_000;
+const REPLAY_SEEK_LONG_MS = 60_000;
 
 export interface MainLayoutProps {
   header?: React.ReactNode;
@@ -35,10 +45,13 @@ export function MainLayout({ header, footer, children }: MainLayoutProps): React
   const closeModal = useStore((s) => s.closeModal);
   const selectNext = useStore((s) => s.selectNext);
   const selectPrevious = useStore((s) => s.selectPrevious);
+  const replay = useStore((s) => s.replay);
+  const demoCluster = getDemoCluster();
 
   // Get selected items for detail modal
   const { selectedItem: selectedSubscription } = useSubscriptions();
   const { selectedItem: selectedSlot } = useSlots();
+  const { selectedItem: selectedPublication } = usePublications();
   const { nodes, selectedNodeId } = useTopology();
   const selectedNode = nodes.find((n) => n.nodeId === selectedNodeId);
   const { selectedItem: selectedConflict } = useConflicts();
@@ -46,6 +59,19 @@ export function MainLayout({ header, footer, children }: MainLayoutProps): React
   useInput((input, key) => {
     if (activeModal !== null) { if (key.escape) closeModal(); return; }
     if (input === 'q' || (key.ctrl && input === 'c')) { exitApp(0); return; }
+    const replayController = getReplayController();
+    if (replayController) {
+      // Playback controls; operations need a live database
+      if (input === 'p') { replayController.togglePause(); return; }
+      if (input === '[' || input === ']') { replayController.seekBy(input === '[' ? -REPLAY_SEEK_SHORT_MS : REPLAY_SEEK_SHORT_MS); return; }
+      if (input === '{' || input === '}') { replayController.seekBy(input === '{' ? -REPLAY_SEEK_LONG_MS : REPLAY_SEEK_LONG_MS); return; }
+      if (input === ',' || input === '.') { replayController.step(input === ',' ? -1 : 1); return; }
+      const speed = REPLAY_SPEEDS[Number(input) - 1];
+      if (speed !== undefined) { replayController.setSpeed(speed); return; }
+      if (input === 'o') return;
+    }
+    // Simulated nodes can't run operations
+    if (demoCluster && input === 'o') return;
     // 'o' opens operations modal instead of focusing operations panel
     if (input === 'o') { openModal({ type: 'operations', title: 'Operations' }); return; }
     const targetPanel = PANEL_SHORTCUTS[input] as Panel | undefined;
@@ -54,6 +80,7 @@ export function MainLayout({ header, footer, children }: MainLayoutProps): React
     if (input === 'j' || key.downArrow) { selectNext(); return; }
     if (input === 'k' || key.upArrow) { selectPrevious(); return; }
     if (input === '?' || input === 'h') { openModal({ type: 'help', title: 'Help' }); return; }
+    if (input === 'd') { openModal({ type: 'diagnostics', title: 'Diagnostics' }); return; }
     // Enter key opens detail modal for selected item
     if (key.return) {
       if (focusedPanel === 'topology' && selectedNode) {
@@ -74,6 +101,12 @@ export function MainLayout({ header, footer, children }: MainLayoutProps): React
           title: selectedSlot.slotName,
           data: selectedSlot,
         });
+      } else if (focusedPanel === 'publications' && selectedPublication) {
+        openModal({
+          type: 'details',
+          title: selectedPublication.name,
+          data: selectedPublication,
+        });
       } else if (focusedPanel === 'conflicts' && selectedConflict) {
         openModal({
           type: 'details',
@@ -92,7 +125,7 @@ export function MainLayout({ header, footer, children }: MainLayoutProps): React
 
   return (
     <Box key={layoutKey} flexDirection="column" width="100%" height="100%">
-      {!isCompact && (header ?? <Header showPglogicalBadge={pglogicalMode} />)}
+      {!isCompact && (header ?? <Header showPglogicalBadge={pglogicalMode} statusIndicators={replay ? <ReplayIndicator status={replay} /> : demoCluster && <DemoIndicator cluster={demoCluster} />} />)}
       <Box flexGrow={1} flexDirection="column" overflow="hidden">
         {activeModal !== null && modalData !== null ? <Modal config={modalData} onClose={closeModal} /> : children}
       </Box>
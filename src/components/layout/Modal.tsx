@@ -1,6 +1,7 @@
 import React from 'react';
 import { Box, Text, useInput } from 'ink';
 import { useTheme } from '../../hooks/useTheme.js';
+import { useStore } from '../../store/index.js';
 import { StatusDot } from '../atoms/StatusDot.js';
 import { Badge } from '../atoms/Badge.js';
 import { ProgressBar } from '../atoms/ProgressBar.js';
@@ -9,12 +10,36 @@ import { ConflictTypeBadge } from '../atoms/ConflictTypeBadge.js';
 import { ResolutionBadge } from '../atoms/ResolutionBadge.js';
 import { SourceBadge } from '../atoms/SourceBadge.js';
 import { OperationsModal } from '../modals/OperationsModal.js';
-import type { ModalConfig } from '../../store/types.js';
-import type { SubscriptionListItem } from '../../hooks/useSubscriptions.js';
-import type { SlotListItem } from '../../hooks/useSlots.js';
+import { DiagnosticsModal } from '../modals/DiagnosticsModal.js';
+import type { ModalConfig, SlotBlocker, WalReceiverData, WorkerEvent } from '../../store/types.js';
+import { formatDuration } from '../panels/SubscriptionsPanel.js';
+import {
+  getStatusVariant,
+  type SubscriptionListItem,
+  type SubscriptionTableItem,
+} from '../../hooks/useSubscriptions.js';
+import {
+  formatByteRate,
+  formatBytes,
+  formatRetentionForecast,
+  type SlotListItem,
+} from '../../hooks/useSlots.js';
 import type { ConflictListItem } from '../../hooks/useConflicts.js';
+import type { PublicationListItem } from '../../hooks/usePublications.js';
 import type { TopologyNodeData } from '../../types/topology.js';
 import { getLagSeverity, getLagColor, formatLag, getRoleBadgeLabel, getRoleBadgeColor } from '../../utils/topology.js';
+import { getTableSyncLabel } from '../../utils/table-sync.js';
+import { formatWorkerEvent } from '../../utils/worker-history.js';
+import { formatXidAge, getRetentionCauseLabel } from '../../utils/slot-retention.js';
+import { getRetentionLimitLabel } from '../../utils/wal-rate.js';
+import { getSequenceName } from '../../utils/sequences.js';
+import { formatPglogicalVersion, getCapabilityWarnings } from '../../utils/capabilities.js';
+
+/** Table rows shown in subscription details (initial syncs are listed first) */
+const MAX_TABLE_ROWS = 20;
+
+/** Apply worker events shown in subscription details (newest first) */
+const MAX_WORKER_EVENT_ROWS = 10;
 
 export interface ModalProps {
   config: ModalConfig;
@@ -37,6 +62,110 @@ function DetailRow({ label, value, valueColor }: { label: string; value: string
   );
 }
 
+/**
+ * Per-table sync states of a subscription, with time spent in initial sync.
+ */
+function SubscriptionTablesSection({ tables }: { tables: SubscriptionTableItem[] }): React.ReactElement {
+  const colors = useTheme();
+  const now = Date.now();
+  const ready = tables.filter((table) => table.state === 'ready').length;
+  const shown = tables.slice(0, MAX_TABLE_ROWS);
+
+  const stateColor = (table: SubscriptionTableItem): string => {
+    if (table.isSyncing) return colors.warning;
+    if (table.state === 'unknown') return colors.muted;
+    return colors.success;
+  };
+
+  return (
+    <Box flexDirection="column">
+      <Text bold color={colors.primary}>
+        Tables <Text color={colors.muted}>({ready}/{tables.length} ready)</Text>
+      </Text>
+      {tables.length === 0 ? (
+        <Box marginLeft={2}>
+          <Text color={colors.muted}>No table sync state reported</Text>
+        </Box>
+      ) : (
+        <Box marginLeft={2} flexDirection="column">
+          <Box>
+            <Box width={32}><Text color={colors.muted}>Table</Text></Box>
+            <Box width={14}><Text color={colors.muted}>State</Text></Box>
+            <Box width={16}><Text color={colors.muted}>Sync LSN</Text></Box>
+            <Text color={colors.muted}>Initial Sync</Text>
+          </Box>
+          {shown.map((table) => (
+            <Box key={`${table.schemaName}.${table.tableName}`}>
+              <Box width={32}>
+                <Text color={colors.foreground} wrap="truncate-end">{table.schemaName}.{table.tableName}</Text>
+              </Box>
+              <Box width={14}>
+                <Text color={stateColor(table)}>{getTableSyncLabel(table.state)}</Text>
+              </Box>
+              <Box width={16}>
+                <Text color={colors.foreground}>{table.syncLsn ?? '-'}</Text>
+              </Box>
+              <Text color={table.isSyncing ? colors.warning : colors.muted}>
+                {table.syncStartedAt
+                  ? formatDuration(Math.max(0, now - table.syncStartedAt.getTime()) / 1000)
+                  : '-'}
+              </Text>
+            </Box>
+          ))}
+          {tables.length > shown.length && (
+            <Text color={colors.muted}>... {tables.length - shown.length} more</Text>
+          )}
+        </Box>
+      )}
+    </Box>
+  );
+}
+
+/**
+ * Apply errors, apply worker restarts and auto-disables of a subscription
+ * seen while monitoring, newest first.
+ */
+function WorkerHistorySection({ item }: { item: SubscriptionListItem }): React.ReactElement {
+  const colors = useTheme();
+  const shown = item.workerEvents.slice(-MAX_WORKER_EVENT_ROWS).reverse();
+
+  const eventColor = (event: WorkerEvent): string => {
+    if (event.type === 'auto_disabled') return colors.critical;
+    return colors.warning;
+  };
+
+  return (
+    <Box flexDirection="column">
+      <Text bold color={colors.primary}>
+        Worker History{' '}
+        <Text color={colors.muted}>
+          ({item.recentRestarts} restart{item.recentRestarts !== 1 ? 's' : ''}, {item.recentApplyErrors}{' '}
+          apply error{item.recentApplyErrors !== 1 ? 's' : ''} in 10m)
+        </Text>
+      </Text>
+      {shown.length === 0 ? (
+        <Box marginLeft={2}>
+          <Text color={colors.muted}>No apply errors or worker restarts seen</Text>
+        </Box>
+      ) : (
+        <Box marginLeft={2} flexDirection="column">
+          {shown.map((event, index) => (
+            <Box key={`${event.timestamp.getTime()}-${event.type}-${index}`}>
+              <Box width={12}>
+                <Text color={colors.muted}>{event.timestamp.toLocaleTimeString()}</Text>
+              </Box>
+              <Text color={eventColor(event)}>{formatWorkerEvent(event)}</Text>
+            </Box>
+          ))}
+          {item.workerEvents.length > shown.length && (
+            <Text color={colors.muted}>... {item.workerEvents.length - shown.length} earlier</Text>
+          )}
+        </Box>
+      )}
+    </Box>
+  );
+}
+
 /**
  * Subscription detail content for modal.
  */
@@ -56,7 +185,9 @@ function SubscriptionDetailContent({ item }: { item: SubscriptionListItem }): Re
         <Box gap={2} marginLeft={2}>
           <StatusDot variant={item.statusVariant} label={item.status} />
           <Badge label={item.source} variant={item.source === 'pglogical' ? 'secondary' : 'muted'} />
-          {!item.enabled && <Badge label="disabled" variant="muted" />}
+          {!item.enabled && !item.isAutoDisabled && <Badge label="disabled" variant="muted" />}
+          {item.isAutoDisabled && <Badge label="auto-disabled" variant="critical" />}
+          {item.isCrashLooping && <Badge label="restarting" variant="warning" />}
           {item.isStale && <Badge label="stale" variant="warning" />}
         </Box>
       </Box>
@@ -86,10 +217,12 @@ function SubscriptionDetailContent({ item }: { item: SubscriptionListItem }): Re
         </Box>
       )}
 
-      {/* Replication sets (pglogical only) */}
+      {/* Replication sets (pglogical) or publications (native) */}
       {item.replicationSets.length > 0 && (
         <Box flexDirection="column">
-          <Text bold color={colors.primary}>Replication Sets</Text>
+          <Text bold color={colors.primary}>
+            {item.source === 'native' ? 'Publications' : 'Replication Sets'}
+          </Text>
           <Box marginLeft={2}>
             <Text color={colors.foreground}>{item.replicationSets.join(', ')}</Text>
           </Box>
@@ -103,9 +236,15 @@ function SubscriptionDetailContent({ item }: { item: SubscriptionListItem }): Re
           <DetailRow label="Slot Name" value={item.slotName} />
           <DetailRow label="Worker PID" value={item.workerPid?.toString() ?? null} />
           <DetailRow label="Last Message" value={formatDate(item.lastMessageTime)} />
+          {item.disableOnError !== null && (
+            <DetailRow label="Disable On Error" value={item.disableOnError ? 'yes' : 'no'} />
+          )}
         </Box>
       </Box>
 
+      {/* Apply errors and worker restarts over time */}
+      {item.source === 'native' && <WorkerHistorySection item={item} />}
+
       {/* LSN section */}
       <Box flexDirection="column">
         <Text bold color={colors.primary}>LSN Positions</Text>
@@ -115,6 +254,9 @@ function SubscriptionDetailContent({ item }: { item: SubscriptionListItem }): Re
         </Box>
       </Box>
 
+      {/* Per-table sync state */}
+      <SubscriptionTablesSection tables={item.tables} />
+
       {/* Lag section */}
       {item.latestLag && (
         <Box flexDirection="column">
@@ -147,11 +289,105 @@ function SubscriptionDetailContent({ item }: { item: SubscriptionListItem }): Re
   );
 }
 
+/**
+ * Receiving side of a physical standby (pg_stat_wal_receiver).
+ */
+function StandbySection({ receiver, upstream }: { receiver: WalReceiverData; upstream: string | null }): React.ReactElement {
+  const colors = useTheme();
+  const lagThresholds = useStore((s) => s.thresholds.replicationLag);
+  const severity = getLagSeverity(receiver.replayLagSeconds, lagThresholds);
+
+  return (
+    <Box flexDirection="column">
+      <Text bold color={colors.primary}>Standby</Text>
+      <Box marginLeft={2} flexDirection="column">
+        <DetailRow label="Upstream" value={upstream} />
+        <DetailRow
+          label="Receiver"
+          value={receiver.status ?? 'not running'}
+          valueColor={receiver.status === 'streaming' ? colors.success : colors.warning}
+        />
+        <DetailRow label="Receive LSN" value={receiver.receiveLsn} />
+        <DetailRow label="Replay LSN" value={receiver.replayLsn} />
+        <DetailRow
+          label="Replay Pending"
+          value={receiver.replayLagBytes !== null ? formatBytes(receiver.replayLagBytes) : null}
+        />
+        <DetailRow
+          label="Replay Lag"
+          value={receiver.replayLagSeconds !== null ? formatLag(receiver.replayLagSeconds) : null}
+          valueColor={colors[getLagColor(severity)]}
+        />
+        <DetailRow label="Last Replay" value={receiver.lastReplayAt?.toLocaleString() ?? null} />
+        <DetailRow label="Slot" value={receiver.slotName} />
+        <DetailRow label="Conninfo" value={receiver.conninfo} />
+      </Box>
+    </Box>
+  );
+}
+
+/**
+ * Server version and replication settings from the capability probe, with
+ * warnings for settings that don't fit the node's replication setup.
+ */
+function CapabilitiesSection({ nodeId }: { nodeId: string }): React.ReactElement | null {
+  const colors = useTheme();
+  const capabilities = useStore((s) => s.capabilities.get(nodeId));
+  const slots = useStore((s) => s.slots.get(nodeId));
+  const publications = useStore((s) => s.publications.get(nodeId));
+
+  if (!capabilities) return null;
+
+  const warnings = getCapabilityWarnings(capabilities, slots ?? [], publications ?? []);
+  const onOff = (value: boolean | null): string | null => (value === null ? null : value ? 'on' : 'off');
+
+  return (
+    <Box flexDirection="column">
+      <Text bold color={colors.primary}>Capabilities</Text>
+      <Box marginLeft={2} flexDirection="column">
+        <DetailRow label="PostgreSQL" value={`${capabilities.version} (${capabilities.versionNum})`} />
+        <DetailRow label="pglogical" value={formatPglogicalVersion(capabilities)} />
+        <DetailRow label="WAL Level" value={capabilities.walLevel} />
+        <DetailRow
+          label="Max Slots"
+          value={
+            capabilities.maxReplicationSlots !== null
+              ? `${capabilities.maxReplicationSlots} (${slots?.length ?? 0} in use)`
+              : null
+          }
+        />
+        <DetailRow
+          label="Max WAL Senders"
+          value={capabilities.maxWalSenders !== null ? String(capabilities.maxWalSenders) : null}
+        />
+        <DetailRow label="Commit Timestamp" value={onOff(capabilities.trackCommitTimestamp)} />
+        {capabilities.hasPglogical && (
+          <DetailRow
+            label="Conflict History"
+            value={capabilities.conflictHistory ? 'available' : 'unavailable'}
+          />
+        )}
+        <DetailRow label="Probed" value={capabilities.probedAt.toLocaleString()} />
+      </Box>
+      {warnings.length > 0 && (
+        <Box marginLeft={2} marginTop={1} flexDirection="column">
+          {warnings.map((warning) => (
+            <Text key={warning.setting} color={colors[warning.severity]}>
+              ⚠ {warning.message}
+            </Text>
+          ))}
+        </Box>
+      )}
+    </Box>
+  );
+}
+
 /**
  * Topology node detail content for modal.
  */
 function TopologyNodeDetailContent({ node }: { node: TopologyNodeData }): React.ReactElement {
   const colors = useTheme();
+  const lagThresholds = useStore((s) => s.thresholds.replicationLag);
 
   // Connection status to StatusDot variant
   const statusVariant = node.connectionStatus === 'connected' ? 'success'
@@ -169,6 +405,7 @@ function TopologyNodeDetailContent({ node }: { node: TopologyNodeData }): React.
           <Badge label={getRoleBadgeLabel(node.role)} variant={getRoleBadgeColor(node.role)} />
           {node.hasPglogical && <Badge label="pglogical" variant="secondary" />}
           {node.isStale && <Badge label="stale" variant="warning" />}
+          {node.isExternal && <Badge label="not configured" variant="muted" />}
         </Box>
       </Box>
 
@@ -181,13 +418,24 @@ function TopologyNodeDetailContent({ node }: { node: TopologyNodeData }): React.
         </Box>
       </Box>
 
+      {/* Version and settings (configured nodes only) */}
+      {!node.isExternal && <CapabilitiesSection nodeId={node.nodeId} />}
+
+      {/* WAL receiver (physical standbys only) */}
+      {node.walReceiver && (
+        <StandbySection
+          receiver={node.walReceiver}
+          upstream={node.incomingEdges.find((e) => e.replicationType === 'physical')?.sourceNodeId ?? null}
+        />
+      )}
+
       {/* Incoming edges (subscriptions TO this node) */}
       {node.incomingEdges.length > 0 && (
         <Box flexDirection="column">
           <Text bold color={colors.primary}>Incoming Replication ({node.incomingEdges.length})</Text>
           <Box marginLeft={2} flexDirection="column">
             {node.incomingEdges.map((edge) => {
-              const severity = getLagSeverity(edge.lagSeconds);
+              const severity = getLagSeverity(edge.lagSeconds, lagThresholds);
               const lagColorKey = getLagColor(severity);
               return (
                 <Box key={edge.id} gap={2}>
@@ -209,7 +457,7 @@ function TopologyNodeDetailContent({ node }: { node: TopologyNodeData }): React.
           <Text bold color={colors.primary}>Outgoing Replication ({node.outgoingEdges.length})</Text>
           <Box marginLeft={2} flexDirection="column">
             {node.outgoingEdges.map((edge) => {
-              const severity = getLagSeverity(edge.lagSeconds);
+              const severity = getLagSeverity(edge.lagSeconds, lagThresholds);
               const lagColorKey = getLagColor(severity);
               return (
                 <Box key={edge.id} gap={2}>
@@ -292,6 +540,11 @@ function SlotDetailContent({ item }: { item: SlotListItem }): React.ReactElement
           <DetailRow label="Slot Type" value={item.slotType} />
           {item.plugin && <DetailRow label="Plugin" value={item.plugin} />}
           {item.database && <DetailRow label="Database" value={item.database} />}
+          {item.confirmedFlushLsn && <DetailRow label="Confirmed Flush" value={item.confirmedFlushLsn} />}
+          {item.twoPhase !== null && <DetailRow label="Two Phase" value={item.twoPhase ? 'yes' : 'no'} />}
+          {item.inactiveSince && (
+            <DetailRow label="Inactive Since" value={formatDate(item.inactiveSince)} />
+          )}
         </Box>
       </Box>
 
@@ -305,6 +558,14 @@ function SlotDetailContent({ item }: { item: SlotListItem }): React.ReactElement
             </Box>
             <Text color={retentionColor}>{item.formattedRetention}</Text>
           </Box>
+          <DetailRow label="Pending" value={item.formattedPending} />
+          {item.retentionCause && (
+            <DetailRow
+              label="Cause"
+              value={getRetentionCauseLabel(item.retentionCause)}
+              valueColor={item.retentionCause === 'lagging' ? colors.foreground : colors.warning}
+            />
+          )}
           <Box>
             <Box width={18}>
               <Text color={colors.muted}>Progress:</Text>
@@ -334,6 +595,9 @@ function SlotDetailContent({ item }: { item: SlotListItem }): React.ReactElement
         </Box>
       </Box>
 
+      {/* Where retention is heading at the current WAL rates */}
+      <SlotWalTrendSection item={item} />
+
       {/* WAL Status section (PG13+) */}
       {item.walStatus !== null && (
         <Box flexDirection="column">
@@ -354,10 +618,44 @@ function SlotDetailContent({ item }: { item: SlotListItem }): React.ReactElement
                 }
               />
             </Box>
+            {/* safe_wal_size is only reported under max_slot_wal_keep_size */}
+            <DetailRow
+              label="Safe WAL Size"
+              value={
+                item.safeWalSize !== null && item.maxSlotWalKeepSize !== null
+                  ? `${formatBytes(item.safeWalSize)} of ${formatBytes(item.maxSlotWalKeepSize)}`
+                  : 'unlimited'
+              }
+              valueColor={getSeverityColor(item.walStatusSeverity)}
+            />
           </Box>
         </Box>
       )}
 
+      {/* Transaction horizon held back by the slot */}
+      {item.horizonAge !== null && (
+        <Box flexDirection="column">
+          <Text bold color={colors.primary}>Transaction Horizon</Text>
+          <Box marginLeft={2} flexDirection="column">
+            {item.xminAge !== null && <DetailRow label="Xmin Age" value={formatXidAge(item.xminAge)} />}
+            {item.catalogXminAge !== null && (
+              <DetailRow label="Catalog Xmin Age" value={formatXidAge(item.catalogXminAge)} />
+            )}
+            <DetailRow
+              label="Wraparound"
+              value={`${item.wraparoundPercent.toFixed(1)}% of xid space`}
+              valueColor={getSeverityColor(item.xminSeverity)}
+            />
+          </Box>
+        </Box>
+      )}
+
+      {/* Long-running transaction holding back restart_lsn */}
+      {item.blocker && <SlotBlockerSection blocker={item.blocker} />}
+
+      {/* Logical decoding statistics (logical slots only) */}
+      {item.slotType === 'logical' && <SlotDecodingSection item={item} />}
+
       {/* Timestamp */}
       <Box flexDirection="column">
         <Text bold color={colors.primary}>Last Updated</Text>
@@ -369,6 +667,306 @@ function SlotDetailContent({ item }: { item: SlotListItem }): React.ReactElement
   );
 }
 
+/**
+ * WAL generated on the slot's node against WAL its consumer confirms, and
+ * when retention reaches its nearest limit at that pace.
+ */
+function SlotWalTrendSection({ item }: { item: SlotListItem }): React.ReactElement {
+  const colors = useTheme();
+  const growth = item.retentionGrowthBytesPerSec;
+  const forecast = item.retentionForecast;
+  const flushRate = item.walRates?.confirmedFlushBytesPerSec ?? null;
+
+  let forecastLabel = 'not approaching a limit';
+  if (forecast) {
+    forecastLabel = `${formatRetentionForecast(forecast)} (${getRetentionLimitLabel(forecast.limit)})`;
+  } else if (growth === null) {
+    forecastLabel = 'measuring…';
+  }
+
+  return (
+    <Box flexDirection="column">
+      <Text bold color={colors.primary}>WAL Trend</Text>
+      <Box marginLeft={2} flexDirection="column">
+        <DetailRow
+          label="Node WAL Rate"
+          value={item.nodeWalBytesPerSec !== null ? formatByteRate(item.nodeWalBytesPerSec) : null}
+        />
+        {item.slotType === 'logical' && (
+          <DetailRow
+            label="Flush Rate"
+            value={flushRate !== null ? formatByteRate(flushRate) : null}
+          />
+        )}
+        <DetailRow
+          label="Retention Trend"
+          value={
+            growth === null
+              ? null
+              : `${growth > 0 ? '+' : growth < 0 ? '-' : ''}${formatByteRate(Math.abs(growth))}`
+          }
+          valueColor={growth !== null && growth > 0 ? colors.warning : colors.foreground}
+        />
+        <DetailRow
+          label="Forecast"
+          value={forecastLabel}
+          valueColor={
+            forecast
+              ? forecast.limit === 'max_slot_wal_keep_size'
+                ? colors.critical
+                : colors.warning
+              : colors.muted
+          }
+        />
+      </Box>
+    </Box>
+  );
+}
+
+/**
+ * Backend whose open transaction keeps a logical slot from advancing.
+ */
+function SlotBlockerSection({ blocker }: { blocker: SlotBlocker }): React.ReactElement {
+  const colors = useTheme();
+  const openSeconds = Math.max(0, Date.now() - blocker.xactStart.getTime()) / 1000;
+
+  return (
+    <Box flexDirection="column">
+      <Text bold color={colors.primary}>Blocking Transaction</Text>
+      <Box marginLeft={2} flexDirection="column">
+        <DetailRow label="PID" value={String(blocker.pid)} valueColor={colors.warning} />
+        <DetailRow label="User" value={blocker.user} />
+        <DetailRow label="Application" value={blocker.applicationName} />
+        <DetailRow label="State" value={blocker.state} />
+        <DetailRow label="Open For" value={formatDuration(openSeconds)} valueColor={colors.warning} />
+        {blocker.xidAge !== null && <DetailRow label="Xid Age" value={formatXidAge(blocker.xidAge)} />}
+        <DetailRow label="Query" value={blocker.query} />
+      </Box>
+    </Box>
+  );
+}
+
+/**
+ * Logical decoding statistics of a slot (pg_stat_replication_slots, PG14+).
+ */
+function SlotDecodingSection({ item }: { item: SlotListItem }): React.ReactElement {
+  const colors = useTheme();
+  const stats = item.decodingStats;
+  const rates = item.decodingRates;
+
+  if (!stats) {
+    return (
+      <Box flexDirection="column">
+        <Text bold color={colors.primary}>Logical Decoding</Text>
+        <Box marginLeft={2}>
+          <Text color={colors.muted}>Not available (PostgreSQL 14+)</Text>
+        </Box>
+      </Box>
+    );
+  }
+
+  const rate = (txnsPerSec: number | undefined, bytesPerSec: number | undefined): string =>
+    txnsPerSec === undefined || bytesPerSec === undefined
+      ? '-'
+      : `${txnsPerSec.toFixed(1)} txn/s  ${formatByteRate(bytesPerSec)}`;
+  const total = (txns: number, bytes: number): string =>
+    `${txns.toLocaleString()} txns  ${formatBytes(bytes)}`;
+
+  return (
+    <Box flexDirection="column">
+      <Text bold color={colors.primary}>Logical Decoding</Text>
+      <Box marginLeft={2} flexDirection="column">
+        <DetailRow
+          label="Spill Rate"
+          value={rate(rates?.spillTxnsPerSec, rates?.spillBytesPerSec)}
+          valueColor={item.isSpilling ? colors.warning : colors.foreground}
+        />
+        <DetailRow label="Stream Rate" value={rate(rates?.streamTxnsPerSec, rates?.streamBytesPerSec)} />
+        <DetailRow label="Decode Rate" value={rate(rates?.totalTxnsPerSec, rates?.totalBytesPerSec)} />
+        <DetailRow label="Spilled" value={total(stats.spillTxns, stats.spillBytes)} />
+        <DetailRow label="Streamed" value={total(stats.streamTxns, stats.streamBytes)} />
+        <DetailRow label="Decoded" value={total(stats.totalTxns, stats.totalBytes)} />
+        <DetailRow label="Stats Reset" value={stats.statsReset?.toLocaleString() ?? null} />
+      </Box>
+    </Box>
+  );
+}
+
+/**
+ * Published sequences with their provider and subscriber values,
+ * highlighting subscribers behind the provider.
+ */
+function SequenceDriftSection({ item }: { item: PublicationListItem }): React.ReactElement {
+  const colors = useTheme();
+  const sequenceCount = new Set(item.sequenceDrift.map(getSequenceName)).size;
+  const shownDrift = item.sequenceDrift.slice(0, MAX_TABLE_ROWS);
+  const formatValue = (value: string | null): string => value ?? '-';
+
+  return (
+    <Box flexDirection="column">
+      <Text bold color={colors.primary}>
+        Sequences <Text color={colors.muted}>({sequenceCount})</Text>
+        {item.behindSequenceCount > 0 && (
+          <Text color={colors.warning}> · {item.behindSequenceCount} behind</Text>
+        )}
+      </Text>
+      <Box marginLeft={2} flexDirection="column">
+        <Box>
+          <Box width={32}><Text color={colors.muted}>Sequence</Text></Box>
+          <Box width={16}><Text color={colors.muted}>Node</Text></Box>
+          <Box width={14}><Text color={colors.muted}>Provider</Text></Box>
+          <Box width={14}><Text color={colors.muted}>Subscriber</Text></Box>
+          <Text color={colors.muted}>Status</Text>
+        </Box>
+        {shownDrift.map((drift) => (
+          <Box key={`${getSequenceName(drift)}:${drift.nodeId}`}>
+            <Box width={32}>
+              <Text color={colors.foreground} wrap="truncate-end">{getSequenceName(drift)}</Text>
+            </Box>
+            <Box width={16}>
+              <Text color={colors.foreground} wrap="truncate-end">{drift.nodeName}</Text>
+            </Box>
+            <Box width={14}>
+              <Text color={colors.foreground}>{formatValue(drift.providerValue)}</Text>
+            </Box>
+            <Box width={14}>
+              <Text color={drift.status === 'behind' ? colors.warning : colors.foreground}>
+                {formatValue(drift.subscriberValue)}
+              </Text>
+            </Box>
+            {drift.status === 'behind' ? (
+              <Text color={colors.warning}>
+                {drift.behindBy === null ? 'behind (never used)' : `behind by ${drift.behindBy}`}
+              </Text>
+            ) : drift.status === 'missing' ? (
+              <Text color={colors.critical}>missing</Text>
+            ) : (
+              <Text color={colors.success}>in sync</Text>
+            )}
+          </Box>
+        ))}
+        {item.sequenceDrift.length > shownDrift.length && (
+          <Text color={colors.muted}>... {item.sequenceDrift.length - shownDrift.length} more</Text>
+        )}
+        {item.behindSequenceCount > 0 && (
+          <Text color={colors.muted}>
+            Synchronize Sequence in the operations modal (o) catches up the furthest behind
+          </Text>
+        )}
+      </Box>
+    </Box>
+  );
+}
+
+/**
+ * Publication or pglogical replication set detail content for modal.
+ */
+function PublicationDetailContent({ item }: { item: PublicationListItem }): React.ReactElement {
+  const colors = useTheme();
+  const operations = (['insert', 'update', 'delete', 'truncate'] as const)
+    .filter((operation) => item.operations[operation] === true)
+    .join(', ');
+  const shownTables = item.tables.slice(0, MAX_TABLE_ROWS);
+
+  return (
+    <Box flexDirection="column" gap={1}>
+      {/* Source and staleness */}
+      <Box gap={2}>
+        <Badge label={item.source} variant={item.source === 'pglogical' ? 'secondary' : 'muted'} />
+        {item.isStale && <Badge label="stale" variant="warning" />}
+      </Box>
+
+      {/* Publication details */}
+      <Box flexDirection="column">
+        <Text bold color={colors.primary}>
+          {item.source === 'native' ? 'Publication' : 'Replication Set'}
+        </Text>
+        <Box marginLeft={2} flexDirection="column">
+          <DetailRow label="Node" value={item.nodeName} />
+          <DetailRow label="Operations" value={operations || 'none'} />
+          {item.operations.truncate === null && (
+            <DetailRow label="Truncate" value="not replicated (before PostgreSQL 11)" valueColor={colors.muted} />
+          )}
+          {item.source === 'native' && <DetailRow label="All Tables" value={item.allTables ? 'yes' : 'no'} />}
+        </Box>
+      </Box>
+
+      {/* Member tables with row filters and column lists */}
+      <Box flexDirection="column">
+        <Text bold color={colors.primary}>
+          Tables <Text color={colors.muted}>({item.tables.length})</Text>
+        </Text>
+        {item.tables.length === 0 ? (
+          <Box marginLeft={2}>
+            <Text color={colors.muted}>{item.allTables ? 'All tables (none yet)' : 'No tables'}</Text>
+          </Box>
+        ) : (
+          <Box marginLeft={2} flexDirection="column">
+            <Box>
+              <Box width={32}><Text color={colors.muted}>Table</Text></Box>
+              <Box width={24}><Text color={colors.muted}>Columns</Text></Box>
+              <Text color={colors.muted}>Row Filter</Text>
+            </Box>
+            {shownTables.map((table) => (
+              <Box key={`${table.schemaName}.${table.tableName}`}>
+                <Box width={32}>
+                  <Text color={colors.foreground} wrap="truncate-end">{table.schemaName}.{table.tableName}</Text>
+                </Box>
+                <Box width={24}>
+                  <Text color={table.columns ? colors.secondary : colors.muted} wrap="truncate-end">
+                    {table.columns ? table.columns.join(', ') : 'all'}
+                  </Text>
+                </Box>
+                <Text color={table.rowFilter ? colors.secondary : colors.muted} wrap="truncate-end">
+                  {table.rowFilter ?? '-'}
+                </Text>
+              </Box>
+            ))}
+            {item.tables.length > shownTables.length && (
+              <Text color={colors.muted}>... {item.tables.length - shownTables.length} more</Text>
+            )}
+          </Box>
+        )}
+      </Box>
+
+      {/* Member sequences, compared with each subscriber */}
+      {item.sequenceDrift.length > 0 ? (
+        <SequenceDriftSection item={item} />
+      ) : item.sequences.length > 0 && (
+        <Box flexDirection="column">
+          <Text bold color={colors.primary}>
+            Sequences <Text color={colors.muted}>({item.sequences.length})</Text>
+          </Text>
+          <Box marginLeft={2}>
+            <Text color={colors.foreground}>
+              {item.sequences.map((seq) => `${seq.schemaName}.${seq.sequenceName}`).join(', ')}
+            </Text>
+          </Box>
+        </Box>
+      )}
+
+      {/* Consuming subscriptions */}
+      <Box flexDirection="column">
+        <Text bold color={colors.primary}>Subscribers</Text>
+        <Box marginLeft={2} flexDirection="column">
+          {item.consumers.length === 0 ? (
+            <Text color={colors.muted}>No subscription consumes this {item.source === 'native' ? 'publication' : 'set'}</Text>
+          ) : (
+            item.consumers.map((consumer) => (
+              <Box key={`${consumer.nodeId}:${consumer.subscriptionName}`} gap={1}>
+                <StatusDot variant={getStatusVariant(consumer.status, consumer.enabled)} />
+                <Text color={colors.foreground}>{consumer.subscriptionName}</Text>
+                <Text color={colors.muted}>on {consumer.nodeName}</Text>
+                {consumer.matchedByName && <Text color={colors.muted} dimColor>(matched by name)</Text>}
+              </Box>
+            ))
+          )}
+        </Box>
+      </Box>
+    </Box>
+  );
+}
+
 /**
  * Conflict detail content for modal.
  */
@@ -498,12 +1096,25 @@ export function Modal({ config, onClose, children }: ModalProps): React.ReactEle
           <Text><Text color={colors.secondary}>t</Text>        Topology panel</Text>
           <Text><Text color={colors.secondary}>s</Text>        Subscriptions panel</Text>
           <Text><Text color={colors.secondary}>l</Text>        Slots panel</Text>
+          <Text><Text color={colors.secondary}>u</Text>        Publications panel</Text>
           <Text><Text color={colors.secondary}>c</Text>        Conflicts panel</Text>
+          <Text><Text color={colors.secondary}>a</Text>        Alerts panel</Text>
+          <Text><Text color={colors.secondary}>g</Text>        Lag Timeline panel</Text>
           <Text><Text color={colors.secondary}>o</Text>        Operations panel</Text>
+          <Text><Text color={colors.secondary}>d</Text>        Diagnostics</Text>
           <Text><Text color={colors.secondary}>Tab</Text>      Next panel</Text>
           <Text><Text color={colors.secondary}>↑/k</Text>      Previous item</Text>
           <Text><Text color={colors.secondary}>↓/j</Text>      Next item</Text>
           <Text><Text color={colors.secondary}>Enter</Text>    View details</Text>
+          <Text><Text color={colors.secondary}>z</Text>        Timeline: zoom 5m/1h/24h</Text>
+          <Text><Text color={colors.secondary}>←/→</Text>      Timeline: move cursor</Text>
+          <Text><Text color={colors.secondary}>Space</Text>    Timeline: show/hide subscription</Text>
+          <Text><Text color={colors.secondary}>b</Text>        Timeline: braille/block chart</Text>
+          <Text><Text color={colors.secondary}>p</Text>        Replay: pause/resume</Text>
+          <Text><Text color={colors.secondary}>[/]</Text>      Replay: seek -/+10s</Text>
+          <Text><Text color={colors.secondary}>{'{/}'}</Text>      Replay: seek -/+1m</Text>
+          <Text><Text color={colors.secondary}>,/.</Text>      Replay: previous/next frame</Text>
+          <Text><Text color={colors.secondary}>1/2/3</Text>    Replay: 1x/10x/60x speed</Text>
           <Text><Text color={colors.secondary}>h/?</Text>      Show this help</Text>
           <Text><Text color={colors.secondary}>Esc</Text>      Close modal</Text>
           <Text><Text color={colors.secondary}>q</Text>        Quit application</Text>
@@ -511,6 +1122,10 @@ export function Modal({ config, onClose, children }: ModalProps): React.ReactEle
       );
     }
 
+    if (config.type === 'diagnostics') {
+      return <DiagnosticsModal />;
+    }
+
     if (config.type === 'details' && config.data) {
       // Check if it's a subscription item
       const subItem = config.data as SubscriptionListItem;
@@ -524,6 +1139,12 @@ export function Modal({ config, onClose, children }: ModalProps): React.ReactEle
         return <SlotDetailContent item={slotItem} />;
       }
 
+      // Check if it's a publication item
+      const publicationItem = config.data as PublicationListItem;
+      if (publicationItem.formattedOperations !== undefined && publicationItem.consumers !== undefined) {
+        return <PublicationDetailContent item={publicationItem} />;
+      }
+
       // Check if it's a conflict item
       const conflictItem = config.data as ConflictListItem;
       if (conflictItem.conflictType !== undefined && conflictItem.resolution !== undefined) {
@@ -0,0 +1,26 @@
+import React from 'react';
+import { Box, Text } from 'ink';
+import { useTheme } from '../../hooks/useTheme.js';
+import type { ReplayStatus } from '../../types/replay.js';
+
+export interface ReplayIndicatorProps {
+  status: ReplayStatus;
+}
+
+/**
+ * Header badge for replay mode: play state, speed, replayed time, and position.
+ */
+export function ReplayIndicator({ status }: ReplayIndicatorProps): React.ReactElement {
+  const colors = useTheme();
+  const state = status.ended ? '■ end' : status.paused ? '❚❚ paused' : `▶ ${status.speed}x`;
+  const time = status.currentTime ? status.currentTime.toLocaleString() : '--';
+
+  return (
+    <Box>
+      <Text color={colors.warning} bold>REPLAY</Text>
+      <Text color={colors.foreground}> {state}</Text>
+      <Text color={colors.muted}>  {time}  {status.position + 1}/{status.frameCount}</Text>
+      {status.truncated && <Text color={colors.warning}> [truncated]</Text>}
+    </Box>
+  );
+}
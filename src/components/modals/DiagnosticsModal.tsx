@@ -0,0 +1,89 @@
+/**
+ * Diagnostics Modal Content Component
+ *
+ * Lists the doctor findings for every node with their severity and a
+ * suggested fix, the same checks `replmon doctor` runs.
+ */
+
+import React from 'react';
+import { Box, Text } from 'ink';
+import { useTheme } from '../../hooks/useTheme.js';
+import { useDiagnostics } from '../../hooks/useDiagnostics.js';
+import { Badge } from '../atoms/Badge.js';
+import type { IdentityCheckStatus } from '../../hooks/useDiagnostics.js';
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Note on the replica identity check while it can't report yet.
+ */
+function getIdentityNote(status: IdentityCheckStatus): string | null {
+  switch (status) {
+    case 'checking':
+      return 'Checking published tables for a replica identity…';
+    case 'unavailable':
+      return 'Replica identity not checked: no database connection';
+    case 'done':
+      return null;
+  }
+}
+
+// =============================================================================
+// Main Component
+// =============================================================================
+
+/**
+ * Diagnostics modal content: a summary line, then each node's findings.
+ */
+export function DiagnosticsModal(): React.ReactElement {
+  const colors = useTheme();
+  const { report, counts, identityStatus } = useDiagnostics();
+  const identityNote = getIdentityNote(identityStatus);
+
+  return (
+    <Box flexDirection="column">
+      <Box>
+        <Text color={colors.foreground}>
+          {report.nodes.length} node{report.nodes.length !== 1 ? 's' : ''} checked
+        </Text>
+        <Text color={colors.muted}> · </Text>
+        <Text color={counts.critical > 0 ? colors.critical : colors.muted}>
+          {counts.critical} critical
+        </Text>
+        <Text color={colors.muted}> · </Text>
+        <Text color={counts.warning > 0 ? colors.warning : colors.muted}>
+          {counts.warning} warning{counts.warning !== 1 ? 's' : ''}
+        </Text>
+      </Box>
+      {identityNote && <Text color={colors.muted}>{identityNote}</Text>}
+
+      {report.nodes.map((node) => {
+        const findings = report.findings.filter((finding) => finding.nodeId === node.nodeId);
+        return (
+          <Box key={node.nodeId} flexDirection="column" marginTop={1}>
+            <Box>
+              <Text bold color={colors.primary}>{node.nodeName}</Text>
+              {findings.length === 0 && <Text color={colors.success}>  ✓ no problems found</Text>}
+            </Box>
+            {findings.map((finding, index) => (
+              <Box key={`${finding.check}:${finding.target ?? ''}:${index}`} flexDirection="column" paddingLeft={2}>
+                <Box>
+                  <Badge
+                    label={finding.severity === 'critical' ? 'CRIT' : 'WARN'}
+                    variant={finding.severity}
+                  />
+                  <Text color={colors.foreground}> {finding.message}</Text>
+                </Box>
+                <Box paddingLeft={7}>
+                  <Text color={colors.warning}>Suggestion: {finding.remediationHint}</Text>
+                </Box>
+              </Box>
+            ))}
+          </Box>
+        );
+      })}
+    </Box>
+  );
+}
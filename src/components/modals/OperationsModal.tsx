@@ -11,9 +11,26 @@ import React, { useState } from 'react';
 import { Box, Text, useInput } from 'ink';
 import { useTheme } from '../../hooks/useTheme.js';
 import { useOperations } from '../../hooks/useOperations.js';
+import { useStore } from '../../store/index.js';
+import { useConnectionStore } from '../../store/connection.js';
 import { Badge } from '../atoms/Badge.js';
 import { PrometheusExport } from '../operations/PrometheusExport.js';
-import type { Operation, Severity } from '../../types/operations.js';
+import { LsnInput } from '../operations/LsnInput.js';
+import { SlotNameInput } from '../operations/SlotNameInput.js';
+import { SubscriptionWizard } from '../operations/SubscriptionWizard.js';
+import { formatBytes } from '../../hooks/useSlots.js';
+import { formatDuration } from '../panels/SubscriptionsPanel.js';
+import { estimateReleasedBytes } from '../../utils/slot-retention.js';
+import { WORKER_RESTART_TIMEOUT_MS } from '../../utils/worker-history.js';
+import type { LsnDiscovery } from '../operations/LsnInput.js';
+import type {
+  BackendActivity,
+  LeftoverSlot,
+  Operation,
+  OperationContext,
+  Severity,
+  WorkerRestart,
+} from '../../types/operations.js';
 
 // =============================================================================
 // Types
@@ -25,6 +42,34 @@ export interface OperationsModalProps {
 
 type Tab = 'operations' | 'history';
 
+/** LSN entry before confirming skip-transaction or advance-slot */
+interface LsnPrompt {
+  kind: 'lsn';
+  operation: Operation;
+  value: string;
+  /** Log lookup of the failing LSN (skip-transaction only) */
+  discovery: LsnDiscovery | null;
+}
+
+/** Slot name entry before confirming copy-slot */
+interface SlotNamePrompt {
+  kind: 'slot-name';
+  operation: Operation;
+  value: string;
+}
+
+type OperationPrompt = LsnPrompt | SlotNamePrompt;
+
+/** Result shown after an operation runs */
+interface ShownResult {
+  id: string;
+  status: string;
+  message: string;
+  error: string | null;
+  remediationHint: string | null;
+  durationMs: number;
+}
+
 // =============================================================================
 // Helpers
 // =============================================================================
@@ -61,6 +106,131 @@ function getStatusIcon(status: string): string {
   }
 }
 
+/**
+ * Extra detail of an operation's target: the LSN a transaction is skipped
+ * to, the WAL a slot operation releases (estimated before it runs, as
+ * measured in history), or what happens to a dropped subscription's slot.
+ */
+function getOperationDetail(
+  operationId: string,
+  context: Pick<OperationContext, 'additionalParams'>
+): string | null {
+  const params = context.additionalParams ?? {};
+  switch (operationId) {
+    case 'skip-transaction':
+      return typeof params.lsn === 'string' ? `LSN ${params.lsn}` : null;
+    case 'advance-slot': {
+      const done = typeof params.endLsn === 'string';
+      const target = done
+        ? params.endLsn
+        : typeof params.targetLsn === 'string'
+          ? params.targetLsn
+          : 'current WAL position';
+      const released =
+        typeof params.releasedBytes === 'number'
+          ? `${done ? 'released' : 'releases up to'} ${formatBytes(params.releasedBytes)} of WAL`
+          : 'WAL released unknown';
+      return `to ${String(target)} · ${released}`;
+    }
+    case 'copy-slot': {
+      if (typeof params.newSlotName !== 'string') return null;
+      return typeof params.retainedBytes === 'number'
+        ? `as ${params.newSlotName} · releases no WAL, the copy also retains ${formatBytes(params.retainedBytes)}`
+        : `as ${params.newSlotName}`;
+    }
+    case 'create-subscription':
+      return Array.isArray(params.publications) ? `for ${params.publications.join(', ')}` : null;
+    case 'drop-subscription': {
+      if (typeof params.slotName !== 'string') return 'no slot on the provider';
+      const provider = typeof params.providerNodeId === 'string' ? params.providerNodeId : null;
+      switch (params.slotOutcome) {
+        case 'dropped':
+          return `slot ${params.slotName} dropped`;
+        case 'left':
+          return `slot ${params.slotName} left on ${provider ?? 'the provider'}`;
+        case 'unknown':
+          return `slot ${params.slotName} may be left on ${provider ?? 'the provider'}`;
+      }
+      if (params.slotCleanup === 'drop') {
+        return `also drops slot ${params.slotName} on ${provider ?? 'the provider'}`;
+      }
+      return provider
+        ? `${provider} unreachable: slot ${params.slotName} is left behind`
+        : `provider not configured: slot ${params.slotName} is left behind`;
+    }
+    case 'terminate-worker':
+      return typeof params.workerPid === 'number'
+        ? `${String(params.workerRole ?? 'worker')} pid ${params.workerPid}`
+        : null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Lines shown before confirming: the SQL create-subscription runs, or the
+ * pg_stat_activity row of the backend terminate-worker targets.
+ */
+function getConfirmationLines(
+  operationId: string,
+  context: Pick<OperationContext, 'additionalParams'>
+): string[] {
+  const params = context.additionalParams ?? {};
+  if (operationId === 'create-subscription') {
+    return typeof params.sql === 'string' ? params.sql.split('\n') : [];
+  }
+  const backend = params.backend as BackendActivity | undefined;
+  if (operationId !== 'terminate-worker' || !backend) return [];
+
+  const now = Date.now();
+  const since = (date: Date | null): string =>
+    date ? formatDuration((now - date.getTime()) / 1000) : '-';
+
+  const client = [
+    `user ${backend.user ?? '-'}`,
+    backend.clientAddr ? `from ${backend.clientAddr}` : null,
+    backend.applicationName ? `application ${backend.applicationName}` : null,
+  ];
+  const state = [
+    backend.state ? `${backend.state} for ${since(backend.stateChange)}` : null,
+    backend.waitEvent ? `waiting on ${backend.waitEventType ?? '?'}/${backend.waitEvent}` : null,
+  ];
+
+  const lines = [
+    `${backend.backendType ?? 'backend'} pid ${backend.pid}, started ${since(backend.backendStart)} ago`,
+    client.filter(Boolean).join(' '),
+  ];
+  if (state.some(Boolean)) lines.push(state.filter(Boolean).join(' · '));
+  if (backend.query) lines.push(`query: ${backend.query}`);
+  return lines;
+}
+
+/**
+ * Follow-up on the slot a dropped subscription left on its provider.
+ */
+function getLeftoverSlotNote(slot: LeftoverSlot): string {
+  const left = slot.verified
+    ? `Slot ${slot.slotName} is left on ${slot.nodeName}`
+    : `Slot ${slot.slotName} may be left on ${slot.nodeName}`;
+  return slot.available
+    ? `${left} and retains WAL there until it is dropped.`
+    : `${left}. Drop it from the Slots panel once ${slot.nodeName} is reachable, or it retains WAL there.`;
+}
+
+/**
+ * Follow-up on a terminated worker, updated as polls come in.
+ */
+function getWorkerRestartNote(restart: WorkerRestart): string {
+  switch (restart.status) {
+    case 'waiting':
+      return `Waiting for the ${restart.role} to restart…`;
+    case 'restarted':
+      return `The ${restart.role} restarted (pid ${restart.terminatedPid} \u2192 ${restart.pid ?? '?'})`;
+    case 'not_restarted':
+      return `No new ${restart.role} after ${WORKER_RESTART_TIMEOUT_MS / 1000}s. Check the subscription status and the server log.`;
+  }
+}
+
 // =============================================================================
 // Sub-components
 // =============================================================================
@@ -151,12 +321,17 @@ function SimpleConfirmation({
   nodeName,
   severity,
   description,
+  detail,
+  lines = [],
 }: {
   operationName: string;
   resourceName: string;
   nodeName: string;
   severity: Severity;
   description: string;
+  detail: string | null;
+  /** Further details of the target, one per line */
+  lines?: readonly string[];
 }): React.ReactElement {
   const colors = useTheme();
 
@@ -176,8 +351,17 @@ function SimpleConfirmation({
         <Text color={colors.foreground}>{resourceName}</Text>
         <Text color={colors.muted}> @ </Text>
         <Text color={colors.foreground}>{nodeName}</Text>
+        {detail && <Text color={colors.muted}> · {detail}</Text>}
       </Box>
 
+      {lines.length > 0 && (
+        <Box marginTop={1} flexDirection="column">
+          {lines.map((line, index) => (
+            <Text key={index} color={colors.muted}>{line}</Text>
+          ))}
+        </Box>
+      )}
+
       <Box marginTop={2}>
         <Text color={colors.success}>[Enter]</Text>
         <Text color={colors.muted}> Confirm  </Text>
@@ -197,6 +381,7 @@ function TypeToConfirm({
   nodeName,
   severity,
   description,
+  detail,
   input,
   isValid,
   onInputChange,
@@ -206,6 +391,7 @@ function TypeToConfirm({
   nodeName: string;
   severity: Severity;
   description: string;
+  detail: string | null;
   input: string;
   isValid: boolean;
   onInputChange: (input: string) => void;
@@ -236,6 +422,7 @@ function TypeToConfirm({
         <Text color={colors.critical} bold>{resourceName}</Text>
         <Text color={colors.muted}> @ </Text>
         <Text color={colors.foreground}>{nodeName}</Text>
+        {detail && <Text color={colors.muted}> · {detail}</Text>}
       </Box>
 
       <Box marginTop={2} flexDirection="column">
@@ -276,15 +463,15 @@ function TypeToConfirm({
  */
 function OperationResultDisplay({
   result,
+  followUp,
+  leftoverSlot,
   onDismiss,
 }: {
-  result: {
-    status: string;
-    message: string;
-    error: string | null;
-    remediationHint: string | null;
-    durationMs: number;
-  };
+  result: ShownResult;
+  /** What happened since (e.g., the terminated worker restarting) */
+  followUp: WorkerRestart | null;
+  /** Slot the dropped subscription left on its provider */
+  leftoverSlot: LeftoverSlot | null;
   onDismiss: () => void;
 }): React.ReactElement {
   const colors = useTheme();
@@ -318,11 +505,39 @@ function OperationResultDisplay({
         </Box>
       )}
 
+      {followUp && (
+        <Box marginTop={1}>
+          <Text
+            color={
+              followUp.status === 'restarted'
+                ? colors.success
+                : followUp.status === 'not_restarted'
+                  ? colors.warning
+                  : colors.muted
+            }
+          >
+            {getWorkerRestartNote(followUp)}
+          </Text>
+        </Box>
+      )}
+
+      {leftoverSlot && (
+        <Box marginTop={1}>
+          <Text color={colors.warning}>{getLeftoverSlotNote(leftoverSlot)}</Text>
+        </Box>
+      )}
+
       <Box marginTop={1}>
         <Text color={colors.muted}>Duration: {result.durationMs}ms</Text>
       </Box>
 
       <Box marginTop={2}>
+        {leftoverSlot?.available && (
+          <>
+            <Text color={colors.critical}>[d]</Text>
+            <Text color={colors.muted}> Drop slot on {leftoverSlot.nodeName}  </Text>
+          </>
+        )}
         <Text color={colors.success}>[Enter]</Text>
         <Text color={colors.muted}> Dismiss</Text>
       </Box>
@@ -340,7 +555,7 @@ function HistoryList({
   history: readonly {
     id: string;
     operationId: string;
-    context: { resourceName: string; nodeName: string };
+    context: Pick<OperationContext, 'resourceName' | 'nodeName' | 'additionalParams'>;
     status: string;
     timestamp: Date;
   }[];
@@ -366,6 +581,7 @@ function HistoryList({
           minute: '2-digit',
           second: '2-digit',
         });
+        const detail = getOperationDetail(entry.operationId, entry.context);
         const statusColor =
           entry.status === 'success'
             ? colors.success
@@ -394,6 +610,7 @@ function HistoryList({
             <Box>
               <Text color={colors.muted}>
                 {entry.context.resourceName} @ {entry.context.nodeName}
+                {detail && ` · ${detail}`}
               </Text>
             </Box>
           </Box>
@@ -412,14 +629,14 @@ export function OperationsModal({ onClose }: OperationsModalProps): React.ReactE
   const [activeTab, setActiveTab] = useState<Tab>('operations');
   const [selectedOpIndex, setSelectedOpIndex] = useState(0);
   const [selectedHistoryIndex, setSelectedHistoryIndex] = useState(0);
-  const [showingResult, setShowingResult] = useState<{
-    status: string;
-    message: string;
-    error: string | null;
-    remediationHint: string | null;
-    durationMs: number;
-  } | null>(null);
+  const [showingResult, setShowingResult] = useState<ShownResult | null>(null);
   const [showingMetrics, setShowingMetrics] = useState(false);
+  const [prompt, setPrompt] = useState<OperationPrompt | null>(null);
+  const [showingWizard, setShowingWizard] = useState(false);
+  const nodes = useStore((s) => s.nodes);
+  const publications = useStore((s) => s.publications);
+  const capabilities = useStore((s) => s.capabilities);
+  const pglogicalMode = useConnectionStore((s) => s.pglogicalMode);
 
   const {
     availableOperations,
@@ -428,14 +645,99 @@ export function OperationsModal({ onClose }: OperationsModalProps): React.ReactE
     isExecuting,
     currentContext,
     startOperation,
+    findFailingLsn,
+    findWorkerBackend,
+    workerRestart,
+    startCreateSubscription,
+    leftoverSlot,
+    startDropLeftoverSlot,
     executeOperation,
     updateConfirmInput,
     cancel,
     exportMetrics,
   } = useOperations();
 
+  // Confirm terminating the worker once its pg_stat_activity row is found
+  const startTerminateWorker = (operation: Operation): void => {
+    const role = String(currentContext?.additionalParams?.workerRole ?? 'worker');
+    const resourceName = currentContext?.resourceName ?? '';
+    findWorkerBackend()
+      .catch(() => null)
+      .then((backend) => {
+        if (backend) {
+          startOperation(operation, { backend, backendStart: backend.backendStartText });
+          return;
+        }
+        setShowingResult({
+          id: crypto.randomUUID(),
+          status: 'failure',
+          message: 'Nothing to terminate',
+          error: `No running ${role} found for "${resourceName}"`,
+          remediationHint:
+            role === 'walsender'
+              ? 'The slot is inactive: no walsender is streaming from it.'
+              : 'The subscription may be disabled or its worker already exited. Refresh to update.',
+          durationMs: 0,
+        });
+      });
+  };
+
+  // Ask for the LSN to skip, prefilled once the log has been searched
+  const promptForFailingLsn = (operation: Operation): void => {
+    setPrompt({ kind: 'lsn', operation, value: '', discovery: 'searching' });
+    findFailingLsn()
+      .catch(() => null)
+      .then((lsn) => {
+        setPrompt((prev) =>
+          prev?.kind === 'lsn' && prev.discovery === 'searching'
+            ? {
+                ...prev,
+                value: prev.value || (lsn ?? ''),
+                discovery: lsn ? 'found' : 'not_found',
+              }
+            : prev
+        );
+      });
+  };
+
+  // Start the prompted operation with the entered value
+  const submitPrompt = (current: OperationPrompt): void => {
+    setPrompt(null);
+    const { operation, value } = current;
+    switch (operation.id) {
+      case 'skip-transaction':
+        startOperation(operation, { lsn: value });
+        return;
+      case 'advance-slot': {
+        const targetLsn = value || null;
+        const retainedBytes = currentContext?.additionalParams?.retainedBytes;
+        const currentLsn = currentContext?.additionalParams?.currentLsn;
+        startOperation(operation, {
+          targetLsn,
+          releasedBytes:
+            typeof retainedBytes === 'number'
+              ? estimateReleasedBytes(
+                  retainedBytes,
+                  typeof currentLsn === 'string' ? currentLsn : null,
+                  targetLsn
+                )
+              : null,
+        });
+        return;
+      }
+      case 'copy-slot':
+        startOperation(operation, { newSlotName: value });
+        return;
+    }
+  };
+
   // Handle keyboard input
   useInput((input, key) => {
+    // Prompt input is handled by LsnInput / SlotNameInput components
+    if (prompt || showingWizard) {
+      return;
+    }
+
     // Handle metrics display dismissal
     if (showingMetrics) {
       if (key.escape) {
@@ -445,10 +747,17 @@ export function OperationsModal({ onClose }: OperationsModalProps): React.ReactE
       return;
     }
 
-    // Handle result dismissal
+    // Handle result dismissal, or dropping the slot a dropped subscription left
     if (showingResult) {
       if (key.return || key.escape) {
         setShowingResult(null);
+      } else if (
+        input === 'd' &&
+        leftoverSlot?.resultId === showingResult.id &&
+        leftoverSlot.available
+      ) {
+        setShowingResult(null);
+        startDropLeftoverSlot();
       }
       return;
     }
@@ -465,6 +774,7 @@ export function OperationsModal({ onClose }: OperationsModalProps): React.ReactE
             .then((result) => {
               if (result) {
                 setShowingResult({
+                  id: result.id,
                   status: result.status,
                   message: result.message,
                   error: result.error ?? null,
@@ -476,6 +786,7 @@ export function OperationsModal({ onClose }: OperationsModalProps): React.ReactE
             .catch((error: unknown) => {
               const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
               setShowingResult({
+                id: crypto.randomUUID(),
                 status: 'failure',
                 message: 'Operation failed unexpectedly',
                 error: errorMessage,
@@ -520,6 +831,30 @@ export function OperationsModal({ onClose }: OperationsModalProps): React.ReactE
             setShowingMetrics(true);
             return;
           }
+          if (selectedOp.id === 'skip-transaction') {
+            promptForFailingLsn(selectedOp);
+            return;
+          }
+          if (selectedOp.id === 'create-subscription') {
+            setShowingWizard(true);
+            return;
+          }
+          if (selectedOp.id === 'terminate-worker') {
+            startTerminateWorker(selectedOp);
+            return;
+          }
+          if (selectedOp.id === 'advance-slot') {
+            setPrompt({ kind: 'lsn', operation: selectedOp, value: '', discovery: null });
+            return;
+          }
+          if (selectedOp.id === 'copy-slot' && currentContext) {
+            setPrompt({
+              kind: 'slot-name',
+              operation: selectedOp,
+              value: `${currentContext.resourceName}_copy`.slice(0, 63),
+            });
+            return;
+          }
           startOperation(selectedOp);
         }
         return;
@@ -567,6 +902,96 @@ export function OperationsModal({ onClose }: OperationsModalProps): React.ReactE
     );
   }
 
+  // Render the create-subscription wizard
+  if (showingWizard) {
+    return (
+      <Box
+        flexDirection="column"
+        alignItems="center"
+        justifyContent="center"
+        width="100%"
+        height="100%"
+      >
+        <Box
+          flexDirection="column"
+          borderStyle="double"
+          borderColor={colors.primary}
+          paddingX={2}
+          paddingY={1}
+          minWidth={60}
+        >
+          <SubscriptionWizard
+            nodes={Array.from(nodes.values())}
+            publications={publications}
+            pglogical={pglogicalMode}
+            capabilities={capabilities}
+            {...(currentContext && { initialSubscriberId: currentContext.nodeId })}
+            onSubmit={(draft) => {
+              setShowingWizard(false);
+              startCreateSubscription(draft);
+            }}
+            onCancel={() => setShowingWizard(false)}
+          />
+        </Box>
+      </Box>
+    );
+  }
+
+  // Render LSN or slot name entry
+  if (prompt) {
+    const resourceName = currentContext?.resourceName ?? '';
+    return (
+      <Box
+        flexDirection="column"
+        alignItems="center"
+        justifyContent="center"
+        width="100%"
+        height="100%"
+      >
+        <Box
+          flexDirection="column"
+          borderStyle="double"
+          borderColor={colors.primary}
+          paddingX={2}
+          paddingY={1}
+          minWidth={50}
+        >
+          {prompt.kind === 'slot-name' ? (
+            <SlotNameInput
+              value={prompt.value}
+              onChange={(value) => setPrompt({ ...prompt, value })}
+              onSubmit={() => submitPrompt(prompt)}
+              onCancel={() => setPrompt(null)}
+              slotType={currentContext?.additionalParams?.slotType === 'physical' ? 'physical' : 'logical'}
+              title={`Copy Replication Slot ${resourceName}`}
+            />
+          ) : prompt.discovery ? (
+            <LsnInput
+              value={prompt.value}
+              onChange={(value) => setPrompt({ ...prompt, value })}
+              onSubmit={() => submitPrompt(prompt)}
+              onCancel={() => setPrompt(null)}
+              title={`Skip Failing Transaction on ${resourceName}`}
+              label="Finish LSN of the transaction to skip:"
+              discovery={prompt.discovery}
+            />
+          ) : (
+            <LsnInput
+              value={prompt.value}
+              onChange={(value) => setPrompt({ ...prompt, value })}
+              onSubmit={() => submitPrompt(prompt)}
+              onCancel={() => setPrompt(null)}
+              title={`Advance Replication Slot ${resourceName}`}
+              label="Advance to LSN:"
+              allowEmpty
+              hint="Leave empty to advance to the current WAL position"
+            />
+          )}
+        </Box>
+      </Box>
+    );
+  }
+
   // Render confirmation flow
   if (confirmationState) {
     const { operation, context, confirmationInput, isValid } = confirmationState;
@@ -594,6 +1019,7 @@ export function OperationsModal({ onClose }: OperationsModalProps): React.ReactE
               nodeName={context.nodeName}
               severity={operation.severity}
               description={operation.description}
+              detail={getOperationDetail(operation.id, context)}
               input={confirmationInput}
               isValid={isValid}
               onInputChange={updateConfirmInput}
@@ -625,6 +1051,8 @@ export function OperationsModal({ onClose }: OperationsModalProps): React.ReactE
             nodeName={context.nodeName}
             severity={operation.severity}
             description={operation.description}
+            detail={getOperationDetail(operation.id, context)}
+            lines={getConfirmationLines(operation.id, context)}
           />
         </Box>
       </Box>
@@ -651,6 +1079,8 @@ export function OperationsModal({ onClose }: OperationsModalProps): React.ReactE
         >
           <OperationResultDisplay
             result={showingResult}
+            followUp={workerRestart?.resultId === showingResult.id ? workerRestart : null}
+            leftoverSlot={leftoverSlot?.resultId === showingResult.id ? leftoverSlot : null}
             onDismiss={() => setShowingResult(null)}
           />
         </Box>
@@ -0,0 +1,170 @@
+/**
+ * LsnInput Component
+ *
+ * Input component for an LSN: the transaction to skip (prefilled with the
+ * LSN found in the node's log when there is one), or where to advance a slot.
+ *
+ * Feature: 013-operations-modal
+ */
+
+import React from 'react';
+import { Box, Text, useInput } from 'ink';
+import { useTheme } from '../../hooks/useTheme.js';
+import { parseLsn } from '../../utils/wal-rate.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Progress of looking up the failing LSN.
+ */
+export type LsnDiscovery = 'searching' | 'found' | 'not_found';
+
+export interface LsnInputProps {
+  /** Current LSN value */
+  value: string;
+  /** Callback when value changes */
+  onChange: (value: string) => void;
+  /** Callback when submit (Enter) */
+  onSubmit: () => void;
+  /** Callback when cancel (Esc) */
+  onCancel: () => void;
+  /** Heading (e.g., 'Skip Failing Transaction on sub_orders') */
+  title: string;
+  /** Prompt above the input */
+  label: string;
+  /** Whether the LSN was found in the log, for prefilled values */
+  discovery?: LsnDiscovery;
+  /** Accept an empty value, for which the operation picks the LSN */
+  allowEmpty?: boolean;
+  /** Note below the input when there is no discovery to report */
+  hint?: string;
+}
+
+// =============================================================================
+// Validation
+// =============================================================================
+
+/**
+ * Get validation error message.
+ */
+function getValidationError(lsn: string, allowEmpty: boolean): string | null {
+  if (lsn.length === 0) {
+    return allowEmpty ? null : 'LSN is required';
+  }
+  if (parseLsn(lsn) === null) {
+    return 'LSN must look like 0/14C0378';
+  }
+  return null;
+}
+
+/**
+ * Get the note on where the LSN came from.
+ */
+function getDiscoveryNote(discovery: LsnDiscovery): string {
+  switch (discovery) {
+    case 'searching':
+      return 'Looking for the failing transaction in the server log…';
+    case 'found':
+      return 'Found in the server log: the finish LSN of the last transaction that failed to apply';
+    case 'not_found':
+      return 'Not found in the server log (needs csvlog and pg_read_file access). Copy the "finished at" LSN from the apply error.';
+  }
+}
+
+// =============================================================================
+// Component
+// =============================================================================
+
+export function LsnInput({
+  value,
+  onChange,
+  onSubmit,
+  onCancel,
+  title,
+  label,
+  discovery,
+  allowEmpty = false,
+  hint,
+}: LsnInputProps): React.ReactElement {
+  const colors = useTheme();
+  const validationError = getValidationError(value, allowEmpty);
+  const note = discovery ? getDiscoveryNote(discovery) : hint;
+  const isValid = validationError === null;
+
+  useInput((input, key) => {
+    if (key.escape) {
+      onCancel();
+      return;
+    }
+
+    if (key.return) {
+      if (isValid) {
+        onSubmit();
+      }
+      return;
+    }
+
+    if (key.backspace || key.delete) {
+      onChange(value.slice(0, -1));
+      return;
+    }
+
+    // Only allow hex digits and the separator
+    if (!key.ctrl && !key.meta && input && input.length === 1) {
+      const char = input.toUpperCase();
+      if (/^[0-9A-F/]$/.test(char)) {
+        onChange(value + char);
+      }
+    }
+  });
+
+  return (
+    <Box flexDirection="column" paddingY={1}>
+      <Text bold color={colors.primary}>{title}</Text>
+
+      <Box marginTop={1} flexDirection="column">
+        <Text color={colors.muted}>{label}</Text>
+        <Box
+          borderStyle="single"
+          borderColor={value.length > 0 ? (isValid ? colors.success : colors.critical) : colors.muted}
+          paddingX={1}
+          marginTop={1}
+        >
+          <Text color={colors.foreground}>
+            {value}
+            <Text color={colors.primary}>{'\u2588'}</Text>
+          </Text>
+        </Box>
+      </Box>
+
+      {validationError && value.length > 0 && (
+        <Box marginTop={1}>
+          <Text color={colors.critical}>{validationError}</Text>
+        </Box>
+      )}
+
+      {note && (
+        <Box marginTop={1}>
+          <Text color={colors.muted} dimColor>
+            {note}
+          </Text>
+        </Box>
+      )}
+
+      <Box marginTop={2}>
+        {isValid ? (
+          <>
+            <Text color={colors.success}>[Enter]</Text>
+            <Text color={colors.muted}> Continue  </Text>
+          </>
+        ) : (
+          <Text color={colors.muted}>[Enter valid LSN to continue]  </Text>
+        )}
+        <Text color={colors.warning}>[Esc]</Text>
+        <Text color={colors.muted}> Cancel</Text>
+      </Box>
+    </Box>
+  );
+}
@@ -1,8 +1,8 @@
 /**
  * SlotNameInput Component
  *
- * Input component for specifying a new slot name when creating slots.
- * Validates slot name format.
+ * Input component for specifying a new slot name when creating or copying slots,
+ * or the name of a new subscription. Validates slot name format.
  *
  * Feature: 013-operations-modal
  */
@@ -26,6 +26,14 @@ export interface SlotNameInputProps {
   onCancel: () => void;
   /** Slot type being created */
   slotType: 'logical' | 'physical';
+  /** Heading (default: 'Create <slotType> Replication Slot') */
+  title?: string;
+  /** Prompt above the input (default: 'Enter slot name:') */
+  label?: string;
+  /** Action [Enter] takes (default: 'Create') */
+  submitLabel?: string;
+  /** What is named, in validation errors (default: 'Slot name') */
+  noun?: string;
 }
 
 // =============================================================================
@@ -35,18 +43,18 @@ export interface SlotNameInputProps {
 /**
  * Get validation error message.
  */
-function getValidationError(name: string): string | null {
+function getValidationError(name: string, noun: string): string | null {
   if (name.length === 0) {
-    return 'Slot name is required';
+    return `${noun} is required`;
   }
   if (!/^[a-z]/.test(name)) {
-    return 'Slot name must start with a lowercase letter';
+    return `${noun} must start with a lowercase letter`;
   }
   if (!/^[a-z][a-z0-9_]*$/.test(name)) {
-    return 'Slot name can only contain lowercase letters, numbers, and underscores';
+    return `${noun} can only contain lowercase letters, numbers, and underscores`;
   }
   if (name.length > 63) {
-    return 'Slot name must be 63 characters or less';
+    return `${noun} must be 63 characters or less`;
   }
   return null;
 }
@@ -61,9 +69,13 @@ export function SlotNameInput({
   onSubmit,
   onCancel,
   slotType,
+  title = `Create ${slotType} Replication Slot`,
+  label = 'Enter slot name:',
+  submitLabel = 'Create',
+  noun = 'Slot name',
 }: SlotNameInputProps): React.ReactElement {
   const colors = useTheme();
-  const validationError = getValidationError(value);
+  const validationError = getValidationError(value, noun);
   const isValid = validationError === null;
 
   useInput((input, key) => {
@@ -97,10 +109,10 @@ export function SlotNameInput({
 
   return (
     <Box flexDirection="column" paddingY={1}>
-      <Text bold color={colors.primary}>Create {slotType} Replication Slot</Text>
+      <Text bold color={colors.primary}>{title}</Text>
 
       <Box marginTop={1} flexDirection="column">
-        <Text color={colors.muted}>Enter slot name:</Text>
+        <Text color={colors.muted}>{label}</Text>
         <Box
           borderStyle="single"
           borderColor={value.length > 0 ? (isValid ? colors.success : colors.critical) : colors.muted}
@@ -130,10 +142,10 @@ export function SlotNameInput({
         {isValid ? (
           <>
             <Text color={colors.success}>[Enter]</Text>
-            <Text color={colors.muted}> Create  </Text>
+            <Text color={colors.muted}> {submitLabel}  </Text>
           </>
         ) : (
-          <Text color={colors.muted}>[Enter valid name to create]  </Text>
+          <Text color={colors.muted}>[Enter valid name to {submitLabel.toLowerCase()}]  </Text>
         )}
         <Text color={colors.warning}>[Esc]</Text>
         <Text color={colors.muted}> Cancel</Text>
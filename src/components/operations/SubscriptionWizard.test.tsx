@@ -0,0 +1,96 @@
+/**
+ * Tests for SubscriptionWizard Component
+ *
+ * Tests the options offered for the subscriber's PostgreSQL version and the
+ * draft submitted after the last step.
+ */
+import { describe, test, expect } from 'bun:test';
+import { render } from 'ink-testing-library';
+import { SubscriptionWizard } from './SubscriptionWizard.js';
+import { ThemeContext } from '../../theme/ThemeContext.js';
+import { DEFAULT_THEME } from '../../config/defaults.js';
+import { buildCreateSubscriptionSql } from '../../services/operations/index.js';
+import type { SubscriptionDraft } from '../../types/operations.js';
+
+// =============================================================================
+// Test Helpers
+// =============================================================================
+
+const nodes = [
+  { id: 'subscriber', name: 'Subscriber', hasPglogical: false },
+  { id: 'provider', name: 'Provider', hasPglogical: false },
+];
+
+const publications = new Map([
+  ['provider', [{ name: 'orders_pub', source: 'native' as const }]],
+]);
+
+const tick = (): Promise<void> => new Promise((resolve) => setTimeout(resolve, 20));
+
+/**
+ * Step through the wizard with the defaults, stopping at the options step.
+ */
+async function renderAtOptions(subscriberVersionNum: number) {
+  const submitted: SubscriptionDraft[] = [];
+  const view = render(
+    <ThemeContext.Provider value={DEFAULT_THEME}>
+      <SubscriptionWizard
+        nodes={nodes}
+        publications={publications}
+        pglogical={false}
+        capabilities={new Map([['subscriber', { versionNum: subscriberVersionNum }]])}
+        onSubmit={(draft) => submitted.push(draft)}
+        onCancel={() => {}}
+      />
+    </ThemeContext.Provider>
+  );
+  await tick();
+  // Subscriber, provider, publication, name
+  for (let step = 0; step < 4; step++) {
+    view.stdin.write('\r');
+    await tick();
+  }
+  return { ...view, submitted };
+}
+
+// =============================================================================
+// Options
+// =============================================================================
+
+describe('SubscriptionWizard options', () => {
+  test('offers origin on a PostgreSQL 16 subscriber and leaves forwarding off', async () => {
+    const { lastFrame, stdin, submitted } = await renderAtOptions(160002);
+
+    expect(lastFrame()).toContain('origin = any');
+
+    stdin.write('\r');
+    await tick();
+
+    expect(submitted[0]?.forwardOrigins).toBe(false);
+  });
+
+  test('leaves origin out for a PostgreSQL 15 subscriber', async () => {
+    const { lastFrame, stdin, submitted } = await renderAtOptions(150006);
+
+    expect(lastFrame()).not.toContain('origin = any');
+    expect(lastFrame()).toContain('origin needs PostgreSQL 16');
+
+    stdin.write('\r');
+    await tick();
+
+    const draft = submitted[0];
+    expect(draft?.forwardOrigins).toBe(true);
+    expect(draft?.publications).toEqual(['orders_pub']);
+    expect(
+      buildCreateSubscriptionSql({
+        subscriptionName: draft?.subscriptionName ?? '',
+        providerDsn: 'host=provider port=5432 dbname=shop',
+        publications: draft?.publications ?? [],
+        source: 'native',
+        copyData: true,
+        synchronizeStructure: false,
+        forwardOrigins: draft?.forwardOrigins ?? false,
+      })
+    ).not.toContain('origin');
+  });
+});
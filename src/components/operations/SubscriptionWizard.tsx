@@ -0,0 +1,270 @@
+/**
+ * SubscriptionWizard Component
+ *
+ * Steps through creating a subscription: the subscriber and provider nodes,
+ * the provider's publications (native) or replication sets (pglogical), the
+ * subscription name, and its options. The generated SQL is previewed in the
+ * confirmation that follows.
+ *
+ * Feature: 013-operations-modal
+ */
+
+import React, { useState } from 'react';
+import { Box, Text } from 'ink';
+import { useTheme } from '../../hooks/useTheme.js';
+import { TableSelector } from './TableSelector.js';
+import { SlotNameInput } from './SlotNameInput.js';
+import { supportsSubscriptionOrigin } from '../../utils/capabilities.js';
+import type { NodeCapabilities, NodeInfo, PublicationData } from '../../store/types.js';
+import type { SubscriptionDraft } from '../../types/operations.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface SubscriptionWizardProps {
+  /** Configured nodes */
+  nodes: readonly Pick<NodeInfo, 'id' | 'name' | 'hasPglogical'>[];
+  /** Publications and replication sets per node */
+  publications: ReadonlyMap<string, readonly Pick<PublicationData, 'name' | 'source'>[]>;
+  /** Whether pglogical monitoring is enabled */
+  pglogical: boolean;
+  /** Capability probe results per node, for the options the subscriber supports */
+  capabilities: ReadonlyMap<string, Pick<NodeCapabilities, 'versionNum'>>;
+  /** Node to suggest as the subscriber */
+  initialSubscriberId?: string;
+  /** Callback with the choices after the last step */
+  onSubmit: (draft: SubscriptionDraft) => void;
+  /** Callback when Esc leaves the first step */
+  onCancel: () => void;
+}
+
+type WizardStep = 'subscriber' | 'provider' | 'publications' | 'name' | 'options';
+
+type WizardOption = 'copyData' | 'synchronizeStructure' | 'forwardOrigins';
+
+const STEPS: readonly WizardStep[] = ['subscriber', 'provider', 'publications', 'name', 'options'];
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Default subscription name for a provider and subscriber.
+ */
+export function getDefaultSubscriptionName(providerId: string, subscriberId: string): string {
+  return `sub_${providerId}_${subscriberId}`
+    .toLowerCase()
+    .replace(/[^a-z0-9_]/g, '_')
+    .slice(0, 63);
+}
+
+/**
+ * Options a subscription of the source can set, with their labels.
+ * Native subscribers before PostgreSQL 16 can't choose the origins.
+ */
+function getOptionLabels(
+  source: 'pglogical' | 'native',
+  originOption: boolean
+): [WizardOption, string][] {
+  if (source === 'pglogical') {
+    return [
+      ['copyData', 'synchronize_data: copy the existing table data'],
+      ['synchronizeStructure', 'synchronize_structure: create the tables from the provider schema first'],
+      ['forwardOrigins', "forward_origins = '{all}': also apply changes the provider received from other nodes"],
+    ];
+  }
+  const labels: [WizardOption, string][] = [['copyData', 'copy_data: copy the existing table data']];
+  if (originOption) {
+    labels.push(['forwardOrigins', 'origin = any: also apply changes the provider received from other nodes']);
+  }
+  return labels;
+}
+
+// =============================================================================
+// Component
+// =============================================================================
+
+export function SubscriptionWizard({
+  nodes,
+  publications,
+  pglogical,
+  capabilities,
+  initialSubscriberId,
+  onSubmit,
+  onCancel,
+}: SubscriptionWizardProps): React.ReactElement {
+  const colors = useTheme();
+  const [step, setStep] = useState<WizardStep>('subscriber');
+  const [selectedIndex, setSelectedIndex] = useState(() =>
+    Math.max(nodes.findIndex((node) => node.id === initialSubscriberId), 0)
+  );
+  const [subscriberId, setSubscriberId] = useState<string | null>(null);
+  const [providerId, setProviderId] = useState<string | null>(null);
+  const [checkedPublications, setCheckedPublications] = useState<string[]>([]);
+  const [name, setName] = useState('');
+  const [options, setOptions] = useState<Record<WizardOption, boolean>>({
+    copyData: true,
+    synchronizeStructure: false,
+    forwardOrigins: false,
+  });
+
+  const subscriber = nodes.find((node) => node.id === subscriberId) ?? null;
+  const provider = nodes.find((node) => node.id === providerId) ?? null;
+  const source: 'pglogical' | 'native' =
+    pglogical && subscriber?.hasPglogical && provider?.hasPglogical ? 'pglogical' : 'native';
+  const setNoun = source === 'pglogical' ? 'replication set' : 'publication';
+  const subscriberCapabilities = subscriberId ? capabilities.get(subscriberId) : undefined;
+  const originOption =
+    source === 'pglogical' ||
+    (subscriberCapabilities !== undefined && supportsSubscriptionOrigin(subscriberCapabilities));
+
+  const providers = nodes.filter((node) => node.id !== subscriberId);
+  const providerPublications = (providerId ? publications.get(providerId) ?? [] : [])
+    .filter((publication) => publication.source === source)
+    .map((publication) => publication.name);
+  const optionLabels = getOptionLabels(source, originOption);
+
+  const goTo = (next: WizardStep, index = 0): void => {
+    setStep(next);
+    setSelectedIndex(index);
+  };
+
+  const toggle = <T,>(items: T[], item: T): T[] =>
+    items.includes(item) ? items.filter((other) => other !== item) : [...items, item];
+
+  const renderStep = (): React.ReactElement => {
+    switch (step) {
+      case 'subscriber':
+        return (
+          <TableSelector
+            tables={nodes.map((node) => node.name)}
+            selectedIndex={selectedIndex}
+            onSelectionChange={setSelectedIndex}
+            onTableSelect={() => {
+              const node = nodes[selectedIndex];
+              if (!node) return;
+              if (node.id !== subscriberId) {
+                setProviderId(null);
+                setCheckedPublications([]);
+              }
+              setSubscriberId(node.id);
+              goTo('provider');
+            }}
+            onBack={onCancel}
+            title="Subscriber: node to create the subscription on"
+            warning={null}
+            emptyMessage="No nodes configured."
+          />
+        );
+
+      case 'provider':
+        return (
+          <TableSelector
+            tables={providers.map((node) => node.name)}
+            selectedIndex={selectedIndex}
+            onSelectionChange={setSelectedIndex}
+            onTableSelect={() => {
+              const node = providers[selectedIndex];
+              if (!node) return;
+              if (node.id !== providerId) setCheckedPublications([]);
+              setProviderId(node.id);
+              goTo('publications');
+            }}
+            onBack={() => goTo('subscriber', Math.max(nodes.findIndex((node) => node.id === subscriberId), 0))}
+            title={`Provider: node ${subscriber?.name ?? ''} subscribes to`}
+            warning={null}
+            emptyMessage="No other node to subscribe to."
+          />
+        );
+
+      case 'publications':
+        return (
+          <TableSelector
+            tables={providerPublications}
+            selectedIndex={selectedIndex}
+            onSelectionChange={setSelectedIndex}
+            onTableSelect={(publication) => {
+              // Nothing checked: take the highlighted one
+              if (checkedPublications.length === 0) setCheckedPublications([publication]);
+              if (!name && providerId && subscriberId) {
+                setName(getDefaultSubscriptionName(providerId, subscriberId));
+              }
+              goTo('name');
+            }}
+            onBack={() => goTo('provider', Math.max(providers.findIndex((node) => node.id === providerId), 0))}
+            title={`${source === 'pglogical' ? 'Replication sets' : 'Publications'} on ${provider?.name ?? ''}`}
+            warning={null}
+            emptyMessage={`No ${setNoun}s on ${provider?.name ?? 'the provider'}.`}
+            checked={checkedPublications}
+            onToggle={(publication) => setCheckedPublications((prev) => toggle(prev, publication))}
+          />
+        );
+
+      case 'name':
+        return (
+          <SlotNameInput
+            value={name}
+            onChange={setName}
+            onSubmit={() => goTo('options')}
+            onCancel={() => goTo('publications')}
+            slotType="logical"
+            title="Subscription Name"
+            label={source === 'native' ? 'Enter subscription name (also names its slot on the provider):' : 'Enter subscription name:'}
+            submitLabel="Continue"
+            noun="Subscription name"
+          />
+        );
+
+      case 'options':
+        return (
+          <TableSelector
+            tables={optionLabels.map(([, label]) => label)}
+            selectedIndex={selectedIndex}
+            onSelectionChange={setSelectedIndex}
+            onTableSelect={() => {
+              if (!subscriberId || !providerId) return;
+              onSubmit({
+                subscriberNodeId: subscriberId,
+                providerNodeId: providerId,
+                subscriptionName: name,
+                publications: checkedPublications,
+                source,
+                copyData: options.copyData,
+                synchronizeStructure: source === 'pglogical' && options.synchronizeStructure,
+                // Older native subscribers apply changes from every origin
+                forwardOrigins: originOption ? options.forwardOrigins : true,
+              });
+            }}
+            onBack={() => goTo('name')}
+            title="Options"
+            warning={
+              originOption
+                ? 'Leave forwarding off for a bidirectional pair, or changes loop between the nodes'
+                : `${subscriber?.name ?? 'The subscriber'} applies changes from every origin (origin needs PostgreSQL 16), so don't use it for a bidirectional pair`
+            }
+            checked={optionLabels.filter(([option]) => options[option]).map(([, label]) => label)}
+            onToggle={(label) => {
+              const option = optionLabels.find(([, other]) => other === label)?.[0];
+              if (option) setOptions((prev) => ({ ...prev, [option]: !prev[option] }));
+            }}
+          />
+        );
+    }
+  };
+
+  return (
+    <Box flexDirection="column" paddingY={1}>
+      <Box marginBottom={1}>
+        <Text bold color={colors.primary}>Create Subscription</Text>
+        <Text color={colors.muted}>
+          {' '}· step {STEPS.indexOf(step) + 1} of {STEPS.length}
+          {subscriber && ` · ${subscriber.name}`}
+          {provider && ` ← ${provider.name}`}
+          {step !== 'publications' && checkedPublications.length > 0 && ` (${checkedPublications.join(', ')})`}
+        </Text>
+      </Box>
+      {renderStep()}
+    </Box>
+  );
+}
@@ -2,7 +2,8 @@
  * TableSelector Component
  *
  * Allows selecting a table within a subscription for resync operation.
- * Uses j/k navigation.
+ * Uses j/k navigation. With onToggle, Space checks several items (the
+ * create-subscription wizard's publications and options).
  *
  * Feature: 013-operations-modal
  */
@@ -18,6 +19,11 @@ export function TableSelector({
   onSelectionChange,
   onTableSelect,
   onBack,
+  title = 'Select Table to Resync',
+  warning = 'Warning: Selected table will be TRUNCATED and re-copied',
+  emptyMessage = 'No tables found in this subscription.',
+  checked,
+  onToggle,
 }: TableSelectorProps): React.ReactElement {
   const colors = useTheme();
 
@@ -37,6 +43,14 @@ export function TableSelector({
       return;
     }
 
+    if (input === ' ' && onToggle) {
+      const selectedTable = tables[selectedIndex];
+      if (selectedTable) {
+        onToggle(selectedTable);
+      }
+      return;
+    }
+
     if (key.return) {
       const selectedTable = tables[selectedIndex];
       if (selectedTable) {
@@ -48,7 +62,7 @@ export function TableSelector({
   if (tables.length === 0) {
     return (
       <Box flexDirection="column" paddingY={1}>
-        <Text color={colors.muted}>No tables found in this subscription.</Text>
+        <Text color={colors.muted}>{emptyMessage}</Text>
         <Box marginTop={1}>
           <Text color={colors.warning}>[Esc]</Text>
           <Text color={colors.muted}> Back</Text>
@@ -59,10 +73,8 @@ export function TableSelector({
 
   return (
     <Box flexDirection="column">
-      <Text bold color={colors.primary}>Select Table to Resync</Text>
-      <Text color={colors.critical}>
-        Warning: Selected table will be TRUNCATED and re-copied
-      </Text>
+      <Text bold color={colors.primary}>{title}</Text>
+      {warning && <Text color={colors.critical}>{warning}</Text>}
 
       <Box flexDirection="column" marginTop={1}>
         {tables.map((table, index) => {
@@ -74,6 +86,13 @@ export function TableSelector({
                   {isSelected ? '\u203a' : ' '}
                 </Text>
               </Box>
+              {checked && (
+                <Box width={4}>
+                  <Text color={checked.includes(table) ? colors.success : colors.muted}>
+                    {checked.includes(table) ? '[x]' : '[ ]'}
+                  </Text>
+                </Box>
+              )}
               <Text
                 color={isSelected ? colors.foreground : colors.muted}
                 bold={isSelected}
@@ -87,8 +106,9 @@ export function TableSelector({
 
       <Box marginTop={1}>
         <Text color={colors.muted}>[j/k] Navigate  </Text>
+        {onToggle && <Text color={colors.muted}>[Space] Toggle  </Text>}
         <Text color={colors.success}>[Enter]</Text>
-        <Text color={colors.muted}> Select  </Text>
+        <Text color={colors.muted}>{onToggle ? ' Continue  ' : ' Select  '}</Text>
         <Text color={colors.warning}>[Esc]</Text>
         <Text color={colors.muted}> Back</Text>
       </Box>
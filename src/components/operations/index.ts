@@ -13,3 +13,5 @@ export { OperationHistory } from './OperationHistory.js';
 export { TableSelector } from './TableSelector.js';
 export { PrometheusExport } from './PrometheusExport.js';
 export { SlotNameInput } from './SlotNameInput.js';
+export { LsnInput } from './LsnInput.js';
+export { SubscriptionWizard } from './SubscriptionWizard.js';
@@ -0,0 +1,204 @@
+/**
+ * AlertsPanel Component
+ *
+ * Displays active threshold alerts (pending and firing) across connected
+ * nodes, followed by recent firing/resolved transitions from the alert
+ * history. Supports keyboard navigation over active alerts.
+ */
+
+import React from 'react';
+import { Box, Text } from 'ink';
+import { Badge } from '../atoms/Badge.js';
+import { useTheme } from '../../hooks/useTheme.js';
+import { useAlerts, type AlertListItem, type AlertHistoryItem } from '../../hooks/useAlerts.js';
+import { ALERT_METRIC_LABELS } from '../../types/alerts.js';
+import type { Configuration } from '../../types/config.js';
+
+// =============================================================================
+// Props
+// =============================================================================
+
+export interface AlertsPanelProps {
+  config: Configuration;
+}
+
+export interface AlertRowProps {
+  item: AlertListItem;
+}
+
+export interface AlertHistoryRowProps {
+  item: AlertHistoryItem;
+}
+
+// =============================================================================
+// Internal Components
+// =============================================================================
+
+/**
+ * Empty state when no alerts are active.
+ */
+function EmptyState(): React.ReactElement {
+  const colors = useTheme();
+  return (
+    <Box paddingX={1}>
+      <Text color={colors.success}>No active alerts</Text>
+    </Box>
+  );
+}
+
+/**
+ * Single active alert row.
+ */
+function AlertRow({ item }: AlertRowProps): React.ReactElement {
+  const colors = useTheme();
+  const dimColor = item.isStale;
+  const rowColor = item.isSelected ? colors.primary : colors.foreground;
+  const severityVariant = item.state === 'pending' ? 'muted' : item.severity;
+
+  return (
+    <Box paddingX={1}>
+      {/* Selection indicator */}
+      <Box width={2}>
+        <Text color={colors.primary}>{item.isSelected ? '›' : ' '}</Text>
+      </Box>
+
+      {/* Severity badge */}
+      <Box width={11} marginRight={1}>
+        <Badge label={item.severity.toUpperCase()} variant={severityVariant} />
+      </Box>
+
+      {/* Metric */}
+      <Box width={16} marginRight={1}>
+        <Text bold={item.isSelected} color={rowColor} dimColor={dimColor}>
+          {ALERT_METRIC_LABELS[item.metric]}
+        </Text>
+      </Box>
+
+      {/* Node and subject */}
+      <Box width={28} marginRight={1}>
+        <Text color={rowColor} dimColor={dimColor} wrap="truncate">
+          {item.subject ? `${item.nodeName}/${item.subject}` : item.nodeName}
+        </Text>
+      </Box>
+
+      {/* Value vs threshold */}
+      <Box width={22} marginRight={1}>
+        <Text color={colors[item.severity]} dimColor={dimColor}>
+          {item.formattedValue}
+        </Text>
+        <Text color={colors.muted}> ≥ {item.formattedThreshold}</Text>
+      </Box>
+
+      {/* State and age */}
+      <Box width={18}>
+        <Text color={colors.muted} dimColor={dimColor}>
+          {item.state} {item.formattedSince}
+        </Text>
+      </Box>
+    </Box>
+  );
+}
+
+/**
+ * Single alert history row.
+ */
+function AlertHistoryRow({ item }: AlertHistoryRowProps): React.ReactElement {
+  const colors = useTheme();
+  const resolved = item.transition === 'resolved';
+
+  return (
+    <Box paddingX={1}>
+      <Box width={2} />
+      <Box width={11} marginRight={1}>
+        <Text color={resolved ? colors.success : colors[item.severity]}>
+          {resolved ? 'resolved' : item.severity}
+        </Text>
+      </Box>
+      <Box width={16} marginRight={1}>
+        <Text color={colors.muted}>{ALERT_METRIC_LABELS[item.metric]}</Text>
+      </Box>
+      <Box width={28} marginRight={1}>
+        <Text color={colors.muted} wrap="truncate">
+          {item.subject ? `${item.nodeName}/${item.subject}` : item.nodeName}
+        </Text>
+      </Box>
+      <Box width={22} marginRight={1}>
+        <Text color={colors.muted}>{item.formattedValue}</Text>
+      </Box>
+      <Box width={18}>
+        <Text color={colors.muted} dimColor>
+          {item.formattedTime}
+        </Text>
+      </Box>
+    </Box>
+  );
+}
+
+/**
+ * Summary header with firing/pending counts.
+ */
+function SummaryHeader({
+  firingCount,
+  pendingCount,
+}: {
+  firingCount: number;
+  pendingCount: number;
+}): React.ReactElement {
+  const colors = useTheme();
+
+  return (
+    <Box marginBottom={1} gap={1}>
+      <Text color={firingCount > 0 ? colors.critical : colors.success}>
+        {firingCount} firing
+      </Text>
+      {pendingCount > 0 && <Badge label={`${pendingCount} pending`} variant="warning" />}
+    </Box>
+  );
+}
+
+// =============================================================================
+// Main Component
+// =============================================================================
+
+/**
+ * AlertsPanel displays active alerts and recent alert transitions.
+ *
+ * Handles:
+ * - Empty state (no active alerts)
+ * - Active alerts with severity, metric, subject, value, state and age
+ * - Selection highlighting
+ * - Recent history of firing/resolved transitions
+ */
+export function AlertsPanel({ config: _config }: AlertsPanelProps): React.ReactElement {
+  const colors = useTheme();
+  const { items, firingCount, pendingCount, history } = useAlerts();
+
+  return (
+    <Box flexDirection="column" flexGrow={1}>
+      <SummaryHeader firingCount={firingCount} pendingCount={pendingCount} />
+
+      {items.length === 0 ? (
+        <EmptyState />
+      ) : (
+        <Box flexDirection="column">
+          {items.map((item) => (
+            <AlertRow key={item.id} item={item} />
+          ))}
+        </Box>
+      )}
+
+      {history.length > 0 && (
+        <Box flexDirection="column" marginTop={1}>
+          <Box paddingX={1}>
+            <Text bold color={colors.muted}>
+              Recent
+            </Text>
+          </Box>
+          {history.map((item) => (
+            <AlertHistoryRow key={item.id} item={item} />
+          ))}
+        </Box>
+      )}
+    </Box>
+  );
+}
@@ -0,0 +1,291 @@
+/**
+ * LagTimelinePanel Component
+ *
+ * Multi-row lag chart overlaying several subscriptions, with 5m/1h/24h
+ * zoom, braille or block rendering, and a cursor that reads out the lag of
+ * each visible subscription at a point in time.
+ *
+ * Keys while focused:
+ * - j/k select a subscription in the legend, space shows/hides it
+ * - z cycles the zoom window, b switches braille/block
+ * - ←/→ move the cursor, Esc hides it
+ */
+
+import React from 'react';
+import { Box, Text, useInput } from 'ink';
+import { Badge } from '../atoms/Badge.js';
+import {
+  LineChart,
+  Y_AXIS_WIDTH,
+  findNearestPoint,
+  formatTimelineValue,
+  getColumnTime,
+} from '../charts/LineChart.js';
+import { useTheme } from '../../hooks/useTheme.js';
+import { useBreakpoint } from '../../hooks/useBreakpoint.js';
+import { useTerminalSize } from '../../hooks/useTerminalSize.js';
+import { useLagTimeline, type TimelineSeriesItem } from '../../hooks/useLagTimeline.js';
+import { useStore } from '../../store/index.js';
+import { TIMELINE_WINDOWS } from '../../types/timeline.js';
+import type { ThemeColors } from '../../config/defaults.js';
+import type { Configuration } from '../../types/config.js';
+import type { TimelineUnit } from '../../types/timeline.js';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Theme colors assigned to series in legend order */
+const SERIES_COLORS: readonly (keyof ThemeColors)[] = [
+  'primary',
+  'secondary',
+  'success',
+  'warning',
+  'critical',
+  'foreground',
+];
+
+/** Trend indicators for legend rows */
+const TREND_ARROWS: Readonly<Record<TimelineSeriesItem['trend'], string>> = {
+  increasing: '↑',
+  decreasing: '↓',
+  stable: '→',
+  unknown: ' ',
+};
+
+/** Chart rows per breakpoint height */
+const CHART_HEIGHT = 8;
+const SHORT_CHART_HEIGHT = 4;
+
+/** Columns taken by the panel border and padding */
+const PANEL_CHROME_WIDTH = 4;
+
+/** Smallest plot width worth drawing */
+const MIN_PLOT_WIDTH = 10;
+
+// =============================================================================
+// Props
+// =============================================================================
+
+export interface LagTimelinePanelProps {
+  config: Configuration;
+}
+
+interface LegendRowProps {
+  item: TimelineSeriesItem;
+  color: string;
+}
+
+interface CursorReadoutProps {
+  time: Date;
+  values: { item: TimelineSeriesItem; color: string; value: number | null }[];
+  unit: TimelineUnit;
+}
+
+// =============================================================================
+// Internal Components
+// =============================================================================
+
+/**
+ * Zoom window selector, chart style, and data source status.
+ */
+function TimelineHeader({
+  window,
+  chartStyle,
+  historyUnavailable,
+  isLoading,
+}: {
+  window: string;
+  chartStyle: string;
+  historyUnavailable: boolean;
+  isLoading: boolean;
+}): React.ReactElement {
+  const colors = useTheme();
+
+  return (
+    <Box gap={1}>
+      {TIMELINE_WINDOWS.map((w) => (
+        <Text key={w} color={w === window ? colors.primary : colors.muted} bold={w === window}>
+          {w === window ? `[${w}]` : w}
+        </Text>
+      ))}
+      <Text color={colors.muted}>· {chartStyle}</Text>
+      {isLoading && <Badge label="loading" variant="muted" />}
+      {historyUnavailable && <Badge label="history disabled: last 5m only" variant="warning" />}
+    </Box>
+  );
+}
+
+/**
+ * Lag of each visible series at the cursor.
+ */
+function CursorReadout({ time, values, unit }: CursorReadoutProps): React.ReactElement {
+  const colors = useTheme();
+  const label = time.toLocaleTimeString('en-US', {
+    hour12: false,
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  });
+
+  return (
+    <Box gap={2}>
+      <Text color={colors.foreground}>▸ {label}</Text>
+      {values.map(({ item, color, value }) => (
+        <Text key={item.id}>
+          <Text color={color}>●</Text>
+          <Text color={colors.muted}> {item.subscriptionName} </Text>
+          <Text color={colors.foreground}>
+            {value === null ? '—' : formatTimelineValue(value, unit)}
+          </Text>
+        </Text>
+      ))}
+    </Box>
+  );
+}
+
+/**
+ * Legend entry for one subscription.
+ */
+function LegendRow({ item, color }: LegendRowProps): React.ReactElement {
+  const colors = useTheme();
+  const rowColor = item.isSelected ? colors.primary : colors.foreground;
+
+  return (
+    <Box>
+      <Box width={2}>
+        <Text color={colors.primary}>{item.isSelected ? '›' : ' '}</Text>
+      </Box>
+      <Box width={2}>
+        <Text color={item.isVisible ? color : colors.muted}>{item.isVisible ? '●' : '○'}</Text>
+      </Box>
+      <Box width={32} marginRight={1}>
+        <Text
+          bold={item.isSelected}
+          color={rowColor}
+          dimColor={item.isStale || !item.isVisible}
+          wrap="truncate"
+        >
+          {item.nodeName}/{item.subscriptionName}
+        </Text>
+      </Box>
+      <Box width={2}>
+        <Text color={item.trend === 'increasing' ? colors.warning : colors.muted}>
+          {TREND_ARROWS[item.trend]}
+        </Text>
+      </Box>
+      <Text color={colors.muted}>peak 5m {item.formattedPeak}</Text>
+      {item.isStale && (
+        <Box marginLeft={1}>
+          <Badge label="stale" variant="warning" />
+        </Box>
+      )}
+    </Box>
+  );
+}
+
+// =============================================================================
+// Main Component
+// =============================================================================
+
+/**
+ * LagTimelinePanel charts lag over time for all subscriptions.
+ *
+ * Handles:
+ * - Empty state (no subscriptions)
+ * - Overlaid series in per-subscription colors
+ * - Zoom (5m from memory, 1h/24h from the history store)
+ * - Cursor readout of the nearest sample per series
+ */
+export function LagTimelinePanel({ config: _config }: LagTimelinePanelProps): React.ReactElement {
+  const colors = useTheme();
+  const breakpoint = useBreakpoint();
+  const { columns } = useTerminalSize();
+  const timeline = useLagTimeline();
+
+  const isFocused = useStore((s) => s.focusedPanel === 'timeline');
+  const activeModal = useStore((s) => s.activeModal);
+  const selectedId = useStore((s) => s.selections.get('timeline') ?? null);
+  const cycleTimelineWindow = useStore((s) => s.cycleTimelineWindow);
+  const toggleTimelineChartStyle = useStore((s) => s.toggleTimelineChartStyle);
+  const moveTimelineCursor = useStore((s) => s.moveTimelineCursor);
+  const clearTimelineCursor = useStore((s) => s.clearTimelineCursor);
+  const toggleTimelineSeries = useStore((s) => s.toggleTimelineSeries);
+
+  const plotWidth = Math.max(MIN_PLOT_WIDTH, columns - PANEL_CHROME_WIDTH - Y_AXIS_WIDTH);
+  const plotHeight =
+    breakpoint === 'short' || breakpoint === 'compact' ? SHORT_CHART_HEIGHT : CHART_HEIGHT;
+
+  useInput(
+    (input, key) => {
+      if (input === 'z') { cycleTimelineWindow(); return; }
+      if (input === 'b') { toggleTimelineChartStyle(); return; }
+      if (input === ' ' && selectedId !== null) { toggleTimelineSeries(selectedId); return; }
+      if (key.leftArrow) { moveTimelineCursor(1, plotWidth - 1); return; }
+      if (key.rightArrow) { moveTimelineCursor(-1, plotWidth - 1); return; }
+      if (key.escape) clearTimelineCursor();
+    },
+    { isActive: isFocused && activeModal === null }
+  );
+
+  if (timeline.items.length === 0) {
+    return (
+      <Box paddingX={1}>
+        <Text color={colors.muted}>No subscriptions</Text>
+      </Box>
+    );
+  }
+
+  const colorOf = (index: number): string =>
+    colors[SERIES_COLORS[index % SERIES_COLORS.length] ?? 'primary'];
+  const visible = timeline.items
+    .map((item, index) => ({ item, color: colorOf(index) }))
+    .filter(({ item }) => item.isVisible);
+
+  const cursorColumn =
+    timeline.cursor === null ? null : plotWidth - 1 - Math.min(timeline.cursor, plotWidth - 1);
+  const cursorTime =
+    cursorColumn === null ? null : getColumnTime(cursorColumn, timeline.from, timeline.to, plotWidth);
+  const columnMs = (timeline.to.getTime() - timeline.from.getTime()) / plotWidth;
+
+  return (
+    <Box flexDirection="column" flexGrow={1}>
+      <TimelineHeader
+        window={timeline.window}
+        chartStyle={timeline.chartStyle}
+        historyUnavailable={timeline.historyUnavailable}
+        isLoading={timeline.isLoading}
+      />
+
+      <LineChart
+        series={visible.map(({ item, color }) => ({ id: item.id, color, points: item.points }))}
+        from={timeline.from}
+        to={timeline.to}
+        width={plotWidth}
+        height={plotHeight}
+        unit={timeline.unit}
+        chartStyle={timeline.chartStyle}
+        cursorColumn={cursorColumn}
+        startLabel={`-${timeline.window}`}
+      />
+
+      {cursorTime !== null && (
+        <CursorReadout
+          time={cursorTime}
+          unit={timeline.unit}
+          values={visible.map(({ item, color }) => ({
+            item,
+            color,
+            value: findNearestPoint(item.points, cursorTime, columnMs)?.value ?? null,
+          }))}
+        />
+      )}
+
+      <Box flexDirection="column" marginTop={1}>
+        {timeline.items.map((item, index) => (
+          <LegendRow key={item.id} item={item} color={colorOf(index)} />
+        ))}
+      </Box>
+    </Box>
+  );
+}
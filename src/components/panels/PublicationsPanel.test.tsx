@@ -0,0 +1,279 @@
+/**
+ * Tests for PublicationsPanel Component
+ *
+ * Tests publication listing per node, consumer cross-referencing, sequence
+ * drift, and selection order.
+ */
+import { describe, test, expect, beforeEach } from 'bun:test';
+import { render } from 'ink-testing-library';
+import { PublicationsPanel } from './PublicationsPanel.js';
+import { ThemeContext } from '../../theme/ThemeContext.js';
+import { DEFAULT_THEME } from '../../config/defaults.js';
+import { useStore } from '../../store/index.js';
+import { findPublicationConsumers, formatPublicationOperations } from '../../utils/publications.js';
+import { findMostBehindSequence, findSequenceDrift } from '../../utils/sequences.js';
+import type { Configuration } from '../../types/config.js';
+import type { NodeInfo, PublicationData, SequenceData, SubscriptionData } from '../../store/types.js';
+
+// Reset store before each test
+beforeEach(() => {
+  const state = useStore.getState();
+  state.clearReplicationData();
+  state.resetUIState();
+});
+
+// =============================================================================
+// Test Helpers
+// =============================================================================
+
+const config = { nodes: {} } as unknown as Configuration;
+
+const testNodes: NodeInfo[] = [
+  { id: 'node1', name: 'Primary', host: 'pg-primary', port: 5432, database: 'app', hasPglogical: true },
+  { id: 'node2', name: 'Replica', host: 'pg-replica', port: 5432, database: 'app', hasPglogical: true },
+  { id: 'node3', name: 'Analytics', host: 'pg-analytics', port: 5432, database: 'app', hasPglogical: false },
+];
+
+const createPublication = (overrides: Partial<PublicationData> = {}): PublicationData => ({
+  nodeId: 'node1',
+  name: 'default',
+  source: 'pglogical',
+  allTables: false,
+  operations: { insert: true, update: true, delete: true, truncate: true },
+  tables: [{ schemaName: 'public', tableName: 'orders', rowFilter: null, columns: null }],
+  sequences: [],
+  timestamp: new Date(),
+  ...overrides,
+});
+
+const createSubscription = (overrides: Partial<SubscriptionData> = {}): SubscriptionData => ({
+  nodeId: 'node2',
+  subscriptionName: 'sub_orders',
+  enabled: true,
+  disableOnError: null,
+  status: 'replicating',
+  providerNode: 'node1',
+  providerHost: 'pg-primary',
+  providerPort: 5432,
+  slotName: 'sub_orders',
+  receivedLsn: null,
+  latestEndLsn: null,
+  replicationSets: ['default'],
+  lastMessageTime: null,
+  workerPid: null,
+  source: 'pglogical',
+  timestamp: new Date(),
+  ...overrides,
+});
+
+const createSequence = (overrides: Partial<SequenceData> = {}): SequenceData => ({
+  nodeId: 'node1',
+  schemaName: 'public',
+  sequenceName: 'orders_id_seq',
+  lastValue: '5000',
+  ownerTable: 'public.orders',
+  timestamp: new Date(),
+  ...overrides,
+});
+
+function renderPanel() {
+  return render(
+    <ThemeContext.Provider value={DEFAULT_THEME}>
+      <PublicationsPanel config={config} />
+    </ThemeContext.Provider>
+  );
+}
+
+// =============================================================================
+// Consumer cross-reference
+// =============================================================================
+
+describe('findPublicationConsumers', () => {
+  test('matches subscriptions replicating the set from its node', () => {
+    const nodes = new Map(testNodes.map((node) => [node.id, node]));
+    const subscriptions = new Map([
+      ['node2', [createSubscription(), createSubscription({ subscriptionName: 'sub_other', replicationSets: ['ddl_sql'] })]],
+      ['node3', [createSubscription({ nodeId: 'node3', providerNode: null, providerHost: 'pg-replica' })]],
+    ]);
+
+    const consumers = findPublicationConsumers(createPublication(), subscriptions, nodes);
+
+    expect(consumers).toEqual([
+      { nodeId: 'node2', subscriptionName: 'sub_orders', status: 'replicating', enabled: true, matchedByName: false },
+    ]);
+  });
+
+  test('matches native subscriptions by publication name when the provider is unknown', () => {
+    const nodes = new Map(testNodes.map((node) => [node.id, node]));
+    const subscriptions = new Map([
+      [
+        'node3',
+        [
+          createSubscription({
+            nodeId: 'node3',
+            subscriptionName: 'sub_native',
+            source: 'native',
+            providerNode: null,
+            providerHost: null,
+            providerPort: null,
+            replicationSets: ['orders_pub'],
+          }),
+        ],
+      ],
+    ]);
+
+    const native = createPublication({ name: 'orders_pub', source: 'native' });
+    const pglogical = createPublication({ name: 'orders_pub', source: 'pglogical' });
+
+    expect(findPublicationConsumers(native, subscriptions, nodes)).toEqual([
+      expect.objectContaining({ subscriptionName: 'sub_native', matchedByName: true }),
+    ]);
+    expect(findPublicationConsumers(pglogical, subscriptions, nodes)).toEqual([]);
+  });
+
+  test('formats operations one letter each', () => {
+    expect(formatPublicationOperations({ insert: true, update: true, delete: false, truncate: null })).toBe('IU-?');
+  });
+});
+
+// =============================================================================
+// Sequence drift
+// =============================================================================
+
+describe('findSequenceDrift', () => {
+  test('compares the sequences of native publication tables with each subscriber', () => {
+    const sequences = new Map([
+      [
+        'node1',
+        [
+          createSequence(),
+          createSequence({ sequenceName: 'audit_id_seq', ownerTable: 'public.audit' }),
+          createSequence({ sequenceName: 'invoice_no', ownerTable: null }),
+        ],
+      ],
+      ['node2', [createSequence({ nodeId: 'node2', lastValue: '4200' })]],
+      ['node3', [createSequence({ nodeId: 'node3', lastValue: '5100' })]],
+    ]);
+    const publication = createPublication({ name: 'orders_pub', source: 'native' });
+
+    expect(findSequenceDrift(publication, ['node3', 'node2', 'node4'], sequences)).toEqual([
+      {
+        schemaName: 'public',
+        sequenceName: 'orders_id_seq',
+        nodeId: 'node2',
+        providerValue: '5000',
+        subscriberValue: '4200',
+        behindBy: 800n,
+        status: 'behind',
+      },
+      expect.objectContaining({ nodeId: 'node3', subscriberValue: '5100', behindBy: null, status: 'in_sync' }),
+    ]);
+  });
+
+  test('uses the sequences of pglogical replication sets and reports missing ones', () => {
+    const sequences = new Map([
+      ['node1', [createSequence(), createSequence({ sequenceName: 'invoice_no', ownerTable: null })]],
+      ['node2', [createSequence({ nodeId: 'node2', sequenceName: 'orders_id_seq', lastValue: null })]],
+    ]);
+    const publication = createPublication({
+      sequences: [
+        { schemaName: 'public', sequenceName: 'invoice_no' },
+        { schemaName: 'public', sequenceName: 'orders_id_seq' },
+      ],
+    });
+
+    const drift = findSequenceDrift(publication, ['node2'], sequences);
+
+    expect(drift.map((entry) => [entry.sequenceName, entry.status, entry.behindBy])).toEqual([
+      ['invoice_no', 'missing', null],
+      ['orders_id_seq', 'behind', null],
+    ]);
+    // Never used on the subscriber counts as behind by the provider's whole value
+    expect(findMostBehindSequence(drift)?.sequenceName).toBe('orders_id_seq');
+  });
+
+  test('compares values beyond the exact range of a number', () => {
+    const sequences = new Map([
+      ['node1', [createSequence({ lastValue: '9007199254740993' })]],
+      ['node2', [createSequence({ nodeId: 'node2', lastValue: '9007199254740992' })]],
+    ]);
+    const publication = createPublication({ name: 'orders_pub', source: 'native' });
+
+    const drift = findSequenceDrift(publication, ['node2'], sequences);
+
+    expect(drift.map((entry) => [entry.status, entry.behindBy])).toEqual([['behind', 1n]]);
+  });
+});
+
+// =============================================================================
+// Panel rendering
+// =============================================================================
+
+describe('PublicationsPanel', () => {
+  test('shows an empty state when nothing is published', () => {
+    useStore.getState().initializeNodesInfo(testNodes);
+
+    const { lastFrame } = renderPanel();
+
+    expect(lastFrame()).toContain('No publications or replication sets found');
+  });
+
+  test('lists publications under their node with members and subscribers', () => {
+    const state = useStore.getState();
+    state.initializeNodesInfo(testNodes);
+    state.setPublications('node1', [
+      createPublication(),
+      createPublication({
+        name: 'eu_orders',
+        source: 'native',
+        operations: { insert: true, update: true, delete: true, truncate: false },
+        tables: [
+          { schemaName: 'public', tableName: 'orders', rowFilter: "(region = 'eu'::text)", columns: null },
+          { schemaName: 'public', tableName: 'items', rowFilter: null, columns: ['id', 'sku'] },
+        ],
+      }),
+    ]);
+    state.setSubscriptions('node2', [createSubscription()]);
+
+    const frame = renderPanel().lastFrame() ?? '';
+
+    expect(frame).toContain('2 publications');
+    expect(frame).toContain('1 unused');
+    expect(frame).toContain('Primary');
+    expect(frame).toContain('1 table');
+    expect(frame).toContain('1 subscriber');
+    expect(frame).toContain('2 tables');
+    expect(frame).toContain('IUD-');
+    expect(frame).toContain('filtered');
+    expect(frame).toContain('no subscribers');
+  });
+
+  test('flags publications with sequences behind on a subscriber', () => {
+    const state = useStore.getState();
+    state.initializeNodesInfo(testNodes);
+    state.setPublications('node1', [
+      createPublication({ sequences: [{ schemaName: 'public', sequenceName: 'orders_id_seq' }] }),
+    ]);
+    state.setSubscriptions('node2', [createSubscription()]);
+    state.setSequences('node1', [createSequence()]);
+    state.setSequences('node2', [createSequence({ nodeId: 'node2', lastValue: '3000' })]);
+
+    const frame = renderPanel().lastFrame() ?? '';
+
+    expect(frame).toContain('1 seq drift');
+    expect(frame).toContain('1 seq behind');
+  });
+
+  test('selection follows the displayed order', () => {
+    const state = useStore.getState();
+    state.initializeNodesInfo(testNodes);
+    state.setPublications('node1', [createPublication({ name: 'zeta' }), createPublication({ name: 'alpha' })]);
+    state.setPublications('node3', [createPublication({ nodeId: 'node3', name: 'beta', source: 'native' })]);
+    state.setFocusedPanel('publications');
+
+    state.selectNext();
+    expect(useStore.getState().selections.get('publications')).toBe('node3:native:beta');
+    useStore.getState().selectNext();
+    expect(useStore.getState().selections.get('publications')).toBe('node1:pglogical:alpha');
+  });
+});
@@ -0,0 +1,249 @@
+/**
+ * PublicationsPanel Component
+ *
+ * Displays the native publications and pglogical replication sets of every
+ * connected node, grouped by node, with their table counts, replicated
+ * operations, and the subscriptions consuming them. Publications with a
+ * sequence behind the provider on a subscriber are flagged. Supports
+ * keyboard navigation with a detail modal.
+ */
+
+import React from 'react';
+import { Box, Text } from 'ink';
+import { Badge } from '../atoms/Badge.js';
+import { useTheme } from '../../hooks/useTheme.js';
+import { usePublications, type PublicationListItem } from '../../hooks/usePublications.js';
+import type { Configuration } from '../../types/config.js';
+
+// =============================================================================
+// Props
+// =============================================================================
+
+export interface PublicationsPanelProps {
+  config: Configuration;
+}
+
+export interface PublicationRowProps {
+  item: PublicationListItem;
+}
+
+// =============================================================================
+// Utility Functions
+// =============================================================================
+
+/**
+ * Short description of a publication's members (e.g. "12 tables", "all tables").
+ */
+function formatMembers(item: PublicationListItem): string {
+  if (item.allTables) return 'all tables';
+  const tables = `${item.tables.length} table${item.tables.length !== 1 ? 's' : ''}`;
+  if (item.sequences.length === 0) return tables;
+  return `${tables}, ${item.sequences.length} seq`;
+}
+
+// =============================================================================
+// Internal Components
+// =============================================================================
+
+/**
+ * Empty state when no node publishes anything.
+ */
+function EmptyState(): React.ReactElement {
+  const colors = useTheme();
+  return (
+    <Box flexDirection="column" alignItems="center" justifyContent="center" flexGrow={1}>
+      <Text color={colors.muted}>No publications or replication sets found</Text>
+      <Text color={colors.muted} dimColor>
+        Create a publication or replication set to see it here
+      </Text>
+    </Box>
+  );
+}
+
+/**
+ * Single publication row in the list.
+ */
+function PublicationRow({ item }: PublicationRowProps): React.ReactElement {
+  const colors = useTheme();
+
+  // Muted style for stale publications
+  const dimColor = item.isStale;
+
+  // Selection uses primary color highlighting
+  const rowColor = item.isSelected ? colors.primary : colors.foreground;
+
+  const consumerCount = item.consumers.length;
+
+  return (
+    <Box paddingX={1}>
+      {/* Selection indicator */}
+      <Box width={2}>
+        <Text color={colors.primary}>{item.isSelected ? '›' : ' '}</Text>
+      </Box>
+
+      {/* Source badge */}
+      <Box width={11} marginRight={1}>
+        <Badge
+          label={item.source}
+          variant={item.source === 'pglogical' ? 'secondary' : 'muted'}
+        />
+      </Box>
+
+      {/* Publication / replication set name */}
+      <Box width={20} marginRight={1}>
+        <Text bold={item.isSelected} color={rowColor} dimColor={dimColor} wrap="truncate">
+          {item.name}
+        </Text>
+      </Box>
+
+      {/* Member tables */}
+      <Box width={18} marginRight={1}>
+        <Text color={colors.muted} dimColor={dimColor} wrap="truncate">
+          {formatMembers(item)}
+        </Text>
+      </Box>
+
+      {/* Replicated operations */}
+      <Box width={5} marginRight={1}>
+        <Text color={colors.foreground} dimColor={dimColor}>
+          {item.formattedOperations}
+        </Text>
+      </Box>
+
+      {/* Row filters or column lists on any member table */}
+      <Box width={9} marginRight={1}>
+        {item.isFiltered ? (
+          <Text color={colors.secondary} dimColor={dimColor}>filtered</Text>
+        ) : (
+          <Text color={colors.muted} dimColor>-</Text>
+        )}
+      </Box>
+
+      {/* Consuming subscriptions */}
+      <Text
+        color={consumerCount > 0 ? colors.success : colors.muted}
+        dimColor={dimColor}
+        wrap="truncate"
+      >
+        {consumerCount > 0
+          ? `${consumerCount} subscriber${consumerCount !== 1 ? 's' : ''}`
+          : 'no subscribers'}
+      </Text>
+
+      {/* Sequences a subscriber is behind on */}
+      {item.behindSequenceCount > 0 && (
+        <Box marginLeft={1}>
+          <Text color={colors.warning} dimColor={dimColor}>
+            {item.behindSequenceCount} seq behind
+          </Text>
+        </Box>
+      )}
+    </Box>
+  );
+}
+
+/**
+ * Summary header with aggregated publication counts.
+ */
+function SummaryHeader({
+  count,
+  unconsumedCount,
+  staleCount,
+  sequenceDriftCount,
+}: {
+  count: number;
+  unconsumedCount: number;
+  staleCount: number;
+  sequenceDriftCount: number;
+}): React.ReactElement {
+  const colors = useTheme();
+
+  const badges: React.ReactElement[] = [];
+
+  // Publications with sequences behind on a subscriber
+  if (sequenceDriftCount > 0) {
+    badges.push(
+      <Badge key="drift" label={`${sequenceDriftCount} seq drift`} variant="warning" />
+    );
+  }
+
+  // Publications nothing consumes
+  if (unconsumedCount > 0) {
+    badges.push(<Badge key="unconsumed" label={`${unconsumedCount} unused`} variant="muted" />);
+  }
+
+  // Stale nodes badge
+  if (staleCount > 0) {
+    badges.push(<Badge key="stale" label={`${staleCount} stale`} variant="muted" />);
+  }
+
+  return (
+    <Box marginBottom={1} gap={1}>
+      <Text color={colors.muted}>
+        {count} publication{count !== 1 ? 's' : ''}
+      </Text>
+      {badges}
+    </Box>
+  );
+}
+
+// =============================================================================
+// Main Component
+// =============================================================================
+
+/**
+ * PublicationsPanel displays publications and replication sets per node.
+ *
+ * Handles:
+ * - Empty state (nothing published)
+ * - Publications grouped under their node's name
+ * - Selection highlighting
+ * - Stale node indication
+ * - Sequence drift on subscribers
+ * - Summary header with totals
+ */
+export function PublicationsPanel({ config: _config }: PublicationsPanelProps): React.ReactElement {
+  const { items, count, unconsumedCount, staleCount, sequenceDriftCount } = usePublications();
+  const colors = useTheme();
+
+  // Items are sorted by node, so each node's group is contiguous
+  const groups: { nodeId: string; nodeName: string; items: PublicationListItem[] }[] = [];
+  for (const item of items) {
+    const group = groups[groups.length - 1];
+    if (group && group.nodeId === item.nodeId) {
+      group.items.push(item);
+    } else {
+      groups.push({ nodeId: item.nodeId, nodeName: item.nodeName, items: [item] });
+    }
+  }
+
+  return (
+    <Box flexDirection="column" flexGrow={1}>
+      {/* Summary header */}
+      <SummaryHeader
+        count={count}
+        unconsumedCount={unconsumedCount}
+        staleCount={staleCount}
+        sequenceDriftCount={sequenceDriftCount}
+      />
+
+      {/* Publication list, one group per node */}
+      {count === 0 ? (
+        <EmptyState />
+      ) : (
+        <Box flexDirection="column">
+          {groups.map((group) => (
+            <Box key={group.nodeId} flexDirection="column">
+              <Text bold color={colors.muted}>
+                {group.nodeName}
+              </Text>
+              {group.items.map((item) => (
+                <PublicationRow key={item.id} item={item} />
+              ))}
+            </Box>
+          ))}
+        </Box>
+      )}
+    </Box>
+  );
+}
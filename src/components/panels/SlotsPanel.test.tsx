@@ -41,9 +41,18 @@ const createSlot = (overrides: Partial<SlotData> = {}): SlotData => ({
   slotType: 'logical',
   database: 'test',
   active: true,
+  activePid: null,
   retainedBytes: 1024,
   pendingBytes: 512,
+  confirmedFlushLsn: null,
   walStatus: 'reserved',
+  xminAge: null,
+  catalogXminAge: null,
+  safeWalSize: null,
+  maxSlotWalKeepSize: null,
+  twoPhase: null,
+  inactiveSince: null,
+  blocker: null,
   isStale: false,
   timestamp: new Date(),
   ...overrides,
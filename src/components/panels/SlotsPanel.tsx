@@ -3,7 +3,8 @@
  *
  * Displays a consolidated list of all PostgreSQL replication slots
  * across connected nodes. Shows status indicators, WAL retention progress bars,
- * WAL status badges, and supports keyboard navigation with a detail modal.
+ * WAL status badges, when retention reaches its limit at the current WAL
+ * rate, and supports keyboard navigation with a detail modal.
  *
  * Feature: 010-slots-panel
  */
@@ -14,7 +15,15 @@ import { Badge } from '../atoms/Badge.js';
 import { StatusDot } from '../atoms/StatusDot.js';
 import { ProgressBar } from '../atoms/ProgressBar.js';
 import { useTheme } from '../../hooks/useTheme.js';
-import { useSlots, type SlotListItem, type Severity } from '../../hooks/useSlots.js';
+import {
+  useSlots,
+  formatByteRate,
+  formatBytes,
+  type SlotListItem,
+  type Severity,
+} from '../../hooks/useSlots.js';
+import { formatXidAge } from '../../utils/slot-retention.js';
+import { formatEta } from '../../utils/wal-rate.js';
 import type { Configuration } from '../../types/config.js';
 
 // =============================================================================
@@ -158,6 +167,49 @@ function SlotRow({ item }: SlotRowProps): React.ReactElement {
           <Text color={colors.muted} dimColor>-</Text>
         </Box>
       )}
+
+      {/* When retention reaches its limit at the current rate (e.g. "→ 5.0 GB in ~42m") */}
+      {item.retentionForecast && (
+        <Box marginRight={1}>
+          <Text
+            color={
+              item.retentionForecast.limit === 'max_slot_wal_keep_size'
+                ? colors.critical
+                : colors.warning
+            }
+            dimColor={dimColor}
+            wrap="truncate"
+          >
+            → {formatBytes(item.retentionForecast.limitBytes)} in{' '}
+            {formatEta(item.retentionForecast.secondsToLimit)}
+          </Text>
+        </Box>
+      )}
+
+      {/* Decoder spilling to disk since the previous poll (PG14+) */}
+      {item.isSpilling && item.decodingRates && (
+        <Text color={colors.warning} dimColor={dimColor} wrap="truncate">
+          spill {formatByteRate(item.decodingRates.spillBytesPerSec)}
+        </Text>
+      )}
+
+      {/* What holds the slot back: an open transaction, else an old xmin */}
+      {item.blocker ? (
+        <Box marginLeft={1}>
+          <Text color={colors.warning} dimColor={dimColor} wrap="truncate">
+            held by pid {item.blocker.pid}
+          </Text>
+        </Box>
+      ) : (
+        item.xminSeverity !== 'healthy' &&
+        item.horizonAge !== null && (
+          <Box marginLeft={1}>
+            <Text color={getSeverityColor(item.xminSeverity, colors)} dimColor={dimColor} wrap="truncate">
+              xmin age {formatXidAge(item.horizonAge)}
+            </Text>
+          </Box>
+        )
+      )}
     </Box>
   );
 }
@@ -172,6 +224,7 @@ function SummaryHeader({
   criticalCount,
   warningCount,
   staleCount,
+  spillingCount,
   formattedTotalRetention,
 }: {
   count: number;
@@ -180,6 +233,7 @@ function SummaryHeader({
   criticalCount: number;
   warningCount: number;
   staleCount: number;
+  spillingCount: number;
   formattedTotalRetention: string;
 }): React.ReactElement {
   const colors = useTheme();
@@ -202,6 +256,11 @@ function SummaryHeader({
     badges.push(<Badge key="warning" label={`${warningCount} warning`} variant="warning" />);
   }
 
+  // Slots whose decoder spills to disk
+  if (spillingCount > 0) {
+    badges.push(<Badge key="spilling" label={`${spillingCount} spilling`} variant="warning" />);
+  }
+
   // Stale nodes badge
   if (staleCount > 0) {
     badges.push(<Badge key="stale" label={`${staleCount} stale`} variant="muted" />);
@@ -242,6 +301,7 @@ export function SlotsPanel({ config: _config }: SlotsPanelProps): React.ReactEle
     criticalCount,
     warningCount,
     staleCount,
+    spillingCount,
     formattedTotalRetention,
   } = useSlots();
 
@@ -255,6 +315,7 @@ export function SlotsPanel({ config: _config }: SlotsPanelProps): React.ReactEle
         criticalCount={criticalCount}
         warningCount={warningCount}
         staleCount={staleCount}
+        spillingCount={spillingCount}
         formattedTotalRetention={formattedTotalRetention}
       />
 
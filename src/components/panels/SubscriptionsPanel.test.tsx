@@ -12,6 +12,11 @@ import { useConnectionStore } from '../../store/connection.js';
 import type { NodeInfo, SubscriptionData, LagSample } from '../../store/types.js';
 import { getStatusVariant } from '../../hooks/useSubscriptions.js';
 import { formatBytes, formatDuration } from './SubscriptionsPanel.js';
+import {
+  countRecentWorkerEvents,
+  formatWorkerEvent,
+  isCrashLooping,
+} from '../../utils/worker-history.js';
 
 // =============================================================================
 // Test Helpers
@@ -29,6 +34,7 @@ function createSubscription(
     nodeId,
     subscriptionName: name,
     enabled: true,
+    disableOnError: false,
     status: 'replicating',
     providerNode: null,
     providerHost: null,
@@ -197,6 +203,39 @@ describe('User Story 1: Monitor All Subscriptions', () => {
   });
 });
 
+// =============================================================================
+// Apply worker history
+// =============================================================================
+
+describe('Apply worker history', () => {
+  const now = new Date('2024-06-01T12:30:00Z');
+  const restart = (minutesAgo: number) => ({
+    type: 'worker_restart' as const,
+    timestamp: new Date(now.getTime() - minutesAgo * 60_000),
+    count: 0,
+    previousPid: 100,
+    pid: 200,
+  });
+
+  test('three restarts within ten minutes is a crash loop', () => {
+    const history = { lastPid: 200, autoDisabled: false, events: [restart(30), restart(8), restart(4)] };
+
+    expect(countRecentWorkerEvents(history, 'worker_restart', now)).toBe(2);
+    expect(isCrashLooping(history, now)).toBe(false);
+    expect(isCrashLooping({ ...history, events: [...history.events, restart(1)] }, now)).toBe(true);
+    expect(isCrashLooping(undefined, now)).toBe(false);
+  });
+
+  test('counts apply errors by error and describes events', () => {
+    const errors = { type: 'apply_error' as const, timestamp: now, count: 3, previousPid: null, pid: null };
+    const history = { lastPid: null, autoDisabled: false, events: [errors, restart(0)] };
+
+    expect(countRecentWorkerEvents(history, 'apply_error', now)).toBe(3);
+    expect(formatWorkerEvent(errors)).toBe('3 apply errors');
+    expect(formatWorkerEvent(restart(0))).toBe('worker restarted (pid 100 → 200)');
+  });
+});
+
 // =============================================================================
 // User Story 2: View Subscription Lag Metrics
 // =============================================================================
@@ -157,6 +157,19 @@ function SubscriptionRow({ item }: SubscriptionRowProps): React.ReactElement {
           <Text color={colors.muted} dimColor={dimColor}>no lag data</Text>
         </Box>
       )}
+
+      {/* Apply worker trouble */}
+      {item.isAutoDisabled ? (
+        <Box marginLeft={1}>
+          <Text color={colors.critical} dimColor={dimColor}>auto-disabled</Text>
+        </Box>
+      ) : item.isCrashLooping ? (
+        <Box marginLeft={1}>
+          <Text color={colors.warning} dimColor={dimColor}>
+            restarting ({item.recentRestarts}x)
+          </Text>
+        </Box>
+      ) : null}
     </Box>
   );
 }
@@ -173,6 +186,7 @@ function SubscriptionRow({ item }: SubscriptionRowProps): React.ReactElement {
  * - List of subscriptions with status, lag, LSN
  * - Selection highlighting
  * - Stale node indication
+ * - Auto-disabled and crash-looping apply workers
  */
 export function SubscriptionsPanel({ config: _config }: SubscriptionsPanelProps): React.ReactElement {
   const colors = useTheme();
@@ -182,6 +196,8 @@ export function SubscriptionsPanel({ config: _config }: SubscriptionsPanelProps)
     criticalCount,
     warningCount,
     staleCount,
+    autoDisabledCount,
+    crashLoopingCount,
     pglogicalMode,
   } = useSubscriptions();
 
@@ -196,6 +212,16 @@ export function SubscriptionsPanel({ config: _config }: SubscriptionsPanelProps)
   if (warningCount > 0) {
     badges.push(<Badge key="warning" label={`${warningCount} warning`} variant="warning" />);
   }
+  if (autoDisabledCount > 0) {
+    badges.push(
+      <Badge key="auto-disabled" label={`${autoDisabledCount} auto-disabled`} variant="critical" />
+    );
+  }
+  if (crashLoopingCount > 0) {
+    badges.push(
+      <Badge key="restarting" label={`${crashLoopingCount} restarting`} variant="warning" />
+    );
+  }
   if (staleCount > 0) {
     badges.push(<Badge key="stale" label={`${staleCount} stale`} variant="muted" />);
   }
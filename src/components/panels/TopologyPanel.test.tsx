@@ -1,14 +1,16 @@
 /**
  * TopologyPanel Component Tests
  *
- * Tests for keyboard navigation and selection state.
+ * Tests for keyboard navigation, selection state, and the capability
+ * warnings shown in node details.
  *
  * Feature: 008-topology-panel
  */
 
 import { describe, test, expect, beforeEach } from 'bun:test';
 import { useStore } from '../../../src/store/index.js';
-import type { NodeInfo } from '../../../src/store/types.js';
+import type { NodeCapabilities, NodeInfo, SlotData } from '../../../src/store/types.js';
+import { formatPglogicalVersion, getCapabilityWarnings } from '../../utils/capabilities.js';
 
 /**
  * Initialize store with nodes for testing.
@@ -157,3 +159,57 @@ describe('TopologyPanel Selection State', () => {
     });
   });
 });
+
+describe('getCapabilityWarnings', () => {
+  const capabilities: NodeCapabilities = {
+    nodeId: 'node1',
+    versionNum: 170002,
+    version: '17.2',
+    hasPglogical: true,
+    pglogicalVersion: '2.4.5',
+    walLevel: 'logical',
+    maxReplicationSlots: 10,
+    maxWalSenders: 10,
+    trackCommitTimestamp: true,
+    maxSlotWalKeepSizeMb: -1,
+    conflictHistory: true,
+    probedAt: new Date(),
+  };
+
+  const logicalSlot: Pick<SlotData, 'slotType' | 'active'> = { slotType: 'logical', active: true };
+
+  test('accepts settings that fit', () => {
+    expect(getCapabilityWarnings(capabilities, [logicalSlot], [{ name: 'default' }])).toEqual([]);
+  });
+
+  test('requires wal_level = logical only on publishing nodes', () => {
+    const replica = { ...capabilities, walLevel: 'replica' };
+
+    expect(getCapabilityWarnings(replica, [], [])).toEqual([]);
+    expect(getCapabilityWarnings(replica, [logicalSlot], [])).toEqual([
+      expect.objectContaining({ setting: 'wal_level', severity: 'critical' }),
+    ]);
+  });
+
+  test('warns as replication slots and walsenders run out, most severe first', () => {
+    const tight = { ...capabilities, maxReplicationSlots: 5, maxWalSenders: 3, trackCommitTimestamp: false };
+    const slots = Array.from({ length: 4 }, () => logicalSlot);
+
+    expect(getCapabilityWarnings(tight, slots, []).map((w) => [w.setting, w.severity])).toEqual([
+      ['max_replication_slots', 'warning'],
+      ['max_wal_senders', 'warning'],
+      ['track_commit_timestamp', 'warning'],
+    ]);
+    expect(getCapabilityWarnings(tight, [...slots, logicalSlot], [])[0]).toMatchObject({
+      setting: 'max_replication_slots',
+      severity: 'critical',
+      message: 'All 5 replication slots are in use',
+    });
+  });
+
+  test('formats the pglogical version', () => {
+    expect(formatPglogicalVersion(capabilities)).toBe('2.4.5');
+    expect(formatPglogicalVersion({ hasPglogical: true, pglogicalVersion: null })).toBe('installed');
+    expect(formatPglogicalVersion({ hasPglogical: false, pglogicalVersion: null })).toBe('not installed');
+  });
+});
@@ -4,3 +4,5 @@ export { SubscriptionsPanel } from './SubscriptionsPanel.js';
 export type { SubscriptionsPanelProps } from './SubscriptionsPanel.js';
 export { SlotsPanel } from './SlotsPanel.js';
 export type { SlotsPanelProps } from './SlotsPanel.js';
+export { PublicationsPanel } from './PublicationsPanel.js';
+export type { PublicationsPanelProps } from './PublicationsPanel.js';
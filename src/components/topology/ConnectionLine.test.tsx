@@ -85,6 +85,13 @@ describe('ConnectionLine', () => {
 
       expect(lastFrame()).not.toContain('pgl');
     });
+
+    test('shows wal label for physical standbys', () => {
+      const edge = createEdge({ replicationType: 'physical', subscriptionName: null });
+      const { lastFrame } = renderWithTheme(<ConnectionLine edge={edge} />);
+
+      expect(lastFrame()).toContain('wal');
+    });
   });
 
   describe('Lag Display', () => {
@@ -10,6 +10,7 @@
 import React from 'react';
 import { Box, Text } from 'ink';
 import { useTheme } from '../../hooks/useTheme.js';
+import { useStore } from '../../store/index.js';
 import type { TopologyEdge, ReplicationType, EdgeDirection } from '../../types/topology.js';
 import { formatLag, getLagSeverity, getLagColor } from '../../utils/topology.js';
 
@@ -54,12 +55,15 @@ function getArrowChar(
 
 /**
  * Get line style based on replication type.
- * Native uses solid line, pglogical uses dashed-style label.
+ * Native uses solid line, pglogical and physical standbys get a label.
  */
 function getLineLabel(replicationType: ReplicationType): string | null {
   if (replicationType === 'pglogical') {
     return 'pgl';
   }
+  if (replicationType === 'physical') {
+    return 'wal';
+  }
   return null;
 }
 
@@ -69,7 +73,7 @@ function getLineLabel(replicationType: ReplicationType): string | null {
  * Features:
  * - Direction indicator (→ for unidirectional, ↔ for bidirectional)
  * - Optional lag value with severity color coding
- * - Replication type indicator (pgl for pglogical)
+ * - Replication type indicator (pgl for pglogical, wal for standbys)
  */
 export const ConnectionLine = React.memo(function ConnectionLine({
   edge,
@@ -78,10 +82,11 @@ export const ConnectionLine = React.memo(function ConnectionLine({
   orientation = 'horizontal',
 }: ConnectionLineProps): React.ReactElement {
   const colors = useTheme();
+  const lagThresholds = useStore((s) => s.thresholds.replicationLag);
 
   const arrowChar = getArrowChar(edge.direction, orientation);
   const lineLabel = getLineLabel(edge.replicationType);
-  const lagSeverity = getLagSeverity(edge.lagSeconds);
+  const lagSeverity = getLagSeverity(edge.lagSeconds, lagThresholds);
   const lagColorKey = getLagColor(lagSeverity);
   const lagColor = colors[lagColorKey];
 
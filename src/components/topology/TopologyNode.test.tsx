@@ -36,6 +36,8 @@ function createNodeData(overrides: Partial<TopologyNodeData> = {}): TopologyNode
     isStale: false,
     isSelected: false,
     hasPglogical: false,
+    isExternal: false,
+    walReceiver: null,
     outgoingEdges: [],
     incomingEdges: [],
     ...overrides,
@@ -175,4 +177,13 @@ describe('TopologyNode', () => {
       expect(lastFrame()).not.toContain('[STALE]');
     });
   });
+
+  describe('External Upstream', () => {
+    test('shows EXTERNAL badge for an upstream outside the config', () => {
+      const node = createNodeData({ role: 'primary', isExternal: true });
+      const { lastFrame } = renderWithTheme(<TopologyNode node={node} width={30} />);
+
+      expect(lastFrame()).toContain('[EXTERNAL]');
+    });
+  });
 });
@@ -61,6 +61,7 @@ function getRoleBadgeVariant(role: NodeRole): BadgeVariant {
  * - Role badge
  * - Host:port info
  * - Stale badge (if applicable)
+ * - External badge for upstreams that are not configured nodes
  */
 export const TopologyNode = React.memo(function TopologyNode({
   node,
@@ -100,9 +101,14 @@ export const TopologyNode = React.memo(function TopologyNode({
         </Text>
       </Box>
 
-      {/* Row 2: Role Badge + Stale indicator */}
+      {/* Row 2: Role Badge + Stale/External indicator */}
       <Box>
         <Badge label={roleLabel} variant={roleBadgeVariant} />
+        {node.isExternal && (
+          <Box marginLeft={1}>
+            <Badge label="EXTERNAL" variant="muted" />
+          </Box>
+        )}
         {node.isStale && (
           <Box marginLeft={1}>
             <Badge label="STALE" variant="muted" />
@@ -70,6 +70,113 @@ export interface ResolvedThresholds {
   conflictRate: ThresholdLevels;
 }
 
+/**
+ * Resolved Prometheus metrics endpoint configuration.
+ */
+export interface ResolvedMetricsConfig {
+  /** Whether the HTTP /metrics endpoint is served */
+  enabled: boolean;
+  /** Interface to bind the HTTP listener to */
+  host: string;
+  /** TCP port for the HTTP listener */
+  port: number;
+}
+
+/**
+ * Lag history resolution: raw polling samples or a rollup bucket size.
+ */
+export type HistoryResolution = 'raw' | '1m' | '10m';
+
+/**
+ * Resolved persistent lag history configuration.
+ */
+export interface ResolvedHistoryConfig {
+  /** Whether samples are recorded to disk */
+  enabled: boolean;
+  /** Directory holding the segment files */
+  path: string;
+  /** How long each resolution is kept (seconds) */
+  retention: Record<HistoryResolution, number>;
+}
+
+/**
+ * Webhook body template.
+ * - generic: replmon alert JSON
+ * - slack: Slack incoming webhook message
+ * - pagerduty: PagerDuty Events API v2 event
+ */
+export type WebhookTemplate = 'generic' | 'slack' | 'pagerduty';
+
+/**
+ * Delivery settings shared by all alert sinks.
+ */
+export interface ResolvedSinkDelivery {
+  /** Sink name used in logs */
+  name: string;
+  /** Retries after a failed delivery */
+  retries: number;
+  /** Delay before the first retry (seconds), doubled for each further retry */
+  retryDelaySeconds: number;
+  /** Maximum notifications per minute (0 = unlimited) */
+  rateLimitPerMinute: number;
+  /** Minimum seconds between notifications for the same dedup key (0 = off) */
+  dedupWindowSeconds: number;
+}
+
+/**
+ * HTTP webhook sink (POST with a JSON body).
+ */
+export interface ResolvedWebhookSink extends ResolvedSinkDelivery {
+  type: 'webhook';
+  /** Target URL */
+  url: string;
+  /** Body template */
+  template: WebhookTemplate;
+  /** Extra request headers */
+  headers: Record<string, string>;
+  /** PagerDuty integration key (pagerduty template only) */
+  routingKey: string | null;
+  /** Request timeout (seconds) */
+  timeoutSeconds: number;
+}
+
+/**
+ * Shell command sink (alert passed as REPLMON_ALERT_* env vars and JSON on stdin).
+ */
+export interface ResolvedCommandSink extends ResolvedSinkDelivery {
+  type: 'command';
+  /** Command line run with /bin/sh -c */
+  command: string;
+  /** Time before the command is killed (seconds) */
+  timeoutSeconds: number;
+}
+
+/**
+ * Append-only NDJSON file sink.
+ */
+export interface ResolvedFileSink extends ResolvedSinkDelivery {
+  type: 'file';
+  /** File path (parent directories are created) */
+  path: string;
+}
+
+/**
+ * Resolved alert notification sink.
+ */
+export type ResolvedAlertSink = ResolvedWebhookSink | ResolvedCommandSink | ResolvedFileSink;
+
+/**
+ * Resolved alert evaluation settings, applied to every threshold.
+ */
+export interface ResolvedAlertsConfig {
+  /** Seconds a threshold must stay exceeded before its alert fires */
+  forSeconds: number;
+  /** Fraction of the threshold a value must drop below it before a firing alert resolves */
+  hysteresis: number;
+  /** Where firing/resolved transitions are delivered */
+  sinks: ResolvedAlertSink[];
+}
+
 // =============================================================================
 // Threshold Defaults
 // =============================================================================
@@ -108,6 +215,82 @@ export const DEFAULT_THRESHOLDS: ResolvedThresholds = {
   },
 };
 
+// =============================================================================
+// Alert Defaults
+// =============================================================================
+
+/** Default time a threshold must stay exceeded before firing (seconds) */
+export const DEFAULT_ALERT_FOR_SECONDS = 0;
+
+/** Default hysteresis below a threshold before resolving (fraction) - 10% */
+export const DEFAULT_ALERT_HYSTERESIS = 0.1;
+
+/** Default alert evaluation settings (no sinks) */
+export const DEFAULT_ALERTS: ResolvedAlertsConfig = {
+  forSeconds: DEFAULT_ALERT_FOR_SECONDS,
+  hysteresis: DEFAULT_ALERT_HYSTERESIS,
+  sinks: [],
+};
+
+/** Default retries after a failed sink delivery */
+export const DEFAULT_SINK_RETRIES = 3;
+
+/** Default delay before the first retry (seconds) */
+export const DEFAULT_SINK_RETRY_DELAY_SECONDS = 1;
+
+/** Default maximum notifications per sink per minute */
+export const DEFAULT_SINK_RATE_LIMIT_PER_MINUTE = 20;
+
+/** Default minimum time between notifications for the same alert (seconds) - 5 minutes */
+export const DEFAULT_SINK_DEDUP_WINDOW_SECONDS = 300;
+
+/** Default webhook request / command timeout (seconds) */
+export const DEFAULT_SINK_TIMEOUT_SECONDS = 10;
+
+// =============================================================================
+// Metrics Endpoint Defaults
+// =============================================================================
+
+/** Default bind address for the /metrics endpoint (loopback only) */
+export const DEFAULT_METRICS_HOST = '127.0.0.1';
+
+/** Default port for the /metrics endpoint */
+export const DEFAULT_METRICS_PORT = 9464;
+
+/** Default metrics endpoint configuration (disabled) */
+export const DEFAULT_METRICS: ResolvedMetricsConfig = {
+  enabled: false,
+  host: DEFAULT_METRICS_HOST,
+  port: DEFAULT_METRICS_PORT,
+};
+
+// =============================================================================
+// History Defaults
+// =============================================================================
+
+/** Default raw sample retention (seconds) - 6 hours */
+export const DEFAULT_HISTORY_RAW_RETENTION_SECONDS = 6 * 3600;
+
+/** Default 1-minute rollup retention (seconds) - 7 days */
+export const DEFAULT_HISTORY_1M_RETENTION_SECONDS = 7 * 86400;
+
+/** Default 10-minute rollup retention (seconds) - 90 days */
+export const DEFAULT_HISTORY_10M_RETENTION_SECONDS = 90 * 86400;
+
+/** Default history directory */
+export const DEFAULT_HISTORY_PATH = path.join(os.homedir(), '.replmon', 'history');
+
+/** Default history configuration (disabled) */
+export const DEFAULT_HISTORY: ResolvedHistoryConfig = {
+  enabled: false,
+  path: DEFAULT_HISTORY_PATH,
+  retention: {
+    raw: DEFAULT_HISTORY_RAW_RETENTION_SECONDS,
+    '1m': DEFAULT_HISTORY_1M_RETENTION_SECONDS,
+    '10m': DEFAULT_HISTORY_10M_RETENTION_SECONDS,
+  },
+};
+
 // =============================================================================
 // Theme Defaults
 // =============================================================================
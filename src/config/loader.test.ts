@@ -127,6 +127,36 @@ nodes:
     expect(config.nodes?.primary?.password).toBe('secret123');
     delete process.env['TEST_PASSWORD'];
   });
+
+  test('interpolates environment variables in alert sinks', () => {
+    process.env['TEST_WEBHOOK_TOKEN'] = 'tok';
+    const configPath = path.join(tmpDir, 'config.yaml');
+    fs.writeFileSync(
+      configPath,
+      `
+alerts:
+  sinks:
+    - type: webhook
+      url: https://hooks.example.com/\${TEST_WEBHOOK_TOKEN}
+      headers:
+        Authorization: Bearer \${TEST_WEBHOOK_TOKEN}
+`
+    );
+
+    const sink = loadConfigFile(configPath).alerts?.sinks?.[0];
+    expect(sink?.url).toBe('https://hooks.example.com/tok');
+    expect(sink?.headers?.['Authorization']).toBe('Bearer tok');
+    delete process.env['TEST_WEBHOOK_TOKEN'];
+  });
+
+  test('interpolates environment variables in the history path', () => {
+    process.env['TEST_HISTORY_DIR'] = '/var/lib/replmon';
+    const configPath = path.join(tmpDir, 'config.yaml');
+    fs.writeFileSync(configPath, 'history:\n  path: ${TEST_HISTORY_DIR}/history\n');
+
+    expect(loadConfigFile(configPath).history?.path).toBe('/var/lib/replmon/history');
+    delete process.env['TEST_HISTORY_DIR'];
+  });
 });
 
 describe('tryLoadDefaultConfig', () => {
@@ -1,7 +1,14 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { parse as parseYAML } from 'yaml';
-import type { YAMLConfigFile, YAMLNodeConfig } from '../types/yaml-config.js';
+import type {
+  YAMLConfigFile,
+  YAMLNodeConfig,
+  YAMLMetricsConfig,
+  YAMLHistoryConfig,
+  YAMLAlertsConfig,
+  YAMLAlertSinkConfig,
+} from '../types/yaml-config.js';
 import {
   ConfigFileNotFoundError,
   ConfigFilePermissionError,
@@ -88,6 +95,80 @@ function interpolateNodeConfig(node: YAMLNodeConfig, nodeName: string): YAMLNode
   return result;
 }
 
+/**
+ * Interpolate environment variables in the metrics endpoint configuration.
+ * Validates that port is a valid number after interpolation.
+ */
+function interpolateMetricsConfig(metrics: YAMLMetricsConfig): YAMLMetricsConfig {
+  const result: YAMLMetricsConfig = {};
+
+  if (metrics.enabled !== undefined) {
+    result.enabled = metrics.enabled;
+  }
+  if (metrics.host !== undefined) {
+    result.host = interpolateEnvVars(metrics.host);
+  }
+  if (metrics.port !== undefined) {
+    const raw =
+      typeof metrics.port === 'string' ? interpolateEnvVars(metrics.port) : metrics.port;
+    const parsedPort = typeof raw === 'string' ? parseInt(raw, 10) : raw;
+    if (isNaN(parsedPort) || parsedPort < 1 || parsedPort > 65535) {
+      throw new ConfigValidationError([`metrics.port: Invalid port '${raw}'`]);
+    }
+    result.port = parsedPort;
+  }
+
+  return result;
+}
+
+/**
+ * Interpolate environment variables in the history directory path.
+ */
+function interpolateHistoryConfig(history: YAMLHistoryConfig): YAMLHistoryConfig {
+  if (typeof history.path !== 'string') {
+    return history;
+  }
+  return { ...history, path: interpolateEnvVars(history.path) };
+}
+
+/**
+ * Interpolate environment variables in alert sink strings
+ * (URLs, headers, routing keys, commands, and paths).
+ * Non-array sinks are passed through for the validator to report.
+ */
+function interpolateAlertsConfig(alerts: YAMLAlertsConfig): YAMLAlertsConfig {
+  if (!Array.isArray(alerts.sinks)) {
+    return alerts;
+  }
+
+  const sinks = alerts.sinks.map((sink): YAMLAlertSinkConfig => {
+    const result: YAMLAlertSinkConfig = { ...sink };
+    if (typeof sink.url === 'string') {
+      result.url = interpolateEnvVars(sink.url);
+    }
+    if (typeof sink.routing_key === 'string') {
+      result.routing_key = interpolateEnvVars(sink.routing_key);
+    }
+    if (typeof sink.command === 'string') {
+      result.command = interpolateEnvVars(sink.command);
+    }
+    if (typeof sink.path === 'string') {
+      result.path = interpolateEnvVars(sink.path);
+    }
+    if (sink.headers !== null && typeof sink.headers === 'object') {
+      result.headers = Object.fromEntries(
+        Object.entries(sink.headers).map(([name, value]) => [
+          name,
+          typeof value === 'string' ? interpolateEnvVars(value) : value,
+        ])
+      );
+    }
+    return result;
+  });
+
+  return { ...alerts, sinks };
+}
+
 /**
  * Interpolate environment variables in the entire config file.
  * Passes through clusters, theme, and thresholds unchanged.
@@ -121,6 +202,18 @@ function interpolateConfig(config: YAMLConfigFile): YAMLConfigFile {
     result.thresholds = config.thresholds;
   }
 
+  if (config.alerts !== undefined) {
+    result.alerts = interpolateAlertsConfig(config.alerts);
+  }
+
+  if (config.metrics !== undefined) {
+    result.metrics = interpolateMetricsConfig(config.metrics);
+  }
+
+  if (config.history !== undefined) {
+    result.history = interpolateHistoryConfig(config.history);
+  }
+
   return result;
 }
 
@@ -1,11 +1,17 @@
 import os from 'os';
 import type { CLIArguments } from '../types/cli.js';
-import type { Configuration } from '../types/config.js';
+import type { Configuration, ResolvedMetricsConfig } from '../types/config.js';
 import type { ConnectionConfig } from '../types/connection.js';
 import { InsufficientArgumentsError } from '../types/errors.js';
 import { loadConfigFile, tryLoadDefaultConfig } from './loader.js';
 import { transformToConfiguration } from './validator.js';
-import { DEFAULT_THEME, DEFAULT_THRESHOLDS } from './defaults.js';
+import {
+  DEFAULT_THEME,
+  DEFAULT_THRESHOLDS,
+  DEFAULT_ALERTS,
+  DEFAULT_METRICS,
+  DEFAULT_HISTORY,
+} from './defaults.js';
 
 // =============================================================================
 // Warning Logging
@@ -44,6 +50,37 @@ function getPassword(cliPassword?: string): string | undefined {
   return undefined;
 }
 
+/**
+ * Apply --metrics-host / --metrics-port overrides to a metrics config.
+ * Passing --metrics-port enables the endpoint.
+ */
+function applyMetricsFlags(
+  base: ResolvedMetricsConfig,
+  args: CLIArguments
+): ResolvedMetricsConfig {
+  return {
+    enabled: base.enabled || args.metricsPort !== undefined,
+    host: args.metricsHost ?? base.host,
+    port: args.metricsPort ?? base.port,
+  };
+}
+
+/**
+ * Check whether any CLI flag overrides a config file value.
+ */
+function hasOverrideArgs(args: CLIArguments): boolean {
+  return (
+    args.host !== undefined ||
+    args.port !== undefined ||
+    args.database !== undefined ||
+    args.user !== undefined ||
+    args.password !== undefined ||
+    args.pglogical === true ||
+    args.metricsHost !== undefined ||
+    args.metricsPort !== undefined
+  );
+}
+
 /**
  * Build a Configuration from CLI arguments only (no config file).
  * Applies default port (5432) and default user (current OS user).
@@ -69,7 +106,10 @@ export function buildConfigurationFromCLI(args: CLIArguments): Configuration {
     },
     theme: DEFAULT_THEME,
     thresholds: DEFAULT_THRESHOLDS,
+    alerts: DEFAULT_ALERTS,
     pglogical: args.pglogical ?? false,
+    metrics: applyMetricsFlags(DEFAULT_METRICS, args),
+    history: DEFAULT_HISTORY,
     source: 'cli',
   };
 }
@@ -91,22 +131,31 @@ export function mergeConfigWithCLI(
     args.user !== undefined ||
     args.password !== undefined;
 
+  const metrics = applyMetricsFlags(fileConfig.metrics ?? DEFAULT_METRICS, args);
+  const hasMetricsArgs = args.metricsHost !== undefined || args.metricsPort !== undefined;
+
   if (!hasInlineArgs) {
-    // Only pglogical flag needs merging
-    if (args.pglogical) {
+    // Only pglogical and metrics flags need merging
+    if (args.pglogical || hasMetricsArgs) {
       return {
         ...fileConfig,
         theme: fileConfig.theme ?? DEFAULT_THEME,
         thresholds: fileConfig.thresholds ?? DEFAULT_THRESHOLDS,
-        pglogical: true,
+        alerts: fileConfig.alerts ?? DEFAULT_ALERTS,
+        pglogical: args.pglogical ? true : fileConfig.pglogical,
+        metrics,
+        history: fileConfig.history ?? DEFAULT_HISTORY,
         source: 'merged',
       };
     }
-    // Ensure theme and thresholds have defaults
+    // Ensure theme, thresholds, metrics, and history have defaults
     return {
       ...fileConfig,
       theme: fileConfig.theme ?? DEFAULT_THEME,
       thresholds: fileConfig.thresholds ?? DEFAULT_THRESHOLDS,
+      alerts: fileConfig.alerts ?? DEFAULT_ALERTS,
+      metrics,
+      history: fileConfig.history ?? DEFAULT_HISTORY,
     };
   }
 
@@ -137,7 +186,10 @@ export function mergeConfigWithCLI(
     nodes: mergedNodes,
     theme: fileConfig.theme ?? DEFAULT_THEME,
     thresholds: fileConfig.thresholds ?? DEFAULT_THRESHOLDS,
+    alerts: fileConfig.alerts ?? DEFAULT_ALERTS,
     pglogical: args.pglogical ?? fileConfig.pglogical,
+    metrics,
+    history: fileConfig.history ?? DEFAULT_HISTORY,
     source: 'merged',
   };
 
@@ -210,15 +262,7 @@ export function parseConfiguration(args: CLIArguments): Configuration {
     );
 
     // Check if we need to merge CLI overrides
-    const hasInlineArgs =
-      args.host !== undefined ||
-      args.port !== undefined ||
-      args.database !== undefined ||
-      args.user !== undefined ||
-      args.password !== undefined ||
-      args.pglogical === true;
-
-    if (hasInlineArgs) {
+    if (hasOverrideArgs(args)) {
       return mergeConfigWithCLI(fileConfig, args);
     }
 
@@ -242,15 +286,7 @@ export function parseConfiguration(args: CLIArguments): Configuration {
     );
 
     // Check if we need to merge CLI overrides
-    const hasInlineArgs =
-      args.host !== undefined ||
-      args.port !== undefined ||
-      args.database !== undefined ||
-      args.user !== undefined ||
-      args.password !== undefined ||
-      args.pglogical === true;
-
-    if (hasInlineArgs) {
+    if (hasOverrideArgs(args)) {
       return mergeConfigWithCLI(fileConfig, args);
     }
 
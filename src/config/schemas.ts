@@ -137,6 +137,153 @@ export const ResolvedThresholdsSchema = z.object({
   conflictRate: ThresholdLevelsSchema,
 });
 
+// =============================================================================
+// Alert Schemas
+// =============================================================================
+
+/**
+ * Delivery settings shared by every sink type in YAML.
+ */
+const YAMLSinkDeliveryFields = {
+  name: z.string().min(1).optional(),
+  timeout: z.union([z.number(), z.string()]).optional(),
+  retries: z.number().int().nonnegative().optional(),
+  retry_delay: z.union([z.number(), z.string()]).optional(),
+  rate_limit: z.number().int().nonnegative().optional(),
+  dedup_window: z.union([z.number(), z.string()]).optional(),
+};
+
+/**
+ * Schema for an alert notification sink from YAML.
+ */
+export const YAMLAlertSinkSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('webhook'),
+    url: z.string().url('Invalid webhook URL'),
+    template: z.enum(['generic', 'slack', 'pagerduty']).optional(),
+    headers: z.record(z.string(), z.string()).optional(),
+    routing_key: z.string().min(1).optional(),
+    ...YAMLSinkDeliveryFields,
+  }),
+  z.object({
+    type: z.literal('command'),
+    command: z.string().min(1, 'Command is required'),
+    ...YAMLSinkDeliveryFields,
+  }),
+  z.object({
+    type: z.literal('file'),
+    path: z.string().min(1, 'Path is required'),
+    ...YAMLSinkDeliveryFields,
+  }),
+]);
+
+/**
+ * Schema for alert evaluation settings from YAML.
+ * Accepts numbers or human-readable strings like "2m", "10%".
+ */
+export const YAMLAlertsConfigSchema = z.object({
+  for: z.union([z.number(), z.string()]).optional(),
+  hysteresis: z.union([z.number(), z.string()]).optional(),
+  sinks: z.array(YAMLAlertSinkSchema).optional(),
+});
+
+/**
+ * Delivery settings shared by every resolved sink type.
+ */
+const ResolvedSinkDeliveryFields = {
+  name: z.string().min(1),
+  retries: z.number().int().nonnegative(),
+  retryDelaySeconds: z.number().nonnegative(),
+  rateLimitPerMinute: z.number().int().nonnegative(),
+  dedupWindowSeconds: z.number().nonnegative(),
+};
+
+/**
+ * Schema for a resolved alert notification sink.
+ */
+export const ResolvedAlertSinkSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('webhook'),
+    url: z.string().url(),
+    template: z.enum(['generic', 'slack', 'pagerduty']),
+    headers: z.record(z.string(), z.string()),
+    routingKey: z.string().nullable(),
+    timeoutSeconds: z.number().positive(),
+    ...ResolvedSinkDeliveryFields,
+  }),
+  z.object({
+    type: z.literal('command'),
+    command: z.string().min(1),
+    timeoutSeconds: z.number().positive(),
+    ...ResolvedSinkDeliveryFields,
+  }),
+  z.object({
+    type: z.literal('file'),
+    path: z.string().min(1),
+    ...ResolvedSinkDeliveryFields,
+  }),
+]);
+
+/**
+ * Schema for resolved alert evaluation settings.
+ */
+export const ResolvedAlertsConfigSchema = z.object({
+  forSeconds: z.number().nonnegative(),
+  hysteresis: z.number().min(0).lt(1),
+  sinks: z.array(ResolvedAlertSinkSchema),
+});
+
+// =============================================================================
+// Metrics Endpoint Schemas
+// =============================================================================
+
+/**
+ * Schema for metrics endpoint configuration from YAML.
+ * Port may be a string before interpolation (e.g., "${METRICS_PORT:-9464}").
+ */
+export const YAMLMetricsConfigSchema = z.object({
+  enabled: z.boolean().optional(),
+  host: z.string().min(1).optional(),
+  port: z.union([z.number(), z.string()]).optional(),
+});
+
+/**
+ * Schema for resolved metrics endpoint configuration.
+ */
+export const ResolvedMetricsConfigSchema = z.object({
+  enabled: z.boolean(),
+  host: z.string().min(1),
+  port: z.number().int().min(1).max(65535),
+});
+
+/**
+ * Schema for persistent lag history configuration from YAML.
+ */
+export const YAMLHistoryConfigSchema = z.object({
+  enabled: z.boolean().optional(),
+  path: z.string().min(1).optional(),
+  retention: z
+    .object({
+      raw: z.union([z.number(), z.string()]).optional(),
+      '1m': z.union([z.number(), z.string()]).optional(),
+      '10m': z.union([z.number(), z.string()]).optional(),
+    })
+    .optional(),
+});
+
+/**
+ * Schema for resolved persistent lag history configuration.
+ */
+export const ResolvedHistoryConfigSchema = z.object({
+  enabled: z.boolean(),
+  path: z.string().min(1),
+  retention: z.object({
+    raw: z.number().positive(),
+    '1m': z.number().positive(),
+    '10m': z.number().positive(),
+  }),
+});
+
 // =============================================================================
 // YAML Input Schemas
 // =============================================================================
@@ -160,7 +307,10 @@ export const YAMLConfigFileSchema = z.object({
   clusters: z.record(z.string(), YAMLClusterConfigSchema).optional(),
   theme: z.union([z.string(), YAMLThemeConfigSchema]).optional(),
   thresholds: YAMLThresholdConfigSchema.optional(),
+  alerts: YAMLAlertsConfigSchema.optional(),
   pglogical: z.boolean().optional(),
+  metrics: YAMLMetricsConfigSchema.optional(),
+  history: YAMLHistoryConfigSchema.optional(),
 });
 
 // =============================================================================
@@ -180,7 +330,10 @@ export const ConfigurationSchema = z.object({
   activeCluster: z.string().optional(),
   theme: ResolvedThemeSchema,
   thresholds: ResolvedThresholdsSchema,
+  alerts: ResolvedAlertsConfigSchema,
   pglogical: z.boolean().default(false),
+  metrics: ResolvedMetricsConfigSchema,
+  history: ResolvedHistoryConfigSchema,
   source: z.enum(['file', 'cli', 'merged']),
   configPath: z.string().optional(),
 });
@@ -195,3 +348,7 @@ export type ValidatedClusterConfig = z.infer<typeof ClusterConfigSchema>;
 export type ValidatedYAMLClusterConfig = z.infer<typeof YAMLClusterConfigSchema>;
 export type ValidatedYAMLThemeConfig = z.infer<typeof YAMLThemeConfigSchema>;
 export type ValidatedYAMLThresholdConfig = z.infer<typeof YAMLThresholdConfigSchema>;
+export type ValidatedYAMLAlertsConfig = z.infer<typeof YAMLAlertsConfigSchema>;
+export type ValidatedYAMLAlertSink = z.infer<typeof YAMLAlertSinkSchema>;
+export type ValidatedYAMLMetricsConfig = z.infer<typeof YAMLMetricsConfigSchema>;
+export type ValidatedYAMLHistoryConfig = z.infer<typeof YAMLHistoryConfigSchema>;
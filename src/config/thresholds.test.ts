@@ -9,8 +9,10 @@ import {
   parseThresholdValue,
   resolveThresholdLevels,
   resolveThresholds,
+  parsePercentage,
+  resolveAlertsConfig,
 } from './thresholds.js';
-import { InvalidThresholdError } from '../types/errors.js';
+import { ConfigValidationError, InvalidThresholdError } from '../types/errors.js';
 import {
   DEFAULT_THRESHOLDS,
   DEFAULT_LAG_WARNING_SECONDS,
@@ -19,6 +21,11 @@ import {
   DEFAULT_RETENTION_CRITICAL_BYTES,
   DEFAULT_CONFLICT_RATE_WARNING,
   DEFAULT_CONFLICT_RATE_CRITICAL,
+  DEFAULT_ALERTS,
+  DEFAULT_SINK_RETRIES,
+  DEFAULT_SINK_RETRY_DELAY_SECONDS,
+  DEFAULT_SINK_RATE_LIMIT_PER_MINUTE,
+  DEFAULT_SINK_DEDUP_WINDOW_SECONDS,
 } from './defaults.js';
 
 describe('parseTimeDuration', () => {
@@ -399,3 +406,69 @@ describe('resolveThresholds', () => {
     expect(result.slotRetention.critical).toBe(10737418240);
   });
 });
+
+describe('parsePercentage', () => {
+  test('parses "10%" as a fraction', () => {
+    expect(parsePercentage('10%', 'alerts.hysteresis')).toBe(0.1);
+  });
+
+  test('treats plain numbers as percentages', () => {
+    expect(parsePercentage(25, 'alerts.hysteresis')).toBe(0.25);
+    expect(parsePercentage('5', 'alerts.hysteresis')).toBe(0.05);
+  });
+
+  test('throws for 100% and above', () => {
+    expect(() => parsePercentage('100%', 'alerts.hysteresis')).toThrow(InvalidThresholdError);
+  });
+
+  test('throws for non-numeric string', () => {
+    expect(() => parsePercentage('lots', 'alerts.hysteresis')).toThrow(InvalidThresholdError);
+  });
+});
+
+describe('resolveAlertsConfig', () => {
+  test('returns defaults when undefined', () => {
+    expect(resolveAlertsConfig(undefined)).toEqual(DEFAULT_ALERTS);
+  });
+
+  test('parses for duration and hysteresis', () => {
+    expect(resolveAlertsConfig({ for: '2m', hysteresis: '20%' })).toEqual({
+      forSeconds: 120,
+      hysteresis: 0.2,
+      sinks: [],
+    });
+  });
+
+  test('resolves sinks with delivery defaults', () => {
+    const { sinks } = resolveAlertsConfig({
+      sinks: [
+        { type: 'file', path: '/tmp/alerts.ndjson' },
+        { type: 'command', name: 'notify', command: 'notify.sh', timeout: '30s', dedup_window: '1m' },
+      ],
+    });
+    expect(sinks[0]).toEqual({
+      type: 'file',
+      name: 'file-1',
+      path: '/tmp/alerts.ndjson',
+      retries: DEFAULT_SINK_RETRIES,
+      retryDelaySeconds: DEFAULT_SINK_RETRY_DELAY_SECONDS,
+      rateLimitPerMinute: DEFAULT_SINK_RATE_LIMIT_PER_MINUTE,
+      dedupWindowSeconds: DEFAULT_SINK_DEDUP_WINDOW_SECONDS,
+    });
+    expect(sinks[1]).toMatchObject({ name: 'notify', timeoutSeconds: 30, dedupWindowSeconds: 60 });
+  });
+
+  test('requires routing_key for the pagerduty template', () => {
+    expect(() =>
+      resolveAlertsConfig({
+        sinks: [{ type: 'webhook', url: 'https://events.pagerduty.com/v2/enqueue', template: 'pagerduty' }],
+      })
+    ).toThrow(ConfigValidationError);
+  });
+
+  test('keeps defaults for omitted fields', () => {
+    const result = resolveAlertsConfig({ for: 30 });
+    expect(result.forSeconds).toBe(30);
+    expect(result.hysteresis).toBe(DEFAULT_ALERTS.hysteresis);
+  });
+});
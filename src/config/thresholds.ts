@@ -7,9 +7,27 @@
  * Feature: 002-yaml-config
  */
 
-import type { YAMLThresholdConfig, YAMLThresholdLevels } from '../types/yaml-config.js';
-import type { ResolvedThresholds, ThresholdLevels } from './defaults.js';
+import type {
+  YAMLAlertSinkConfig,
+  YAMLAlertsConfig,
+  YAMLThresholdConfig,
+  YAMLThresholdLevels,
+} from '../types/yaml-config.js';
+import type {
+  ResolvedAlertSink,
+  ResolvedAlertsConfig,
+  ResolvedSinkDelivery,
+  ResolvedThresholds,
+  ThresholdLevels,
+  WebhookTemplate,
+} from './defaults.js';
 import {
+  DEFAULT_ALERTS,
+  DEFAULT_SINK_RETRIES,
+  DEFAULT_SINK_RETRY_DELAY_SECONDS,
+  DEFAULT_SINK_RATE_LIMIT_PER_MINUTE,
+  DEFAULT_SINK_DEDUP_WINDOW_SECONDS,
+  DEFAULT_SINK_TIMEOUT_SECONDS,
   DEFAULT_THRESHOLDS,
   DEFAULT_LAG_WARNING_SECONDS,
   DEFAULT_LAG_CRITICAL_SECONDS,
@@ -18,7 +36,7 @@ import {
   DEFAULT_CONFLICT_RATE_WARNING,
   DEFAULT_CONFLICT_RATE_CRITICAL,
 } from './defaults.js';
-import { InvalidThresholdError } from '../types/errors.js';
+import { ConfigValidationError, InvalidThresholdError } from '../types/errors.js';
 
 // =============================================================================
 // Threshold Value Parsing
@@ -174,6 +192,28 @@ export function parseCountValue(value: string | number, field: string): number {
   return num;
 }
 
+/**
+ * Parse a percentage into a fraction.
+ * Accepts: "10%", "10", or raw number (percent). Must be below 100.
+ *
+ * @param value - Percentage as string or number
+ * @param field - Field name for error messages
+ * @returns Parsed value as a fraction (0.1 for 10%)
+ * @throws InvalidThresholdError if format is invalid or out of range
+ */
+export function parsePercentage(value: string | number, field: string): number {
+  const percent =
+    typeof value === 'number'
+      ? value
+      : parseCountValue(value.trim().replace(/\s*%$/, ''), field);
+
+  if (percent < 0 || percent >= 100) {
+    throw new InvalidThresholdError(field, String(value));
+  }
+
+  return percent / 100;
+}
+
 /**
  * Parse a threshold value based on its type.
  *
@@ -304,3 +344,87 @@ export function resolveThresholds(
     conflictRate,
   };
 }
+
+// =============================================================================
+// Alert Settings Resolution
+// =============================================================================
+
+/**
+ * Resolve alert evaluation settings from YAML.
+ * Parses the "for" duration and hysteresis percentage and applies defaults.
+ *
+ * @param alerts - Raw YAML alerts config
+ * @returns Fully resolved alert settings
+ * @throws InvalidThresholdError if a value is invalid
+ */
+export function resolveAlertsConfig(alerts: YAMLAlertsConfig | undefined): ResolvedAlertsConfig {
+  if (alerts === undefined) {
+    return { ...DEFAULT_ALERTS };
+  }
+
+  return {
+    forSeconds:
+      alerts.for !== undefined
+        ? parseTimeDuration(alerts.for, 'alerts.for')
+        : DEFAULT_ALERTS.forSeconds,
+    hysteresis:
+      alerts.hysteresis !== undefined
+        ? parsePercentage(alerts.hysteresis, 'alerts.hysteresis')
+        : DEFAULT_ALERTS.hysteresis,
+    sinks: (alerts.sinks ?? []).map((sink, index) => resolveAlertSink(sink, index)),
+  };
+}
+
+/**
+ * Resolve a single notification sink from YAML, applying delivery defaults.
+ *
+ * @param sink - Raw YAML sink config (already schema-validated)
+ * @param index - Position in alerts.sinks (for default names and error messages)
+ * @returns Fully resolved sink
+ * @throws InvalidThresholdError if a duration is invalid
+ * @throws ConfigValidationError if a pagerduty webhook has no routing_key
+ */
+export function resolveAlertSink(sink: YAMLAlertSinkConfig, index: number): ResolvedAlertSink {
+  const field = `alerts.sinks[${index}]`;
+  const delivery: ResolvedSinkDelivery = {
+    name: sink.name ?? `${sink.type}-${index + 1}`,
+    retries: sink.retries ?? DEFAULT_SINK_RETRIES,
+    retryDelaySeconds:
+      sink.retry_delay !== undefined
+        ? parseTimeDuration(sink.retry_delay, `${field}.retry_delay`)
+        : DEFAULT_SINK_RETRY_DELAY_SECONDS,
+    rateLimitPerMinute: sink.rate_limit ?? DEFAULT_SINK_RATE_LIMIT_PER_MINUTE,
+    dedupWindowSeconds:
+      sink.dedup_window !== undefined
+        ? parseTimeDuration(sink.dedup_window, `${field}.dedup_window`)
+        : DEFAULT_SINK_DEDUP_WINDOW_SECONDS,
+  };
+  const timeoutSeconds =
+    sink.timeout !== undefined
+      ? parseTimeDuration(sink.timeout, `${field}.timeout`)
+      : DEFAULT_SINK_TIMEOUT_SECONDS;
+
+  switch (sink.type) {
+    case 'webhook': {
+      const template = (sink.template ?? 'generic') as WebhookTemplate;
+      if (template === 'pagerduty' && !sink.routing_key) {
+        throw new ConfigValidationError([
+          `${field}.routing_key: Required for the pagerduty template`,
+        ]);
+      }
+      return {
+        ...delivery,
+        type: 'webhook',
+        url: sink.url ?? '',
+        template,
+        headers: sink.headers ?? {},
+        routingKey: sink.routing_key ?? null,
+        timeoutSeconds,
+      };
+    }
+    case 'command':
+      return { ...delivery, type: 'command', command: sink.command ?? '', timeoutSeconds };
+    case 'file':
+      return { ...delivery, type: 'file', path: sink.path ?? '' };
+  }
+}
@@ -2,6 +2,8 @@
  * Tests for config validator
  */
 import { describe, test, expect } from 'bun:test';
+import os from 'os';
+import path from 'path';
 import {
   formatConfigError,
   transformToConfiguration,
@@ -739,3 +741,79 @@ describe('transformToConfiguration with thresholds', () => {
     expect(warnings[0]).toContain('replication_lag');
   });
 });
+
+describe('transformToConfiguration with metrics', () => {
+  test('metrics endpoint is disabled by default', () => {
+    const yamlConfig = {
+      nodes: {
+        primary: { host: 'localhost', database: 'mydb' },
+      },
+    };
+    const config = transformToConfiguration(yamlConfig, '/path/to/config.yaml');
+    expect(config.metrics).toEqual({ enabled: false, host: '127.0.0.1', port: 9464 });
+  });
+
+  test('metrics section enables the endpoint with defaults', () => {
+    const yamlConfig = {
+      nodes: {
+        primary: { host: 'localhost', database: 'mydb' },
+      },
+      metrics: { port: 9100 },
+    };
+    const config = transformToConfiguration(yamlConfig, '/path/to/config.yaml');
+    expect(config.metrics).toEqual({ enabled: true, host: '127.0.0.1', port: 9100 });
+  });
+
+  test('respects explicit enabled: false', () => {
+    const yamlConfig = {
+      nodes: {
+        primary: { host: 'localhost', database: 'mydb' },
+      },
+      metrics: { enabled: false, host: '0.0.0.0' },
+    };
+    const config = transformToConfiguration(yamlConfig, '/path/to/config.yaml');
+    expect(config.metrics.enabled).toBe(false);
+    expect(config.metrics.host).toBe('0.0.0.0');
+  });
+});
+
+describe('transformToConfiguration with history', () => {
+  const nodes = { primary: { host: 'localhost', database: 'mydb' } };
+
+  test('history is disabled by default', () => {
+    const config = transformToConfiguration({ nodes }, '/path/to/config.yaml');
+    expect(config.history.enabled).toBe(false);
+    expect(config.history.path).toBe(path.join(os.homedir(), '.replmon', 'history'));
+    expect(config.history.retention).toEqual({ raw: 21600, '1m': 604800, '10m': 7776000 });
+  });
+
+  test('history section enables recording and parses retention', () => {
+    const config = transformToConfiguration(
+      { nodes, history: { path: '~/lag', retention: { raw: '30m', '1m': '2d', '10m': 86400 } } },
+      '/path/to/config.yaml'
+    );
+    expect(config.history).toEqual({
+      enabled: true,
+      path: path.join(os.homedir(), 'lag'),
+      retention: { raw: 1800, '1m': 172800, '10m': 86400 },
+    });
+  });
+
+  test('rejects raw retention shorter than a 10m rollup bucket', () => {
+    expect(() =>
+      transformToConfiguration(
+        { nodes, history: { retention: { raw: '5m' } } },
+        '/path/to/config.yaml'
+      )
+    ).toThrow(ConfigValidationError);
+  });
+
+  test('rejects invalid retention durations', () => {
+    expect(() =>
+      transformToConfiguration(
+        { nodes, history: { retention: { '1m': 'forever' } } },
+        '/path/to/config.yaml'
+      )
+    ).toThrow("history.retention.1m: Invalid duration 'forever'");
+  });
+});
@@ -1,4 +1,5 @@
 import os from 'os';
+import path from 'path';
 import { z } from 'zod';
 import { YAMLConfigFileSchema, HexColorSchema } from './schemas.js';
 import type { YAMLConfigFile, YAMLColorOverrides } from '../types/yaml-config.js';
@@ -11,7 +12,9 @@ import {
   ClusterNotFoundError,
 } from '../types/errors.js';
 import { resolveTheme } from '../theme/index.js';
-import { resolveThresholds } from './thresholds.js';
+import { resolveThresholds, resolveAlertsConfig } from './thresholds.js';
+import { DEFAULT_METRICS, DEFAULT_HISTORY } from './defaults.js';
+import type { ResolvedMetricsConfig, ResolvedHistoryConfig, HistoryResolution } from './defaults.js';
 import type { YAMLClusterConfig } from '../types/yaml-config.js';
 import type { ClusterConfig } from '../types/config.js';
 
@@ -252,6 +255,85 @@ export function filterNodesToCluster(
   return filtered;
 }
 
+/**
+ * Resolve the metrics endpoint configuration, applying defaults.
+ * Port has already been validated during interpolation.
+ */
+export function resolveMetricsConfig(
+  metrics: YAMLConfigFile['metrics']
+): ResolvedMetricsConfig {
+  if (metrics === undefined) {
+    return { ...DEFAULT_METRICS };
+  }
+
+  return {
+    enabled: metrics.enabled ?? true,
+    host: metrics.host ?? DEFAULT_METRICS.host,
+    port: typeof metrics.port === 'number' ? metrics.port : DEFAULT_METRICS.port,
+  };
+}
+
+/** Raw samples must cover a 10-minute rollup bucket so it can be rebuilt after a restart */
+const MIN_HISTORY_RAW_RETENTION_SECONDS = 600;
+
+/** Seconds per retention unit */
+const RETENTION_UNIT_SECONDS: Record<string, number> = { s: 1, m: 60, h: 3600, d: 86400 };
+
+/**
+ * Parse a retention duration into seconds.
+ * Accepts: "30m", "6h", "7d", or raw seconds.
+ */
+function parseRetention(value: number | string, field: string): number {
+  let seconds = NaN;
+  if (typeof value === 'number') {
+    seconds = value;
+  } else {
+    const match = value.trim().toLowerCase().match(/^(\d+(?:\.\d+)?)\s*(s|m|h|d)?$/);
+    if (match) {
+      seconds = parseFloat(match[1]!) * RETENTION_UNIT_SECONDS[match[2] ?? 's']!;
+    }
+  }
+
+  if (isNaN(seconds) || seconds <= 0) {
+    throw new ConfigValidationError([`${field}: Invalid duration '${value}'`]);
+  }
+  return seconds;
+}
+
+/**
+ * Resolve the persistent history configuration, applying defaults.
+ * A `~` prefix in the path is expanded to the home directory.
+ */
+export function resolveHistoryConfig(
+  history: YAMLConfigFile['history']
+): ResolvedHistoryConfig {
+  if (history === undefined) {
+    return { ...DEFAULT_HISTORY, retention: { ...DEFAULT_HISTORY.retention } };
+  }
+
+  const retention = { ...DEFAULT_HISTORY.retention };
+  for (const resolution of Object.keys(retention) as HistoryResolution[]) {
+    const value = history.retention?.[resolution];
+    if (value !== undefined) {
+      retention[resolution] = parseRetention(value, `history.retention.${resolution}`);
+    }
+  }
+  if (retention.raw < MIN_HISTORY_RAW_RETENTION_SECONDS) {
+    throw new ConfigValidationError(['history.retention.raw: Must be at least 10m']);
+  }
+
+  let historyPath = history.path ?? DEFAULT_HISTORY.path;
+  if (historyPath === '~' || historyPath.startsWith('~/')) {
+    historyPath = path.join(os.homedir(), historyPath.slice(1));
+  }
+
+  return {
+    enabled: history.enabled ?? true,
+    path: historyPath,
+    retention,
+  };
+}
+
 /**
  * Result of configuration transformation including warnings.
  */
@@ -364,7 +446,10 @@ export function transformToConfiguration(
     nodes,
     theme: resolvedTheme,
     thresholds: resolvedThresholds,
+    alerts: resolveAlertsConfig(yamlConfig.alerts),
     pglogical: yamlConfig.pglogical ?? false,
+    metrics: resolveMetricsConfig(yamlConfig.metrics),
+    history: resolveHistoryConfig(yamlConfig.history),
     source: 'file',
     configPath,
   };
@@ -0,0 +1,88 @@
+/**
+ * Alerts Data Hook
+ *
+ * Aggregates active alerts and alert history from store for AlertsPanel.
+ * Derives enriched list items with display metadata and selection state.
+ */
+
+import { useMemo } from 'react';
+import { useStore } from '../store/index.js';
+import { compareAlerts, formatAlertValue } from '../utils/alerts.js';
+import { formatRelativeTime } from '../utils/format.js';
+import type {
+  AlertListItem,
+  AlertHistoryItem,
+  UseAlertsResult,
+} from '../types/alerts.js';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Maximum history entries shown in the panel */
+const MAX_VISIBLE_HISTORY = 10;
+
+// =============================================================================
+// Hook Implementation
+// =============================================================================
+
+/**
+ * Aggregate alert data from store for panel rendering.
+ *
+ * @returns Active alert items, counts, and recent transitions
+ */
+export function useAlerts(): UseAlertsResult {
+  const nodes = useStore((s) => s.nodes);
+  const alerts = useStore((s) => s.alerts);
+  const alertHistory = useStore((s) => s.alertHistory);
+  const staleNodes = useStore((s) => s.staleNodes);
+  const selections = useStore((s) => s.selections);
+  // Replays measure "ago" from the replayed time
+  const replayTime = useStore((s) => s.replay?.currentTime ?? null);
+
+  return useMemo(() => {
+    const now = replayTime?.getTime() ?? Date.now();
+    const selectedId = selections.get('alerts') ?? null;
+    const nodeName = (nodeId: string): string => nodes.get(nodeId)?.name ?? nodeId;
+
+    const items: AlertListItem[] = [...alerts.values()].sort(compareAlerts).map((alert) => ({
+      ...alert,
+      nodeName: nodeName(alert.nodeId),
+      isStale: staleNodes.has(alert.nodeId),
+      isSelected: alert.id === selectedId,
+      formattedValue: formatAlertValue(alert.metric, alert.value),
+      formattedThreshold: formatAlertValue(alert.metric, alert.threshold),
+      formattedSince: formatRelativeTime(alert.firedAt ?? alert.pendingSince, now),
+    }));
+
+    const history: AlertHistoryItem[] = alertHistory
+      .slice(0, MAX_VISIBLE_HISTORY)
+      .map((event) => ({
+        ...event,
+        nodeName: nodeName(event.nodeId),
+        formattedValue: formatAlertValue(event.metric, event.value),
+        formattedTime: formatRelativeTime(event.timestamp, now),
+      }));
+
+    let firingCount = 0;
+    let selectedItem: AlertListItem | null = null;
+    for (const item of items) {
+      if (item.state === 'firing') firingCount++;
+      if (item.isSelected) selectedItem = item;
+    }
+
+    return {
+      items,
+      selectedItem,
+      firingCount,
+      pendingCount: items.length - firingCount,
+      history,
+    };
+  }, [nodes, alerts, alertHistory, staleNodes, selections, replayTime]);
+}
+
+// =============================================================================
+// Re-exports for convenience
+// =============================================================================
+
+export type { AlertListItem, AlertHistoryItem, UseAlertsResult };
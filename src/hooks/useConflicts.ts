@@ -10,6 +10,7 @@
 
 import { useMemo } from 'react';
 import { useStore } from '../store/index.js';
+import { formatRelativeTime } from '../utils/format.js';
 import type {
   ConflictEvent,
   ConflictSource,
@@ -24,21 +25,6 @@ import type {
 // Helper Functions
 // =============================================================================
 
-/**
- * Format relative time from a date.
- * @param date - The date to format
- * @returns Human-readable relative time (e.g., "2m ago")
- */
-function formatRelativeTime(date: Date): string {
-  const now = Date.now();
-  const diff = now - date.getTime();
-
-  if (diff < 60_000) return 'just now';
-  if (diff < 3600_000) return `${Math.floor(diff / 60_000)}m ago`;
-  if (diff < 86400_000) return `${Math.floor(diff / 3600_000)}h ago`;
-  return `${Math.floor(diff / 86400_000)}d ago`;
-}
-
 /**
  * Create an empty summary with zeroed counts.
  */
@@ -65,8 +51,7 @@ function createEmptySummary(): ConflictSummary {
 /**
  * Compute summary statistics from a list of conflict items.
  */
-function computeSummary(items: ConflictListItem[]): ConflictSummary {
-  const now = Date.now();
+function computeSummary(items: ConflictListItem[], now: number): ConflictSummary {
   const oneHourAgo = now - 60 * 60 * 1000;
   const oneDayAgo = now - 24 * 60 * 60 * 1000;
 
@@ -112,9 +97,12 @@ export function useConflicts(): UseConflictsResult {
   const conflictSources = useStore((s) => s.conflictSources);
   const staleNodes = useStore((s) => s.staleNodes);
   const selections = useStore((s) => s.selections);
+  // Replays measure "ago" from the replayed time
+  const replayTime = useStore((s) => s.replay?.currentTime ?? null);
 
   // Derive conflict list in useMemo
   return useMemo(() => {
+    const now = replayTime?.getTime() ?? Date.now();
     const items: ConflictListItem[] = [];
     const selectedId = selections.get('conflicts') ?? null;
 
@@ -151,7 +139,7 @@ export function useConflicts(): UseConflictsResult {
 
       for (const conflict of nodeConflicts) {
         const isSelected = conflict.id === selectedId;
-        const formattedTime = formatRelativeTime(conflict.recordedAt);
+        const formattedTime = formatRelativeTime(conflict.recordedAt, now);
         const qualifiedTable = `${conflict.schemaName}.${conflict.tableName}`;
 
         items.push({
@@ -178,7 +166,7 @@ export function useConflicts(): UseConflictsResult {
     }
 
     // Compute summary statistics
-    const summary = computeSummary(items);
+    const summary = computeSummary(items, now);
 
     // Build source by node map
     const sourceByNode = new Map<string, ConflictSource>();
@@ -199,7 +187,7 @@ export function useConflicts(): UseConflictsResult {
       unavailableSourceCount,
       staleCount,
     };
-  }, [nodes, conflictEvents, conflictSources, staleNodes, selections]);
+  }, [nodes, conflictEvents, conflictSources, staleNodes, selections, replayTime]);
 }
 
 // =============================================================================
@@ -0,0 +1,133 @@
+/**
+ * Diagnostics Hook
+ *
+ * Runs the doctor checks against the latest polled data for the
+ * Diagnostics modal. Settings, slots, subscriptions and publications come
+ * from the store and update with every poll; tables without a replica
+ * identity are queried once when the modal opens.
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { useStore } from '../store/index.js';
+import { getConnectionManager } from '../components/ConnectionStatus.js';
+import { getDemoCluster } from '../components/DemoSession.js';
+import {
+  countFindings,
+  queryTablesWithoutIdentity,
+  runDoctorChecks,
+} from '../services/doctor/index.js';
+import type {
+  DoctorNodeInput,
+  DoctorReport,
+  DoctorSeverity,
+  TableWithoutIdentity,
+} from '../services/doctor/index.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * State of the replica identity query.
+ * unavailable: no database to query (replay).
+ */
+export type IdentityCheckStatus = 'checking' | 'done' | 'unavailable';
+
+/**
+ * Return type for useDiagnostics hook.
+ */
+export interface UseDiagnosticsResult {
+  /** Findings for every node */
+  report: DoctorReport;
+
+  /** Findings per severity */
+  counts: Record<DoctorSeverity, number>;
+
+  /** Whether published tables have been checked for a replica identity */
+  identityStatus: IdentityCheckStatus;
+}
+
+// =============================================================================
+// Hook Implementation
+// =============================================================================
+
+/**
+ * Run the doctor checks against store data for the Diagnostics modal.
+ *
+ * @returns Doctor report, finding counts, and replica identity query state
+ */
+export function useDiagnostics(): UseDiagnosticsResult {
+  const nodes = useStore((s) => s.nodes);
+  const capabilities = useStore((s) => s.capabilities);
+  const slots = useStore((s) => s.slots);
+  const subscriptions = useStore((s) => s.subscriptions);
+  const publications = useStore((s) => s.publications);
+  const walReceivers = useStore((s) => s.walReceivers);
+  const staleNodes = useStore((s) => s.staleNodes);
+
+  const [identity, setIdentity] = useState<Map<string, TableWithoutIdentity[] | null>>(
+    () => new Map()
+  );
+  const [identityStatus, setIdentityStatus] = useState<IdentityCheckStatus>('checking');
+
+  // Query once per open; replays have no database behind them
+  useEffect(() => {
+    const backend = getConnectionManager() ?? getDemoCluster();
+    if (!backend) {
+      setIdentityStatus('unavailable');
+      return;
+    }
+
+    let cancelled = false;
+    const nodeIds = [...useStore.getState().nodes.keys()];
+    void Promise.all(
+      nodeIds.map(async (nodeId) => {
+        const tables = await queryTablesWithoutIdentity(<R>(sql: string, params?: unknown[]) =>
+          backend.query<R>(nodeId, sql, params)
+        ).catch(() => null);
+        return [nodeId, tables] as const;
+      })
+    ).then((results) => {
+      if (cancelled) return;
+      setIdentity(new Map(results));
+      setIdentityStatus('done');
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return useMemo(() => {
+    const inputs: DoctorNodeInput[] = [...nodes.values()].map((node) => {
+      const isStale = staleNodes.has(node.id);
+      return {
+        nodeId: node.id,
+        nodeName: node.name ?? node.id,
+        host: node.host,
+        port: node.port,
+        success: !isStale,
+        ...(isStale && { error: new Error('node is not responding') }),
+        capabilities: capabilities.get(node.id) ?? null,
+        slots: slots.get(node.id) ?? [],
+        subscriptions: subscriptions.get(node.id) ?? [],
+        publications: publications.get(node.id) ?? [],
+        walReceivers: walReceivers.get(node.id) ?? [],
+        tablesWithoutIdentity: identity.get(node.id) ?? null,
+      };
+    });
+
+    const report = runDoctorChecks(inputs);
+    return { report, counts: countFindings(report.findings), identityStatus };
+  }, [
+    nodes,
+    capabilities,
+    slots,
+    subscriptions,
+    publications,
+    walReceivers,
+    staleNodes,
+    identity,
+    identityStatus,
+  ]);
+}
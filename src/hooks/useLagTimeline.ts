@@ -0,0 +1,206 @@
+/**
+ * Lag Timeline Data Hook
+ *
+ * Builds the Lag Timeline panel's series from store lag history (5m window)
+ * or from the on-disk history store (1h and 24h windows), along with legend
+ * entries carrying visibility, selection, trend, and peak lag.
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { useStore } from '../store/index.js';
+import { selectLagTrend, selectMaxHistoricalLag } from '../store/selectors/index.js';
+import { getHistoryStore } from '../components/ConnectionStatus.js';
+import { formatLag } from '../utils/topology.js';
+import { formatBytes } from './useSlots.js';
+import { pickTimelineUnit, toTimelinePoints } from '../utils/timeline.js';
+import { TIMELINE_WINDOW_MS } from '../types/timeline.js';
+import type {
+  TimelinePoint,
+  TimelineSeriesItem,
+  TimelineUnit,
+  TimelineWindow,
+  UseLagTimelineResult,
+} from '../types/timeline.js';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** How often persisted windows are re-read from the history store */
+const HISTORY_REFRESH_MS: Readonly<Record<TimelineWindow, number>> = {
+  '5m': 0,
+  '1h': 10_000,
+  '24h': 60_000,
+};
+
+// =============================================================================
+// Hook Implementation
+// =============================================================================
+
+/**
+ * Aggregate lag timeline data for panel rendering.
+ *
+ * @returns Window, cursor, and legend items with their points
+ */
+export function useLagTimeline(): UseLagTimelineResult {
+  const nodes = useStore((s) => s.nodes);
+  const subscriptions = useStore((s) => s.subscriptions);
+  const lagHistory = useStore((s) => s.lagHistory);
+  const staleNodes = useStore((s) => s.staleNodes);
+  const selections = useStore((s) => s.selections);
+  const timelineWindow = useStore((s) => s.timelineWindow);
+  const chartStyle = useStore((s) => s.timelineChartStyle);
+  const cursor = useStore((s) => s.timelineCursor);
+  const hidden = useStore((s) => s.hiddenTimelineSeries);
+  // Replays end the window at the replayed time
+  const replayTime = useStore((s) => s.replay?.currentTime ?? null);
+
+  const historyStore = getHistoryStore();
+  const isPersisted = timelineWindow !== '5m';
+
+  // Subscriptions in store order (matches keyboard navigation)
+  const subscriptionKeys = useMemo(() => {
+    const keys: { id: string; nodeId: string; subscriptionName: string }[] = [];
+    for (const subs of subscriptions.values()) {
+      for (const sub of subs) {
+        keys.push({
+          id: `${sub.nodeId}:${sub.subscriptionName}`,
+          nodeId: sub.nodeId,
+          subscriptionName: sub.subscriptionName,
+        });
+      }
+    }
+    return keys;
+  }, [subscriptions]);
+
+  const unit = useMemo(
+    () =>
+      pickTimelineUnit(
+        subscriptionKeys
+          .filter((key) => !hidden.has(key.id))
+          .map((key) => lagHistory.get(key.id) ?? [])
+      ),
+    [subscriptionKeys, hidden, lagHistory]
+  );
+
+  // Persisted windows: points read from the history store
+  const [persisted, setPersisted] = useState<{
+    window: TimelineWindow;
+    unit: TimelineUnit;
+    from: Date;
+    to: Date;
+    points: Map<string, TimelinePoint[]>;
+  } | null>(null);
+  const seriesSignature = subscriptionKeys.map((key) => key.id).join('\n');
+
+  useEffect(() => {
+    if (!isPersisted || !historyStore) return;
+
+    let cancelled = false;
+    const load = async (): Promise<void> => {
+      const to = new Date();
+      const from = new Date(to.getTime() - TIMELINE_WINDOW_MS[timelineWindow]);
+      const points = new Map<string, TimelinePoint[]>();
+      try {
+        for (const key of subscriptionKeys) {
+          const result = await historyStore.query(
+            {
+              metric: unit === 'seconds' ? 'lag_seconds' : 'lag_bytes',
+              nodeId: key.nodeId,
+              subject: key.subscriptionName,
+              from,
+              to,
+            },
+            to
+          );
+          // Plot the bucket maximum so spikes survive downsampling
+          points.set(
+            key.id,
+            result.points.map((p) => ({ timestamp: p.timestamp, value: p.max }))
+          );
+        }
+      } catch {
+        // Read failures are reported through the history store's 'failed' event
+        return;
+      }
+      if (!cancelled) setPersisted({ window: timelineWindow, unit, from, to, points });
+    };
+
+    void load();
+    const timer = setInterval(() => void load(), HISTORY_REFRESH_MS[timelineWindow]);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+    // subscriptionKeys is covered by seriesSignature
+  }, [isPersisted, historyStore, timelineWindow, unit, seriesSignature]);
+
+  return useMemo(() => {
+    const state = useStore.getState();
+    const selectedId = selections.get('timeline') ?? null;
+    const current = persisted !== null && persisted.window === timelineWindow && persisted.unit === unit
+      ? persisted
+      : null;
+
+    const to = isPersisted && current ? current.to : (replayTime ?? new Date());
+    const from = isPersisted && current
+      ? current.from
+      : new Date(to.getTime() - TIMELINE_WINDOW_MS[timelineWindow]);
+
+    const items: TimelineSeriesItem[] = subscriptionKeys.map((key) => {
+      const samples = lagHistory.get(key.id) ?? [];
+      const latest = samples[samples.length - 1];
+      const peak = selectMaxHistoricalLag(key.nodeId, key.subscriptionName)(state);
+      // Without a history store, longer windows still show the in-memory samples
+      const points = isPersisted && historyStore
+        ? (current?.points.get(key.id) ?? [])
+        : toTimelinePoints(samples, unit);
+
+      return {
+        ...key,
+        nodeName: nodes.get(key.nodeId)?.name ?? key.nodeId,
+        isVisible: !hidden.has(key.id),
+        isSelected: key.id === selectedId,
+        isStale: staleNodes.has(key.nodeId),
+        points,
+        trend: selectLagTrend(key.nodeId, key.subscriptionName)(state),
+        // Peak follows the selector's lagSeconds ?? lagBytes preference
+        formattedPeak:
+          latest !== undefined && latest.lagSeconds !== null ? formatLag(peak) : formatBytes(peak),
+      };
+    });
+
+    return {
+      window: timelineWindow,
+      chartStyle,
+      cursor,
+      unit,
+      from,
+      to,
+      items,
+      historyUnavailable: isPersisted && historyStore === null,
+      isLoading: isPersisted && historyStore !== null && current === null,
+    };
+  }, [
+    nodes,
+    subscriptionKeys,
+    lagHistory,
+    staleNodes,
+    selections,
+    timelineWindow,
+    chartStyle,
+    cursor,
+    hidden,
+    unit,
+    persisted,
+    isPersisted,
+    historyStore,
+    replayTime,
+  ]);
+}
+
+// =============================================================================
+// Re-exports for convenience
+// =============================================================================
+
+export type { TimelineSeriesItem, UseLagTimelineResult };
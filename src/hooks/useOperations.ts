@@ -13,8 +13,18 @@ import { useConnectionStore } from '../store/connection.js';
 import { useSubscriptions } from './useSubscriptions.js';
 import { useSlots } from './useSlots.js';
 import { useConflicts } from './useConflicts.js';
+import { usePublications } from './usePublications.js';
 import { getConnectionManager } from '../components/ConnectionStatus.js';
-import { executeOperation as serviceExecuteOperation } from '../services/operations/index.js';
+import {
+  executeOperation as serviceExecuteOperation,
+  findFailingTransactionLsn,
+  getBackendActivity,
+  buildCreateSubscriptionSql,
+  buildProviderDsn,
+} from '../services/operations/index.js';
+import { findMostBehindSequence, getSequenceName } from '../utils/sequences.js';
+import { getWorkerRestartStatus } from '../utils/worker-history.js';
+import { resolveProviderNodeId } from '../utils/publications.js';
 import type {
   Operation,
   OperationContext,
@@ -22,9 +32,13 @@ import type {
   UseOperationsResult,
   ReplicationType,
   QueryFn,
+  BackendActivity,
+  WorkerRestart,
+  SubscriptionDraft,
+  LeftoverSlot,
 } from '../types/operations.js';
+import type { NodeInfo, SlotData, SubscriptionData } from '../store/types.js';
 import { OPERATIONS, OPERATION_TIMEOUT_MS } from '../types/operations.js';
-import type { Panel } from '../store/types.js';
 
 // =============================================================================
 // Helpers
@@ -50,6 +64,29 @@ function getAvailableOperations(isPglogical: boolean): readonly Operation[] {
   return OPERATIONS.filter((op) => isOperationAvailable(op, isPglogical));
 }
 
+/**
+ * Configured node a subscription's slot is on. Native subscriptions don't
+ * expose their provider, so they fall back to the only other node with a
+ * slot of the subscription's slot name.
+ */
+function findProviderNodeId(
+  sub: Pick<
+    SubscriptionData,
+    'nodeId' | 'providerHost' | 'providerPort' | 'providerNode' | 'slotName'
+  >,
+  nodes: Map<string, NodeInfo>,
+  slots: Map<string, SlotData[]>
+): string | null {
+  const resolved = resolveProviderNodeId(sub, nodes);
+  if (resolved !== null || !sub.slotName) return resolved;
+
+  const candidates = Array.from(slots).filter(
+    ([nodeId, nodeSlots]) =>
+      nodeId !== sub.nodeId && nodeSlots.some((slot) => slot.slotName === sub.slotName)
+  );
+  return candidates.length === 1 ? candidates[0]?.[0] ?? null : null;
+}
+
 // =============================================================================
 // Hook Implementation
 // =============================================================================
@@ -76,6 +113,10 @@ export function useOperations(): UseOperationsResult {
   const isExecuting = useStore((s) => s.isExecuting);
   const pglogicalMode = useConnectionStore((s) => s.pglogicalMode);
   const nodes = useStore((s) => s.nodes);
+  const walPositions = useStore((s) => s.walPositions);
+  const subscriptions = useStore((s) => s.subscriptions);
+  const slots = useStore((s) => s.slots);
+  const lastUpdated = useStore((s) => s.lastUpdated);
   const staleNodes = useStore((s) => s.staleNodes);
   const nodeStatus = useConnectionStore((s) => s.nodeStatus);
 
@@ -88,6 +129,7 @@ export function useOperations(): UseOperationsResult {
   const { selectedItem: selectedSubscription } = useSubscriptions();
   const { selectedItem: selectedSlot } = useSlots();
   const { selectedItem: selectedConflict } = useConflicts();
+  const { selectedItem: selectedPublication } = usePublications();
 
   // Use the panel that was focused before the operations modal opened
   // This allows context-sensitive operations even when modal is open
@@ -99,17 +141,38 @@ export function useOperations(): UseOperationsResult {
     return getAvailableOperations(pglogicalMode);
   }, [pglogicalMode]);
 
+  // Check if a node is available (not stale and connected)
+  const isNodeAvailable = useCallback(
+    (nodeId: string): boolean => {
+      if (staleNodes.has(nodeId)) return false;
+      const status = nodeStatus.get(nodeId);
+      return status === 'connected';
+    },
+    [staleNodes, nodeStatus]
+  );
+
   // Derive current context based on panel and selection
   const currentContext = useMemo((): OperationContext | null => {
     switch (contextPanel) {
       case 'subscriptions':
         if (selectedSubscription) {
           const nodeInfo = nodes.get(selectedSubscription.nodeId);
+          const providerNodeId = findProviderNodeId(selectedSubscription, nodes, slots);
           return {
             nodeId: selectedSubscription.nodeId,
             nodeName: nodeInfo?.name ?? selectedSubscription.nodeId,
             resourceId: selectedSubscription.subscriptionName,
             resourceName: selectedSubscription.subscriptionName,
+            // For terminate-worker, and the slot drop-subscription leaves or drops
+            additionalParams: {
+              workerRole: 'apply worker',
+              workerPid: selectedSubscription.workerPid,
+              source: selectedSubscription.source,
+              slotName: selectedSubscription.slotName,
+              providerNodeId,
+              slotCleanup:
+                providerNodeId !== null && isNodeAvailable(providerNodeId) ? 'drop' : 'orphan',
+            },
           };
         }
         break;
@@ -122,6 +185,14 @@ export function useOperations(): UseOperationsResult {
             nodeName: nodeInfo?.name ?? selectedSlot.nodeId,
             resourceId: selectedSlot.slotName,
             resourceName: selectedSlot.slotName,
+            // For the WAL an advance or copy releases, and terminate-worker
+            additionalParams: {
+              slotType: selectedSlot.slotType,
+              retainedBytes: selectedSlot.retainedBytes,
+              currentLsn: walPositions.get(selectedSlot.nodeId)?.lsn ?? null,
+              workerRole: 'walsender',
+              workerPid: selectedSlot.activePid,
+            },
           };
         }
         break;
@@ -138,6 +209,33 @@ export function useOperations(): UseOperationsResult {
         }
         break;
 
+      case 'publications':
+        // Target the sequence furthest behind on a subscriber
+        if (selectedPublication) {
+          const drift = findMostBehindSequence(selectedPublication.sequenceDrift);
+          if (drift) {
+            return {
+              nodeId: drift.nodeId,
+              nodeName: drift.nodeName,
+              resourceId: `${drift.nodeId}:${getSequenceName(drift)}`,
+              resourceName: getSequenceName(drift),
+              additionalParams: {
+                providerNodeId: selectedPublication.nodeId,
+                schemaName: drift.schemaName,
+                sequenceName: drift.sequenceName,
+                source: selectedPublication.source,
+              },
+            };
+          }
+          return {
+            nodeId: selectedPublication.nodeId,
+            nodeName: selectedPublication.nodeName,
+            resourceId: selectedPublication.id,
+            resourceName: selectedPublication.name,
+          };
+        }
+        break;
+
       case 'topology':
         // For topology, use first node as context for metrics export
         // Specific operations should be handled via other panels
@@ -165,17 +263,17 @@ export function useOperations(): UseOperationsResult {
     }
 
     return null;
-  }, [contextPanel, selectedSubscription, selectedSlot, selectedConflict, nodes]);
-
-  // Check if a node is available (not stale and connected)
-  const isNodeAvailable = useCallback(
-    (nodeId: string): boolean => {
-      if (staleNodes.has(nodeId)) return false;
-      const status = nodeStatus.get(nodeId);
-      return status === 'connected';
-    },
-    [staleNodes, nodeStatus]
-  );
+  }, [
+    contextPanel,
+    selectedSubscription,
+    selectedSlot,
+    selectedConflict,
+    selectedPublication,
+    nodes,
+    slots,
+    walPositions,
+    isNodeAvailable,
+  ]);
 
   // Execute operation directly (for operations that don't require confirmation)
   const executeOperationDirect = useCallback(
@@ -254,21 +352,19 @@ export function useOperations(): UseOperationsResult {
     []
   );
 
-  // Start an operation (may show confirmation first)
-  const startOperation = useCallback(
-    (operation: Operation) => {
-      if (!currentContext) return;
-
+  // Start an operation on a context (may show confirmation first)
+  const beginOperation = useCallback(
+    (operation: Operation, context: OperationContext) => {
       // Check if target node is available (except for metrics export which reads from local state)
-      if (operation.id !== 'export-metrics' && !isNodeAvailable(currentContext.nodeId)) {
+      if (operation.id !== 'export-metrics' && !isNodeAvailable(context.nodeId)) {
         // Add unavailable error to history
         const errorResult: OperationResult = {
           id: crypto.randomUUID(),
           operationId: operation.id,
-          context: currentContext,
+          context,
           status: 'failure',
           message: 'Node Unavailable',
-          error: `Cannot execute operation: node "${currentContext.nodeName}" is disconnected or stale`,
+          error: `Cannot execute operation: node "${context.nodeName}" is disconnected or stale`,
           remediationHint: 'Wait for the node to reconnect and refresh before trying again.',
           timestamp: new Date(),
           durationMs: 0,
@@ -278,15 +374,180 @@ export function useOperations(): UseOperationsResult {
       }
 
       if (operation.requiresConfirmation) {
-        startConfirmation(operation, currentContext);
+        startConfirmation(operation, context);
       } else {
         // Execute immediately for operations that don't require confirmation
-        void executeOperationDirect(operation, currentContext);
+        void executeOperationDirect(operation, context);
       }
     },
-    [currentContext, startConfirmation, executeOperationDirect, isNodeAvailable]
+    [startConfirmation, executeOperationDirect, isNodeAvailable]
   );
 
+  // Start an operation on the current context
+  const startOperation = useCallback(
+    (operation: Operation, additionalParams?: Readonly<Record<string, unknown>>) => {
+      if (!currentContext) return;
+      const context: OperationContext = additionalParams
+        ? {
+            ...currentContext,
+            additionalParams: { ...currentContext.additionalParams, ...additionalParams },
+          }
+        : currentContext;
+      beginOperation(operation, context);
+    },
+    [currentContext, beginOperation]
+  );
+
+  // Confirm creating a subscription on the subscriber chosen in the wizard
+  const startCreateSubscription = useCallback(
+    (draft: SubscriptionDraft) => {
+      const operation = OPERATIONS.find((op) => op.id === 'create-subscription');
+      const subscriber = nodes.get(draft.subscriberNodeId);
+      const provider = nodes.get(draft.providerNodeId);
+      if (!operation || !subscriber || !provider) return;
+
+      const providerDsn = buildProviderDsn({
+        host: provider.host,
+        port: provider.port,
+        database: provider.database,
+        user: getConnectionManager()?.getNode(provider.id)?.config.user,
+      });
+      const params = {
+        subscriptionName: draft.subscriptionName,
+        providerDsn,
+        publications: draft.publications,
+        source: draft.source,
+        copyData: draft.copyData,
+        synchronizeStructure: draft.synchronizeStructure,
+        forwardOrigins: draft.forwardOrigins,
+      };
+
+      beginOperation(operation, {
+        nodeId: subscriber.id,
+        nodeName: subscriber.name,
+        resourceId: draft.subscriptionName,
+        resourceName: draft.subscriptionName,
+        additionalParams: {
+          ...params,
+          providerNodeId: provider.id,
+          // Previewed before confirming
+          sql: buildCreateSubscriptionSql(params),
+        },
+      });
+    },
+    [nodes, beginOperation]
+  );
+
+  // Find the LSN the selected subscription fails on (for skip-transaction)
+  const findFailingLsn = useCallback(async (): Promise<string | null> => {
+    if (contextPanel !== 'subscriptions' || !currentContext) return null;
+
+    const connectionManager = getConnectionManager();
+    if (!connectionManager || !isNodeAvailable(currentContext.nodeId)) return null;
+
+    const queryFn: QueryFn = async <T>(
+      nodeId: string,
+      queryText: string,
+      params?: unknown[]
+    ): Promise<T[]> => {
+      return connectionManager.query<T>(nodeId, queryText, params);
+    };
+
+    return findFailingTransactionLsn(
+      currentContext.nodeId,
+      currentContext.resourceName,
+      currentContext.additionalParams?.source === 'pglogical' ? 'pglogical' : 'native',
+      queryFn
+    );
+  }, [contextPanel, currentContext, isNodeAvailable]);
+
+  // Find the apply worker or walsender to terminate (for terminate-worker)
+  const findWorkerBackend = useCallback(async (): Promise<BackendActivity | null> => {
+    const pid = currentContext?.additionalParams?.workerPid;
+    if (!currentContext || typeof pid !== 'number') return null;
+
+    const connectionManager = getConnectionManager();
+    if (!connectionManager || !isNodeAvailable(currentContext.nodeId)) return null;
+
+    const queryFn: QueryFn = async <T>(
+      nodeId: string,
+      queryText: string,
+      params?: unknown[]
+    ): Promise<T[]> => {
+      return connectionManager.query<T>(nodeId, queryText, params);
+    };
+
+    return getBackendActivity(currentContext.nodeId, pid, queryFn);
+  }, [currentContext, isNodeAvailable]);
+
+  // Follow the worker terminated last until a poll shows it back
+  const workerRestart = useMemo((): WorkerRestart | null => {
+    const result = history.find((entry) => entry.operationId === 'terminate-worker');
+    if (!result || result.status !== 'success') return null;
+
+    const { nodeId, resourceName, additionalParams } = result.context;
+    const terminatedPid = additionalParams?.workerPid;
+    if (typeof terminatedPid !== 'number') return null;
+
+    let current: { pid: number | null; timestamp: Date } | null = null;
+    if (additionalParams?.workerRole === 'walsender') {
+      const slot = slots.get(nodeId)?.find((item) => item.slotName === resourceName);
+      if (slot) current = { pid: slot.activePid, timestamp: slot.timestamp };
+    } else {
+      const sub = subscriptions
+        .get(nodeId)
+        ?.find((item) => item.subscriptionName === resourceName);
+      if (sub) current = { pid: sub.workerPid, timestamp: sub.timestamp };
+    }
+
+    const status = getWorkerRestartStatus(terminatedPid, result.timestamp, current, new Date());
+    return {
+      resultId: result.id,
+      role: additionalParams?.workerRole === 'walsender' ? 'walsender' : 'apply worker',
+      terminatedPid,
+      pid: status === 'restarted' ? current?.pid ?? null : null,
+      status,
+    };
+  }, [history, subscriptions, slots]);
+
+  // Follow the slot the subscription dropped last left on its provider
+  const leftoverSlot = useMemo((): LeftoverSlot | null => {
+    const result = history.find((entry) => entry.operationId === 'drop-subscription');
+    if (!result || result.status !== 'success') return null;
+
+    const slotName = result.context.additionalParams?.leftoverSlot;
+    const providerNodeId = result.context.additionalParams?.providerNodeId;
+    if (typeof slotName !== 'string' || typeof providerNodeId !== 'string') return null;
+
+    // Gone once the provider's latest poll, taken after the drop, no longer lists it
+    const polledAt = lastUpdated.get(providerNodeId);
+    const listed = slots.get(providerNodeId)?.some((slot) => slot.slotName === slotName) ?? false;
+    const polledSince = polledAt !== undefined && polledAt >= result.timestamp;
+    if (polledSince && !listed) return null;
+
+    return {
+      resultId: result.id,
+      nodeId: providerNodeId,
+      nodeName: nodes.get(providerNodeId)?.name ?? providerNodeId,
+      slotName,
+      verified: result.context.additionalParams?.slotOutcome === 'left' || (polledSince && listed),
+      available: isNodeAvailable(providerNodeId),
+    };
+  }, [history, slots, lastUpdated, nodes, isNodeAvailable]);
+
+  // Confirm dropping the leftover slot on its provider
+  const startDropLeftoverSlot = useCallback(() => {
+    const operation = OPERATIONS.find((op) => op.id === 'drop-slot');
+    if (!operation || !leftoverSlot) return;
+
+    beginOperation(operation, {
+      nodeId: leftoverSlot.nodeId,
+      nodeName: leftoverSlot.nodeName,
+      resourceId: leftoverSlot.slotName,
+      resourceName: leftoverSlot.slotName,
+    });
+  }, [leftoverSlot, beginOperation]);
+
   // Execute operation (after confirmation)
   const executeOperation = useCallback(async (): Promise<OperationResult | null> => {
     if (!confirmationState) return null;
@@ -508,6 +769,12 @@ export function useOperations(): UseOperationsResult {
     isExecuting,
     currentContext,
     startOperation,
+    findFailingLsn,
+    findWorkerBackend,
+    workerRestart,
+    startCreateSubscription,
+    leftoverSlot,
+    startDropLeftoverSlot,
     executeOperation,
     updateConfirmInput,
     cancel,
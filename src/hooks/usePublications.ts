@@ -0,0 +1,220 @@
+/**
+ * Publications Data Hook
+ *
+ * Aggregates publications and pglogical replication sets from store for
+ * PublicationsPanel, cross-referenced with the subscriptions consuming them
+ * and the values of their sequences on each subscriber.
+ */
+
+import { useMemo } from 'react';
+import { useStore } from '../store/index.js';
+import {
+  findPublicationConsumers,
+  formatPublicationOperations,
+  getPublicationKey,
+  type PublicationConsumer,
+} from '../utils/publications.js';
+import { findSequenceDrift, type SequenceDrift } from '../utils/sequences.js';
+import type {
+  PublicationOperations,
+  PublicationSequence,
+  PublicationTable,
+  SubscriptionSource,
+} from '../store/types.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * A consuming subscription with its node's display name.
+ */
+export interface PublicationConsumerItem extends PublicationConsumer {
+  /** Subscriber node display name (from NodeInfo) */
+  nodeName: string;
+}
+
+/**
+ * A published sequence on a subscriber with the node's display name.
+ */
+export interface SequenceDriftItem extends SequenceDrift {
+  /** Subscriber node display name (from NodeInfo) */
+  nodeName: string;
+}
+
+/**
+ * A publication or replication set with derived display metadata.
+ */
+export interface PublicationListItem {
+  /** Unique key: `${nodeId}:${source}:${name}` */
+  id: string;
+
+  // ─── Raw PublicationData fields ────────────────────────────────
+  nodeId: string;
+  name: string;
+  source: SubscriptionSource;
+  allTables: boolean;
+  operations: PublicationOperations;
+  tables: PublicationTable[];
+  sequences: PublicationSequence[];
+  timestamp: Date;
+
+  // ─── Derived display fields ────────────────────────────────────
+  /** Node display name (from NodeInfo) */
+  nodeName: string;
+
+  /** Whether the publication's node is stale (disconnected) */
+  isStale: boolean;
+
+  /** Whether this item is currently selected */
+  isSelected: boolean;
+
+  /** Replicated operations, one letter each (e.g. "IUDT") */
+  formattedOperations: string;
+
+  /** Whether any member table has a row filter or column list */
+  isFiltered: boolean;
+
+  /** Subscriptions consuming this publication */
+  consumers: PublicationConsumerItem[];
+
+  /**
+   * Published sequences compared with each subscriber (empty while the
+   * publication's node is stale; stale subscribers are left out)
+   */
+  sequenceDrift: SequenceDriftItem[];
+
+  /** Sequence entries behind the provider on a subscriber */
+  behindSequenceCount: number;
+}
+
+/**
+ * Return type for usePublications hook.
+ */
+export interface UsePublicationsResult {
+  /** All publications as enriched list items, sorted by nodeName then name */
+  items: PublicationListItem[];
+
+  /** Currently selected item (null if none) */
+  selectedItem: PublicationListItem | null;
+
+  /** Total publication and replication set count */
+  count: number;
+
+  /** Count of publications and sets no subscription consumes */
+  unconsumedCount: number;
+
+  /** Count of publications from stale nodes */
+  staleCount: number;
+
+  /** Count of publications with a sequence behind on a subscriber */
+  sequenceDriftCount: number;
+}
+
+// =============================================================================
+// Hook Implementation
+// =============================================================================
+
+/**
+ * Aggregate publication data from store for panel rendering.
+ *
+ * @returns Publication list items with consumers and aggregated counts
+ */
+export function usePublications(): UsePublicationsResult {
+  // Select raw data from store
+  const nodes = useStore((s) => s.nodes);
+  const publications = useStore((s) => s.publications);
+  const subscriptions = useStore((s) => s.subscriptions);
+  const sequences = useStore((s) => s.sequences);
+  const staleNodes = useStore((s) => s.staleNodes);
+  const selections = useStore((s) => s.selections);
+
+  // Derive publication list in useMemo
+  return useMemo(() => {
+    const items: PublicationListItem[] = [];
+    const selectedId = selections.get('publications') ?? null;
+
+    for (const [nodeId, nodePublications] of publications) {
+      const nodeInfo = nodes.get(nodeId);
+      // Filter out orphaned publications (nodeId not in nodes Map)
+      if (!nodeInfo) continue;
+
+      const nodeName = nodeInfo.name ?? nodeId;
+      const isStale = staleNodes.has(nodeId);
+
+      for (const publication of nodePublications) {
+        const id = getPublicationKey(publication);
+        const consumers = findPublicationConsumers(publication, subscriptions, nodes).map(
+          (consumer) => ({
+            ...consumer,
+            nodeName: nodes.get(consumer.nodeId)?.name ?? consumer.nodeId,
+          })
+        );
+        const sequenceDrift = isStale
+          ? []
+          : findSequenceDrift(
+              publication,
+              consumers.map((consumer) => consumer.nodeId),
+              sequences
+            )
+              .filter((drift) => !staleNodes.has(drift.nodeId))
+              .map((drift) => ({
+                ...drift,
+                nodeName: nodes.get(drift.nodeId)?.name ?? drift.nodeId,
+              }));
+
+        items.push({
+          id,
+          nodeId,
+          name: publication.name,
+          source: publication.source,
+          allTables: publication.allTables,
+          operations: publication.operations,
+          tables: publication.tables,
+          sequences: publication.sequences,
+          timestamp: publication.timestamp,
+          nodeName,
+          isStale,
+          isSelected: id === selectedId,
+          formattedOperations: formatPublicationOperations(publication.operations),
+          isFiltered: publication.tables.some(
+            (table) => table.rowFilter !== null || table.columns !== null
+          ),
+          consumers,
+          sequenceDrift,
+          behindSequenceCount: sequenceDrift.filter((drift) => drift.status === 'behind').length,
+        });
+      }
+    }
+
+    // Sort by nodeName, then name, then source (alphabetical)
+    items.sort((a, b) => {
+      const nodeCompare = a.nodeName.localeCompare(b.nodeName);
+      if (nodeCompare !== 0) return nodeCompare;
+      const nameCompare = a.name.localeCompare(b.name);
+      if (nameCompare !== 0) return nameCompare;
+      return a.source.localeCompare(b.source);
+    });
+
+    let unconsumedCount = 0;
+    let staleCount = 0;
+    let sequenceDriftCount = 0;
+    let selectedItem: PublicationListItem | null = null;
+
+    for (const item of items) {
+      if (item.consumers.length === 0) unconsumedCount++;
+      if (item.isStale) staleCount++;
+      if (item.behindSequenceCount > 0) sequenceDriftCount++;
+      if (item.isSelected) selectedItem = item;
+    }
+
+    return {
+      items,
+      selectedItem,
+      count: items.length,
+      unconsumedCount,
+      staleCount,
+      sequenceDriftCount,
+    };
+  }, [nodes, publications, subscriptions, sequences, staleNodes, selections]);
+}
@@ -10,7 +10,10 @@ import {
   getWalStatusSeverity,
   getRetentionPercent,
   formatBytes,
+  formatRetentionForecast,
 } from './useSlots.js';
+import { forecastSlotRetention, getRetentionGrowthRate } from '../utils/wal-rate.js';
+import { estimateReleasedBytes } from '../utils/slot-retention.js';
 import {
   DEFAULT_RETENTION_WARNING_BYTES,
   DEFAULT_RETENTION_CRITICAL_BYTES,
@@ -244,10 +247,87 @@ describe('formatBytes', () => {
   });
 });
 
+describe('forecastSlotRetention', () => {
+  const GB = 1024 * 1024 * 1024;
+  const MB = 1024 * 1024;
+  const slot = { retainedBytes: 4 * GB, walStatus: 'reserved' as const, maxSlotWalKeepSize: null };
+
+  test('grows by WAL generated minus WAL confirmed', () => {
+    expect(getRetentionGrowthRate(3 * MB, 1 * MB, 5 * MB)).toBe(2 * MB);
+    // Physical slots have no confirmed flush position
+    expect(getRetentionGrowthRate(3 * MB, null, 5 * MB)).toBe(5 * MB);
+    expect(getRetentionGrowthRate(null, null, null)).toBeNull();
+  });
+
+  test('projects when retention reaches the critical threshold', () => {
+    const forecast = forecastSlotRetention(slot, MB, 5 * GB);
+
+    expect(forecast).toEqual({
+      limit: 'critical_threshold',
+      limitBytes: 5 * GB,
+      secondsToLimit: 1024,
+    });
+    expect(formatRetentionForecast(forecast!)).toBe('hits 5.0 GB in ~17m');
+  });
+
+  test('picks max_slot_wal_keep_size when it comes first', () => {
+    const forecast = forecastSlotRetention(
+      { ...slot, maxSlotWalKeepSize: 4.5 * GB },
+      MB,
+      5 * GB
+    );
+
+    expect(forecast).toMatchObject({ limit: 'max_slot_wal_keep_size', secondsToLimit: 512 });
+  });
+
+  test('skips limits already passed', () => {
+    expect(forecastSlotRetention(slot, MB, 2 * GB)).toBeNull();
+    expect(
+      forecastSlotRetention({ ...slot, maxSlotWalKeepSize: 6 * GB }, MB, 2 * GB)
+    ).toMatchObject({ limit: 'max_slot_wal_keep_size' });
+  });
+
+  test('returns null when retention is not growing, the slot is lost, or the limit is far off', () => {
+    expect(forecastSlotRetention(slot, null, 5 * GB)).toBeNull();
+    expect(forecastSlotRetention(slot, -MB, 5 * GB)).toBeNull();
+    expect(forecastSlotRetention({ ...slot, walStatus: 'lost' }, MB, 5 * GB)).toBeNull();
+    expect(forecastSlotRetention(slot, 1, 5 * GB)).toBeNull();
+  });
+
+  test('formats the time to the limit roughly', () => {
+    const at = (secondsToLimit: number) =>
+      formatRetentionForecast({ limit: 'critical_threshold', limitBytes: 5 * GB, secondsToLimit });
+
+    expect(at(30)).toBe('hits 5.0 GB in <1m');
+    expect(at(2520)).toBe('hits 5.0 GB in ~42m');
+    expect(at(3.5 * 3600)).toBe('hits 5.0 GB in ~3.5h');
+    expect(at(2 * 86400)).toBe('hits 5.0 GB in ~2.0d');
+  });
+});
+
 // =============================================================================
 // useSlots Hook Tests
 // =============================================================================
 
+describe('estimateReleasedBytes', () => {
+  const GB = 1024 * 1024 * 1024;
+
+  test('releases everything when advancing to the current position', () => {
+    expect(estimateReleasedBytes(3 * GB, '3/0', null)).toBe(3 * GB);
+  });
+
+  test('releases WAL between restart_lsn and the target', () => {
+    // restart_lsn is 3/0 (12 GB) - 3 GB = 2/40000000
+    expect(estimateReleasedBytes(3 * GB, '3/0', '2/80000000')).toBe(GB);
+    expect(estimateReleasedBytes(3 * GB, '3/0', '1/0')).toBe(0);
+    expect(estimateReleasedBytes(3 * GB, '3/0', '4/0')).toBe(3 * GB);
+  });
+
+  test('returns null without a current position to compare to', () => {
+    expect(estimateReleasedBytes(3 * GB, null, '1/0')).toBeNull();
+  });
+});
+
 describe('useSlots hook', () => {
   const testNodes: NodeInfo[] = [
     { id: 'node1', name: 'Primary', host: 'localhost', port: 5432, database: 'test', hasPglogical: false },
@@ -261,9 +341,18 @@ describe('useSlots hook', () => {
     slotType: 'logical',
     database: 'test',
     active: true,
+    activePid: null,
     retainedBytes: 1024,
     pendingBytes: 512,
+    confirmedFlushLsn: null,
     walStatus: 'reserved',
+    xminAge: null,
+    catalogXminAge: null,
+    safeWalSize: null,
+    maxSlotWalKeepSize: null,
+    twoPhase: null,
+    inactiveSince: null,
+    blocker: null,
     isStale: false,
     timestamp: new Date(),
     ...overrides,
@@ -13,7 +13,30 @@ import {
   DEFAULT_RETENTION_WARNING_BYTES,
   DEFAULT_RETENTION_CRITICAL_BYTES,
 } from '../config/defaults.js';
-import type { WalStatus } from '../store/types.js';
+import {
+  getRetentionCause,
+  getSlotXminAge,
+  getWraparoundPercent,
+  getXminSeverity,
+  type RetentionCause,
+} from '../utils/slot-retention.js';
+import {
+  forecastSlotRetention,
+  formatEta,
+  getRetentionGrowthRate,
+  type SlotRetentionForecast,
+} from '../utils/wal-rate.js';
+import { formatBytes } from '../utils/format.js';
+import type {
+  SlotBlocker,
+  SlotStatsData,
+  SlotStatsRates,
+  SlotWalRates,
+  WalStatus,
+} from '../store/types.js';
+
+// Re-exported for the panels that format bytes alongside slot data
+export { formatBytes } from '../utils/format.js';
 
 // =============================================================================
 // Types
@@ -38,8 +61,18 @@ export interface SlotListItem {
   slotType: 'physical' | 'logical';
   database: string | null;
   active: boolean;
+  activePid: number | null;
   retainedBytes: number;
+  pendingBytes: number;
+  confirmedFlushLsn: string | null;
   walStatus: WalStatus | null;
+  xminAge: number | null;
+  catalogXminAge: number | null;
+  safeWalSize: number | null;
+  maxSlotWalKeepSize: number | null;
+  twoPhase: boolean | null;
+  inactiveSince: Date | null;
+  blocker: SlotBlocker | null;
   timestamp: Date;
 
   // ─── Derived display fields ────────────────────────────────────
@@ -63,6 +96,42 @@ export interface SlotListItem {
 
   /** Formatted retained bytes (e.g., "1.5 GB") */
   formattedRetention: string;
+
+  /** Formatted pending bytes (e.g., "12.0 MB") */
+  formattedPending: string;
+
+  /** Logical decoding counters (PG14+, null for physical slots or older servers) */
+  decodingStats: SlotStatsData | null;
+
+  /** Decoding rates since the previous poll (null until two polls are available) */
+  decodingRates: SlotStatsRates | null;
+
+  /** Whether the decoder spilled to disk since the previous poll */
+  isSpilling: boolean;
+
+  /** Older of xmin and catalog_xmin age (null if the slot holds neither) */
+  horizonAge: number | null;
+
+  /** Transaction ID space used up by horizonAge (0-100) */
+  wraparoundPercent: number;
+
+  /** Severity of horizonAge */
+  xminSeverity: Severity;
+
+  /** Main reason the slot retains WAL (null if it is keeping up) */
+  retentionCause: RetentionCause | null;
+
+  /** WAL generation rate of the slot's node (null until two polls are available) */
+  nodeWalBytesPerSec: number | null;
+
+  /** WAL movement of the slot (null until two polls are available) */
+  walRates: SlotWalRates | null;
+
+  /** Growth of retained WAL per second (negative while shrinking, null if unknown) */
+  retentionGrowthBytesPerSec: number | null;
+
+  /** When retention reaches its nearest limit (null if it isn't heading for one) */
+  retentionForecast: SlotRetentionForecast | null;
 }
 
 /**
@@ -93,6 +162,9 @@ export interface UseSlotsResult {
   /** Count of slots from stale nodes */
   staleCount: number;
 
+  /** Count of slots spilling to disk since the previous poll */
+  spillingCount: number;
+
   /** Total retained bytes across all slots */
   totalRetainedBytes: number;
 
@@ -163,17 +235,23 @@ export function getRetentionPercent(
 }
 
 /**
- * Format bytes to human-readable string.
+ * Format a byte rate to human-readable string.
+ *
+ * @param bytesPerSec - Bytes per second
+ * @returns Formatted string (e.g., "2.5 MB/s")
+ */
+export function formatByteRate(bytesPerSec: number): string {
+  return `${formatBytes(Math.round(bytesPerSec))}/s`;
+}
+
+/**
+ * Format a retention forecast (e.g., "hits 5.0 GB in ~42m").
  *
- * @param bytes - Number of bytes
- * @returns Formatted string (e.g., "1.5 GB")
+ * @param forecast - Forecast from forecastSlotRetention
+ * @returns Formatted string
  */
-export function formatBytes(bytes: number): string {
-  if (bytes < 0) bytes = 0;
-  if (bytes < 1024) return `${bytes} B`;
-  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
-  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
-  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+export function formatRetentionForecast(forecast: SlotRetentionForecast): string {
+  return `hits ${formatBytes(forecast.limitBytes)} in ${formatEta(forecast.secondsToLimit)}`;
 }
 
 // =============================================================================
@@ -189,8 +267,13 @@ export function useSlots(): UseSlotsResult {
   // Select raw data from store
   const nodes = useStore((s) => s.nodes);
   const slots = useStore((s) => s.slots);
+  const slotStats = useStore((s) => s.slotStats);
+  const slotStatsRates = useStore((s) => s.slotStatsRates);
+  const walRates = useStore((s) => s.walRates);
+  const slotWalRates = useStore((s) => s.slotWalRates);
   const staleNodes = useStore((s) => s.staleNodes);
   const selections = useStore((s) => s.selections);
+  const retentionThresholds = useStore((s) => s.thresholds.slotRetention);
 
   // Derive slot list in useMemo
   return useMemo(() => {
@@ -205,14 +288,30 @@ export function useSlots(): UseSlotsResult {
 
       const nodeName = nodeInfo.name ?? nodeId;
       const isStale = staleNodes.has(nodeId);
+      const nodeStats = slotStats.get(nodeId) ?? [];
+      const nodeWalBytesPerSec = walRates.get(nodeId)?.bytesPerSec ?? null;
 
       for (const slot of nodeSlots) {
         const id = `${nodeId}:${slot.slotName}`;
         const retainedBytes = Math.max(0, slot.retainedBytes);
-        const retentionSeverity = getRetentionSeverity(retainedBytes);
+        const retentionSeverity = getRetentionSeverity(
+          retainedBytes,
+          retentionThresholds.warning,
+          retentionThresholds.critical
+        );
         const walStatusSeverity = getWalStatusSeverity(slot.walStatus);
-        const retentionPercent = getRetentionPercent(retainedBytes);
+        const retentionPercent = getRetentionPercent(retainedBytes, retentionThresholds.critical);
         const formattedRetention = formatBytes(retainedBytes);
+        const pendingBytes = Math.max(0, slot.pendingBytes);
+        const decodingStats = nodeStats.find((stats) => stats.slotName === slot.slotName) ?? null;
+        const decodingRates = slotStatsRates.get(id) ?? null;
+        const horizonAge = getSlotXminAge(slot);
+        const slotRates = slotWalRates.get(id) ?? null;
+        const retentionGrowthBytesPerSec = getRetentionGrowthRate(
+          nodeWalBytesPerSec,
+          slotRates?.confirmedFlushBytesPerSec ?? null,
+          slotRates?.retainedBytesPerSec ?? null
+        );
 
         items.push({
           id,
@@ -222,8 +321,18 @@ export function useSlots(): UseSlotsResult {
           slotType: slot.slotType,
           database: slot.database,
           active: slot.active,
+          activePid: slot.activePid,
           retainedBytes,
+          pendingBytes,
+          confirmedFlushLsn: slot.confirmedFlushLsn,
           walStatus: slot.walStatus,
+          xminAge: slot.xminAge,
+          catalogXminAge: slot.catalogXminAge,
+          safeWalSize: slot.safeWalSize,
+          maxSlotWalKeepSize: slot.maxSlotWalKeepSize,
+          twoPhase: slot.twoPhase,
+          inactiveSince: slot.inactiveSince,
+          blocker: slot.blocker,
           timestamp: slot.timestamp,
           nodeName,
           isStale,
@@ -232,6 +341,24 @@ export function useSlots(): UseSlotsResult {
           walStatusSeverity,
           retentionPercent,
           formattedRetention,
+          formattedPending: formatBytes(pendingBytes),
+          decodingStats,
+          decodingRates,
+          isSpilling: (decodingRates?.spillBytesPerSec ?? 0) > 0,
+          horizonAge,
+          wraparoundPercent: horizonAge === null ? 0 : getWraparoundPercent(horizonAge),
+          xminSeverity: getXminSeverity(horizonAge),
+          retentionCause: getRetentionCause(slot),
+          nodeWalBytesPerSec,
+          walRates: slotRates,
+          retentionGrowthBytesPerSec,
+          retentionForecast: isStale
+            ? null
+            : forecastSlotRetention(
+                { ...slot, retainedBytes },
+                retentionGrowthBytesPerSec,
+                retentionThresholds.critical
+              ),
         });
       }
     }
@@ -249,6 +376,7 @@ export function useSlots(): UseSlotsResult {
     let criticalCount = 0;
     let warningCount = 0;
     let staleCount = 0;
+    let spillingCount = 0;
     let totalRetainedBytes = 0;
     let selectedItem: SlotListItem | null = null;
 
@@ -260,6 +388,7 @@ export function useSlots(): UseSlotsResult {
       else if (item.retentionSeverity === 'warning') warningCount++;
 
       if (item.isStale) staleCount++;
+      if (item.isSpilling) spillingCount++;
 
       totalRetainedBytes += item.retainedBytes;
 
@@ -275,8 +404,19 @@ export function useSlots(): UseSlotsResult {
       criticalCount,
       warningCount,
       staleCount,
+      spillingCount,
       totalRetainedBytes,
       formattedTotalRetention: formatBytes(totalRetainedBytes),
     };
-  }, [nodes, slots, staleNodes, selections]);
+  }, [
+    nodes,
+    slots,
+    slotStats,
+    slotStatsRates,
+    walRates,
+    slotWalRates,
+    staleNodes,
+    selections,
+    retentionThresholds,
+  ]);
 }
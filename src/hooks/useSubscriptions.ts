@@ -11,14 +11,44 @@ import { useMemo } from 'react';
 import { useStore } from '../store/index.js';
 import { useConnectionStore } from '../store/connection.js';
 import { getLagSeverity } from '../utils/topology.js';
+import { getTableSyncKey, isInitialSync } from '../utils/table-sync.js';
+import { countRecentWorkerEvents, isCrashLooping } from '../utils/worker-history.js';
 import type { StatusDotVariant } from '../components/atoms/StatusDot.js';
-import type { LagSample, SubscriptionStatus } from '../store/types.js';
+import type {
+  LagSample,
+  SubscriptionStatus,
+  TableSyncState,
+  WorkerEvent,
+} from '../store/types.js';
 import type { LagSeverity } from '../types/topology.js';
 
 // =============================================================================
 // Types
 // =============================================================================
 
+/**
+ * Sync state of one table of a subscription.
+ */
+export interface SubscriptionTableItem {
+  /** Table schema */
+  schemaName: string;
+
+  /** Table name */
+  tableName: string;
+
+  /** Current sync state */
+  state: TableSyncState;
+
+  /** LSN the table was synchronized at */
+  syncLsn: string | null;
+
+  /** Whether the table is still in its initial sync */
+  isSyncing: boolean;
+
+  /** When the initial sync started (null once synchronized) */
+  syncStartedAt: Date | null;
+}
+
 /**
  * A subscription item with derived display metadata.
  */
@@ -35,6 +65,9 @@ export interface SubscriptionListItem {
   /** Whether subscription is enabled */
   enabled: boolean;
 
+  /** Whether the subscription disables itself on apply errors (null when unknown) */
+  disableOnError: boolean | null;
+
   /** Current operational status */
   status: SubscriptionStatus;
 
@@ -77,6 +110,24 @@ export interface SubscriptionListItem {
   /** Full lag history for sparkline visualization (up to 300 samples / 5 minutes) */
   lagHistory: LagSample[];
 
+  /** Per-table sync states, initial syncs first */
+  tables: SubscriptionTableItem[];
+
+  /** Apply errors, worker restarts and auto-disables seen while monitoring, oldest first */
+  workerEvents: WorkerEvent[];
+
+  /** Apply worker restarts in the last 10 minutes */
+  recentRestarts: number;
+
+  /** Apply errors in the last 10 minutes */
+  recentApplyErrors: number;
+
+  /** Whether the apply worker keeps restarting */
+  isCrashLooping: boolean;
+
+  /** Whether disable_on_error disabled the subscription after an apply error */
+  isAutoDisabled: boolean;
+
   /** StatusDot variant for status indicator */
   statusVariant: StatusDotVariant;
 
@@ -112,6 +163,12 @@ export interface UseSubscriptionsResult {
   /** Count of subscriptions from stale nodes */
   staleCount: number;
 
+  /** Count of subscriptions auto-disabled after apply errors */
+  autoDisabledCount: number;
+
+  /** Count of subscriptions whose apply worker keeps restarting */
+  crashLoopingCount: number;
+
   /** Whether any node has pglogical installed */
   pglogicalMode: boolean;
 }
@@ -163,34 +220,53 @@ export function useSubscriptions(): UseSubscriptionsResult {
   const nodes = useStore((s) => s.nodes);
   const subscriptions = useStore((s) => s.subscriptions);
   const lagHistory = useStore((s) => s.lagHistory);
+  const tableSync = useStore((s) => s.tableSync);
+  const tableSyncStarts = useStore((s) => s.tableSyncStarts);
+  const workerHistory = useStore((s) => s.workerHistory);
   const staleNodes = useStore((s) => s.staleNodes);
   const selections = useStore((s) => s.selections);
+  const lagThresholds = useStore((s) => s.thresholds.replicationLag);
   const pglogicalMode = useConnectionStore((s) => s.pglogicalMode);
 
   // Derive subscription list in useMemo
   return useMemo(() => {
     const items: SubscriptionListItem[] = [];
     const selectedId = selections.get('subscriptions') ?? null;
+    const now = new Date();
 
     // Aggregate subscriptions from all nodes
     for (const [nodeId, subs] of subscriptions) {
       const nodeInfo = nodes.get(nodeId);
       const nodeName = nodeInfo?.name ?? nodeId;
       const isStale = staleNodes.has(nodeId);
+      const nodeTables = tableSync.get(nodeId) ?? [];
 
       for (const sub of subs) {
         const id = `${nodeId}:${sub.subscriptionName}`;
         const lagKey = `${nodeId}:${sub.subscriptionName}`;
         const history = lagHistory.get(lagKey) ?? [];
         const latestLag = history.length > 0 ? history[history.length - 1] : null;
-        const lagSeverity = getLagSeverity(latestLag?.lagSeconds ?? null);
+        const lagSeverity = getLagSeverity(latestLag?.lagSeconds ?? null, lagThresholds);
         const statusVariant = getStatusVariant(sub.status, sub.enabled);
+        const tables = nodeTables
+          .filter((table) => table.subscriptionName === sub.subscriptionName)
+          .map((table) => ({
+            schemaName: table.schemaName,
+            tableName: table.tableName,
+            state: table.state,
+            syncLsn: table.syncLsn,
+            isSyncing: isInitialSync(table.state),
+            syncStartedAt: tableSyncStarts.get(getTableSyncKey(table)) ?? null,
+          }))
+          .sort((a, b) => Number(b.isSyncing) - Number(a.isSyncing));
+        const worker = workerHistory.get(id);
 
         items.push({
           id,
           nodeId,
           subscriptionName: sub.subscriptionName,
           enabled: sub.enabled,
+          disableOnError: sub.disableOnError,
           status: sub.status,
           source: sub.source,
           providerNode: sub.providerNode,
@@ -205,6 +281,12 @@ export function useSubscriptions(): UseSubscriptionsResult {
           nodeName,
           latestLag: latestLag ?? null,
           lagHistory: history,
+          tables,
+          workerEvents: worker?.events ?? [],
+          recentRestarts: countRecentWorkerEvents(worker, 'worker_restart', now),
+          recentApplyErrors: countRecentWorkerEvents(worker, 'apply_error', now),
+          isCrashLooping: isCrashLooping(worker, now),
+          isAutoDisabled: worker?.autoDisabled ?? false,
           statusVariant,
           lagSeverity,
           isStale,
@@ -217,12 +299,16 @@ export function useSubscriptions(): UseSubscriptionsResult {
     let criticalCount = 0;
     let warningCount = 0;
     let staleCount = 0;
+    let autoDisabledCount = 0;
+    let crashLoopingCount = 0;
     let selectedItem: SubscriptionListItem | null = null;
 
     for (const item of items) {
       if (item.lagSeverity === 'critical') criticalCount++;
       if (item.lagSeverity === 'warning') warningCount++;
       if (item.isStale) staleCount++;
+      if (item.isAutoDisabled) autoDisabledCount++;
+      if (item.isCrashLooping) crashLoopingCount++;
       if (item.isSelected) selectedItem = item;
     }
 
@@ -233,7 +319,20 @@ export function useSubscriptions(): UseSubscriptionsResult {
       criticalCount,
       warningCount,
       staleCount,
+      autoDisabledCount,
+      crashLoopingCount,
       pglogicalMode,
     };
-  }, [nodes, subscriptions, lagHistory, staleNodes, selections, pglogicalMode]);
+  }, [
+    nodes,
+    subscriptions,
+    lagHistory,
+    tableSync,
+    tableSyncStarts,
+    workerHistory,
+    staleNodes,
+    selections,
+    lagThresholds,
+    pglogicalMode,
+  ]);
 }
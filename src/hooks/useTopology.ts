@@ -10,25 +10,13 @@ import { useMemo } from 'react';
 import { useStore } from '../store/index.js';
 import { useConnectionStore } from '../store/connection.js';
 import type { UseTopologyResult, TopologyNodeData, TopologyEdge } from '../types/topology.js';
-import { deriveNodeRole, createEdgeId } from '../utils/topology.js';
-
-/**
- * Find configured node ID by host:port match.
- */
-function findNodeByHostPort(
-  nodes: Map<string, { host: string; port: number }>,
-  host: string | null,
-  port: number | null
-): string | null {
-  if (!host || !port) return null;
-
-  for (const [nodeId, nodeInfo] of nodes) {
-    if (nodeInfo.host === host && nodeInfo.port === port) {
-      return nodeId;
-    }
-  }
-  return null;
-}
+import {
+  deriveNodeRole,
+  createEdgeId,
+  findNodeByHostPort,
+  deriveStandbyEdges,
+  deriveExternalNodes,
+} from '../utils/topology.js';
 
 /**
  * Aggregate topology data from store for panel rendering.
@@ -40,6 +28,7 @@ export function useTopology(): UseTopologyResult {
   const nodes = useStore((s) => s.nodes);
   const subscriptions = useStore((s) => s.subscriptions);
   const lagHistory = useStore((s) => s.lagHistory);
+  const walReceivers = useStore((s) => s.walReceivers);
   // Read nodeStatus from connection store (where it's actually updated)
   const nodeStatus = useConnectionStore((s) => s.nodeStatus);
   const staleNodes = useStore((s) => s.staleNodes);
@@ -82,6 +71,9 @@ export function useTopology(): UseTopologyResult {
       }
     }
 
+    // Derive standby edges from WAL receivers
+    edges.push(...deriveStandbyEdges(nodes, walReceivers));
+
     // Mark bidirectional edges
     for (const edge of edges) {
       const reverseId = createEdgeId(edge.targetNodeId, edge.sourceNodeId);
@@ -109,11 +101,16 @@ export function useTopology(): UseTopologyResult {
         isStale,
         isSelected: nodeId === selectedNodeId,
         hasPglogical: nodeInfo.hasPglogical,
+        isExternal: false,
+        walReceiver: walReceivers.get(nodeId)?.[0] ?? null,
         outgoingEdges: edges.filter((e) => e.sourceNodeId === nodeId),
         incomingEdges: edges.filter((e) => e.targetNodeId === nodeId),
       });
     }
 
+    // Upstreams of standbys that are not configured nodes
+    topologyNodes.push(...deriveExternalNodes(edges));
+
     // Compute derived values
     const hasCriticalLag = edges.some(
       (e) => e.lagSeconds !== null && e.lagSeconds > 30
@@ -129,5 +126,5 @@ export function useTopology(): UseTopologyResult {
       hasCriticalLag,
       activeEdgeCount,
     };
-  }, [nodes, subscriptions, lagHistory, nodeStatus, staleNodes, selections]);
+  }, [nodes, subscriptions, lagHistory, walReceivers, nodeStatus, staleNodes, selections]);
 }
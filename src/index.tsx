@@ -3,9 +3,30 @@ import { withFullScreen } from 'fullscreen-ink';
 import meow from 'meow';
 import { createElement } from 'react';
 import { App } from './components/App.js';
+import { shutdownSession } from './components/ConnectionStatus.js';
 import { parseConfiguration } from './config/parser.js';
 import { InsufficientArgumentsError } from './types/errors.js';
 import { formatConfigError } from './config/validator.js';
+import { createMetricsServer } from './services/metrics-server/index.js';
+import { createHeadlessService, createJsonLogger } from './services/headless/index.js';
+import { runCheck, formatCheckOutput, CHECK_EXIT_CODES } from './services/check/index.js';
+import {
+  runDoctor,
+  formatDoctorOutput,
+  getDoctorExitCode,
+  DOCTOR_EXIT_CODES,
+} from './services/doctor/index.js';
+import { takeSnapshot, formatSnapshot, SNAPSHOT_FORMATS } from './services/snapshot/index.js';
+import type { SnapshotFormat } from './services/snapshot/index.js';
+import {
+  buildReplayConfiguration,
+  createRecordingHeader,
+  createSessionRecorder,
+  readRecording,
+} from './services/recording/index.js';
+import type { Recording, SessionRecorder } from './services/recording/index.js';
+import { buildDemoConfiguration, loadScenario } from './services/simulator/index.js';
+import type { Scenario } from './services/simulator/index.js';
 import type { Configuration } from './types/config.js';
 import type { CLIArguments } from './types/cli.js';
 
@@ -14,6 +35,23 @@ const helpText = `
 
   Usage
     $ replmon [options]
+    $ replmon check [options]
+    $ replmon doctor [options]
+    $ replmon snapshot [--format json|ndjson|yaml] [options]
+    $ replmon --replay <file>
+    $ replmon --demo <scenario.yaml>
+
+  Commands
+    check            Poll once, compare against thresholds, print a
+                     Nagios-style status line with perfdata, and exit
+                     0 (OK), 1 (WARNING), 2 (CRITICAL) or 3 (UNKNOWN)
+    doctor           Check every node's replication setup (wal_level, slots,
+                     walsenders, replica identity, missing and orphaned
+                     slots), print findings with suggested fixes, and exit
+                     0 (none), 1 (warnings) or 2 (critical)
+    snapshot         Poll once and print per-node stats, slots, subscriptions,
+                     conflicts, errors and topology edges; exits 1 if any
+                     node failed
 
   Options
     --config, -c     Path to YAML configuration file
@@ -24,6 +62,14 @@ const helpText = `
     --user, -u       PostgreSQL user (default: current user)
     --password       PostgreSQL password
     --pglogical      Enable pglogical bidirectional replication mode
+    --metrics-port   Serve Prometheus metrics at http://<host>:<port>/metrics
+    --metrics-host   Bind address for the metrics endpoint (default: 127.0.0.1)
+    --headless       Run as a service without the TUI (JSON logs, SIGHUP reloads config)
+    --format         Snapshot output format: json, ndjson or yaml (default: json)
+    --record         Record every polling cycle and conflict batch to a file
+    --replay         Replay a recording in the TUI (no database access)
+    --demo           Run the TUI against a simulated cluster scripted by a
+                     scenario file (no database access)
     --help, -h       Show this help
     --version, -v    Show version
 
@@ -32,6 +78,14 @@ const helpText = `
     $ replmon --config config.yaml --cluster production
     $ replmon --host localhost --database myapp
     $ replmon -c config.yaml --pglogical
+    $ replmon -c config.yaml --metrics-port 9464
+    $ replmon -c config.yaml --headless --metrics-port 9464
+    $ replmon check -c config.yaml --cluster production
+    $ replmon doctor -c config.yaml
+    $ replmon snapshot -c config.yaml --format ndjson | jq 'select(.type == "node")'
+    $ replmon -c config.yaml --record incident-4711.replmon
+    $ replmon --replay incident-4711.replmon
+    $ replmon --demo configs/scenarios/tour.yaml
 `;
 
 const VERSION = '0.1.0';
@@ -69,6 +123,29 @@ const cli = meow(helpText, {
       type: 'boolean',
       default: false,
     },
+    metricsHost: {
+      type: 'string',
+    },
+    metricsPort: {
+      type: 'number',
+    },
+    headless: {
+      type: 'boolean',
+      default: false,
+    },
+    format: {
+      type: 'string',
+      default: 'json',
+    },
+    record: {
+      type: 'string',
+    },
+    replay: {
+      type: 'string',
+    },
+    demo: {
+      type: 'string',
+    },
   },
 });
 
@@ -102,13 +179,32 @@ function parseCliFlags(): CLIArguments {
   if (cli.flags.pglogical !== undefined) {
     args.pglogical = cli.flags.pglogical;
   }
+  if (cli.flags.metricsHost !== undefined) {
+    args.metricsHost = cli.flags.metricsHost;
+  }
+  if (cli.flags.metricsPort !== undefined) {
+    args.metricsPort = cli.flags.metricsPort;
+  }
+  if (cli.flags.headless !== undefined) {
+    args.headless = cli.flags.headless;
+  }
+  if (cli.flags.record !== undefined) {
+    args.record = cli.flags.record;
+  }
+  if (cli.flags.replay !== undefined) {
+    args.replay = cli.flags.replay;
+  }
+  if (cli.flags.demo !== undefined) {
+    args.demo = cli.flags.demo;
+  }
 
   return args;
 }
 
 
 /**
- * Exit handler for cleanup.
+ * Exit handler for cleanup. Every TUI exit (q, Ctrl+C, SIGINT/SIGTERM)
+ * comes through here so the session shuts down before the process exits.
  */
 let fullScreenApp: ReturnType<typeof withFullScreen> | null = null;
 let isExiting = false;
@@ -121,7 +217,153 @@ export function exitApp(code: number): void {
   if (fullScreenApp?.instance) {
     fullScreenApp.instance.unmount();
   }
-  process.exit(code);
+  shutdownSession().finally(() => process.exit(code));
+}
+
+/**
+ * Run without the TUI: JSON logs on stdout, SIGHUP reloads the config file,
+ * SIGINT/SIGTERM drain connections before exiting.
+ */
+async function runHeadless(args: CLIArguments, config: Configuration): Promise<void> {
+  const logger = createJsonLogger();
+  const service = createHeadlessService(config, {
+    logger,
+    loadConfig: () => parseConfiguration(args),
+  });
+
+  let shuttingDown = false;
+  const handleShutdown = (signal: string) => {
+    if (shuttingDown) {
+      logger.warn('second signal received, exiting immediately', { signal });
+      process.exit(1);
+    }
+    shuttingDown = true;
+    logger.info('signal received', { signal });
+    service
+      .shutdown()
+      .then(() => process.exit(0))
+      .catch((error: unknown) => {
+        logger.error('shutdown failed', { error });
+        process.exit(1);
+      });
+  };
+
+  process.on('SIGINT', () => handleShutdown('SIGINT'));
+  process.on('SIGTERM', () => handleShutdown('SIGTERM'));
+  process.on('SIGHUP', () => {
+    logger.info('signal received', { signal: 'SIGHUP' });
+    service.reload().catch((error: unknown) => {
+      logger.error('config reload failed', { error });
+    });
+  });
+
+  try {
+    await service.start();
+  } catch (error) {
+    logger.error('startup failed', { error });
+    await service.shutdown();
+    process.exit(1);
+  }
+}
+
+/**
+ * Run `replmon check`: one poll, plugin output on stdout, status as exit code.
+ * Anything that prevents a verdict (bad config, crash) exits UNKNOWN.
+ */
+async function runCheckCommand(args: CLIArguments): Promise<void> {
+  try {
+    const config = parseConfiguration(args);
+    const report = await runCheck(config);
+    console.log(formatCheckOutput(report));
+    process.exit(CHECK_EXIT_CODES[report.status]);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.log(`REPLMON UNKNOWN - ${message}`);
+    process.exit(CHECK_EXIT_CODES.UNKNOWN);
+  }
+}
+
+/**
+ * Run `replmon doctor`: one pass of the doctor checks, findings on stdout,
+ * most severe finding as exit code. A doctor that can't run exits 3.
+ */
+async function runDoctorCommand(args: CLIArguments): Promise<void> {
+  try {
+    const config = parseConfiguration(args);
+    const report = await runDoctor(config);
+    console.log(formatDoctorOutput(report));
+    process.exit(getDoctorExitCode(report));
+  } catch (error) {
+    console.error(formatConfigError(error));
+    process.exit(DOCTOR_EXIT_CODES.error);
+  }
+}
+
+/**
+ * Run `replmon snapshot`: one polling cycle printed to stdout for scripts.
+ * Exits 1 when any node failed so CI smoke tests can rely on the status.
+ */
+async function runSnapshotCommand(config: Configuration, format: SnapshotFormat): Promise<void> {
+  const snapshot = await takeSnapshot(config);
+  // Let a piped stdout drain before exiting
+  await new Promise<void>((resolve) => {
+    process.stdout.write(formatSnapshot(snapshot, format), () => resolve());
+  });
+  process.exit(snapshot.nodes.every((node) => node.success) ? 0 : 1);
+}
+
+/**
+ * Start `--record`: write the header now so an unwritable path fails before
+ * the TUI takes over the screen, and report the outcome after exit.
+ */
+function startRecording(file: string, config: Configuration): SessionRecorder {
+  const recorder = createSessionRecorder(file);
+  try {
+    recorder.start(createRecordingHeader(config));
+  } catch (error) {
+    console.error(
+      `Error: Cannot write recording ${file}: ${error instanceof Error ? error.message : String(error)}`
+    );
+    process.exit(1);
+  }
+
+  process.on('exit', () => {
+    const failure = recorder.getFailure();
+    if (failure) {
+      console.error(`Recording stopped after ${recorder.getFrameCount()} frames: ${failure.message}`);
+    } else {
+      console.error(`Recorded ${recorder.getFrameCount()} frames to ${file}`);
+    }
+  });
+  return recorder;
+}
+
+/**
+ * Load `--replay`: the recording carries its own nodes and thresholds,
+ * so no configuration or database is needed.
+ */
+function loadReplay(file: string): { config: Configuration; recording: Recording } {
+  try {
+    const recording = readRecording(file);
+    return { config: buildReplayConfiguration(recording.header), recording };
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(1);
+  }
+}
+
+/**
+ * Load `--demo`: the scenario defines the simulated nodes and thresholds,
+ * so no configuration or database is needed.
+ */
+function loadDemo(file: string): { config: Configuration; scenario: Scenario } {
+  try {
+    const scenario = loadScenario(file);
+    return { config: buildDemoConfiguration(scenario), scenario };
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(1);
+  }
 }
 
 /**
@@ -129,10 +371,48 @@ export function exitApp(code: number): void {
  */
 async function main(): Promise<void> {
   const args = parseCliFlags();
+  const command = cli.input[0];
+
+  const tuiOnly = args.record !== undefined || args.replay !== undefined || args.demo !== undefined;
+  if (tuiOnly && (command !== undefined || args.headless)) {
+    console.error('Error: --record, --replay and --demo are only available in the TUI');
+    process.exit(1);
+  }
+  if (args.record !== undefined && args.replay !== undefined) {
+    console.error('Error: --record and --replay cannot be combined');
+    process.exit(1);
+  }
+  if (args.demo !== undefined && args.replay !== undefined) {
+    console.error('Error: --demo and --replay cannot be combined');
+    process.exit(1);
+  }
+
+  if (command === 'check') {
+    await runCheckCommand(args);
+    return;
+  }
+  if (command === 'doctor') {
+    await runDoctorCommand(args);
+    return;
+  }
+  if (command === 'snapshot' && !SNAPSHOT_FORMATS.includes(cli.flags.format as SnapshotFormat)) {
+    console.error(
+      `Error: Invalid --format '${cli.flags.format}' (expected ${SNAPSHOT_FORMATS.join(', ')})`
+    );
+    process.exit(1);
+  }
+  if (command !== undefined && command !== 'snapshot') {
+    console.error(`Error: Unknown command '${command}'\n`);
+    console.log(cli.help);
+    process.exit(1);
+  }
+
+  const replay = args.replay !== undefined ? loadReplay(args.replay) : null;
+  const demo = args.demo !== undefined ? loadDemo(args.demo) : null;
 
   let config: Configuration;
   try {
-    config = parseConfiguration(args);
+    config = replay?.config ?? demo?.config ?? parseConfiguration(args);
   } catch (error) {
     if (error instanceof InsufficientArgumentsError) {
       console.error(`Error: ${error.message}\n`);
@@ -143,12 +423,38 @@ async function main(): Promise<void> {
     process.exit(1);
   }
 
+  if (command === 'snapshot') {
+    await runSnapshotCommand(config, cli.flags.format as SnapshotFormat);
+    return;
+  }
+
+  if (args.headless) {
+    await runHeadless(args, config);
+    return;
+  }
+
   // Check for interactive terminal
   if (!process.stdin.isTTY) {
-    console.error('Error: replmon requires an interactive terminal');
+    console.error('Error: replmon requires an interactive terminal (use --headless to run as a service)');
     process.exit(1);
   }
 
+  const recorder = args.record !== undefined ? startRecording(args.record, config) : null;
+
+  // Serve Prometheus metrics before taking over the screen so bind errors are visible
+  if (config.metrics.enabled) {
+    const metricsServer = createMetricsServer({
+      host: config.metrics.host,
+      port: config.metrics.port,
+    });
+    try {
+      await metricsServer.start();
+    } catch (error) {
+      console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+      process.exit(1);
+    }
+  }
+
   // Handle signals for graceful shutdown
   const handleSignal = (signal: string) => {
     // eslint-disable-next-line no-console
@@ -160,7 +466,14 @@ async function main(): Promise<void> {
   process.on('SIGTERM', () => handleSignal('SIGTERM'));
 
   // Render the application with fullscreen support (alternate screen buffer)
-  fullScreenApp = withFullScreen(createElement(App, { config }));
+  fullScreenApp = withFullScreen(
+    createElement(App, {
+      config,
+      ...(recorder && { recorder }),
+      ...(replay && { recording: replay.recording }),
+      ...(demo && { scenario: demo.scenario }),
+    })
+  );
   fullScreenApp.start();
 
   // Wait for the application to exit and then clean up
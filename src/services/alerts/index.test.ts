@@ -0,0 +1,229 @@
+/**
+ * Tests for AlertEngine state transitions and sample extraction
+ */
+import { describe, test, expect } from 'bun:test';
+import { AlertEngine, getHeldSeverity } from './index.js';
+import type { AlertSampleSet } from './index.js';
+import { DEFAULT_THRESHOLDS } from '../../config/defaults.js';
+import type { ResolvedThresholds } from '../../config/defaults.js';
+import type { NodeData, PollingCycleResult, SlotData } from '../polling/types.js';
+import type { AlertEvent } from '../../types/alerts.js';
+
+const T0 = new Date('2024-06-01T12:00:00Z');
+
+const thresholds: ResolvedThresholds = {
+  ...DEFAULT_THRESHOLDS,
+  replicationLag: { warning: 10, critical: 60 },
+};
+
+function at(seconds: number): Date {
+  return new Date(T0.getTime() + seconds * 1000);
+}
+
+/** Lag sample for standby "replica" on node "primary" */
+function lag(value: number | null): AlertSampleSet {
+  return {
+    samples:
+      value === null
+        ? []
+        : [{ metric: 'replication_lag', nodeId: 'primary', subject: 'replica', value }],
+    evaluated: new Set(['replication_lag:primary']),
+  };
+}
+
+const notEvaluated: AlertSampleSet = { samples: [], evaluated: new Set() };
+
+describe('AlertEngine', () => {
+  test('fires immediately when no for duration is configured', () => {
+    const engine = new AlertEngine(thresholds, { forSeconds: 0, hysteresis: 0.1, sinks: [] });
+    const { alerts, events } = engine.evaluateSamples(lag(15), T0);
+
+    expect(alerts).toHaveLength(1);
+    expect(alerts[0]!.state).toBe('firing');
+    expect(alerts[0]!.threshold).toBe(10);
+    expect(events.map((e) => [e.transition, e.severity])).toEqual([['firing', 'warning']]);
+  });
+
+  test('stays pending until the for duration has elapsed', () => {
+    const engine = new AlertEngine(thresholds, { forSeconds: 120, hysteresis: 0.1, sinks: [] });
+
+    expect(engine.evaluateSamples(lag(15), at(0)).alerts[0]!.state).toBe('pending');
+    expect(engine.evaluateSamples(lag(15), at(119)).events).toHaveLength(0);
+
+    const { alerts, events } = engine.evaluateSamples(lag(15), at(120));
+    expect(alerts[0]!.state).toBe('firing');
+    expect(alerts[0]!.pendingSince).toEqual(at(0));
+    expect(events[0]!.transition).toBe('firing');
+  });
+
+  test('drops a pending alert without a transition when the value recovers', () => {
+    const engine = new AlertEngine(thresholds, { forSeconds: 120, hysteresis: 0.1, sinks: [] });
+    engine.evaluateSamples(lag(15), at(0));
+
+    const { alerts, events } = engine.evaluateSamples(lag(5), at(60));
+    expect(alerts).toHaveLength(0);
+    expect(events).toHaveLength(0);
+
+    // The for duration restarts
+    expect(engine.evaluateSamples(lag(15), at(150)).alerts[0]!.state).toBe('pending');
+  });
+
+  test('holds a firing alert within the hysteresis band', () => {
+    const engine = new AlertEngine(thresholds, { forSeconds: 0, hysteresis: 0.1, sinks: [] });
+    engine.evaluateSamples(lag(15), at(0));
+
+    // 9.5 >= 10 * 0.9: still firing
+    const held = engine.evaluateSamples(lag(9.5), at(1));
+    expect(held.alerts[0]!.state).toBe('firing');
+    expect(held.events).toHaveLength(0);
+
+    // 8.9 < 9: resolved
+    const resolved = engine.evaluateSamples(lag(8.9), at(2));
+    expect(resolved.alerts).toHaveLength(0);
+    expect(resolved.events.map((e) => e.transition)).toEqual(['resolved']);
+    expect(resolved.events[0]!.firedAt).toEqual(at(0));
+  });
+
+  test('escalates and downgrades severity while firing', () => {
+    const engine = new AlertEngine(thresholds, { forSeconds: 60, hysteresis: 0.1, sinks: [] });
+    engine.evaluateSamples(lag(15), at(0));
+    engine.evaluateSamples(lag(15), at(60));
+
+    // Escalation does not wait for the for duration again
+    const escalated = engine.evaluateSamples(lag(70), at(61));
+    expect(escalated.events.map((e) => e.severity)).toEqual(['critical']);
+
+    // 55 is within critical hysteresis (54)
+    expect(engine.evaluateSamples(lag(55), at(62)).events).toHaveLength(0);
+
+    const downgraded = engine.evaluateSamples(lag(30), at(63));
+    expect(downgraded.alerts[0]!.severity).toBe('warning');
+    expect(downgraded.events.map((e) => [e.transition, e.severity])).toEqual([
+      ['firing', 'warning'],
+    ]);
+  });
+
+  test('resolves when the subject disappears from an evaluated node', () => {
+    const engine = new AlertEngine(thresholds, { forSeconds: 0, hysteresis: 0.1, sinks: [] });
+    engine.evaluateSamples(lag(15), at(0));
+
+    const { alerts, events } = engine.evaluateSamples(lag(null), at(1));
+    expect(alerts).toHaveLength(0);
+    expect(events.map((e) => e.transition)).toEqual(['resolved']);
+  });
+
+  test('keeps alerts for nodes that returned no data', () => {
+    const engine = new AlertEngine(thresholds, { forSeconds: 0, hysteresis: 0.1, sinks: [] });
+    engine.evaluateSamples(lag(15), at(0));
+
+    const { alerts, events } = engine.evaluateSamples(notEvaluated, at(1));
+    expect(alerts).toHaveLength(1);
+    expect(events).toHaveLength(0);
+  });
+
+  test('emits alert events to subscribers', () => {
+    const engine = new AlertEngine(thresholds, { forSeconds: 0, hysteresis: 0.1, sinks: [] });
+    const received: AlertEvent[] = [];
+    engine.on('alert', (event) => received.push(event));
+
+    engine.evaluateSamples(lag(15), at(0));
+    engine.evaluateSamples(lag(1), at(1));
+    expect(received.map((e) => e.transition)).toEqual(['firing', 'resolved']);
+  });
+
+  test('removeNode drops alerts without a transition', () => {
+    const engine = new AlertEngine(thresholds, { forSeconds: 0, hysteresis: 0.1, sinks: [] });
+    engine.evaluateSamples(lag(15), at(0));
+    engine.removeNode('primary');
+    expect(engine.getAlerts()).toHaveLength(0);
+  });
+});
+
+describe('getHeldSeverity', () => {
+  const levels = { warning: 100, critical: 200 };
+
+  test('critical holds down to the critical band', () => {
+    expect(getHeldSeverity(185, levels, 'critical', 0.1)).toBe('critical');
+    expect(getHeldSeverity(175, levels, 'critical', 0.1)).toBe('warning');
+  });
+
+  test('warning does not jump to critical inside the critical band', () => {
+    expect(getHeldSeverity(185, levels, 'warning', 0.1)).toBe('warning');
+  });
+});
+
+describe('collectSamples', () => {
+  function entry<T>(data: T, success = true): NodeData<T> {
+    return { nodeId: 'primary', nodeName: 'primary', success, data, durationMs: 5, hasPglogical: false };
+  }
+
+  const slot = {
+    nodeId: 'primary',
+    slotName: 'sub_slot',
+    retainedBytes: 2048,
+  } as SlotData;
+
+  function cycle(completedAt: Date, conflictTotal: number): PollingCycleResult {
+    return {
+      cycleId: 'c',
+      startedAt: completedAt,
+      completedAt,
+      durationMs: 0,
+      stats: [entry([])],
+      subscriptions: [entry([])],
+      slots: [entry([slot])],
+      conflicts: [
+        entry([
+          {
+            nodeId: 'primary',
+            subscriptionName: 'sub',
+            applyErrorCount: 0,
+            insertConflicts: conflictTotal,
+            updateOriginDiffers: 0,
+            updateExists: 0,
+            updateMissing: 0,
+            deleteOriginDiffers: 0,
+            deleteMissing: 0,
+            multipleUniqueConflicts: 0,
+            statsReset: null,
+            source: 'native' as const,
+            timestamp: completedAt,
+          },
+        ]),
+      ],
+      conflictEvents: [entry({ events: [], source: 'unavailable' as const })],
+      tableSync: [entry([])],
+      slotStats: [entry([])],
+      walReceivers: [entry([])],
+      walPositions: [entry([])],
+      publications: [entry([])],
+      sequences: [entry([])],
+      capabilities: [],
+    };
+  }
+
+  test('extracts slot retention and marks evaluated pairs', () => {
+    const engine = new AlertEngine(thresholds);
+    const { samples, evaluated } = engine.collectSamples(cycle(T0, 0));
+    expect(samples).toContainEqual({
+      metric: 'slot_retention',
+      nodeId: 'primary',
+      subject: 'sub_slot',
+      value: 2048,
+    });
+    expect(evaluated.has('replication_lag:primary')).toBe(true);
+    expect(evaluated.has('slot_retention:primary')).toBe(true);
+  });
+
+  test('derives conflict rate from native counters over the last minute', () => {
+    const engine = new AlertEngine(thresholds);
+    const rate = (set: AlertSampleSet): number | undefined =>
+      set.samples.find((s) => s.metric === 'conflict_rate')?.value;
+
+    expect(rate(engine.collectSamples(cycle(at(0), 100)))).toBe(0);
+    expect(rate(engine.collectSamples(cycle(at(30), 106)))).toBe(6);
+    expect(rate(engine.collectSamples(cycle(at(90), 110)))).toBe(4);
+    // Counter reset restarts the window
+    expect(rate(engine.collectSamples(cycle(at(91), 2)))).toBe(0);
+  });
+});
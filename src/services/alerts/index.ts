@@ -0,0 +1,439 @@
+/**
+ * AlertEngine
+ *
+ * Evaluates every polling cycle against the configured thresholds and tracks
+ * alert state across cycles.
+ *
+ * Features:
+ * - Replication lag per standby, WAL retention per slot, conflict rate per node
+ * - "for" duration: a threshold must stay exceeded before an alert fires
+ * - Hysteresis: a firing alert resolves (or downgrades) only once the value
+ *   drops a configured fraction below the threshold
+ * - Typed events for firing/resolved transitions
+ *
+ * Alerts for a node that returned no data keep their state, so a node outage
+ * does not resolve its alerts.
+ */
+
+import { EventEmitter } from 'events';
+
+import type { ResolvedAlertsConfig, ResolvedThresholds, ThresholdLevels } from '../../config/defaults.js';
+import { DEFAULT_ALERTS } from '../../config/defaults.js';
+import type { PollingCycleResult } from '../polling/types.js';
+import { totalConflicts } from '../../utils/conflicts.js';
+import type {
+  Alert,
+  AlertEvaluation,
+  AlertEvent,
+  AlertMetric,
+  AlertSeverity,
+  AlertTransition,
+} from '../../types/alerts.js';
+import type { AlertEngineEvents, AlertSample, AlertSampleSet } from './types.js';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Window for conflict rate calculation */
+const CONFLICT_WINDOW_MS = 60_000;
+
+// =============================================================================
+// TypedEventEmitter for AlertEngineEvents
+// =============================================================================
+
+/**
+ * Type-safe event emitter for alert engine events.
+ */
+class AlertEventEmitter {
+  private emitter: EventEmitter;
+
+  constructor() {
+    this.emitter = new EventEmitter();
+  }
+
+  on<K extends keyof AlertEngineEvents>(
+    event: K,
+    handler: (payload: AlertEngineEvents[K]) => void
+  ): void {
+    this.emitter.on(event, handler);
+  }
+
+  off<K extends keyof AlertEngineEvents>(
+    event: K,
+    handler: (payload: AlertEngineEvents[K]) => void
+  ): void {
+    this.emitter.off(event, handler);
+  }
+
+  emit<K extends keyof AlertEngineEvents>(event: K, payload: AlertEngineEvents[K]): boolean {
+    return this.emitter.emit(event, payload);
+  }
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Build the stable alert identifier for a metric/node/subject.
+ */
+export function getAlertId(metric: AlertMetric, nodeId: string, subject: string | null): string {
+  return `${metric}:${nodeId}:${subject ?? ''}`;
+}
+
+/**
+ * Get threshold levels for a metric.
+ */
+function levelsFor(metric: AlertMetric, thresholds: ResolvedThresholds): ThresholdLevels {
+  switch (metric) {
+    case 'replication_lag':
+      return thresholds.replicationLag;
+    case 'slot_retention':
+      return thresholds.slotRetention;
+    case 'conflict_rate':
+      return thresholds.conflictRate;
+  }
+}
+
+/**
+ * Severity of a value without hysteresis (thresholds are inclusive).
+ */
+export function getAlertSeverity(value: number, levels: ThresholdLevels): AlertSeverity | null {
+  if (value >= levels.critical) return 'critical';
+  if (value >= levels.warning) return 'warning';
+  return null;
+}
+
+/**
+ * Severity of a value for an alert that is already firing.
+ * Each level is held until the value drops below level * (1 - hysteresis).
+ */
+export function getHeldSeverity(
+  value: number,
+  levels: ThresholdLevels,
+  current: AlertSeverity,
+  hysteresis: number
+): AlertSeverity | null {
+  const factor = 1 - hysteresis;
+  if (value >= levels.critical) return 'critical';
+  if (current === 'critical' && value >= levels.critical * factor) return 'critical';
+  if (value >= levels.warning * factor) return 'warning';
+  return null;
+}
+
+function toEvent(alert: Alert, transition: AlertTransition, now: Date): AlertEvent {
+  return {
+    id: `${alert.id}@${now.getTime()}`,
+    alertId: alert.id,
+    metric: alert.metric,
+    nodeId: alert.nodeId,
+    subject: alert.subject,
+    severity: alert.severity,
+    transition,
+    value: alert.value,
+    threshold: alert.threshold,
+    firedAt: alert.firedAt ?? now,
+    timestamp: now,
+  };
+}
+
+// =============================================================================
+// AlertEngine Class
+// =============================================================================
+
+/**
+ * Stateful threshold evaluator, fed one polling cycle at a time.
+ */
+export class AlertEngine {
+  private thresholds: ResolvedThresholds;
+  private config: ResolvedAlertsConfig;
+  private readonly events: AlertEventEmitter;
+  private readonly alerts: Map<string, Alert>;
+  /** Native conflict totals per node within the rate window */
+  private readonly conflictTotals: Map<string, Array<{ at: number; total: number }>>;
+
+  constructor(thresholds: ResolvedThresholds, config: ResolvedAlertsConfig = DEFAULT_ALERTS) {
+    this.thresholds = thresholds;
+    this.config = config;
+    this.events = new AlertEventEmitter();
+    this.alerts = new Map();
+    this.conflictTotals = new Map();
+  }
+
+  // ===========================================================================
+  // Evaluation
+  // ===========================================================================
+
+  /**
+   * Evaluate a polling cycle and update alert state.
+   *
+   * @param result - Polling cycle result
+   * @returns Active alerts and transitions from this cycle
+   */
+  evaluate(result: PollingCycleResult): AlertEvaluation {
+    return this.evaluateSamples(this.collectSamples(result), result.completedAt);
+  }
+
+  /**
+   * Evaluate pre-extracted samples and update alert state.
+   *
+   * @param sampleSet - Samples and the node/metric pairs that were measured
+   * @param now - Evaluation time
+   * @returns Active alerts and transitions from this evaluation
+   */
+  evaluateSamples(sampleSet: AlertSampleSet, now: Date): AlertEvaluation {
+    const events: AlertEvent[] = [];
+    const seen = new Set<string>();
+    const forMs = this.config.forSeconds * 1000;
+
+    for (const sample of sampleSet.samples) {
+      const id = getAlertId(sample.metric, sample.nodeId, sample.subject);
+      const levels = levelsFor(sample.metric, this.thresholds);
+      const previous = this.alerts.get(id);
+      seen.add(id);
+
+      if (previous?.state === 'firing') {
+        const severity = getHeldSeverity(
+          sample.value,
+          levels,
+          previous.severity,
+          this.config.hysteresis
+        );
+        if (severity === null) {
+          this.alerts.delete(id);
+          events.push(toEvent({ ...previous, value: sample.value }, 'resolved', now));
+          continue;
+        }
+
+        const next: Alert = {
+          ...previous,
+          severity,
+          value: sample.value,
+          threshold: levels[severity],
+          lastEvaluatedAt: now,
+        };
+        this.alerts.set(id, next);
+        if (severity !== previous.severity) {
+          events.push(toEvent(next, 'firing', now));
+        }
+        continue;
+      }
+
+      const severity = getAlertSeverity(sample.value, levels);
+      if (severity === null) {
+        // Pending alerts are dropped without a transition
+        this.alerts.delete(id);
+        continue;
+      }
+
+      const pendingSince = previous?.pendingSince ?? now;
+      const alert: Alert = {
+        id,
+        metric: sample.metric,
+        nodeId: sample.nodeId,
+        subject: sample.subject,
+        severity,
+        state: 'pending',
+        value: sample.value,
+        threshold: levels[severity],
+        pendingSince,
+        firedAt: null,
+        lastEvaluatedAt: now,
+      };
+      if (now.getTime() - pendingSince.getTime() >= forMs) {
+        alert.state = 'firing';
+        alert.firedAt = now;
+        events.push(toEvent(alert, 'firing', now));
+      }
+      this.alerts.set(id, alert);
+    }
+
+    // Subjects that disappeared from a node that did report (e.g., dropped slot)
+    for (const [id, alert] of this.alerts) {
+      if (seen.has(id) || !sampleSet.evaluated.has(`${alert.metric}:${alert.nodeId}`)) {
+        continue;
+      }
+      this.alerts.delete(id);
+      if (alert.state === 'firing') {
+        events.push(toEvent(alert, 'resolved', now));
+      }
+    }
+
+    for (const event of events) {
+      this.events.emit('alert', event);
+    }
+
+    const evaluation: AlertEvaluation = { alerts: this.getAlerts(), events };
+    this.events.emit('evaluated', evaluation);
+    return evaluation;
+  }
+
+  /**
+   * Extract alert samples from a polling cycle.
+   */
+  collectSamples(result: PollingCycleResult): AlertSampleSet {
+    const samples: AlertSample[] = [];
+    const evaluated = new Set<string>();
+    const now = result.completedAt.getTime();
+
+    for (const nodeData of result.stats) {
+      if (!nodeData.success || !nodeData.data) continue;
+      evaluated.add(`replication_lag:${nodeData.nodeId}`);
+      for (const stat of nodeData.data) {
+        if (stat.lagSeconds === null) continue;
+        samples.push({
+          metric: 'replication_lag',
+          nodeId: nodeData.nodeId,
+          subject: stat.applicationName,
+          value: stat.lagSeconds,
+        });
+      }
+    }
+
+    for (const nodeData of result.slots) {
+      if (!nodeData.success || !nodeData.data) continue;
+      evaluated.add(`slot_retention:${nodeData.nodeId}`);
+      for (const slot of nodeData.data) {
+        samples.push({
+          metric: 'slot_retention',
+          nodeId: nodeData.nodeId,
+          subject: slot.slotName,
+          value: slot.retainedBytes,
+        });
+      }
+    }
+
+    // Conflict rate: pglogical records in the window, else native counter deltas
+    for (const nodeData of result.conflictEvents) {
+      if (!nodeData.success || !nodeData.data || nodeData.data.source === 'unavailable') {
+        continue;
+      }
+      const since = now - CONFLICT_WINDOW_MS;
+      const count = nodeData.data.events.filter(
+        (event) => event.recordedAt.getTime() >= since
+      ).length;
+      evaluated.add(`conflict_rate:${nodeData.nodeId}`);
+      samples.push({ metric: 'conflict_rate', nodeId: nodeData.nodeId, subject: null, value: count });
+    }
+
+    for (const nodeData of result.conflicts) {
+      if (!nodeData.success || !nodeData.data) continue;
+      if (evaluated.has(`conflict_rate:${nodeData.nodeId}`)) continue;
+      const native = nodeData.data.filter((row) => row.source === 'native');
+      if (native.length === 0) continue;
+      evaluated.add(`conflict_rate:${nodeData.nodeId}`);
+      let total = 0;
+      for (const row of native) total += totalConflicts(row);
+      samples.push({
+        metric: 'conflict_rate',
+        nodeId: nodeData.nodeId,
+        subject: null,
+        value: this.nativeConflictRate(nodeData.nodeId, total, now),
+      });
+    }
+
+    return { samples, evaluated };
+  }
+
+  // ===========================================================================
+  // State
+  // ===========================================================================
+
+  /**
+   * Get all active alerts.
+   */
+  getAlerts(): Alert[] {
+    return Array.from(this.alerts.values());
+  }
+
+  /**
+   * Replace thresholds and alert settings (e.g., after a config reload).
+   * Active alerts are re-evaluated against the new values on the next cycle.
+   */
+  configure(thresholds: ResolvedThresholds, config: ResolvedAlertsConfig): void {
+    this.thresholds = thresholds;
+    this.config = config;
+  }
+
+  /**
+   * Forget all state for a node removed from the configuration.
+   * Its alerts are dropped without a resolved transition.
+   */
+  removeNode(nodeId: string): void {
+    for (const [id, alert] of this.alerts) {
+      if (alert.nodeId === nodeId) {
+        this.alerts.delete(id);
+      }
+    }
+    this.conflictTotals.delete(nodeId);
+  }
+
+  // ===========================================================================
+  // Event Subscription
+  // ===========================================================================
+
+  /**
+   * Subscribe to an alert engine event.
+   */
+  on<K extends keyof AlertEngineEvents>(
+    event: K,
+    handler: (payload: AlertEngineEvents[K]) => void
+  ): void {
+    this.events.on(event, handler);
+  }
+
+  /**
+   * Unsubscribe from an alert engine event.
+   */
+  off<K extends keyof AlertEngineEvents>(
+    event: K,
+    handler: (payload: AlertEngineEvents[K]) => void
+  ): void {
+    this.events.off(event, handler);
+  }
+
+  // ===========================================================================
+  // Private
+  // ===========================================================================
+
+  /**
+   * Conflicts counted by native counters within the rate window.
+   * A counter reset (stats_reset) restarts the window.
+   */
+  private nativeConflictRate(nodeId: string, total: number, now: number): number {
+    const history = this.conflictTotals.get(nodeId) ?? [];
+    const last = history[history.length - 1];
+    const window =
+      last && total < last.total
+        ? []
+        : history.filter((sample) => sample.at >= now - CONFLICT_WINDOW_MS);
+    window.push({ at: now, total });
+    this.conflictTotals.set(nodeId, window);
+    return total - window[0]!.total;
+  }
+}
+
+// =============================================================================
+// Factory Function
+// =============================================================================
+
+/**
+ * Create a new AlertEngine instance.
+ *
+ * @param thresholds - Resolved thresholds from configuration
+ * @param config - Alert settings (for duration, hysteresis)
+ * @returns AlertEngine instance
+ */
+export function createAlertEngine(
+  thresholds: ResolvedThresholds,
+  config?: ResolvedAlertsConfig
+): AlertEngine {
+  return new AlertEngine(thresholds, config);
+}
+
+// =============================================================================
+// Re-exports
+// =============================================================================
+
+export type { AlertEngineEvents, AlertSample, AlertSampleSet } from './types.js';
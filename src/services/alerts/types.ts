@@ -0,0 +1,52 @@
+/**
+ * Alert Engine Types
+ *
+ * Type definitions for the AlertEngine, which evaluates polling cycles
+ * against configured thresholds.
+ */
+
+import type { AlertEvent, AlertEvaluation, AlertMetric } from '../../types/alerts.js';
+
+// =============================================================================
+// Samples
+// =============================================================================
+
+/**
+ * A single measured value extracted from a polling cycle.
+ */
+export interface AlertSample {
+  /** Metric the value belongs to */
+  metric: AlertMetric;
+  /** Node the value was measured on */
+  nodeId: string;
+  /** Standby application name or slot name (null for node-level metrics) */
+  subject: string | null;
+  /** Value in canonical units (seconds, bytes, conflicts/min) */
+  value: number;
+}
+
+/**
+ * Samples from one polling cycle, with the node/metric pairs that were
+ * actually measured. Alerts for pairs that were not measured (node down)
+ * keep their state instead of resolving.
+ */
+export interface AlertSampleSet {
+  /** Measured values */
+  samples: AlertSample[];
+  /** `${metric}:${nodeId}` pairs that returned data this cycle */
+  evaluated: Set<string>;
+}
+
+// =============================================================================
+// Events
+// =============================================================================
+
+/**
+ * Event map for the AlertEngine typed EventEmitter.
+ */
+export interface AlertEngineEvents {
+  /** An alert fired, changed severity while firing, or resolved */
+  alert: AlertEvent;
+  /** A polling cycle was evaluated */
+  evaluated: AlertEvaluation;
+}
@@ -0,0 +1,213 @@
+/**
+ * Tests for `replmon check` evaluation and plugin output
+ */
+import { describe, test, expect } from 'bun:test';
+import {
+  evaluateCheck,
+  formatCheckOutput,
+  formatPerfdata,
+  conflictRatePerMinute,
+} from './evaluate.js';
+import { DEFAULT_THRESHOLDS } from '../../config/defaults.js';
+import type { ResolvedThresholds } from '../../config/defaults.js';
+import type { ReplicationStats, SlotData, ConflictData } from '../polling/types.js';
+import type { ConflictEvent } from '../../types/conflicts.js';
+import type { CheckNodeResult } from './types.js';
+
+const NOW = new Date('2024-06-01T12:00:00Z');
+
+const thresholds: ResolvedThresholds = {
+  replicationLag: { warning: 10, critical: 60 },
+  slotRetention: { warning: 1024, critical: 4096 },
+  conflictRate: { warning: 5, critical: 20 },
+};
+
+function node(overrides: Partial<CheckNodeResult> = {}): CheckNodeResult {
+  return {
+    nodeId: 'primary',
+    success: true,
+    stats: [],
+    slots: [],
+    conflicts: [],
+    conflictEvents: [],
+    conflictEventSource: 'unavailable',
+    ...overrides,
+  };
+}
+
+function stat(applicationName: string, lagSeconds: number | null): ReplicationStats {
+  return {
+    nodeId: 'primary',
+    applicationName,
+    clientAddr: null,
+    state: 'streaming',
+    lagBytes: 0,
+    lagSeconds,
+    syncState: 'async',
+    sentLsn: '0/0',
+    writeLsn: '0/0',
+    flushLsn: '0/0',
+    replayLsn: '0/0',
+    timestamp: NOW,
+  };
+}
+
+function slot(slotName: string, retainedBytes: number): SlotData {
+  return {
+    nodeId: 'primary',
+    slotName,
+    plugin: 'pgoutput',
+    slotType: 'logical',
+    database: 'app',
+    active: true,
+    activePid: null,
+    retainedBytes,
+    pendingBytes: 0,
+    confirmedFlushLsn: null,
+    walStatus: 'reserved',
+    xminAge: null,
+    catalogXminAge: null,
+    safeWalSize: null,
+    maxSlotWalKeepSize: null,
+    twoPhase: null,
+    inactiveSince: null,
+    blocker: null,
+    isStale: false,
+    timestamp: NOW,
+  };
+}
+
+function conflictEvent(secondsAgo: number): ConflictEvent {
+  return {
+    id: `c-${secondsAgo}`,
+    nodeId: 'primary',
+    recordedAt: new Date(NOW.getTime() - secondsAgo * 1000),
+    subscriptionName: 'sub1',
+    conflictType: 'insert_insert',
+    resolution: 'apply_remote',
+    schemaName: 'public',
+    tableName: 'users',
+    indexName: null,
+    localTuple: null,
+    remoteTuple: null,
+    localCommitTs: null,
+    remoteCommitTs: null,
+    remoteLsn: null,
+    source: 'history',
+  };
+}
+
+describe('evaluateCheck', () => {
+  test('returns OK when all metrics are below warning', () => {
+    const report = evaluateCheck(
+      [node({ stats: [stat('replica1', 2)], slots: [slot('sub1', 100)] })],
+      thresholds,
+      NOW
+    );
+    expect(report.status).toBe('OK');
+    expect(report.metrics).toHaveLength(2);
+  });
+
+  test('compares lag inclusively against warning and critical', () => {
+    const report = evaluateCheck(
+      [node({ stats: [stat('a', 10), stat('b', 60), stat('c', null)] })],
+      thresholds,
+      NOW
+    );
+    expect(report.metrics.map((m) => m.status)).toEqual(['WARNING', 'CRITICAL']);
+    expect(report.status).toBe('CRITICAL');
+  });
+
+  test('evaluates slot retention in bytes', () => {
+    const report = evaluateCheck([node({ slots: [slot('sub1', 2048)] })], thresholds, NOW);
+    expect(report.status).toBe('WARNING');
+    expect(report.metrics[0]!.unit).toBe('B');
+  });
+
+  test('reports unreachable nodes as UNKNOWN', () => {
+    const report = evaluateCheck(
+      [node({ success: false, error: new Error('connection refused') })],
+      thresholds,
+      NOW
+    );
+    expect(report.status).toBe('UNKNOWN');
+    expect(report.problems[0]!.message).toContain('connection refused');
+  });
+
+  test('critical metrics outrank unreachable nodes', () => {
+    const report = evaluateCheck(
+      [
+        node({ stats: [stat('replica1', 120)] }),
+        node({ nodeId: 'standby', success: false }),
+      ],
+      thresholds,
+      NOW
+    );
+    expect(report.status).toBe('CRITICAL');
+  });
+
+  test('returns UNKNOWN with no nodes', () => {
+    expect(evaluateCheck([], DEFAULT_THRESHOLDS, NOW).status).toBe('UNKNOWN');
+  });
+});
+
+describe('conflictRatePerMinute', () => {
+  test('counts pglogical conflict records in the last minute', () => {
+    const result = node({
+      conflictEventSource: 'history',
+      conflictEvents: [conflictEvent(5), conflictEvent(30), conflictEvent(90)],
+    });
+    expect(conflictRatePerMinute(result, NOW)).toBe(2);
+  });
+
+  test('averages native counters since stats reset', () => {
+    const conflicts: ConflictData = {
+      nodeId: 'primary',
+      subscriptionName: 'sub1',
+      applyErrorCount: 0,
+      insertConflicts: 20,
+      updateOriginDiffers: 0,
+      updateExists: 10,
+      updateMissing: 0,
+      deleteOriginDiffers: 0,
+      deleteMissing: 0,
+      multipleUniqueConflicts: 0,
+      statsReset: new Date(NOW.getTime() - 10 * 60_000),
+      source: 'native',
+      timestamp: NOW,
+    };
+    expect(conflictRatePerMinute(node({ conflicts: [conflicts] }), NOW)).toBe(3);
+  });
+
+  test('returns null without a conflict source', () => {
+    expect(conflictRatePerMinute(node(), NOW)).toBeNull();
+  });
+});
+
+describe('formatCheckOutput', () => {
+  test('formats perfdata with unit and thresholds', () => {
+    const report = evaluateCheck([node({ stats: [stat("it's", 1.23456)] })], thresholds, NOW);
+    expect(formatPerfdata(report.metrics[0]!)).toBe("'primary:it''s lag'=1.235s;10;60;0");
+  });
+
+  test('prints a single status line when OK', () => {
+    const report = evaluateCheck([node({ slots: [slot('sub1', 10)] })], thresholds, NOW);
+    expect(formatCheckOutput(report)).toBe(
+      "REPLMON OK - 1 node(s), 1 metric(s) within thresholds | 'primary:sub1 retained'=10B;1024;4096;0"
+    );
+  });
+
+  test('lists every failing item as long output, worst first', () => {
+    const report = evaluateCheck(
+      [node({ stats: [stat('a', 15)], slots: [slot('sub1', 5000)] })],
+      thresholds,
+      NOW
+    );
+    const lines = formatCheckOutput(report).split('\n');
+    expect(lines[0]).toStartWith('REPLMON CRITICAL - primary:sub1 retained 4.9 KB (+1 more) |');
+    expect(lines.slice(1)).toEqual([
+      'CRITICAL: primary:sub1 retained 4.9 KB',
+      'WARNING: primary:a lag 15.0s',
+    ]);
+  });
+});
@@ -0,0 +1,242 @@
+/**
+ * Check Evaluation
+ *
+ * Pure functions that turn one poll of every node into a monitoring plugin
+ * result: per-metric status against the configured thresholds, an overall
+ * status, and plugin output with perfdata.
+ *
+ * Metrics:
+ * - Replication lag per pg_stat_replication row (seconds)
+ * - WAL retained per replication slot (bytes)
+ * - Conflict rate per node (conflicts per minute)
+ *
+ * Conflict rate comes from pglogical conflict records in the last minute when
+ * a conflict source is available. Otherwise native PG16+ counters are averaged
+ * over the time since stats_reset, since a single poll has no previous sample.
+ */
+
+import type { ResolvedThresholds, ThresholdLevels } from '../../config/defaults.js';
+import { formatLag } from '../../utils/topology.js';
+import { formatBytes } from '../../utils/format.js';
+import { totalConflicts } from '../../utils/conflicts.js';
+import type {
+  CheckMetric,
+  CheckNodeResult,
+  CheckReport,
+  CheckStatus,
+  PerfUnit,
+} from './types.js';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Window for counting individual conflict records */
+const CONFLICT_WINDOW_MS = 60_000;
+
+/**
+ * Aggregation order: a critical metric outranks an unreachable node, which
+ * outranks a warning.
+ */
+const STATUS_RANK: Record<CheckStatus, number> = {
+  OK: 0,
+  WARNING: 1,
+  UNKNOWN: 2,
+  CRITICAL: 3,
+};
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Compare a value against warning/critical levels (inclusive).
+ */
+export function statusForValue(value: number, levels: ThresholdLevels): CheckStatus {
+  if (value >= levels.critical) return 'CRITICAL';
+  if (value >= levels.warning) return 'WARNING';
+  return 'OK';
+}
+
+/**
+ * Pick the more severe of two statuses.
+ */
+export function worstStatus(a: CheckStatus, b: CheckStatus): CheckStatus {
+  return STATUS_RANK[b] > STATUS_RANK[a] ? b : a;
+}
+
+/**
+ * Conflicts per minute for a node, or null when no source is available.
+ */
+export function conflictRatePerMinute(node: CheckNodeResult, now: Date): number | null {
+  if (node.conflictEventSource !== 'unavailable') {
+    const since = now.getTime() - CONFLICT_WINDOW_MS;
+    const recent = node.conflictEvents.filter((event) => event.recordedAt.getTime() >= since);
+    return recent.length / (CONFLICT_WINDOW_MS / 60_000);
+  }
+
+  const native = node.conflicts.filter((row) => row.source === 'native' && row.statsReset);
+  if (native.length === 0) {
+    return null;
+  }
+
+  let rate = 0;
+  for (const row of native) {
+    const minutes = (now.getTime() - row.statsReset!.getTime()) / 60_000;
+    if (minutes > 0) {
+      rate += totalConflicts(row) / minutes;
+    }
+  }
+  return rate;
+}
+
+function metric(
+  label: string,
+  value: number,
+  unit: PerfUnit,
+  levels: ThresholdLevels,
+  describe: (value: number) => string
+): CheckMetric {
+  const status = statusForValue(value, levels);
+  return {
+    label,
+    value,
+    unit,
+    warning: levels.warning,
+    critical: levels.critical,
+    status,
+    message: `${label} ${describe(value)}`,
+  };
+}
+
+// =============================================================================
+// Evaluation
+// =============================================================================
+
+/**
+ * Evaluate one poll of every node against thresholds.
+ *
+ * @param nodes - Per-node poll results
+ * @param thresholds - Resolved thresholds from configuration
+ * @param now - Reference time for conflict rate windows
+ * @returns Check report with overall status
+ */
+export function evaluateCheck(
+  nodes: CheckNodeResult[],
+  thresholds: ResolvedThresholds,
+  now: Date = new Date()
+): CheckReport {
+  const metrics: CheckMetric[] = [];
+  const problems: CheckReport['problems'] = [];
+
+  for (const node of nodes) {
+    if (!node.success) {
+      problems.push({
+        status: 'UNKNOWN',
+        message: `${node.nodeId} unreachable${node.error ? `: ${node.error.message}` : ''}`,
+      });
+      continue;
+    }
+
+    for (const stat of node.stats) {
+      if (stat.lagSeconds === null) continue;
+      metrics.push(
+        metric(
+          `${node.nodeId}:${stat.applicationName} lag`,
+          stat.lagSeconds,
+          's',
+          thresholds.replicationLag,
+          (value) => formatLag(value)
+        )
+      );
+    }
+
+    for (const slot of node.slots) {
+      metrics.push(
+        metric(
+          `${node.nodeId}:${slot.slotName} retained`,
+          slot.retainedBytes,
+          'B',
+          thresholds.slotRetention,
+          (value) => formatBytes(value)
+        )
+      );
+    }
+
+    const rate = conflictRatePerMinute(node, now);
+    if (rate !== null) {
+      metrics.push(
+        metric(
+          `${node.nodeId} conflict rate`,
+          rate,
+          '',
+          thresholds.conflictRate,
+          (value) => `${value.toFixed(1)}/min`
+        )
+      );
+    }
+  }
+
+  let status: CheckStatus = nodes.length === 0 ? 'UNKNOWN' : 'OK';
+  for (const item of [...metrics, ...problems]) {
+    status = worstStatus(status, item.status);
+  }
+
+  return { status, metrics, problems, nodeCount: nodes.length };
+}
+
+// =============================================================================
+// Output
+// =============================================================================
+
+/**
+ * Format a number for perfdata (no exponent, at most 3 decimals).
+ */
+function perfNumber(value: number): string {
+  return String(Math.round(value * 1000) / 1000);
+}
+
+/**
+ * Format a metric as a perfdata entry: 'label'=value[uom];warn;crit;0
+ */
+export function formatPerfdata(item: CheckMetric): string {
+  const label = item.label.replace(/'/g, "''");
+  return `'${label}'=${perfNumber(item.value)}${item.unit};${perfNumber(item.warning)};${perfNumber(item.critical)};0`;
+}
+
+/**
+ * Render a report as monitoring plugin output.
+ *
+ * The first line carries status, summary, and all perfdata; non-OK items
+ * follow as long output, one per line.
+ *
+ * @param report - Evaluated check report
+ * @returns Plugin output text (without trailing newline)
+ */
+export function formatCheckOutput(report: CheckReport): string {
+  const failing = [
+    ...report.problems,
+    ...report.metrics.filter((item) => item.status !== 'OK'),
+  ].sort((a, b) => STATUS_RANK[b.status] - STATUS_RANK[a.status]);
+
+  let summary: string;
+  if (report.nodeCount === 0) {
+    summary = 'no nodes configured';
+  } else if (failing.length === 0) {
+    summary = `${report.nodeCount} node(s), ${report.metrics.length} metric(s) within thresholds`;
+  } else {
+    const first = failing[0]!;
+    summary =
+      failing.length === 1 ? first.message : `${first.message} (+${failing.length - 1} more)`;
+  }
+
+  const perfdata = report.metrics.map(formatPerfdata).join(' ');
+  const lines = [`REPLMON ${report.status} - ${summary}${perfdata ? ` | ${perfdata}` : ''}`];
+  if (failing.length > 1) {
+    for (const item of failing) {
+      lines.push(`${item.status}: ${item.message}`);
+    }
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,121 @@
+/**
+ * Check Runner
+ *
+ * One-shot `replmon check` for Nagios/Icinga-style monitoring: connects to
+ * every configured node, polls once through the same query modules as the
+ * PollingService, evaluates the result against the configured thresholds,
+ * and disconnects.
+ *
+ * Exit codes follow the plugin API: 0 OK, 1 WARNING, 2 CRITICAL, 3 UNKNOWN.
+ */
+
+import { ConnectionManager } from '../connection-manager/index.js';
+import { probeCapabilities } from '../polling/capabilities.js';
+import { executeAllQueries } from '../polling/queries/index.js';
+import { execute as executeConflictEvents } from '../polling/queries/pglogical-conflicts.js';
+import type { QueryFn } from '../polling/types.js';
+import type { Configuration } from '../../types/config.js';
+import { evaluateCheck } from './evaluate.js';
+import type { CheckNodeResult, CheckOptions, CheckReport } from './types.js';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Default connection timeout per node in milliseconds */
+const DEFAULT_TIMEOUT_MS = 10000;
+
+// =============================================================================
+// Polling
+// =============================================================================
+
+/**
+ * Poll a single node once. Never throws; failures are reported in the result.
+ */
+async function pollNode(manager: ConnectionManager, nodeId: string): Promise<CheckNodeResult> {
+  const queryFn: QueryFn = async <R>(sql: string, params?: unknown[]): Promise<R[]> => {
+    return manager.query<R>(nodeId, sql, params);
+  };
+
+  try {
+    // Query modules swallow their own errors, but the capability probe
+    // throws when the node can't be queried
+    const capabilities = await probeCapabilities(nodeId, queryFn);
+    const conflictEventSource = capabilities.conflictHistory ? 'history' : 'unavailable';
+    const results = await executeAllQueries(nodeId, queryFn, capabilities);
+    const conflictEvents = await executeConflictEvents(nodeId, queryFn, conflictEventSource);
+
+    return {
+      nodeId,
+      success: true,
+      stats: results.stats,
+      slots: results.slots,
+      conflicts: results.conflicts,
+      conflictEvents,
+      conflictEventSource,
+    };
+  } catch (error) {
+    return {
+      nodeId,
+      success: false,
+      error: error instanceof Error ? error : new Error(String(error)),
+      stats: [],
+      slots: [],
+      conflicts: [],
+      conflictEvents: [],
+      conflictEventSource: 'unavailable',
+    };
+  }
+}
+
+/**
+ * Connect to every configured node, poll once, and evaluate thresholds.
+ *
+ * @param config - Resolved configuration (nodes and thresholds)
+ * @param options - Connection timeout and clock override
+ * @returns Evaluated check report
+ */
+export async function runCheck(
+  config: Configuration,
+  options: CheckOptions = {}
+): Promise<CheckReport> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const manager = new ConnectionManager({
+    // Health checks are irrelevant for a single poll
+    healthCheckIntervalMs: 60000,
+    queryTimeoutMs: timeoutMs,
+    shutdownTimeoutMs: 1000,
+  });
+
+  try {
+    await manager.initialize(
+      Object.entries(config.nodes).map(([id, node]) => ({
+        id,
+        config: {
+          host: node.host,
+          port: node.port,
+          database: node.database,
+          user: node.user,
+          name: node.name ?? id,
+          ...(node.password !== undefined && { password: node.password }),
+          pool: { max: 2, connectionTimeoutMs: timeoutMs },
+        },
+      }))
+    );
+
+    const nodes = await Promise.all(
+      Object.keys(config.nodes).map((nodeId) => pollNode(manager, nodeId))
+    );
+    return evaluateCheck(nodes, config.thresholds, options.now ?? new Date());
+  } finally {
+    await manager.shutdown();
+  }
+}
+
+// =============================================================================
+// Re-exports
+// =============================================================================
+
+export { evaluateCheck, formatCheckOutput } from './evaluate.js';
+export { CHECK_EXIT_CODES } from './types.js';
+export type { CheckStatus, CheckMetric, CheckReport, CheckNodeResult, CheckOptions } from './types.js';
@@ -0,0 +1,111 @@
+/**
+ * Check Command Types
+ *
+ * Type definitions for the one-shot `replmon check` monitoring plugin.
+ */
+
+import type {
+  ReplicationStats,
+  SlotData,
+  ConflictData,
+  ConflictEventSource,
+} from '../polling/types.js';
+import type { ConflictEvent } from '../../types/conflicts.js';
+
+// =============================================================================
+// Status
+// =============================================================================
+
+/**
+ * Monitoring plugin status (Nagios/Icinga plugin API).
+ */
+export type CheckStatus = 'OK' | 'WARNING' | 'CRITICAL' | 'UNKNOWN';
+
+/**
+ * Process exit code for each status.
+ */
+export const CHECK_EXIT_CODES: Record<CheckStatus, number> = {
+  OK: 0,
+  WARNING: 1,
+  CRITICAL: 2,
+  UNKNOWN: 3,
+};
+
+// =============================================================================
+// Input
+// =============================================================================
+
+/**
+ * Result of polling a single node once.
+ */
+export interface CheckNodeResult {
+  /** Node identifier */
+  nodeId: string;
+  /** Whether the node answered */
+  success: boolean;
+  /** Connection or query error when success=false */
+  error?: Error;
+  /** pg_stat_replication rows */
+  stats: ReplicationStats[];
+  /** Replication slots */
+  slots: SlotData[];
+  /** Aggregate conflict stats (PG16+ native) */
+  conflicts: ConflictData[];
+  /** Individual conflict records (pglogical) */
+  conflictEvents: ConflictEvent[];
+  /** Where conflictEvents came from */
+  conflictEventSource: ConflictEventSource;
+}
+
+// =============================================================================
+// Output
+// =============================================================================
+
+/**
+ * Unit of measurement for perfdata values.
+ */
+export type PerfUnit = 's' | 'B' | '';
+
+/**
+ * A single evaluated metric, rendered as one perfdata entry.
+ */
+export interface CheckMetric {
+  /** Perfdata label (e.g., "primary:sub1 lag") */
+  label: string;
+  /** Measured value in canonical units */
+  value: number;
+  /** Unit of measurement */
+  unit: PerfUnit;
+  /** Warning threshold in the same units */
+  warning: number;
+  /** Critical threshold in the same units */
+  critical: number;
+  /** Status of this metric against its thresholds */
+  status: CheckStatus;
+  /** Human-readable description for plugin output */
+  message: string;
+}
+
+/**
+ * Complete check result.
+ */
+export interface CheckReport {
+  /** Overall status */
+  status: CheckStatus;
+  /** Evaluated metrics */
+  metrics: CheckMetric[];
+  /** Problems that have no metric (unreachable nodes) */
+  problems: Array<{ status: CheckStatus; message: string }>;
+  /** Number of nodes checked */
+  nodeCount: number;
+}
+
+/**
+ * Options for running a check against live nodes.
+ */
+export interface CheckOptions {
+  /** Per-node connection timeout in milliseconds (default: 10000) */
+  timeoutMs?: number;
+  /** Clock override for conflict rate windows (tests) */
+  now?: Date;
+}
@@ -0,0 +1,343 @@
+/**
+ * Tests for the doctor checks and report output
+ */
+import { describe, test, expect } from 'bun:test';
+import { runDoctorChecks, formatDoctorOutput, getDoctorExitCode } from './checks.js';
+import type { DoctorNodeInput } from './types.js';
+import type {
+  NodeCapabilities,
+  PublicationData,
+  SlotData,
+  SubscriptionData,
+  WalReceiverData,
+} from '../polling/types.js';
+
+const NOW = new Date('2024-06-01T12:00:00Z');
+const MB = 1024 * 1024;
+
+function capabilities(overrides: Partial<NodeCapabilities> = {}): NodeCapabilities {
+  return {
+    nodeId: 'provider',
+    versionNum: 170002,
+    version: '17.2',
+    hasPglogical: false,
+    pglogicalVersion: null,
+    walLevel: 'logical',
+    maxReplicationSlots: 10,
+    maxWalSenders: 10,
+    trackCommitTimestamp: true,
+    maxSlotWalKeepSizeMb: 8192,
+    conflictHistory: false,
+    probedAt: NOW,
+    ...overrides,
+  };
+}
+
+function slot(slotName: string, overrides: Partial<SlotData> = {}): SlotData {
+  return {
+    nodeId: 'provider',
+    slotName,
+    plugin: 'pgoutput',
+    slotType: 'logical',
+    database: 'shop',
+    active: true,
+    activePid: null,
+    retainedBytes: 200 * MB,
+    pendingBytes: 0,
+    confirmedFlushLsn: null,
+    walStatus: 'reserved',
+    xminAge: null,
+    catalogXminAge: null,
+    safeWalSize: null,
+    maxSlotWalKeepSize: null,
+    twoPhase: false,
+    inactiveSince: null,
+    blocker: null,
+    isStale: false,
+    timestamp: NOW,
+    ...overrides,
+  };
+}
+
+function subscription(overrides: Partial<SubscriptionData> = {}): SubscriptionData {
+  return {
+    nodeId: 'subscriber',
+    subscriptionName: 'sub_orders',
+    enabled: true,
+    disableOnError: false,
+    status: 'replicating',
+    providerNode: null,
+    providerHost: 'pg-provider',
+    providerPort: 5432,
+    slotName: 'sub_orders',
+    receivedLsn: null,
+    latestEndLsn: null,
+    replicationSets: ['orders_pub'],
+    lastMessageTime: null,
+    workerPid: 4242,
+    source: 'native',
+    timestamp: NOW,
+    ...overrides,
+  };
+}
+
+function publication(overrides: Partial<PublicationData> = {}): PublicationData {
+  return {
+    nodeId: 'provider',
+    name: 'orders_pub',
+    source: 'native',
+    allTables: false,
+    operations: { insert: true, update: true, delete: true, truncate: true },
+    tables: [{ schemaName: 'public', tableName: 'orders', rowFilter: null, columns: null }],
+    sequences: [],
+    timestamp: NOW,
+    ...overrides,
+  };
+}
+
+function walReceiver(overrides: Partial<WalReceiverData> = {}): WalReceiverData {
+  return {
+    nodeId: 'subscriber',
+    status: 'streaming',
+    receiveLsn: '0/3000000',
+    replayLsn: '0/3000000',
+    replayLagBytes: 0,
+    replayLagSeconds: 0,
+    lastReplayAt: NOW,
+    upstreamHost: 'pg-provider',
+    upstreamPort: 5432,
+    conninfo: null,
+    slotName: 'standby_slot',
+    timestamp: NOW,
+    ...overrides,
+  };
+}
+
+function provider(overrides: Partial<DoctorNodeInput> = {}): DoctorNodeInput {
+  return {
+    nodeId: 'provider',
+    nodeName: 'Provider',
+    host: 'pg-provider',
+    port: 5432,
+    success: true,
+    capabilities: capabilities(),
+    slots: [slot('sub_orders')],
+    subscriptions: [],
+    publications: [publication()],
+    walReceivers: [],
+    tablesWithoutIdentity: [],
+    ...overrides,
+  };
+}
+
+function subscriber(overrides: Partial<DoctorNodeInput> = {}): DoctorNodeInput {
+  return {
+    nodeId: 'subscriber',
+    nodeName: 'Subscriber',
+    host: 'pg-subscriber',
+    port: 5432,
+    success: true,
+    capabilities: capabilities({ nodeId: 'subscriber' }),
+    slots: [],
+    subscriptions: [subscription()],
+    publications: [],
+    walReceivers: [],
+    tablesWithoutIdentity: [],
+    ...overrides,
+  };
+}
+
+describe('runDoctorChecks', () => {
+  test('reports nothing for a healthy cluster', () => {
+    const report = runDoctorChecks([provider(), subscriber()]);
+
+    expect(report.findings).toEqual([]);
+    expect(report.nodes).toEqual([
+      { nodeId: 'provider', nodeName: 'Provider' },
+      { nodeId: 'subscriber', nodeName: 'Subscriber' },
+    ]);
+    expect(getDoctorExitCode(report)).toBe(0);
+  });
+
+  test('turns setting warnings into findings with remediation', () => {
+    const report = runDoctorChecks([
+      provider({ capabilities: capabilities({ walLevel: 'replica', maxReplicationSlots: 1 }) }),
+      subscriber(),
+    ]);
+
+    expect(report.findings).toEqual([
+      expect.objectContaining({
+        check: 'setting',
+        severity: 'critical',
+        target: 'wal_level',
+        remediationHint: 'Set wal_level = logical in postgresql.conf and restart PostgreSQL.',
+      }),
+      expect.objectContaining({ target: 'max_replication_slots', severity: 'critical' }),
+    ]);
+    expect(getDoctorExitCode(report)).toBe(2);
+  });
+
+  test('flags published tables without a replica identity', () => {
+    const report = runDoctorChecks([
+      provider({
+        publications: [
+          publication(),
+          publication({
+            name: 'inserts_only',
+            operations: { insert: true, update: false, delete: false, truncate: false },
+            tables: [{ schemaName: 'public', tableName: 'audit', rowFilter: null, columns: null }],
+          }),
+        ],
+        tablesWithoutIdentity: [
+          { schemaName: 'public', tableName: 'orders', replicaIdentity: 'default' },
+          { schemaName: 'public', tableName: 'audit', replicaIdentity: 'nothing' },
+          { schemaName: 'public', tableName: 'scratch', replicaIdentity: 'default' },
+        ],
+      }),
+      subscriber(),
+    ]);
+
+    expect(report.findings).toEqual([
+      expect.objectContaining({
+        check: 'replica_identity',
+        severity: 'critical',
+        target: 'public.orders',
+        message:
+          'public.orders has no primary key or replica identity: UPDATE and DELETE cannot replicate (orders_pub)',
+      }),
+    ]);
+  });
+
+  test('publications for all tables cover every table without identity', () => {
+    const report = runDoctorChecks([
+      provider({
+        publications: [publication({ allTables: true, tables: [] })],
+        tablesWithoutIdentity: [
+          { schemaName: 'public', tableName: 'audit', replicaIdentity: 'nothing' },
+        ],
+      }),
+      subscriber(),
+    ]);
+
+    expect(report.findings.map((finding) => finding.message)).toEqual([
+      'public.audit has REPLICA IDENTITY NOTHING: UPDATE and DELETE cannot replicate (orders_pub)',
+    ]);
+  });
+
+  test('flags subscriptions whose slot is missing on the provider', () => {
+    const report = runDoctorChecks([
+      provider({ slots: [] }),
+      subscriber({
+        subscriptions: [
+          subscription(),
+          subscription({ subscriptionName: 'sub_paused', slotName: 'sub_paused', enabled: false }),
+          subscription({ subscriptionName: 'sub_external', providerHost: 'pg-elsewhere' }),
+        ],
+      }),
+    ]);
+
+    expect(report.findings).toEqual([
+      expect.objectContaining({
+        nodeId: 'subscriber',
+        check: 'missing_slot',
+        severity: 'critical',
+        target: 'sub_orders',
+        message: 'Subscription sub_orders uses slot sub_orders, which does not exist on Provider',
+      }),
+      expect.objectContaining({ target: 'sub_paused', severity: 'warning' }),
+    ]);
+  });
+
+  test('flags inactive slots no subscription or standby uses', () => {
+    const report = runDoctorChecks([
+      provider({
+        slots: [
+          slot('sub_orders', { active: false }),
+          slot('standby_slot', { slotType: 'physical', active: false }),
+          slot('cdc_slot', { active: false }),
+          slot('busy_slot'),
+        ],
+      }),
+      subscriber({ walReceivers: [walReceiver()] }),
+    ]);
+
+    expect(report.findings).toEqual([
+      expect.objectContaining({
+        check: 'orphaned_slot',
+        severity: 'warning',
+        target: 'cdc_slot',
+        message:
+          'Slot cdc_slot is inactive and no subscription or standby uses it (retains 200.0 MB of WAL)',
+      }),
+    ]);
+  });
+
+  test('skips orphaned slots while a node is unreachable', () => {
+    const report = runDoctorChecks([
+      provider({ slots: [slot('cdc_slot', { active: false })] }),
+      subscriber({ success: false, error: new Error('connection refused'), subscriptions: [] }),
+    ]);
+
+    expect(report.findings).toEqual([
+      expect.objectContaining({
+        nodeId: 'subscriber',
+        check: 'connection',
+        severity: 'critical',
+        message: 'Could not be checked: connection refused',
+        remediationHint: 'Verify the node is reachable and PostgreSQL is running.',
+      }),
+    ]);
+  });
+
+  test('flags unlimited max_slot_wal_keep_size on nodes with slots', () => {
+    const report = runDoctorChecks([
+      provider({ capabilities: capabilities({ maxSlotWalKeepSizeMb: -1 }) }),
+      subscriber({ capabilities: capabilities({ nodeId: 'subscriber', maxSlotWalKeepSizeMb: -1 }) }),
+    ]);
+
+    expect(report.findings).toEqual([
+      expect.objectContaining({
+        nodeId: 'provider',
+        check: 'setting',
+        severity: 'warning',
+        target: 'max_slot_wal_keep_size',
+        message: 'max_slot_wal_keep_size is -1: 1 slot can retain WAL until the disk fills',
+      }),
+    ]);
+    expect(getDoctorExitCode(report)).toBe(1);
+  });
+
+  test('sorts critical findings first, then by node order', () => {
+    const report = runDoctorChecks([
+      provider({ capabilities: capabilities({ maxSlotWalKeepSizeMb: -1 }) }),
+      subscriber({ success: false, subscriptions: [] }),
+    ]);
+
+    expect(report.findings.map((finding) => [finding.nodeId, finding.severity])).toEqual([
+      ['subscriber', 'critical'],
+      ['provider', 'warning'],
+    ]);
+  });
+});
+
+describe('formatDoctorOutput', () => {
+  test('lists findings with suggestions under their node', () => {
+    const report = runDoctorChecks([
+      provider({ slots: [slot('cdc_slot', { active: false })] }),
+      subscriber({ subscriptions: [] }),
+    ]);
+
+    expect(formatDoctorOutput(report)).toBe(
+      [
+        'replmon doctor: 2 nodes checked, 0 critical, 1 warning',
+        '',
+        'Provider (provider)',
+        '  WARNING  Slot cdc_slot is inactive and no subscription or standby uses it (retains 200.0 MB of WAL)',
+        '           Suggestion: Drop the slot with pg_drop_replication_slot() if its consumer is gone, so it stops retaining WAL.',
+        '',
+        'Subscriber (subscriber)',
+        '  OK',
+      ].join('\n')
+    );
+  });
+});
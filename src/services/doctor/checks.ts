@@ -0,0 +1,312 @@
+/**
+ * Doctor Checks
+ *
+ * Pure functions that turn what is known about each node into findings,
+ * each with a severity and a remediation hint:
+ * - Settings: wal_level, free replication slots and walsenders,
+ *   track_commit_timestamp for pglogical last-update-wins
+ * - Published tables without a primary key or replica identity
+ * - Subscriptions whose slot is missing on the provider
+ * - Inactive slots no subscription or standby uses
+ * - max_slot_wal_keep_size = -1 on nodes with slots
+ *
+ * Shared by `replmon doctor` and the Diagnostics modal.
+ */
+
+import { getCapabilityWarnings } from '../../utils/capabilities.js';
+import { formatBytes } from '../../utils/format.js';
+import { resolveProviderNodeId } from '../../utils/publications.js';
+import { findNodeByHostPort } from '../../utils/topology.js';
+import type {
+  DoctorFinding,
+  DoctorNodeInput,
+  DoctorReport,
+  DoctorSeverity,
+  TableWithoutIdentity,
+} from './types.js';
+import { DOCTOR_EXIT_CODES } from './types.js';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Remediation for each setting getCapabilityWarnings reports */
+const SETTING_HINTS: Record<string, string> = {
+  wal_level: 'Set wal_level = logical in postgresql.conf and restart PostgreSQL.',
+  max_replication_slots:
+    'Drop unused slots or raise max_replication_slots in postgresql.conf, then restart PostgreSQL.',
+  max_wal_senders:
+    'Raise max_wal_senders in postgresql.conf above the number of subscribers and standbys, then restart PostgreSQL.',
+  track_commit_timestamp:
+    'Set track_commit_timestamp = on in postgresql.conf and restart PostgreSQL so last-update-wins can compare commit times.',
+};
+
+const SEVERITY_RANK: Record<DoctorSeverity, number> = {
+  critical: 0,
+  warning: 1,
+};
+
+// =============================================================================
+// Checks
+// =============================================================================
+
+/**
+ * Settings that don't fit how the node is used.
+ */
+function checkSettings(node: DoctorNodeInput): DoctorFinding[] {
+  if (!node.capabilities) return [];
+
+  return getCapabilityWarnings(node.capabilities, node.slots, node.publications).map(
+    (warning) => ({
+      nodeId: node.nodeId,
+      check: 'setting',
+      severity: warning.severity,
+      target: warning.setting,
+      message: warning.message,
+      remediationHint:
+        SETTING_HINTS[warning.setting] ?? `Review ${warning.setting} in postgresql.conf.`,
+    })
+  );
+}
+
+/**
+ * Published tables that can't replicate UPDATE or DELETE.
+ * Only publications that replicate either operation matter; publications
+ * for all tables include every table without identity.
+ */
+function checkReplicaIdentity(node: DoctorNodeInput): DoctorFinding[] {
+  if (!node.tablesWithoutIdentity || node.tablesWithoutIdentity.length === 0) return [];
+
+  const publicationsByTable = new Map<string, { table: TableWithoutIdentity; names: string[] }>();
+  for (const table of node.tablesWithoutIdentity) {
+    publicationsByTable.set(`${table.schemaName}.${table.tableName}`, { table, names: [] });
+  }
+
+  for (const publication of node.publications) {
+    if (!publication.operations.update && !publication.operations.delete) continue;
+
+    const members = publication.allTables
+      ? [...publicationsByTable.keys()]
+      : publication.tables.map((table) => `${table.schemaName}.${table.tableName}`);
+    for (const key of members) {
+      const entry = publicationsByTable.get(key);
+      if (entry && !entry.names.includes(publication.name)) {
+        entry.names.push(publication.name);
+      }
+    }
+  }
+
+  const findings: DoctorFinding[] = [];
+  for (const [key, { table, names }] of publicationsByTable) {
+    if (names.length === 0) continue;
+
+    const problem =
+      table.replicaIdentity === 'nothing'
+        ? 'has REPLICA IDENTITY NOTHING'
+        : 'has no primary key or replica identity';
+    findings.push({
+      nodeId: node.nodeId,
+      check: 'replica_identity',
+      severity: 'critical',
+      target: key,
+      message: `${key} ${problem}: UPDATE and DELETE cannot replicate (${names.join(', ')})`,
+      remediationHint:
+        'Add a primary key, or set REPLICA IDENTITY USING INDEX on a unique index (REPLICA IDENTITY FULL as a last resort).',
+    });
+  }
+  return findings;
+}
+
+/**
+ * Subscriptions whose slot doesn't exist on their provider.
+ * Only providers that were queried successfully can be checked.
+ */
+function checkMissingSlots(
+  node: DoctorNodeInput,
+  nodesById: Map<string, DoctorNodeInput>
+): DoctorFinding[] {
+  const findings: DoctorFinding[] = [];
+
+  for (const sub of node.subscriptions) {
+    if (!sub.slotName) continue;
+
+    const providerId = resolveProviderNodeId(sub, nodesById);
+    const provider = providerId !== null ? nodesById.get(providerId) : undefined;
+    if (!provider?.success) continue;
+    if (provider.slots.some((slot) => slot.slotName === sub.slotName)) continue;
+
+    findings.push({
+      nodeId: node.nodeId,
+      check: 'missing_slot',
+      severity: sub.enabled ? 'critical' : 'warning',
+      target: sub.subscriptionName,
+      message: `Subscription ${sub.subscriptionName} uses slot ${sub.slotName}, which does not exist on ${provider.nodeName}`,
+      remediationHint:
+        'Recreate the slot on the provider, or drop and recreate the subscription to resynchronize.',
+    });
+  }
+  return findings;
+}
+
+/**
+ * Inactive slots that no subscription or standby of the cluster uses.
+ * Skipped when a node couldn't be queried, since its subscriptions and WAL
+ * receiver are unknown.
+ */
+function checkOrphanedSlots(
+  node: DoctorNodeInput,
+  nodes: DoctorNodeInput[],
+  nodesById: Map<string, DoctorNodeInput>
+): DoctorFinding[] {
+  if (nodes.some((other) => !other.success)) return [];
+
+  const findings: DoctorFinding[] = [];
+  for (const slot of node.slots) {
+    if (slot.active) continue;
+
+    const consumed = nodes.some(
+      (other) =>
+        other.subscriptions.some((sub) => {
+          if (sub.slotName !== slot.slotName) return false;
+          const providerId = resolveProviderNodeId(sub, nodesById);
+          return providerId === null || providerId === node.nodeId;
+        }) ||
+        other.walReceivers.some((receiver) => {
+          if (receiver.slotName !== slot.slotName) return false;
+          const upstreamId = findNodeByHostPort(
+            nodesById,
+            receiver.upstreamHost,
+            receiver.upstreamPort
+          );
+          return upstreamId === null || upstreamId === node.nodeId;
+        })
+    );
+    if (consumed) continue;
+
+    findings.push({
+      nodeId: node.nodeId,
+      check: 'orphaned_slot',
+      severity: 'warning',
+      target: slot.slotName,
+      message: `Slot ${slot.slotName} is inactive and no subscription or standby uses it (retains ${formatBytes(slot.retainedBytes)} of WAL)`,
+      remediationHint:
+        'Drop the slot with pg_drop_replication_slot() if its consumer is gone, so it stops retaining WAL.',
+    });
+  }
+  return findings;
+}
+
+/**
+ * Slots that may retain WAL without limit.
+ */
+function checkSlotWalKeepSize(node: DoctorNodeInput): DoctorFinding[] {
+  if (node.capabilities?.maxSlotWalKeepSizeMb !== -1 || node.slots.length === 0) return [];
+
+  const count = node.slots.length;
+  return [
+    {
+      nodeId: node.nodeId,
+      check: 'setting',
+      severity: 'warning',
+      target: 'max_slot_wal_keep_size',
+      message: `max_slot_wal_keep_size is -1: ${count} slot${count !== 1 ? 's' : ''} can retain WAL until the disk fills`,
+      remediationHint:
+        'Set max_slot_wal_keep_size in postgresql.conf to cap the WAL a slot may retain, then reload PostgreSQL.',
+    },
+  ];
+}
+
+// =============================================================================
+// Report
+// =============================================================================
+
+/**
+ * Run every check against every node.
+ *
+ * @param nodes - Per-node input, in configuration order
+ * @returns Findings sorted by severity, then node order
+ */
+export function runDoctorChecks(nodes: DoctorNodeInput[]): DoctorReport {
+  const nodesById = new Map(nodes.map((node) => [node.nodeId, node]));
+  const findings: DoctorFinding[] = [];
+
+  for (const node of nodes) {
+    if (!node.success) {
+      findings.push({
+        nodeId: node.nodeId,
+        check: 'connection',
+        severity: 'critical',
+        target: null,
+        message: `Could not be checked: ${node.error?.message ?? 'no response'}`,
+        remediationHint: 'Verify the node is reachable and PostgreSQL is running.',
+      });
+      continue;
+    }
+
+    findings.push(
+      ...checkSettings(node),
+      ...checkReplicaIdentity(node),
+      ...checkMissingSlots(node, nodesById),
+      ...checkOrphanedSlots(node, nodes, nodesById),
+      ...checkSlotWalKeepSize(node)
+    );
+  }
+
+  const nodeOrder = new Map(nodes.map((node, index) => [node.nodeId, index]));
+  findings.sort(
+    (a, b) =>
+      SEVERITY_RANK[a.severity] - SEVERITY_RANK[b.severity] ||
+      (nodeOrder.get(a.nodeId) ?? 0) - (nodeOrder.get(b.nodeId) ?? 0)
+  );
+
+  return {
+    findings,
+    nodes: nodes.map((node) => ({ nodeId: node.nodeId, nodeName: node.nodeName })),
+  };
+}
+
+/**
+ * Exit code for the most severe finding: 0 none, 1 warning, 2 critical.
+ */
+export function getDoctorExitCode(report: DoctorReport): number {
+  const worst = report.findings[0]?.severity ?? 'ok';
+  return DOCTOR_EXIT_CODES[worst];
+}
+
+/**
+ * Count findings per severity.
+ */
+export function countFindings(findings: DoctorFinding[]): Record<DoctorSeverity, number> {
+  return {
+    critical: findings.filter((finding) => finding.severity === 'critical').length,
+    warning: findings.filter((finding) => finding.severity === 'warning').length,
+  };
+}
+
+/**
+ * Human-readable report: a summary line, then each node with its findings
+ * and how to fix them.
+ */
+export function formatDoctorOutput(report: DoctorReport): string {
+  const counts = countFindings(report.findings);
+  const nodeCount = report.nodes.length;
+  const lines = [
+    `replmon doctor: ${nodeCount} node${nodeCount !== 1 ? 's' : ''} checked, ` +
+      `${counts.critical} critical, ${counts.warning} warning${counts.warning !== 1 ? 's' : ''}`,
+  ];
+
+  for (const node of report.nodes) {
+    lines.push('', `${node.nodeName} (${node.nodeId})`);
+    const findings = report.findings.filter((finding) => finding.nodeId === node.nodeId);
+    if (findings.length === 0) {
+      lines.push('  OK');
+      continue;
+    }
+    for (const finding of findings) {
+      lines.push(`  ${finding.severity.toUpperCase().padEnd(8)} ${finding.message}`);
+      lines.push(`  ${''.padEnd(8)} Suggestion: ${finding.remediationHint}`);
+    }
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,60 @@
+/**
+ * Replica Identity Query
+ *
+ * Finds tables that can't replicate UPDATE or DELETE: REPLICA IDENTITY
+ * NOTHING, or REPLICA IDENTITY DEFAULT without a primary key. Only the
+ * doctor runs it, so it is not a polling query module.
+ */
+
+import type { QueryFn } from '../polling/types.js';
+import type { TableWithoutIdentity } from './types.js';
+
+/**
+ * SQL query for ordinary and partitioned tables without a usable replica
+ * identity, outside the system schemas and pglogical's own catalog.
+ */
+const TABLES_WITHOUT_IDENTITY_QUERY = `
+SELECT
+  n.nspname AS schema_name,
+  c.relname AS table_name,
+  c.relreplident AS replica_identity
+FROM pg_class c
+JOIN pg_namespace n ON n.oid = c.relnamespace
+WHERE c.relkind IN ('r', 'p')
+  AND n.nspname NOT IN ('information_schema', 'pglogical')
+  AND n.nspname !~ '^pg_'
+  AND (
+    c.relreplident = 'n'
+    OR (
+      c.relreplident = 'd'
+      AND NOT EXISTS (
+        SELECT 1 FROM pg_index i WHERE i.indrelid = c.oid AND i.indisprimary
+      )
+    )
+  )
+ORDER BY n.nspname, c.relname
+`;
+
+/** Row type for tables without identity query */
+interface TableWithoutIdentityRow {
+  schema_name: string;
+  table_name: string;
+  replica_identity: string;
+}
+
+/**
+ * Query the tables of a node without a usable replica identity.
+ *
+ * @param queryFn - Query execution function
+ * @returns Tables sorted by schema and name
+ */
+export async function queryTablesWithoutIdentity(
+  queryFn: QueryFn
+): Promise<TableWithoutIdentity[]> {
+  const rows = await queryFn<TableWithoutIdentityRow>(TABLES_WITHOUT_IDENTITY_QUERY);
+  return rows.map((row) => ({
+    schemaName: row.schema_name,
+    tableName: row.table_name,
+    replicaIdentity: row.replica_identity === 'n' ? 'nothing' : 'default',
+  }));
+}
@@ -0,0 +1,149 @@
+/**
+ * Doctor Runner
+ *
+ * One-shot `replmon doctor`: connects to every configured node, collects
+ * its settings, slots, subscriptions, publications and tables without a
+ * replica identity, runs the doctor checks, and disconnects.
+ *
+ * Exit codes: 0 no findings, 1 warnings, 2 critical findings.
+ */
+
+import { ConnectionManager } from '../connection-manager/index.js';
+import { probeCapabilities } from '../polling/capabilities.js';
+import { executeAllQueries } from '../polling/queries/index.js';
+import type { QueryFn } from '../polling/types.js';
+import type { Configuration } from '../../types/config.js';
+import { runDoctorChecks } from './checks.js';
+import { queryTablesWithoutIdentity } from './identity.js';
+import type { DoctorNodeInput, DoctorOptions, DoctorReport } from './types.js';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Default connection timeout per node in milliseconds */
+const DEFAULT_TIMEOUT_MS = 10000;
+
+// =============================================================================
+// Collection
+// =============================================================================
+
+/**
+ * Collect what the checks need from a single node. Never throws; failures
+ * are reported in the result.
+ *
+ * A failing replica identity query (e.g. missing privileges) leaves the
+ * tables unchecked instead of failing the node.
+ *
+ * @param node - Node identity and address
+ * @param queryFn - Query execution function for the node
+ */
+export async function collectDoctorNode(
+  node: Pick<DoctorNodeInput, 'nodeId' | 'nodeName' | 'host' | 'port'>,
+  queryFn: QueryFn
+): Promise<DoctorNodeInput> {
+  try {
+    // Query modules swallow their own errors, but the capability probe
+    // throws when the node can't be queried
+    const capabilities = await probeCapabilities(node.nodeId, queryFn);
+    const [results, tablesWithoutIdentity] = await Promise.all([
+      executeAllQueries(node.nodeId, queryFn, capabilities),
+      queryTablesWithoutIdentity(queryFn).catch(() => null),
+    ]);
+
+    return {
+      ...node,
+      success: true,
+      capabilities,
+      slots: results.slots,
+      subscriptions: results.subscriptions,
+      publications: results.publications,
+      walReceivers: results.walReceivers,
+      tablesWithoutIdentity,
+    };
+  } catch (error) {
+    return {
+      ...node,
+      success: false,
+      error: error instanceof Error ? error : new Error(String(error)),
+      capabilities: null,
+      slots: [],
+      subscriptions: [],
+      publications: [],
+      walReceivers: [],
+      tablesWithoutIdentity: null,
+    };
+  }
+}
+
+/**
+ * Connect to every configured node, collect its state once, and run the
+ * doctor checks.
+ *
+ * @param config - Resolved configuration
+ * @param options - Connection timeout
+ * @returns Findings for every node
+ */
+export async function runDoctor(
+  config: Configuration,
+  options: DoctorOptions = {}
+): Promise<DoctorReport> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const manager = new ConnectionManager({
+    // Health checks are irrelevant for a single pass
+    healthCheckIntervalMs: 60000,
+    queryTimeoutMs: timeoutMs,
+    shutdownTimeoutMs: 1000,
+  });
+
+  try {
+    await manager.initialize(
+      Object.entries(config.nodes).map(([id, node]) => ({
+        id,
+        config: {
+          host: node.host,
+          port: node.port,
+          database: node.database,
+          user: node.user,
+          name: node.name ?? id,
+          ...(node.password !== undefined && { password: node.password }),
+          pool: { max: 2, connectionTimeoutMs: timeoutMs },
+        },
+      }))
+    );
+
+    const nodes = await Promise.all(
+      Object.entries(config.nodes).map(([nodeId, node]) =>
+        collectDoctorNode(
+          { nodeId, nodeName: node.name ?? nodeId, host: node.host, port: node.port },
+          <R>(sql: string, params?: unknown[]) => manager.query<R>(nodeId, sql, params)
+        )
+      )
+    );
+    return runDoctorChecks(nodes);
+  } finally {
+    await manager.shutdown();
+  }
+}
+
+// =============================================================================
+// Re-exports
+// =============================================================================
+
+export {
+  runDoctorChecks,
+  formatDoctorOutput,
+  getDoctorExitCode,
+  countFindings,
+} from './checks.js';
+export { queryTablesWithoutIdentity } from './identity.js';
+export { DOCTOR_EXIT_CODES } from './types.js';
+export type {
+  DoctorSeverity,
+  DoctorCheck,
+  DoctorFinding,
+  DoctorNodeInput,
+  DoctorReport,
+  DoctorOptions,
+  TableWithoutIdentity,
+} from './types.js';
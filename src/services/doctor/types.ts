@@ -0,0 +1,129 @@
+/**
+ * Doctor Types
+ *
+ * Type definitions for `replmon doctor` and the Diagnostics modal, which
+ * check each node's setup for logical replication problems.
+ */
+
+import type {
+  NodeCapabilities,
+  PublicationData,
+  SlotData,
+  SubscriptionData,
+  WalReceiverData,
+} from '../polling/types.js';
+
+// =============================================================================
+// Findings
+// =============================================================================
+
+/**
+ * How urgent a finding is.
+ * critical: replication is broken or will break; warning: a risk to review.
+ */
+export type DoctorSeverity = 'critical' | 'warning';
+
+/**
+ * Check that produced a finding.
+ */
+export type DoctorCheck =
+  | 'connection'
+  | 'setting'
+  | 'replica_identity'
+  | 'missing_slot'
+  | 'orphaned_slot';
+
+/**
+ * A problem found on a node.
+ */
+export interface DoctorFinding {
+  /** Node the problem is on */
+  nodeId: string;
+  /** Check that found it */
+  check: DoctorCheck;
+  severity: DoctorSeverity;
+  /** Setting, table, subscription or slot concerned (null for the node itself) */
+  target: string | null;
+  /** What is wrong */
+  message: string;
+  /** How to fix it, in the style of operation remediation hints */
+  remediationHint: string;
+}
+
+/**
+ * Process exit code for the most severe finding (ok: none), or for a doctor
+ * that could not run at all (error: bad configuration, crash).
+ */
+export const DOCTOR_EXIT_CODES: Record<DoctorSeverity | 'ok' | 'error', number> = {
+  ok: 0,
+  warning: 1,
+  critical: 2,
+  error: 3,
+};
+
+// =============================================================================
+// Input
+// =============================================================================
+
+/**
+ * A table that can't replicate UPDATE or DELETE: REPLICA IDENTITY NOTHING,
+ * or DEFAULT without a primary key.
+ */
+export interface TableWithoutIdentity {
+  schemaName: string;
+  tableName: string;
+  /** pg_class.relreplident: "default" (no primary key) or "nothing" */
+  replicaIdentity: 'default' | 'nothing';
+}
+
+/**
+ * Everything the checks need to know about one node.
+ */
+export interface DoctorNodeInput {
+  /** Node identifier */
+  nodeId: string;
+  /** Display name */
+  nodeName: string;
+  /** PostgreSQL host, for matching subscriptions to their provider */
+  host: string;
+  /** PostgreSQL port */
+  port: number;
+  /** Whether the node could be queried */
+  success: boolean;
+  /** Connection or query error when success=false */
+  error?: Error;
+  /** Capability probe result (null if the node never answered) */
+  capabilities: NodeCapabilities | null;
+  /** Replication slots */
+  slots: SlotData[];
+  /** Subscriptions */
+  subscriptions: SubscriptionData[];
+  /** Publications and pglogical replication sets */
+  publications: PublicationData[];
+  /** WAL receiver when the node is a standby */
+  walReceivers: WalReceiverData[];
+  /** Tables without a usable replica identity (null: not checked) */
+  tablesWithoutIdentity: TableWithoutIdentity[] | null;
+}
+
+// =============================================================================
+// Output
+// =============================================================================
+
+/**
+ * Complete doctor result.
+ */
+export interface DoctorReport {
+  /** Findings, most severe first, then by node */
+  findings: DoctorFinding[];
+  /** Nodes checked, in configuration order */
+  nodes: Array<{ nodeId: string; nodeName: string }>;
+}
+
+/**
+ * Options for running the doctor against live nodes.
+ */
+export interface DoctorOptions {
+  /** Per-node connection timeout in milliseconds (default: 10000) */
+  timeoutMs?: number;
+}
@@ -0,0 +1,286 @@
+/**
+ * Tests for HeadlessService start, configuration reload, and shutdown
+ */
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { HeadlessService } from './index.js';
+import type { HeadlessBackend, LogFields, Logger } from './index.js';
+import { TypedEventEmitter } from '../connection-manager/events.js';
+import type { NodeConnectionConfig } from '../connection-manager/types.js';
+import { useStore } from '../../store/index.js';
+import {
+  DEFAULT_ALERTS,
+  DEFAULT_HISTORY,
+  DEFAULT_METRICS,
+  DEFAULT_THEME,
+  DEFAULT_THRESHOLDS,
+} from '../../config/defaults.js';
+import type { ResolvedFileSink } from '../../config/defaults.js';
+import type { Configuration } from '../../types/config.js';
+import type { ConnectionConfig } from '../../types/connection.js';
+
+interface LogRecord {
+  level: string;
+  msg: string;
+  fields: LogFields;
+}
+
+function recordingLogger(): { logger: Logger; records: LogRecord[] } {
+  const records: LogRecord[] = [];
+  const log =
+    (level: string) =>
+    (msg: string, fields: LogFields = {}): void => {
+      records.push({ level, msg, fields });
+    };
+  return {
+    logger: { debug: log('debug'), info: log('info'), warn: log('warn'), error: log('error') },
+    records,
+  };
+}
+
+/** Backend that tracks node lifecycle calls instead of opening connections */
+class FakeBackend implements HeadlessBackend {
+  readonly nodes = new Map<string, NodeConnectionConfig>();
+  readonly calls: string[] = [];
+  queries = 0;
+  private readonly events = new TypedEventEmitter();
+  private running = false;
+
+  async initialize(nodes: Array<{ id: string; config: NodeConnectionConfig }>): Promise<void> {
+    for (const { id, config } of nodes) await this.addNode(id, config);
+    this.running = true;
+  }
+
+  async addNode(nodeId: string, config: NodeConnectionConfig): Promise<void> {
+    this.calls.push(`add:${nodeId}`);
+    this.nodes.set(nodeId, config);
+    this.events.emit('node:connected', { nodeId });
+  }
+
+  async removeNode(nodeId: string): Promise<void> {
+    this.calls.push(`remove:${nodeId}`);
+    this.nodes.delete(nodeId);
+  }
+
+  hasNode(nodeId: string): boolean {
+    return this.nodes.has(nodeId);
+  }
+
+  async shutdown(): Promise<void> {
+    this.calls.push('shutdown');
+    this.running = false;
+    this.nodes.clear();
+  }
+
+  on: HeadlessBackend['on'] = (event, handler) => {
+    this.events.on(event, handler);
+  };
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  getHealthyNodes(): ReturnType<HeadlessBackend['getHealthyNodes']> {
+    return [];
+  }
+
+  async query<T>(): Promise<T[]> {
+    this.queries++;
+    return [];
+  }
+}
+
+function nodeConfig(overrides: Partial<ConnectionConfig> = {}): ConnectionConfig {
+  return { host: 'db1', port: 5432, database: 'shop', user: 'replmon', ...overrides };
+}
+
+function configuration(overrides: Partial<Configuration> = {}): Configuration {
+  return {
+    nodes: { primary: nodeConfig(), replica: nodeConfig({ host: 'db2' }) },
+    theme: DEFAULT_THEME,
+    thresholds: DEFAULT_THRESHOLDS,
+    alerts: DEFAULT_ALERTS,
+    pglogical: false,
+    metrics: { ...DEFAULT_METRICS, enabled: true, port: 0 },
+    history: DEFAULT_HISTORY,
+    source: 'file',
+    ...overrides,
+  };
+}
+
+/** Port of the most recent "metrics endpoint listening" log record */
+function metricsPort(records: LogRecord[]): number {
+  const record = records.filter((r) => r.msg === 'metrics endpoint listening').at(-1);
+  return record?.fields.port as number;
+}
+
+async function metricsReachable(port: number): Promise<boolean> {
+  try {
+    const response = await fetch(`http://127.0.0.1:${port}/metrics`);
+    await response.text();
+    return response.ok;
+  } catch {
+    return false;
+  }
+}
+
+function reloadRecord(records: LogRecord[]): LogFields | undefined {
+  return records.find((r) => r.msg === 'config reloaded')?.fields;
+}
+
+describe('HeadlessService', () => {
+  let backend: FakeBackend;
+  let log: ReturnType<typeof recordingLogger>;
+  let next: Configuration | Error;
+  let service: HeadlessService;
+  let tmpDir: string;
+
+  beforeEach(() => {
+    const state = useStore.getState();
+    state.clearReplicationData();
+    state.resetConnectionStates();
+
+    backend = new FakeBackend();
+    log = recordingLogger();
+    next = configuration();
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'replmon-headless-'));
+  });
+
+  afterEach(async () => {
+    await service.shutdown();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  async function startService(initial: Configuration = configuration()): Promise<void> {
+    service = new HeadlessService(initial, {
+      logger: log.logger,
+      intervalMs: 60_000,
+      loadConfig: () => {
+        if (next instanceof Error) throw next;
+        return next;
+      },
+      createBackend: () => backend,
+    });
+    await service.start();
+  }
+
+  test('connects every configured node on start', async () => {
+    await startService();
+
+    expect([...backend.nodes.keys()]).toEqual(['primary', 'replica']);
+    expect([...useStore.getState().nodes.keys()]).toEqual(['primary', 'replica']);
+    expect(await metricsReachable(metricsPort(log.records))).toBe(true);
+  });
+
+  test('adds and removes nodes on reload', async () => {
+    await startService();
+    backend.calls.length = 0;
+
+    next = configuration({
+      nodes: { primary: nodeConfig(), standby: nodeConfig({ host: 'db3' }) },
+    });
+    await service.reload();
+
+    expect(backend.calls).toEqual(['remove:replica', 'add:standby']);
+    expect(backend.nodes.get('standby')?.host).toBe('db3');
+    expect([...useStore.getState().nodes.keys()]).toEqual(['primary', 'standby']);
+    expect(reloadRecord(log.records)).toMatchObject({
+      added: ['standby'],
+      removed: ['replica'],
+      changed: [],
+    });
+  });
+
+  test('reconnects a node whose connection settings changed', async () => {
+    await startService();
+    backend.calls.length = 0;
+
+    next = configuration({
+      nodes: { primary: nodeConfig({ port: 5433 }), replica: nodeConfig({ host: 'db2' }) },
+    });
+    await service.reload();
+
+    expect(backend.calls).toEqual(['remove:primary', 'add:primary']);
+    expect(backend.nodes.get('primary')?.port).toBe(5433);
+    expect(reloadRecord(log.records)).toMatchObject({ added: [], removed: [], changed: ['primary'] });
+  });
+
+  test('reloads alert sinks when the sink config changes', async () => {
+    await startService();
+
+    const sink: ResolvedFileSink = {
+      type: 'file',
+      name: 'alerts-file',
+      path: path.join(tmpDir, 'alerts.ndjson'),
+      retries: 0,
+      retryDelaySeconds: 0,
+      rateLimitPerMinute: 0,
+      dedupWindowSeconds: 0,
+    };
+    next = configuration({ alerts: { ...DEFAULT_ALERTS, sinks: [sink] } });
+    await service.reload();
+
+    expect(reloadRecord(log.records)).toMatchObject({
+      alertSinksReloaded: true,
+      metricsRestarted: false,
+    });
+    expect(backend.calls).toEqual(['add:primary', 'add:replica']);
+  });
+
+  test('restarts the metrics endpoint only when its config changes', async () => {
+    await startService();
+    const port = metricsPort(log.records);
+
+    await service.reload();
+    expect(reloadRecord(log.records)).toMatchObject({ metricsRestarted: false });
+    expect(await metricsReachable(port)).toBe(true);
+
+    log.records.length = 0;
+    next = configuration({ metrics: DEFAULT_METRICS });
+    await service.reload();
+    expect(reloadRecord(log.records)).toMatchObject({
+      metricsRestarted: true,
+      alertSinksReloaded: false,
+    });
+    expect(await metricsReachable(port)).toBe(false);
+
+    log.records.length = 0;
+    next = configuration();
+    await service.reload();
+    expect(reloadRecord(log.records)).toMatchObject({ metricsRestarted: true });
+    expect(await metricsReachable(metricsPort(log.records))).toBe(true);
+  });
+
+  test('keeps the running configuration when loading fails', async () => {
+    await startService();
+    backend.calls.length = 0;
+
+    next = new Error('bad yaml');
+    await service.reload();
+
+    expect(backend.calls).toEqual([]);
+    expect(log.records.at(-1)?.msg).toBe('config reload failed, keeping current configuration');
+    expect(await metricsReachable(metricsPort(log.records))).toBe(true);
+  });
+
+  test('releases every resource on shutdown', async () => {
+    await startService();
+    const port = metricsPort(log.records);
+
+    await service.shutdown();
+    const queries = backend.queries;
+
+    expect(backend.calls.at(-1)).toBe('shutdown');
+    expect(backend.isRunning()).toBe(false);
+    expect(await metricsReachable(port)).toBe(false);
+    expect(log.records.at(-1)?.msg).toBe('shutdown complete');
+
+    // Polling stopped, and a reload after shutdown does nothing
+    await service.reload();
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(backend.queries).toBe(queries);
+    expect(reloadRecord(log.records)).toBeUndefined();
+  });
+});
@@ -0,0 +1,501 @@
+/**
+ * HeadlessService
+ *
+ * Runs replmon as a long-lived service (systemd unit, container) without
+ * rendering the TUI. Owns the ConnectionManager, PollingService, and metrics
+ * endpoint, keeping the store up to date for exporters.
+ *
+ * Features:
+ * - Same store wiring as the TUI (polling data, polling errors, node health)
+ * - Threshold alerts evaluated every cycle, transitions logged and delivered
+ *   to the configured alert sinks
+ * - Samples recorded to the persistent history store when enabled
+ * - Structured JSON logs for lifecycle, connection, and polling events
+ * - Configuration reload (nodes added/removed/changed, thresholds, alert sinks,
+ *   history store, metrics endpoint)
+ * - Graceful shutdown through ConnectionManager connection draining
+ */
+
+import { ConnectionManager } from '../connection-manager/index.js';
+import type { NodeConnectionConfig } from '../connection-manager/types.js';
+import { PollingService } from '../polling/index.js';
+import { MetricsServer } from '../metrics-server/index.js';
+import { AlertEngine } from '../alerts/index.js';
+import { AlertNotifier } from '../notifier/index.js';
+import { HistoryStore, collectHistorySamples } from '../history/index.js';
+import type { AlertEvent } from '../../types/alerts.js';
+import { useStore } from '../../store/index.js';
+import type { NodeInfo } from '../../store/types.js';
+import type { Configuration } from '../../types/config.js';
+import type { ConnectionConfig } from '../../types/connection.js';
+import type { HeadlessBackend, HeadlessOptions, Logger } from './types.js';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Default polling interval in milliseconds (matches the TUI) */
+const DEFAULT_INTERVAL_MS = 1000;
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Create the ConnectionManager used outside of tests.
+ */
+function createConnectionManager(): HeadlessBackend {
+  return new ConnectionManager({
+    healthCheckIntervalMs: 5000,
+    unhealthyThreshold: 3,
+    queryTimeoutMs: 30000,
+  });
+}
+
+/**
+ * Convert a resolved node config into ConnectionManager's node config.
+ */
+function toNodeConnectionConfig(name: string, node: ConnectionConfig): NodeConnectionConfig {
+  return {
+    host: node.host,
+    port: node.port,
+    database: node.database,
+    user: node.user,
+    name: node.name ?? name,
+    ...(node.password !== undefined && { password: node.password }),
+  };
+}
+
+/**
+ * Check whether two node configs would open the same connection.
+ */
+function sameConnection(a: ConnectionConfig, b: ConnectionConfig): boolean {
+  return (
+    a.host === b.host &&
+    a.port === b.port &&
+    a.database === b.database &&
+    a.user === b.user &&
+    a.password === b.password
+  );
+}
+
+/**
+ * Build store NodeInfo entries from configuration.
+ */
+function toNodeInfos(config: Configuration): NodeInfo[] {
+  const existing = useStore.getState().nodes;
+  return Object.entries(config.nodes).map(([id, node]) => ({
+    id,
+    name: id,
+    host: node.host,
+    port: node.port,
+    database: node.database,
+    // Keep runtime pglogical detection across reloads
+    hasPglogical: existing.get(id)?.hasPglogical ?? false,
+  }));
+}
+
+// =============================================================================
+// HeadlessService Class
+// =============================================================================
+
+/**
+ * Service runner for --headless mode.
+ */
+export class HeadlessService {
+  private config: Configuration;
+  private readonly logger: Logger;
+  private readonly intervalMs: number;
+  private readonly loadConfig: () => Configuration;
+  private readonly createBackend: () => HeadlessBackend;
+  private connectionManager: HeadlessBackend | null = null;
+  private pollingService: PollingService | null = null;
+  private readonly alertEngine: AlertEngine;
+  private alertNotifier: AlertNotifier;
+  private historyStore: HistoryStore | null = null;
+  private metricsServer: MetricsServer | null = null;
+  private stopping = false;
+
+  constructor(config: Configuration, options: HeadlessOptions) {
+    this.config = config;
+    this.logger = options.logger;
+    this.intervalMs = options.intervalMs ?? DEFAULT_INTERVAL_MS;
+    this.loadConfig = options.loadConfig;
+    this.createBackend = options.createBackend ?? createConnectionManager;
+    this.alertEngine = new AlertEngine(config.thresholds, config.alerts);
+    this.alertNotifier = this.createNotifier(config);
+    this.alertEngine.on('alert', (event) => {
+      this.logAlert(event);
+      this.alertNotifier.notify(event);
+    });
+  }
+
+  // ===========================================================================
+  // Lifecycle
+  // ===========================================================================
+
+  /**
+   * Connect to all configured nodes, start polling and the metrics endpoint.
+   */
+  async start(): Promise<void> {
+    const store = useStore.getState();
+    store.setPglogicalMode(this.config.pglogical);
+    store.setThresholds(this.config.thresholds);
+    store.initializeNodes(Object.keys(this.config.nodes));
+    store.initializeNodesInfo(toNodeInfos(this.config));
+
+    // A bind failure at startup is fatal so the supervisor can report it
+    await this.startMetricsServer(true);
+    await this.openHistoryStore();
+
+    const connectionManager = this.createBackend();
+    this.connectionManager = connectionManager;
+    this.wireConnectionEvents(connectionManager);
+
+    await connectionManager.initialize(
+      Object.entries(this.config.nodes).map(([id, node]) => ({
+        id,
+        config: toNodeConnectionConfig(id, node),
+      }))
+    );
+
+    const pollingService = new PollingService(connectionManager, {
+      intervalMs: this.intervalMs,
+    });
+    this.pollingService = pollingService;
+    this.wirePollingEvents(pollingService);
+    pollingService.start();
+
+    this.logger.info('replmon started', {
+      nodes: Object.keys(this.config.nodes),
+      cluster: this.config.activeCluster ?? null,
+      configPath: this.config.configPath ?? null,
+      intervalMs: this.intervalMs,
+    });
+  }
+
+  /**
+   * Re-read configuration and apply changes without restarting the process.
+   * On a configuration error the running configuration is kept.
+   */
+  async reload(): Promise<void> {
+    if (this.stopping) return;
+
+    let next: Configuration;
+    try {
+      next = this.loadConfig();
+    } catch (error) {
+      this.logger.error('config reload failed, keeping current configuration', { error });
+      return;
+    }
+
+    const previous = this.config;
+    this.config = next;
+    const store = useStore.getState();
+    const manager = this.connectionManager;
+
+    const removed: string[] = [];
+    const added: string[] = [];
+    const changed: string[] = [];
+
+    for (const [id, node] of Object.entries(previous.nodes)) {
+      const nextNode = next.nodes[id];
+      if (!nextNode) {
+        removed.push(id);
+      } else if (!sameConnection(node, nextNode)) {
+        changed.push(id);
+      }
+    }
+    for (const id of Object.keys(next.nodes)) {
+      if (!(id in previous.nodes)) {
+        added.push(id);
+      }
+    }
+
+    if (manager) {
+      for (const id of [...removed, ...changed]) {
+        if (manager.hasNode(id)) {
+          await manager.removeNode(id);
+        }
+        store.removeNodeData(id);
+        store.clearHealth(id);
+        this.alertEngine.removeNode(id);
+      }
+      for (const id of [...added, ...changed]) {
+        const node = next.nodes[id];
+        if (node) {
+          store.setNodeStatus(id, 'connecting');
+          await manager.addNode(id, toNodeConnectionConfig(id, node));
+        }
+      }
+    }
+
+    store.setPglogicalMode(next.pglogical);
+    store.setThresholds(next.thresholds);
+    store.initializeNodesInfo(toNodeInfos(next));
+    this.alertEngine.configure(next.thresholds, next.alerts);
+
+    const sinksChanged =
+      JSON.stringify(previous.alerts.sinks) !== JSON.stringify(next.alerts.sinks) ||
+      previous.activeCluster !== next.activeCluster;
+    if (sinksChanged) {
+      const notifier = this.alertNotifier;
+      this.alertNotifier = this.createNotifier(next);
+      await notifier.close();
+    }
+
+    const historyChanged = JSON.stringify(previous.history) !== JSON.stringify(next.history);
+    if (historyChanged) {
+      await this.closeHistoryStore();
+      await this.openHistoryStore();
+    }
+
+    const metricsChanged =
+      previous.metrics.enabled !== next.metrics.enabled ||
+      previous.metrics.host !== next.metrics.host ||
+      previous.metrics.port !== next.metrics.port;
+    if (metricsChanged) {
+      await this.stopMetricsServer();
+      await this.startMetricsServer(false);
+    }
+
+    this.logger.info('config reloaded', {
+      added,
+      removed,
+      changed,
+      metricsRestarted: metricsChanged,
+      alertSinksReloaded: sinksChanged,
+      historyReopened: historyChanged,
+    });
+  }
+
+  /**
+   * Stop polling, close the metrics endpoint, and drain connections.
+   */
+  async shutdown(): Promise<void> {
+    if (this.stopping) return;
+    this.stopping = true;
+
+    this.logger.info('shutting down');
+
+    if (this.pollingService) {
+      this.pollingService.stop();
+      this.pollingService = null;
+    }
+
+    await this.alertNotifier.close();
+    await this.closeHistoryStore();
+    await this.stopMetricsServer();
+
+    if (this.connectionManager) {
+      await this.connectionManager.shutdown();
+      this.connectionManager = null;
+    }
+
+    this.logger.info('shutdown complete');
+  }
+
+  // ===========================================================================
+  // Private: Event Wiring
+  // ===========================================================================
+
+  private wireConnectionEvents(manager: HeadlessBackend): void {
+    const store = useStore.getState();
+
+    manager.on('node:connected', ({ nodeId }) => {
+      store.setNodeStatus(nodeId, 'connected');
+      store.clearConnectionError(nodeId);
+      this.logger.info('node connected', { node: nodeId });
+    });
+
+    manager.on('node:disconnected', ({ nodeId, error }) => {
+      if (this.stopping) return;
+      store.setNodeStatus(nodeId, 'failed');
+      store.markNodeStale(nodeId);
+      if (error) {
+        store.setConnectionError(nodeId, error.message);
+      }
+      this.logger.warn('node disconnected', { node: nodeId, error: error ?? null });
+    });
+
+    manager.on('node:health', ({ nodeId, status }) => {
+      store.setHealth(nodeId, status);
+    });
+  }
+
+  private wirePollingEvents(pollingService: PollingService): void {
+    const store = useStore.getState();
+
+    pollingService.on('data', (result) => {
+      store.handlePollingData(result);
+      store.applyAlertEvaluation(this.alertEngine.evaluate(result));
+      this.historyStore?.record(
+        collectHistorySamples(result, useStore.getState().lagHistory),
+        result.completedAt
+      );
+
+      for (const nodeData of result.stats) {
+        if (!nodeData.success) {
+          this.logger.warn('node query failed', {
+            node: nodeData.nodeId,
+            cycleId: result.cycleId,
+            error: nodeData.error ?? null,
+          });
+        }
+      }
+
+      this.logger.debug('polling cycle complete', {
+        cycleId: result.cycleId,
+        durationMs: result.durationMs,
+      });
+    });
+
+    pollingService.on('error', (error) => {
+      store.handlePollingError(error);
+      this.logger.error('polling error', {
+        cycleId: error.cycleId,
+        error: error.message,
+        nodeErrors: error.nodeErrors.map(({ nodeId, error: nodeError }) => ({
+          node: nodeId,
+          error: nodeError.message,
+        })),
+      });
+    });
+
+    pollingService.on('cycle:skip', ({ reason }) => {
+      this.logger.debug('polling cycle skipped', { reason });
+    });
+  }
+
+  private createNotifier(config: Configuration): AlertNotifier {
+    const notifier = new AlertNotifier(config.alerts.sinks, {
+      cluster: config.activeCluster ?? null,
+    });
+
+    notifier.on('delivered', ({ sink, notification, attempts }) => {
+      this.logger.debug('alert notification delivered', {
+        sink,
+        alert: notification.event.alertId,
+        attempts,
+      });
+    });
+
+    notifier.on('failed', ({ sink, notification, attempts, error }) => {
+      this.logger.error('alert notification failed', {
+        sink,
+        alert: notification.event.alertId,
+        attempts,
+        error,
+      });
+    });
+
+    notifier.on('suppressed', ({ sink, notification, reason }) => {
+      this.logger.debug('alert notification suppressed', {
+        sink,
+        alert: notification.event.alertId,
+        reason,
+      });
+    });
+
+    return notifier;
+  }
+
+  private logAlert(event: AlertEvent): void {
+    const fields = {
+      alert: event.alertId,
+      metric: event.metric,
+      node: event.nodeId,
+      subject: event.subject,
+      severity: event.severity,
+      value: event.value,
+      threshold: event.threshold,
+    };
+    if (event.transition === 'firing') {
+      this.logger.warn('alert firing', fields);
+    } else {
+      this.logger.info('alert resolved', fields);
+    }
+  }
+
+  // ===========================================================================
+  // Private: History Store
+  // ===========================================================================
+
+  private async openHistoryStore(): Promise<void> {
+    const { history } = this.config;
+    if (!history.enabled) return;
+
+    const store = new HistoryStore({ dir: history.path, retention: history.retention });
+    store.on('failed', ({ operation, error }) => {
+      this.logger.error('history store error', { operation, error });
+    });
+    await store.open();
+
+    this.historyStore = store;
+    this.logger.info('history store opened', { path: history.path });
+  }
+
+  private async closeHistoryStore(): Promise<void> {
+    if (!this.historyStore) return;
+    await this.historyStore.close();
+    this.historyStore = null;
+  }
+
+  // ===========================================================================
+  // Private: Metrics Endpoint
+  // ===========================================================================
+
+  private async startMetricsServer(failFast: boolean): Promise<void> {
+    if (!this.config.metrics.enabled) return;
+
+    const server = new MetricsServer({
+      host: this.config.metrics.host,
+      port: this.config.metrics.port,
+    });
+    try {
+      await server.start();
+    } catch (error) {
+      if (failFast) throw error;
+      this.logger.error('metrics endpoint failed to start', { error });
+      return;
+    }
+
+    this.metricsServer = server;
+    const address = server.getAddress();
+    this.logger.info('metrics endpoint listening', {
+      host: address?.host ?? this.config.metrics.host,
+      port: address?.port ?? this.config.metrics.port,
+    });
+  }
+
+  private async stopMetricsServer(): Promise<void> {
+    if (!this.metricsServer) return;
+    await this.metricsServer.stop();
+    this.metricsServer = null;
+  }
+}
+
+// =============================================================================
+// Factory Function
+// =============================================================================
+
+/**
+ * Create a new HeadlessService instance.
+ *
+ * @param config - Initial resolved configuration
+ * @param options - Logger, polling interval, and config loader for reloads
+ * @returns HeadlessService instance
+ */
+export function createHeadlessService(
+  config: Configuration,
+  options: HeadlessOptions
+): HeadlessService {
+  return new HeadlessService(config, options);
+}
+
+// =============================================================================
+// Re-exports
+// =============================================================================
+
+export { createJsonLogger } from './logger.js';
+export type { HeadlessBackend, HeadlessOptions, Logger, LogLevel, LogFields } from './types.js';
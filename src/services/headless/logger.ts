@@ -0,0 +1,71 @@
+/**
+ * Structured JSON Logger
+ *
+ * Writes one JSON object per line to stdout for headless mode, so journald,
+ * Docker, or a log shipper can parse replmon output without regexes.
+ */
+
+import type { LogLevel, LogFields, Logger } from './types.js';
+
+/**
+ * Numeric ordering for level filtering.
+ */
+const LEVEL_ORDER: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+};
+
+/**
+ * Convert field values to JSON-safe values (Errors lose their fields otherwise).
+ */
+function normalizeField(value: unknown): unknown {
+  if (value instanceof Error) {
+    return value.message;
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  return value;
+}
+
+/**
+ * Create a logger that writes NDJSON records to the given stream.
+ *
+ * Each record has `time` (ISO 8601), `level`, `msg`, then any extra fields.
+ *
+ * @param minLevel - Records below this level are dropped (default: info)
+ * @param stream - Output stream (default: process.stdout)
+ * @returns Logger instance
+ */
+export function createJsonLogger(
+  minLevel: LogLevel = 'info',
+  stream: NodeJS.WritableStream = process.stdout
+): Logger {
+  const write = (level: LogLevel, msg: string, fields?: LogFields): void => {
+    if (LEVEL_ORDER[level] < LEVEL_ORDER[minLevel]) {
+      return;
+    }
+
+    const record: Record<string, unknown> = {
+      time: new Date().toISOString(),
+      level,
+      msg,
+    };
+    if (fields) {
+      for (const [key, value] of Object.entries(fields)) {
+        record[key] = normalizeField(value);
+      }
+    }
+
+    stream.write(`${JSON.stringify(record)}\n`);
+  };
+
+  return {
+    debug: (msg, fields) => write('debug', msg, fields),
+    info: (msg, fields) => write('info', msg, fields),
+    warn: (msg, fields) => write('warn', msg, fields),
+    error: (msg, fields) => write('error', msg, fields),
+  };
+}
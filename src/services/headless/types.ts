@@ -0,0 +1,63 @@
+/**
+ * Headless Service Types
+ *
+ * Type definitions for running replmon as a long-lived service without a TTY.
+ */
+
+import type { ConnectionManager } from '../connection-manager/index.js';
+import type { Configuration } from '../../types/config.js';
+
+// =============================================================================
+// Logging
+// =============================================================================
+
+/** Log severity levels */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/** Extra structured fields attached to a log record */
+export type LogFields = Record<string, unknown>;
+
+/**
+ * Minimal structured logger interface.
+ */
+export interface Logger {
+  debug(msg: string, fields?: LogFields): void;
+  info(msg: string, fields?: LogFields): void;
+  warn(msg: string, fields?: LogFields): void;
+  error(msg: string, fields?: LogFields): void;
+}
+
+// =============================================================================
+// Service Options
+// =============================================================================
+
+/**
+ * Subset of ConnectionManager the service drives (node lifecycle, events,
+ * and the queries polling runs).
+ */
+export type HeadlessBackend = Pick<
+  ConnectionManager,
+  | 'initialize'
+  | 'addNode'
+  | 'removeNode'
+  | 'hasNode'
+  | 'shutdown'
+  | 'on'
+  | 'isRunning'
+  | 'getHealthyNodes'
+  | 'query'
+>;
+
+/**
+ * Options for the HeadlessService.
+ */
+export interface HeadlessOptions {
+  /** Logger for lifecycle, connection, and polling events */
+  logger: Logger;
+  /** Polling interval in milliseconds (default: 1000) */
+  intervalMs?: number;
+  /** Re-read configuration from disk (called on reload) */
+  loadConfig: () => Configuration;
+  /** Create the connection backend (default: ConnectionManager) */
+  createBackend?: () => HeadlessBackend;
+}
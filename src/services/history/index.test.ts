@@ -0,0 +1,292 @@
+/**
+ * Tests for HistoryStore recording, rollups, retention, and queries
+ */
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { HistoryStore, collectHistorySamples, pickResolution } from './index.js';
+import type { HistoryMetric, HistorySample } from './index.js';
+import { decodeRecord, segmentPath, segmentStart } from './segments.js';
+import type { HistoryResolution } from './types.js';
+import type { LagSample } from '../../store/types.js';
+import type { PollingCycleResult } from '../polling/types.js';
+
+const T0 = Date.UTC(2024, 5, 1, 12, 0, 0);
+const HOUR = 3_600_000;
+const DAY = 86_400_000;
+
+const retention = { raw: 6 * 3600, '1m': 7 * 86400, '10m': 90 * 86400 };
+
+function sample(offsetMs: number, value: number, metric: HistoryMetric = 'lag_bytes'): HistorySample {
+  return {
+    metric,
+    nodeId: 'replica',
+    subject: 'sub1',
+    timestamp: new Date(T0 + offsetMs),
+    value,
+  };
+}
+
+function readLines(file: string): unknown[] {
+  return fs
+    .readFileSync(file, 'utf-8')
+    .trimEnd()
+    .split('\n')
+    .map((line) => JSON.parse(line));
+}
+
+let dir: string;
+
+/** Segment file holding T0 */
+function segmentFile(resolution: HistoryResolution): string {
+  return segmentPath(dir, resolution, segmentStart(resolution, T0));
+}
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'replmon-history-'));
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('HistoryStore', () => {
+  test('appends raw samples to hourly segments and queries them back', async () => {
+    const store = new HistoryStore({ dir, retention });
+    await store.open(new Date(T0));
+
+    for (let i = 0; i < 3; i++) {
+      store.record([sample(i * 1000, i * 10)], new Date(T0 + i * 1000));
+    }
+    await store.flush();
+
+    expect(readLines(segmentFile('raw'))).toEqual([
+      { t: T0, m: 'lag_bytes', n: 'replica', s: 'sub1', v: 0 },
+      { t: T0 + 1000, m: 'lag_bytes', n: 'replica', s: 'sub1', v: 10 },
+      { t: T0 + 2000, m: 'lag_bytes', n: 'replica', s: 'sub1', v: 20 },
+    ]);
+
+    const result = await store.query(
+      { metric: 'lag_bytes', nodeId: 'replica', subject: 'sub1', from: new Date(T0), to: new Date(T0 + 1000) },
+      new Date(T0 + 2000)
+    );
+    expect(result.resolution).toBe('raw');
+    expect(result.points.map((p) => p.last)).toEqual([0, 10]);
+    await store.close();
+  });
+
+  test('writes 1m rollups once the bucket has passed', async () => {
+    const store = new HistoryStore({ dir, retention });
+    await store.open(new Date(T0));
+
+    store.record([sample(0, 10)], new Date(T0));
+    store.record([sample(20_000, 40)], new Date(T0 + 20_000));
+    store.record([sample(40_000, 30)], new Date(T0 + 40_000));
+    store.record([sample(60_000, 5)], new Date(T0 + 60_000));
+    await store.flush();
+
+    expect(readLines(segmentFile('1m'))).toEqual([
+      { t: T0, m: 'lag_bytes', n: 'replica', s: 'sub1', min: 10, max: 40, avg: 80 / 3, last: 30, c: 3 },
+    ]);
+
+    // The open bucket is included in rollup queries
+    const result = await store.query(
+      {
+        metric: 'lag_bytes',
+        nodeId: 'replica',
+        subject: 'sub1',
+        from: new Date(T0),
+        to: new Date(T0 + 60_000),
+        resolution: '1m',
+      },
+      new Date(T0 + 60_000)
+    );
+    expect(result.points.map((p) => [p.max, p.count])).toEqual([
+      [40, 3],
+      [5, 1],
+    ]);
+    await store.close();
+  });
+
+  test('closes buckets of series that stopped reporting', async () => {
+    const store = new HistoryStore({ dir, retention });
+    await store.open(new Date(T0));
+
+    store.record([sample(0, 10, 'slot_retention')], new Date(T0));
+    store.record([], new Date(T0 + 61_000));
+    await store.flush();
+
+    expect(readLines(segmentFile('1m'))).toHaveLength(1);
+    await store.close();
+  });
+
+  test('rebuilds rollups that were open at exit from raw samples', async () => {
+    const first = new HistoryStore({ dir, retention });
+    await first.open(new Date(T0));
+    first.record([sample(0, 10)], new Date(T0));
+    first.record([sample(30_000, 50)], new Date(T0 + 30_000));
+    await first.close();
+
+    expect(fs.existsSync(segmentFile('1m'))).toBe(false);
+
+    const second = new HistoryStore({ dir, retention });
+    await second.open(new Date(T0 + 11 * 60_000));
+    await second.close();
+
+    expect(readLines(segmentFile('1m'))).toEqual([
+      { t: T0, m: 'lag_bytes', n: 'replica', s: 'sub1', min: 10, max: 50, avg: 30, last: 50, c: 2 },
+    ]);
+    expect(readLines(segmentFile('10m'))).toHaveLength(1);
+
+    // Reopening does not write the same buckets again
+    const third = new HistoryStore({ dir, retention });
+    await third.open(new Date(T0 + 12 * 60_000));
+    await third.close();
+    expect(readLines(segmentFile('1m'))).toHaveLength(1);
+  });
+
+  test('deletes segments past their retention', async () => {
+    const store = new HistoryStore({ dir, retention });
+    await store.open(new Date(T0));
+    store.record([sample(0, 1)], new Date(T0));
+    await store.close();
+
+    const later = new HistoryStore({ dir, retention });
+    await later.open(new Date(T0 + 7 * HOUR));
+    await later.close();
+
+    expect(fs.existsSync(segmentFile('raw'))).toBe(false);
+    expect(fs.existsSync(segmentFile('1m'))).toBe(true);
+  });
+
+  test('skips malformed lines left by an interrupted write', async () => {
+    const store = new HistoryStore({ dir, retention });
+    await store.open(new Date(T0));
+    store.record([sample(0, 7)], new Date(T0));
+    await store.flush();
+    fs.appendFileSync(segmentFile('raw'), '{"t":17');
+
+    const result = await store.query({
+      metric: 'lag_bytes',
+      nodeId: 'replica',
+      subject: 'sub1',
+      from: new Date(T0),
+      to: new Date(T0 + 1000),
+      resolution: 'raw',
+    });
+    expect(result.points.map((p) => p.last)).toEqual([7]);
+    expect(decodeRecord('{"t":17')).toBeNull();
+    await store.close();
+  });
+
+  test('readLagHistory pairs lag bytes with lag seconds', async () => {
+    const store = new HistoryStore({ dir, retention });
+    await store.open(new Date(T0));
+    store.record([sample(0, 100), sample(0, 2, 'lag_seconds')], new Date(T0));
+    store.record([sample(1000, 200)], new Date(T0 + 1000));
+
+    const history = await store.readLagHistory(new Date(T0), new Date(T0 + 1000));
+    expect(history.get('replica:sub1')).toEqual([
+      { timestamp: new Date(T0), lagBytes: 100, lagSeconds: 2 },
+      { timestamp: new Date(T0 + 1000), lagBytes: 200, lagSeconds: null },
+    ]);
+    await store.close();
+  });
+});
+
+describe('pickResolution', () => {
+  const now = T0;
+
+  test('uses raw samples for short recent ranges', () => {
+    expect(pickResolution(now - HOUR, now, now, retention)).toBe('raw');
+  });
+
+  test('uses 1m rollups up to a day', () => {
+    expect(pickResolution(now - DAY, now, now, retention)).toBe('1m');
+    // Short range older than raw retention
+    expect(pickResolution(now - 8 * HOUR, now - 7 * HOUR, now, retention)).toBe('1m');
+  });
+
+  test('uses 10m rollups for longer ranges', () => {
+    expect(pickResolution(now - 7 * DAY, now, now, retention)).toBe('10m');
+  });
+});
+
+describe('collectHistorySamples', () => {
+  test('collects lag, slot retention, and native conflict totals', () => {
+    const completedAt = new Date(T0);
+    const result = {
+      cycleId: 'c1',
+      startedAt: completedAt,
+      completedAt,
+      durationMs: 5,
+      stats: [],
+      subscriptions: [
+        {
+          nodeId: 'replica',
+          nodeName: 'replica',
+          success: true,
+          durationMs: 1,
+          hasPglogical: false,
+          data: [
+            { subscriptionName: 'sub1', timestamp: completedAt },
+            { subscriptionName: 'stale', timestamp: completedAt },
+          ],
+        },
+      ],
+      slots: [
+        {
+          nodeId: 'primary',
+          nodeName: 'primary',
+          success: true,
+          durationMs: 1,
+          hasPglogical: false,
+          data: [{ slotName: 'slot1', retainedBytes: 4096 }],
+        },
+      ],
+      conflicts: [
+        {
+          nodeId: 'replica',
+          nodeName: 'replica',
+          success: true,
+          durationMs: 1,
+          hasPglogical: false,
+          data: [
+            {
+              subscriptionName: 'sub1',
+              insertConflicts: 1,
+              updateOriginDiffers: 0,
+              updateExists: 2,
+              updateMissing: 0,
+              deleteOriginDiffers: 0,
+              deleteMissing: 3,
+              multipleUniqueConflicts: 0,
+              source: 'native',
+            },
+          ],
+        },
+      ],
+      conflictEvents: [],
+      tableSync: [],
+      slotStats: [],
+      walReceivers: [],
+      publications: [],
+      capabilities: [],
+    } as unknown as PollingCycleResult;
+
+    const lagHistory = new Map<string, LagSample[]>([
+      ['replica:sub1', [{ timestamp: completedAt, lagBytes: 512, lagSeconds: 1.5 }]],
+      // Last sample is from an earlier cycle
+      ['replica:stale', [{ timestamp: new Date(T0 - 1000), lagBytes: 1, lagSeconds: null }]],
+    ]);
+
+    const samples = collectHistorySamples(result, lagHistory);
+    expect(samples.map((s) => [s.metric, s.nodeId, s.subject, s.value])).toEqual([
+      ['lag_bytes', 'replica', 'sub1', 512],
+      ['lag_seconds', 'replica', 'sub1', 1.5],
+      ['slot_retention', 'primary', 'slot1', 4096],
+      ['conflicts', 'replica', 'sub1', 6],
+    ]);
+  });
+});
@@ -0,0 +1,545 @@
+/**
+ * HistoryStore
+ *
+ * Persistent time-series store for lag, slot retention, and conflict counts
+ * per node and subscription/slot, kept under `history.path`
+ * (default: ~/.replmon/history) so past lag survives restarts.
+ *
+ * Features:
+ * - Append-only NDJSON segment files per resolution (see segments.ts)
+ * - Raw polling samples downsampled into 1m and 10m rollups (min/max/avg/last)
+ * - Per-resolution retention by deleting whole segments
+ * - Rollups that were still open at exit are rebuilt from raw samples on open
+ * - Queries pick the finest resolution that covers the requested range
+ */
+
+import { EventEmitter } from 'events';
+import { readFile } from 'fs/promises';
+
+import type { PollingCycleResult } from '../polling/types.js';
+import type { LagSample } from '../../store/types.js';
+import { totalConflicts } from '../../utils/conflicts.js';
+import { RollupAccumulator } from './rollup.js';
+import {
+  RESOLUTION_MS,
+  appendRecords,
+  decodeRecord,
+  listSegments,
+  pruneSegments,
+  readRecords,
+} from './segments.js';
+import type {
+  HistoryPoint,
+  HistoryQuery,
+  HistoryQueryResult,
+  HistoryRecord,
+  HistoryResolution,
+  HistorySample,
+  HistorySeries,
+  HistoryStoreEvents,
+  HistoryStoreOptions,
+} from './types.js';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Resolutions written by downsampling */
+const ROLLUP_RESOLUTIONS = ['1m', '10m'] as const;
+
+/** How often expired segments are deleted while recording */
+const PRUNE_INTERVAL_MS = 3_600_000;
+
+/** Longest range served from raw samples */
+const RAW_MAX_SPAN_MS = 3_600_000;
+
+/** Longest range served from 1-minute rollups */
+const ONE_MINUTE_MAX_SPAN_MS = 86_400_000;
+
+// =============================================================================
+// TypedEventEmitter for HistoryStoreEvents
+// =============================================================================
+
+/**
+ * Type-safe event emitter for history store events.
+ */
+class HistoryEventEmitter {
+  private emitter: EventEmitter;
+
+  constructor() {
+    this.emitter = new EventEmitter();
+  }
+
+  on<K extends keyof HistoryStoreEvents>(
+    event: K,
+    handler: (payload: HistoryStoreEvents[K]) => void
+  ): void {
+    this.emitter.on(event, handler);
+  }
+
+  off<K extends keyof HistoryStoreEvents>(
+    event: K,
+    handler: (payload: HistoryStoreEvents[K]) => void
+  ): void {
+    this.emitter.off(event, handler);
+  }
+
+  emit<K extends keyof HistoryStoreEvents>(event: K, payload: HistoryStoreEvents[K]): boolean {
+    return this.emitter.emit(event, payload);
+  }
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function toError(error: unknown): Error {
+  return error instanceof Error ? error : new Error(String(error));
+}
+
+function toRawRecord(sample: HistorySample): HistoryRecord {
+  return {
+    metric: sample.metric,
+    nodeId: sample.nodeId,
+    subject: sample.subject,
+    timestamp: sample.timestamp,
+    min: sample.value,
+    max: sample.value,
+    avg: sample.value,
+    last: sample.value,
+    count: 1,
+  };
+}
+
+function toSample(record: HistoryRecord): HistorySample {
+  return {
+    metric: record.metric,
+    nodeId: record.nodeId,
+    subject: record.subject,
+    timestamp: record.timestamp,
+    value: record.last,
+  };
+}
+
+function isSeries(record: HistorySeries, series: HistorySeries): boolean {
+  return (
+    record.metric === series.metric &&
+    record.nodeId === series.nodeId &&
+    record.subject === series.subject
+  );
+}
+
+/**
+ * Order points by time and combine points sharing a timestamp
+ * (e.g., two replmon processes recording the same cluster).
+ */
+export function mergePoints(records: HistoryPoint[]): HistoryPoint[] {
+  const sorted = [...records].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  const merged: HistoryPoint[] = [];
+
+  for (const record of sorted) {
+    const previous = merged[merged.length - 1];
+    if (previous && previous.timestamp.getTime() === record.timestamp.getTime()) {
+      const count = previous.count + record.count;
+      merged[merged.length - 1] = {
+        timestamp: previous.timestamp,
+        min: Math.min(previous.min, record.min),
+        max: Math.max(previous.max, record.max),
+        avg: (previous.avg * previous.count + record.avg * record.count) / count,
+        last: record.last,
+        count,
+      };
+      continue;
+    }
+    merged.push({
+      timestamp: record.timestamp,
+      min: record.min,
+      max: record.max,
+      avg: record.avg,
+      last: record.last,
+      count: record.count,
+    });
+  }
+
+  return merged;
+}
+
+/**
+ * Pick the finest resolution that is still retained at the range start
+ * and keeps the number of points manageable.
+ *
+ * @param from - Range start (ms)
+ * @param to - Range end (ms)
+ * @param now - Current time (ms)
+ * @param retention - Retention per resolution (seconds)
+ */
+export function pickResolution(
+  from: number,
+  to: number,
+  now: number,
+  retention: Record<HistoryResolution, number>
+): HistoryResolution {
+  const span = to - from;
+  const age = now - from;
+  if (span <= RAW_MAX_SPAN_MS && age <= retention.raw * 1000) return 'raw';
+  if (span <= ONE_MINUTE_MAX_SPAN_MS && age <= retention['1m'] * 1000) return '1m';
+  return '10m';
+}
+
+/**
+ * Extract history samples from a polling cycle.
+ *
+ * Lag comes from the store's lag history (after handlePollingData), which
+ * already matches subscriptions to provider slots and standby stats.
+ *
+ * @param result - Completed polling cycle
+ * @param lagHistory - Store lag history (key: `${nodeId}:${subscriptionName}`)
+ * @returns Samples timestamped at cycle completion
+ */
+export function collectHistorySamples(
+  result: PollingCycleResult,
+  lagHistory: Map<string, LagSample[]>
+): HistorySample[] {
+  const samples: HistorySample[] = [];
+  const timestamp = result.completedAt;
+
+  for (const nodeData of result.subscriptions) {
+    if (!nodeData.success || !nodeData.data) continue;
+    for (const sub of nodeData.data) {
+      const history = lagHistory.get(`${nodeData.nodeId}:${sub.subscriptionName}`);
+      const latest = history?.[history.length - 1];
+      // Only the sample appended for this cycle
+      if (!latest || latest.timestamp.getTime() !== sub.timestamp.getTime()) continue;
+
+      const series = { nodeId: nodeData.nodeId, subject: sub.subscriptionName };
+      samples.push({ ...series, metric: 'lag_bytes', timestamp, value: latest.lagBytes });
+      if (latest.lagSeconds !== null) {
+        samples.push({ ...series, metric: 'lag_seconds', timestamp, value: latest.lagSeconds });
+      }
+    }
+  }
+
+  for (const nodeData of result.slots) {
+    if (!nodeData.success || !nodeData.data) continue;
+    for (const slot of nodeData.data) {
+      samples.push({
+        metric: 'slot_retention',
+        nodeId: nodeData.nodeId,
+        subject: slot.slotName,
+        timestamp,
+        value: slot.retainedBytes,
+      });
+    }
+  }
+
+  for (const nodeData of result.conflicts) {
+    if (!nodeData.success || !nodeData.data) continue;
+    for (const row of nodeData.data) {
+      if (row.source !== 'native') continue;
+      samples.push({
+        metric: 'conflicts',
+        nodeId: nodeData.nodeId,
+        subject: row.subscriptionName,
+        timestamp,
+        value: totalConflicts(row),
+      });
+    }
+  }
+
+  return samples;
+}
+
+// =============================================================================
+// HistoryStore Class
+// =============================================================================
+
+/**
+ * Records polling samples to disk and serves time range queries.
+ *
+ * All file operations run on a single chain, so samples recorded before
+ * `open()` completes are written after the rollups have been rebuilt.
+ */
+export class HistoryStore {
+  private readonly dir: string;
+  private readonly retention: Record<HistoryResolution, number>;
+  private readonly events: HistoryEventEmitter;
+  private readonly rollups: Record<(typeof ROLLUP_RESOLUTIONS)[number], RollupAccumulator>;
+  private tail: Promise<void> = Promise.resolve();
+  private lastPruneAt = 0;
+  private closed = false;
+
+  constructor(options: HistoryStoreOptions) {
+    this.dir = options.dir;
+    this.retention = options.retention;
+    this.events = new HistoryEventEmitter();
+    this.rollups = {
+      '1m': new RollupAccumulator(RESOLUTION_MS['1m']),
+      '10m': new RollupAccumulator(RESOLUTION_MS['10m']),
+    };
+  }
+
+  // ===========================================================================
+  // Public API
+  // ===========================================================================
+
+  /**
+   * Rebuild rollup buckets that were not written before the last exit
+   * from the retained raw samples, then delete expired segments.
+   */
+  async open(now: Date = new Date()): Promise<void> {
+    this.tail = this.tail.then(() => this.initialize(now.getTime()));
+    await this.tail;
+  }
+
+  /**
+   * Queue samples from one polling cycle for writing.
+   * Returns immediately; failures are reported as `failed` events.
+   *
+   * @param samples - Samples to record
+   * @param now - Cycle completion time (closes finished rollup buckets)
+   */
+  record(samples: HistorySample[], now: Date = new Date()): void {
+    if (this.closed) return;
+    this.tail = this.tail.then(() => this.write(samples, now.getTime()));
+  }
+
+  /**
+   * Read one series over a time range.
+   * Rollup queries include the bucket that is still open.
+   */
+  async query(query: HistoryQuery, now: Date = new Date()): Promise<HistoryQueryResult> {
+    await this.tail;
+
+    const from = query.from.getTime();
+    const to = query.to.getTime();
+    const resolution =
+      query.resolution ?? pickResolution(from, to, now.getTime(), this.retention);
+
+    const records: HistoryPoint[] = await readRecords(this.dir, resolution, from, to, (record) =>
+      isSeries(record, query)
+    );
+
+    if (resolution !== 'raw') {
+      const open = this.rollups[resolution].peek(query);
+      const start = open?.timestamp.getTime();
+      if (open && start !== undefined && start >= from && start <= to) {
+        records.push(open);
+      }
+    }
+
+    return { resolution, points: mergePoints(records) };
+  }
+
+  /**
+   * Read raw lag samples in the store's lag history shape
+   * (key: `${nodeId}:${subscriptionName}`), e.g. to restore sparklines
+   * after a restart.
+   */
+  async readLagHistory(from: Date, to: Date): Promise<Map<string, LagSample[]>> {
+    await this.tail;
+
+    const records = await readRecords(
+      this.dir,
+      'raw',
+      from.getTime(),
+      to.getTime(),
+      (record) => record.metric === 'lag_bytes' || record.metric === 'lag_seconds'
+    );
+
+    // lag_seconds is recorded alongside lag_bytes with the same timestamp
+    const seconds = new Map<string, number>();
+    for (const record of records) {
+      if (record.metric === 'lag_seconds') {
+        seconds.set(`${record.nodeId}:${record.subject}@${record.timestamp.getTime()}`, record.last);
+      }
+    }
+
+    const history = new Map<string, LagSample[]>();
+    for (const record of records) {
+      if (record.metric !== 'lag_bytes') continue;
+      const key = `${record.nodeId}:${record.subject}`;
+      const samples = history.get(key) ?? [];
+      samples.push({
+        timestamp: record.timestamp,
+        lagBytes: record.last,
+        lagSeconds: seconds.get(`${key}@${record.timestamp.getTime()}`) ?? null,
+      });
+      history.set(key, samples);
+    }
+    for (const samples of history.values()) {
+      samples.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    }
+
+    return history;
+  }
+
+  /**
+   * Wait until all queued writes have completed.
+   */
+  async flush(): Promise<void> {
+    await this.tail;
+  }
+
+  /**
+   * Stop accepting samples and wait for queued writes.
+   * Open rollup buckets are not written; they are rebuilt on the next open.
+   */
+  async close(): Promise<void> {
+    this.closed = true;
+    await this.tail;
+  }
+
+  // ===========================================================================
+  // Event Subscription
+  // ===========================================================================
+
+  /**
+   * Subscribe to a history store event.
+   */
+  on<K extends keyof HistoryStoreEvents>(
+    event: K,
+    handler: (payload: HistoryStoreEvents[K]) => void
+  ): void {
+    this.events.on(event, handler);
+  }
+
+  /**
+   * Unsubscribe from a history store event.
+   */
+  off<K extends keyof HistoryStoreEvents>(
+    event: K,
+    handler: (payload: HistoryStoreEvents[K]) => void
+  ): void {
+    this.events.off(event, handler);
+  }
+
+  // ===========================================================================
+  // Private: Writing
+  // ===========================================================================
+
+  private async write(samples: HistorySample[], now: number): Promise<void> {
+    try {
+      await appendRecords(this.dir, 'raw', samples.map(toRawRecord));
+      for (const resolution of ROLLUP_RESOLUTIONS) {
+        await appendRecords(this.dir, resolution, this.accumulate(resolution, samples, now));
+      }
+    } catch (error) {
+      this.events.emit('failed', { operation: 'write', error: toError(error) });
+    }
+
+    if (now - this.lastPruneAt >= PRUNE_INTERVAL_MS) {
+      await this.prune(now);
+    }
+  }
+
+  /**
+   * Add samples to a rollup and collect the buckets they completed.
+   */
+  private accumulate(
+    resolution: (typeof ROLLUP_RESOLUTIONS)[number],
+    samples: HistorySample[],
+    now: number
+  ): HistoryRecord[] {
+    const accumulator = this.rollups[resolution];
+    const completed: HistoryRecord[] = [];
+    for (const sample of samples) {
+      const record = accumulator.add(sample);
+      if (record) completed.push(record);
+    }
+    completed.push(...accumulator.drain(now));
+    return completed;
+  }
+
+  // ===========================================================================
+  // Private: Startup & Retention
+  // ===========================================================================
+
+  private async initialize(now: number): Promise<void> {
+    try {
+      // Rebuild each rollup from the end of its last written bucket,
+      // using whatever raw segments are still on disk
+      const since = {
+        '1m': (await this.lastBucketEnd('1m')) ?? 0,
+        '10m': (await this.lastBucketEnd('10m')) ?? 0,
+      };
+
+      const raw = await readRecords(this.dir, 'raw', Math.min(since['1m'], since['10m']), now);
+      raw.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+      for (const resolution of ROLLUP_RESOLUTIONS) {
+        const samples = raw
+          .filter((record) => record.timestamp.getTime() >= since[resolution])
+          .map(toSample);
+        await appendRecords(this.dir, resolution, this.accumulate(resolution, samples, now));
+      }
+    } catch (error) {
+      this.events.emit('failed', { operation: 'read', error: toError(error) });
+    }
+
+    // After the rebuild, which may read raw samples that are about to expire
+    await this.prune(now);
+  }
+
+  /**
+   * End of the newest bucket written for a rollup resolution.
+   */
+  private async lastBucketEnd(resolution: HistoryResolution): Promise<number | null> {
+    const segments = await listSegments(this.dir, resolution);
+    const newest = segments[segments.length - 1];
+    if (!newest) return null;
+
+    let latest: number | null = null;
+    const content = await readFile(newest.file, 'utf-8');
+    for (const line of content.split('\n')) {
+      const record = line ? decodeRecord(line) : null;
+      if (record && (latest === null || record.timestamp.getTime() > latest)) {
+        latest = record.timestamp.getTime();
+      }
+    }
+    return latest === null ? null : latest + RESOLUTION_MS[resolution];
+  }
+
+  private async prune(now: number): Promise<void> {
+    this.lastPruneAt = now;
+    try {
+      for (const resolution of ['raw', ...ROLLUP_RESOLUTIONS] as const) {
+        await pruneSegments(this.dir, resolution, now - this.retention[resolution] * 1000);
+      }
+    } catch (error) {
+      this.events.emit('failed', { operation: 'prune', error: toError(error) });
+    }
+  }
+}
+
+// =============================================================================
+// Factory Function
+// =============================================================================
+
+/**
+ * Create a new HistoryStore instance.
+ *
+ * @param options - Directory and retention per resolution
+ * @returns HistoryStore instance (call `open()` before recording)
+ */
+export function createHistoryStore(options: HistoryStoreOptions): HistoryStore {
+  return new HistoryStore(options);
+}
+
+// =============================================================================
+// Re-exports
+// =============================================================================
+
+export { getSeriesKey, RollupAccumulator } from './rollup.js';
+export { RESOLUTION_MS, SEGMENT_MS } from './segments.js';
+export type {
+  HistoryMetric,
+  HistoryPoint,
+  HistoryQuery,
+  HistoryQueryResult,
+  HistoryRecord,
+  HistoryResolution,
+  HistorySample,
+  HistorySeries,
+  HistoryStoreEvents,
+  HistoryStoreOptions,
+} from './types.js';
@@ -0,0 +1,112 @@
+/**
+ * Rollup Accumulator
+ *
+ * Downsamples raw samples into fixed-size time buckets (min/max/avg/last)
+ * per series. A bucket is complete once time has moved past its end.
+ */
+
+import type { HistoryRecord, HistorySample, HistorySeries } from './types.js';
+
+/**
+ * Running aggregates for the open bucket of one series.
+ */
+interface Bucket extends HistorySeries {
+  start: number;
+  min: number;
+  max: number;
+  sum: number;
+  last: number;
+  count: number;
+}
+
+/**
+ * Key identifying a series.
+ */
+export function getSeriesKey(series: HistorySeries): string {
+  return `${series.metric}:${series.nodeId}:${series.subject}`;
+}
+
+function toRecord(bucket: Bucket): HistoryRecord {
+  return {
+    metric: bucket.metric,
+    nodeId: bucket.nodeId,
+    subject: bucket.subject,
+    timestamp: new Date(bucket.start),
+    min: bucket.min,
+    max: bucket.max,
+    avg: bucket.sum / bucket.count,
+    last: bucket.last,
+    count: bucket.count,
+  };
+}
+
+/**
+ * Aggregates samples into buckets of a fixed size.
+ */
+export class RollupAccumulator {
+  private readonly bucketMs: number;
+  private readonly buckets = new Map<string, Bucket>();
+
+  constructor(bucketMs: number) {
+    this.bucketMs = bucketMs;
+  }
+
+  /**
+   * Add a sample to its series' open bucket.
+   *
+   * @returns The previous bucket if the sample starts a new one
+   */
+  add(sample: HistorySample): HistoryRecord | null {
+    const key = getSeriesKey(sample);
+    const time = sample.timestamp.getTime();
+    const start = Math.floor(time / this.bucketMs) * this.bucketMs;
+    const bucket = this.buckets.get(key);
+
+    if (bucket && bucket.start === start) {
+      bucket.min = Math.min(bucket.min, sample.value);
+      bucket.max = Math.max(bucket.max, sample.value);
+      bucket.sum += sample.value;
+      bucket.last = sample.value;
+      bucket.count++;
+      return null;
+    }
+
+    this.buckets.set(key, {
+      metric: sample.metric,
+      nodeId: sample.nodeId,
+      subject: sample.subject,
+      start,
+      min: sample.value,
+      max: sample.value,
+      sum: sample.value,
+      last: sample.value,
+      count: 1,
+    });
+    return bucket ? toRecord(bucket) : null;
+  }
+
+  /**
+   * Close every bucket that ends at or before the given time.
+   * Covers series that stopped reporting (dropped slot, node down).
+   *
+   * @returns Completed buckets
+   */
+  drain(before: number): HistoryRecord[] {
+    const completed: HistoryRecord[] = [];
+    for (const [key, bucket] of this.buckets) {
+      if (bucket.start + this.bucketMs <= before) {
+        completed.push(toRecord(bucket));
+        this.buckets.delete(key);
+      }
+    }
+    return completed;
+  }
+
+  /**
+   * Open (incomplete) bucket for a series, if any.
+   */
+  peek(series: HistorySeries): HistoryRecord | null {
+    const bucket = this.buckets.get(getSeriesKey(series));
+    return bucket ? toRecord(bucket) : null;
+  }
+}
@@ -0,0 +1,252 @@
+/**
+ * History Segment Files
+ *
+ * On-disk layout for the history store. Each resolution has its own
+ * directory of append-only NDJSON segment files, one per time span:
+ *
+ *   <dir>/raw/2026-01-01T13.ndjson   one hour of raw samples
+ *   <dir>/1m/2026-01-01T00.ndjson    one day of 1-minute rollups
+ *   <dir>/10m/2026-01-01T00.ndjson   one day of 10-minute rollups
+ *
+ * Retention is applied by deleting whole segments.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+import type { HistoryMetric, HistoryRecord, HistoryResolution } from './types.js';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Bucket size per resolution (raw samples are not bucketed) */
+export const RESOLUTION_MS: Record<HistoryResolution, number> = {
+  raw: 0,
+  '1m': 60_000,
+  '10m': 600_000,
+};
+
+/** Time span covered by one segment file per resolution */
+export const SEGMENT_MS: Record<HistoryResolution, number> = {
+  raw: 3_600_000,
+  '1m': 86_400_000,
+  '10m': 86_400_000,
+};
+
+const SEGMENT_EXTENSION = '.ndjson';
+
+const METRICS: ReadonlySet<string> = new Set<HistoryMetric>([
+  'lag_bytes',
+  'lag_seconds',
+  'slot_retention',
+  'conflicts',
+]);
+
+// =============================================================================
+// Segment Naming
+// =============================================================================
+
+/**
+ * A segment file and the start of the span it covers.
+ */
+export interface Segment {
+  /** Span start (ms since epoch, UTC) */
+  start: number;
+  /** Absolute file path */
+  file: string;
+}
+
+/**
+ * Start of the segment span containing a timestamp.
+ */
+export function segmentStart(resolution: HistoryResolution, timestamp: number): number {
+  const span = SEGMENT_MS[resolution];
+  return Math.floor(timestamp / span) * span;
+}
+
+/**
+ * Segment file path for a span start.
+ *
+ * @example segmentPath('/h', 'raw', Date.UTC(2026, 0, 1, 13)) // "/h/raw/2026-01-01T13.ndjson"
+ */
+export function segmentPath(dir: string, resolution: HistoryResolution, start: number): string {
+  const name = new Date(start).toISOString().slice(0, 13);
+  return path.join(dir, resolution, `${name}${SEGMENT_EXTENSION}`);
+}
+
+/**
+ * List segment files for a resolution, oldest first.
+ * Unrecognized files are ignored; a missing directory yields no segments.
+ */
+export async function listSegments(dir: string, resolution: HistoryResolution): Promise<Segment[]> {
+  let names: string[];
+  try {
+    names = await fs.readdir(path.join(dir, resolution));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+
+  const segments: Segment[] = [];
+  for (const name of names) {
+    if (!name.endsWith(SEGMENT_EXTENSION)) continue;
+    const start = Date.parse(`${name.slice(0, -SEGMENT_EXTENSION.length)}:00:00.000Z`);
+    if (isNaN(start)) continue;
+    segments.push({ start, file: path.join(dir, resolution, name) });
+  }
+  return segments.sort((a, b) => a.start - b.start);
+}
+
+// =============================================================================
+// Record Encoding
+// =============================================================================
+
+/**
+ * Encode a record as one NDJSON line.
+ * Raw samples store a single value; rollups store the bucket aggregates.
+ */
+export function encodeRecord(resolution: HistoryResolution, record: HistoryRecord): string {
+  const base = { t: record.timestamp.getTime(), m: record.metric, n: record.nodeId, s: record.subject };
+  const line =
+    resolution === 'raw'
+      ? { ...base, v: record.last }
+      : { ...base, min: record.min, max: record.max, avg: record.avg, last: record.last, c: record.count };
+  return JSON.stringify(line);
+}
+
+/**
+ * Decode one NDJSON line. Returns null for malformed lines
+ * (e.g., a partial line left by a crash mid-write).
+ */
+export function decodeRecord(line: string): HistoryRecord | null {
+  let raw: Record<string, unknown>;
+  try {
+    raw = JSON.parse(line) as Record<string, unknown>;
+  } catch {
+    return null;
+  }
+  if (
+    raw === null ||
+    typeof raw !== 'object' ||
+    typeof raw['t'] !== 'number' ||
+    typeof raw['m'] !== 'string' ||
+    !METRICS.has(raw['m']) ||
+    typeof raw['n'] !== 'string' ||
+    typeof raw['s'] !== 'string'
+  ) {
+    return null;
+  }
+
+  const series = {
+    timestamp: new Date(raw['t']),
+    metric: raw['m'] as HistoryMetric,
+    nodeId: raw['n'],
+    subject: raw['s'],
+  };
+
+  if (typeof raw['v'] === 'number') {
+    const value = raw['v'];
+    return { ...series, min: value, max: value, avg: value, last: value, count: 1 };
+  }
+
+  const { min, max, avg, last, c } = raw;
+  if (
+    typeof min !== 'number' ||
+    typeof max !== 'number' ||
+    typeof avg !== 'number' ||
+    typeof last !== 'number' ||
+    typeof c !== 'number'
+  ) {
+    return null;
+  }
+  return { ...series, min, max, avg, last, count: c };
+}
+
+// =============================================================================
+// File Operations
+// =============================================================================
+
+/**
+ * Append records to the segments covering their timestamps.
+ */
+export async function appendRecords(
+  dir: string,
+  resolution: HistoryResolution,
+  records: HistoryRecord[]
+): Promise<void> {
+  if (records.length === 0) return;
+
+  const bySegment = new Map<number, string[]>();
+  for (const record of records) {
+    const start = segmentStart(resolution, record.timestamp.getTime());
+    const lines = bySegment.get(start) ?? [];
+    lines.push(encodeRecord(resolution, record));
+    bySegment.set(start, lines);
+  }
+
+  await fs.mkdir(path.join(dir, resolution), { recursive: true });
+  for (const [start, lines] of bySegment) {
+    await fs.appendFile(segmentPath(dir, resolution, start), lines.join('\n') + '\n', 'utf-8');
+  }
+}
+
+/**
+ * Read records with timestamps in [from, to] from the overlapping segments.
+ * Records are returned in file order (append order).
+ */
+export async function readRecords(
+  dir: string,
+  resolution: HistoryResolution,
+  from: number,
+  to: number,
+  filter?: (record: HistoryRecord) => boolean
+): Promise<HistoryRecord[]> {
+  const span = SEGMENT_MS[resolution];
+  const records: HistoryRecord[] = [];
+
+  for (const segment of await listSegments(dir, resolution)) {
+    if (segment.start + span <= from || segment.start > to) continue;
+
+    let content: string;
+    try {
+      content = await fs.readFile(segment.file, 'utf-8');
+    } catch (error) {
+      // Pruned between listing and reading
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') continue;
+      throw error;
+    }
+
+    for (const line of content.split('\n')) {
+      if (line === '') continue;
+      const record = decodeRecord(line);
+      if (!record) continue;
+      const time = record.timestamp.getTime();
+      if (time < from || time > to) continue;
+      if (filter && !filter(record)) continue;
+      records.push(record);
+    }
+  }
+
+  return records;
+}
+
+/**
+ * Delete segments that end before the cutoff.
+ *
+ * @returns Number of deleted segment files
+ */
+export async function pruneSegments(
+  dir: string,
+  resolution: HistoryResolution,
+  cutoff: number
+): Promise<number> {
+  const span = SEGMENT_MS[resolution];
+  let deleted = 0;
+  for (const segment of await listSegments(dir, resolution)) {
+    if (segment.start + span > cutoff) break;
+    await fs.rm(segment.file, { force: true });
+    deleted++;
+  }
+  return deleted;
+}
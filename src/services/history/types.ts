@@ -0,0 +1,116 @@
+/**
+ * History Store Types
+ *
+ * Type definitions for the persistent lag history: raw polling samples and
+ * 1m/10m rollups stored as append-only NDJSON segment files.
+ */
+
+import type { HistoryResolution } from '../../config/defaults.js';
+
+export type { HistoryResolution };
+
+// =============================================================================
+// Samples
+// =============================================================================
+
+/**
+ * Recorded metric.
+ * - lag_bytes / lag_seconds: per subscription
+ * - slot_retention: WAL bytes retained, per slot
+ * - conflicts: native conflict counter total, per subscription
+ */
+export type HistoryMetric = 'lag_bytes' | 'lag_seconds' | 'slot_retention' | 'conflicts';
+
+/**
+ * Identifies one time series.
+ */
+export interface HistorySeries {
+  /** Recorded metric */
+  metric: HistoryMetric;
+  /** Node the value was measured on */
+  nodeId: string;
+  /** Subscription or slot name */
+  subject: string;
+}
+
+/**
+ * A single measurement from a polling cycle.
+ */
+export interface HistorySample extends HistorySeries {
+  /** When the cycle completed */
+  timestamp: Date;
+  /** Measured value */
+  value: number;
+}
+
+/**
+ * One point of a series at a given resolution.
+ * Raw points have min = max = avg = last and count = 1.
+ */
+export interface HistoryPoint {
+  /** Sample time, or bucket start for rollups */
+  timestamp: Date;
+  /** Smallest value in the bucket */
+  min: number;
+  /** Largest value in the bucket */
+  max: number;
+  /** Mean value in the bucket */
+  avg: number;
+  /** Latest value in the bucket */
+  last: number;
+  /** Number of raw samples in the bucket */
+  count: number;
+}
+
+/**
+ * A stored point with its series, as read from a segment file.
+ */
+export interface HistoryRecord extends HistorySeries, HistoryPoint {}
+
+// =============================================================================
+// Queries
+// =============================================================================
+
+/**
+ * Time range query for one series.
+ */
+export interface HistoryQuery extends HistorySeries {
+  /** Range start (inclusive) */
+  from: Date;
+  /** Range end (inclusive) */
+  to: Date;
+  /** Resolution to read (default: picked from the range length) */
+  resolution?: HistoryResolution;
+}
+
+/**
+ * Points returned by a query.
+ */
+export interface HistoryQueryResult {
+  /** Resolution the points were read at */
+  resolution: HistoryResolution;
+  /** Points ordered by time */
+  points: HistoryPoint[];
+}
+
+// =============================================================================
+// Options & Events
+// =============================================================================
+
+/**
+ * HistoryStore options.
+ */
+export interface HistoryStoreOptions {
+  /** Directory holding the segment files */
+  dir: string;
+  /** How long each resolution is kept (seconds) */
+  retention: Record<HistoryResolution, number>;
+}
+
+/**
+ * Event map for the HistoryStore typed EventEmitter.
+ */
+export interface HistoryStoreEvents {
+  /** A segment file could not be written, read, or pruned */
+  failed: { operation: 'write' | 'read' | 'prune'; error: Error };
+}
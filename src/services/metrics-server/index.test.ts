@@ -0,0 +1,116 @@
+/**
+ * Tests for the MetricsServer /metrics endpoint
+ */
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import { MetricsServer } from './index.js';
+import { useStore } from '../../store/index.js';
+
+/** Complete a polling cycle in the store with nothing to report */
+function completeCycle(): void {
+  const now = new Date();
+  useStore.getState().handlePollingData({
+    cycleId: `c${useStore.getState().pollingCycleCount + 1}`,
+    startedAt: now,
+    completedAt: now,
+    durationMs: 10,
+    stats: [],
+    subscriptions: [],
+    slots: [],
+    conflicts: [],
+    conflictEvents: [],
+    tableSync: [],
+    slotStats: [],
+    walReceivers: [],
+    walPositions: [],
+    publications: [],
+    sequences: [],
+    capabilities: [],
+  });
+}
+
+describe('MetricsServer', () => {
+  let server: MetricsServer;
+  let baseUrl: string;
+
+  beforeEach(async () => {
+    const state = useStore.getState();
+    state.clearReplicationData();
+    state.resetConnectionStates();
+
+    server = new MetricsServer({ host: '127.0.0.1', port: 0 });
+    await server.start();
+    baseUrl = `http://127.0.0.1:${server.getAddress()?.port}`;
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  test('listens on the port picked for port 0', () => {
+    expect(server.isRunning()).toBe(true);
+    expect(server.getAddress()?.port).toBeGreaterThan(0);
+  });
+
+  test('serves the exposition on GET /metrics', async () => {
+    const response = await fetch(`${baseUrl}/metrics`);
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toBe('text/plain; version=0.0.4; charset=utf-8');
+    expect(await response.text()).toContain('replmon_polling_cycles_total 0');
+  });
+
+  test('answers HEAD /metrics without a body', async () => {
+    const response = await fetch(`${baseUrl}/metrics`, { method: 'HEAD' });
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toBe('text/plain; version=0.0.4; charset=utf-8');
+    expect(await response.text()).toBe('');
+  });
+
+  test('returns 404 for other paths and 405 for other methods', async () => {
+    const notFound = await fetch(`${baseUrl}/`);
+    const notAllowed = await fetch(`${baseUrl}/metrics`, { method: 'POST' });
+
+    expect(notFound.status).toBe(404);
+    expect(await notFound.text()).toContain('/metrics');
+    expect(notAllowed.status).toBe(405);
+    expect(notAllowed.headers.get('allow')).toBe('GET, HEAD');
+    await notAllowed.text();
+  });
+
+  test('ignores the query string', async () => {
+    const response = await fetch(`${baseUrl}/metrics?name=replmon_node_up`);
+
+    expect(response.status).toBe(200);
+    await response.text();
+  });
+
+  test('rebuilds the exposition when a polling cycle completes', async () => {
+    await (await fetch(`${baseUrl}/metrics`)).text();
+
+    // Store changes between cycles are not picked up until the next cycle
+    useStore.getState().handlePollingError({
+      message: 'all nodes failed',
+      cycleId: 'c1',
+      nodeErrors: [],
+      timestamp: new Date(),
+    });
+    expect(await (await fetch(`${baseUrl}/metrics`)).text()).toContain(
+      'replmon_polling_errors_total 0'
+    );
+
+    completeCycle();
+    const body = await (await fetch(`${baseUrl}/metrics`)).text();
+
+    expect(body).toContain('replmon_polling_cycles_total 1');
+    expect(body).toContain('replmon_polling_errors_total 1');
+  });
+
+  test('stops listening on stop', async () => {
+    await server.stop();
+
+    expect(server.isRunning()).toBe(false);
+    expect(server.getAddress()).toBeNull();
+    await expect(fetch(`${baseUrl}/metrics`)).rejects.toThrow();
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * MetricsServer
+ *
+ * Serves the Prometheus text exposition of replmon's store state over HTTP
+ * so a Prometheus server can scrape it without anyone at the terminal.
+ *
+ * Features:
+ * - GET /metrics returns Prometheus text format (version 0.0.4)
+ * - Exposition is rebuilt from the store once per completed polling cycle
+ * - Configurable bind host and port (loopback by default)
+ * - Start/stop lifecycle with clean listener shutdown
+ */
+
+import * as http from 'http';
+
+import { useStore } from '../../store/index.js';
+import { metricsCollector } from '../operations/prometheus.js';
+import type { MetricsCollector } from '../../types/operations.js';
+import type { MetricsServerConfig } from './types.js';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Path the exposition is served on */
+const METRICS_PATH = '/metrics';
+
+/** Content type for Prometheus text exposition format 0.0.4 */
+const METRICS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+// =============================================================================
+// MetricsServer Class
+// =============================================================================
+
+/**
+ * HTTP server exposing store metrics at /metrics.
+ */
+export class MetricsServer {
+  private readonly config: MetricsServerConfig;
+  private readonly collector: MetricsCollector;
+  private server: http.Server | null = null;
+  private unsubscribe: (() => void) | null = null;
+  private body: string | null = null;
+
+  constructor(config: MetricsServerConfig, collector: MetricsCollector = metricsCollector) {
+    this.config = config;
+    this.collector = collector;
+  }
+
+  // ===========================================================================
+  // Lifecycle
+  // ===========================================================================
+
+  /**
+   * Start listening on the configured host and port.
+   * Resolves once the listener is bound; rejects on bind errors (e.g., EADDRINUSE).
+   */
+  async start(): Promise<void> {
+    if (this.server) {
+      return;
+    }
+
+    const server = http.createServer((req, res) => this.handleRequest(req, res));
+
+    await new Promise<void>((resolve, reject) => {
+      const onError = (err: Error): void => {
+        reject(
+          new Error(
+            `Metrics endpoint failed to listen on ${this.config.host}:${this.config.port}: ${err.message}`
+          )
+        );
+      };
+      server.once('error', onError);
+      server.listen(this.config.port, this.config.host, () => {
+        server.off('error', onError);
+        resolve();
+      });
+    });
+
+    this.server = server;
+
+    // Rebuild the exposition whenever a polling cycle lands in the store
+    this.unsubscribe = useStore.subscribe(
+      (state) => state.pollingCycleCount,
+      () => this.refresh()
+    );
+  }
+
+  /**
+   * Stop the listener and detach from the store.
+   */
+  async stop(): Promise<void> {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+
+    const server = this.server;
+    this.server = null;
+    this.body = null;
+
+    if (!server) {
+      return;
+    }
+
+    await new Promise<void>((resolve) => {
+      server.close(() => resolve());
+      server.closeAllConnections();
+    });
+  }
+
+  /**
+   * Check if the server is listening.
+   */
+  isRunning(): boolean {
+    return this.server !== null;
+  }
+
+  /**
+   * Get the bound address (useful when port 0 was requested).
+   */
+  getAddress(): { host: string; port: number } | null {
+    const address = this.server?.address();
+    if (!address || typeof address === 'string') {
+      return null;
+    }
+    return { host: address.address, port: address.port };
+  }
+
+  // ===========================================================================
+  // Exposition
+  // ===========================================================================
+
+  /**
+   * Rebuild the cached exposition from the current store state.
+   */
+  refresh(): void {
+    this.body = this.collector.formatAsPrometheus(this.collector.collectMetrics());
+  }
+
+  // ===========================================================================
+  // Private: Request Handling
+  // ===========================================================================
+
+  private handleRequest(req: http.IncomingMessage, res: http.ServerResponse): void {
+    const path = (req.url ?? '/').split('?')[0];
+
+    if (path !== METRICS_PATH) {
+      res.writeHead(404, { 'Content-Type': 'text/plain; charset=utf-8' });
+      res.end(`Not found. Metrics are served at ${METRICS_PATH}\n`);
+      return;
+    }
+
+    if (req.method !== 'GET' && req.method !== 'HEAD') {
+      res.writeHead(405, { 'Content-Type': 'text/plain; charset=utf-8', Allow: 'GET, HEAD' });
+      res.end('Method not allowed\n');
+      return;
+    }
+
+    // Scrapes before the first cycle still get node health and counters
+    if (this.body === null) {
+      this.refresh();
+    }
+
+    res.writeHead(200, { 'Content-Type': METRICS_CONTENT_TYPE });
+    res.end(req.method === 'HEAD' ? undefined : this.body);
+  }
+}
+
+// =============================================================================
+// Factory Function
+// =============================================================================
+
+/**
+ * Create a new MetricsServer instance.
+ *
+ * @param config - Bind host and port
+ * @param collector - Optional metrics collector (defaults to the store collector)
+ * @returns MetricsServer instance
+ */
+export function createMetricsServer(
+  config: MetricsServerConfig,
+  collector?: MetricsCollector
+): MetricsServer {
+  return new MetricsServer(config, collector);
+}
+
+// =============================================================================
+// Re-exports
+// =============================================================================
+
+export type { MetricsServerConfig } from './types.js';
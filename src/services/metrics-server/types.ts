@@ -0,0 +1,15 @@
+/**
+ * Metrics Server Types
+ *
+ * Type definitions for the Prometheus /metrics HTTP endpoint.
+ */
+
+/**
+ * Listener configuration for the MetricsServer.
+ */
+export interface MetricsServerConfig {
+  /** Interface to bind to (e.g., "127.0.0.1" or "0.0.0.0") */
+  host: string;
+  /** TCP port to listen on (0 picks a free port) */
+  port: number;
+}
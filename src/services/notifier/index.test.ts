@@ -0,0 +1,356 @@
+/**
+ * Tests for AlertNotifier delivery, dedup, rate limiting, and built-in sinks
+ */
+import { describe, test, expect, beforeAll, afterAll, beforeEach, afterEach } from 'bun:test';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { AlertNotifier, SinkError, buildWebhookBody } from './index.js';
+import type { AlertNotification, AlertSink, SuppressionReason } from './index.js';
+import type { ResolvedAlertSink, ResolvedSinkDelivery } from '../../config/defaults.js';
+import type { AlertEvent, AlertSeverity, AlertTransition } from '../../types/alerts.js';
+
+const T0 = new Date('2024-06-01T12:00:00Z');
+
+function alertEvent(transition: AlertTransition, severity: AlertSeverity = 'warning'): AlertEvent {
+  return {
+    id: `replication_lag:primary:replica@${transition}`,
+    alertId: 'replication_lag:primary:replica',
+    metric: 'replication_lag',
+    nodeId: 'primary',
+    subject: 'replica',
+    severity,
+    transition,
+    value: 15,
+    threshold: 10,
+    firedAt: T0,
+    timestamp: T0,
+  };
+}
+
+const delivery: Omit<ResolvedSinkDelivery, 'name'> = {
+  retries: 0,
+  retryDelaySeconds: 0,
+  rateLimitPerMinute: 0,
+  dedupWindowSeconds: 0,
+};
+
+/** Sink that records notifications and fails the first `failures` attempts */
+function recordingSink(
+  overrides: Partial<ResolvedSinkDelivery> = {},
+  failures = 0,
+  retryable = true
+): { sink: AlertSink; sent: AlertNotification[]; attempts: () => number } {
+  const sent: AlertNotification[] = [];
+  let attempts = 0;
+  const sink: AlertSink = {
+    config: { type: 'file', name: 'recording', path: '/dev/null', ...delivery, ...overrides },
+    async send(notification) {
+      attempts++;
+      if (attempts <= failures) throw new SinkError('boom', retryable);
+      sent.push(notification);
+    },
+  };
+  return { sink, sent, attempts: () => attempts };
+}
+
+/** Whether a process still runs (a killed zombie not yet reaped counts as exited) */
+function isRunning(pid: number): boolean {
+  try {
+    return !/^\d+ \(.*\) Z/.test(fs.readFileSync(`/proc/${pid}/stat`, 'utf-8'));
+  } catch {
+    return false;
+  }
+}
+
+function notifierFor(sink: AlertSink, cluster: string | null = null): AlertNotifier {
+  return new AlertNotifier([sink.config], { cluster, createSink: () => sink });
+}
+
+describe('AlertNotifier', () => {
+  test('delivers to every sink with a dedup key per node and subject', async () => {
+    const { sink, sent } = recordingSink();
+    const notifier = notifierFor(sink, 'production');
+
+    notifier.notify(alertEvent('firing'));
+    await notifier.flush();
+
+    expect(sent).toHaveLength(1);
+    expect(sent[0]!.dedupKey).toBe('production:replication_lag:primary:replica');
+    expect(sent[0]!.summary).toContain('FIRING warning');
+  });
+
+  test('retries retryable failures', async () => {
+    const { sink, sent, attempts } = recordingSink({ retries: 2 }, 2);
+    const notifier = notifierFor(sink);
+    const delivered: number[] = [];
+    notifier.on('delivered', ({ attempts: n }) => delivered.push(n));
+
+    notifier.notify(alertEvent('firing'));
+    await notifier.flush();
+
+    expect(sent).toHaveLength(1);
+    expect(attempts()).toBe(3);
+    expect(delivered).toEqual([3]);
+  });
+
+  test('does not retry non-retryable failures', async () => {
+    const { sink, attempts } = recordingSink({ retries: 3 }, 1, false);
+    const notifier = notifierFor(sink);
+    const failed: string[] = [];
+    notifier.on('failed', ({ error }) => failed.push(error.message));
+
+    notifier.notify(alertEvent('firing'));
+    await notifier.flush();
+
+    expect(attempts()).toBe(1);
+    expect(failed).toEqual(['boom']);
+  });
+
+  test('rate limits notifications per sink', async () => {
+    const { sink, sent } = recordingSink({ rateLimitPerMinute: 2 });
+    const notifier = notifierFor(sink);
+    const reasons: SuppressionReason[] = [];
+    notifier.on('suppressed', ({ reason }) => reasons.push(reason));
+
+    for (let i = 0; i < 5; i++) {
+      notifier.notify({ ...alertEvent('firing'), alertId: `replication_lag:primary:replica${i}` });
+    }
+    await notifier.flush();
+
+    expect(sent).toHaveLength(2);
+    expect(reasons).toEqual(['rate_limited', 'rate_limited', 'rate_limited']);
+  });
+
+  test('collapses a flapping alert into one notification per dedup window', async () => {
+    const { sink, sent } = recordingSink({ dedupWindowSeconds: 0.05 });
+    const notifier = notifierFor(sink);
+
+    for (let i = 0; i < 10; i++) {
+      notifier.notify(alertEvent('firing'));
+      notifier.notify(alertEvent('resolved'));
+    }
+    await notifier.flush();
+    expect(sent.map((n) => n.event.transition)).toEqual(['firing']);
+
+    // The latest state is delivered once the window ends
+    await new Promise((resolve) => setTimeout(resolve, 80));
+    await notifier.flush();
+    expect(sent.map((n) => n.event.transition)).toEqual(['firing', 'resolved']);
+  });
+
+  test('delivers escalation to critical inside the dedup window', async () => {
+    const { sink, sent } = recordingSink({ dedupWindowSeconds: 300 });
+    const notifier = notifierFor(sink);
+
+    notifier.notify(alertEvent('firing', 'warning'));
+    notifier.notify(alertEvent('firing', 'critical'));
+    await notifier.flush();
+
+    expect(sent.map((n) => n.event.severity)).toEqual(['warning', 'critical']);
+    await notifier.close();
+  });
+
+  test('close drops notifications held back by dedup', async () => {
+    const { sink, sent } = recordingSink({ dedupWindowSeconds: 0.05 });
+    const notifier = notifierFor(sink);
+
+    notifier.notify(alertEvent('firing'));
+    notifier.notify(alertEvent('resolved'));
+    await notifier.close();
+    await new Promise((resolve) => setTimeout(resolve, 80));
+
+    expect(sent).toHaveLength(1);
+  });
+});
+
+describe('buildWebhookBody', () => {
+  const notification: AlertNotification = {
+    event: alertEvent('firing', 'critical'),
+    cluster: 'production',
+    dedupKey: 'production:replication_lag:primary:replica',
+    summary: 'summary',
+  };
+
+  test('pagerduty triggers and resolves with the dedup key', () => {
+    const trigger = buildWebhookBody('pagerduty', notification, 'key');
+    expect(trigger).toMatchObject({
+      routing_key: 'key',
+      event_action: 'trigger',
+      dedup_key: notification.dedupKey,
+      payload: { severity: 'critical', source: 'primary', component: 'replica' },
+    });
+
+    const resolve = buildWebhookBody(
+      'pagerduty',
+      { ...notification, event: alertEvent('resolved') },
+      'key'
+    );
+    expect(resolve).toEqual({
+      routing_key: 'key',
+      event_action: 'resolve',
+      dedup_key: notification.dedupKey,
+    });
+  });
+
+  test('slack colors the attachment by severity', () => {
+    const body = buildWebhookBody('slack', notification) as {
+      text: string;
+      attachments: Array<{ color: string }>;
+    };
+    expect(body.text).toBe('summary');
+    expect(body.attachments[0]!.color).toBe('danger');
+  });
+});
+
+describe('built-in sinks', () => {
+  let server: http.Server;
+  let url: string;
+  let requests: Array<{ headers: http.IncomingHttpHeaders; body: unknown }> = [];
+  let statuses: number[] = [];
+  let tmpDir: string;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        requests.push({ headers: req.headers, body: JSON.parse(body) });
+        res.statusCode = statuses.shift() ?? 202;
+        res.end();
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const address = server.address() as { port: number };
+    url = `http://127.0.0.1:${address.port}/hook`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    requests = [];
+    statuses = [];
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'replmon-notifier-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  function webhook(overrides: Partial<ResolvedAlertSink> = {}): ResolvedAlertSink {
+    return {
+      type: 'webhook',
+      name: 'hook',
+      url,
+      template: 'generic',
+      headers: { Authorization: 'Bearer t' },
+      routingKey: null,
+      timeoutSeconds: 5,
+      ...delivery,
+      ...overrides,
+    } as ResolvedAlertSink;
+  }
+
+  test('webhook posts JSON with configured headers', async () => {
+    const notifier = new AlertNotifier([webhook()]);
+    notifier.notify(alertEvent('firing'));
+    await notifier.flush();
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0]!.headers['authorization']).toBe('Bearer t');
+    expect(requests[0]!.body).toMatchObject({
+      status: 'firing',
+      node: 'primary',
+      subject: 'replica',
+      dedupKey: 'replication_lag:primary:replica',
+    });
+  });
+
+  test('webhook retries 5xx but not 4xx responses', async () => {
+    statuses = [503, 202];
+    const retried = new AlertNotifier([webhook({ retries: 2 })]);
+    retried.notify(alertEvent('firing'));
+    await retried.flush();
+    expect(requests).toHaveLength(2);
+
+    requests = [];
+    statuses = [400];
+    const rejected = new AlertNotifier([webhook({ retries: 2 })]);
+    const failed: number[] = [];
+    rejected.on('failed', ({ attempts }) => failed.push(attempts));
+    rejected.notify(alertEvent('firing'));
+    await rejected.flush();
+    expect(requests).toHaveLength(1);
+    expect(failed).toEqual([1]);
+  });
+
+  test('file sink appends NDJSON records', async () => {
+    const file = path.join(tmpDir, 'nested', 'alerts.ndjson');
+    const notifier = new AlertNotifier([{ type: 'file', name: 'file', path: file, ...delivery }]);
+
+    notifier.notify(alertEvent('firing'));
+    notifier.notify(alertEvent('resolved'));
+    await notifier.flush();
+
+    const lines = fs.readFileSync(file, 'utf-8').trimEnd().split('\n');
+    expect(lines.map((line) => JSON.parse(line).status)).toEqual(['firing', 'resolved']);
+  });
+
+  test('command sink receives the alert as environment variables', async () => {
+    const out = path.join(tmpDir, 'out.txt');
+    const notifier = new AlertNotifier([
+      {
+        type: 'command',
+        name: 'cmd',
+        command: `printf '%s %s %s' "$REPLMON_ALERT_STATUS" "$REPLMON_ALERT_NODE" "$REPLMON_ALERT_SUBJECT" > '${out}'`,
+        timeoutSeconds: 5,
+        ...delivery,
+      },
+    ]);
+
+    notifier.notify(alertEvent('firing'));
+    await notifier.flush();
+
+    expect(fs.readFileSync(out, 'utf-8')).toBe('firing primary replica');
+  });
+
+  test('command sink reports a non-zero exit status', async () => {
+    const notifier = new AlertNotifier([
+      { type: 'command', name: 'cmd', command: 'echo nope >&2; exit 3', timeoutSeconds: 5, ...delivery },
+    ]);
+    const failed: string[] = [];
+    notifier.on('failed', ({ error }) => failed.push(error.message));
+
+    notifier.notify(alertEvent('firing'));
+    await notifier.flush();
+
+    expect(failed).toEqual(['command exited with status 3: nope']);
+  });
+
+  test('command sink times out and kills what the command started', async () => {
+    const pidFile = path.join(tmpDir, 'pid');
+    const notifier = new AlertNotifier([
+      {
+        type: 'command',
+        name: 'cmd',
+        // The background sleep keeps stderr open after the shell is killed
+        command: `sleep 30 & echo $! > '${pidFile}'; wait`,
+        timeoutSeconds: 0.2,
+        ...delivery,
+      },
+    ]);
+    const failed: string[] = [];
+    notifier.on('failed', ({ error }) => failed.push(error.message));
+
+    notifier.notify(alertEvent('firing'));
+    await notifier.flush();
+
+    expect(failed).toEqual(['command timed out after 0.2s']);
+    const pid = Number(fs.readFileSync(pidFile, 'utf-8'));
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(isRunning(pid)).toBe(false);
+  });
+});
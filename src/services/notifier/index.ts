@@ -0,0 +1,363 @@
+/**
+ * AlertNotifier
+ *
+ * Delivers alert transitions from the AlertEngine to the sinks configured
+ * under `alerts.sinks` (webhook, command, NDJSON file).
+ *
+ * Features:
+ * - Per-sink deduplication by cluster/metric/node/subject: at most one
+ *   notification per key per dedup window (escalations to critical excepted);
+ *   the latest state is delivered when the window ends so receivers never
+ *   keep a stale state
+ * - Per-sink rate limiting (notifications per minute)
+ * - Retries with exponential backoff for retryable failures
+ * - In-order delivery per sink
+ * - Typed events for delivered/failed/suppressed notifications
+ */
+
+import { EventEmitter } from 'events';
+
+import type { ResolvedAlertSink } from '../../config/defaults.js';
+import type { AlertEvent } from '../../types/alerts.js';
+import { createSink, SinkError } from './sinks.js';
+import { formatAlertSummary } from './templates.js';
+import type {
+  AlertNotification,
+  AlertSink,
+  NotifierEvents,
+  NotifierOptions,
+  SuppressionReason,
+} from './types.js';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Rate limit window */
+const RATE_WINDOW_MS = 60_000;
+
+// =============================================================================
+// TypedEventEmitter for NotifierEvents
+// =============================================================================
+
+/**
+ * Type-safe event emitter for notifier events.
+ */
+class NotifierEventEmitter {
+  private emitter: EventEmitter;
+
+  constructor() {
+    this.emitter = new EventEmitter();
+  }
+
+  on<K extends keyof NotifierEvents>(event: K, handler: (payload: NotifierEvents[K]) => void): void {
+    this.emitter.on(event, handler);
+  }
+
+  off<K extends keyof NotifierEvents>(event: K, handler: (payload: NotifierEvents[K]) => void): void {
+    this.emitter.off(event, handler);
+  }
+
+  emit<K extends keyof NotifierEvents>(event: K, payload: NotifierEvents[K]): boolean {
+    return this.emitter.emit(event, payload);
+  }
+}
+
+// =============================================================================
+// Internal State
+// =============================================================================
+
+/**
+ * Delivery state for one dedup key on one sink.
+ */
+interface DedupEntry {
+  /** Last delivered state (`${transition}:${severity}`) */
+  state: string;
+  /** When the last notification was accepted for delivery */
+  sentAt: number;
+  /** Latest notification held back until the window ends */
+  pending: AlertNotification | null;
+  /** Timer that delivers the pending notification */
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+/**
+ * Runtime state for one sink.
+ */
+interface SinkState {
+  sink: AlertSink;
+  /** Accept times within the rate limit window */
+  sentAt: number[];
+  /** Dedup entries by dedup key */
+  dedup: Map<string, DedupEntry>;
+  /** Tail of the delivery chain (keeps per-sink order) */
+  tail: Promise<void>;
+}
+
+function stateOf(event: AlertEvent): string {
+  return `${event.transition}:${event.severity}`;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// =============================================================================
+// AlertNotifier Class
+// =============================================================================
+
+/**
+ * Routes alert transitions to sinks with dedup, rate limiting and retries.
+ */
+export class AlertNotifier {
+  private readonly sinks: SinkState[];
+  private readonly cluster: string | null;
+  private readonly events: NotifierEventEmitter;
+  private closed = false;
+
+  constructor(configs: ResolvedAlertSink[], options: NotifierOptions = {}) {
+    const factory = options.createSink ?? createSink;
+    this.cluster = options.cluster ?? null;
+    this.events = new NotifierEventEmitter();
+    this.sinks = configs.map((config) => ({
+      sink: factory(config),
+      sentAt: [],
+      dedup: new Map(),
+      tail: Promise.resolve(),
+    }));
+  }
+
+  // ===========================================================================
+  // Public API
+  // ===========================================================================
+
+  /**
+   * Queue an alert transition for delivery to every sink.
+   * Returns immediately; delivery happens in the background.
+   */
+  notify(event: AlertEvent): void {
+    if (this.closed) return;
+
+    const notification: AlertNotification = {
+      event,
+      cluster: this.cluster,
+      dedupKey: this.cluster ? `${this.cluster}:${event.alertId}` : event.alertId,
+      summary: formatAlertSummary(event),
+    };
+
+    for (const state of this.sinks) {
+      this.route(state, notification);
+    }
+  }
+
+  /**
+   * Stop accepting notifications and wait for queued deliveries.
+   * Notifications held back by deduplication are dropped, and pending
+   * retries are abandoned after their current attempt.
+   */
+  async close(): Promise<void> {
+    this.closed = true;
+    for (const state of this.sinks) {
+      for (const entry of state.dedup.values()) {
+        if (entry.timer) {
+          clearTimeout(entry.timer);
+          entry.timer = null;
+        }
+        entry.pending = null;
+      }
+    }
+    await Promise.all(this.sinks.map((state) => state.tail));
+  }
+
+  /**
+   * Wait until all queued deliveries have completed.
+   */
+  async flush(): Promise<void> {
+    await Promise.all(this.sinks.map((state) => state.tail));
+  }
+
+  /**
+   * Number of configured sinks.
+   */
+  get sinkCount(): number {
+    return this.sinks.length;
+  }
+
+  // ===========================================================================
+  // Event Subscription
+  // ===========================================================================
+
+  /**
+   * Subscribe to a notifier event.
+   */
+  on<K extends keyof NotifierEvents>(event: K, handler: (payload: NotifierEvents[K]) => void): void {
+    this.events.on(event, handler);
+  }
+
+  /**
+   * Unsubscribe from a notifier event.
+   */
+  off<K extends keyof NotifierEvents>(event: K, handler: (payload: NotifierEvents[K]) => void): void {
+    this.events.off(event, handler);
+  }
+
+  // ===========================================================================
+  // Private: Routing
+  // ===========================================================================
+
+  /**
+   * Apply deduplication for one sink, then dispatch or hold back.
+   */
+  private route(state: SinkState, notification: AlertNotification): void {
+    const windowMs = state.sink.config.dedupWindowSeconds * 1000;
+    if (windowMs === 0) {
+      this.dispatch(state, notification);
+      return;
+    }
+
+    const key = notification.dedupKey;
+    const current = stateOf(notification.event);
+    const entry = state.dedup.get(key);
+    const now = Date.now();
+
+    if (!entry) {
+      if (this.dispatch(state, notification)) {
+        state.dedup.set(key, { state: current, sentAt: now, pending: null, timer: null });
+      }
+      return;
+    }
+
+    if (entry.state === current) {
+      // Back to the delivered state: anything held back is obsolete
+      entry.pending = null;
+      this.suppress(state, notification, 'duplicate');
+      return;
+    }
+
+    // Window passed, or a firing alert escalated to critical: deliver now
+    const escalated = entry.state === 'firing:warning' && current === 'firing:critical';
+    if (now - entry.sentAt >= windowMs || escalated) {
+      if (entry.timer) {
+        clearTimeout(entry.timer);
+        entry.timer = null;
+      }
+      entry.pending = null;
+      if (this.dispatch(state, notification)) {
+        entry.state = current;
+        entry.sentAt = now;
+      }
+      return;
+    }
+
+    entry.pending = notification;
+    this.suppress(state, notification, 'deferred');
+    if (!entry.timer) {
+      entry.timer = setTimeout(() => this.releasePending(state, entry), entry.sentAt + windowMs - now);
+      entry.timer.unref?.();
+    }
+  }
+
+  /**
+   * Deliver the notification held back for a dedup key once its window ends.
+   */
+  private releasePending(state: SinkState, entry: DedupEntry): void {
+    entry.timer = null;
+    const pending = entry.pending;
+    entry.pending = null;
+    if (!pending || this.closed) return;
+
+    if (this.dispatch(state, pending)) {
+      entry.state = stateOf(pending.event);
+      entry.sentAt = Date.now();
+    }
+  }
+
+  /**
+   * Apply the rate limit and queue delivery.
+   *
+   * @returns Whether the notification was accepted
+   */
+  private dispatch(state: SinkState, notification: AlertNotification): boolean {
+    const limit = state.sink.config.rateLimitPerMinute;
+    const now = Date.now();
+    state.sentAt = state.sentAt.filter((time) => now - time < RATE_WINDOW_MS);
+
+    if (limit > 0 && state.sentAt.length >= limit) {
+      this.suppress(state, notification, 'rate_limited');
+      return false;
+    }
+
+    state.sentAt.push(now);
+    state.tail = state.tail.then(() => this.deliver(state.sink, notification));
+    return true;
+  }
+
+  private suppress(
+    state: SinkState,
+    notification: AlertNotification,
+    reason: SuppressionReason
+  ): void {
+    this.events.emit('suppressed', { sink: state.sink.config.name, notification, reason });
+  }
+
+  // ===========================================================================
+  // Private: Delivery
+  // ===========================================================================
+
+  /**
+   * Send with retries. Never rejects; the outcome is reported as an event.
+   */
+  private async deliver(sink: AlertSink, notification: AlertNotification): Promise<void> {
+    const { name, retries, retryDelaySeconds } = sink.config;
+    let attempts = 0;
+    let lastError: Error = new Error('not attempted');
+
+    while (attempts <= retries) {
+      attempts++;
+      try {
+        await sink.send(notification);
+        this.events.emit('delivered', { sink: name, notification, attempts });
+        return;
+      } catch (error) {
+        lastError = error instanceof Error ? error : new Error(String(error));
+        const retryable = !(error instanceof SinkError) || error.retryable;
+        if (!retryable || attempts > retries || this.closed) break;
+        await sleep(retryDelaySeconds * 1000 * 2 ** (attempts - 1));
+      }
+    }
+
+    this.events.emit('failed', { sink: name, notification, attempts, error: lastError });
+  }
+}
+
+// =============================================================================
+// Factory Function
+// =============================================================================
+
+/**
+ * Create a new AlertNotifier instance.
+ *
+ * @param sinks - Resolved sink configs from `alerts.sinks`
+ * @param options - Cluster name and optional sink factory
+ * @returns AlertNotifier instance
+ */
+export function createAlertNotifier(
+  sinks: ResolvedAlertSink[],
+  options?: NotifierOptions
+): AlertNotifier {
+  return new AlertNotifier(sinks, options);
+}
+
+// =============================================================================
+// Re-exports
+// =============================================================================
+
+export { createSink, SinkError, WebhookSink, CommandSink, FileSink } from './sinks.js';
+export { buildWebhookBody, buildCommandEnv, formatAlertSummary } from './templates.js';
+export type {
+  AlertNotification,
+  AlertSink,
+  NotifierEvents,
+  NotifierOptions,
+  SuppressionReason,
+} from './types.js';
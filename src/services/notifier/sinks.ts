@@ -0,0 +1,196 @@
+/**
+ * Alert Sinks
+ *
+ * Built-in delivery targets: HTTP webhook, shell command, NDJSON file.
+ * Each sink performs a single attempt; retries and rate limiting are
+ * handled by AlertNotifier.
+ */
+
+import { spawn } from 'child_process';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+import type {
+  ResolvedAlertSink,
+  ResolvedCommandSink,
+  ResolvedFileSink,
+  ResolvedWebhookSink,
+} from '../../config/defaults.js';
+import { buildCommandEnv, buildGenericPayload, buildWebhookBody } from './templates.js';
+import type { AlertNotification, AlertSink } from './types.js';
+
+// =============================================================================
+// Errors
+// =============================================================================
+
+/**
+ * Delivery failure. Non-retryable failures (e.g., HTTP 4xx) are not retried.
+ */
+export class SinkError extends Error {
+  readonly retryable: boolean;
+
+  constructor(message: string, retryable: boolean) {
+    super(message);
+    this.name = 'SinkError';
+    this.retryable = retryable;
+  }
+}
+
+// =============================================================================
+// Webhook
+// =============================================================================
+
+/**
+ * POSTs a JSON body rendered from the configured template.
+ * Network errors, timeouts, 429 and 5xx responses are retryable.
+ */
+export class WebhookSink implements AlertSink {
+  readonly config: ResolvedWebhookSink;
+
+  constructor(config: ResolvedWebhookSink) {
+    this.config = config;
+  }
+
+  async send(notification: AlertNotification): Promise<void> {
+    const body = buildWebhookBody(this.config.template, notification, this.config.routingKey);
+
+    let response: Response;
+    try {
+      response = await fetch(this.config.url, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json', ...this.config.headers },
+        body: JSON.stringify(body),
+        signal: AbortSignal.timeout(this.config.timeoutSeconds * 1000),
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new SinkError(`webhook request failed: ${message}`, true);
+    }
+
+    // Drain the body so the connection can be reused
+    await response.text().catch(() => '');
+
+    if (!response.ok) {
+      const retryable = response.status === 429 || response.status >= 500;
+      throw new SinkError(`webhook returned HTTP ${response.status}`, retryable);
+    }
+  }
+}
+
+// =============================================================================
+// Command
+// =============================================================================
+
+/**
+ * Runs a command with /bin/sh -c. The alert is passed as REPLMON_ALERT_*
+ * environment variables and as generic JSON on stdin.
+ * A non-zero exit status or timeout is retryable. On timeout the command's
+ * whole process group is killed, including anything it started in the
+ * background.
+ */
+export class CommandSink implements AlertSink {
+  readonly config: ResolvedCommandSink;
+
+  constructor(config: ResolvedCommandSink) {
+    this.config = config;
+  }
+
+  send(notification: AlertNotification): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const child = spawn('/bin/sh', ['-c', this.config.command], {
+        env: { ...process.env, ...buildCommandEnv(notification) },
+        stdio: ['pipe', 'ignore', 'pipe'],
+        // Own process group, so a timeout can kill the command's children too
+        detached: true,
+      });
+
+      let stderr = '';
+      let settled = false;
+      const settle = (error: SinkError | null): void => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timer);
+        if (error) {
+          reject(error);
+        } else {
+          resolve();
+        }
+      };
+
+      // Settle right away: a background child still holding stderr would
+      // keep 'close' from firing
+      const timer = setTimeout(() => {
+        try {
+          if (child.pid !== undefined) process.kill(-child.pid, 'SIGKILL');
+        } catch {
+          // The process group already exited
+        }
+        settle(new SinkError(`command timed out after ${this.config.timeoutSeconds}s`, true));
+      }, this.config.timeoutSeconds * 1000);
+
+      child.stderr.on('data', (chunk: Buffer) => {
+        stderr = (stderr + chunk.toString()).slice(-500);
+      });
+      // The command may exit without reading stdin
+      child.stdin.on('error', () => {});
+      child.stdin.end(JSON.stringify(buildGenericPayload(notification)) + '\n');
+
+      child.on('error', (error) => {
+        settle(new SinkError(`command failed to start: ${error.message}`, false));
+      });
+
+      child.on('close', (code) => {
+        if (code !== 0) {
+          const detail = stderr.trim() ? `: ${stderr.trim()}` : '';
+          settle(new SinkError(`command exited with status ${code}${detail}`, true));
+        } else {
+          settle(null);
+        }
+      });
+    });
+  }
+}
+
+// =============================================================================
+// File
+// =============================================================================
+
+/**
+ * Appends one generic JSON record per line. Parent directories are created.
+ */
+export class FileSink implements AlertSink {
+  readonly config: ResolvedFileSink;
+
+  constructor(config: ResolvedFileSink) {
+    this.config = config;
+  }
+
+  async send(notification: AlertNotification): Promise<void> {
+    const line = JSON.stringify(buildGenericPayload(notification)) + '\n';
+    try {
+      await fs.mkdir(path.dirname(this.config.path), { recursive: true });
+      await fs.appendFile(this.config.path, line, 'utf-8');
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new SinkError(`file write failed: ${message}`, true);
+    }
+  }
+}
+
+// =============================================================================
+// Factory Function
+// =============================================================================
+
+/**
+ * Create the built-in sink for a resolved sink config.
+ */
+export function createSink(config: ResolvedAlertSink): AlertSink {
+  switch (config.type) {
+    case 'webhook':
+      return new WebhookSink(config);
+    case 'command':
+      return new CommandSink(config);
+    case 'file':
+      return new FileSink(config);
+  }
+}
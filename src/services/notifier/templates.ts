@@ -0,0 +1,185 @@
+/**
+ * Notification Payload Templates
+ *
+ * Builds webhook bodies (generic, Slack, PagerDuty Events API v2), the
+ * NDJSON file record, and the environment for command sinks.
+ */
+
+import type { WebhookTemplate } from '../../config/defaults.js';
+import { formatAlertValue } from '../../utils/alerts.js';
+import { ALERT_METRIC_LABELS } from '../../types/alerts.js';
+import type { AlertEvent } from '../../types/alerts.js';
+import type { AlertNotification } from './types.js';
+
+// =============================================================================
+// Summary
+// =============================================================================
+
+/**
+ * One-line summary of an alert transition.
+ *
+ * @example "[FIRING critical] Replication lag on primary/replica: 75.0s (threshold 1m 0s)"
+ */
+export function formatAlertSummary(event: AlertEvent): string {
+  const status =
+    event.transition === 'firing' ? `FIRING ${event.severity}` : 'RESOLVED';
+  const target = event.subject ? `${event.nodeId}/${event.subject}` : event.nodeId;
+  return (
+    `[${status}] ${ALERT_METRIC_LABELS[event.metric]} on ${target}: ` +
+    `${formatAlertValue(event.metric, event.value)} ` +
+    `(threshold ${formatAlertValue(event.metric, event.threshold)})`
+  );
+}
+
+// =============================================================================
+// Generic Payload
+// =============================================================================
+
+/**
+ * replmon alert JSON, used by the generic webhook template and file sinks.
+ */
+export function buildGenericPayload(notification: AlertNotification): Record<string, unknown> {
+  const { event } = notification;
+  return {
+    dedupKey: notification.dedupKey,
+    status: event.transition,
+    severity: event.severity,
+    metric: event.metric,
+    node: event.nodeId,
+    subject: event.subject,
+    value: event.value,
+    threshold: event.threshold,
+    cluster: notification.cluster,
+    summary: notification.summary,
+    firedAt: event.firedAt.toISOString(),
+    timestamp: event.timestamp.toISOString(),
+  };
+}
+
+// =============================================================================
+// Slack
+// =============================================================================
+
+/**
+ * Slack incoming webhook message with a colored attachment.
+ */
+function buildSlackPayload(notification: AlertNotification): Record<string, unknown> {
+  const { event } = notification;
+  const color =
+    event.transition === 'resolved' ? 'good' : event.severity === 'critical' ? 'danger' : 'warning';
+
+  const fields = [
+    { title: 'Node', value: event.nodeId, short: true },
+    { title: 'Metric', value: ALERT_METRIC_LABELS[event.metric], short: true },
+  ];
+  if (event.subject) {
+    fields.push({ title: 'Subject', value: event.subject, short: true });
+  }
+  if (notification.cluster) {
+    fields.push({ title: 'Cluster', value: notification.cluster, short: true });
+  }
+
+  return {
+    text: notification.summary,
+    attachments: [
+      {
+        color,
+        fields,
+        footer: 'replmon',
+        ts: Math.floor(event.timestamp.getTime() / 1000),
+      },
+    ],
+  };
+}
+
+// =============================================================================
+// PagerDuty
+// =============================================================================
+
+/**
+ * PagerDuty Events API v2 trigger/resolve event.
+ * The dedup key ties a resolve to the incident its trigger opened.
+ */
+function buildPagerDutyPayload(
+  notification: AlertNotification,
+  routingKey: string | null
+): Record<string, unknown> {
+  const { event } = notification;
+
+  if (event.transition === 'resolved') {
+    return {
+      routing_key: routingKey,
+      event_action: 'resolve',
+      dedup_key: notification.dedupKey,
+    };
+  }
+
+  return {
+    routing_key: routingKey,
+    event_action: 'trigger',
+    dedup_key: notification.dedupKey,
+    payload: {
+      summary: notification.summary,
+      source: event.nodeId,
+      severity: event.severity,
+      timestamp: event.timestamp.toISOString(),
+      component: event.subject ?? undefined,
+      group: notification.cluster ?? undefined,
+      class: event.metric,
+      custom_details: {
+        value: event.value,
+        threshold: event.threshold,
+        firedAt: event.firedAt.toISOString(),
+      },
+    },
+  };
+}
+
+// =============================================================================
+// Template Dispatch
+// =============================================================================
+
+/**
+ * Build a webhook body for the given template.
+ *
+ * @param template - Webhook template
+ * @param notification - Notification to deliver
+ * @param routingKey - PagerDuty integration key (pagerduty template only)
+ * @returns JSON-serializable body
+ */
+export function buildWebhookBody(
+  template: WebhookTemplate,
+  notification: AlertNotification,
+  routingKey: string | null = null
+): Record<string, unknown> {
+  switch (template) {
+    case 'generic':
+      return buildGenericPayload(notification);
+    case 'slack':
+      return buildSlackPayload(notification);
+    case 'pagerduty':
+      return buildPagerDutyPayload(notification, routingKey);
+  }
+}
+
+/**
+ * Environment variables describing a notification for command sinks.
+ */
+export function buildCommandEnv(notification: AlertNotification): Record<string, string> {
+  const { event } = notification;
+  return {
+    REPLMON_ALERT_ID: event.alertId,
+    REPLMON_ALERT_DEDUP_KEY: notification.dedupKey,
+    REPLMON_ALERT_STATUS: event.transition,
+    REPLMON_ALERT_SEVERITY: event.severity,
+    REPLMON_ALERT_METRIC: event.metric,
+    REPLMON_ALERT_NODE: event.nodeId,
+    REPLMON_ALERT_SUBJECT: event.subject ?? '',
+    REPLMON_ALERT_VALUE: String(event.value),
+    REPLMON_ALERT_THRESHOLD: String(event.threshold),
+    REPLMON_ALERT_SUMMARY: notification.summary,
+    REPLMON_ALERT_FIRED_AT: event.firedAt.toISOString(),
+    REPLMON_ALERT_TIMESTAMP: event.timestamp.toISOString(),
+    REPLMON_CLUSTER: notification.cluster ?? '',
+  };
+}
@@ -0,0 +1,81 @@
+/**
+ * Alert Notifier Types
+ *
+ * Type definitions for delivering alert transitions to configured sinks
+ * (webhook, command, NDJSON file).
+ */
+
+import type { ResolvedAlertSink } from '../../config/defaults.js';
+import type { AlertEvent } from '../../types/alerts.js';
+
+// =============================================================================
+// Notifications
+// =============================================================================
+
+/**
+ * An alert transition prepared for delivery.
+ */
+export interface AlertNotification {
+  /** The transition being delivered */
+  event: AlertEvent;
+  /** Active cluster name (null when not using clusters) */
+  cluster: string | null;
+  /**
+   * Deduplication key: one per cluster, metric, node and subject
+   * (standby, subscription, or slot). Also sent as PagerDuty dedup_key.
+   */
+  dedupKey: string;
+  /** One-line human-readable summary */
+  summary: string;
+}
+
+// =============================================================================
+// Sinks
+// =============================================================================
+
+/**
+ * Delivery target for alert notifications.
+ */
+export interface AlertSink {
+  /** Sink configuration (name, type, delivery settings) */
+  readonly config: ResolvedAlertSink;
+  /**
+   * Deliver one notification.
+   * Rejects with SinkError on failure.
+   */
+  send(notification: AlertNotification): Promise<void>;
+}
+
+/**
+ * Why a notification was not delivered to a sink.
+ * - duplicate: same state already delivered for this dedup key
+ * - deferred: held until the dedup window for this key ends
+ * - rate_limited: sink exceeded its notifications per minute
+ */
+export type SuppressionReason = 'duplicate' | 'deferred' | 'rate_limited';
+
+// =============================================================================
+// Options & Events
+// =============================================================================
+
+/**
+ * AlertNotifier options.
+ */
+export interface NotifierOptions {
+  /** Active cluster name, included in payloads and dedup keys */
+  cluster?: string | null;
+  /** Sink factory (defaults to the built-in webhook/command/file sinks) */
+  createSink?: (config: ResolvedAlertSink) => AlertSink;
+}
+
+/**
+ * Event map for the AlertNotifier typed EventEmitter.
+ */
+export interface NotifierEvents {
+  /** Notification delivered */
+  delivered: { sink: string; notification: AlertNotification; attempts: number };
+  /** Notification failed after all retries */
+  failed: { sink: string; notification: AlertNotification; attempts: number; error: Error };
+  /** Notification not delivered (deduplicated or rate limited) */
+  suppressed: { sink: string; notification: AlertNotification; reason: SuppressionReason };
+}
@@ -0,0 +1,169 @@
+/**
+ * Backend Operations Service
+ *
+ * Looks up and terminates the backends behind replication: a subscription's
+ * apply worker or the walsender streaming from a slot. Both restart on their
+ * own (the launcher starts a new apply worker, and the subscriber reconnects
+ * to a new walsender), which clears a worker that is stuck.
+ *
+ * Feature: 013-operations-modal
+ */
+
+import type {
+  BackendActivity,
+  TerminateBackendParams,
+  QueryFn,
+  OperationContext,
+  OperationResult,
+} from '../../types/operations.js';
+import { createSuccessResult, createFailureResult } from './utils.js';
+
+// =============================================================================
+// Queries
+// =============================================================================
+
+const BACKEND_ACTIVITY_QUERY = `
+SELECT
+  pid,
+  backend_type,
+  usename,
+  application_name,
+  host(client_addr) AS client_addr,
+  state,
+  wait_event_type,
+  wait_event,
+  backend_start,
+  backend_start::text AS backend_start_text,
+  state_change,
+  left(query, 200) AS query
+FROM pg_stat_activity
+WHERE pid = $1
+`;
+
+/**
+ * Terminates the backend only if it is still the one looked up: a PID the
+ * backend exited with can be reused by an unrelated session. backend_start
+ * is passed back as the text the lookup returned, since a JS Date only keeps
+ * milliseconds and would not equal the server's microsecond value.
+ */
+const TERMINATE_BACKEND_QUERY = `
+SELECT pg_terminate_backend(pid) AS terminated
+FROM pg_stat_activity
+WHERE pid = $1 AND backend_start = $2::timestamptz
+`;
+
+interface BackendActivityRow {
+  pid: number;
+  backend_type: string | null;
+  usename: string | null;
+  application_name: string | null;
+  client_addr: string | null;
+  state: string | null;
+  wait_event_type: string | null;
+  wait_event: string | null;
+  backend_start: Date | null;
+  backend_start_text: string | null;
+  state_change: Date | null;
+  query: string | null;
+}
+
+// =============================================================================
+// Backend Activity
+// =============================================================================
+
+/**
+ * Look up a backend in pg_stat_activity.
+ *
+ * @returns The backend, or null if no backend has the PID
+ */
+export async function getBackendActivity(
+  nodeId: string,
+  pid: number,
+  queryFn: QueryFn
+): Promise<BackendActivity | null> {
+  const rows = await queryFn<BackendActivityRow>(nodeId, BACKEND_ACTIVITY_QUERY, [pid]);
+  const row = rows[0];
+  if (!row) return null;
+
+  return {
+    pid: row.pid,
+    backendType: row.backend_type,
+    user: row.usename,
+    applicationName: row.application_name || null,
+    clientAddr: row.client_addr,
+    state: row.state,
+    waitEventType: row.wait_event_type,
+    waitEvent: row.wait_event,
+    backendStart: row.backend_start,
+    backendStartText: row.backend_start_text,
+    stateChange: row.state_change,
+    query: row.query || null,
+  };
+}
+
+// =============================================================================
+// Terminate Backend
+// =============================================================================
+
+/**
+ * Terminate an apply worker or walsender with pg_terminate_backend().
+ *
+ * Fails without terminating anything if the backend exited since it was
+ * looked up.
+ */
+export async function terminateBackend(
+  params: TerminateBackendParams,
+  queryFn: QueryFn
+): Promise<OperationResult> {
+  const { nodeId, resourceName, role, pid, backendStart } = params;
+  const startTime = Date.now();
+
+  const context: OperationContext = {
+    nodeId,
+    nodeName: nodeId,
+    resourceId: resourceName,
+    resourceName,
+    additionalParams: { workerRole: role, workerPid: pid },
+  };
+
+  try {
+    const rows = await queryFn<{ terminated: boolean }>(
+      nodeId,
+      TERMINATE_BACKEND_QUERY,
+      [pid, backendStart]
+    );
+
+    if (rows.length === 0) {
+      return createFailureResult(
+        'terminate-worker',
+        context,
+        `The ${role} (pid ${pid}) for "${resourceName}" is no longer running`,
+        Date.now() - startTime
+      );
+    }
+
+    if (!rows[0]?.terminated) {
+      return createFailureResult(
+        'terminate-worker',
+        context,
+        `Could not terminate the ${role} (pid ${pid}) for "${resourceName}"`,
+        Date.now() - startTime
+      );
+    }
+
+    return createSuccessResult(
+      'terminate-worker',
+      context,
+      `Terminated the ${role} (pid ${pid}) for "${resourceName}"`,
+      Date.now() - startTime
+    );
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : String(err);
+    return createFailureResult(
+      'terminate-worker',
+      context,
+      errorMessage,
+      Date.now() - startTime
+    );
+  }
+}
@@ -0,0 +1,715 @@
+/**
+ * Tests for operation execution against a scripted query function
+ */
+import { describe, test, expect } from 'bun:test';
+import {
+  buildCreateSubscriptionSql,
+  buildProviderDsn,
+  executeOperation,
+  findFailingTransactionLsn,
+  getBackendActivity,
+} from './index.js';
+import { getWorkerRestartStatus, WORKER_RESTART_TIMEOUT_MS } from '../../utils/worker-history.js';
+import { OPERATIONS } from '../../types/operations.js';
+import type { Operation, OperationContext, QueryFn } from '../../types/operations.js';
+
+interface Call {
+  nodeId: string;
+  sql: string;
+  params: unknown[] | undefined;
+}
+
+interface FakeNode {
+  pglogical: boolean;
+  origin: { origin_name: string; origin_id: number; enabled: boolean } | null;
+  versionNum: number;
+  log: string | Error;
+  /** Answers to successive pg_replication_slots lookups (an Error fails the lookup) */
+  slotRows: (unknown[] | Error)[];
+  /** pg_stat_activity row of the backend looked up (null: not running) */
+  backend: Record<string, unknown> | null;
+}
+
+/**
+ * Query function answering the few catalog queries the operations run.
+ */
+function fakeQueryFn(node: FakeNode): { queryFn: QueryFn; calls: Call[] } {
+  const calls: Call[] = [];
+  const queryFn = async <T>(nodeId: string, sql: string, params?: unknown[]): Promise<T[]> => {
+    calls.push({ nodeId, sql, params });
+    let rows: unknown[] = [];
+    if (sql.includes('pg_terminate_backend')) {
+      // The server compares its own microsecond backend_start
+      const matches = node.backend && params?.[1] === node.backend.backend_start_text;
+      rows = matches ? [{ terminated: true }] : [];
+    } else if (sql.includes('FROM pg_stat_activity')) {
+      rows = node.backend ? [node.backend] : [];
+    } else if (sql.includes('pg_extension')) {
+      rows = [{ exists: node.pglogical }];
+    } else if (sql.includes('JOIN pg_replication_origin')) {
+      rows = node.origin ? [node.origin] : [];
+    } else if (sql.includes('server_version_num')) {
+      rows = [{ version_num: node.versionNum }];
+    } else if (sql.includes('pg_read_file')) {
+      if (node.log instanceof Error) throw node.log;
+      rows = [{ content: node.log }];
+    } else if (sql.includes('pg_replication_slot_advance')) {
+      rows = [{ end_lsn: '0/5000000' }];
+    } else if (sql.includes('FROM pg_replication_slots')) {
+      const answer = node.slotRows.shift() ?? [];
+      if (answer instanceof Error) throw answer;
+      rows = answer;
+    }
+    return rows as T[];
+  };
+  return { queryFn, calls };
+}
+
+function node(overrides: Partial<FakeNode> = {}): FakeNode {
+  return {
+    pglogical: false,
+    origin: { origin_name: 'pg_16395', origin_id: 1, enabled: true },
+    versionNum: 160002,
+    log: '',
+    slotRows: [],
+    backend: null,
+    ...overrides,
+  };
+}
+
+/** csvlog line of a native apply worker */
+function nativeLogLine(severity: string, origin: string, lsn: string): string {
+  return (
+    `2024-06-01 12:00:01.123 UTC,,,4242,,665b0a01.1092,1,,2024-06-01 12:00:00 UTC,3/12,740,${severity},23505,` +
+    `"duplicate key value violates unique constraint ""orders_pkey""","Key (id)=(7) already exists.",,,,` +
+    `"processing remote data for replication origin ""${origin}"" during message type ""INSERT"" ` +
+    `for replication target relation ""public.orders"" in transaction 740, finished at ${lsn}",,,,"",` +
+    `"logical replication apply worker",,0`
+  );
+}
+
+/** csvlog line of a pglogical apply worker */
+function pglogicalLogLine(originId: number, lsn: string): string {
+  return (
+    `2024-06-01 12:00:02.000 UTC,,,4243,,665b0a02.1093,1,,2024-06-01 12:00:00 UTC,3/13,741,ERROR,23505,` +
+    `"duplicate key value violates unique constraint ""orders_pkey""",,,,,` +
+    `"apply INSERT from remote relation public.orders in commit before ${lsn}, xid 741 committed at ` +
+    `2024-06-01 12:00:00.5+00 (action #1) from node replorigin ${originId}",,,,"","pglogical apply 16384:1234",,0`
+  );
+}
+
+const SKIP = OPERATIONS.find((op) => op.id === 'skip-transaction') as Operation;
+const ADVANCE = OPERATIONS.find((op) => op.id === 'advance-slot') as Operation;
+const COPY = OPERATIONS.find((op) => op.id === 'copy-slot') as Operation;
+const TERMINATE = OPERATIONS.find((op) => op.id === 'terminate-worker') as Operation;
+const CREATE_SUBSCRIPTION = OPERATIONS.find((op) => op.id === 'create-subscription') as Operation;
+const DROP_SUBSCRIPTION = OPERATIONS.find((op) => op.id === 'drop-subscription') as Operation;
+
+/** backend_start as node-pg reads it: the microseconds are cut to milliseconds */
+const BACKEND_START = new Date('2024-06-01T12:00:00.123Z');
+const BACKEND_START_TEXT = '2024-06-01 12:00:00.123456+00';
+
+/** pg_stat_activity row of a native apply worker */
+const APPLY_WORKER_ROW = {
+  pid: 4242,
+  backend_type: 'logical replication worker',
+  usename: 'postgres',
+  application_name: '',
+  client_addr: null,
+  state: null,
+  wait_event_type: 'Activity',
+  wait_event: 'LogicalApplyMain',
+  backend_start: BACKEND_START,
+  backend_start_text: BACKEND_START_TEXT,
+  state_change: null,
+  query: '',
+};
+
+function skipContext(lsn?: string, source: 'pglogical' | 'native' = 'native'): OperationContext {
+  return {
+    nodeId: 'subscriber',
+    nodeName: 'Subscriber',
+    resourceId: 'sub_orders',
+    resourceName: 'sub_orders',
+    additionalParams: lsn !== undefined ? { lsn, source } : { source },
+  };
+}
+
+function slotContext(additionalParams: Record<string, unknown>): OperationContext {
+  return {
+    nodeId: 'provider',
+    nodeName: 'Provider',
+    resourceId: 'cdc_slot',
+    resourceName: 'cdc_slot',
+    additionalParams,
+  };
+}
+
+describe('findFailingTransactionLsn', () => {
+  test('takes the latest apply error for the subscription origin', async () => {
+    const { queryFn } = fakeQueryFn(
+      node({
+        log: [
+          nativeLogLine('ERROR', 'pg_16395', '0/1200000'),
+          nativeLogLine('ERROR', 'pg_16400', '0/1300000'),
+          nativeLogLine('ERROR', 'pg_16395', '0/14c0378'),
+          nativeLogLine('LOG', 'pg_16395', '0/1500000'),
+        ].join('\n'),
+      })
+    );
+
+    expect(await findFailingTransactionLsn('subscriber', 'sub_orders', 'native', queryFn)).toBe('0/14C0378');
+  });
+
+  test('matches pglogical errors by replication origin id', async () => {
+    const { queryFn } = fakeQueryFn(
+      node({
+        pglogical: true,
+        origin: { origin_name: 'pgl_shop_provider_sub_orders', origin_id: 2, enabled: true },
+        log: [pglogicalLogLine(2, '0/3A2B3C8'), pglogicalLogLine(3, '0/3B00000')].join('\n'),
+      })
+    );
+
+    expect(await findFailingTransactionLsn('subscriber', 'sub_orders', 'pglogical', queryFn)).toBe('0/3A2B3C8');
+  });
+
+  test('looks up a native subscription on a pglogical node by its native origin', async () => {
+    const { queryFn, calls } = fakeQueryFn(
+      node({ pglogical: true, log: nativeLogLine('ERROR', 'pg_16395', '0/14c0378') })
+    );
+
+    expect(await findFailingTransactionLsn('subscriber', 'sub_orders', 'native', queryFn)).toBe('0/14C0378');
+    expect(calls[0]?.sql).toContain('FROM pg_subscription s');
+  });
+
+  test('returns null when the log cannot be read', async () => {
+    const { queryFn } = fakeQueryFn(node({ log: new Error('permission denied for function pg_read_file') }));
+
+    expect(await findFailingTransactionLsn('subscriber', 'sub_orders', 'native', queryFn)).toBeNull();
+  });
+});
+
+describe('executeOperation skip-transaction', () => {
+  test('skips with ALTER SUBSCRIPTION and records the LSN', async () => {
+    const { queryFn, calls } = fakeQueryFn(node());
+
+    const result = await executeOperation(SKIP, skipContext('0/14c0378'), queryFn);
+
+    expect(result.status).toBe('success');
+    expect(calls.map((call) => call.sql)).toContain(
+      `ALTER SUBSCRIPTION sub_orders SKIP (lsn = '0/14C0378')`
+    );
+    expect(result.context).toEqual(
+      expect.objectContaining({ nodeName: 'Subscriber', additionalParams: { lsn: '0/14C0378' } })
+    );
+    expect(result.message).toContain('0/14C0378');
+  });
+
+  test('refuses native subscriptions before PostgreSQL 15', async () => {
+    const { queryFn, calls } = fakeQueryFn(node({ versionNum: 140011 }));
+
+    const result = await executeOperation(SKIP, skipContext('0/14C0378'), queryFn);
+
+    expect(result.status).toBe('failure');
+    expect(result.error).toBe('ALTER SUBSCRIPTION ... SKIP requires PostgreSQL 15 or later');
+    expect(calls.some((call) => call.sql.includes('SKIP'))).toBe(false);
+  });
+
+  test('advances the pglogical origin while the subscription is disabled', async () => {
+    const { queryFn, calls } = fakeQueryFn(
+      node({
+        pglogical: true,
+        origin: { origin_name: 'pgl_shop_provider_sub_orders', origin_id: 2, enabled: true },
+      })
+    );
+
+    const result = await executeOperation(SKIP, skipContext('0/3A2B3C8', 'pglogical'), queryFn);
+
+    expect(result.status).toBe('success');
+    expect(calls.slice(1).map((call) => [call.sql, call.params])).toEqual([
+      ['SELECT pglogical.alter_subscription_disable($1, $2)', ['sub_orders', true]],
+      [
+        'SELECT pg_replication_origin_advance($1, $2::pg_lsn)',
+        ['pgl_shop_provider_sub_orders', '0/3A2B3C8'],
+      ],
+      ['SELECT pglogical.alter_subscription_enable($1, $2)', ['sub_orders', true]],
+    ]);
+  });
+
+  test('skips a native subscription on a pglogical node with ALTER SUBSCRIPTION', async () => {
+    const { queryFn, calls } = fakeQueryFn(node({ pglogical: true }));
+
+    const result = await executeOperation(SKIP, skipContext('0/14C0378'), queryFn);
+
+    expect(result.status).toBe('success');
+    expect(calls.map((call) => call.sql)).toContain(
+      `ALTER SUBSCRIPTION sub_orders SKIP (lsn = '0/14C0378')`
+    );
+    expect(calls.some((call) => call.sql.includes('pglogical.'))).toBe(false);
+  });
+
+  test('rejects a missing or malformed LSN without touching the node', async () => {
+    const { queryFn, calls } = fakeQueryFn(node());
+
+    const missing = await executeOperation(SKIP, skipContext(), queryFn);
+    const malformed = await executeOperation(SKIP, skipContext('14C0378'), queryFn);
+
+    expect(missing.error).toBe('The LSN of the failing transaction is required to skip it');
+    expect(malformed.error).toBe('"14C0378" is not an LSN (expected e.g. 0/14C0378)');
+    expect(calls).toEqual([]);
+  });
+});
+
+describe('executeOperation slot operations', () => {
+  test('advances an inactive slot and reports the WAL it released', async () => {
+    const { queryFn, calls } = fakeQueryFn(
+      node({
+        slotRows: [
+          [{ active: false, restart_lsn: '0/1000000' }],
+          [{ restart_lsn: '0/4F00000' }],
+        ],
+      })
+    );
+
+    const result = await executeOperation(ADVANCE, slotContext({ targetLsn: null }), queryFn);
+
+    expect(result.status).toBe('success');
+    expect(calls[1]?.params).toEqual(['cdc_slot', null]);
+    expect(result.message).toBe(
+      'Replication slot "cdc_slot" advanced to 0/5000000, no longer retaining 63.0 MB of WAL'
+    );
+    expect(result.context.additionalParams).toEqual({
+      targetLsn: null,
+      endLsn: '0/5000000',
+      releasedBytes: 63 * 1024 * 1024,
+    });
+  });
+
+  test('refuses to advance an active slot', async () => {
+    const { queryFn, calls } = fakeQueryFn(
+      node({ slotRows: [[{ active: true, restart_lsn: '0/1000000' }]] })
+    );
+
+    const result = await executeOperation(ADVANCE, slotContext({ targetLsn: '0/2000000' }), queryFn);
+
+    expect(result.error).toBe('Replication slot "cdc_slot" is active');
+    expect(calls).toHaveLength(1);
+  });
+
+  test('copies a slot with the function for its type', async () => {
+    const { queryFn, calls } = fakeQueryFn(node());
+
+    const logical = await executeOperation(
+      COPY,
+      slotContext({ slotType: 'logical', newSlotName: 'cdc_slot_copy' }),
+      queryFn
+    );
+    await executeOperation(
+      COPY,
+      slotContext({ slotType: 'physical', newSlotName: 'standby_copy' }),
+      queryFn
+    );
+
+    expect(logical.message).toBe('Replication slot "cdc_slot" copied to "cdc_slot_copy"');
+    expect(calls.map((call) => [call.sql, call.params])).toEqual([
+      ['SELECT pg_copy_logical_replication_slot($1, $2)', ['cdc_slot', 'cdc_slot_copy']],
+      ['SELECT pg_copy_physical_replication_slot($1, $2)', ['cdc_slot', 'standby_copy']],
+    ]);
+  });
+});
+
+describe('executeOperation terminate-worker', () => {
+  function terminateContext(additionalParams: Record<string, unknown>): OperationContext {
+    return {
+      nodeId: 'subscriber',
+      nodeName: 'Subscriber',
+      resourceId: 'sub_orders',
+      resourceName: 'sub_orders',
+      additionalParams,
+    };
+  }
+
+  test('looks up the backend in pg_stat_activity', async () => {
+    const { queryFn, calls } = fakeQueryFn(node({ backend: APPLY_WORKER_ROW }));
+
+    const backend = await getBackendActivity('subscriber', 4242, queryFn);
+
+    expect(calls[0]?.params).toEqual([4242]);
+    expect(backend).toEqual({
+      pid: 4242,
+      backendType: 'logical replication worker',
+      user: 'postgres',
+      applicationName: null,
+      clientAddr: null,
+      state: null,
+      waitEventType: 'Activity',
+      waitEvent: 'LogicalApplyMain',
+      backendStart: BACKEND_START,
+      backendStartText: BACKEND_START_TEXT,
+      stateChange: null,
+      query: null,
+    });
+  });
+
+  test('terminates the backend that was looked up', async () => {
+    const { queryFn, calls } = fakeQueryFn(node({ backend: APPLY_WORKER_ROW }));
+    const backend = await getBackendActivity('subscriber', 4242, queryFn);
+
+    const result = await executeOperation(
+      TERMINATE,
+      terminateContext({
+        workerRole: 'apply worker',
+        workerPid: 4242,
+        backendStart: backend?.backendStartText,
+      }),
+      queryFn
+    );
+
+    expect(result.status).toBe('success');
+    expect(result.message).toBe('Terminated the apply worker (pid 4242) for "sub_orders"');
+    // Microsecond backend_start is passed back as text, not as the millisecond Date
+    expect(calls[1]?.params).toEqual([4242, '2024-06-01 12:00:00.123456+00']);
+    expect(result.context.additionalParams).toEqual({ workerRole: 'apply worker', workerPid: 4242 });
+  });
+
+  test('fails when the backend is no longer running', async () => {
+    const { queryFn } = fakeQueryFn(node());
+
+    const result = await executeOperation(
+      TERMINATE,
+      terminateContext({ workerRole: 'walsender', workerPid: 10001, backendStart: BACKEND_START_TEXT }),
+      queryFn
+    );
+
+    expect(result.status).toBe('failure');
+    expect(result.error).toBe('The walsender (pid 10001) for "sub_orders" is no longer running');
+  });
+
+  test('refuses a backend whose backend_start was not looked up', async () => {
+    const { queryFn, calls } = fakeQueryFn(node({ backend: APPLY_WORKER_ROW }));
+
+    const result = await executeOperation(
+      TERMINATE,
+      terminateContext({ workerRole: 'apply worker', workerPid: 4242, backendStart: BACKEND_START }),
+      queryFn
+    );
+
+    expect(result.error).toBe('Look up the apply worker (pid 4242) for "sub_orders" again before terminating it');
+    expect(calls).toEqual([]);
+  });
+
+  test('refuses a subscription without a running worker', async () => {
+    const { queryFn, calls } = fakeQueryFn(node());
+
+    const result = await executeOperation(
+      TERMINATE,
+      terminateContext({ workerRole: 'apply worker', workerPid: null }),
+      queryFn
+    );
+
+    expect(result.error).toBe('"sub_orders" has no running apply worker or walsender to terminate');
+    expect(calls).toEqual([]);
+  });
+});
+
+describe('getWorkerRestartStatus', () => {
+  const terminatedAt = new Date('2024-06-01T12:00:00Z');
+  const at = (seconds: number): Date => new Date(terminatedAt.getTime() + seconds * 1000);
+
+  test('waits for a poll after the termination', () => {
+    expect(getWorkerRestartStatus(4242, terminatedAt, { pid: 4242, timestamp: at(-1) }, at(2))).toBe(
+      'waiting'
+    );
+    expect(getWorkerRestartStatus(4242, terminatedAt, { pid: null, timestamp: at(1) }, at(2))).toBe(
+      'waiting'
+    );
+  });
+
+  test('reports a new pid as restarted', () => {
+    expect(getWorkerRestartStatus(4242, terminatedAt, { pid: 4250, timestamp: at(6) }, at(7))).toBe(
+      'restarted'
+    );
+  });
+
+  test('gives up once the timeout passes without a new pid', () => {
+    const timeout = WORKER_RESTART_TIMEOUT_MS / 1000;
+    expect(getWorkerRestartStatus(4242, terminatedAt, { pid: null, timestamp: at(timeout) }, at(timeout))).toBe(
+      'not_restarted'
+    );
+    expect(getWorkerRestartStatus(4242, terminatedAt, null, at(timeout + 5))).toBe('not_restarted');
+  });
+});
+
+describe('create-subscription', () => {
+  const DSN = 'host=provider.internal port=5432 dbname=shop user=replicator';
+
+  function createContext(additionalParams: Record<string, unknown>): OperationContext {
+    return {
+      nodeId: 'subscriber',
+      nodeName: 'Subscriber',
+      resourceId: 'sub_orders',
+      resourceName: 'sub_orders',
+      additionalParams,
+    };
+  }
+
+  test('builds the provider connection string without a password', () => {
+    expect(
+      buildProviderDsn({ host: 'provider.internal', port: 5432, database: 'shop', user: 'replicator' })
+    ).toBe(DSN);
+    expect(buildProviderDsn({ host: 'db', port: 5433, database: "o'brien db", user: undefined })).toBe(
+      "host=db port=5433 dbname='o\\'brien db'"
+    );
+  });
+
+  test('builds CREATE SUBSCRIPTION for native publications', () => {
+    expect(
+      buildCreateSubscriptionSql({
+        subscriptionName: 'sub_orders',
+        providerDsn: DSN,
+        publications: ['orders_pub', 'Audit'],
+        source: 'native',
+        copyData: false,
+        synchronizeStructure: false,
+        forwardOrigins: false,
+      })
+    ).toBe(
+      [
+        'CREATE SUBSCRIPTION sub_orders',
+        `  CONNECTION '${DSN}'`,
+        '  PUBLICATION orders_pub, "Audit"',
+        '  WITH (copy_data = false, origin = none)',
+      ].join('\n')
+    );
+  });
+
+  test('builds pglogical.create_subscription for replication sets', () => {
+    expect(
+      buildCreateSubscriptionSql({
+        subscriptionName: 'sub_orders',
+        providerDsn: DSN,
+        publications: ['default', 'orders'],
+        source: 'pglogical',
+        copyData: true,
+        synchronizeStructure: true,
+        forwardOrigins: true,
+      })
+    ).toBe(
+      [
+        'SELECT pglogical.create_subscription(',
+        "  subscription_name := 'sub_orders',",
+        `  provider_dsn := '${DSN}',`,
+        "  replication_sets := ARRAY['default', 'orders']::text[],",
+        '  synchronize_structure := true,',
+        '  synchronize_data := true,',
+        "  forward_origins := ARRAY['all']::text[]",
+        ')',
+      ].join('\n')
+    );
+  });
+
+  test('creates a native subscription that ignores other origins', async () => {
+    const { queryFn, calls } = fakeQueryFn(node());
+
+    const result = await executeOperation(
+      CREATE_SUBSCRIPTION,
+      createContext({ providerDsn: DSN, publications: ['orders_pub'], source: 'native' }),
+      queryFn
+    );
+
+    expect(result.status).toBe('success');
+    expect(result.message).toBe('Subscription "sub_orders" created for orders_pub');
+    expect(calls[1]?.sql).toContain('WITH (copy_data = true, origin = none)');
+  });
+
+  test('refuses origin = none before PostgreSQL 16', async () => {
+    const { queryFn, calls } = fakeQueryFn(node({ versionNum: 150006 }));
+
+    const result = await executeOperation(
+      CREATE_SUBSCRIPTION,
+      createContext({ providerDsn: DSN, publications: ['orders_pub'], source: 'native' }),
+      queryFn
+    );
+
+    expect(result.error).toBe(
+      'Not forwarding changes from other origins (origin = none) requires PostgreSQL 16 or later'
+    );
+    expect(calls).toHaveLength(1);
+  });
+
+  test('creates a native subscription on PostgreSQL 15 without the origin option', async () => {
+    const { queryFn, calls } = fakeQueryFn(node({ versionNum: 150006 }));
+
+    const result = await executeOperation(
+      CREATE_SUBSCRIPTION,
+      createContext({
+        providerDsn: DSN,
+        publications: ['orders_pub'],
+        source: 'native',
+        forwardOrigins: true,
+      }),
+      queryFn
+    );
+
+    expect(result.status).toBe('success');
+    expect(calls).toHaveLength(1);
+    expect(calls[0]?.sql).toContain('WITH (copy_data = true)');
+  });
+
+  test('requires the provider and publications from the wizard', async () => {
+    const { queryFn, calls } = fakeQueryFn(node());
+
+    const result = await executeOperation(CREATE_SUBSCRIPTION, createContext({}), queryFn);
+
+    expect(result.error).toBe(
+      'Use the create subscription wizard to choose the provider and its publications'
+    );
+    expect(calls).toEqual([]);
+  });
+});
+
+describe('drop-subscription', () => {
+  function dropContext(additionalParams: Record<string, unknown>): OperationContext {
+    return {
+      nodeId: 'subscriber',
+      nodeName: 'Subscriber',
+      resourceId: 'sub_orders',
+      resourceName: 'sub_orders',
+      additionalParams: {
+        source: 'native',
+        slotName: 'sub_orders',
+        providerNodeId: 'provider',
+        ...additionalParams,
+      },
+    };
+  }
+
+  test('drops a native subscription with its slot when the provider is reachable', async () => {
+    const { queryFn, calls } = fakeQueryFn(node({ slotRows: [[]] }));
+
+    const result = await executeOperation(
+      DROP_SUBSCRIPTION,
+      dropContext({ slotCleanup: 'drop' }),
+      queryFn
+    );
+
+    expect(result.status).toBe('success');
+    expect(result.message).toBe(
+      'Subscription "sub_orders" dropped with its slot "sub_orders" on "provider"'
+    );
+    expect(calls.map((call) => [call.nodeId, call.sql])).toEqual([
+      ['subscriber', 'DROP SUBSCRIPTION sub_orders'],
+      ['provider', 'SELECT slot_name FROM pg_replication_slots WHERE slot_name = $1'],
+    ]);
+    expect(result.context.additionalParams?.leftoverSlot).toBeNull();
+  });
+
+  test('detaches a native subscription from its slot when the provider is unreachable', async () => {
+    const { queryFn, calls } = fakeQueryFn(node({ slotRows: [[{ slot_name: 'sub_orders' }]] }));
+
+    const result = await executeOperation(
+      DROP_SUBSCRIPTION,
+      dropContext({ slotCleanup: 'orphan' }),
+      queryFn
+    );
+
+    expect(result.status).toBe('success');
+    expect(result.message).toBe(
+      'Subscription "sub_orders" dropped; its slot "sub_orders" is left on "provider"'
+    );
+    expect(calls.slice(0, 3).map((call) => call.sql)).toEqual([
+      'ALTER SUBSCRIPTION sub_orders DISABLE',
+      'ALTER SUBSCRIPTION sub_orders SET (slot_name = NONE)',
+      'DROP SUBSCRIPTION sub_orders',
+    ]);
+    expect(result.context.additionalParams?.leftoverSlot).toBe('sub_orders');
+  });
+
+  test('assumes an orphaned slot is left when the provider is not configured', async () => {
+    const { queryFn, calls } = fakeQueryFn(node());
+
+    const result = await executeOperation(
+      DROP_SUBSCRIPTION,
+      dropContext({ providerNodeId: null }),
+      queryFn
+    );
+
+    expect(result.message).toBe(
+      'Subscription "sub_orders" dropped; its slot "sub_orders" is left on the provider'
+    );
+    expect(calls.some((call) => call.sql.includes('pg_replication_slots'))).toBe(false);
+  });
+
+  test('drops the slot pglogical could not drop on a reachable provider', async () => {
+    const { queryFn, calls } = fakeQueryFn(
+      node({ pglogical: true, slotRows: [[{ slot_name: 'pgl_shop_provider_sub_orders' }]] })
+    );
+
+    const result = await executeOperation(
+      DROP_SUBSCRIPTION,
+      dropContext({
+        source: 'pglogical',
+        slotName: 'pgl_shop_provider_sub_orders',
+        slotCleanup: 'drop',
+      }),
+      queryFn
+    );
+
+    expect(calls[0]?.sql).toBe('SELECT pglogical.drop_subscription($1)');
+    expect(calls[0]?.params).toEqual(['sub_orders']);
+    expect(calls.at(-1)).toEqual({
+      nodeId: 'provider',
+      sql: 'SELECT pg_drop_replication_slot($1)',
+      params: ['pgl_shop_provider_sub_orders'],
+    });
+    expect(result.context.additionalParams?.slotOutcome).toBe('dropped');
+    expect(result.context.additionalParams?.leftoverSlot).toBeNull();
+  });
+
+  test('leaves the slot of a pglogical subscription to orphan', async () => {
+    const { queryFn, calls } = fakeQueryFn(
+      node({ pglogical: true, slotRows: [[{ slot_name: 'pgl_shop_provider_sub_orders' }]] })
+    );
+
+    const result = await executeOperation(
+      DROP_SUBSCRIPTION,
+      dropContext({
+        source: 'pglogical',
+        slotName: 'pgl_shop_provider_sub_orders',
+        slotCleanup: 'orphan',
+      }),
+      queryFn
+    );
+
+    expect(calls.some((call) => call.sql.includes('pg_drop_replication_slot'))).toBe(false);
+    expect(result.context.additionalParams?.slotOutcome).toBe('left');
+    expect(result.context.additionalParams?.leftoverSlot).toBe('pgl_shop_provider_sub_orders');
+  });
+
+  test('reports what happened to the slot when the provider cannot be checked', async () => {
+    const unreachable = (): Error => new Error('connect ECONNREFUSED');
+    const native = fakeQueryFn(node({ slotRows: [unreachable()] }));
+    const pglogical = fakeQueryFn(node({ pglogical: true, slotRows: [unreachable()] }));
+
+    const nativeResult = await executeOperation(
+      DROP_SUBSCRIPTION,
+      dropContext({ slotCleanup: 'drop' }),
+      native.queryFn
+    );
+    const pglogicalResult = await executeOperation(
+      DROP_SUBSCRIPTION,
+      dropContext({ source: 'pglogical', slotCleanup: 'drop' }),
+      pglogical.queryFn
+    );
+
+    // DROP SUBSCRIPTION only succeeds after dropping the slot
+    expect(nativeResult.message).toBe(
+      'Subscription "sub_orders" dropped with its slot "sub_orders" on "provider"'
+    );
+    expect(pglogicalResult.message).toBe(
+      'Subscription "sub_orders" dropped; its slot "sub_orders" may be left on "provider", which could not be checked'
+    );
+    expect(pglogicalResult.context.additionalParams?.slotOutcome).toBe('unknown');
+    expect(pglogicalResult.context.additionalParams?.leftoverSlot).toBe('sub_orders');
+  });
+});
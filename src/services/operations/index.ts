@@ -14,13 +14,30 @@ import type {
   QueryFn,
   SubscriptionOperationParams,
   ResyncTableParams,
+  SyncSequenceParams,
+  SkipTransactionParams,
+  CreateSubscriptionParams,
+  DropSubscriptionParams,
   CreateSlotParams,
   SlotOperationParams,
+  AdvanceSlotParams,
+  CopySlotParams,
+  TerminateBackendParams,
+  WorkerRole,
   ClearConflictsParams,
 } from '../../types/operations.js';
 import { OPERATION_TIMEOUT_MS } from '../../types/operations.js';
-import { pauseSubscription, resumeSubscription, resyncTable } from './subscription-ops.js';
-import { createSlot, dropSlot } from './slot-ops.js';
+import {
+  pauseSubscription,
+  resumeSubscription,
+  resyncTable,
+  synchronizeSequence,
+  skipTransaction,
+  createSubscription,
+  dropSubscription,
+} from './subscription-ops.js';
+import { createSlot, dropSlot, advanceSlot, copySlot } from './slot-ops.js';
+import { terminateBackend } from './backend-ops.js';
 import { clearConflicts } from './conflict-ops.js';
 import { collectMetrics } from './prometheus.js';
 
@@ -100,7 +117,7 @@ function normalizeError(err: unknown): { message: string; hint: string | null }
   if (lowerMessage.includes('is active') || lowerMessage.includes('slot is active')) {
     return {
       message,
-      hint: 'Terminate active connections using this slot before dropping it.',
+      hint: 'Terminate the walsender using this slot (Terminate Replication Worker) or pause its subscription before dropping it.',
     };
   }
 
@@ -125,6 +142,47 @@ export async function executeOperation(
     let result: OperationResult;
 
     switch (operation.id) {
+      case 'create-subscription': {
+        const providerDsn = context.additionalParams?.providerDsn as string;
+        const publications = context.additionalParams?.publications;
+        if (!providerDsn || !Array.isArray(publications)) {
+          return createErrorResult(
+            operation.id,
+            context,
+            'Use the create subscription wizard to choose the provider and its publications',
+            Date.now() - startTime
+          );
+        }
+        const params: CreateSubscriptionParams = {
+          nodeId: context.nodeId,
+          subscriptionName: context.resourceName,
+          providerDsn,
+          publications: publications.map(String),
+          source: context.additionalParams?.source === 'pglogical' ? 'pglogical' : 'native',
+          copyData: context.additionalParams?.copyData !== false,
+          synchronizeStructure: context.additionalParams?.synchronizeStructure === true,
+          forwardOrigins: context.additionalParams?.forwardOrigins === true,
+        };
+        result = await withTimeout(createSubscription(params, queryFn));
+        break;
+      }
+
+      case 'drop-subscription': {
+        const slotName = context.additionalParams?.slotName;
+        const providerNodeId = context.additionalParams?.providerNodeId;
+        const params: DropSubscriptionParams = {
+          nodeId: context.nodeId,
+          subscriptionName: context.resourceName,
+          source: context.additionalParams?.source === 'pglogical' ? 'pglogical' : 'native',
+          slotName: typeof slotName === 'string' ? slotName : null,
+          providerNodeId: typeof providerNodeId === 'string' ? providerNodeId : null,
+          // Without a reachable provider the slot can't be dropped with it
+          slotCleanup: context.additionalParams?.slotCleanup === 'drop' ? 'drop' : 'orphan',
+        };
+        result = await withTimeout(dropSubscription(params, queryFn));
+        break;
+      }
+
       case 'pause-subscription': {
         const params: SubscriptionOperationParams = {
           nodeId: context.nodeId,
@@ -164,6 +222,49 @@ export async function executeOperation(
         break;
       }
 
+      case 'sync-sequence': {
+        const providerNodeId = context.additionalParams?.providerNodeId as string;
+        const schemaName = context.additionalParams?.schemaName as string;
+        const sequenceName = context.additionalParams?.sequenceName as string;
+        if (!providerNodeId || !schemaName || !sequenceName) {
+          return createErrorResult(
+            operation.id,
+            context,
+            'Select a publication with a sequence behind its provider to synchronize',
+            Date.now() - startTime
+          );
+        }
+        const params: SyncSequenceParams = {
+          nodeId: context.nodeId,
+          providerNodeId,
+          schemaName,
+          sequenceName,
+          source: context.additionalParams?.source === 'pglogical' ? 'pglogical' : 'native',
+        };
+        result = await withTimeout(synchronizeSequence(params, queryFn));
+        break;
+      }
+
+      case 'skip-transaction': {
+        const lsn = context.additionalParams?.lsn as string;
+        if (!lsn) {
+          return createErrorResult(
+            operation.id,
+            context,
+            'The LSN of the failing transaction is required to skip it',
+            Date.now() - startTime
+          );
+        }
+        const params: SkipTransactionParams = {
+          nodeId: context.nodeId,
+          subscriptionName: context.resourceName,
+          lsn,
+          source: context.additionalParams?.source === 'pglogical' ? 'pglogical' : 'native',
+        };
+        result = await withTimeout(skipTransaction(params, queryFn));
+        break;
+      }
+
       case 'create-slot': {
         const slotType = context.additionalParams?.slotType as 'logical' | 'physical' ?? 'logical';
         const outputPlugin = context.additionalParams?.outputPlugin as string ?? 'pgoutput';
@@ -186,6 +287,68 @@ export async function executeOperation(
         break;
       }
 
+      case 'advance-slot': {
+        const targetLsn = context.additionalParams?.targetLsn;
+        const params: AdvanceSlotParams = {
+          nodeId: context.nodeId,
+          slotName: context.resourceName,
+          targetLsn: typeof targetLsn === 'string' ? targetLsn : null,
+        };
+        result = await withTimeout(advanceSlot(params, queryFn));
+        break;
+      }
+
+      case 'copy-slot': {
+        const newSlotName = context.additionalParams?.newSlotName as string;
+        if (!newSlotName) {
+          return createErrorResult(
+            operation.id,
+            context,
+            'A name for the new slot is required to copy a slot',
+            Date.now() - startTime
+          );
+        }
+        const params: CopySlotParams = {
+          nodeId: context.nodeId,
+          slotName: context.resourceName,
+          newSlotName,
+          slotType: context.additionalParams?.slotType === 'physical' ? 'physical' : 'logical',
+        };
+        result = await withTimeout(copySlot(params, queryFn));
+        break;
+      }
+
+      case 'terminate-worker': {
+        const pid = context.additionalParams?.workerPid;
+        if (typeof pid !== 'number') {
+          return createErrorResult(
+            operation.id,
+            context,
+            `"${context.resourceName}" has no running apply worker or walsender to terminate`,
+            Date.now() - startTime
+          );
+        }
+        const role = context.additionalParams?.workerRole as WorkerRole ?? 'apply worker';
+        const backendStart = context.additionalParams?.backendStart;
+        if (typeof backendStart !== 'string') {
+          return createErrorResult(
+            operation.id,
+            context,
+            `Look up the ${role} (pid ${pid}) for "${context.resourceName}" again before terminating it`,
+            Date.now() - startTime
+          );
+        }
+        const params: TerminateBackendParams = {
+          nodeId: context.nodeId,
+          resourceName: context.resourceName,
+          role,
+          pid,
+          backendStart,
+        };
+        result = await withTimeout(terminateBackend(params, queryFn));
+        break;
+      }
+
       case 'clear-conflicts': {
         const params: ClearConflictsParams = {
           nodeId: context.nodeId,
@@ -263,7 +426,20 @@ function createErrorResult(
 // Re-exports
 // =============================================================================
 
-export { pauseSubscription, resumeSubscription, resyncTable, getReplicatedTables } from './subscription-ops.js';
-export { createSlot, dropSlot, isSlotActive } from './slot-ops.js';
+export {
+  pauseSubscription,
+  resumeSubscription,
+  resyncTable,
+  synchronizeSequence,
+  skipTransaction,
+  createSubscription,
+  dropSubscription,
+  buildCreateSubscriptionSql,
+  buildProviderDsn,
+  findFailingTransactionLsn,
+  getReplicatedTables,
+} from './subscription-ops.js';
+export { createSlot, dropSlot, advanceSlot, copySlot, isSlotActive } from './slot-ops.js';
+export { terminateBackend, getBackendActivity } from './backend-ops.js';
 export { clearConflicts, getConflictCount } from './conflict-ops.js';
 export { collectMetrics, formatAsPrometheus, writeMetricsToFile, metricsCollector } from './prometheus.js';
@@ -0,0 +1,170 @@
+/**
+ * Tests for Prometheus metric collection and text formatting
+ */
+import { describe, test, expect, beforeEach } from 'bun:test';
+import { collectMetrics, formatAsPrometheus } from './prometheus.js';
+import { useStore } from '../../store/index.js';
+import type { SlotData } from '../polling/types.js';
+import type { PrometheusMetric } from '../../types/operations.js';
+
+const NOW = new Date('2024-06-01T12:00:00Z');
+
+function slot(overrides: Partial<SlotData>): SlotData {
+  return {
+    nodeId: 'primary',
+    slotName: 'sub_orders',
+    plugin: 'pgoutput',
+    slotType: 'logical',
+    database: 'shop',
+    active: true,
+    activePid: 4242,
+    retainedBytes: 2048,
+    pendingBytes: 1024,
+    confirmedFlushLsn: '0/3000000',
+    walStatus: 'reserved',
+    xminAge: null,
+    catalogXminAge: null,
+    safeWalSize: null,
+    maxSlotWalKeepSize: null,
+    twoPhase: false,
+    inactiveSince: null,
+    blocker: null,
+    isStale: false,
+    timestamp: NOW,
+    ...overrides,
+  };
+}
+
+/** Values of a metric family keyed by their labels */
+function series(metrics: PrometheusMetric[], name: string): Record<string, number> {
+  const values: Record<string, number> = {};
+  for (const metric of metrics) {
+    if (metric.name !== name) continue;
+    values[Object.values(metric.labels).join('/')] = metric.value;
+  }
+  return values;
+}
+
+beforeEach(() => {
+  const state = useStore.getState();
+  state.clearReplicationData();
+  state.resetConnectionStates();
+  state.initializeNodesInfo([
+    { id: 'primary', name: 'primary', host: 'db1', port: 5432, database: 'shop', hasPglogical: false },
+    { id: 'replica', name: 'replica', host: 'db2', port: 5432, database: 'shop', hasPglogical: false },
+  ]);
+});
+
+describe('collectMetrics', () => {
+  test('reports node health from health checks, else connection status', () => {
+    const { setHealth, setNodeStatus } = useStore.getState();
+    setHealth('primary', {
+      status: 'unhealthy',
+      lastCheckTime: NOW,
+      consecutiveFailures: 3,
+      retryAttempt: 1,
+    });
+    setNodeStatus('replica', 'connected');
+
+    const metrics = collectMetrics();
+
+    expect(series(metrics, 'replmon_node_up')).toEqual({ primary: 0, replica: 1 });
+    expect(series(metrics, 'replmon_node_health_check_failures')).toEqual({ primary: 3 });
+  });
+
+  test('reports stale nodes', () => {
+    useStore.getState().markNodeStale('replica');
+
+    expect(series(collectMetrics(), 'replmon_node_stale')).toEqual({ primary: 0, replica: 1 });
+  });
+
+  test('counts query errors, polling cycles, and polling errors', () => {
+    const { handlePollingData, handlePollingError } = useStore.getState();
+    const failed = {
+      nodeId: 'replica',
+      nodeName: 'replica',
+      success: false,
+      error: new Error('connection refused'),
+      durationMs: 5,
+      hasPglogical: false,
+    };
+    handlePollingData({
+      cycleId: 'c1',
+      startedAt: NOW,
+      completedAt: NOW,
+      durationMs: 250,
+      stats: [failed],
+      subscriptions: [failed],
+      slots: [failed],
+      conflicts: [failed],
+      conflictEvents: [failed],
+      tableSync: [failed],
+      slotStats: [failed],
+      walReceivers: [failed],
+      walPositions: [failed],
+      publications: [failed],
+      sequences: [failed],
+      capabilities: [failed],
+    });
+    handlePollingError({ message: 'all nodes failed', cycleId: 'c2', nodeErrors: [], timestamp: NOW });
+
+    const metrics = collectMetrics();
+
+    expect(series(metrics, 'replmon_query_errors_total')).toEqual({ primary: 0, replica: 1 });
+    expect(series(metrics, 'replmon_polling_cycles_total')).toEqual({ '': 1 });
+    expect(series(metrics, 'replmon_polling_errors_total')).toEqual({ '': 1 });
+    expect(series(metrics, 'replmon_polling_cycle_duration_seconds')).toEqual({ '': 0.25 });
+  });
+
+  test('omits the cycle duration before the first cycle', () => {
+    const metrics = collectMetrics();
+
+    expect(series(metrics, 'replmon_polling_cycles_total')).toEqual({ '': 0 });
+    expect(series(metrics, 'replmon_polling_cycle_duration_seconds')).toEqual({});
+  });
+
+  test('reports slot activity and wal_status as a state set', () => {
+    useStore.getState().setSlots('primary', [
+      slot({ slotName: 'sub_orders', active: true, walStatus: 'extended' }),
+      slot({ slotName: 'sub_old', active: false, walStatus: null }),
+    ]);
+
+    const metrics = collectMetrics();
+
+    expect(series(metrics, 'replmon_slot_active')).toEqual({
+      'primary/sub_orders': 1,
+      'primary/sub_old': 0,
+    });
+    // One series per status, 1 for the current one; none before PG13
+    expect(series(metrics, 'replmon_slot_wal_status')).toEqual({
+      'primary/sub_orders/reserved': 0,
+      'primary/sub_orders/extended': 1,
+      'primary/sub_orders/unreserved': 0,
+      'primary/sub_orders/lost': 0,
+    });
+  });
+});
+
+describe('formatAsPrometheus', () => {
+  test('writes HELP and TYPE once per family and escapes label values', () => {
+    const text = formatAsPrometheus([
+      { name: 'replmon_node_up', type: 'gauge', help: 'Node up', labels: { node: 'a' }, value: 1 },
+      { name: 'replmon_node_up', type: 'gauge', help: 'Node up', labels: { node: 'b"\\' }, value: 0 },
+      { name: 'replmon_polling_cycles_total', type: 'counter', help: 'Cycles', labels: {}, value: 7 },
+    ]);
+
+    expect(text).toBe(
+      [
+        '# HELP replmon_node_up Node up',
+        '# TYPE replmon_node_up gauge',
+        'replmon_node_up{node="a"} 1',
+        'replmon_node_up{node="b\\"\\\\"} 0',
+        '',
+        '# HELP replmon_polling_cycles_total Cycles',
+        '# TYPE replmon_polling_cycles_total counter',
+        'replmon_polling_cycles_total 7',
+        '',
+      ].join('\n')
+    );
+  });
+});
@@ -7,6 +7,7 @@
  */
 
 import { useStore } from '../../store/index.js';
+import type { WalStatus } from '../../store/types.js';
 import type { PrometheusMetric, MetricsCollector } from '../../types/operations.js';
 import * as fs from 'fs/promises';
 
@@ -40,8 +41,58 @@ const METRIC_DEFINITIONS = {
     help: 'Total conflicts by type',
     type: 'counter' as const,
   },
+  slotWalStatus: {
+    name: 'replmon_slot_wal_status',
+    help: 'Slot WAL status (1 for the current wal_status, PG13+)',
+    type: 'gauge' as const,
+  },
+  slotActive: {
+    name: 'replmon_slot_active',
+    help: 'Whether the slot is in use (1=active, 0=inactive)',
+    type: 'gauge' as const,
+  },
+  nodeUp: {
+    name: 'replmon_node_up',
+    help: 'Node connection health (1=healthy, 0=unhealthy)',
+    type: 'gauge' as const,
+  },
+  nodeStale: {
+    name: 'replmon_node_stale',
+    help: 'Whether the node data is stale (1=stale, 0=fresh)',
+    type: 'gauge' as const,
+  },
+  nodeConsecutiveFailures: {
+    name: 'replmon_node_health_check_failures',
+    help: 'Consecutive failed health checks for the node',
+    type: 'gauge' as const,
+  },
+  queryErrors: {
+    name: 'replmon_query_errors_total',
+    help: 'Failed node queries during polling cycles',
+    type: 'counter' as const,
+  },
+  pollingErrors: {
+    name: 'replmon_polling_errors_total',
+    help: 'Polling cycles that failed on every node',
+    type: 'counter' as const,
+  },
+  pollingCycles: {
+    name: 'replmon_polling_cycles_total',
+    help: 'Completed polling cycles',
+    type: 'counter' as const,
+  },
+  pollingCycleDuration: {
+    name: 'replmon_polling_cycle_duration_seconds',
+    help: 'Duration of the most recent polling cycle in seconds',
+    type: 'gauge' as const,
+  },
 };
 
+/**
+ * All WAL status values, exported as one series each (state-set style).
+ */
+const WAL_STATUSES: readonly WalStatus[] = ['reserved', 'extended', 'unreserved', 'lost'];
+
 // =============================================================================
 // Collect Metrics
 // =============================================================================
@@ -53,6 +104,76 @@ export function collectMetrics(): PrometheusMetric[] {
   const state = useStore.getState();
   const metrics: PrometheusMetric[] = [];
 
+  // Collect node health metrics
+  for (const [nodeId, node] of state.nodes) {
+    const nodeName = node.name ?? nodeId;
+    const health = state.healthStatus.get(nodeId);
+    const up = health
+      ? health.status === 'healthy'
+      : state.nodeStatus.get(nodeId) === 'connected';
+
+    metrics.push({
+      name: METRIC_DEFINITIONS.nodeUp.name,
+      type: METRIC_DEFINITIONS.nodeUp.type,
+      help: METRIC_DEFINITIONS.nodeUp.help,
+      labels: { node: nodeName },
+      value: up ? 1 : 0,
+    });
+
+    metrics.push({
+      name: METRIC_DEFINITIONS.nodeStale.name,
+      type: METRIC_DEFINITIONS.nodeStale.type,
+      help: METRIC_DEFINITIONS.nodeStale.help,
+      labels: { node: nodeName },
+      value: state.staleNodes.has(nodeId) ? 1 : 0,
+    });
+
+    if (health) {
+      metrics.push({
+        name: METRIC_DEFINITIONS.nodeConsecutiveFailures.name,
+        type: METRIC_DEFINITIONS.nodeConsecutiveFailures.type,
+        help: METRIC_DEFINITIONS.nodeConsecutiveFailures.help,
+        labels: { node: nodeName },
+        value: health.consecutiveFailures,
+      });
+    }
+
+    metrics.push({
+      name: METRIC_DEFINITIONS.queryErrors.name,
+      type: METRIC_DEFINITIONS.queryErrors.type,
+      help: METRIC_DEFINITIONS.queryErrors.help,
+      labels: { node: nodeName },
+      value: state.queryErrorCounts.get(nodeId) ?? 0,
+    });
+  }
+
+  // Collect polling cycle metrics
+  metrics.push({
+    name: METRIC_DEFINITIONS.pollingCycles.name,
+    type: METRIC_DEFINITIONS.pollingCycles.type,
+    help: METRIC_DEFINITIONS.pollingCycles.help,
+    labels: {},
+    value: state.pollingCycleCount,
+  });
+
+  metrics.push({
+    name: METRIC_DEFINITIONS.pollingErrors.name,
+    type: METRIC_DEFINITIONS.pollingErrors.type,
+    help: METRIC_DEFINITIONS.pollingErrors.help,
+    labels: {},
+    value: state.pollingErrorCount,
+  });
+
+  if (state.lastCycleDurationMs !== null) {
+    metrics.push({
+      name: METRIC_DEFINITIONS.pollingCycleDuration.name,
+      type: METRIC_DEFINITIONS.pollingCycleDuration.type,
+      help: METRIC_DEFINITIONS.pollingCycleDuration.help,
+      labels: {},
+      value: state.lastCycleDurationMs / 1000,
+    });
+  }
+
   // Collect lag metrics
   for (const [key, history] of state.lagHistory) {
     const [nodeId, subscriptionName] = key.split(':');
@@ -113,6 +234,27 @@ export function collectMetrics(): PrometheusMetric[] {
         labels: { node: nodeName, slot_name: slot.slotName },
         value: slot.pendingBytes,
       });
+
+      metrics.push({
+        name: METRIC_DEFINITIONS.slotActive.name,
+        type: METRIC_DEFINITIONS.slotActive.type,
+        help: METRIC_DEFINITIONS.slotActive.help,
+        labels: { node: nodeName, slot_name: slot.slotName },
+        value: slot.active ? 1 : 0,
+      });
+
+      // wal_status is null before PG13; omit the series entirely
+      if (slot.walStatus !== null) {
+        for (const walStatus of WAL_STATUSES) {
+          metrics.push({
+            name: METRIC_DEFINITIONS.slotWalStatus.name,
+            type: METRIC_DEFINITIONS.slotWalStatus.type,
+            help: METRIC_DEFINITIONS.slotWalStatus.help,
+            labels: { node: nodeName, slot_name: slot.slotName, wal_status: walStatus },
+            value: slot.walStatus === walStatus ? 1 : 0,
+          });
+        }
+      }
     }
   }
 
@@ -1,7 +1,7 @@
 /**
  * Slot Operations Service
  *
- * Implements create and drop operations for replication slots.
+ * Implements create, drop, advance, and copy operations for replication slots.
  * Works with both pglogical and native PostgreSQL replication.
  *
  * Feature: 013-operations-modal
@@ -10,11 +10,15 @@
 import type {
   SlotOperationParams,
   CreateSlotParams,
+  AdvanceSlotParams,
+  CopySlotParams,
   QueryFn,
   OperationContext,
   OperationResult,
 } from '../../types/operations.js';
 import { createSuccessResult, createFailureResult } from './utils.js';
+import { diffLsn, parseLsn } from '../../utils/wal-rate.js';
+import { formatBytes } from '../../utils/format.js';
 
 // =============================================================================
 // Create Slot
@@ -137,6 +141,170 @@ export async function dropSlot(
   }
 }
 
+// =============================================================================
+// Advance Slot
+// =============================================================================
+
+/**
+ * Advance a replication slot so it stops retaining WAL before the target.
+ * The slot's consumer never receives the changes it skips, so this is for
+ * abandoned slots (less drastic than dropping them when the disk fills up).
+ *
+ * Uses pg_replication_slot_advance() to the target LSN, or to the node's
+ * current WAL position (replay position on a standby).
+ */
+export async function advanceSlot(
+  params: AdvanceSlotParams,
+  queryFn: QueryFn
+): Promise<OperationResult> {
+  const { nodeId, slotName } = params;
+  const targetLsn = params.targetLsn?.trim().toUpperCase() || null;
+  const startTime = Date.now();
+
+  const context: OperationContext = {
+    nodeId,
+    nodeName: nodeId,
+    resourceId: slotName,
+    resourceName: slotName,
+    additionalParams: { targetLsn },
+  };
+
+  if (targetLsn !== null && parseLsn(targetLsn) === null) {
+    return createFailureResult(
+      'advance-slot',
+      context,
+      `"${params.targetLsn}" is not an LSN (expected e.g. 0/14C0378)`,
+      Date.now() - startTime
+    );
+  }
+
+  try {
+    const before = await queryFn<{ active: boolean; restart_lsn: string | null }>(
+      nodeId,
+      `SELECT active, restart_lsn::text AS restart_lsn FROM pg_replication_slots WHERE slot_name = $1`,
+      [slotName]
+    );
+
+    if (before.length === 0) {
+      return createFailureResult(
+        'advance-slot',
+        context,
+        `Replication slot "${slotName}" does not exist`,
+        Date.now() - startTime
+      );
+    }
+
+    if (before[0]?.active) {
+      return createFailureResult(
+        'advance-slot',
+        context,
+        `Replication slot "${slotName}" is active`,
+        Date.now() - startTime
+      );
+    }
+
+    const advanced = await queryFn<{ end_lsn: string }>(
+      nodeId,
+      `
+      SELECT end_lsn::text AS end_lsn
+      FROM pg_replication_slot_advance(
+        $1,
+        COALESCE(
+          $2::pg_lsn,
+          CASE WHEN pg_is_in_recovery() THEN pg_last_wal_replay_lsn() ELSE pg_current_wal_lsn() END
+        )
+      )
+      `,
+      [slotName, targetLsn]
+    );
+    const endLsn = advanced[0]?.end_lsn ?? targetLsn ?? 'current position';
+
+    const after = await queryFn<{ restart_lsn: string | null }>(
+      nodeId,
+      `SELECT restart_lsn::text AS restart_lsn FROM pg_replication_slots WHERE slot_name = $1`,
+      [slotName]
+    );
+    const restartBefore = before[0]?.restart_lsn ?? null;
+    const restartAfter = after[0]?.restart_lsn ?? null;
+    const releasedBytes =
+      restartBefore !== null && restartAfter !== null
+        ? Math.max(0, diffLsn(restartAfter, restartBefore) ?? 0)
+        : null;
+
+    return createSuccessResult(
+      'advance-slot',
+      {
+        ...context,
+        additionalParams: { targetLsn, endLsn, releasedBytes },
+      },
+      releasedBytes !== null
+        ? `Replication slot "${slotName}" advanced to ${endLsn}, no longer retaining ${formatBytes(releasedBytes)} of WAL`
+        : `Replication slot "${slotName}" advanced to ${endLsn}`,
+      Date.now() - startTime
+    );
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : String(err);
+    return createFailureResult(
+      'advance-slot',
+      context,
+      errorMessage,
+      Date.now() - startTime
+    );
+  }
+}
+
+// =============================================================================
+// Copy Slot
+// =============================================================================
+
+/**
+ * Copy a replication slot: the new slot starts at the source slot's
+ * position, so a second consumer can read the same changes.
+ *
+ * For logical slots: Uses pg_copy_logical_replication_slot()
+ * For physical slots: Uses pg_copy_physical_replication_slot()
+ */
+export async function copySlot(
+  params: CopySlotParams,
+  queryFn: QueryFn
+): Promise<OperationResult> {
+  const { nodeId, slotName, newSlotName, slotType } = params;
+  const startTime = Date.now();
+
+  const context: OperationContext = {
+    nodeId,
+    nodeName: nodeId,
+    resourceId: slotName,
+    resourceName: slotName,
+    additionalParams: { newSlotName, slotType },
+  };
+
+  try {
+    await queryFn(
+      nodeId,
+      slotType === 'logical'
+        ? `SELECT pg_copy_logical_replication_slot($1, $2)`
+        : `SELECT pg_copy_physical_replication_slot($1, $2)`,
+      [slotName, newSlotName]
+    );
+
+    return createSuccessResult(
+      'copy-slot',
+      context,
+      `Replication slot "${slotName}" copied to "${newSlotName}"`,
+      Date.now() - startTime
+    );
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : String(err);
+    return createFailureResult(
+      'copy-slot',
+      context,
+      errorMessage,
+      Date.now() - startTime
+    );
+  }
+}
+
 // =============================================================================
 // Check Slot Active Status
 // =============================================================================
@@ -1,7 +1,8 @@
 /**
  * Subscription Operations Service
  *
- * Implements pause, resume, and resync operations for subscriptions.
+ * Implements create, drop, pause, resume, resync, and skip-transaction
+ * operations for subscriptions, and synchronization of the sequences they don't replicate.
  * Supports both pglogical and native PostgreSQL logical replication.
  *
  * Feature: 013-operations-modal
@@ -10,15 +11,29 @@
 import type {
   SubscriptionOperationParams,
   ResyncTableParams,
+  SyncSequenceParams,
+  SkipTransactionParams,
+  CreateSubscriptionParams,
+  DropSubscriptionParams,
+  SlotOutcome,
   QueryFn,
   OperationContext,
   OperationResult,
 } from '../../types/operations.js';
+import type { QueryFn as NodeQueryFn } from '../polling/types.js';
 import {
   createSuccessResult,
   createFailureResult,
   quoteIdent,
+  quoteLiteral,
 } from './utils.js';
+import { dropSlot } from './slot-ops.js';
+import { parseApplyErrorLog, readLogTail } from '../polling/queries/pglogical-conflicts.js';
+import { parseLsn } from '../../utils/wal-rate.js';
+import { supportsSubscriptionOrigin } from '../../utils/capabilities.js';
+
+/** First PostgreSQL version with ALTER SUBSCRIPTION ... SKIP (15.0) */
+const SUBSCRIPTION_SKIP_VERSION_NUM = 150000;
 
 /**
  * Detect if a node has pglogical installed.
@@ -35,6 +50,265 @@ async function hasPglogical(nodeId: string, queryFn: QueryFn): Promise<boolean>
   }
 }
 
+// =============================================================================
+// Create Subscription
+// =============================================================================
+
+/**
+ * Quote a libpq connection string value if it needs it.
+ */
+function quoteConninfoValue(value: string): string {
+  if (value.length > 0 && !/[\s'\\]/.test(value)) return value;
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+/**
+ * libpq connection string for a subscriber to reach the provider, from the
+ * provider's connection settings. The password is left out so it isn't
+ * stored in the subscription's catalog row; the subscriber's server reads
+ * it from ~/.pgpass. The host is the one replmon connects to, which the
+ * subscriber's server has to be able to reach too.
+ */
+export function buildProviderDsn(config: {
+  host: string;
+  port: number;
+  database: string;
+  user?: string | undefined;
+}): string {
+  const parts = [
+    `host=${quoteConninfoValue(config.host)}`,
+    `port=${config.port}`,
+    `dbname=${quoteConninfoValue(config.database)}`,
+  ];
+  if (config.user) parts.push(`user=${quoteConninfoValue(config.user)}`);
+  return parts.join(' ');
+}
+
+/**
+ * The statement creating a subscription, as run and as previewed.
+ *
+ * For pglogical: pglogical.create_subscription() with forward_origins
+ * '{all}' or '{}'
+ * For native: CREATE SUBSCRIPTION, with origin = none (PG16+) when changes
+ * from other origins aren't forwarded. Without it, the subscription applies
+ * changes from every origin, the only behavior before PostgreSQL 16.
+ */
+export function buildCreateSubscriptionSql(
+  params: Omit<CreateSubscriptionParams, 'nodeId'>
+): string {
+  const { subscriptionName, providerDsn, publications, source, copyData } = params;
+
+  if (source === 'pglogical') {
+    const sets = publications.map(quoteLiteral).join(', ');
+    return [
+      'SELECT pglogical.create_subscription(',
+      `  subscription_name := ${quoteLiteral(subscriptionName)},`,
+      `  provider_dsn := ${quoteLiteral(providerDsn)},`,
+      `  replication_sets := ARRAY[${sets}]::text[],`,
+      `  synchronize_structure := ${params.synchronizeStructure},`,
+      `  synchronize_data := ${copyData},`,
+      `  forward_origins := ${params.forwardOrigins ? "ARRAY['all']" : 'ARRAY[]'}::text[]`,
+      ')',
+    ].join('\n');
+  }
+
+  const options = [`copy_data = ${copyData}`];
+  if (!params.forwardOrigins) options.push('origin = none');
+  return [
+    `CREATE SUBSCRIPTION ${quoteIdent(subscriptionName)}`,
+    `  CONNECTION ${quoteLiteral(providerDsn)}`,
+    `  PUBLICATION ${publications.map(quoteIdent).join(', ')}`,
+    `  WITH (${options.join(', ')})`,
+  ].join('\n');
+}
+
+/**
+ * Create a subscription on the subscriber node. Native subscriptions also
+ * create their slot on the provider.
+ */
+export async function createSubscription(
+  params: CreateSubscriptionParams,
+  queryFn: QueryFn
+): Promise<OperationResult> {
+  const { nodeId, subscriptionName, publications, source, forwardOrigins } = params;
+  const startTime = Date.now();
+
+  const context: OperationContext = {
+    nodeId,
+    nodeName: nodeId,
+    resourceId: subscriptionName,
+    resourceName: subscriptionName,
+    additionalParams: { publications, source },
+  };
+
+  if (publications.length === 0) {
+    return createFailureResult(
+      'create-subscription',
+      context,
+      `Choose at least one ${source === 'pglogical' ? 'replication set' : 'publication'} to subscribe to`,
+      Date.now() - startTime
+    );
+  }
+
+  try {
+    if (source === 'native' && !forwardOrigins) {
+      const versionRows = await queryFn<{ version_num: number }>(
+        nodeId,
+        `SELECT current_setting('server_version_num')::int AS version_num`
+      );
+      if (!supportsSubscriptionOrigin({ versionNum: versionRows[0]?.version_num ?? 0 })) {
+        return createFailureResult(
+          'create-subscription',
+          context,
+          'Not forwarding changes from other origins (origin = none) requires PostgreSQL 16 or later',
+          Date.now() - startTime
+        );
+      }
+    }
+
+    await queryFn(nodeId, buildCreateSubscriptionSql(params));
+
+    return createSuccessResult(
+      'create-subscription',
+      context,
+      `Subscription "${subscriptionName}" created for ${publications.join(', ')}`,
+      Date.now() - startTime
+    );
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : String(err);
+    return createFailureResult(
+      'create-subscription',
+      context,
+      errorMessage,
+      Date.now() - startTime
+    );
+  }
+}
+
+// =============================================================================
+// Drop Subscription
+// =============================================================================
+
+/**
+ * Whether a slot still exists on the provider.
+ *
+ * @returns null if the provider can't be queried
+ */
+async function slotExists(
+  providerNodeId: string,
+  slotName: string,
+  queryFn: QueryFn
+): Promise<boolean | null> {
+  try {
+    const rows = await queryFn<{ slot_name: string }>(
+      providerNodeId,
+      `SELECT slot_name FROM pg_replication_slots WHERE slot_name = $1`,
+      [slotName]
+    );
+    return rows.length > 0;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Drop a subscription on the subscriber node, then check what happened to
+ * its slot on the provider. A leftover slot retains WAL on the provider
+ * until it is dropped there.
+ *
+ * For pglogical: Uses pglogical.drop_subscription(), which always tries to
+ * drop the slot on the provider and only warns when it can't. When the slot
+ * is to be dropped and is still there afterwards, it is dropped on the
+ * provider directly.
+ * For native: Uses DROP SUBSCRIPTION, which drops the slot on the provider
+ * and fails if it can't reach it. To orphan the slot instead, the
+ * subscription is disabled and detached from it (slot_name = NONE) first.
+ */
+export async function dropSubscription(
+  params: DropSubscriptionParams,
+  queryFn: QueryFn
+): Promise<OperationResult> {
+  const { nodeId, subscriptionName, source, slotName, providerNodeId, slotCleanup } = params;
+  const startTime = Date.now();
+
+  const context: OperationContext = {
+    nodeId,
+    nodeName: nodeId,
+    resourceId: subscriptionName,
+    resourceName: subscriptionName,
+    additionalParams: { source, slotName, providerNodeId, slotCleanup },
+  };
+
+  try {
+    if (source === 'pglogical') {
+      await queryFn(
+        nodeId,
+        `SELECT pglogical.drop_subscription($1)`,
+        [subscriptionName]
+      );
+    } else {
+      const subscription = quoteIdent(subscriptionName);
+      if (slotCleanup === 'orphan' && slotName) {
+        // slot_name can only be unset on a disabled subscription
+        await queryFn(nodeId, `ALTER SUBSCRIPTION ${subscription} DISABLE`);
+        await queryFn(nodeId, `ALTER SUBSCRIPTION ${subscription} SET (slot_name = NONE)`);
+      }
+      await queryFn(nodeId, `DROP SUBSCRIPTION ${subscription}`);
+    }
+
+    let slotOutcome: SlotOutcome | null = null;
+    if (slotName) {
+      const exists = providerNodeId ? await slotExists(providerNodeId, slotName, queryFn) : null;
+      if (exists !== null) {
+        slotOutcome = exists ? 'left' : 'dropped';
+      } else if (slotCleanup === 'orphan') {
+        slotOutcome = 'left';
+      } else {
+        // DROP SUBSCRIPTION fails unless it dropped the slot; pglogical only warns
+        slotOutcome = source === 'native' ? 'dropped' : 'unknown';
+      }
+
+      if (slotOutcome === 'left' && slotCleanup === 'drop' && providerNodeId) {
+        const dropped = await dropSlot({ nodeId: providerNodeId, slotName }, queryFn);
+        if (dropped.status === 'success') slotOutcome = 'dropped';
+      }
+    }
+
+    const provider = providerNodeId ? `"${providerNodeId}"` : 'the provider';
+    let message = `Subscription "${subscriptionName}" dropped`;
+    switch (slotOutcome) {
+      case 'dropped':
+        message += ` with its slot "${slotName}" on ${provider}`;
+        break;
+      case 'left':
+        message += `; its slot "${slotName}" is left on ${provider}`;
+        break;
+      case 'unknown':
+        message += `; its slot "${slotName}" may be left on ${provider}, which could not be checked`;
+        break;
+    }
+
+    const leftoverSlot = slotOutcome === 'left' || slotOutcome === 'unknown' ? slotName : null;
+    return createSuccessResult(
+      'drop-subscription',
+      {
+        ...context,
+        additionalParams: { ...context.additionalParams, slotOutcome, leftoverSlot },
+      },
+      message,
+      Date.now() - startTime
+    );
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : String(err);
+    return createFailureResult(
+      'drop-subscription',
+      context,
+      errorMessage,
+      Date.now() - startTime
+    );
+  }
+}
+
 // =============================================================================
 // Pause Subscription
 // =============================================================================
@@ -215,6 +489,291 @@ export async function resyncTable(
   }
 }
 
+// =============================================================================
+// Synchronize Sequence
+// =============================================================================
+
+/**
+ * Bring a subscriber's copy of a published sequence up to the provider.
+ *
+ * For pglogical: Uses pglogical.synchronize_sequence() on the provider, which
+ * queues its current value (plus a margin) to every subscriber of the set
+ * For native: Reads the value on the provider and setval()s it on the
+ * subscriber. A subscriber already ahead of the provider is left as is.
+ */
+export async function synchronizeSequence(
+  params: SyncSequenceParams,
+  queryFn: QueryFn
+): Promise<OperationResult> {
+  const { nodeId, providerNodeId, schemaName, sequenceName, source } = params;
+  const startTime = Date.now();
+  const qualifiedName = `${schemaName}.${sequenceName}`;
+
+  const context: OperationContext = {
+    nodeId,
+    nodeName: nodeId,
+    resourceId: `${nodeId}:${qualifiedName}`,
+    resourceName: qualifiedName,
+    additionalParams: { providerNodeId, schemaName, sequenceName, source },
+  };
+
+  try {
+    const sequence = `${quoteIdent(schemaName)}.${quoteIdent(sequenceName)}`;
+
+    if (source === 'pglogical') {
+      const isPglogical = await hasPglogical(providerNodeId, queryFn);
+
+      if (!isPglogical) {
+        return createFailureResult(
+          'sync-sequence',
+          context,
+          'pglogical is not installed on the provider',
+          Date.now() - startTime
+        );
+      }
+
+      await queryFn(
+        providerNodeId,
+        `SELECT pglogical.synchronize_sequence($1::regclass)`,
+        [sequence]
+      );
+
+      return createSuccessResult(
+        'sync-sequence',
+        context,
+        `Sequence "${qualifiedName}" synchronization queued on provider "${providerNodeId}"`,
+        Date.now() - startTime
+      );
+    }
+
+    // Native: copy the provider's value
+    const providerRows = await queryFn<{ last_value: string | null }>(
+      providerNodeId,
+      `SELECT pg_sequence_last_value($1::regclass)::text AS last_value`,
+      [sequence]
+    );
+    const lastValue = providerRows[0]?.last_value ?? null;
+
+    if (lastValue === null) {
+      return createFailureResult(
+        'sync-sequence',
+        context,
+        `Sequence "${qualifiedName}" has not been used on the provider`,
+        Date.now() - startTime
+      );
+    }
+
+    // GREATEST skips NULL, so a sequence never used on the subscriber takes
+    // the provider's value and one already ahead keeps its own
+    const rows = await queryFn<{ value: string }>(
+      nodeId,
+      `SELECT setval($1::regclass, GREATEST($2::bigint, pg_sequence_last_value($1::regclass)))::text AS value`,
+      [sequence, lastValue]
+    );
+
+    return createSuccessResult(
+      'sync-sequence',
+      context,
+      `Sequence "${qualifiedName}" set to ${rows[0]?.value ?? lastValue} (provider: ${lastValue})`,
+      Date.now() - startTime
+    );
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : String(err);
+    return createFailureResult(
+      'sync-sequence',
+      context,
+      errorMessage,
+      Date.now() - startTime
+    );
+  }
+}
+
+// =============================================================================
+// Skip Failing Transaction
+// =============================================================================
+
+/**
+ * Replication origin a subscription applies changes under.
+ * Native subscriptions use "pg_<oid>"; pglogical names it after the slot.
+ */
+async function getSubscriptionOrigin(
+  nodeId: string,
+  subscriptionName: string,
+  isPglogical: boolean,
+  queryFn: QueryFn
+): Promise<{ name: string; id: number; enabled: boolean } | null> {
+  const rows = await queryFn<{ origin_name: string; origin_id: number; enabled: boolean }>(
+    nodeId,
+    isPglogical
+      ? `
+        SELECT o.roname AS origin_name, o.roident::int AS origin_id, s.sub_enabled AS enabled
+        FROM pglogical.subscription s
+        JOIN pg_replication_origin o ON o.roname = s.sub_slot_name
+        WHERE s.sub_name = $1
+        `
+      : `
+        SELECT o.roname AS origin_name, o.roident::int AS origin_id, s.subenabled AS enabled
+        FROM pg_subscription s
+        JOIN pg_replication_origin o ON o.roname = 'pg_' || s.oid
+        WHERE s.subname = $1
+          AND s.subdbid = (SELECT oid FROM pg_database WHERE datname = current_database())
+        `,
+    [subscriptionName]
+  );
+  const row = rows[0];
+  return row ? { name: row.origin_name, id: row.origin_id, enabled: row.enabled } : null;
+}
+
+/**
+ * Skip the remote transaction a subscription keeps failing to apply, so
+ * replication continues after it. The transaction's changes never reach
+ * this node.
+ *
+ * For pglogical: Disables the subscription, moves its replication origin
+ * past the transaction with pg_replication_origin_advance(), and enables it
+ * again (a subscription that was already disabled stays disabled)
+ * For native: Uses ALTER SUBSCRIPTION ... SKIP (PostgreSQL 15+)
+ */
+export async function skipTransaction(
+  params: SkipTransactionParams,
+  queryFn: QueryFn
+): Promise<OperationResult> {
+  const { nodeId, subscriptionName, source, immediate = true } = params;
+  const lsn = params.lsn.trim().toUpperCase();
+  const startTime = Date.now();
+
+  const context: OperationContext = {
+    nodeId,
+    nodeName: nodeId,
+    resourceId: subscriptionName,
+    resourceName: subscriptionName,
+    additionalParams: { lsn },
+  };
+
+  if (parseLsn(lsn) === null) {
+    return createFailureResult(
+      'skip-transaction',
+      context,
+      `"${params.lsn}" is not an LSN (expected e.g. 0/14C0378)`,
+      Date.now() - startTime
+    );
+  }
+
+  try {
+    if (source === 'pglogical') {
+      const origin = await getSubscriptionOrigin(nodeId, subscriptionName, true, queryFn);
+      if (!origin) {
+        return createFailureResult(
+          'skip-transaction',
+          context,
+          `Replication origin of subscription "${subscriptionName}" does not exist`,
+          Date.now() - startTime
+        );
+      }
+
+      // The origin can't be advanced while the apply worker holds it
+      if (origin.enabled) {
+        await queryFn(
+          nodeId,
+          `SELECT pglogical.alter_subscription_disable($1, $2)`,
+          [subscriptionName, immediate]
+        );
+      }
+      try {
+        await queryFn(
+          nodeId,
+          `SELECT pg_replication_origin_advance($1, $2::pg_lsn)`,
+          [origin.name, lsn]
+        );
+      } finally {
+        if (origin.enabled) {
+          await queryFn(
+            nodeId,
+            `SELECT pglogical.alter_subscription_enable($1, $2)`,
+            [subscriptionName, immediate]
+          );
+        }
+      }
+
+      return createSuccessResult(
+        'skip-transaction',
+        context,
+        `Subscription "${subscriptionName}" advanced past ${lsn} (origin ${origin.name})`,
+        Date.now() - startTime
+      );
+    }
+
+    // Native PostgreSQL subscription
+    const versionRows = await queryFn<{ version_num: number }>(
+      nodeId,
+      `SELECT current_setting('server_version_num')::int AS version_num`
+    );
+    if ((versionRows[0]?.version_num ?? 0) < SUBSCRIPTION_SKIP_VERSION_NUM) {
+      return createFailureResult(
+        'skip-transaction',
+        context,
+        'ALTER SUBSCRIPTION ... SKIP requires PostgreSQL 15 or later',
+        Date.now() - startTime
+      );
+    }
+
+    // The LSN was validated above, so it is safe to inline
+    await queryFn(
+      nodeId,
+      `ALTER SUBSCRIPTION ${quoteIdent(subscriptionName)} SKIP (lsn = '${lsn}')`
+    );
+
+    return createSuccessResult(
+      'skip-transaction',
+      context,
+      `Subscription "${subscriptionName}" will skip the transaction finishing at ${lsn}`,
+      Date.now() - startTime
+    );
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : String(err);
+    return createFailureResult(
+      'skip-transaction',
+      context,
+      errorMessage,
+      Date.now() - startTime
+    );
+  }
+}
+
+/**
+ * Find the LSN of the transaction a subscription fails on, from the most
+ * recent apply error for its replication origin in the node's csvlog.
+ * Requires csvlog and pg_read_file() access (superuser or
+ * pg_read_server_files).
+ *
+ * @returns Finish LSN, or null if it can't be discovered
+ */
+export async function findFailingTransactionLsn(
+  nodeId: string,
+  subscriptionName: string,
+  source: 'pglogical' | 'native',
+  queryFn: QueryFn
+): Promise<string | null> {
+  try {
+    const origin = await getSubscriptionOrigin(
+      nodeId,
+      subscriptionName,
+      source === 'pglogical',
+      queryFn
+    );
+    if (!origin) return null;
+
+    const nodeQueryFn: NodeQueryFn = <R>(sql: string, params?: unknown[]) =>
+      queryFn<R>(nodeId, sql, params);
+    const entries = parseApplyErrorLog(await readLogTail(nodeQueryFn)).filter(
+      (entry) => entry.originName === origin.name || entry.originId === origin.id
+    );
+    return entries[entries.length - 1]?.finishLsn ?? null;
+  } catch {
+    return null;
+  }
+}
+
 // =============================================================================
 // Get Replicated Tables
 // =============================================================================
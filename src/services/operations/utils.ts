@@ -94,6 +94,10 @@ const REMEDIATION_PATTERNS: ReadonlyArray<{
     pattern: /permission denied/i,
     hint: 'Check that the PostgreSQL role has SUPERUSER or replication privileges.',
   },
+  {
+    pattern: /could not connect to publisher when attempting to drop/i,
+    hint: "The subscriber's server can't reach the provider to drop the slot. Retry once it can, or detach the slot with ALTER SUBSCRIPTION ... SET (slot_name = NONE) and drop it on the provider.",
+  },
   {
     pattern: /connection refused|could not connect/i,
     hint: 'Verify the node is reachable and PostgreSQL is running.',
@@ -112,7 +116,7 @@ const REMEDIATION_PATTERNS: ReadonlyArray<{
   },
   {
     pattern: /is active|slot is active/i,
-    hint: 'Terminate active connections using this slot before dropping it.',
+    hint: 'Terminate the walsender using this slot (Terminate Replication Worker) or pause its subscription before dropping it.',
   },
   {
     pattern: /invalid slot name/i,
@@ -134,6 +138,14 @@ const REMEDIATION_PATTERNS: ReadonlyArray<{
     pattern: /conflict_history.*does not exist/i,
     hint: 'The pglogical.conflict_history table does not exist. This may not be a pglogical node.',
   },
+  {
+    pattern: /no password supplied|password authentication failed/i,
+    hint: "Add the provider's password to ~/.pgpass of the subscriber's server; the connection string leaves it out.",
+  },
+  {
+    pattern: /local pglogical node not found/i,
+    hint: 'Create the pglogical node on the subscriber first with pglogical.create_node().',
+  },
   {
     pattern: /truncate/i,
     hint: 'Check that the PostgreSQL role has TRUNCATE permission on the table.',
@@ -188,6 +200,18 @@ export function quoteIdent(identifier: string): string {
   return `"${identifier.replace(/"/g, '""')}"`;
 }
 
+/**
+ * Quote a string as a PostgreSQL literal, for statements that can't take
+ * parameters (CREATE SUBSCRIPTION ... CONNECTION) or are previewed as run.
+ * Assumes standard_conforming_strings (the default since PostgreSQL 9.1).
+ *
+ * @param value - The string to quote
+ * @returns Safely quoted literal
+ */
+export function quoteLiteral(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
 /**
  * Complete list of PostgreSQL reserved words from PostgreSQL 17 documentation.
  * Includes all reserved words (reserved, reserved for type/function names,
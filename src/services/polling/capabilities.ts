@@ -0,0 +1,163 @@
+/**
+ * Capability Probe Module
+ *
+ * Probes each PostgreSQL node once per connection for its server version,
+ * pglogical version, and the settings logical replication depends on.
+ * Query modules pick their SQL variants from the result instead of checking
+ * the version on every poll.
+ *
+ * Results are cached per-node until the node is cleared, which the polling
+ * service does when a node fails or drops out of the healthy set, so a
+ * reconnect (possibly to an upgraded server) probes again.
+ */
+
+import type { NodeCapabilities, QueryFn } from './types.js';
+import {
+  detectPglogical,
+  clearNodeCache as clearPglogicalCache,
+  clearAllCache as clearAllPglogicalCache,
+} from './pglogical-detector.js';
+import { detectSource as detectConflictSource } from './queries/pglogical-conflicts.js';
+
+/**
+ * Query for the probed settings. Settings a server doesn't know are simply
+ * missing from the result, so the same query works on every version.
+ */
+const SETTINGS_QUERY = `
+SELECT name, setting
+FROM pg_settings
+WHERE name IN (
+  'server_version_num',
+  'server_version',
+  'wal_level',
+  'max_replication_slots',
+  'max_wal_senders',
+  'track_commit_timestamp',
+  'max_slot_wal_keep_size'
+)
+`;
+
+/** Row type for settings query */
+interface SettingRow {
+  name: string;
+  setting: string;
+}
+
+/**
+ * Cached probe results per node.
+ * Key: nodeId, Value: capabilities
+ */
+const capabilityCache = new Map<string, NodeCapabilities>();
+
+/**
+ * Probe a node's capabilities.
+ * Uses cached result if available.
+ *
+ * Unlike pglogical detection, a failing settings query is not cached: it
+ * means the node can't be queried at all, and the error is rethrown so the
+ * poll records the node as failed.
+ *
+ * @param nodeId - Node identifier
+ * @param queryFn - Query execution function
+ * @returns Node capabilities
+ * @throws Error if the settings query fails
+ */
+export async function probeCapabilities(
+  nodeId: string,
+  queryFn: QueryFn
+): Promise<NodeCapabilities> {
+  const cached = capabilityCache.get(nodeId);
+  if (cached) {
+    return cached;
+  }
+
+  const result = await performProbe(nodeId, queryFn);
+  capabilityCache.set(nodeId, result);
+  return result;
+}
+
+/**
+ * Run the probe queries.
+ */
+async function performProbe(nodeId: string, queryFn: QueryFn): Promise<NodeCapabilities> {
+  const probedAt = new Date();
+
+  const rows = await queryFn<SettingRow>(SETTINGS_QUERY);
+  const settings = new Map(rows.map((row) => [row.name, row.setting]));
+
+  const pglogical = await detectPglogical(nodeId, queryFn);
+  const conflictSource = pglogical.hasPglogical
+    ? await detectConflictSource(nodeId, queryFn)
+    : 'unavailable';
+
+  return {
+    nodeId,
+    versionNum: parseInteger(settings.get('server_version_num')) ?? 0,
+    version: settings.get('server_version') ?? 'unknown',
+    hasPglogical: pglogical.hasPglogical,
+    pglogicalVersion: pglogical.version,
+    walLevel: settings.get('wal_level') ?? null,
+    maxReplicationSlots: parseInteger(settings.get('max_replication_slots')),
+    maxWalSenders: parseInteger(settings.get('max_wal_senders')),
+    trackCommitTimestamp: parseBoolean(settings.get('track_commit_timestamp')),
+    maxSlotWalKeepSizeMb: parseInteger(settings.get('max_slot_wal_keep_size')),
+    conflictHistory: conflictSource === 'history',
+    probedAt,
+  };
+}
+
+/**
+ * Parse an integer setting (null if missing or not a number).
+ */
+function parseInteger(value: string | undefined): number | null {
+  if (value === undefined) return null;
+  const parsed = Number.parseInt(value, 10);
+  return Number.isNaN(parsed) ? null : parsed;
+}
+
+/**
+ * Parse a boolean setting as pg_settings reports it ("on"/"off").
+ */
+function parseBoolean(value: string | undefined): boolean | null {
+  if (value === undefined) return null;
+  return value === 'on';
+}
+
+/**
+ * Get cached capabilities for a node.
+ *
+ * @param nodeId - Node identifier
+ * @returns Cached result or undefined
+ */
+export function getCachedCapabilities(nodeId: string): NodeCapabilities | undefined {
+  return capabilityCache.get(nodeId);
+}
+
+/**
+ * Get all cached capabilities.
+ *
+ * @returns Map of nodeId to capabilities
+ */
+export function getAllCachedCapabilities(): Map<string, NodeCapabilities> {
+  return new Map(capabilityCache);
+}
+
+/**
+ * Clear cached capabilities (and pglogical detection) for a node.
+ * The next poll of the node probes again.
+ *
+ * @param nodeId - Node identifier
+ */
+export function clearNodeCapabilities(nodeId: string): void {
+  capabilityCache.delete(nodeId);
+  clearPglogicalCache(nodeId);
+}
+
+/**
+ * Clear all cached capabilities (and pglogical detection).
+ * Use during shutdown or full reset.
+ */
+export function clearAllCapabilities(): void {
+  capabilityCache.clear();
+  clearAllPglogicalCache();
+}
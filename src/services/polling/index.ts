@@ -8,7 +8,7 @@
  * Features:
  * - Configurable polling interval (minimum 250ms, default 1000ms)
  * - Start/stop lifecycle control with immediate poll on start
- * - Per-node pglogical detection with caching
+ * - Per-node capability probe (version, pglogical, settings), once per connection
  * - Partial results on node failure (graceful degradation)
  * - In-flight result discard on stop (FR-012)
  * - Overlap prevention with cycle:skip event (FR-007)
@@ -17,8 +17,9 @@
 import { EventEmitter } from 'events';
 import { randomUUID } from 'crypto';
 
-import type { ConnectionManager, ManagedNode } from '../connection-manager/index.js';
+import type { ManagedNode } from '../connection-manager/index.js';
 import type {
+  PollingBackend,
   PollingConfig,
   ResolvedPollingConfig,
   PollingEvents,
@@ -30,15 +31,24 @@ import type {
   SubscriptionData,
   ConflictData,
   ConflictEventResult,
+  TableSyncData,
+  SlotStatsData,
+  WalReceiverData,
+  WalPositionData,
+  PublicationData,
+  SequenceData,
+  NodeCapabilities,
   QueryFn,
 } from './types.js';
 
-import { detectPglogical, clearNodeCache, clearAllCache } from './pglogical-detector.js';
-import { executeAllQueries } from './queries/index.js';
 import {
-  detectSource as detectConflictSource,
-  execute as executeConflictEvents,
-} from './queries/pglogical-conflicts.js';
+  probeCapabilities,
+  getAllCachedCapabilities,
+  clearNodeCapabilities,
+  clearAllCapabilities,
+} from './capabilities.js';
+import { executeAllQueries } from './queries/index.js';
+import { execute as executeConflictEvents } from './queries/pglogical-conflicts.js';
 import type { ConflictEvent } from '../../types/conflicts.js';
 
 // =============================================================================
@@ -144,7 +154,7 @@ function resolveConfig(config?: PollingConfig): ResolvedPollingConfig {
  * with event-based data distribution.
  */
 export class PollingService {
-  private readonly connectionManager: ConnectionManager;
+  private readonly connectionManager: PollingBackend;
   private readonly events: PollingEventEmitter;
   private config: ResolvedPollingConfig;
 
@@ -160,7 +170,7 @@ export class PollingService {
   /** Cycle ID of any in-flight poll (for result discard on stop) */
   private activeCycleId: string | null;
 
-  constructor(connectionManager: ConnectionManager, config?: PollingConfig) {
+  constructor(connectionManager: PollingBackend, config?: PollingConfig) {
     this.connectionManager = connectionManager;
     this.events = new PollingEventEmitter();
     this.config = resolveConfig(config);
@@ -362,6 +372,14 @@ export class PollingService {
       // Get healthy nodes from ConnectionManager
       const healthyNodes = this.connectionManager.getHealthyNodes();
 
+      // Nodes that dropped out get probed again when they reconnect
+      const healthyIds = new Set(healthyNodes.map((node) => node.id));
+      for (const nodeId of getAllCachedCapabilities().keys()) {
+        if (!healthyIds.has(nodeId)) {
+          clearNodeCapabilities(nodeId);
+        }
+      }
+
       // If no healthy nodes, emit partial result with empty arrays
       if (healthyNodes.length === 0) {
         // Check if stopped during wait
@@ -380,6 +398,13 @@ export class PollingService {
           slots: [],
           conflicts: [],
           conflictEvents: [],
+          tableSync: [],
+          slotStats: [],
+          walReceivers: [],
+          walPositions: [],
+          publications: [],
+          sequences: [],
+          capabilities: [],
         };
 
         this.emitResults(result);
@@ -409,6 +434,13 @@ export class PollingService {
         slots: nodeResults.map((r) => r.slots),
         conflicts: nodeResults.map((r) => r.conflicts),
         conflictEvents: nodeResults.map((r) => r.conflictEvents),
+        tableSync: nodeResults.map((r) => r.tableSync),
+        slotStats: nodeResults.map((r) => r.slotStats),
+        walReceivers: nodeResults.map((r) => r.walReceivers),
+        walPositions: nodeResults.map((r) => r.walPositions),
+        publications: nodeResults.map((r) => r.publications),
+        sequences: nodeResults.map((r) => r.sequences),
+        capabilities: nodeResults.map((r) => r.capabilities),
       };
 
       // Check for total failure (all nodes failed)
@@ -448,6 +480,13 @@ export class PollingService {
     slots: NodeData<SlotData[]>;
     conflicts: NodeData<ConflictData[]>;
     conflictEvents: NodeData<ConflictEventResult>;
+    tableSync: NodeData<TableSyncData[]>;
+    slotStats: NodeData<SlotStatsData[]>;
+    walReceivers: NodeData<WalReceiverData[]>;
+    walPositions: NodeData<WalPositionData[]>;
+    publications: NodeData<PublicationData[]>;
+    sequences: NodeData<SequenceData[]>;
+    capabilities: NodeData<NodeCapabilities>;
   }> {
     const startTime = Date.now();
 
@@ -457,15 +496,13 @@ export class PollingService {
         return this.connectionManager.query<R>(node.id, sql, params);
       };
 
-      // Detect pglogical for this node (cached per-node)
-      const pglogicalResult = await detectPglogical(node.id, queryFn);
-      const hasPglogical = pglogicalResult.hasPglogical;
+      // Probe version and settings for this node (cached per connection)
+      const capabilities = await probeCapabilities(node.id, queryFn);
+      const hasPglogical = capabilities.hasPglogical;
+      const conflictSource = capabilities.conflictHistory ? 'history' : 'unavailable';
 
-      // Execute all queries in parallel, including conflict events
-      const [queryResults, conflictSource] = await Promise.all([
-        executeAllQueries(node.id, queryFn, hasPglogical),
-        hasPglogical ? detectConflictSource(node.id, queryFn) : Promise.resolve('unavailable' as const),
-      ]);
+      // Execute all queries in parallel
+      const queryResults = await executeAllQueries(node.id, queryFn, capabilities);
 
       // Query conflict events if source is available
       const conflictEventsData = await executeConflictEvents(node.id, queryFn, conflictSource);
@@ -537,11 +574,82 @@ export class PollingService {
           durationMs,
           hasPglogical,
         },
+        tableSync: {
+          nodeId: node.id,
+          nodeName: node.name,
+          success: true,
+          data: queryResults.tableSync,
+          durationMs,
+          hasPglogical,
+        },
+        slotStats: {
+          nodeId: node.id,
+          nodeName: node.name,
+          success: true,
+          data: queryResults.slotStats,
+          durationMs,
+          hasPglogical,
+        },
+        walReceivers: {
+          nodeId: node.id,
+          nodeName: node.name,
+          success: true,
+          data: queryResults.walReceivers,
+          durationMs,
+          hasPglogical,
+        },
+        walPositions: {
+          nodeId: node.id,
+          nodeName: node.name,
+          success: true,
+          data: queryResults.walPositions,
+          durationMs,
+          hasPglogical,
+        },
+        publications: {
+          nodeId: node.id,
+          nodeName: node.name,
+          success: true,
+          data: queryResults.publications,
+          durationMs,
+          hasPglogical,
+        },
+        // A failed sequences query keeps the node's last values instead of
+        // reporting every published sequence as missing
+        sequences:
+          queryResults.sequences !== null
+            ? {
+                nodeId: node.id,
+                nodeName: node.name,
+                success: true,
+                data: queryResults.sequences,
+                durationMs,
+                hasPglogical,
+              }
+            : {
+                nodeId: node.id,
+                nodeName: node.name,
+                success: false,
+                error: new Error('Sequence values could not be read'),
+                durationMs,
+                hasPglogical,
+              },
+        capabilities: {
+          nodeId: node.id,
+          nodeName: node.name,
+          success: true,
+          data: capabilities,
+          durationMs,
+          hasPglogical,
+        },
       };
     } catch (err) {
       const error = err instanceof Error ? err : new Error(String(err));
       const durationMs = Date.now() - startTime;
 
+      // The connection may have been replaced; probe again next time
+      clearNodeCapabilities(node.id);
+
       return {
         nodeId: node.id,
         success: false,
@@ -586,6 +694,62 @@ export class PollingService {
           durationMs,
           hasPglogical: false,
         },
+        tableSync: {
+          nodeId: node.id,
+          nodeName: node.name,
+          success: false,
+          error,
+          durationMs,
+          hasPglogical: false,
+        },
+        slotStats: {
+          nodeId: node.id,
+          nodeName: node.name,
+          success: false,
+          error,
+          durationMs,
+          hasPglogical: false,
+        },
+        walReceivers: {
+          nodeId: node.id,
+          nodeName: node.name,
+          success: false,
+          error,
+          durationMs,
+          hasPglogical: false,
+        },
+        walPositions: {
+          nodeId: node.id,
+          nodeName: node.name,
+          success: false,
+          error,
+          durationMs,
+          hasPglogical: false,
+        },
+        publications: {
+          nodeId: node.id,
+          nodeName: node.name,
+          success: false,
+          error,
+          durationMs,
+          hasPglogical: false,
+        },
+        sequences: {
+          nodeId: node.id,
+          nodeName: node.name,
+          success: false,
+          error,
+          durationMs,
+          hasPglogical: false,
+        },
+        capabilities: {
+          nodeId: node.id,
+          nodeName: node.name,
+          success: false,
+          error,
+          durationMs,
+          hasPglogical: false,
+        },
       };
     }
   }
@@ -603,6 +767,13 @@ export class PollingService {
     this.events.emit('slots', result.slots);
     this.events.emit('conflicts', result.conflicts);
     this.events.emit('conflictEvents', result.conflictEvents);
+    this.events.emit('tableSync', result.tableSync);
+    this.events.emit('slotStats', result.slotStats);
+    this.events.emit('walReceivers', result.walReceivers);
+    this.events.emit('walPositions', result.walPositions);
+    this.events.emit('publications', result.publications);
+    this.events.emit('sequences', result.sequences);
+    this.events.emit('capabilities', result.capabilities);
 
     // Emit cycle:complete event
     this.events.emit('cycle:complete', {
@@ -616,21 +787,21 @@ export class PollingService {
   // ===========================================================================
 
   /**
-   * Clear pglogical detection cache for a specific node.
+   * Clear capability probe and pglogical detection cache for a specific node.
    * Use when a node is removed or needs re-detection.
    *
    * @param nodeId - Node identifier
    */
   clearNodePglogicalCache(nodeId: string): void {
-    clearNodeCache(nodeId);
+    clearNodeCapabilities(nodeId);
   }
 
   /**
-   * Clear all pglogical detection cache.
+   * Clear all capability probe and pglogical detection cache.
    * Use during shutdown or full reset.
    */
   clearAllPglogicalCache(): void {
-    clearAllCache();
+    clearAllCapabilities();
   }
 }
 
@@ -641,12 +812,12 @@ export class PollingService {
 /**
  * Create a new PollingService instance.
  *
- * @param connectionManager - ConnectionManager for database queries
+ * @param connectionManager - ConnectionManager (or simulator) for database queries
  * @param config - Optional polling configuration
  * @returns PollingService instance
  */
 export function createPollingService(
-  connectionManager: ConnectionManager,
+  connectionManager: PollingBackend,
   config?: PollingConfig
 ): PollingService {
   return new PollingService(connectionManager, config);
@@ -658,6 +829,7 @@ export function createPollingService(
 
 // Re-export all types for convenience
 export type {
+  PollingBackend,
   PollingConfig,
   ResolvedPollingConfig,
   PollingEvents,
@@ -668,6 +840,19 @@ export type {
   SlotData,
   SubscriptionData,
   ConflictData,
+  TableSyncData,
+  TableSyncState,
+  SlotStatsData,
+  SlotBlocker,
+  WalReceiverData,
+  WalPositionData,
+  WalReceiverStatus,
+  PublicationData,
+  PublicationOperations,
+  PublicationTable,
+  PublicationSequence,
+  SequenceData,
+  NodeCapabilities,
   ReplicationState,
   SyncState,
   SlotType,
@@ -686,4 +871,10 @@ export type {
 // Re-export query modules for direct access if needed
 export { executeAllQueries } from './queries/index.js';
 export { detectPglogical, clearNodeCache, clearAllCache } from './pglogical-detector.js';
+export {
+  probeCapabilities,
+  getCachedCapabilities,
+  clearNodeCapabilities,
+  clearAllCapabilities,
+} from './capabilities.js';
 export { pglogicalConflictsQueryModule } from './queries/pglogical-conflicts.js';
@@ -1,8 +1,9 @@
 /**
  * Conflicts Query Module
  *
- * Queries conflict statistics from PostgreSQL 16+ native
- * pg_stat_subscription_stats view.
+ * Queries apply error and conflict statistics from the native
+ * pg_stat_subscription_stats view (PostgreSQL 15+; conflict
+ * counters PostgreSQL 18+).
  *
  * Note: pglogical conflicts are logged to server log only,
  * not to a queryable table. For pglogical nodes, we return
@@ -20,34 +21,49 @@ import type {
   ConflictData,
   ConflictSource,
   QueryFn,
+  NodeCapabilities,
 } from '../types.js';
 
+/** First PostgreSQL version with pg_stat_subscription_stats (15.0) */
+const SUBSCRIPTION_STATS_VERSION_NUM = 150000;
+
+/** First PostgreSQL version with the confl_* conflict counters (18.0) */
+const CONFLICT_COUNTERS_VERSION_NUM = 180000;
+
+/** Conflict counter columns and their output aliases (PG18+) */
+const CONFLICT_COLUMNS: [column: string, alias: string][] = [
+  ['confl_insert_exists', 'insert_conflicts'],
+  ['confl_update_origin_differs', 'update_origin_differs'],
+  ['confl_update_exists', 'update_exists'],
+  ['confl_update_missing', 'update_missing'],
+  ['confl_delete_origin_differs', 'delete_origin_differs'],
+  ['confl_delete_missing', 'delete_missing'],
+  ['confl_multiple_unique_conflicts', 'multiple_unique_conflicts'],
+];
+
 /**
- * SQL query for conflict statistics.
- * Available in PostgreSQL 15+ only.
- * Note: Column names vary by version. Using columns available in PG15-18.
+ * Build the SQL query for conflict statistics.
+ * apply_error_count exists since PG15; conflict counters are zero before PG18.
+ *
+ * @param versionNum - server_version_num of the node
  */
-const CONFLICTS_QUERY = `
+function buildConflictsQuery(versionNum: number): string {
+  const hasCounters = versionNum >= CONFLICT_COUNTERS_VERSION_NUM;
+  const counters = CONFLICT_COLUMNS.map(([column, alias]) =>
+    hasCounters ? `  COALESCE(${column}, 0)::bigint AS ${alias},` : `  0::bigint AS ${alias},`
+  ).join('\n');
+  return `
 SELECT
   subname AS subscription_name,
   COALESCE(apply_error_count, 0)::bigint AS apply_error_count,
-  COALESCE(confl_insert_exists, 0)::bigint AS insert_conflicts,
-  COALESCE(confl_update_origin_differs, 0)::bigint AS update_origin_differs,
-  COALESCE(confl_update_exists, 0)::bigint AS update_exists,
-  COALESCE(confl_update_missing, 0)::bigint AS update_missing,
-  COALESCE(confl_delete_origin_differs, 0)::bigint AS delete_origin_differs,
-  COALESCE(confl_delete_missing, 0)::bigint AS delete_missing,
-  COALESCE(confl_multiple_unique_conflicts, 0)::bigint AS multiple_unique_conflicts,
+${counters}
   stats_reset
 FROM pg_stat_subscription_stats
 `;
+}
 
-/**
- * SQL query to check PostgreSQL version for PG16+ feature detection.
- */
-const VERSION_CHECK_QUERY = `
-SELECT current_setting('server_version_num')::integer AS version_num
-`;
+/** Query for the newest supported version (exposed as nativeQuery) */
+const CONFLICTS_QUERY = buildConflictsQuery(Number.MAX_SAFE_INTEGER);
 
 /** Raw row type from conflicts query */
 interface ConflictRow {
@@ -63,14 +79,6 @@ interface ConflictRow {
   stats_reset: Date | null;
 }
 
-/** Row type for version check */
-interface VersionRow {
-  version_num: number;
-}
-
-/** Minimum PostgreSQL version for conflict stats (16.0) */
-const PG16_VERSION_NUM = 160000;
-
 /**
  * Parse numeric value that may come as string or number.
  */
@@ -133,45 +141,26 @@ function createUnavailableEntry(
   };
 }
 
-/**
- * Check if PostgreSQL version supports conflict statistics.
- */
-async function checkPg16Plus(queryFn: QueryFn): Promise<boolean> {
-  try {
-    const rows = await queryFn<VersionRow>(VERSION_CHECK_QUERY);
-    const row = rows[0];
-    if (row) {
-      return row.version_num >= PG16_VERSION_NUM;
-    }
-    return false;
-  } catch {
-    return false;
-  }
-}
-
 /**
  * Execute conflicts query on a node.
- * Returns conflict statistics for PG16+ or unavailable entries for older versions.
+ * Returns subscription statistics for PG15+ or no entries for older versions.
  *
  * @param nodeId - Node identifier
  * @param queryFn - Query execution function
- * @param hasPglogical - Whether node has pglogical installed
+ * @param capabilities - Node version and pglogical presence
  * @returns Array of ConflictData for all subscriptions on this node
  */
 async function execute(
   nodeId: string,
   queryFn: QueryFn,
-  hasPglogical: boolean
+  capabilities: NodeCapabilities
 ): Promise<ConflictData[]> {
   const timestamp = new Date();
 
-  // Check if this is PostgreSQL 16+
-  const isPg16Plus = await checkPg16Plus(queryFn);
-
-  if (isPg16Plus) {
-    // Query native conflict statistics
+  if (capabilities.versionNum >= SUBSCRIPTION_STATS_VERSION_NUM) {
+    // Query native subscription statistics
     try {
-      const rows = await queryFn<ConflictRow>(CONFLICTS_QUERY);
+      const rows = await queryFn<ConflictRow>(buildConflictsQuery(capabilities.versionNum));
       return rows.map((row) => transformRow(nodeId, row, 'native', timestamp));
     } catch {
       // Query failed, return empty
@@ -184,7 +173,7 @@ async function execute(
   // Note: We could enumerate subscriptions and create unavailable entries,
   // but that adds complexity for minimal value. The UI should handle
   // empty conflict data gracefully.
-  if (hasPglogical) {
+  if (capabilities.hasPglogical) {
     // For pglogical nodes, we could enumerate subscriptions and mark as unavailable
     // For now, return empty - UI should indicate "not available" for older PG
     return [];
@@ -9,20 +9,39 @@
  * - Slots query (pg_replication_slots)
  * - Subscriptions query (native + pglogical)
  * - Conflicts query (PG16+ native)
+ * - Table sync query (native + pglogical)
+ * - Slot statistics query (PG14+ pg_stat_replication_slots)
+ * - WAL receiver query (standbys only, pg_stat_wal_receiver)
+ * - WAL position query (pg_current_wal_lsn, for the WAL generation rate)
+ * - Publications query (native publications + pglogical replication sets)
+ * - Sequences query (pg_sequences, for sequence drift across nodes)
  */
 
 import type {
   QueryFn,
+  NodeCapabilities,
   ReplicationStats,
   SlotData,
   SubscriptionData,
   ConflictData,
+  TableSyncData,
+  SlotStatsData,
+  WalReceiverData,
+  WalPositionData,
+  PublicationData,
+  SequenceData,
 } from '../types.js';
 
 import { statsQueryModule } from './stats.js';
 import { slotsQueryModule } from './slots.js';
 import { subscriptionsQueryModule } from './subscriptions.js';
 import { conflictsQueryModule } from './conflicts.js';
+import { tableSyncQueryModule } from './table-sync.js';
+import { slotStatsQueryModule } from './slot-stats.js';
+import { walReceiverQueryModule } from './wal-receiver.js';
+import { walPositionQueryModule } from './wal-position.js';
+import { publicationsQueryModule } from './publications.js';
+import { sequencesQueryModule, supportsSequenceValues } from './sequences.js';
 
 /**
  * Result of executing all queries on a single node.
@@ -32,33 +51,73 @@ export interface NodeQueryResults {
   slots: SlotData[];
   subscriptions: SubscriptionData[];
   conflicts: ConflictData[];
+  tableSync: TableSyncData[];
+  slotStats: SlotStatsData[];
+  walReceivers: WalReceiverData[];
+  walPositions: WalPositionData[];
+  publications: PublicationData[];
+  /**
+   * Null when the query failed or the node has no pg_sequences, so drift
+   * isn't compared against sequences that merely weren't read
+   */
+  sequences: SequenceData[] | null;
 }
 
 /**
  * Execute all query modules on a single node.
  *
- * Runs all four query categories in parallel for optimal performance.
+ * Runs all ten query categories in parallel for optimal performance.
  * Each query handles its own errors and returns empty arrays on failure.
  *
  * @param nodeId - Node identifier
  * @param queryFn - Query execution function from ConnectionManager
- * @param hasPglogical - Whether node has pglogical installed
+ * @param capabilities - Node version and settings from the capability probe
  * @returns Combined results from all query modules
  */
 export async function executeAllQueries(
   nodeId: string,
   queryFn: QueryFn,
-  hasPglogical: boolean
+  capabilities: NodeCapabilities
 ): Promise<NodeQueryResults> {
   // Execute all queries in parallel
-  const [stats, slots, subscriptions, conflicts] = await Promise.all([
-    safeExecute(() => statsQueryModule.execute(nodeId, queryFn, hasPglogical)),
-    safeExecute(() => slotsQueryModule.execute(nodeId, queryFn, hasPglogical)),
-    safeExecute(() => subscriptionsQueryModule.execute(nodeId, queryFn, hasPglogical)),
-    safeExecute(() => conflictsQueryModule.execute(nodeId, queryFn, hasPglogical)),
+  const [
+    stats,
+    slots,
+    subscriptions,
+    conflicts,
+    tableSync,
+    slotStats,
+    walReceivers,
+    walPositions,
+    publications,
+    sequences,
+  ] = await Promise.all([
+    safeExecute(() => statsQueryModule.execute(nodeId, queryFn, capabilities)),
+    safeExecute(() => slotsQueryModule.execute(nodeId, queryFn, capabilities)),
+    safeExecute(() => subscriptionsQueryModule.execute(nodeId, queryFn, capabilities)),
+    safeExecute(() => conflictsQueryModule.execute(nodeId, queryFn, capabilities)),
+    safeExecute(() => tableSyncQueryModule.execute(nodeId, queryFn, capabilities)),
+    safeExecute(() => slotStatsQueryModule.execute(nodeId, queryFn, capabilities)),
+    safeExecute(() => walReceiverQueryModule.execute(nodeId, queryFn, capabilities)),
+    safeExecute(() => walPositionQueryModule.execute(nodeId, queryFn, capabilities)),
+    safeExecute(() => publicationsQueryModule.execute(nodeId, queryFn, capabilities)),
+    supportsSequenceValues(capabilities)
+      ? executeOrNull(() => sequencesQueryModule.execute(nodeId, queryFn, capabilities))
+      : null,
   ]);
 
-  return { stats, slots, subscriptions, conflicts };
+  return {
+    stats,
+    slots,
+    subscriptions,
+    conflicts,
+    tableSync,
+    slotStats,
+    walReceivers,
+    walPositions,
+    publications,
+    sequences,
+  };
 }
 
 /**
@@ -73,8 +132,26 @@ async function safeExecute<T>(fn: () => Promise<T[]>): Promise<T[]> {
   }
 }
 
+/**
+ * Execute a query, returning null on error, for results where "none" and
+ * "unknown" have to be told apart.
+ */
+async function executeOrNull<T>(fn: () => Promise<T[]>): Promise<T[] | null> {
+  try {
+    return await fn();
+  } catch {
+    return null;
+  }
+}
+
 // Re-export individual query modules for direct access
 export { statsQueryModule } from './stats.js';
 export { slotsQueryModule } from './slots.js';
 export { subscriptionsQueryModule } from './subscriptions.js';
 export { conflictsQueryModule, createUnavailableEntry } from './conflicts.js';
+export { tableSyncQueryModule } from './table-sync.js';
+export { slotStatsQueryModule } from './slot-stats.js';
+export { walReceiverQueryModule } from './wal-receiver.js';
+export { walPositionQueryModule } from './wal-position.js';
+export { publicationsQueryModule } from './publications.js';
+export { sequencesQueryModule, supportsSequenceValues } from './sequences.js';
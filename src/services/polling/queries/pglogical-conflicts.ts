@@ -3,6 +3,7 @@
  *
  * Queries conflict data from pglogical conflict_history table (pglogical 2.5.0+).
  * Falls back to PostgreSQL csvlog parsing when conflict_history is unavailable.
+ * The same log reader finds apply errors, for the LSN of a failing transaction.
  *
  * Feature: 012-conflicts-panel
  */
@@ -18,6 +19,7 @@ import type {
   ConflictType,
   ConflictResolution,
   LogFileConfig,
+  ApplyErrorLogEntry,
 } from '../../../types/conflicts.js';
 
 // =============================================================================
@@ -95,6 +97,17 @@ const GET_LOG_FILE_QUERY = `
 SELECT pg_current_logfile('csvlog') AS logfile
 `;
 
+/**
+ * SQL query to read the end of the current log file.
+ * $1: bytes to read, $2: log directory (or null for the path as reported).
+ */
+const READ_LOG_TAIL_QUERY = `
+SELECT pg_read_file(f.path, GREATEST(s.size - $1, 0), $1) AS content
+FROM (
+  SELECT COALESCE($2 || '/', '') || pg_current_logfile('csvlog') AS path
+) f, LATERAL pg_stat_file(f.path) s
+`;
+
 // =============================================================================
 // Types
 // =============================================================================
@@ -447,6 +460,73 @@ export function parseConflictLog(
   return events;
 }
 
+/**
+ * Error context of a native apply worker (PG15+), e.g.
+ * processing remote data for replication origin "pg_16395" during message
+ * type "INSERT" for replication target relation "public.t" in transaction
+ * 740, finished at 0/14C0378
+ *
+ * csvlog doubles the quotes inside a field. Capture groups:
+ * 1: replication origin name
+ * 2: finish LSN of the remote transaction
+ */
+const NATIVE_APPLY_ERROR_PATTERN = /replication origin "{1,2}([^"]+)"{1,2}.*?finished at ([0-9A-F]{1,8}\/[0-9A-F]{1,8})/i;
+
+/**
+ * Error context of a pglogical apply worker, e.g.
+ * apply INSERT from remote relation public.t in commit before 0/1A2B3C8,
+ * xid 740 committed at 2024-06-01 12:00:00+00 (action #1) from node replorigin 1
+ *
+ * Capture groups:
+ * 1: end LSN of the remote commit
+ * 2: replication origin id
+ */
+const PGLOGICAL_APPLY_ERROR_PATTERN = /in commit before ([0-9A-F]{1,8}\/[0-9A-F]{1,8}).*?replorigin (\d+)/i;
+
+/**
+ * Parse apply worker errors from PostgreSQL csvlog content.
+ * Only ERROR lines count: conflicts that were resolved log the same
+ * context at a lower level.
+ *
+ * @param content - Raw log file content
+ * @returns Apply errors in log order
+ */
+export function parseApplyErrorLog(content: string): ApplyErrorLogEntry[] {
+  const entries: ApplyErrorLogEntry[] = [];
+
+  for (const line of content.split('\n')) {
+    if (!line.includes(',ERROR,')) continue;
+
+    const csvMatch = line.match(/^"?(\d{4}-\d{2}-\d{2}\s+\d{2}:\d{2}:\d{2}(?:\.\d+)?)/);
+    const recordedAt = csvMatch && csvMatch[1] ? new Date(csvMatch[1]) : new Date();
+
+    const native = NATIVE_APPLY_ERROR_PATTERN.exec(line);
+    if (native) {
+      entries.push({
+        recordedAt,
+        originName: native[1] ?? null,
+        originId: null,
+        finishLsn: native[2]!.toUpperCase(),
+        source: 'native',
+      });
+      continue;
+    }
+
+    const pglogical = PGLOGICAL_APPLY_ERROR_PATTERN.exec(line);
+    if (pglogical) {
+      entries.push({
+        recordedAt,
+        originName: null,
+        originId: parseInt(pglogical[2]!, 10),
+        finishLsn: pglogical[1]!.toUpperCase(),
+        source: 'pglogical',
+      });
+    }
+  }
+
+  return entries;
+}
+
 /**
  * Read log file from local filesystem.
  *
@@ -513,6 +593,35 @@ export async function readLogFileRemote(
   }
 }
 
+/**
+ * Read the end of the current log file (up to MAX_LOG_READ_BYTES), without
+ * touching the positions the conflict reader keeps. Reads remotely through
+ * pg_read_file() unless a local path is configured.
+ *
+ * @param queryFn - Query execution function
+ * @param logConfig - Log file configuration
+ * @returns Log content (empty if the log can't be read)
+ */
+export async function readLogTail(
+  queryFn: QueryFn,
+  logConfig: LogFileConfig = {}
+): Promise<string> {
+  try {
+    if (logConfig.localPath) {
+      const content = await readFile(logConfig.localPath, 'utf-8');
+      return content.slice(-MAX_LOG_READ_BYTES);
+    }
+
+    const rows = await queryFn<{ content: string | null }>(READ_LOG_TAIL_QUERY, [
+      MAX_LOG_READ_BYTES,
+      logConfig.logDirectory ?? null,
+    ]);
+    return rows[0]?.content ?? '';
+  } catch {
+    return '';
+  }
+}
+
 /**
  * Query conflicts from PostgreSQL log file.
  *
@@ -698,7 +807,9 @@ export const pglogicalConflictsQueryModule = {
   queryConflictHistory,
   queryConflictLog,
   parseConflictLog,
+  parseApplyErrorLog,
   readLogFile,
   readLogFileRemote,
+  readLogTail,
   execute,
 };
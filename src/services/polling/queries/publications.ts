@@ -0,0 +1,307 @@
+/**
+ * Publications Query Module
+ *
+ * Queries what a node publishes: native publications and pglogical
+ * replication sets, with their member tables.
+ *
+ * Detection Strategy:
+ * - Query native pg_publication + pg_publication_tables (always)
+ * - Query pglogical.replication_set, replication_set_table and
+ *   replication_set_seq of the local node (when pglogical detected)
+ *
+ * Provides:
+ * - Publication / replication set name and replicated operations
+ * - FOR ALL TABLES flag (native)
+ * - Member tables with row filter and column list (PG15+ or pglogical)
+ * - Member sequences (pglogical)
+ */
+
+import type {
+  QueryModule,
+  PublicationData,
+  PublicationOperations,
+  PublicationTable,
+  PublicationSequence,
+  QueryFn,
+  NodeCapabilities,
+} from '../types.js';
+
+/** First PostgreSQL version with pg_publication.pubtruncate (11.0) */
+const PUBTRUNCATE_VERSION_NUM = 110000;
+
+/** First PostgreSQL version with row filters and column lists (15.0) */
+const ROW_FILTER_VERSION_NUM = 150000;
+
+/**
+ * Build the SQL query for native publications.
+ *
+ * @param versionNum - server_version_num of the node
+ */
+function buildNativePublicationsQuery(versionNum: number): string {
+  return `
+SELECT
+  p.pubname AS name,
+  p.puballtables AS all_tables,
+  p.pubinsert AS publish_insert,
+  p.pubupdate AS publish_update,
+  p.pubdelete AS publish_delete,
+  ${versionNum >= PUBTRUNCATE_VERSION_NUM ? 'p.pubtruncate' : 'NULL::boolean'} AS publish_truncate
+FROM pg_publication p
+ORDER BY p.pubname
+`;
+}
+
+/**
+ * Build the SQL query for native publication tables.
+ * pg_publication_tables lists every column when a table has no column list,
+ * so the column list is only taken when pg_publication_rel has one.
+ *
+ * @param versionNum - server_version_num of the node
+ */
+function buildNativeTablesQuery(versionNum: number): string {
+  if (versionNum < ROW_FILTER_VERSION_NUM) {
+    return `
+SELECT
+  pt.pubname AS name,
+  pt.schemaname AS schema_name,
+  pt.tablename AS table_name,
+  NULL::text[] AS column_list,
+  NULL::text AS row_filter
+FROM pg_publication_tables pt
+ORDER BY pt.pubname, pt.schemaname, pt.tablename
+`;
+  }
+  return `
+SELECT
+  pt.pubname AS name,
+  pt.schemaname AS schema_name,
+  pt.tablename AS table_name,
+  CASE WHEN pr.prattrs IS NOT NULL THEN pt.attnames::text[] END AS column_list,
+  pt.rowfilter AS row_filter
+FROM pg_publication_tables pt
+JOIN pg_publication p ON p.pubname = pt.pubname
+LEFT JOIN pg_publication_rel pr
+  ON pr.prpubid = p.oid AND pr.prrelid = format('%I.%I', pt.schemaname, pt.tablename)::regclass
+ORDER BY pt.pubname, pt.schemaname, pt.tablename
+`;
+}
+
+/** Query for the newest supported version (exposed as nativeQuery) */
+const NATIVE_PUBLICATIONS_QUERY = buildNativePublicationsQuery(Number.MAX_SAFE_INTEGER);
+
+/**
+ * SQL query for the local node's pglogical replication sets.
+ */
+const PGLOGICAL_SETS_QUERY = `
+SELECT
+  rs.set_name AS name,
+  false AS all_tables,
+  rs.replicate_insert AS publish_insert,
+  rs.replicate_update AS publish_update,
+  rs.replicate_delete AS publish_delete,
+  rs.replicate_truncate AS publish_truncate
+FROM pglogical.replication_set rs
+JOIN pglogical.local_node ln ON ln.node_id = rs.set_nodeid
+ORDER BY rs.set_name
+`;
+
+/**
+ * SQL query for pglogical replication set tables.
+ * set_row_filter is a node tree; pg_get_expr turns it back into SQL.
+ */
+const PGLOGICAL_TABLES_QUERY = `
+SELECT
+  rs.set_name AS name,
+  n.nspname AS schema_name,
+  c.relname AS table_name,
+  rst.set_att_list AS column_list,
+  pg_get_expr(rst.set_row_filter, rst.set_reloid) AS row_filter
+FROM pglogical.replication_set_table rst
+JOIN pglogical.replication_set rs ON rs.set_id = rst.set_id
+JOIN pglogical.local_node ln ON ln.node_id = rs.set_nodeid
+JOIN pg_class c ON c.oid = rst.set_reloid
+JOIN pg_namespace n ON n.oid = c.relnamespace
+ORDER BY rs.set_name, n.nspname, c.relname
+`;
+
+/**
+ * SQL query for pglogical replication set sequences.
+ */
+const PGLOGICAL_SEQUENCES_QUERY = `
+SELECT
+  rs.set_name AS name,
+  n.nspname AS schema_name,
+  c.relname AS sequence_name
+FROM pglogical.replication_set_seq rss
+JOIN pglogical.replication_set rs ON rs.set_id = rss.set_id
+JOIN pglogical.local_node ln ON ln.node_id = rs.set_nodeid
+JOIN pg_class c ON c.oid = rss.set_seqoid
+JOIN pg_namespace n ON n.oid = c.relnamespace
+ORDER BY rs.set_name, n.nspname, c.relname
+`;
+
+/** Raw row type from the publication and replication set queries */
+interface PublicationRow {
+  name: string;
+  all_tables: boolean;
+  publish_insert: boolean;
+  publish_update: boolean;
+  publish_delete: boolean;
+  publish_truncate: boolean | null;
+}
+
+/** Raw row type from the table queries */
+interface PublicationTableRow {
+  name: string;
+  schema_name: string;
+  table_name: string;
+  column_list: string[] | string | null;
+  row_filter: string | null;
+}
+
+/** Raw row type from the sequence query */
+interface PublicationSequenceRow {
+  name: string;
+  schema_name: string;
+  sequence_name: string;
+}
+
+/**
+ * Parse a text[] value that may arrive unparsed ("{a,b}").
+ */
+function parseTextArray(value: string[] | string | null): string[] | null {
+  if (value === null || value === undefined) return null;
+  if (Array.isArray(value)) return value;
+  const cleaned = value.replace(/^\{|\}$/g, '');
+  return cleaned ? cleaned.split(',').map((item) => item.trim().replace(/^"|"$/g, '')) : [];
+}
+
+/**
+ * Group table rows by publication name.
+ */
+function groupTables(rows: PublicationTableRow[]): Map<string, PublicationTable[]> {
+  const byName = new Map<string, PublicationTable[]>();
+  for (const row of rows) {
+    const tables = byName.get(row.name) ?? [];
+    tables.push({
+      schemaName: row.schema_name,
+      tableName: row.table_name,
+      rowFilter: row.row_filter,
+      columns: parseTextArray(row.column_list),
+    });
+    byName.set(row.name, tables);
+  }
+  return byName;
+}
+
+/**
+ * Group sequence rows by replication set name.
+ */
+function groupSequences(rows: PublicationSequenceRow[]): Map<string, PublicationSequence[]> {
+  const byName = new Map<string, PublicationSequence[]>();
+  for (const row of rows) {
+    const sequences = byName.get(row.name) ?? [];
+    sequences.push({ schemaName: row.schema_name, sequenceName: row.sequence_name });
+    byName.set(row.name, sequences);
+  }
+  return byName;
+}
+
+/**
+ * Transform raw publication row to PublicationData.
+ */
+function transformRow(
+  nodeId: string,
+  row: PublicationRow,
+  source: PublicationData['source'],
+  tables: PublicationTable[],
+  sequences: PublicationSequence[],
+  timestamp: Date
+): PublicationData {
+  const operations: PublicationOperations = {
+    insert: row.publish_insert,
+    update: row.publish_update,
+    delete: row.publish_delete,
+    truncate: row.publish_truncate,
+  };
+  return {
+    nodeId,
+    name: row.name,
+    source,
+    allTables: row.all_tables,
+    operations,
+    tables,
+    sequences,
+    timestamp,
+  };
+}
+
+/**
+ * Execute publications query on a node.
+ * Queries both native publications and pglogical replication sets when available.
+ *
+ * @param nodeId - Node identifier
+ * @param queryFn - Query execution function
+ * @param capabilities - Node version and pglogical presence
+ * @returns Array of PublicationData for every publication and replication set on this node
+ */
+async function execute(
+  nodeId: string,
+  queryFn: QueryFn,
+  capabilities: NodeCapabilities
+): Promise<PublicationData[]> {
+  const timestamp = new Date();
+  const results: PublicationData[] = [];
+
+  // Query native publications first
+  try {
+    const [rows, tableRows] = await Promise.all([
+      queryFn<PublicationRow>(buildNativePublicationsQuery(capabilities.versionNum)),
+      queryFn<PublicationTableRow>(buildNativeTablesQuery(capabilities.versionNum)),
+    ]);
+    const tables = groupTables(tableRows);
+    for (const row of rows) {
+      results.push(transformRow(nodeId, row, 'native', tables.get(row.name) ?? [], [], timestamp));
+    }
+  } catch {
+    // pg_publication doesn't exist before PostgreSQL 10
+  }
+
+  // Query pglogical replication sets if available
+  if (capabilities.hasPglogical) {
+    try {
+      const [rows, tableRows, sequenceRows] = await Promise.all([
+        queryFn<PublicationRow>(PGLOGICAL_SETS_QUERY),
+        queryFn<PublicationTableRow>(PGLOGICAL_TABLES_QUERY),
+        queryFn<PublicationSequenceRow>(PGLOGICAL_SEQUENCES_QUERY),
+      ]);
+      const tables = groupTables(tableRows);
+      const sequences = groupSequences(sequenceRows);
+      for (const row of rows) {
+        results.push(
+          transformRow(
+            nodeId,
+            row,
+            'pglogical',
+            tables.get(row.name) ?? [],
+            sequences.get(row.name) ?? [],
+            timestamp
+          )
+        );
+      }
+    } catch {
+      // Replication set catalogs may be unreadable; continue without them
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Publications query module.
+ */
+export const publicationsQueryModule: QueryModule<PublicationData> = {
+  execute,
+  nativeQuery: NATIVE_PUBLICATIONS_QUERY,
+  pglogicalQuery: PGLOGICAL_SETS_QUERY,
+};
@@ -0,0 +1,104 @@
+/**
+ * Sequences Query Module
+ *
+ * Reads the current value of every user sequence on a node. Logical
+ * replication doesn't carry sequence changes (pglogical only synchronizes
+ * them now and then), so comparing values across nodes shows which
+ * sequences a subscriber is behind on.
+ *
+ * Provides:
+ * - pg_sequences.last_value (PG10+)
+ * - The table owning the sequence (serial and identity columns), so
+ *   sequences of published tables can be matched to native publications
+ */
+
+import type { QueryModule, SequenceData, QueryFn, NodeCapabilities } from '../types.js';
+
+/** First PostgreSQL version with pg_sequences (10.0) */
+const PG_SEQUENCES_VERSION_NUM = 100000;
+
+/**
+ * SQL query for sequence values and their owning tables.
+ * last_value is read as text since bigint may exceed what the driver parses.
+ */
+const SEQUENCES_QUERY = `
+SELECT
+  s.schemaname AS schema_name,
+  s.sequencename AS sequence_name,
+  s.last_value::text AS last_value,
+  CASE WHEN owner.oid IS NOT NULL THEN owner_ns.nspname || '.' || owner.relname END AS owner_table
+FROM pg_sequences s
+JOIN pg_namespace n ON n.nspname = s.schemaname
+JOIN pg_class c ON c.relnamespace = n.oid AND c.relname = s.sequencename
+LEFT JOIN pg_depend d
+  ON d.classid = 'pg_class'::regclass
+  AND d.objid = c.oid
+  AND d.refclassid = 'pg_class'::regclass
+  AND d.deptype IN ('a', 'i')
+LEFT JOIN pg_class owner ON owner.oid = d.refobjid
+LEFT JOIN pg_namespace owner_ns ON owner_ns.oid = owner.relnamespace
+WHERE s.schemaname NOT IN ('pg_catalog', 'information_schema', 'pglogical')
+ORDER BY s.schemaname, s.sequencename
+`;
+
+/** Raw row type from sequences query */
+interface SequenceRow {
+  schema_name: string;
+  sequence_name: string;
+  last_value: string | number | null;
+  owner_table: string | null;
+}
+
+/**
+ * Normalize a last_value that may arrive as text or number to decimal text.
+ */
+function parseLastValue(value: string | number | null): string | null {
+  if (value === null || value === undefined) return null;
+  const text = String(value).trim();
+  return /^-?\d+$/.test(text) ? text : null;
+}
+
+/**
+ * Whether the node can report sequence values (pg_sequences, PG10+).
+ */
+export function supportsSequenceValues(capabilities: Pick<NodeCapabilities, 'versionNum'>): boolean {
+  return capabilities.versionNum >= PG_SEQUENCES_VERSION_NUM;
+}
+
+/**
+ * Execute sequences query on a node.
+ * Returns an empty array before PostgreSQL 10, which has no pg_sequences.
+ *
+ * @param nodeId - Node identifier
+ * @param queryFn - Query execution function
+ * @param capabilities - Node version
+ * @returns Array of SequenceData for every user sequence on this node
+ */
+async function execute(
+  nodeId: string,
+  queryFn: QueryFn,
+  capabilities: NodeCapabilities
+): Promise<SequenceData[]> {
+  if (!supportsSequenceValues(capabilities)) {
+    return [];
+  }
+
+  const timestamp = new Date();
+  const rows = await queryFn<SequenceRow>(SEQUENCES_QUERY);
+  return rows.map((row) => ({
+    nodeId,
+    schemaName: row.schema_name,
+    sequenceName: row.sequence_name,
+    lastValue: parseLastValue(row.last_value),
+    ownerTable: row.owner_table,
+    timestamp,
+  }));
+}
+
+/**
+ * Sequences query module.
+ */
+export const sequencesQueryModule: QueryModule<SequenceData> = {
+  execute,
+  nativeQuery: SEQUENCES_QUERY,
+};
@@ -0,0 +1,114 @@
+/**
+ * Slot Statistics Query Module
+ *
+ * Queries logical decoding statistics from PostgreSQL 14+
+ * pg_stat_replication_slots.
+ *
+ * Provides:
+ * - Transactions and bytes spilled to disk by the walsender's decoder
+ * - Transactions and bytes streamed while still in progress
+ * - Total transactions and bytes decoded
+ * - Stats reset timestamp
+ *
+ * Counters are cumulative; per-second rates are derived in the store
+ * from consecutive polls.
+ */
+
+import type {
+  QueryModule,
+  SlotStatsData,
+  QueryFn,
+  NodeCapabilities,
+} from '../types.js';
+
+/**
+ * SQL query for slot decoding statistics.
+ * Available in PostgreSQL 14+ only.
+ */
+const SLOT_STATS_QUERY = `
+SELECT
+  slot_name,
+  spill_txns,
+  spill_bytes,
+  stream_txns,
+  stream_bytes,
+  total_txns,
+  total_bytes,
+  stats_reset
+FROM pg_stat_replication_slots
+`;
+
+/** Raw row type from slot statistics query */
+interface SlotStatsRow {
+  slot_name: string;
+  spill_txns: string | number;
+  spill_bytes: string | number;
+  stream_txns: string | number;
+  stream_bytes: string | number;
+  total_txns: string | number;
+  total_bytes: string | number;
+  stats_reset: Date | null;
+}
+
+/** Minimum PostgreSQL version for pg_stat_replication_slots (14.0) */
+const PG14_VERSION_NUM = 140000;
+
+/**
+ * Parse numeric value that may come as string or number.
+ */
+function parseNumber(value: string | number | null, defaultValue = 0): number {
+  if (value === null || value === undefined) return defaultValue;
+  if (typeof value === 'number') return value;
+  const parsed = parseInt(value, 10);
+  return isNaN(parsed) ? defaultValue : parsed;
+}
+
+/**
+ * Transform raw query row to SlotStatsData.
+ */
+function transformRow(nodeId: string, row: SlotStatsRow, timestamp: Date): SlotStatsData {
+  return {
+    nodeId,
+    slotName: row.slot_name,
+    spillTxns: parseNumber(row.spill_txns),
+    spillBytes: parseNumber(row.spill_bytes),
+    streamTxns: parseNumber(row.stream_txns),
+    streamBytes: parseNumber(row.stream_bytes),
+    totalTxns: parseNumber(row.total_txns),
+    totalBytes: parseNumber(row.total_bytes),
+    statsReset: row.stats_reset,
+    timestamp,
+  };
+}
+
+/**
+ * Execute slot statistics query on a node.
+ * Returns an empty array before PostgreSQL 14.
+ *
+ * @param nodeId - Node identifier
+ * @param queryFn - Query execution function
+ * @param capabilities - Node version (pglogical slots are decoded by the same walsender)
+ * @returns Array of SlotStatsData for all logical slots on this node
+ */
+async function execute(
+  nodeId: string,
+  queryFn: QueryFn,
+  capabilities: NodeCapabilities
+): Promise<SlotStatsData[]> {
+  const timestamp = new Date();
+
+  if (capabilities.versionNum < PG14_VERSION_NUM) {
+    return [];
+  }
+
+  const rows = await queryFn<SlotStatsRow>(SLOT_STATS_QUERY);
+  return rows.map((row) => transformRow(nodeId, row, timestamp));
+}
+
+/**
+ * Slot statistics query module.
+ */
+export const slotStatsQueryModule: QueryModule<SlotStatsData> = {
+  execute,
+  nativeQuery: SLOT_STATS_QUERY,
+};
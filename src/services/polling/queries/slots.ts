@@ -6,60 +6,110 @@
  *
  * Provides:
  * - Slot name, type (physical/logical), plugin
- * - Active state and database
- * - WAL retention in bytes via pg_wal_lsn_diff()
- * - WAL status (PG13+)
+ * - Active state, walsender pid and database
+ * - WAL retention in bytes via pg_wal_lsn_diff(), and confirmed_flush_lsn
+ * - WAL status and safe_wal_size against max_slot_wal_keep_size (PG13+)
+ * - xmin / catalog_xmin age in transactions
+ * - two_phase (PG14+) and inactive_since (PG17+)
+ * - The long-running transaction holding back restart_lsn (from pg_stat_activity)
  * - Stale detection (inactive with >1GB retention)
  */
 
 import type {
   QueryModule,
+  SlotBlocker,
   SlotData,
   SlotType,
   WalStatus,
   QueryFn,
+  NodeCapabilities,
 } from '../types.js';
 
 /** 1GB threshold for stale slot detection */
 const STALE_THRESHOLD_BYTES = 1073741824;
 
 /**
- * SQL query for replication slots.
+ * Transactions open at least this long are reported as holding back a
+ * logical slot's restart_lsn.
+ */
+const BLOCKER_MIN_SECONDS = 60;
+
+/** First PostgreSQL version with each pg_replication_slots column */
+const WAL_STATUS_VERSION_NUM = 130000;
+const TWO_PHASE_VERSION_NUM = 140000;
+const INACTIVE_SINCE_VERSION_NUM = 170000;
+
+/**
+ * Build the SQL query for replication slots.
+ * Columns missing from older versions are selected as NULL.
  * WAL retention calculated via pg_wal_lsn_diff().
- * wal_status available in PG13+, returns NULL on older versions.
  *
  * Two metrics:
  * - retained_bytes: Total WAL retained (current - restart_lsn) - for slot health display
  * - pending_bytes: Actual pending changes (current - confirmed_flush_lsn) - for lag calculation
  *   For logical slots, this is the real replication lag.
  *   For physical slots, falls back to restart_lsn.
+ *
+ * The lateral join picks the oldest transaction with an assigned xid: logical
+ * decoding cannot move restart_lsn past the start of a running transaction.
+ *
+ * @param versionNum - server_version_num of the node (0 if unknown)
  */
-const SLOTS_QUERY = `
+function buildSlotsQuery(versionNum: number): string {
+  const column = (sinceVersion: number, expression: string, alias: string): string =>
+    versionNum >= sinceVersion ? `${expression} AS ${alias}` : `NULL AS ${alias}`;
+
+  return `
 SELECT
-  slot_name,
-  plugin,
-  slot_type,
-  database,
-  active,
+  s.slot_name,
+  s.plugin,
+  s.slot_type,
+  s.database,
+  s.active,
+  s.active_pid,
   COALESCE(
-    pg_wal_lsn_diff(pg_current_wal_lsn(), restart_lsn)::bigint,
+    pg_wal_lsn_diff(pg_current_wal_lsn(), s.restart_lsn)::bigint,
     0
   ) AS retained_bytes,
   COALESCE(
     pg_wal_lsn_diff(
       pg_current_wal_lsn(),
-      COALESCE(confirmed_flush_lsn, restart_lsn)
+      COALESCE(s.confirmed_flush_lsn, s.restart_lsn)
     )::bigint,
     0
   ) AS pending_bytes,
-  CASE
-    WHEN current_setting('server_version_num')::integer >= 130000
-    THEN wal_status::text
-    ELSE NULL
-  END AS wal_status,
-  pg_current_wal_lsn()::text AS current_wal_lsn
-FROM pg_replication_slots
+  s.confirmed_flush_lsn::text AS confirmed_flush_lsn,
+  ${column(WAL_STATUS_VERSION_NUM, 's.wal_status::text', 'wal_status')},
+  pg_current_wal_lsn()::text AS current_wal_lsn,
+  age(s.xmin) AS xmin_age,
+  age(s.catalog_xmin) AS catalog_xmin_age,
+  ${column(WAL_STATUS_VERSION_NUM, 's.safe_wal_size', 'safe_wal_size')},
+  NULLIF(pg_size_bytes(current_setting('max_slot_wal_keep_size', true)), -1) AS max_slot_wal_keep_size,
+  ${column(TWO_PHASE_VERSION_NUM, 's.two_phase', 'two_phase')},
+  ${column(INACTIVE_SINCE_VERSION_NUM, 's.inactive_since', 'inactive_since')},
+  b.pid AS blocker_pid,
+  b.usename AS blocker_user,
+  b.application_name AS blocker_application,
+  b.state AS blocker_state,
+  b.xact_start AS blocker_xact_start,
+  age(b.backend_xid) AS blocker_xid_age,
+  left(b.query, 200) AS blocker_query
+FROM pg_replication_slots s
+LEFT JOIN LATERAL (
+  SELECT a.pid, a.usename, a.application_name, a.state, a.xact_start, a.backend_xid, a.query
+  FROM pg_stat_activity a
+  WHERE s.slot_type = 'logical'
+    AND a.backend_xid IS NOT NULL
+    AND a.pid IS DISTINCT FROM s.active_pid
+    AND a.xact_start < now() - interval '${BLOCKER_MIN_SECONDS} seconds'
+  ORDER BY a.xact_start
+  LIMIT 1
+) b ON true
 `;
+}
+
+/** Query for the newest supported version (exposed as nativeQuery) */
+const SLOTS_QUERY = buildSlotsQuery(Number.MAX_SAFE_INTEGER);
 
 /** Raw row type from pg_replication_slots query */
 interface SlotRow {
@@ -68,9 +118,24 @@ interface SlotRow {
   slot_type: string;
   database: string | null;
   active: boolean;
+  active_pid: number | null;
   retained_bytes: string | number;
   pending_bytes: string | number;
+  confirmed_flush_lsn: string | null;
   wal_status: string | null;
+  xmin_age: string | number | null;
+  catalog_xmin_age: string | number | null;
+  safe_wal_size: string | number | null;
+  max_slot_wal_keep_size: string | number | null;
+  two_phase: boolean | null;
+  inactive_since: Date | null;
+  blocker_pid: number | null;
+  blocker_user: string | null;
+  blocker_application: string | null;
+  blocker_state: string | null;
+  blocker_xact_start: Date | null;
+  blocker_xid_age: string | number | null;
+  blocker_query: string | null;
 }
 
 /**
@@ -109,6 +174,31 @@ function parseNumber(value: string | number | null, defaultValue = 0): number {
   return isNaN(parsed) ? defaultValue : parsed;
 }
 
+/**
+ * Parse a nullable numeric value that may come as string or number.
+ */
+function parseNullableNumber(value: string | number | null): number | null {
+  if (value === null || value === undefined) return null;
+  const parsed = parseNumber(value, NaN);
+  return isNaN(parsed) ? null : parsed;
+}
+
+/**
+ * Extract the transaction holding back restart_lsn, if any.
+ */
+function parseBlocker(row: SlotRow): SlotBlocker | null {
+  if (row.blocker_pid === null || row.blocker_xact_start === null) return null;
+  return {
+    pid: row.blocker_pid,
+    user: row.blocker_user,
+    applicationName: row.blocker_application || null,
+    state: row.blocker_state,
+    xactStart: row.blocker_xact_start,
+    xidAge: parseNullableNumber(row.blocker_xid_age),
+    query: row.blocker_query,
+  };
+}
+
 /**
  * Determine if a slot is stale.
  * A slot is stale if it's inactive and retaining >1GB of WAL.
@@ -130,9 +220,18 @@ function transformRow(nodeId: string, row: SlotRow, timestamp: Date): SlotData {
     slotType: parseSlotType(row.slot_type),
     database: row.database,
     active: row.active,
+    activePid: row.active_pid,
     retainedBytes,
     pendingBytes,
+    confirmedFlushLsn: row.confirmed_flush_lsn,
     walStatus: parseWalStatus(row.wal_status),
+    xminAge: parseNullableNumber(row.xmin_age),
+    catalogXminAge: parseNullableNumber(row.catalog_xmin_age),
+    safeWalSize: parseNullableNumber(row.safe_wal_size),
+    maxSlotWalKeepSize: parseNullableNumber(row.max_slot_wal_keep_size),
+    twoPhase: row.two_phase,
+    inactiveSince: row.inactive_since,
+    blocker: parseBlocker(row),
     isStale: isStale(row.active, retainedBytes),
     timestamp,
   };
@@ -143,16 +242,16 @@ function transformRow(nodeId: string, row: SlotRow, timestamp: Date): SlotData {
  *
  * @param nodeId - Node identifier
  * @param queryFn - Query execution function
- * @param _hasPglogical - Not used for slots (same query for all nodes)
+ * @param capabilities - Node version (selects the columns to read)
  * @returns Array of SlotData for all replication slots on this node
  */
 async function execute(
   nodeId: string,
   queryFn: QueryFn,
-  _hasPglogical: boolean
+  capabilities: NodeCapabilities
 ): Promise<SlotData[]> {
   const timestamp = new Date();
-  const rows = await queryFn<SlotRow>(SLOTS_QUERY);
+  const rows = await queryFn<SlotRow>(buildSlotsQuery(capabilities.versionNum));
   return rows.map((row) => transformRow(nodeId, row, timestamp));
 }
 
@@ -17,6 +17,7 @@ import type {
   ReplicationState,
   SyncState,
   QueryFn,
+  NodeCapabilities,
 } from '../types.js';
 
 /**
@@ -123,13 +124,13 @@ function transformRow(nodeId: string, row: StatsRow, timestamp: Date): Replicati
  *
  * @param nodeId - Node identifier
  * @param queryFn - Query execution function
- * @param _hasPglogical - Not used for stats (same query for all nodes)
+ * @param _capabilities - Not used for stats (same query for all nodes)
  * @returns Array of ReplicationStats for all standbys connected to this node
  */
 async function execute(
   nodeId: string,
   queryFn: QueryFn,
-  _hasPglogical: boolean
+  _capabilities: NodeCapabilities
 ): Promise<ReplicationStats[]> {
   const timestamp = new Date();
   const rows = await queryFn<StatsRow>(STATS_QUERY);
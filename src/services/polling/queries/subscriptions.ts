@@ -11,6 +11,7 @@
  *
  * Provides:
  * - Subscription name, enabled state, status
+ * - disable_on_error setting (native PG15+)
  * - LSN positions (received, latest_end)
  * - Worker PID and last message time
  * - Provider node and replication sets (pglogical only)
@@ -21,17 +22,26 @@ import type {
   SubscriptionData,
   SubscriptionStatus,
   QueryFn,
+  NodeCapabilities,
 } from '../types.js';
 
+/** First PostgreSQL version with pg_subscription.subdisableonerr (15.0) */
+const DISABLE_ON_ERROR_VERSION_NUM = 150000;
+
 /**
- * SQL query for native PostgreSQL subscriptions.
+ * Build the SQL query for native PostgreSQL subscriptions.
  * Joins pg_subscription with pg_stat_subscription for runtime status.
+ *
+ * @param versionNum - server_version_num of the node
  */
-const NATIVE_SUBSCRIPTIONS_QUERY = `
+function buildNativeSubscriptionsQuery(versionNum: number): string {
+  return `
 SELECT
   sub.subname AS subscription_name,
   sub.subenabled AS enabled,
+  ${versionNum >= DISABLE_ON_ERROR_VERSION_NUM ? 'sub.subdisableonerr' : 'NULL::boolean'} AS disable_on_error,
   sub.subslotname AS slot_name,
+  sub.subpublications AS publications,
   st.received_lsn::text AS received_lsn,
   st.latest_end_lsn::text AS latest_end_lsn,
   st.last_msg_receipt_time AS last_message_time,
@@ -39,6 +49,10 @@ SELECT
 FROM pg_subscription sub
 LEFT JOIN pg_stat_subscription st ON st.subid = sub.oid AND st.worker_type = 'apply'
 `;
+}
+
+/** Query for the newest supported version (exposed as nativeQuery) */
+const NATIVE_SUBSCRIPTIONS_QUERY = buildNativeSubscriptionsQuery(Number.MAX_SAFE_INTEGER);
 
 /**
  * SQL query for pglogical subscriptions.
@@ -73,7 +87,9 @@ LEFT JOIN pg_stat_activity a
 interface NativeSubRow {
   subscription_name: string;
   enabled: boolean;
+  disable_on_error: boolean | null;
   slot_name: string | null;
+  publications: string[] | string | null;
   received_lsn: string | null;
   latest_end_lsn: string | null;
   last_message_time: Date | null;
@@ -147,7 +163,7 @@ function inferNativeStatus(enabled: boolean, workerPid: number | null): Subscrip
 }
 
 /**
- * Parse replication sets from pglogical.
+ * Parse replication sets (pglogical) or publications (native).
  * Can be an array or a comma-separated string.
  */
 function parseReplicationSets(sets: string[] | string | null): string[] {
@@ -174,6 +190,7 @@ function transformNativeRow(
     nodeId,
     subscriptionName: row.subscription_name,
     enabled: row.enabled,
+    disableOnError: row.disable_on_error ?? null,
     status: inferNativeStatus(row.enabled, row.worker_pid),
     providerNode: null, // Not available in native subscriptions
     providerHost: null,
@@ -181,7 +198,7 @@ function transformNativeRow(
     slotName: row.slot_name,
     receivedLsn: row.received_lsn,
     latestEndLsn: row.latest_end_lsn,
-    replicationSets: [], // Not applicable for native subscriptions
+    replicationSets: parseReplicationSets(row.publications),
     lastMessageTime: row.last_message_time,
     workerPid: row.worker_pid,
     source: 'native',
@@ -203,6 +220,7 @@ function transformPglogicalRow(
     nodeId,
     subscriptionName: row.subscription_name,
     enabled: row.status !== 'down' && row.status !== 'stopped',
+    disableOnError: null, // pglogical has no equivalent setting
     status: mapPglogicalStatus(row.status),
     providerNode: row.provider_node,
     providerHost: providerConn?.host ?? null,
@@ -224,13 +242,13 @@ function transformPglogicalRow(
  *
  * @param nodeId - Node identifier
  * @param queryFn - Query execution function
- * @param hasPglogical - Whether node has pglogical installed
+ * @param capabilities - Node version and pglogical presence
  * @returns Array of SubscriptionData for all subscriptions on this node
  */
 async function execute(
   nodeId: string,
   queryFn: QueryFn,
-  hasPglogical: boolean
+  capabilities: NodeCapabilities
 ): Promise<SubscriptionData[]> {
   const timestamp = new Date();
   const results: SubscriptionData[] = [];
@@ -238,7 +256,9 @@ async function execute(
 
   // Query native subscriptions first
   try {
-    const nativeRows = await queryFn<NativeSubRow>(NATIVE_SUBSCRIPTIONS_QUERY);
+    const nativeRows = await queryFn<NativeSubRow>(
+      buildNativeSubscriptionsQuery(capabilities.versionNum)
+    );
     for (const row of nativeRows) {
       const sub = transformNativeRow(nodeId, row, timestamp);
       results.push(sub);
@@ -250,7 +270,7 @@ async function execute(
   }
 
   // Query pglogical subscriptions if available
-  if (hasPglogical) {
+  if (capabilities.hasPglogical) {
     try {
       const pglogicalRows = await queryFn<PglogicalSubRow>(PGLOGICAL_SUBSCRIPTIONS_QUERY);
       for (const row of pglogicalRows) {
@@ -0,0 +1,207 @@
+/**
+ * Table Sync Query Module
+ *
+ * Queries the per-table sync state of every subscription on a node.
+ *
+ * Detection Strategy:
+ * - Query native pg_subscription_rel (always)
+ * - Query pglogical.local_sync_status (when pglogical detected)
+ * - Tables of subscriptions already seen natively are not repeated
+ *
+ * Provides:
+ * - Schema and table name per subscription
+ * - Sync state (init, data copy, ..., ready) and the raw state code
+ * - Sync LSN
+ * - Table sync worker PID and start time (native only)
+ */
+
+import type {
+  QueryModule,
+  TableSyncData,
+  TableSyncState,
+  QueryFn,
+  NodeCapabilities,
+} from '../types.js';
+
+/**
+ * SQL query for native subscription tables.
+ * Joins pg_stat_subscription on relid to find a running table sync worker,
+ * and pg_stat_activity for when that worker started.
+ */
+const NATIVE_TABLE_SYNC_QUERY = `
+SELECT
+  sub.subname AS subscription_name,
+  n.nspname AS schema_name,
+  c.relname AS table_name,
+  sr.srsubstate AS state_code,
+  sr.srsublsn::text AS sync_lsn,
+  st.pid AS worker_pid,
+  a.backend_start AS worker_started_at
+FROM pg_subscription_rel sr
+JOIN pg_subscription sub ON sub.oid = sr.srsubid
+JOIN pg_class c ON c.oid = sr.srrelid
+JOIN pg_namespace n ON n.oid = c.relnamespace
+LEFT JOIN pg_stat_subscription st ON st.subid = sr.srsubid AND st.relid = sr.srrelid
+LEFT JOIN pg_stat_activity a ON a.pid = st.pid
+ORDER BY sub.subname, n.nspname, c.relname
+`;
+
+/**
+ * SQL query for pglogical subscription tables.
+ * Rows without a relation name track the subscription's own structure sync.
+ */
+const PGLOGICAL_TABLE_SYNC_QUERY = `
+SELECT
+  s.sub_name AS subscription_name,
+  ss.sync_nspname AS schema_name,
+  ss.sync_relname AS table_name,
+  ss.sync_status AS state_code,
+  ss.sync_statuslsn::text AS sync_lsn
+FROM pglogical.local_sync_status ss
+JOIN pglogical.subscription s ON s.sub_id = ss.sync_subid
+WHERE ss.sync_relname IS NOT NULL
+ORDER BY s.sub_name, ss.sync_nspname, ss.sync_relname
+`;
+
+/** pg_subscription_rel.srsubstate codes */
+const NATIVE_STATES: Record<string, TableSyncState> = {
+  i: 'init',
+  d: 'data',
+  f: 'finished',
+  s: 'synchronized',
+  r: 'ready',
+};
+
+/** pglogical.local_sync_status.sync_status codes */
+const PGLOGICAL_STATES: Record<string, TableSyncState> = {
+  i: 'init',
+  s: 'structure',
+  d: 'data',
+  c: 'constraints',
+  w: 'syncwait',
+  u: 'catchup',
+  y: 'synchronized',
+  r: 'ready',
+};
+
+/** Raw row type from native table sync query */
+interface NativeTableSyncRow {
+  subscription_name: string;
+  schema_name: string;
+  table_name: string;
+  state_code: string;
+  sync_lsn: string | null;
+  worker_pid: number | null;
+  worker_started_at: Date | null;
+}
+
+/** Raw row type from pglogical table sync query */
+interface PglogicalTableSyncRow {
+  subscription_name: string;
+  schema_name: string;
+  table_name: string;
+  state_code: string;
+  sync_lsn: string | null;
+}
+
+/**
+ * Transform native table sync row to TableSyncData.
+ */
+function transformNativeRow(
+  nodeId: string,
+  row: NativeTableSyncRow,
+  timestamp: Date
+): TableSyncData {
+  return {
+    nodeId,
+    subscriptionName: row.subscription_name,
+    schemaName: row.schema_name,
+    tableName: row.table_name,
+    state: NATIVE_STATES[row.state_code] ?? 'unknown',
+    stateCode: row.state_code,
+    syncLsn: row.sync_lsn,
+    workerPid: row.worker_pid,
+    workerStartedAt: row.worker_started_at,
+    source: 'native',
+    timestamp,
+  };
+}
+
+/**
+ * Transform pglogical table sync row to TableSyncData.
+ */
+function transformPglogicalRow(
+  nodeId: string,
+  row: PglogicalTableSyncRow,
+  timestamp: Date
+): TableSyncData {
+  return {
+    nodeId,
+    subscriptionName: row.subscription_name,
+    schemaName: row.schema_name,
+    tableName: row.table_name,
+    state: PGLOGICAL_STATES[row.state_code] ?? 'unknown',
+    stateCode: row.state_code,
+    // pglogical reports 0/0 until the table has a sync position
+    syncLsn: row.sync_lsn === '0/0' ? null : row.sync_lsn,
+    workerPid: null,
+    workerStartedAt: null,
+    source: 'pglogical',
+    timestamp,
+  };
+}
+
+/**
+ * Execute table sync query on a node.
+ * Queries both native and pglogical subscription tables when available.
+ *
+ * @param nodeId - Node identifier
+ * @param queryFn - Query execution function
+ * @param capabilities - Node capabilities (pglogical presence)
+ * @returns Array of TableSyncData for every subscribed table on this node
+ */
+async function execute(
+  nodeId: string,
+  queryFn: QueryFn,
+  capabilities: NodeCapabilities
+): Promise<TableSyncData[]> {
+  const timestamp = new Date();
+  const results: TableSyncData[] = [];
+  const nativeSubscriptions = new Set<string>();
+
+  // Query native subscription tables first
+  try {
+    const nativeRows = await queryFn<NativeTableSyncRow>(NATIVE_TABLE_SYNC_QUERY);
+    for (const row of nativeRows) {
+      results.push(transformNativeRow(nodeId, row, timestamp));
+      nativeSubscriptions.add(row.subscription_name);
+    }
+  } catch {
+    // Same as the subscriptions query: may fail without pg_subscription access
+  }
+
+  // Query pglogical sync status if available
+  if (capabilities.hasPglogical) {
+    try {
+      const pglogicalRows = await queryFn<PglogicalTableSyncRow>(PGLOGICAL_TABLE_SYNC_QUERY);
+      for (const row of pglogicalRows) {
+        // Native subscriptions of the same name win (matches subscriptions query)
+        if (nativeSubscriptions.has(row.subscription_name)) continue;
+        results.push(transformPglogicalRow(nodeId, row, timestamp));
+      }
+    } catch {
+      // local_sync_status may be unreadable; continue without pglogical tables
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Table sync query module.
+ */
+export const tableSyncQueryModule: QueryModule<TableSyncData> = {
+  execute,
+  nativeQuery: NATIVE_TABLE_SYNC_QUERY,
+  pglogicalQuery: PGLOGICAL_TABLE_SYNC_QUERY,
+};
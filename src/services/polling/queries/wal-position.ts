@@ -0,0 +1,61 @@
+/**
+ * WAL Position Query Module
+ *
+ * Samples the current WAL position of a node every poll, so the WAL
+ * generation rate can be derived from consecutive samples.
+ *
+ * Provides:
+ * - pg_current_wal_lsn() on a primary
+ * - pg_last_wal_replay_lsn() on a standby, where the current position
+ *   can't be read and replay is what advances its slots
+ */
+
+import type { QueryModule, WalPositionData, QueryFn, NodeCapabilities } from '../types.js';
+
+/**
+ * SQL query for the current WAL position.
+ */
+const WAL_POSITION_QUERY = `
+SELECT
+  pg_is_in_recovery() AS in_recovery,
+  CASE
+    WHEN pg_is_in_recovery() THEN pg_last_wal_replay_lsn()
+    ELSE pg_current_wal_lsn()
+  END::text AS lsn
+`;
+
+/** Raw row type from WAL position query */
+interface WalPositionRow {
+  in_recovery: boolean;
+  lsn: string | null;
+}
+
+/**
+ * Execute WAL position query on a node.
+ * Returns an empty array for a standby that hasn't replayed anything yet.
+ *
+ * @param nodeId - Node identifier
+ * @param queryFn - Query execution function
+ * @param _capabilities - Not used for the WAL position (same query for all nodes)
+ * @returns One WalPositionData, or none if the position is unknown
+ */
+async function execute(
+  nodeId: string,
+  queryFn: QueryFn,
+  _capabilities: NodeCapabilities
+): Promise<WalPositionData[]> {
+  const timestamp = new Date();
+  const rows = await queryFn<WalPositionRow>(WAL_POSITION_QUERY);
+  return rows
+    .slice(0, 1)
+    .filter((row): row is WalPositionRow & { lsn: string } => row.lsn !== null)
+    .map((row) => ({ nodeId, lsn: row.lsn, inRecovery: row.in_recovery, timestamp }));
+}
+
+/**
+ * WAL position query module.
+ */
+export const walPositionQueryModule: QueryModule<WalPositionData> = {
+  execute,
+  nativeQuery: WAL_POSITION_QUERY,
+};
@@ -0,0 +1,178 @@
+/**
+ * WAL Receiver Query Module
+ *
+ * Queries the receiving side of physical streaming replication. Nodes that
+ * are not in recovery (pg_is_in_recovery() is false) report nothing.
+ *
+ * Provides:
+ * - WAL receiver status (streaming, waiting, ...)
+ * - Receive and replay LSN, and the WAL received but not yet replayed
+ * - Replay lag from pg_last_xact_replay_timestamp()
+ * - Upstream host/port, conninfo and slot name (for standby edges,
+ *   including cascading standbys)
+ */
+
+import type {
+  QueryModule,
+  WalReceiverData,
+  WalReceiverStatus,
+  QueryFn,
+  NodeCapabilities,
+} from '../types.js';
+
+/**
+ * SQL query to check whether the node is a standby.
+ */
+const RECOVERY_CHECK_QUERY = `
+SELECT pg_is_in_recovery() AS in_recovery
+`;
+
+/** First PostgreSQL version with sender_host/sender_port (11.0) */
+const SENDER_HOST_VERSION_NUM = 110000;
+
+/**
+ * Build the SQL query for the WAL receiver.
+ * The receiver row is left-joined so a standby without a running receiver
+ * (archive recovery, upstream down) still reports its replay position.
+ * Before PG11 the upstream is parsed from conninfo.
+ *
+ * @param versionNum - server_version_num of the node
+ */
+function buildWalReceiverQuery(versionNum: number): string {
+  const sender = versionNum >= SENDER_HOST_VERSION_NUM;
+  return `
+SELECT
+  r.status,
+  pg_last_wal_receive_lsn()::text AS receive_lsn,
+  pg_last_wal_replay_lsn()::text AS replay_lsn,
+  pg_wal_lsn_diff(pg_last_wal_receive_lsn(), pg_last_wal_replay_lsn())::bigint AS replay_lag_bytes,
+  EXTRACT(EPOCH FROM (now() - pg_last_xact_replay_timestamp()))::numeric AS replay_lag_seconds,
+  pg_last_xact_replay_timestamp() AS last_replay_at,
+  ${sender ? 'r.sender_host' : 'NULL'} AS sender_host,
+  ${sender ? 'r.sender_port' : 'NULL'} AS sender_port,
+  r.conninfo,
+  r.slot_name
+FROM (SELECT 1) AS one
+LEFT JOIN pg_stat_wal_receiver r ON true
+`;
+}
+
+/** Query for the newest supported version (exposed as nativeQuery) */
+const WAL_RECEIVER_QUERY = buildWalReceiverQuery(Number.MAX_SAFE_INTEGER);
+
+/** Row type for recovery check */
+interface RecoveryRow {
+  in_recovery: boolean;
+}
+
+/** Raw row type from WAL receiver query */
+interface WalReceiverRow {
+  status: string | null;
+  receive_lsn: string | null;
+  replay_lsn: string | null;
+  replay_lag_bytes: string | number | null;
+  replay_lag_seconds: string | number | null;
+  last_replay_at: Date | null;
+  sender_host: string | null;
+  sender_port: number | null;
+  conninfo: string | null;
+  slot_name: string | null;
+}
+
+/** pg_stat_wal_receiver.status values */
+const RECEIVER_STATUSES: readonly WalReceiverStatus[] = [
+  'stopped',
+  'starting',
+  'streaming',
+  'waiting',
+  'restarting',
+  'stopping',
+];
+
+/**
+ * Parse receiver status from string.
+ * Returns null without a receiver or for unknown values.
+ */
+function parseStatus(status: string | null): WalReceiverStatus | null {
+  if (!status) return null;
+  const normalized = status.toLowerCase();
+  return RECEIVER_STATUSES.find((candidate) => candidate === normalized) ?? null;
+}
+
+/**
+ * Parse a nullable numeric value that may come as string or number.
+ */
+function parseNullableNumber(value: string | number | null): number | null {
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'number') return value;
+  const parsed = parseFloat(value);
+  return isNaN(parsed) ? null : parsed;
+}
+
+/**
+ * Read a keyword from a libpq connection string ("host=db1 port=5432").
+ * Only the first value is used for multi-host strings.
+ */
+function conninfoValue(conninfo: string | null, keyword: string): string | null {
+  if (!conninfo) return null;
+  const match = new RegExp(`(?:^|\\s)${keyword}=('(?:[^'\\\\]|\\\\.)*'|\\S+)`).exec(conninfo);
+  if (!match?.[1]) return null;
+  const value = match[1].startsWith("'") ? match[1].slice(1, -1).replace(/\\(.)/g, '$1') : match[1];
+  return value.split(',')[0] || null;
+}
+
+/**
+ * Transform raw query row to WalReceiverData.
+ */
+function transformRow(nodeId: string, row: WalReceiverRow, timestamp: Date): WalReceiverData {
+  const upstreamHost = row.sender_host ?? conninfoValue(row.conninfo, 'host');
+  const upstreamPort = row.sender_port ?? parseNullableNumber(conninfoValue(row.conninfo, 'port'));
+  return {
+    nodeId,
+    status: parseStatus(row.status),
+    receiveLsn: row.receive_lsn,
+    replayLsn: row.replay_lsn,
+    replayLagBytes: parseNullableNumber(row.replay_lag_bytes),
+    replayLagSeconds: parseNullableNumber(row.replay_lag_seconds),
+    lastReplayAt: row.last_replay_at,
+    upstreamHost,
+    // libpq's default port when conninfo names a host without one
+    upstreamPort: upstreamPort ?? (upstreamHost !== null ? 5432 : null),
+    conninfo: row.conninfo,
+    slotName: row.slot_name,
+    timestamp,
+  };
+}
+
+/**
+ * Execute WAL receiver query on a node.
+ * Returns an empty array unless the node is in recovery.
+ *
+ * @param nodeId - Node identifier
+ * @param queryFn - Query execution function
+ * @param capabilities - Node version (physical replication only)
+ * @returns One WalReceiverData for a standby, none for a primary
+ */
+async function execute(
+  nodeId: string,
+  queryFn: QueryFn,
+  capabilities: NodeCapabilities
+): Promise<WalReceiverData[]> {
+  const timestamp = new Date();
+
+  const recovery = (await queryFn<RecoveryRow>(RECOVERY_CHECK_QUERY))[0];
+  if (!recovery?.in_recovery) {
+    return [];
+  }
+
+  const rows = await queryFn<WalReceiverRow>(buildWalReceiverQuery(capabilities.versionNum));
+  return rows.slice(0, 1).map((row) => transformRow(nodeId, row, timestamp));
+}
+
+/**
+ * WAL receiver query module.
+ */
+export const walReceiverQueryModule: QueryModule<WalReceiverData> = {
+  execute,
+  nativeQuery: WAL_RECEIVER_QUERY,
+};
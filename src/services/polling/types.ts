@@ -5,6 +5,8 @@
  * Based on contracts/polling-service.ts specification.
  */
 
+import type { ConnectionManager } from '../connection-manager/index.js';
+
 // =============================================================================
 // Configuration
 // =============================================================================
@@ -28,6 +30,12 @@ export interface ResolvedPollingConfig {
   intervalMs: number;
 }
 
+/**
+ * The part of ConnectionManager the polling service relies on.
+ * Satisfied by ConnectionManager itself and by the demo simulator.
+ */
+export type PollingBackend = Pick<ConnectionManager, 'isRunning' | 'getHealthyNodes' | 'query'>;
+
 // =============================================================================
 // Enums
 // =============================================================================
@@ -52,9 +60,36 @@ export type SubscriptionStatus =
   | 'catchup'
   | 'unknown';
 
+/** WAL receiver process status (pg_stat_wal_receiver.status) */
+export type WalReceiverStatus =
+  | 'stopped'
+  | 'starting'
+  | 'streaming'
+  | 'waiting'
+  | 'restarting'
+  | 'stopping';
+
 /** Source of subscription data */
 export type SubscriptionSource = 'native' | 'pglogical';
 
+/**
+ * Per-table sync state of a subscription.
+ * Native (pg_subscription_rel.srsubstate): init, data, finished, synchronized, ready.
+ * pglogical (local_sync_status.sync_status) adds structure, constraints,
+ * syncwait and catchup.
+ */
+export type TableSyncState =
+  | 'init'
+  | 'structure'
+  | 'data'
+  | 'constraints'
+  | 'finished'
+  | 'syncwait'
+  | 'catchup'
+  | 'synchronized'
+  | 'ready'
+  | 'unknown';
+
 /** Source of conflict data (aggregate stats) */
 export type ConflictSource = 'native' | 'pglogical_log' | 'unavailable';
 
@@ -111,18 +146,202 @@ export interface SlotData {
   database: string | null;
   /** Whether slot is in use */
   active: boolean;
+  /** PID of the walsender streaming from the slot (null while inactive) */
+  activePid: number | null;
   /** WAL bytes retained by slot (current - restart_lsn) */
   retainedBytes: number;
   /** Pending WAL bytes to be replicated (current - confirmed_flush_lsn) */
   pendingBytes: number;
+  /** Position the consumer confirmed as flushed (logical slots only) */
+  confirmedFlushLsn: string | null;
   /** WAL status (PG13+) */
   walStatus: WalStatus | null;
+  /** Age of the slot's xmin in transactions (physical slots with hot_standby_feedback) */
+  xminAge: number | null;
+  /** Age of the slot's catalog_xmin in transactions (logical slots) */
+  catalogXminAge: number | null;
+  /** WAL bytes that can still be written before the slot is lost (PG13+, null without a limit) */
+  safeWalSize: number | null;
+  /** max_slot_wal_keep_size in bytes (null when unlimited or before PG13) */
+  maxSlotWalKeepSize: number | null;
+  /** Whether prepared transactions are decoded at PREPARE (PG14+) */
+  twoPhase: boolean | null;
+  /** When the slot was last released (PG17+, null while active) */
+  inactiveSince: Date | null;
+  /** Oldest long-running transaction holding back restart_lsn (logical slots only) */
+  blocker: SlotBlocker | null;
   /** Inactive with >1GB retention */
   isStale: boolean;
   /** When this data was collected */
   timestamp: Date;
 }
 
+/**
+ * Receiving side of physical streaming replication on a node in recovery
+ * (pg_is_in_recovery() and pg_stat_wal_receiver).
+ */
+export interface WalReceiverData {
+  /** Node identifier */
+  nodeId: string;
+  /** WAL receiver status (null when no receiver is running, e.g. archive recovery) */
+  status: WalReceiverStatus | null;
+  /** Last WAL position received and flushed (pg_last_wal_receive_lsn) */
+  receiveLsn: string | null;
+  /** Last WAL position replayed (pg_last_wal_replay_lsn) */
+  replayLsn: string | null;
+  /** Received but not yet replayed WAL in bytes */
+  replayLagBytes: number | null;
+  /** Seconds since the last replayed transaction committed (grows while the primary is idle) */
+  replayLagSeconds: number | null;
+  /** Commit time of the last replayed transaction */
+  lastReplayAt: Date | null;
+  /** Host the receiver streams from (primary or cascading standby) */
+  upstreamHost: string | null;
+  /** Port the receiver streams from */
+  upstreamPort: number | null;
+  /** Upstream connection string (passwords obfuscated by PostgreSQL) */
+  conninfo: string | null;
+  /** Replication slot used on the upstream */
+  slotName: string | null;
+  /** When this data was collected */
+  timestamp: Date;
+}
+
+/**
+ * Current WAL position of a node, sampled every poll for the WAL
+ * generation rate.
+ */
+export interface WalPositionData {
+  /** Node identifier */
+  nodeId: string;
+  /** pg_current_wal_lsn(), or pg_last_wal_replay_lsn() on a standby */
+  lsn: string;
+  /** Whether the node is a standby (the position is its replay position) */
+  inRecovery: boolean;
+  /** When this data was collected */
+  timestamp: Date;
+}
+
+/**
+ * A native publication or a pglogical replication set on a node.
+ */
+export interface PublicationData {
+  /** Node identifier */
+  nodeId: string;
+  /** Publication or replication set name */
+  name: string;
+  /** Native publication or pglogical replication set */
+  source: SubscriptionSource;
+  /** Publishes every table in the database (FOR ALL TABLES, native only) */
+  allTables: boolean;
+  /** Replicated operations */
+  operations: PublicationOperations;
+  /** Member tables */
+  tables: PublicationTable[];
+  /** Member sequences (pglogical only) */
+  sequences: PublicationSequence[];
+  /** When this data was collected */
+  timestamp: Date;
+}
+
+/**
+ * DML replicated by a publication or replication set.
+ */
+export interface PublicationOperations {
+  insert: boolean;
+  update: boolean;
+  delete: boolean;
+  /** null before PostgreSQL 11 (native publications) */
+  truncate: boolean | null;
+}
+
+/**
+ * A table published by a publication or replication set.
+ */
+export interface PublicationTable {
+  schemaName: string;
+  tableName: string;
+  /** Row filter expression (PG15+ or pglogical, null: all rows) */
+  rowFilter: string | null;
+  /** Published columns (PG15+ or pglogical, null: all columns) */
+  columns: string[] | null;
+}
+
+/**
+ * A sequence in a pglogical replication set.
+ */
+export interface PublicationSequence {
+  schemaName: string;
+  sequenceName: string;
+}
+
+/**
+ * Current value of a sequence on a node, compared across nodes to find
+ * sequences a subscriber hasn't caught up with.
+ */
+export interface SequenceData {
+  /** Node identifier */
+  nodeId: string;
+  schemaName: string;
+  sequenceName: string;
+  /**
+   * pg_sequences.last_value as decimal text, since a bigint can exceed what
+   * a number holds exactly (null if never used or not readable)
+   */
+  lastValue: string | null;
+  /** Table owning the sequence (serial and identity columns), "schema.table" */
+  ownerTable: string | null;
+  /** When this data was collected */
+  timestamp: Date;
+}
+
+/**
+ * Backend whose open transaction keeps a logical slot's restart_lsn from advancing.
+ */
+export interface SlotBlocker {
+  /** Backend process ID */
+  pid: number;
+  /** Role running the transaction */
+  user: string | null;
+  /** application_name of the backend */
+  applicationName: string | null;
+  /** Backend state (e.g. "idle in transaction") */
+  state: string | null;
+  /** When the transaction started */
+  xactStart: Date;
+  /** Age of the transaction's xid in transactions */
+  xidAge: number | null;
+  /** Current or last query (truncated) */
+  query: string | null;
+}
+
+/**
+ * Logical decoding statistics of a replication slot (pg_stat_replication_slots, PG14+).
+ * Counters are cumulative since statsReset.
+ */
+export interface SlotStatsData {
+  /** Node identifier */
+  nodeId: string;
+  /** Replication slot name */
+  slotName: string;
+  /** Transactions spilled to disk by the decoder */
+  spillTxns: number;
+  /** Bytes of decoded changes spilled to disk */
+  spillBytes: number;
+  /** In-progress transactions streamed to the subscriber */
+  streamTxns: number;
+  /** Bytes of decoded changes streamed */
+  streamBytes: number;
+  /** Decoded transactions sent to the output plugin */
+  totalTxns: number;
+  /** Bytes of decoded changes sent to the output plugin */
+  totalBytes: number;
+  /** When the counters were last reset */
+  statsReset: Date | null;
+  /** When this data was collected */
+  timestamp: Date;
+}
+
 /**
  * Subscription information.
  */
@@ -133,6 +352,8 @@ export interface SubscriptionData {
   subscriptionName: string;
   /** Whether subscription is enabled */
   enabled: boolean;
+  /** Whether the subscription disables itself on apply errors (native PG15+, null when unknown) */
+  disableOnError: boolean | null;
   /** Current status */
   status: SubscriptionStatus;
   /** Provider node name (pglogical) */
@@ -147,7 +368,7 @@ export interface SubscriptionData {
   receivedLsn: string | null;
   /** Latest processed LSN */
   latestEndLsn: string | null;
-  /** Replication sets (pglogical) */
+  /** Replication sets (pglogical) or publications (native) */
   replicationSets: string[];
   /** Last message timestamp */
   lastMessageTime: Date | null;
@@ -159,6 +380,34 @@ export interface SubscriptionData {
   timestamp: Date;
 }
 
+/**
+ * Sync state of one table in a subscription.
+ */
+export interface TableSyncData {
+  /** Node identifier (the subscriber) */
+  nodeId: string;
+  /** Subscription the table belongs to */
+  subscriptionName: string;
+  /** Table schema */
+  schemaName: string;
+  /** Table name */
+  tableName: string;
+  /** Current sync state */
+  state: TableSyncState;
+  /** Raw state code from the catalog (e.g. 'd') */
+  stateCode: string;
+  /** LSN the table was synchronized at (null until synchronized) */
+  syncLsn: string | null;
+  /** Table sync worker PID (native only, while a worker is running) */
+  workerPid: number | null;
+  /** When the current table sync worker started (native only) */
+  workerStartedAt: Date | null;
+  /** Native or pglogical */
+  source: SubscriptionSource;
+  /** When this data was collected */
+  timestamp: Date;
+}
+
 /**
  * Conflict statistics.
  */
@@ -239,6 +488,37 @@ export interface ConflictEventRecord {
   source: ConflictEventSource;
 }
 
+/**
+ * Server version and replication-relevant settings of a node.
+ * Probed once per connection; query modules pick SQL variants from it.
+ */
+export interface NodeCapabilities {
+  /** Node identifier */
+  nodeId: string;
+  /** server_version_num (e.g. 170002) */
+  versionNum: number;
+  /** server_version (e.g. "17.2") */
+  version: string;
+  /** Whether pglogical is installed */
+  hasPglogical: boolean;
+  /** pglogical extension version (null if absent or unknown) */
+  pglogicalVersion: string | null;
+  /** wal_level setting (null if unreadable) */
+  walLevel: string | null;
+  /** max_replication_slots setting (null if unreadable) */
+  maxReplicationSlots: number | null;
+  /** max_wal_senders setting (null if unreadable) */
+  maxWalSenders: number | null;
+  /** track_commit_timestamp setting (null if unreadable or before PG9.5) */
+  trackCommitTimestamp: boolean | null;
+  /** max_slot_wal_keep_size in MB (-1 when unlimited, null before PG13) */
+  maxSlotWalKeepSizeMb: number | null;
+  /** Whether pglogical.conflict_history exists and is enabled */
+  conflictHistory: boolean;
+  /** When the probe ran */
+  probedAt: Date;
+}
+
 /**
  * Generic wrapper for per-node query results.
  */
@@ -281,6 +561,20 @@ export interface PollingCycleResult {
   conflicts: NodeData<ConflictData[]>[];
   /** Per-node conflict events (individual records from pglogical) */
   conflictEvents: NodeData<ConflictEventResult>[];
+  /** Per-node table sync states (pg_subscription_rel / pglogical.local_sync_status) */
+  tableSync: NodeData<TableSyncData[]>[];
+  /** Per-node logical decoding slot statistics (PG14+) */
+  slotStats: NodeData<SlotStatsData[]>[];
+  /** Per-node WAL receiver state (one entry for nodes in recovery, none otherwise) */
+  walReceivers: NodeData<WalReceiverData[]>[];
+  /** Per-node current WAL position (one entry, none if unavailable) */
+  walPositions: NodeData<WalPositionData[]>[];
+  /** Per-node publications and replication sets */
+  publications: NodeData<PublicationData[]>[];
+  /** Per-node sequence values */
+  sequences: NodeData<SequenceData[]>[];
+  /** Per-node capability probe results */
+  capabilities: NodeData<NodeCapabilities>[];
 }
 
 /**
@@ -317,6 +611,20 @@ export interface PollingEvents {
   conflicts: NodeData<ConflictData[]>[];
   /** Conflict events only (individual records) */
   conflictEvents: NodeData<ConflictEventResult>[];
+  /** Table sync states only */
+  tableSync: NodeData<TableSyncData[]>[];
+  /** Slot decoding statistics only */
+  slotStats: NodeData<SlotStatsData[]>[];
+  /** WAL receiver states only */
+  walReceivers: NodeData<WalReceiverData[]>[];
+  /** WAL positions only */
+  walPositions: NodeData<WalPositionData[]>[];
+  /** Publications and replication sets only */
+  publications: NodeData<PublicationData[]>[];
+  /** Sequence values only */
+  sequences: NodeData<SequenceData[]>[];
+  /** Capability probe results only */
+  capabilities: NodeData<NodeCapabilities>[];
   /** Polling cycle failure */
   error: PollingError;
   /** Polling service started */
@@ -351,13 +659,13 @@ export interface QueryModule<T> {
    *
    * @param nodeId - Node identifier
    * @param queryFn - Query execution function from ConnectionManager
-   * @param hasPglogical - Whether node has pglogical installed
+   * @param capabilities - Node version and settings from the capability probe
    * @returns Query results
    */
   execute(
     nodeId: string,
     queryFn: QueryFn,
-    hasPglogical: boolean
+    capabilities: NodeCapabilities
   ): Promise<T[]>;
 
   /**
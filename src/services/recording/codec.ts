@@ -0,0 +1,178 @@
+/**
+ * Recording File Format
+ *
+ * A recording is gzip-compressed NDJSON: a header record followed by one
+ * record per polling cycle or polling error. Every record is compressed as
+ * its own gzip member, so each frame is complete on disk as soon as it is
+ * written and a recording cut short by a crash still reads back up to its
+ * last whole frame. Concatenated members form a valid gzip file
+ * (`zcat session.replmon | jq` works).
+ *
+ * Dates and Errors are tagged so they survive the round trip:
+ *   { "$d": 1717243200000 }            Date (ms since epoch)
+ *   { "$e": "message", "n": "Error" }  Error (message and name)
+ */
+
+import { gunzipSync, gzipSync, constants as zlibConstants } from 'zlib';
+
+import { RECORDING_VERSION } from './types.js';
+import type { Recording, RecordingFrame, RecordingHeader } from './types.js';
+
+// =============================================================================
+// Errors
+// =============================================================================
+
+/**
+ * A file that is not a readable replmon recording.
+ */
+export class RecordingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RecordingError';
+  }
+}
+
+// =============================================================================
+// Record Encoding
+// =============================================================================
+
+/**
+ * Encode a record as one JSON line (without the newline).
+ */
+export function encodeRecord(record: RecordingHeader | RecordingFrame): string {
+  return JSON.stringify(record, function (this: Record<string, unknown>, key, value: unknown) {
+    // `value` has already been through Date#toJSON; inspect the original
+    const original = this[key];
+    if (original instanceof Date) return { $d: original.getTime() };
+    if (original instanceof Error) return { $e: original.message, n: original.name };
+    return value;
+  });
+}
+
+/**
+ * Decode one JSON line, restoring tagged Dates and Errors.
+ * Returns null for malformed lines.
+ */
+export function decodeRecord(line: string): unknown {
+  try {
+    return JSON.parse(line, (_key, value: unknown) => {
+      if (value === null || typeof value !== 'object' || Array.isArray(value)) return value;
+      const tagged = value as Record<string, unknown>;
+      if (typeof tagged['$d'] === 'number') return new Date(tagged['$d']);
+      if (typeof tagged['$e'] === 'string') {
+        const error = new Error(tagged['$e']);
+        if (typeof tagged['n'] === 'string') error.name = tagged['n'];
+        return error;
+      }
+      return value;
+    }) as unknown;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Compress a record into a self-contained gzip member.
+ */
+export function compressRecord(record: RecordingHeader | RecordingFrame): Buffer {
+  return gzipSync(`${encodeRecord(record)}\n`);
+}
+
+// =============================================================================
+// Reading
+// =============================================================================
+
+function isHeader(value: unknown): value is RecordingHeader {
+  return (
+    value !== null &&
+    typeof value === 'object' &&
+    (value as { type?: unknown }).type === 'header'
+  );
+}
+
+function isFrame(value: unknown): value is RecordingFrame {
+  if (value === null || typeof value !== 'object') return false;
+  const frame = value as Record<string, unknown>;
+  if (frame['type'] === 'cycle') {
+    const result = frame['result'] as Record<string, unknown> | null | undefined;
+    return typeof result === 'object' && result !== null && result['completedAt'] instanceof Date;
+  }
+  if (frame['type'] === 'error') {
+    const error = frame['error'] as Record<string, unknown> | null | undefined;
+    return typeof error === 'object' && error !== null && error['timestamp'] instanceof Date;
+  }
+  return false;
+}
+
+/**
+ * Recorded time of a frame.
+ */
+export function getFrameTime(frame: RecordingFrame): Date {
+  return frame.type === 'cycle' ? frame.result.completedAt : frame.error.timestamp;
+}
+
+/**
+ * Parse the contents of a recording file.
+ *
+ * @param data - Raw (compressed) file contents
+ * @param file - Path, for error messages
+ * @throws RecordingError if the data is not a replmon recording
+ */
+export function parseRecording(data: Buffer, file: string): Recording {
+  let text: string;
+  try {
+    // Sync flush yields everything before a truncated final member
+    text = gunzipSync(data, { finishFlush: zlibConstants.Z_SYNC_FLUSH }).toString('utf-8');
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new RecordingError(`Not a replmon recording: ${file} (${reason})`);
+  }
+
+  const lines = text.split('\n');
+  // Anything after the last newline is a partially written record
+  const partial = lines.pop() ?? '';
+
+  const header = decodeRecord(lines[0] ?? '');
+  if (!isHeader(header)) {
+    throw new RecordingError(`Not a replmon recording: ${file}`);
+  }
+  if (header.version !== RECORDING_VERSION) {
+    throw new RecordingError(
+      `Unsupported recording version ${String(header.version)} in ${file} (expected ${RECORDING_VERSION})`
+    );
+  }
+
+  const frames: RecordingFrame[] = [];
+  for (const line of lines.slice(1)) {
+    const frame = decodeRecord(line);
+    if (!isFrame(frame)) continue;
+    // Recordings made before table sync state, slot statistics, slot
+    // horizons, WAL receivers, publications, disable_on_error, node
+    // capabilities, WAL positions and sequences were polled
+    if (frame.type === 'cycle') {
+      frame.result.tableSync ??= [];
+      frame.result.slotStats ??= [];
+      frame.result.walReceivers ??= [];
+      frame.result.publications ??= [];
+      frame.result.capabilities ??= [];
+      frame.result.walPositions ??= [];
+      frame.result.sequences ??= [];
+      for (const slot of frame.result.slots.flatMap((node) => node.data ?? [])) {
+        slot.xminAge ??= null;
+        slot.catalogXminAge ??= null;
+        slot.safeWalSize ??= null;
+        slot.maxSlotWalKeepSize ??= null;
+        slot.twoPhase ??= null;
+        slot.inactiveSince ??= null;
+        slot.blocker ??= null;
+        slot.confirmedFlushLsn ??= null;
+      }
+      for (const sub of frame.result.subscriptions.flatMap((node) => node.data ?? [])) {
+        sub.disableOnError ??= null;
+      }
+    }
+    frames.push(frame);
+  }
+
+  return { file, header, frames, truncated: partial !== '' };
+}
@@ -0,0 +1,419 @@
+/**
+ * Tests for session recording, the recording file format, and replay playback
+ */
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  ReplayController,
+  RecordingError,
+  SessionRecorder,
+  buildReplayConfiguration,
+  compressRecord,
+  createRecordingHeader,
+  decodeRecord,
+  encodeRecord,
+  readRecording,
+} from './index.js';
+import type { Recording, RecordingFrame, RecordingHeader } from './index.js';
+import type { PollingCycleResult, SlotData, SubscriptionData } from '../polling/types.js';
+import type { Configuration } from '../../types/config.js';
+import {
+  DEFAULT_ALERTS,
+  DEFAULT_HISTORY,
+  DEFAULT_METRICS,
+  DEFAULT_THEME,
+  DEFAULT_THRESHOLDS,
+} from '../../config/defaults.js';
+
+const T0 = Date.UTC(2024, 5, 1, 12, 0, 0);
+
+const config: Configuration = {
+  nodes: {
+    primary: { host: 'db1', port: 5432, database: 'app', user: 'replmon', password: 'secret' },
+  },
+  activeCluster: 'production',
+  theme: DEFAULT_THEME,
+  thresholds: DEFAULT_THRESHOLDS,
+  alerts: {
+    ...DEFAULT_ALERTS,
+    forSeconds: 30,
+    sinks: [
+      {
+        type: 'file',
+        name: 'audit',
+        path: '/var/log/replmon.ndjson',
+        retries: 0,
+        retryDelaySeconds: 1,
+        rateLimitPerMinute: 20,
+        dedupWindowSeconds: 0,
+      },
+    ],
+  },
+  pglogical: true,
+  metrics: DEFAULT_METRICS,
+  history: DEFAULT_HISTORY,
+  source: 'file',
+};
+
+function cycle(offsetMs: number): PollingCycleResult {
+  return {
+    cycleId: `cycle-${offsetMs}`,
+    startedAt: new Date(T0 + offsetMs - 20),
+    completedAt: new Date(T0 + offsetMs),
+    durationMs: 20,
+    stats: [],
+    subscriptions: [],
+    slots: [],
+    conflicts: [],
+    conflictEvents: [],
+    tableSync: [],
+    slotStats: [],
+    walReceivers: [],
+    walPositions: [],
+    publications: [],
+    sequences: [],
+    capabilities: [],
+  };
+}
+
+function recording(offsets: number[]): Recording {
+  return {
+    file: 'test.replmon',
+    header: createRecordingHeader(config, new Date(T0)),
+    frames: offsets.map((offset) => ({ type: 'cycle', result: cycle(offset) })),
+    truncated: false,
+  };
+}
+
+/** Offsets (ms from T0) of the frames a controller applies, in order */
+function collectOffsets(controller: ReplayController): (number | 'reset')[] {
+  const applied: (number | 'reset')[] = [];
+  controller.on('frame', ({ frame }: { frame: RecordingFrame }) => {
+    if (frame.type === 'cycle') applied.push(frame.result.completedAt.getTime() - T0);
+  });
+  controller.on('reset', () => applied.push('reset'));
+  return applied;
+}
+
+let dir: string;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'replmon-recording-'));
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('record encoding', () => {
+  test('round-trips Dates and Errors', () => {
+    const result = cycle(1000);
+    result.slots = [
+      {
+        nodeId: 'primary',
+        nodeName: 'primary',
+        success: false,
+        error: new TypeError('connection reset'),
+        durationMs: 3,
+        hasPglogical: false,
+      },
+    ];
+
+    const decoded = decodeRecord(encodeRecord({ type: 'cycle', result })) as RecordingFrame;
+
+    expect(decoded.type).toBe('cycle');
+    if (decoded.type !== 'cycle') return;
+    expect(decoded.result.completedAt).toBeInstanceOf(Date);
+    expect(decoded.result.completedAt.getTime()).toBe(T0 + 1000);
+    const error = decoded.result.slots[0]?.error;
+    expect(error).toBeInstanceOf(Error);
+    expect(error?.message).toBe('connection reset');
+    expect(error?.name).toBe('TypeError');
+  });
+
+  test('returns null for malformed lines', () => {
+    expect(decodeRecord('{"type":')).toBeNull();
+  });
+});
+
+describe('createRecordingHeader', () => {
+  test('leaves out passwords and alert sinks', () => {
+    const header = createRecordingHeader(config, new Date(T0));
+
+    expect(header.nodes['primary']).toEqual({ host: 'db1', port: 5432, database: 'app', user: 'replmon' });
+    expect(header.alerts).toEqual({ forSeconds: 30, hysteresis: DEFAULT_ALERTS.hysteresis });
+    expect(header.cluster).toBe('production');
+    expect(header.pglogical).toBe(true);
+  });
+
+  test('buildReplayConfiguration restores recorded settings without side effects', () => {
+    const replayConfig = buildReplayConfiguration(createRecordingHeader(config, new Date(T0)));
+
+    expect(Object.keys(replayConfig.nodes)).toEqual(['primary']);
+    expect(replayConfig.activeCluster).toBe('production');
+    expect(replayConfig.alerts.forSeconds).toBe(30);
+    expect(replayConfig.alerts.sinks).toEqual([]);
+    expect(replayConfig.metrics.enabled).toBe(false);
+    expect(replayConfig.history.enabled).toBe(false);
+  });
+});
+
+describe('SessionRecorder', () => {
+  test('writes a recording that reads back frame for frame', () => {
+    const file = path.join(dir, 'session.replmon');
+    const recorder = new SessionRecorder(file);
+    recorder.start(createRecordingHeader(config, new Date(T0)));
+    recorder.record(cycle(1000));
+    recorder.recordError({
+      message: 'All nodes failed',
+      cycleId: 'cycle-2000',
+      nodeErrors: [{ nodeId: 'primary', error: new Error('timeout') }],
+      timestamp: new Date(T0 + 2000),
+    });
+
+    const read = readRecording(file);
+
+    expect(recorder.getFrameCount()).toBe(2);
+    expect(read.truncated).toBe(false);
+    expect(read.header.nodes['primary']?.host).toBe('db1');
+    expect(read.frames.map((frame) => frame.type)).toEqual(['cycle', 'error']);
+    const error = read.frames[1];
+    expect(error?.type === 'error' && error.error.nodeErrors[0]?.error.message).toBe('timeout');
+  });
+
+  test('start truncates an existing file', () => {
+    const file = path.join(dir, 'session.replmon');
+    const header = createRecordingHeader(config, new Date(T0));
+    const first = new SessionRecorder(file);
+    first.start(header);
+    first.record(cycle(1000));
+
+    new SessionRecorder(file).start(header);
+
+    expect(readRecording(file).frames).toEqual([]);
+  });
+
+  test('reports the first write failure and stops recording', () => {
+    const file = path.join(dir, 'missing', 'session.replmon');
+    const recorder = new SessionRecorder(file);
+    const failures: Error[] = [];
+    recorder.on('failed', ({ error }) => failures.push(error));
+
+    recorder.record(cycle(1000));
+    recorder.record(cycle(2000));
+
+    expect(failures).toHaveLength(1);
+    expect(recorder.getFailure()).not.toBeNull();
+    expect(recorder.getFrameCount()).toBe(0);
+  });
+});
+
+describe('readRecording', () => {
+  test('reads every whole frame of a truncated recording', () => {
+    const file = path.join(dir, 'killed.replmon');
+    const header: RecordingHeader = createRecordingHeader(config, new Date(T0));
+    const complete = Buffer.concat([
+      compressRecord(header),
+      compressRecord({ type: 'cycle', result: cycle(1000) }),
+    ]);
+    const last = compressRecord({ type: 'cycle', result: cycle(2000) });
+    fs.writeFileSync(file, Buffer.concat([complete, last.subarray(0, last.length - 12)]));
+
+    const read = readRecording(file);
+
+    expect(read.frames).toHaveLength(1);
+    expect(read.truncated).toBe(true);
+  });
+
+  test('reads recordings made before table sync, slot horizons, WAL receivers, publications, disable_on_error, capabilities, WAL positions and sequences were polled', () => {
+    const file = path.join(dir, 'older.replmon');
+    const {
+      tableSync: _tableSync,
+      slotStats: _slotStats,
+      walReceivers: _walReceivers,
+      publications: _publications,
+      capabilities: _capabilities,
+      walPositions: _walPositions,
+      sequences: _sequences,
+      ...older
+    } = cycle(1000);
+    const olderSlot = {
+      nodeId: 'primary',
+      slotName: 'sub_slot',
+      plugin: 'pgoutput',
+      slotType: 'logical',
+      database: 'app',
+      active: true,
+      retainedBytes: 1024,
+      pendingBytes: 0,
+      walStatus: 'reserved',
+      isStale: false,
+      timestamp: new Date(T0),
+    };
+    older.slots = [
+      {
+        nodeId: 'primary',
+        nodeName: 'primary',
+        success: true,
+        data: [olderSlot as SlotData],
+        durationMs: 5,
+        hasPglogical: false,
+      },
+    ];
+    const olderSubscription = {
+      nodeId: 'replica',
+      subscriptionName: 'sub',
+      enabled: true,
+      status: 'replicating',
+      providerNode: null,
+      providerHost: null,
+      providerPort: null,
+      slotName: 'sub_slot',
+      receivedLsn: null,
+      latestEndLsn: null,
+      replicationSets: ['pub'],
+      lastMessageTime: null,
+      workerPid: 4242,
+      source: 'native',
+      timestamp: new Date(T0),
+    };
+    older.subscriptions = [
+      {
+        nodeId: 'replica',
+        nodeName: 'replica',
+        success: true,
+        data: [olderSubscription as SubscriptionData],
+        durationMs: 5,
+        hasPglogical: false,
+      },
+    ];
+    fs.writeFileSync(
+      file,
+      Buffer.concat([
+        compressRecord(createRecordingHeader(config, new Date(T0))),
+        compressRecord({ type: 'cycle', result: older as PollingCycleResult }),
+      ])
+    );
+
+    const frame = readRecording(file).frames[0];
+
+    expect(frame?.type === 'cycle' && frame.result.tableSync).toEqual([]);
+    expect(frame?.type === 'cycle' && frame.result.slotStats).toEqual([]);
+    expect(frame?.type === 'cycle' && frame.result.walReceivers).toEqual([]);
+    expect(frame?.type === 'cycle' && frame.result.publications).toEqual([]);
+    expect(frame?.type === 'cycle' && frame.result.capabilities).toEqual([]);
+    expect(frame?.type === 'cycle' && frame.result.walPositions).toEqual([]);
+    expect(frame?.type === 'cycle' && frame.result.sequences).toEqual([]);
+    expect(frame?.type === 'cycle' && frame.result.slots[0]?.data?.[0]).toMatchObject({
+      xminAge: null,
+      safeWalSize: null,
+      blocker: null,
+      confirmedFlushLsn: null,
+    });
+    expect(frame?.type === 'cycle' && frame.result.subscriptions[0]?.data?.[0]?.disableOnError).toBeNull();
+  });
+
+  test('rejects files that are not recordings', () => {
+    const file = path.join(dir, 'config.yaml');
+    fs.writeFileSync(file, 'nodes: {}\n');
+
+    expect(() => readRecording(file)).toThrow(RecordingError);
+  });
+
+  test('rejects unsupported versions', () => {
+    const file = path.join(dir, 'future.replmon');
+    const header = { ...createRecordingHeader(config, new Date(T0)), version: 99 };
+    fs.writeFileSync(file, compressRecord(header));
+
+    expect(() => readRecording(file)).toThrow('Unsupported recording version 99');
+  });
+
+  test('reports missing files as RecordingError', () => {
+    expect(() => readRecording(path.join(dir, 'nope.replmon'))).toThrow(RecordingError);
+  });
+});
+
+describe('ReplayController', () => {
+  test('start applies the first frame', () => {
+    const controller = new ReplayController(recording([0, 1000, 2000]), { paused: true });
+    const applied = collectOffsets(controller);
+
+    controller.start();
+
+    expect(applied).toEqual([0]);
+    expect(controller.getStatus().position).toBe(0);
+    expect(controller.getStatus().currentTime?.getTime()).toBe(T0);
+  });
+
+  test('seeking forward applies every frame in between', () => {
+    const controller = new ReplayController(recording([0, 1000, 2000, 3000, 4000]), { paused: true });
+    const applied = collectOffsets(controller);
+    controller.start();
+
+    controller.seekBy(2500);
+
+    expect(applied).toEqual([0, 1000, 2000]);
+    expect(controller.getStatus().position).toBe(2);
+  });
+
+  test('seeking backwards resets and replays from the first frame', () => {
+    const controller = new ReplayController(recording([0, 1000, 2000, 3000]), { paused: true });
+    controller.start();
+    controller.step(3);
+    const applied = collectOffsets(controller);
+
+    controller.seekBy(-2000);
+
+    expect(applied).toEqual(['reset', 0, 1000]);
+    expect(controller.getStatus().position).toBe(1);
+  });
+
+  test('seeking clamps to the recording', () => {
+    const controller = new ReplayController(recording([0, 1000]), { paused: true });
+    controller.start();
+
+    controller.seekBy(60_000);
+    expect(controller.getStatus().position).toBe(1);
+    expect(controller.getStatus().ended).toBe(true);
+
+    controller.step(-10);
+    expect(controller.getStatus().position).toBe(0);
+  });
+
+  test('plays frames at the selected speed', async () => {
+    const controller = new ReplayController(recording([0, 600, 1200]), { speed: 60 });
+    const applied = collectOffsets(controller);
+
+    controller.start();
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    controller.stop();
+
+    expect(applied).toEqual([0, 600, 1200]);
+    expect(controller.getStatus().ended).toBe(true);
+  });
+
+  test('resuming at the end restarts from the beginning', () => {
+    const controller = new ReplayController(recording([0, 1000]), { paused: true });
+    controller.start();
+    controller.step(1);
+    const applied = collectOffsets(controller);
+
+    controller.togglePause();
+    controller.stop();
+
+    expect(applied).toEqual(['reset', 0]);
+    expect(controller.getStatus().paused).toBe(false);
+  });
+
+  test('publishes status changes', () => {
+    const controller = new ReplayController(recording([0, 1000]), { paused: true });
+    const speeds: number[] = [];
+    controller.on('status', (status) => speeds.push(status.speed));
+
+    controller.setSpeed(10);
+
+    expect(speeds).toEqual([10]);
+  });
+});
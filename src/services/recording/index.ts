@@ -0,0 +1,283 @@
+/**
+ * Session Recording
+ *
+ * `--record <file>` writes every polling cycle (including its conflict event
+ * batches) and every polling error to a compact recording file.
+ * `--replay <file>` feeds a recording back through the store so the normal
+ * TUI shows exactly what replmon showed, without database access.
+ *
+ * Features:
+ * - Gzip NDJSON with one member per record (see codec.ts)
+ * - Synchronous appends, so quitting or crashing never loses written frames
+ * - Header with nodes, thresholds, and alert settings (no passwords or sinks)
+ * - Replay with pause, seek, and speed controls (see replayer.ts)
+ */
+
+import { EventEmitter } from 'events';
+import { appendFileSync, readFileSync, writeFileSync } from 'fs';
+
+import {
+  DEFAULT_HISTORY,
+  DEFAULT_METRICS,
+  DEFAULT_THEME,
+} from '../../config/defaults.js';
+import type { Configuration } from '../../types/config.js';
+import type { PollingCycleResult, PollingError } from '../polling/types.js';
+import { compressRecord, parseRecording, RecordingError } from './codec.js';
+import { ReplayController } from './replayer.js';
+import { RECORDING_VERSION } from './types.js';
+import type {
+  RecordedNode,
+  Recording,
+  RecordingFrame,
+  RecordingHeader,
+  ReplayControllerOptions,
+  SessionRecorderEvents,
+} from './types.js';
+
+// =============================================================================
+// TypedEventEmitter for SessionRecorderEvents
+// =============================================================================
+
+/**
+ * Type-safe event emitter for session recorder events.
+ */
+class RecorderEventEmitter {
+  private emitter: EventEmitter;
+
+  constructor() {
+    this.emitter = new EventEmitter();
+  }
+
+  on<K extends keyof SessionRecorderEvents>(
+    event: K,
+    handler: (payload: SessionRecorderEvents[K]) => void
+  ): void {
+    this.emitter.on(event, handler);
+  }
+
+  off<K extends keyof SessionRecorderEvents>(
+    event: K,
+    handler: (payload: SessionRecorderEvents[K]) => void
+  ): void {
+    this.emitter.off(event, handler);
+  }
+
+  emit<K extends keyof SessionRecorderEvents>(
+    event: K,
+    payload: SessionRecorderEvents[K]
+  ): boolean {
+    return this.emitter.emit(event, payload);
+  }
+}
+
+// =============================================================================
+// Header
+// =============================================================================
+
+/**
+ * Describe a monitoring session for the recording header.
+ * Passwords and alert sinks are left out so recordings can be shared.
+ */
+export function createRecordingHeader(config: Configuration, now: Date = new Date()): RecordingHeader {
+  const nodes: Record<string, RecordedNode> = {};
+  for (const [id, node] of Object.entries(config.nodes)) {
+    nodes[id] = {
+      host: node.host,
+      port: node.port,
+      database: node.database,
+      user: node.user,
+      ...(node.name !== undefined && { name: node.name }),
+    };
+  }
+
+  return {
+    type: 'header',
+    version: RECORDING_VERSION,
+    recordedAt: now,
+    cluster: config.activeCluster ?? null,
+    pglogical: config.pglogical,
+    nodes,
+    thresholds: config.thresholds,
+    alerts: { forSeconds: config.alerts.forSeconds, hysteresis: config.alerts.hysteresis },
+  };
+}
+
+/**
+ * Build the configuration a replay runs with: the recorded nodes,
+ * thresholds, and alert settings, with every side effect disabled
+ * (no sinks, no metrics endpoint, no history writes).
+ */
+export function buildReplayConfiguration(header: RecordingHeader): Configuration {
+  const nodes: Configuration['nodes'] = {};
+  for (const [id, node] of Object.entries(header.nodes)) {
+    nodes[id] = { ...node };
+  }
+
+  return {
+    nodes,
+    ...(header.cluster !== null && { activeCluster: header.cluster }),
+    theme: DEFAULT_THEME,
+    thresholds: header.thresholds,
+    alerts: { ...header.alerts, sinks: [] },
+    pglogical: header.pglogical,
+    metrics: DEFAULT_METRICS,
+    history: DEFAULT_HISTORY,
+    source: 'cli',
+  };
+}
+
+// =============================================================================
+// SessionRecorder Class
+// =============================================================================
+
+/**
+ * Appends polling cycles and errors to a recording file.
+ */
+export class SessionRecorder {
+  readonly file: string;
+  private readonly events = new RecorderEventEmitter();
+  private frameCount = 0;
+  private failure: Error | null = null;
+
+  constructor(file: string) {
+    this.file = file;
+  }
+
+  /**
+   * Create (or truncate) the file and write the header.
+   *
+   * @throws Error if the file cannot be written
+   */
+  start(header: RecordingHeader): void {
+    writeFileSync(this.file, compressRecord(header));
+  }
+
+  /**
+   * Record one polling cycle.
+   */
+  record(result: PollingCycleResult): void {
+    this.write({ type: 'cycle', result });
+  }
+
+  /**
+   * Record a cycle-level polling failure.
+   */
+  recordError(error: PollingError): void {
+    this.write({ type: 'error', error });
+  }
+
+  /**
+   * Number of frames written so far.
+   */
+  getFrameCount(): number {
+    return this.frameCount;
+  }
+
+  /**
+   * The write error that stopped recording, if any.
+   */
+  getFailure(): Error | null {
+    return this.failure;
+  }
+
+  /**
+   * Subscribe to a recorder event.
+   */
+  on<K extends keyof SessionRecorderEvents>(
+    event: K,
+    handler: (payload: SessionRecorderEvents[K]) => void
+  ): void {
+    this.events.on(event, handler);
+  }
+
+  /**
+   * Unsubscribe from a recorder event.
+   */
+  off<K extends keyof SessionRecorderEvents>(
+    event: K,
+    handler: (payload: SessionRecorderEvents[K]) => void
+  ): void {
+    this.events.off(event, handler);
+  }
+
+  private write(frame: RecordingFrame): void {
+    // Stop after the first failure instead of failing every second
+    if (this.failure) return;
+    try {
+      appendFileSync(this.file, compressRecord(frame));
+      this.frameCount++;
+    } catch (error) {
+      this.failure = error instanceof Error ? error : new Error(String(error));
+      this.events.emit('failed', { error: this.failure });
+    }
+  }
+}
+
+// =============================================================================
+// Factory Functions
+// =============================================================================
+
+/**
+ * Create a new SessionRecorder instance.
+ *
+ * @param file - Recording file path (created or truncated on `start()`)
+ * @returns SessionRecorder instance (call `start()` before recording)
+ */
+export function createSessionRecorder(file: string): SessionRecorder {
+  return new SessionRecorder(file);
+}
+
+/**
+ * Read a recording file.
+ *
+ * @throws RecordingError if the file cannot be read or is not a recording
+ */
+export function readRecording(file: string): Recording {
+  let data: Buffer;
+  try {
+    data = readFileSync(file);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new RecordingError(`Cannot read recording: ${reason}`);
+  }
+  return parseRecording(data, file);
+}
+
+/**
+ * Create a new ReplayController instance.
+ *
+ * @param recording - Recording to play back
+ * @param options - Initial speed and paused state
+ * @returns ReplayController instance (call `start()` to apply the first frame)
+ */
+export function createReplayController(
+  recording: Recording,
+  options: ReplayControllerOptions = {}
+): ReplayController {
+  return new ReplayController(recording, options);
+}
+
+// =============================================================================
+// Re-exports
+// =============================================================================
+
+export {
+  compressRecord,
+  decodeRecord,
+  encodeRecord,
+  getFrameTime,
+  parseRecording,
+  RecordingError,
+} from './codec.js';
+export { ReplayController } from './replayer.js';
+export { RECORDING_VERSION } from './types.js';
+export type {
+  RecordedNode,
+  Recording,
+  RecordingFrame,
+  RecordingHeader,
+  ReplayControllerEvents,
+  ReplayControllerOptions,
+  SessionRecorderEvents,
+} from './types.js';
@@ -0,0 +1,279 @@
+/**
+ * ReplayController
+ *
+ * Plays a recording back frame by frame on a virtual clock. The controller
+ * only schedules frames; listeners apply them (e.g., to the store), which
+ * keeps playback independent of the UI.
+ *
+ * Features:
+ * - Pause/resume, 1x/10x/60x speed
+ * - Seek by time or by frame; seeking backwards resets and re-applies
+ *   frames from the start so accumulated state (lag history, alert `for`
+ *   durations) matches the original session
+ * - Long gaps in the recording (e.g., a suspended laptop) are shortened
+ */
+
+import { EventEmitter } from 'events';
+
+import { getFrameTime } from './codec.js';
+import type {
+  Recording,
+  ReplayControllerEvents,
+  ReplayControllerOptions,
+} from './types.js';
+import type { ReplaySpeed, ReplayStatus } from '../../types/replay.js';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Longest wall-clock wait between two frames */
+const MAX_FRAME_DELAY_MS = 5_000;
+
+// =============================================================================
+// TypedEventEmitter for ReplayControllerEvents
+// =============================================================================
+
+/**
+ * Type-safe event emitter for replay controller events.
+ */
+class ReplayEventEmitter {
+  private emitter: EventEmitter;
+
+  constructor() {
+    this.emitter = new EventEmitter();
+  }
+
+  on<K extends keyof ReplayControllerEvents>(
+    event: K,
+    handler: (payload: ReplayControllerEvents[K]) => void
+  ): void {
+    this.emitter.on(event, handler);
+  }
+
+  off<K extends keyof ReplayControllerEvents>(
+    event: K,
+    handler: (payload: ReplayControllerEvents[K]) => void
+  ): void {
+    this.emitter.off(event, handler);
+  }
+
+  emit<K extends keyof ReplayControllerEvents>(
+    event: K,
+    payload: ReplayControllerEvents[K]
+  ): boolean {
+    return this.emitter.emit(event, payload);
+  }
+}
+
+// =============================================================================
+// ReplayController Class
+// =============================================================================
+
+/**
+ * Plays recorded frames with pause, seek, and speed controls.
+ */
+export class ReplayController {
+  private readonly recording: Recording;
+  private readonly times: number[];
+  private readonly events = new ReplayEventEmitter();
+  private position = -1;
+  private paused: boolean;
+  private speed: ReplaySpeed;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(recording: Recording, options: ReplayControllerOptions = {}) {
+    this.recording = recording;
+    this.times = recording.frames.map((frame) => getFrameTime(frame).getTime());
+    this.paused = options.paused ?? false;
+    this.speed = options.speed ?? 1;
+  }
+
+  // ===========================================================================
+  // Playback
+  // ===========================================================================
+
+  /**
+   * Apply the first frame and start the clock (unless paused).
+   */
+  start(): void {
+    if (this.recording.frames.length > 0) {
+      this.apply(0, false);
+    }
+    this.publish();
+    this.schedule();
+  }
+
+  /**
+   * Stop the clock. Frames already applied stay applied.
+   */
+  stop(): void {
+    this.clearTimer();
+  }
+
+  /**
+   * Pause, or resume playback. Resuming at the end restarts from the beginning.
+   */
+  togglePause(): void {
+    if (this.paused && this.isEnded()) {
+      this.paused = false;
+      this.seekToIndex(0);
+      return;
+    }
+    this.paused = !this.paused;
+    this.publish();
+    this.schedule();
+  }
+
+  /**
+   * Change playback speed. Takes effect from the next frame.
+   */
+  setSpeed(speed: ReplaySpeed): void {
+    this.speed = speed;
+    this.publish();
+    this.schedule();
+  }
+
+  // ===========================================================================
+  // Seeking
+  // ===========================================================================
+
+  /**
+   * Move by a recorded-time offset (negative = backwards).
+   */
+  seekBy(deltaMs: number): void {
+    const current = this.times[this.position] ?? this.times[0];
+    if (current === undefined) return;
+    this.seekTo(new Date(current + deltaMs));
+  }
+
+  /**
+   * Move to the last frame recorded at or before a time
+   * (the first frame if the time is before the recording).
+   */
+  seekTo(time: Date): void {
+    const target = time.getTime();
+    let index = 0;
+    for (let i = 0; i < this.times.length; i++) {
+      if ((this.times[i] ?? Infinity) <= target) index = i;
+      else break;
+    }
+    this.seekToIndex(index);
+  }
+
+  /**
+   * Move by a number of frames (negative = backwards).
+   */
+  step(frames: number): void {
+    this.seekToIndex(this.position + frames);
+  }
+
+  // ===========================================================================
+  // Status
+  // ===========================================================================
+
+  /**
+   * Current playback status.
+   */
+  getStatus(): ReplayStatus {
+    const { frames, file, truncated } = this.recording;
+    const first = this.times[0];
+    const last = this.times[this.times.length - 1];
+    const current = this.times[this.position];
+    return {
+      file,
+      paused: this.paused,
+      ended: this.isEnded(),
+      speed: this.speed,
+      position: this.position,
+      frameCount: frames.length,
+      currentTime: current !== undefined ? new Date(current) : null,
+      startTime: first !== undefined ? new Date(first) : null,
+      endTime: last !== undefined ? new Date(last) : null,
+      truncated,
+    };
+  }
+
+  // ===========================================================================
+  // Event Subscription
+  // ===========================================================================
+
+  /**
+   * Subscribe to a replay event.
+   */
+  on<K extends keyof ReplayControllerEvents>(
+    event: K,
+    handler: (payload: ReplayControllerEvents[K]) => void
+  ): void {
+    this.events.on(event, handler);
+  }
+
+  /**
+   * Unsubscribe from a replay event.
+   */
+  off<K extends keyof ReplayControllerEvents>(
+    event: K,
+    handler: (payload: ReplayControllerEvents[K]) => void
+  ): void {
+    this.events.off(event, handler);
+  }
+
+  // ===========================================================================
+  // Private
+  // ===========================================================================
+
+  private isEnded(): boolean {
+    return this.position >= this.recording.frames.length - 1;
+  }
+
+  private seekToIndex(index: number): void {
+    const last = this.recording.frames.length - 1;
+    if (last < 0) return;
+    const target = Math.max(0, Math.min(last, index));
+
+    if (target < this.position) {
+      this.events.emit('reset', undefined);
+      this.position = -1;
+    }
+    for (let i = this.position + 1; i <= target; i++) {
+      this.apply(i, true);
+    }
+    this.publish();
+    this.schedule();
+  }
+
+  private apply(index: number, seeking: boolean): void {
+    const frame = this.recording.frames[index];
+    if (!frame) return;
+    this.position = index;
+    this.events.emit('frame', { frame, seeking });
+  }
+
+  private publish(): void {
+    this.events.emit('status', this.getStatus());
+  }
+
+  private schedule(): void {
+    this.clearTimer();
+    if (this.paused || this.isEnded()) return;
+
+    const current = this.times[this.position];
+    const next = this.times[this.position + 1];
+    if (current === undefined || next === undefined) return;
+
+    const delay = Math.min(MAX_FRAME_DELAY_MS, Math.max(0, next - current) / this.speed);
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.apply(this.position + 1, false);
+      this.publish();
+      this.schedule();
+    }, delay);
+  }
+
+  private clearTimer(): void {
+    if (this.timer !== null) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
@@ -0,0 +1,104 @@
+/**
+ * Session Recording Types
+ *
+ * Type definitions for recording polling cycles to a file and replaying
+ * them through the store.
+ */
+
+import type { ResolvedAlertsConfig, ResolvedThresholds } from '../../config/defaults.js';
+import type { PollingCycleResult, PollingError } from '../polling/types.js';
+import type { ReplaySpeed, ReplayStatus } from '../../types/replay.js';
+
+// =============================================================================
+// File Contents
+// =============================================================================
+
+/** Current recording format version */
+export const RECORDING_VERSION = 1;
+
+/**
+ * Connection details of a recorded node. Passwords are never recorded.
+ */
+export interface RecordedNode {
+  host: string;
+  port: number;
+  database: string;
+  user: string;
+  name?: string;
+}
+
+/**
+ * First record of every recording: what replmon was monitoring and how.
+ */
+export interface RecordingHeader {
+  type: 'header';
+  /** Format version (RECORDING_VERSION) */
+  version: number;
+  /** When recording started */
+  recordedAt: Date;
+  /** Active cluster name (null without clusters) */
+  cluster: string | null;
+  /** Whether pglogical mode was enabled */
+  pglogical: boolean;
+  /** Monitored nodes keyed by node id */
+  nodes: Record<string, RecordedNode>;
+  /** Thresholds, so replayed alerts match the original session */
+  thresholds: ResolvedThresholds;
+  /** Alert evaluation settings (sinks are not recorded) */
+  alerts: Omit<ResolvedAlertsConfig, 'sinks'>;
+}
+
+/**
+ * One recorded event. Conflict event batches travel inside each cycle
+ * result (`conflictEvents`), exactly as the polling service delivers them.
+ */
+export type RecordingFrame =
+  | { type: 'cycle'; result: PollingCycleResult }
+  | { type: 'error'; error: PollingError };
+
+/**
+ * A recording read back from disk.
+ */
+export interface Recording {
+  /** Path the recording was read from */
+  file: string;
+  header: RecordingHeader;
+  /** Frames in recorded order */
+  frames: RecordingFrame[];
+  /** Whether the file ended mid-record (e.g., replmon was killed) */
+  truncated: boolean;
+}
+
+// =============================================================================
+// Events
+// =============================================================================
+
+/**
+ * Events emitted by SessionRecorder.
+ */
+export interface SessionRecorderEvents {
+  /** A frame could not be written */
+  failed: { error: Error };
+}
+
+/**
+ * Events emitted by ReplayController.
+ */
+export interface ReplayControllerEvents {
+  /** Apply a frame; `seeking` is true while catching up to a seek target */
+  frame: { frame: RecordingFrame; seeking: boolean };
+  /** Discard all replayed state before frames are re-applied from the start */
+  reset: undefined;
+  /** Playback status changed */
+  status: ReplayStatus;
+}
+
+/**
+ * Options for ReplayController.
+ */
+export interface ReplayControllerOptions {
+  /** Initial playback speed (default: 1) */
+  speed?: ReplaySpeed;
+  /** Start paused (default: false) */
+  paused?: boolean;
+}
@@ -0,0 +1,915 @@
+/**
+ * Tests for demo scenarios, the scenario model, and the simulated cluster
+ */
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import * as path from 'path';
+import {
+  SimulatedCluster,
+  ScenarioError,
+  answerQuery,
+  buildDemoConfiguration,
+  countConflicts,
+  evaluateScenario,
+  listConflicts,
+  loadScenario,
+  parseScenario,
+  SLOT_RETAINED_SLACK_BYTES,
+} from './index.js';
+import type { Scenario } from './index.js';
+import { PollingService, clearAllCapabilities, getCachedCapabilities } from '../polling/index.js';
+import type { PollingCycleResult } from '../polling/types.js';
+import { AlertEngine } from '../alerts/index.js';
+import { useStore } from '../../store/index.js';
+import type { NodeInfo } from '../../store/types.js';
+import { selectTopologyNodes } from '../../store/selectors/topology.js';
+import { findPublicationConsumers } from '../../utils/publications.js';
+import { findSequenceDrift, getSequenceName } from '../../utils/sequences.js';
+import { collectDoctorNode, runDoctorChecks } from '../doctor/index.js';
+import { diffLsn } from '../../utils/wal-rate.js';
+
+const T0 = Date.UTC(2024, 5, 1, 12, 0, 0);
+const MB = 1024 * 1024;
+
+const SCENARIO_YAML = `
+name: Test
+duration: 10m
+wal_rate: 1MB
+nodes:
+  provider:
+    host: pg-provider
+    database: shop
+    pglogical: true
+  replica:
+    host: pg-replica
+    database: shop
+    pglogical: true
+  native:
+    host: pg-native
+subscriptions:
+  - name: sub_orders
+    node: replica
+    provider: provider
+    lag: 1MB
+    tables:
+      - customers
+      - { name: sales.orders, copy: 5m }
+  - name: sub_native
+    node: native
+    provider: provider
+    tables:
+      - { name: public.big, copy: 3m }
+slots:
+  - name: cdc
+    node: provider
+    active: false
+    retained: 100MB
+events:
+  - at: 4m
+    type: slot
+    slot: cdc
+    wal_status: lost
+  - at: 1m
+    type: lag
+    subscription: sub_orders
+    to: 121MB
+    over: 2m
+  - at: 5m
+    type: outage
+    node: replica
+    for: 1m
+  - at: 7m
+    type: conflicts
+    subscription: sub_orders
+    count: 10
+    over: 10s
+    conflict_type: update_delete
+    resolution: skip
+    table: sales.orders
+  - at: 8m
+    type: conflicts
+    subscription: sub_native
+    count: 4
+thresholds:
+  replication_lag:
+    warning: 30s
+    critical: 1m
+alerts:
+  for: 0
+`;
+
+/** SCENARIO_YAML plus a standby of the provider, a cascading standby and one of a server outside the scenario */
+const STANDBY_YAML = SCENARIO_YAML.replace(
+  '  native:\n    host: pg-native\n',
+  `  native:
+    host: pg-native
+  standby:
+    host: pg-standby
+    upstream: provider
+    replay_lag: 2MB
+  cascade:
+    host: pg-cascade
+    upstream: standby
+  archive:
+    host: pg-archive
+    upstream: 10.0.0.9:5433
+`
+);
+
+function scenario(yaml = SCENARIO_YAML): Scenario {
+  return parseScenario(yaml, 'test.yaml');
+}
+
+function withEvents(events: string, yaml = SCENARIO_YAML): string {
+  return yaml.replace(/events:[\s\S]*?thresholds:/, `events:\n${events}\nthresholds:`);
+}
+
+/** Run one polling cycle against the cluster */
+async function pollOnce(cluster: SimulatedCluster): Promise<PollingCycleResult> {
+  const service = new PollingService(cluster, { intervalMs: 60_000 });
+  const result = new Promise<PollingCycleResult>((resolve) => service.on('data', resolve));
+  service.start();
+  const data = await result;
+  service.stop();
+  service.clearAllPglogicalCache();
+  return data;
+}
+
+describe('parseScenario', () => {
+  test('applies defaults and sorts events', () => {
+    const parsed = scenario();
+
+    expect(parsed.durationMs).toBe(600_000);
+    expect(parsed.loop).toBe(true);
+    expect(parsed.events.map((event) => event.atMs)).toEqual([60_000, 240_000, 300_000, 420_000, 480_000]);
+    expect(parsed.subscriptions.map((sub) => sub.slot)).toEqual([
+      'pgl_shop_provider_sub_orders',
+      'sub_native',
+    ]);
+    expect(parsed.nodes.find((node) => node.id === 'native')).toMatchObject({
+      port: 5432,
+      database: 'app',
+      pglogical: false,
+      conflictHistory: false,
+    });
+    expect(parsed.thresholds.replicationLag).toEqual({ warning: 30, critical: 60 });
+    expect(parsed.alerts).toMatchObject({ forSeconds: 0, sinks: [] });
+  });
+
+  test('splits conflict tables into schema and name', () => {
+    const burst = scenario().events.find((event) => event.type === 'conflicts');
+
+    expect(burst).toMatchObject({ schemaName: 'sales', tableName: 'orders', conflictType: 'update_delete' });
+  });
+
+  test('resolves subscription tables and rejects duplicates', () => {
+    expect(scenario().subscriptions[0]?.tables).toEqual([
+      { schemaName: 'public', tableName: 'customers', copyMs: 0, primaryKey: true },
+      { schemaName: 'sales', tableName: 'orders', copyMs: 300_000, primaryKey: true },
+    ]);
+    expect(() => scenario(SCENARIO_YAML.replace('- customers', '- public.big\n      - big'))).toThrow(
+      'Subscription "sub_orders" lists table "public.big" twice'
+    );
+  });
+
+  test('defaults duration to a minute after the last event', () => {
+    const parsed = scenario(SCENARIO_YAML.replace('duration: 10m\n', ''));
+
+    expect(parsed.durationMs).toBe(480_000 + 60_000);
+  });
+
+  test('rejects references to unknown subscriptions', () => {
+    const yaml = withEvents('  - at: 1m\n    type: lag\n    subscription: nope\n    to: 1MB');
+
+    expect(() => scenario(yaml)).toThrow('events[0] references unknown subscription "nope"');
+  });
+
+  test('rejects retained ramps on subscription slots', () => {
+    const yaml = withEvents('  - at: 1m\n    type: slot\n    slot: sub_native\n    retained: 1GB');
+
+    expect(() => scenario(yaml)).toThrow(/use a lag event/);
+  });
+
+  test('rejects spill events on physical slots', () => {
+    const yaml = withEvents('  - at: 1m\n    type: spill\n    slot: wal_archive\n    rate: 1MB\n    for: 1m').replace(
+      '    retained: 100MB\n',
+      '    retained: 100MB\n  - name: wal_archive\n    node: provider\n    type: physical\n'
+    );
+
+    expect(() => scenario(yaml)).toThrow('events[0]: only logical slots spill; "wal_archive" is physical');
+  });
+
+  test('rejects apply errors and disable_on_error on pglogical subscriptions', () => {
+    const yaml = withEvents('  - at: 1m\n    type: apply_errors\n    subscription: sub_orders\n    count: 2');
+
+    expect(() => scenario(yaml)).toThrow(/apply error counters are native only/);
+    expect(() =>
+      scenario(SCENARIO_YAML.replace('    lag: 1MB\n', '    lag: 1MB\n    disable_on_error: true\n'))
+    ).toThrow('Subscription "sub_orders": disable_on_error is native only');
+  });
+
+  test('rejects unknown upstreams and subscriptions on standbys', () => {
+    expect(() => scenario(STANDBY_YAML.replace('upstream: provider', 'upstream: nope'))).toThrow(
+      'Node "standby" references unknown upstream "nope" (use host:port for a server outside the scenario)'
+    );
+    expect(() => scenario(STANDBY_YAML.replace('node: native', 'node: standby'))).toThrow(
+      'Subscription "sub_native": node "standby" is a read-only standby'
+    );
+  });
+
+  test('reports invalid durations with their field', () => {
+    const yaml = withEvents('  - at: soon\n    type: outage\n    node: replica\n    for: 1m');
+
+    expect(() => scenario(yaml)).toThrow('test.yaml: invalid value for events[0].at: soon');
+  });
+
+  test('reports schema errors with their path', () => {
+    expect(() => scenario('name: Empty\nnodes: {}\n')).toThrow(ScenarioError);
+    expect(() => scenario('name: [\n')).toThrow(/invalid YAML/);
+  });
+
+  test('loadScenario reports unreadable files as ScenarioError', () => {
+    expect(() => loadScenario('/nonexistent/scenario.yaml')).toThrow(ScenarioError);
+  });
+
+  test('bundled scenarios are valid', () => {
+    const dir = path.join(import.meta.dir, '../../../configs/scenarios');
+    for (const name of ['lag-ramp', 'slot-lost', 'node-outage', 'conflict-burst', 'tour']) {
+      expect(loadScenario(path.join(dir, `${name}.yaml`)).name.length).toBeGreaterThan(0);
+    }
+  });
+});
+
+describe('evaluateScenario', () => {
+  test('ramps lag linearly from the current value', () => {
+    const parsed = scenario();
+
+    expect(evaluateScenario(parsed, 30_000).lagBytes.get('sub_orders')).toBe(MB);
+    expect(evaluateScenario(parsed, 120_000).lagBytes.get('sub_orders')).toBe(61 * MB);
+    expect(evaluateScenario(parsed, 200_000).lagBytes.get('sub_orders')).toBe(121 * MB);
+  });
+
+  test('subscription slots retain their lag plus slack', () => {
+    const slot = evaluateScenario(scenario(), 200_000).slots.get('pgl_shop_provider_sub_orders');
+
+    expect(slot).toMatchObject({
+      node: 'provider',
+      plugin: 'pglogical_output',
+      active: true,
+      walStatus: 'reserved',
+      pendingBytes: 121 * MB,
+      retainedBytes: 121 * MB + SLOT_RETAINED_SLACK_BYTES,
+    });
+  });
+
+  test('a lost slot is inactive and retains nothing', () => {
+    const parsed = scenario();
+
+    expect(evaluateScenario(parsed, 200_000).slots.get('cdc')?.walStatus).toBe('reserved');
+    expect(evaluateScenario(parsed, 250_000).slots.get('cdc')).toMatchObject({
+      active: false,
+      walStatus: 'lost',
+      retainedBytes: 0,
+    });
+  });
+
+  test('outages take nodes down and deactivate their subscription slots', () => {
+    const state = evaluateScenario(scenario(), 330_000);
+
+    expect([...state.downNodes]).toEqual(['replica']);
+    expect(state.slots.get('pgl_shop_provider_sub_orders')?.active).toBe(false);
+    expect(evaluateScenario(scenario(), 360_000).downNodes.size).toBe(0);
+  });
+
+  test('an open transaction holds back the logical slots on its node', () => {
+    const parsed = scenario(withEvents('  - at: 1m\n    type: transaction\n    node: provider\n    for: 5m'));
+    const state = evaluateScenario(parsed, 200_000);
+
+    expect(state.transactions.get('provider')).toMatchObject({ pid: 30000, user: 'app', startedMs: 60_000 });
+    expect(state.slots.get('pgl_shop_provider_sub_orders')).toMatchObject({
+      pendingBytes: MB,
+      retainedBytes: 140 * MB,
+      blocker: { pid: 30000 },
+    });
+    expect(state.slots.get('cdc')).toMatchObject({
+      retainedBytes: 140 * MB,
+      pendingBytes: 100 * MB,
+      inactiveSinceMs: 0,
+    });
+    expect(evaluateScenario(parsed, 400_000).slots.get('cdc')?.blocker).toBeNull();
+  });
+
+  test('looping restarts the script and holding keeps the final state', () => {
+    const looping = scenario();
+    const holding = scenario(SCENARIO_YAML.replace('duration: 10m', 'duration: 10m\nloop: false'));
+
+    expect(evaluateScenario(looping, 630_000)).toMatchObject({ lap: 1, offsetMs: 30_000 });
+    expect(evaluateScenario(looping, 630_000).lagBytes.get('sub_orders')).toBe(MB);
+    expect(evaluateScenario(holding, 630_000).lagBytes.get('sub_orders')).toBe(121 * MB);
+  });
+});
+
+describe('conflicts', () => {
+  test('spreads a burst evenly and lists the newest first', () => {
+    const conflicts = listConflicts(scenario(), 'replica', 424_500, 86_400_000, 500);
+
+    expect(conflicts).toHaveLength(5);
+    expect(conflicts.map((conflict) => conflict.elapsedMs)).toEqual([424_000, 423_000, 422_000, 421_000, 420_000]);
+    expect(conflicts[0]).toMatchObject({ id: '0-3-4', subscription: 'sub_orders', conflictType: 'update_delete' });
+  });
+
+  test('keeps ids stable across runs and honours the limit', () => {
+    const conflicts = listConflicts(scenario(), 'replica', 605_000, 86_400_000, 12);
+
+    expect(conflicts).toHaveLength(10);
+    expect(listConflicts(scenario(), 'replica', 1_030_000, 86_400_000, 12).map((c) => c.id)).toEqual([
+      '1-3-9', '1-3-8', '1-3-7', '1-3-6', '1-3-5', '1-3-4', '1-3-3', '1-3-2', '1-3-1', '1-3-0',
+      '0-3-9', '0-3-8',
+    ]);
+  });
+
+  test('counts conflicts cumulatively across runs', () => {
+    const counts = countConflicts(scenario(), 600_000 + 480_000);
+
+    expect(counts.get('sub_orders')?.get('update_delete')).toBe(20);
+    expect(counts.get('sub_native')?.get('update_update')).toBe(8);
+  });
+});
+
+describe('answerQuery', () => {
+  const ctx = () => ({ scenario: scenario(), startedAt: T0, elapsedMs: 120_000 });
+
+  test('reports walsenders by slot name with lag in bytes and seconds', () => {
+    const rows = answerQuery(ctx(), 'provider', 'SELECT application_name FROM pg_stat_replication WHERE state IS NOT NULL');
+
+    expect(rows).toHaveLength(2);
+    expect(rows[0]).toMatchObject({
+      application_name: 'pgl_shop_provider_sub_orders',
+      client_addr: 'pg-replica',
+      lag_bytes: String(61 * MB),
+      lag_seconds: '61.000',
+    });
+  });
+
+  test('reports the table sync worker of a native subscription', () => {
+    const rows = answerQuery(
+      { ...ctx(), elapsedMs: 60_000 },
+      'native',
+      'SELECT sr.srsubstate AS state_code FROM pg_subscription_rel sr'
+    );
+
+    expect(rows).toEqual([
+      {
+        subscription_name: 'sub_native',
+        schema_name: 'public',
+        table_name: 'big',
+        state_code: 'd',
+        sync_lsn: null,
+        worker_pid: 21000,
+        worker_started_at: new Date(T0),
+      },
+    ]);
+  });
+
+  test('reports decoding counters with spills accumulated across runs', () => {
+    const spilling = scenario(
+      withEvents(
+        '  - at: 1m\n    type: spill\n    slot: pgl_shop_provider_sub_orders\n    rate: 4MB\n    for: 1m\n    txn_size: 8MB'
+      )
+    );
+    const stats = (elapsedMs: number) =>
+      answerQuery(
+        { scenario: spilling, startedAt: T0, elapsedMs },
+        'provider',
+        'SELECT slot_name FROM pg_stat_replication_slots'
+      ).find((row) => row.slot_name === 'pgl_shop_provider_sub_orders');
+
+    expect(stats(90_000)).toEqual({
+      slot_name: 'pgl_shop_provider_sub_orders',
+      spill_txns: '15',
+      spill_bytes: String(120 * MB),
+      stream_txns: '0',
+      stream_bytes: '0',
+      total_txns: String(90 * 16),
+      total_bytes: String(90 * MB),
+      stats_reset: null,
+    });
+    // One full run (240MB) plus 30s of the next
+    expect(stats(690_000)?.spill_bytes).toBe(String(360 * MB));
+  });
+
+  test('reports slot horizons and the transaction holding a slot back', () => {
+    const parsed = scenario(
+      withEvents(
+        '  - at: 1m\n    type: transaction\n    node: provider\n    for: 5m\n    application: report'
+      ).replace(
+        '    database: shop\n    pglogical: true\n  replica:',
+        '    database: shop\n    pglogical: true\n    max_slot_wal_keep_size: 1GB\n  replica:'
+      )
+    );
+    const slot = (elapsedMs: number) =>
+      answerQuery(
+        { scenario: parsed, startedAt: T0, elapsedMs },
+        'provider',
+        'SELECT s.slot_name FROM pg_replication_slots s'
+      ).find((row) => row.slot_name === 'pgl_shop_provider_sub_orders');
+
+    // Open for less than a minute: not reported yet
+    expect(slot(90_000)?.blocker_pid).toBeNull();
+    expect(slot(200_000)).toMatchObject({
+      catalog_xmin_age: 140 * 50,
+      safe_wal_size: String(1024 * MB - 140 * MB),
+      max_slot_wal_keep_size: String(1024 * MB),
+      two_phase: false,
+      inactive_since: null,
+      blocker_pid: 30000,
+      blocker_application: 'report',
+      blocker_xact_start: new Date(T0 + 60_000),
+    });
+  });
+
+  test('reports standbys in recovery with their WAL receiver', () => {
+    const standbys = { scenario: scenario(STANDBY_YAML), startedAt: T0, elapsedMs: 120_000 };
+    const recovery = 'SELECT pg_is_in_recovery() AS in_recovery';
+    const receiver = 'SELECT r.status FROM (SELECT 1) AS one LEFT JOIN pg_stat_wal_receiver r ON true';
+
+    expect(answerQuery(standbys, 'provider', recovery)).toEqual([{ in_recovery: false }]);
+    expect(answerQuery(standbys, 'standby', recovery)).toEqual([{ in_recovery: true }]);
+    expect(answerQuery(standbys, 'provider', receiver)).toEqual([]);
+
+    // The WAL position of a standby is how far it has replayed
+    const position =
+      'SELECT CASE WHEN pg_is_in_recovery() THEN pg_last_wal_replay_lsn() ELSE pg_current_wal_lsn() END::text AS lsn';
+    const [primaryPosition] = answerQuery(standbys, 'provider', position);
+    const [standbyPosition] = answerQuery(standbys, 'standby', position);
+    expect(primaryPosition?.in_recovery).toBe(false);
+    expect(standbyPosition?.in_recovery).toBe(true);
+    expect(diffLsn(String(primaryPosition?.lsn), String(standbyPosition?.lsn))).toBe(2 * MB);
+    expect(answerQuery(standbys, 'standby', receiver)[0]).toMatchObject({
+      status: 'streaming',
+      replay_lag_bytes: String(2 * MB),
+      replay_lag_seconds: '2.000',
+      sender_host: 'pg-provider',
+      sender_port: 5432,
+    });
+    expect(answerQuery(standbys, 'archive', receiver)[0]).toMatchObject({
+      sender_host: '10.0.0.9',
+      sender_port: 5433,
+    });
+    expect(
+      answerQuery(standbys, 'provider', 'SELECT application_name FROM pg_stat_replication').map(
+        (row) => row.application_name
+      )
+    ).toContain('standby');
+  });
+
+  test('a standby whose upstream is down has no receiver and stops replaying', () => {
+    const parsed = scenario(
+      withEvents('  - at: 1m\n    type: outage\n    node: standby\n    for: 2m', STANDBY_YAML)
+    );
+    const [row] = answerQuery(
+      { scenario: parsed, startedAt: T0, elapsedMs: 120_000 },
+      'cascade',
+      'SELECT r.status FROM pg_stat_wal_receiver r'
+    );
+
+    expect(row).toMatchObject({
+      status: null,
+      sender_host: null,
+      replay_lag_seconds: '60.000',
+      last_replay_at: new Date(T0 + 60_000),
+    });
+    expect(row?.receive_lsn).toBe(row?.replay_lsn);
+  });
+
+  test('rejects queries it does not know', () => {
+    expect(() => answerQuery(ctx(), 'provider', 'SELECT * FROM pg_locks')).toThrow(
+      'Query not supported by the simulator: SELECT * FROM pg_locks'
+    );
+  });
+});
+
+describe('SimulatedCluster', () => {
+  let clock: number;
+  let cluster: SimulatedCluster;
+
+  /** Replace the cluster and register its nodes in the store */
+  function setCluster(parsed: Scenario): void {
+    cluster = new SimulatedCluster(parsed, { now: () => clock, healthCheckIntervalMs: 60_000 });
+    const state = useStore.getState();
+    state.clearReplicationData();
+    state.resetUIState();
+    const nodeInfos: NodeInfo[] = cluster.scenario.nodes.map((node) => ({
+      id: node.id,
+      name: node.id,
+      host: node.host,
+      port: node.port,
+      database: node.database,
+      hasPglogical: false,
+    }));
+    state.initializeNodesInfo(nodeInfos);
+  }
+
+  beforeEach(() => {
+    clock = T0;
+    setCluster(scenario());
+  });
+
+  afterEach(async () => {
+    await cluster.shutdown();
+  });
+
+  test('emits connection events on outage transitions', () => {
+    const events: string[] = [];
+    cluster.on('node:connected', ({ nodeId }) => events.push(`up:${nodeId}`));
+    cluster.on('node:disconnected', ({ nodeId }) => events.push(`down:${nodeId}`));
+
+    cluster.initialize();
+    clock = T0 + 310_000;
+    const healthy = cluster.getHealthyNodes().map((node) => node.id);
+    clock = T0 + 370_000;
+    cluster.getHealthyNodes();
+
+    expect(events).toEqual(['up:provider', 'up:replica', 'up:native', 'down:replica', 'up:replica']);
+    expect(healthy).toEqual(['provider', 'native']);
+  });
+
+  test('queries on a node in an outage fail like a refused connection', async () => {
+    cluster.initialize();
+    clock = T0 + 310_000;
+
+    await expect(cluster.query('replica', 'SELECT 1 FROM pg_replication_slots')).rejects.toThrow(
+      /ECONNREFUSED pg-replica:5432/
+    );
+  });
+
+  test('probes node capabilities once per connection', async () => {
+    setCluster(
+      scenario(
+        SCENARIO_YAML.replace(
+          '  native:\n    host: pg-native\n',
+          '  native:\n    host: pg-native\n    version: 140005\n    wal_level: replica\n'
+        )
+      )
+    );
+    cluster.initialize();
+    const service = new PollingService(cluster, { intervalMs: 60_000 });
+    const poll = async (): Promise<PollingCycleResult> => {
+      const result = new Promise<PollingCycleResult>((resolve) => service.once('data', resolve));
+      service.start();
+      const data = await result;
+      service.stop();
+      return data;
+    };
+    const capabilitiesOf = (result: PollingCycleResult, nodeId: string) =>
+      result.capabilities.find((node) => node.nodeId === nodeId)?.data;
+
+    const first = await poll();
+    expect(capabilitiesOf(first, 'provider')).toMatchObject({
+      versionNum: 170000,
+      version: '17.0',
+      hasPglogical: true,
+      pglogicalVersion: '2.4.5',
+      walLevel: 'logical',
+      maxReplicationSlots: 10,
+      maxWalSenders: 10,
+      trackCommitTimestamp: true,
+      maxSlotWalKeepSizeMb: -1,
+      conflictHistory: true,
+    });
+    expect(capabilitiesOf(first, 'native')).toMatchObject({
+      versionNum: 140005,
+      version: '14.5',
+      hasPglogical: false,
+      walLevel: 'replica',
+      maxSlotWalKeepSizeMb: -1,
+      conflictHistory: false,
+    });
+
+    // The replica drops out during its outage and is probed again on reconnect
+    clock = T0 + 310_000;
+    const during = await poll();
+    expect(capabilitiesOf(during, 'provider')).toBe(capabilitiesOf(first, 'provider'));
+    expect(getCachedCapabilities('replica')).toBeUndefined();
+
+    clock = T0 + 370_000;
+    const after = await poll();
+    expect(capabilitiesOf(after, 'replica')).toMatchObject({ hasPglogical: true });
+    expect(capabilitiesOf(after, 'replica')).not.toBe(capabilitiesOf(first, 'replica'));
+
+    service.clearAllPglogicalCache();
+  });
+
+  test('feeds the store like a live cluster', async () => {
+    const engine = new AlertEngine(cluster.scenario.thresholds, cluster.scenario.alerts);
+    cluster.initialize();
+    clock = T0 + 200_000;
+
+    const result = await pollOnce(cluster);
+    const store = useStore.getState();
+    store.handlePollingData(result);
+    const evaluation = engine.evaluate(result);
+    const state = useStore.getState();
+
+    const replicaSub = state.subscriptions.get('replica')?.[0];
+    expect(replicaSub).toMatchObject({
+      subscriptionName: 'sub_orders',
+      status: 'replicating',
+      source: 'pglogical',
+      providerNode: 'provider',
+      providerHost: 'pg-provider',
+      providerPort: 5432,
+    });
+    expect(state.subscriptions.get('native')?.[0]).toMatchObject({ source: 'native', status: 'replicating' });
+
+    const lag = state.lagHistory.get('replica:sub_orders')?.at(-1);
+    expect(lag).toMatchObject({ lagBytes: 121 * MB, lagSeconds: 121 });
+
+    expect(state.slots.get('provider')?.map((slot) => slot.slotName).sort()).toEqual([
+      'cdc',
+      'pgl_shop_provider_sub_orders',
+      'sub_native',
+    ]);
+
+    expect(evaluation.alerts).toContainEqual(
+      expect.objectContaining({
+        metric: 'replication_lag',
+        subject: 'pgl_shop_provider_sub_orders',
+        severity: 'critical',
+        state: 'firing',
+      })
+    );
+  });
+
+  test('draws standby edges from WAL receivers, including cascades and external upstreams', async () => {
+    await cluster.shutdown();
+    setCluster(scenario(STANDBY_YAML));
+    cluster.initialize();
+    clock = T0 + 60_000;
+
+    const result = await pollOnce(cluster);
+    expect(result.walReceivers.find((node) => node.nodeId === 'standby')?.data?.[0]).toMatchObject({
+      status: 'streaming',
+      upstreamHost: 'pg-provider',
+      upstreamPort: 5432,
+      replayLagBytes: 2 * MB,
+    });
+    useStore.getState().handlePollingData(result);
+
+    const nodes = selectTopologyNodes(useStore.getState());
+    const node = (id: string) => nodes.find((candidate) => candidate.nodeId === id);
+    expect(node('standby')?.role).toBe('standby');
+    expect(node('standby')?.incomingEdges).toEqual([
+      expect.objectContaining({ sourceNodeId: 'provider', replicationType: 'physical', status: 'streaming', lagSeconds: 2 }),
+    ]);
+    // A cascading standby is still a standby, fed by another standby
+    expect(node('cascade')?.role).toBe('standby');
+    expect(node('cascade')?.incomingEdges[0]?.sourceNodeId).toBe('standby');
+    expect(node('provider')?.role).toBe('provider');
+    expect(node('external:10.0.0.9:5433')).toMatchObject({
+      displayName: '10.0.0.9',
+      isExternal: true,
+      role: 'primary',
+    });
+    expect(node('archive')?.walReceiver?.upstreamHost).toBe('10.0.0.9');
+  });
+
+  test('lists the replication sets and publications that subscriptions consume', async () => {
+    cluster.initialize();
+    clock = T0 + 60_000;
+    useStore.getState().handlePollingData(await pollOnce(cluster));
+    const state = useStore.getState();
+
+    const published = state.publications.get('provider') ?? [];
+    expect(published.map((pub) => `${pub.source}:${pub.name}`).sort()).toEqual([
+      'native:default',
+      'pglogical:default',
+    ]);
+    const set = published.find((pub) => pub.source === 'pglogical');
+    expect(set?.tables.map((table) => `${table.schemaName}.${table.tableName}`)).toEqual([
+      'public.customers',
+      'sales.orders',
+    ]);
+    expect(state.subscriptions.get('native')?.[0]?.replicationSets).toEqual(['default']);
+
+    const consumers = published.map((pub) =>
+      findPublicationConsumers(pub, state.subscriptions, state.nodes).map(
+        (consumer) => `${consumer.nodeId}:${consumer.subscriptionName}:${consumer.matchedByName}`
+      )
+    );
+    expect(consumers.flat().sort()).toEqual(['native:sub_native:true', 'replica:sub_orders:false']);
+    expect(state.publications.get('replica')).toEqual([]);
+  });
+
+  test('reports the sequences of published tables, behind on their subscribers', async () => {
+    cluster.initialize();
+    clock = T0 + 90_000;
+    useStore.getState().handlePollingData(await pollOnce(cluster));
+    const state = useStore.getState();
+
+    const published = state.publications.get('provider') ?? [];
+    expect(published.find((pub) => pub.source === 'pglogical')?.sequences).toEqual([
+      { schemaName: 'public', sequenceName: 'customers_id_seq' },
+      { schemaName: 'sales', sequenceName: 'orders_id_seq' },
+    ]);
+
+    // 90MB of WAL at 8KB per row; pglogical last synchronized at 60s with a
+    // margin of 1000, native subscribers never
+    const drift = published.flatMap((pub) =>
+      findSequenceDrift(
+        pub,
+        findPublicationConsumers(pub, state.subscriptions, state.nodes).map((c) => c.nodeId),
+        state.sequences
+      )
+    );
+    expect(
+      drift.map((entry) => `${entry.nodeId}:${getSequenceName(entry)}:${entry.providerValue}:${entry.behindBy}`).sort()
+    ).toEqual([
+      'native:public.big_id_seq:12520:11520',
+      'replica:public.customers_id_seq:12520:2840',
+      'replica:sales.orders_id_seq:12520:2840',
+    ]);
+  });
+
+  test('keeps the last sequence values of a node whose sequences query fails', async () => {
+    cluster.initialize();
+    clock = T0 + 90_000;
+    useStore.getState().handlePollingData(await pollOnce(cluster));
+    const before = useStore.getState().sequences.get('replica');
+
+    const query = cluster.query.bind(cluster);
+    cluster.query = <T,>(nodeId: string, queryText: string, params?: unknown[]): Promise<T[]> =>
+      nodeId === 'replica' && queryText.includes('FROM pg_sequences')
+        ? Promise.reject(new Error('permission denied for view pg_sequences'))
+        : query<T>(nodeId, queryText, params);
+    clock = T0 + 120_000;
+    const result = await pollOnce(cluster);
+    useStore.getState().handlePollingData(result);
+    const state = useStore.getState();
+
+    expect(result.sequences.find((data) => data.nodeId === 'replica')?.success).toBe(false);
+    expect(state.sequences.get('replica')).toBe(before);
+    const published = state.publications.get('provider') ?? [];
+    const statuses = published.flatMap((pub) =>
+      findSequenceDrift(
+        pub,
+        findPublicationConsumers(pub, state.subscriptions, state.nodes).map((c) => c.nodeId),
+        state.sequences
+      )
+        .filter((entry) => entry.nodeId === 'replica')
+        .map((entry) => entry.status)
+    );
+    expect(statuses.length).toBeGreaterThan(0);
+    expect(statuses).not.toContain('missing');
+  });
+
+  test('answers the doctor checks with tables lacking a primary key and orphaned slots', async () => {
+    setCluster(
+      scenario(
+        SCENARIO_YAML.replace(
+          '{ name: public.big, copy: 3m }',
+          '{ name: public.big, copy: 3m, primary_key: false }'
+        )
+      )
+    );
+    cluster.initialize();
+    clock = T0 + 60_000;
+
+    const nodes = await Promise.all(
+      cluster.scenario.nodes.map((node) =>
+        collectDoctorNode(
+          { nodeId: node.id, nodeName: node.id, host: node.host, port: node.port },
+          <R>(sql: string, params?: unknown[]) => cluster.query<R>(node.id, sql, params)
+        )
+      )
+    );
+    clearAllCapabilities();
+
+    expect(nodes.find((node) => node.nodeId === 'native')?.tablesWithoutIdentity).toEqual([
+      { schemaName: 'public', tableName: 'big', replicaIdentity: 'default' },
+    ]);
+    const findings = runDoctorChecks(nodes).findings;
+    expect(findings.map((finding) => `${finding.nodeId}:${finding.check}:${finding.target}`)).toEqual([
+      'provider:replica_identity:public.big',
+      'provider:orphaned_slot:cdc',
+      'provider:setting:max_slot_wal_keep_size',
+    ]);
+  });
+
+  test('reports tables in initial copy until their copy time has passed', async () => {
+    cluster.initialize();
+    clock = T0 + 120_000;
+    useStore.getState().handlePollingData(await pollOnce(cluster));
+    clock = T0 + 200_000;
+    useStore.getState().handlePollingData(await pollOnce(cluster));
+    const state = useStore.getState();
+
+    expect(state.tableSync.get('replica')).toEqual([
+      expect.objectContaining({ tableName: 'customers', state: 'ready', source: 'pglogical' }),
+      expect.objectContaining({ schemaName: 'sales', tableName: 'orders', state: 'data', syncLsn: null }),
+    ]);
+    expect(state.tableSync.get('native')?.[0]).toMatchObject({
+      tableName: 'big',
+      state: 'ready',
+      stateCode: 'r',
+      syncLsn: '3/B400000',
+      workerPid: null,
+      source: 'native',
+    });
+    // Only tables still copying have a start time
+    expect(state.tableSyncStarts.has('replica:sub_orders:sales.orders')).toBe(true);
+    expect(state.tableSyncStarts.has('native:sub_native:public.big')).toBe(false);
+  });
+
+  test('restarts the apply worker on every apply error and honours disable_on_error', async () => {
+    const events = '  - at: 1m\n    type: apply_errors\n    subscription: sub_native\n    count: 3\n    over: 30s';
+    setCluster(scenario(withEvents(events)));
+    cluster.initialize();
+
+    clock = T0 + 50_000;
+    useStore.getState().handlePollingData(await pollOnce(cluster));
+    clock = T0 + 100_000;
+    const result = await pollOnce(cluster);
+    useStore.getState().handlePollingData(result);
+
+    expect(result.conflicts.find((node) => node.nodeId === 'native')?.data?.[0]?.applyErrorCount).toBe(3);
+    expect(useStore.getState().workerHistory.get('native:sub_native')?.events).toMatchObject([
+      { type: 'apply_error', count: 3 },
+      { type: 'worker_restart', previousPid: 20001, pid: 20301 },
+    ]);
+
+    await cluster.shutdown();
+    clock = T0;
+    setCluster(
+      scenario(
+        withEvents(events).replace(
+          '    provider: provider\n    tables:\n      - { name: public.big',
+          '    provider: provider\n    disable_on_error: true\n    tables:\n      - { name: public.big'
+        )
+      )
+    );
+    cluster.initialize();
+
+    clock = T0 + 50_000;
+    useStore.getState().handlePollingData(await pollOnce(cluster));
+    clock = T0 + 100_000;
+    useStore.getState().handlePollingData(await pollOnce(cluster));
+    const state = useStore.getState();
+
+    // The first error disables the subscription; its slot on the provider is released
+    expect(state.conflicts.get('native')?.[0]?.applyErrorCount).toBe(1);
+    expect(state.subscriptions.get('native')?.[0]).toMatchObject({
+      enabled: false,
+      disableOnError: true,
+      workerPid: null,
+    });
+    expect(state.slots.get('provider')?.find((slot) => slot.slotName === 'sub_native')?.active).toBe(false);
+    expect(state.workerHistory.get('native:sub_native')).toMatchObject({
+      autoDisabled: true,
+      events: [{ type: 'apply_error', count: 1 }, { type: 'auto_disabled' }],
+    });
+  });
+
+  test('reports lost slots, conflict history and native conflict counters', async () => {
+    cluster.initialize();
+    clock = T0 + 490_000;
+
+    const result = await pollOnce(cluster);
+    useStore.getState().handlePollingData(result);
+    const state = useStore.getState();
+
+    expect(state.slots.get('provider')?.find((slot) => slot.slotName === 'cdc')).toMatchObject({
+      walStatus: 'lost',
+      active: false,
+    });
+
+    const events = state.conflictEvents.get('replica') ?? [];
+    expect(state.conflictSources.get('replica')).toBe('history');
+    expect(events).toHaveLength(10);
+    expect(events[0]).toMatchObject({
+      id: 'replica:0-3-9',
+      subscriptionName: 'sub_orders',
+      conflictType: 'update_delete',
+      resolution: 'skip',
+      schemaName: 'sales',
+      tableName: 'orders',
+    });
+    expect(events[0]?.recordedAt.getTime()).toBe(T0 + 429_000);
+
+    const native = state.conflicts.get('native')?.[0];
+    expect(native?.subscriptionName).toBe('sub_native');
+  });
+});
+
+describe('buildDemoConfiguration', () => {
+  test('uses the scenario nodes and thresholds without side effects', () => {
+    const config = buildDemoConfiguration(scenario());
+
+    expect(Object.keys(config.nodes)).toEqual(['provider', 'replica', 'native']);
+    expect(config.nodes['replica']).toEqual({ host: 'pg-replica', port: 5432, database: 'shop', user: 'demo' });
+    expect(config.pglogical).toBe(true);
+    expect(config.thresholds.replicationLag.critical).toBe(60);
+    expect(config.alerts.sinks).toEqual([]);
+    expect(config.metrics.enabled).toBe(false);
+    expect(config.history.enabled).toBe(false);
+  });
+});
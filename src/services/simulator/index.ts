@@ -0,0 +1,334 @@
+/**
+ * Demo Simulator
+ *
+ * `--demo <scenario.yaml>` runs the TUI against a simulated cluster instead
+ * of real PostgreSQL nodes. SimulatedCluster stands in for ConnectionManager:
+ * the polling service runs its normal queries and gets synthetic
+ * pg_stat_replication, pg_replication_slots, subscription, table sync and
+ * conflict_history rows back, scripted by the scenario file.
+ *
+ * Features:
+ * - Lag ramps, slot state changes (e.g. going lost), node outages and
+ *   conflict bursts (see scenario.ts for the file format)
+ * - node:connected / node:disconnected / node:health events on outages
+ * - Injectable clock, so the same scenario always yields the same data
+ */
+
+import type {
+  ConnectionManagerEvents,
+  HealthStatus,
+  ManagedNode,
+} from '../connection-manager/index.js';
+import { TypedEventEmitter } from '../connection-manager/events.js';
+import {
+  DEFAULT_HISTORY,
+  DEFAULT_METRICS,
+  DEFAULT_THEME,
+} from '../../config/defaults.js';
+import type { Configuration } from '../../types/config.js';
+import { evaluateScenario } from './model.js';
+import { answerQuery } from './sql.js';
+import type { Scenario, ScenarioNode, SimulatedClusterOptions } from './types.js';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Default interval between outage transition checks */
+const DEFAULT_HEALTH_CHECK_INTERVAL_MS = 1000;
+
+/** User shown for simulated nodes */
+const DEMO_USER = 'demo';
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+/**
+ * Build the configuration a demo runs with: the scenario's nodes,
+ * thresholds, and alert settings, with every side effect disabled
+ * (no sinks, no metrics endpoint, no history writes).
+ */
+export function buildDemoConfiguration(scenario: Scenario): Configuration {
+  const nodes: Configuration['nodes'] = {};
+  for (const node of scenario.nodes) {
+    nodes[node.id] = { host: node.host, port: node.port, database: node.database, user: DEMO_USER };
+  }
+
+  return {
+    nodes,
+    theme: DEFAULT_THEME,
+    thresholds: scenario.thresholds,
+    alerts: { ...scenario.alerts, sinks: [] },
+    pglogical: scenario.nodes.some((node) => node.pglogical),
+    metrics: DEFAULT_METRICS,
+    history: DEFAULT_HISTORY,
+    source: 'file',
+  };
+}
+
+// =============================================================================
+// SimulatedCluster Class
+// =============================================================================
+
+/**
+ * Simulated replacement for ConnectionManager, driven by a scenario.
+ */
+export class SimulatedCluster {
+  readonly scenario: Scenario;
+  private readonly now: () => number;
+  private readonly healthCheckIntervalMs: number;
+  private readonly events = new TypedEventEmitter();
+  private readonly health = new Map<string, HealthStatus>();
+  private startedAt: number | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(scenario: Scenario, options: SimulatedClusterOptions = {}) {
+    this.scenario = scenario;
+    this.now = options.now ?? Date.now;
+    this.healthCheckIntervalMs = options.healthCheckIntervalMs ?? DEFAULT_HEALTH_CHECK_INTERVAL_MS;
+  }
+
+  // ===========================================================================
+  // Lifecycle
+  // ===========================================================================
+
+  /**
+   * Start the scenario clock and "connect" to every node.
+   * Emits node:connected (or node:disconnected for nodes that start in an
+   * outage), then re-checks outages on an interval.
+   */
+  initialize(): void {
+    if (this.startedAt !== null) {
+      throw new Error('SimulatedCluster is already running');
+    }
+
+    this.startedAt = this.now();
+    this.refreshHealth();
+    this.timer = setInterval(() => this.refreshHealth(), this.healthCheckIntervalMs);
+  }
+
+  /**
+   * Stop the scenario. Emits node:disconnected for every node.
+   */
+  async shutdown(): Promise<void> {
+    if (this.startedAt === null) {
+      return;
+    }
+
+    if (this.timer !== null) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.startedAt = null;
+
+    for (const node of this.scenario.nodes) {
+      this.events.emit('node:disconnected', { nodeId: node.id });
+    }
+    this.health.clear();
+  }
+
+  /**
+   * Check if the simulated cluster is running.
+   */
+  isRunning(): boolean {
+    return this.startedAt !== null;
+  }
+
+  /**
+   * Milliseconds since initialize() (0 when not running).
+   */
+  getElapsedMs(): number {
+    return this.startedAt === null ? 0 : this.now() - this.startedAt;
+  }
+
+  // ===========================================================================
+  // Nodes
+  // ===========================================================================
+
+  /**
+   * Get nodes that are not in an outage.
+   * Picks up outage transitions since the last interval check first.
+   */
+  getHealthyNodes(): ManagedNode[] {
+    this.refreshHealth();
+    return this.scenario.nodes.flatMap((node) => {
+      const health = this.health.get(node.id);
+      return health?.status === 'healthy' ? [this.toManagedNode(node, health)] : [];
+    });
+  }
+
+  /**
+   * Execute a query on a simulated node.
+   *
+   * @param nodeId - Node identifier
+   * @param queryText - SQL query string
+   * @param params - Query parameters
+   * @returns Synthetic result rows
+   * @throws Error if not running, the node is down, or the query is unknown
+   */
+  async query<T>(nodeId: string, queryText: string, params?: unknown[]): Promise<T[]> {
+    if (this.startedAt === null) {
+      throw new Error('SimulatedCluster is not running');
+    }
+
+    const elapsedMs = this.getElapsedMs();
+    const node = this.scenario.nodes.find((candidate) => candidate.id === nodeId);
+    if (!node) {
+      throw new Error(`Node "${nodeId}" not found`);
+    }
+    if (evaluateScenario(this.scenario, elapsedMs).downNodes.has(nodeId)) {
+      throw outageError(node);
+    }
+
+    const rows = answerQuery(
+      { scenario: this.scenario, startedAt: this.startedAt, elapsedMs },
+      nodeId,
+      queryText,
+      params
+    );
+    return rows as T[];
+  }
+
+  // ===========================================================================
+  // Events
+  // ===========================================================================
+
+  /**
+   * Subscribe to connection events.
+   */
+  on<K extends keyof ConnectionManagerEvents>(
+    event: K,
+    handler: (payload: ConnectionManagerEvents[K]) => void
+  ): void {
+    this.events.on(event, handler);
+  }
+
+  /**
+   * Unsubscribe from connection events.
+   */
+  off<K extends keyof ConnectionManagerEvents>(
+    event: K,
+    handler: (payload: ConnectionManagerEvents[K]) => void
+  ): void {
+    this.events.off(event, handler);
+  }
+
+  // ===========================================================================
+  // Private
+  // ===========================================================================
+
+  /**
+   * Emit connection events for nodes whose outage state changed.
+   */
+  private refreshHealth(): void {
+    if (this.startedAt === null) return;
+
+    const now = new Date(this.now());
+    const { downNodes } = evaluateScenario(this.scenario, this.getElapsedMs());
+
+    for (const node of this.scenario.nodes) {
+      const previous = this.health.get(node.id);
+      const down = downNodes.has(node.id);
+      if (previous !== undefined && (previous.status === 'unhealthy') === down) continue;
+
+      const status: HealthStatus = down
+        ? {
+            status: 'unhealthy',
+            lastCheckTime: now,
+            ...(previous?.lastSuccessTime !== undefined && { lastSuccessTime: previous.lastSuccessTime }),
+            consecutiveFailures: 1,
+            retryAttempt: 1,
+            lastError: outageError(node).message,
+          }
+        : {
+            status: 'healthy',
+            lastCheckTime: now,
+            lastSuccessTime: now,
+            consecutiveFailures: 0,
+            retryAttempt: 0,
+            latencyMs: 1,
+          };
+      this.health.set(node.id, status);
+
+      if (down) {
+        this.events.emit('node:disconnected', { nodeId: node.id, error: outageError(node) });
+      } else {
+        this.events.emit('node:connected', { nodeId: node.id });
+      }
+      this.events.emit('node:health', { nodeId: node.id, status });
+    }
+  }
+
+  private toManagedNode(node: ScenarioNode, health: HealthStatus): ManagedNode {
+    return {
+      id: node.id,
+      name: node.id,
+      config: { host: node.host, port: node.port, database: node.database, user: DEMO_USER },
+      health,
+    };
+  }
+}
+
+/**
+ * Error a simulated node fails with during an outage.
+ */
+function outageError(node: ScenarioNode): Error {
+  return new Error(`connect ECONNREFUSED ${node.host}:${node.port} (simulated outage)`);
+}
+
+// =============================================================================
+// Factory Functions
+// =============================================================================
+
+/**
+ * Create a new SimulatedCluster instance.
+ *
+ * @param scenario - Scenario to play
+ * @param options - Clock and health check interval
+ * @returns SimulatedCluster instance (call `initialize()` to start the scenario)
+ */
+export function createSimulatedCluster(
+  scenario: Scenario,
+  options: SimulatedClusterOptions = {}
+): SimulatedCluster {
+  return new SimulatedCluster(scenario, options);
+}
+
+// =============================================================================
+// Re-exports
+// =============================================================================
+
+export { loadScenario, parseScenario, ScenarioError, ScenarioFileSchema } from './scenario.js';
+export {
+  countConflicts,
+  countDecoding,
+  evaluateScenario,
+  formatLsn,
+  listConflicts,
+  scenarioPosition,
+  SLOT_RETAINED_SLACK_BYTES,
+  XIDS_PER_SECOND,
+} from './model.js';
+export { answerQuery } from './sql.js';
+export type { QueryContext } from './sql.js';
+export type {
+  ConflictsScenarioEvent,
+  LagScenarioEvent,
+  OutageScenarioEvent,
+  Scenario,
+  ScenarioEvent,
+  ScenarioNode,
+  ScenarioSlot,
+  ScenarioState,
+  ScenarioSubscription,
+  ScenarioTable,
+  SimulatedClusterOptions,
+  SimulatedConflict,
+  SimulatedDecodingStats,
+  SimulatedSlotState,
+  SimulatedTransaction,
+  SlotScenarioEvent,
+  SpillScenarioEvent,
+  TransactionScenarioEvent,
+} from './types.js';
@@ -0,0 +1,436 @@
+/**
+ * Scenario Model
+ *
+ * Pure functions that evaluate a scenario at a point in time. Everything the
+ * simulated cluster reports is derived from the elapsed time alone, so the
+ * same scenario and clock always produce the same rows.
+ */
+
+import type {
+  ConflictsScenarioEvent,
+  Scenario,
+  ScenarioSubscription,
+  SimulatedApplyErrors,
+  ScenarioState,
+  SimulatedConflict,
+  SimulatedDecodingStats,
+  SimulatedSlotState,
+  SimulatedTransaction,
+} from './types.js';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** WAL a subscription slot retains beyond its lag (restart_lsn trails confirmed_flush_lsn) */
+export const SLOT_RETAINED_SLACK_BYTES = 16 * 1024 * 1024;
+
+/** Starting WAL position of every simulated node */
+const BASE_WAL_BYTES = 0x3_0000_0000;
+
+/** Average size of a decoded transaction */
+const DECODED_TXN_BYTES = 64 * 1024;
+
+/** Transaction IDs consumed per second on every node */
+export const XIDS_PER_SECOND = 50;
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+interface Ramp {
+  atMs: number;
+  to: number;
+  overMs: number;
+}
+
+/**
+ * Value of a series that starts at `initial` and ramps linearly to each
+ * target in turn, starting from wherever the previous ramps left it.
+ */
+function rampValue(initial: number, ramps: Ramp[], tMs: number): number {
+  let value = initial;
+  for (const [index, ramp] of ramps.entries()) {
+    if (ramp.atMs > tMs) break;
+    const start = rampValue(initial, ramps.slice(0, index), ramp.atMs);
+    const progress = ramp.overMs > 0 ? Math.min(1, (tMs - ramp.atMs) / ramp.overMs) : 1;
+    value = start + (ramp.to - start) * progress;
+  }
+  return Math.round(value);
+}
+
+/**
+ * Split elapsed time into completed runs and the offset within the current run.
+ * Without loop the scenario holds its final state.
+ */
+export function scenarioPosition(
+  scenario: Scenario,
+  elapsedMs: number
+): { lap: number; offsetMs: number } {
+  const elapsed = Math.max(0, elapsedMs);
+  if (!scenario.loop) {
+    return { lap: 0, offsetMs: Math.min(elapsed, scenario.durationMs) };
+  }
+  return {
+    lap: Math.floor(elapsed / scenario.durationMs),
+    offsetMs: elapsed % scenario.durationMs,
+  };
+}
+
+/**
+ * Format a WAL byte position as an LSN ("3/1A2B3C").
+ */
+export function formatLsn(bytes: number): string {
+  const position = Math.max(0, Math.floor(bytes));
+  const high = Math.floor(position / 0x1_0000_0000);
+  const low = position % 0x1_0000_0000;
+  return `${high.toString(16).toUpperCase()}/${low.toString(16).toUpperCase()}`;
+}
+
+/**
+ * Current WAL position of every simulated node.
+ */
+export function currentWalBytes(scenario: Scenario, elapsedMs: number): number {
+  return BASE_WAL_BYTES + Math.floor((Math.max(0, elapsedMs) / 1000) * scenario.walRateBytes);
+}
+
+// =============================================================================
+// State
+// =============================================================================
+
+/**
+ * Evaluate node, lag, slot and open transaction state at a point in the scenario.
+ *
+ * @param scenario - Resolved scenario
+ * @param elapsedMs - Milliseconds since the scenario started
+ * @returns State at that time
+ */
+export function evaluateScenario(scenario: Scenario, elapsedMs: number): ScenarioState {
+  const { lap, offsetMs } = scenarioPosition(scenario, elapsedMs);
+  const started = scenario.events.filter((event) => event.atMs <= offsetMs);
+
+  const downNodes = new Set<string>();
+  for (const event of started) {
+    if (event.type === 'outage' && offsetMs < event.atMs + event.forMs) {
+      downNodes.add(event.node);
+    }
+  }
+
+  const lagBytes = new Map<string, number>();
+  for (const sub of scenario.subscriptions) {
+    const ramps = scenario.events.flatMap((event) =>
+      event.type === 'lag' && event.subscription === sub.name
+        ? [{ atMs: event.atMs, to: event.toBytes, overMs: event.overMs }]
+        : []
+    );
+    lagBytes.set(sub.name, rampValue(sub.lagBytes, ramps, offsetMs));
+  }
+
+  const runStartMs = lap * scenario.durationMs;
+  const nowMs = runStartMs + offsetMs;
+
+  // Oldest open transaction per node
+  const transactions = new Map<string, SimulatedTransaction>();
+  scenario.events.forEach((event, index) => {
+    if (event.type !== 'transaction') return;
+    if (offsetMs < event.atMs || offsetMs >= event.atMs + event.forMs) return;
+    const startedMs = runStartMs + event.atMs;
+    const oldest = transactions.get(event.node);
+    if (oldest && oldest.startedMs <= startedMs) return;
+    transactions.set(event.node, {
+      pid: 30000 + index,
+      node: event.node,
+      user: event.user,
+      application: event.application,
+      query: event.query,
+      startedMs,
+    });
+  });
+
+  const slots = new Map<string, SimulatedSlotState>();
+  const nodeVersion = new Map(scenario.nodes.map((node) => [node.id, node.version]));
+  const slotEvents = (name: string) =>
+    started.flatMap((event) => (event.type === 'slot' && event.slot === name ? [event] : []));
+  const latest = <T>(values: (T | undefined)[]): T | undefined =>
+    values.filter((value) => value !== undefined).pop();
+  // WAL written since an open transaction started (restart_lsn cannot pass it)
+  const heldBytes = (blocker: SimulatedTransaction | null): number =>
+    blocker ? Math.floor(((nowMs - blocker.startedMs) / 1000) * scenario.walRateBytes) : 0;
+  const catalogXminAge = (retainedBytes: number): number =>
+    Math.round((retainedBytes / scenario.walRateBytes) * XIDS_PER_SECOND);
+  // Latest event that released the slot (0: never active)
+  const releasedAt = (name: string, subscriber: string | null): number =>
+    Math.max(
+      0,
+      ...started.flatMap((event) => {
+        const releases = event.type === 'slot' && (event.active === false || event.walStatus === 'lost');
+        if (releases && event.slot === name) {
+          return [runStartMs + event.atMs];
+        }
+        if (event.type === 'outage' && event.node === subscriber && downNodes.has(event.node)) {
+          return [runStartMs + event.atMs];
+        }
+        return [];
+      })
+    );
+
+  for (const sub of scenario.subscriptions) {
+    const events = slotEvents(sub.slot);
+    const provider = scenario.nodes.find((node) => node.id === sub.provider);
+    const walStatus =
+      latest(events.map((event) => event.walStatus)) ??
+      ((nodeVersion.get(sub.provider) ?? 0) >= 130000 ? 'reserved' : null);
+    const lost = walStatus === 'lost';
+    const pending = lagBytes.get(sub.name) ?? 0;
+    // A subscription disabled by disable_on_error releases its slot
+    const disabledAtMs = countApplyErrors(scenario, sub, elapsedMs).disabledAtMs;
+    const disabled = disabledAtMs !== null;
+    const active =
+      (latest(events.map((event) => event.active)) ?? true) &&
+      !lost &&
+      !downNodes.has(sub.node) &&
+      !disabled;
+    const blocker = lost ? null : (transactions.get(sub.provider) ?? null);
+    // A lost slot's restart_lsn is gone
+    const retained = lost ? 0 : Math.max(pending + SLOT_RETAINED_SLACK_BYTES, heldBytes(blocker));
+
+    slots.set(sub.slot, {
+      name: sub.slot,
+      node: sub.provider,
+      plugin: provider?.pglogical ? 'pglogical_output' : 'pgoutput',
+      slotType: 'logical',
+      database: provider?.database ?? null,
+      active,
+      walStatus,
+      retainedBytes: retained,
+      pendingBytes: pending,
+      catalogXminAge: lost ? null : catalogXminAge(retained),
+      inactiveSinceMs: active
+        ? null
+        : Math.max(releasedAt(sub.slot, sub.node), disabled ? runStartMs + disabledAtMs : 0),
+      blocker,
+      subscription: sub.name,
+    });
+  }
+
+  for (const slot of scenario.slots) {
+    const events = slotEvents(slot.name);
+    const ramps = scenario.events.flatMap((event) =>
+      event.type === 'slot' && event.slot === slot.name && event.retainedBytes !== undefined
+        ? [{ atMs: event.atMs, to: event.retainedBytes, overMs: event.overMs }]
+        : []
+    );
+    const walStatus =
+      latest(events.map((event) => event.walStatus)) ??
+      slot.walStatus ??
+      ((nodeVersion.get(slot.node) ?? 0) >= 130000 ? 'reserved' : null);
+    const lost = walStatus === 'lost';
+    const logical = slot.slotType === 'logical';
+    const ramped = lost ? 0 : rampValue(slot.retainedBytes, ramps, offsetMs);
+    const blocker = logical && !lost ? (transactions.get(slot.node) ?? null) : null;
+    const retained = Math.max(ramped, heldBytes(blocker));
+    const active = (latest(events.map((event) => event.active)) ?? slot.active) && !lost;
+
+    slots.set(slot.name, {
+      name: slot.name,
+      node: slot.node,
+      plugin: slot.plugin,
+      slotType: slot.slotType,
+      database: slot.database,
+      active,
+      walStatus,
+      retainedBytes: retained,
+      pendingBytes: ramped,
+      catalogXminAge: logical && !lost ? catalogXminAge(retained) : null,
+      inactiveSinceMs: active ? null : releasedAt(slot.name, null),
+      blocker,
+      subscription: null,
+    });
+  }
+
+  return { lap, offsetMs, downNodes, lagBytes, slots, transactions };
+}
+
+// =============================================================================
+// Conflicts
+// =============================================================================
+
+/** Offset of the i-th conflict of a burst within a run */
+function conflictOffsetMs(event: ConflictsScenarioEvent, sequence: number): number {
+  return event.atMs + Math.floor((event.overMs * sequence) / event.count);
+}
+
+/** Conflicts (or apply errors) of a burst that have happened by offsetMs within a run */
+function conflictsSoFar(
+  event: Pick<ConflictsScenarioEvent, 'atMs' | 'overMs' | 'count'>,
+  offsetMs: number
+): number {
+  if (offsetMs < event.atMs) return 0;
+  if (event.overMs === 0) return event.count;
+  return Math.min(event.count, Math.floor(((offsetMs - event.atMs) * event.count) / event.overMs) + 1);
+}
+
+/**
+ * Conflicts recorded on a node between elapsed times, newest first.
+ *
+ * @param scenario - Resolved scenario
+ * @param node - Node that recorded the conflicts
+ * @param elapsedMs - Current time (ms since start)
+ * @param windowMs - How far back to look
+ * @param limit - Maximum number of conflicts returned
+ */
+export function listConflicts(
+  scenario: Scenario,
+  node: string,
+  elapsedMs: number,
+  windowMs: number,
+  limit: number
+): SimulatedConflict[] {
+  const subscriptions = new Set(
+    scenario.subscriptions.filter((sub) => sub.node === node).map((sub) => sub.name)
+  );
+  const bursts = scenario.events
+    .map((event, index) => ({ event, index }))
+    .filter(
+      (entry): entry is { event: ConflictsScenarioEvent; index: number } =>
+        entry.event.type === 'conflicts' && subscriptions.has(entry.event.subscription)
+    );
+  if (bursts.length === 0) return [];
+
+  const { lap } = scenarioPosition(scenario, elapsedMs);
+  const oldest = elapsedMs - windowMs;
+  const conflicts: SimulatedConflict[] = [];
+
+  for (let run = lap; run >= 0 && conflicts.length < limit; run--) {
+    const runStart = run * scenario.durationMs;
+    if (runStart + scenario.durationMs < oldest) break;
+
+    const runConflicts: SimulatedConflict[] = [];
+    for (const { event, index } of bursts) {
+      for (let sequence = 0; sequence < event.count; sequence++) {
+        const at = runStart + conflictOffsetMs(event, sequence);
+        if (at > elapsedMs || at < oldest) continue;
+        runConflicts.push({
+          id: `${run}-${index}-${sequence}`,
+          node,
+          subscription: event.subscription,
+          elapsedMs: at,
+          conflictType: event.conflictType,
+          resolution: event.resolution,
+          schemaName: event.schemaName,
+          tableName: event.tableName,
+          sequence,
+        });
+      }
+    }
+    runConflicts.sort((a, b) => b.elapsedMs - a.elapsedMs || b.id.localeCompare(a.id));
+    conflicts.push(...runConflicts);
+  }
+
+  return conflicts.slice(0, limit);
+}
+
+/**
+ * Total conflicts per subscription and type since the scenario started.
+ *
+ * @returns Map of subscription name to counts by conflict type
+ */
+export function countConflicts(
+  scenario: Scenario,
+  elapsedMs: number
+): Map<string, Map<ConflictsScenarioEvent['conflictType'], number>> {
+  const { lap, offsetMs } = scenarioPosition(scenario, elapsedMs);
+  const counts = new Map<string, Map<ConflictsScenarioEvent['conflictType'], number>>();
+
+  for (const event of scenario.events) {
+    if (event.type !== 'conflicts') continue;
+    const byType = counts.get(event.subscription) ?? new Map();
+    const total = lap * event.count + conflictsSoFar(event, offsetMs);
+    byType.set(event.conflictType, (byType.get(event.conflictType) ?? 0) + total);
+    counts.set(event.subscription, byType);
+  }
+
+  return counts;
+}
+
+// =============================================================================
+// Apply Errors
+// =============================================================================
+
+/**
+ * Apply errors of a subscription since the scenario started. With
+ * disable_on_error the first error of a run disables the subscription, so
+ * no further errors happen until the next run.
+ *
+ * @param scenario - Resolved scenario
+ * @param subscription - Subscription
+ * @param elapsedMs - Milliseconds since the scenario started
+ */
+export function countApplyErrors(
+  scenario: Scenario,
+  subscription: ScenarioSubscription,
+  elapsedMs: number
+): SimulatedApplyErrors {
+  const { lap, offsetMs } = scenarioPosition(scenario, elapsedMs);
+  let perRun = 0;
+  let thisRun = 0;
+  let firstAtMs: number | null = null;
+
+  for (const event of scenario.events) {
+    if (event.type !== 'apply_errors' || event.subscription !== subscription.name) continue;
+    perRun += event.count;
+    const soFar = conflictsSoFar(event, offsetMs);
+    thisRun += soFar;
+    if (soFar > 0 && (firstAtMs === null || event.atMs < firstAtMs)) {
+      firstAtMs = event.atMs;
+    }
+  }
+
+  if (!subscription.disableOnError) {
+    return { count: lap * perRun + thisRun, disabledAtMs: null };
+  }
+  return {
+    count: lap * Math.min(1, perRun) + Math.min(1, thisRun),
+    disabledAtMs: firstAtMs,
+  };
+}
+
+// =============================================================================
+// Decoding Statistics
+// =============================================================================
+
+/**
+ * Cumulative pg_stat_replication_slots counters of a logical slot.
+ * Every slot decodes all WAL generated so far; spill events add to the
+ * spill counters while they last.
+ *
+ * @param scenario - Resolved scenario
+ * @param slot - Slot name
+ * @param elapsedMs - Milliseconds since the scenario started
+ */
+export function countDecoding(
+  scenario: Scenario,
+  slot: string,
+  elapsedMs: number
+): SimulatedDecodingStats {
+  const { lap, offsetMs } = scenarioPosition(scenario, elapsedMs);
+  let spillTxns = 0;
+  let spillBytes = 0;
+
+  for (const event of scenario.events) {
+    if (event.type !== 'spill' || event.slot !== slot) continue;
+    const perRun = (event.bytesPerSec * event.forMs) / 1000;
+    const thisRun = (event.bytesPerSec * Math.min(Math.max(0, offsetMs - event.atMs), event.forMs)) / 1000;
+    const bytes = Math.floor(lap * perRun + thisRun);
+    spillBytes += bytes;
+    spillTxns += Math.floor(bytes / event.txnBytes);
+  }
+
+  const totalBytes = currentWalBytes(scenario, elapsedMs) - BASE_WAL_BYTES;
+  return {
+    spillTxns,
+    spillBytes,
+    totalTxns: Math.floor(totalBytes / DECODED_TXN_BYTES),
+    totalBytes,
+  };
+}
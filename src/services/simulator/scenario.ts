@@ -0,0 +1,557 @@
+/**
+ * Scenario Files
+ *
+ * Parses and validates the YAML scripts that drive the demo simulator.
+ * Durations accept "30s"/"5m"/"1h" (or seconds) and sizes accept
+ * "64kB"/"2GB" (or bytes), like threshold values in the config file.
+ */
+
+import { readFileSync } from 'fs';
+import { parse as parseYAML } from 'yaml';
+import { z } from 'zod';
+import { YAMLAlertsConfigSchema, YAMLThresholdConfigSchema } from '../../config/schemas.js';
+import {
+  parseByteSize,
+  parseTimeDuration,
+  resolveAlertsConfig,
+  resolveThresholds,
+} from '../../config/thresholds.js';
+import { InvalidThresholdError } from '../../types/errors.js';
+import type { YAMLAlertsConfig, YAMLThresholdConfig } from '../../types/yaml-config.js';
+import type {
+  Scenario,
+  ScenarioEvent,
+  ScenarioNode,
+  ScenarioSlot,
+  ScenarioSubscription,
+  ScenarioTable,
+} from './types.js';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Reported server_version_num when a node doesn't set one */
+const DEFAULT_VERSION = 170000;
+
+/** WAL generated per second when the scenario doesn't set wal_rate */
+const DEFAULT_WAL_RATE_BYTES = 1024 * 1024;
+
+/** Time added after the last event when the scenario doesn't set duration */
+const DEFAULT_TAIL_MS = 60_000;
+
+// =============================================================================
+// Errors
+// =============================================================================
+
+/**
+ * Error for unreadable or invalid scenario files.
+ */
+export class ScenarioError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ScenarioError';
+  }
+}
+
+// =============================================================================
+// Schema
+// =============================================================================
+
+const DurationSchema = z.union([z.number(), z.string()]);
+const SizeSchema = z.union([z.number(), z.string()]);
+const WalStatusSchema = z.enum(['reserved', 'extended', 'unreserved', 'lost']);
+
+const NodeSchema = z.object({
+  host: z.string().min(1),
+  port: z.number().int().min(1).max(65535).default(5432),
+  database: z.string().min(1).default('app'),
+  pglogical: z.boolean().default(false),
+  version: z.number().int().min(90400).default(DEFAULT_VERSION),
+  conflict_history: z.boolean().default(true),
+  wal_level: z.enum(['minimal', 'replica', 'logical']).default('logical'),
+  max_replication_slots: z.number().int().min(0).default(10),
+  max_wal_senders: z.number().int().min(0).default(10),
+  track_commit_timestamp: z.boolean().default(true),
+  max_slot_wal_keep_size: SizeSchema.optional(),
+  upstream: z.string().min(1).optional(),
+  replay_lag: SizeSchema.default(0),
+});
+
+const SubscriptionSchema = z.object({
+  name: z.string().min(1),
+  node: z.string().min(1),
+  provider: z.string().min(1),
+  slot: z.string().min(1).optional(),
+  sets: z.array(z.string()).default(['default']),
+  lag: SizeSchema.default(0),
+  tables: z
+    .array(
+      z.union([
+        z.string().min(1),
+        z.object({
+          name: z.string().min(1),
+          copy: DurationSchema.default(0),
+          primary_key: z.boolean().default(true),
+        }),
+      ])
+    )
+    .default([]),
+  disable_on_error: z.boolean().default(false),
+});
+
+const SlotSchema = z.object({
+  name: z.string().min(1),
+  node: z.string().min(1),
+  plugin: z.string().nullable().optional(),
+  type: z.enum(['logical', 'physical']).default('logical'),
+  active: z.boolean().default(true),
+  wal_status: WalStatusSchema.optional(),
+  retained: SizeSchema.default(0),
+});
+
+const EventSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('lag'),
+    at: DurationSchema,
+    subscription: z.string(),
+    to: SizeSchema,
+    over: DurationSchema.default(0),
+  }),
+  z.object({
+    type: z.literal('slot'),
+    at: DurationSchema,
+    slot: z.string(),
+    active: z.boolean().optional(),
+    wal_status: WalStatusSchema.optional(),
+    retained: SizeSchema.optional(),
+    over: DurationSchema.default(0),
+  }),
+  z.object({
+    type: z.literal('outage'),
+    at: DurationSchema,
+    node: z.string(),
+    for: DurationSchema,
+  }),
+  z.object({
+    type: z.literal('conflicts'),
+    at: DurationSchema,
+    subscription: z.string(),
+    count: z.number().int().min(1),
+    over: DurationSchema.default(0),
+    conflict_type: z
+      .enum(['insert_insert', 'update_update', 'update_delete', 'delete_delete'])
+      .default('update_update'),
+    resolution: z.enum(['apply_remote', 'keep_local', 'skip']).default('apply_remote'),
+    table: z.string().min(1).default('public.orders'),
+  }),
+  z.object({
+    type: z.literal('apply_errors'),
+    at: DurationSchema,
+    subscription: z.string(),
+    count: z.number().int().min(1),
+    over: DurationSchema.default(0),
+  }),
+  z.object({
+    type: z.literal('spill'),
+    at: DurationSchema,
+    slot: z.string(),
+    rate: SizeSchema,
+    for: DurationSchema,
+    txn_size: SizeSchema.default('16MB'),
+  }),
+  z.object({
+    type: z.literal('transaction'),
+    at: DurationSchema,
+    node: z.string(),
+    for: DurationSchema,
+    user: z.string().min(1).default('app'),
+    application: z.string().default('psql'),
+    query: z.string().default('UPDATE orders SET status = status'),
+  }),
+]);
+
+/**
+ * Schema for a scenario file.
+ * thresholds uses the config file format; alerts takes for/hysteresis only.
+ */
+export const ScenarioFileSchema = z.object({
+  name: z.string().min(1),
+  description: z.string().optional(),
+  duration: DurationSchema.optional(),
+  loop: z.boolean().default(true),
+  wal_rate: SizeSchema.optional(),
+  nodes: z.record(z.string(), NodeSchema).refine((nodes) => Object.keys(nodes).length > 0, {
+    message: 'At least one node is required',
+  }),
+  subscriptions: z.array(SubscriptionSchema).default([]),
+  slots: z.array(SlotSchema).default([]),
+  events: z.array(EventSchema).default([]),
+  thresholds: YAMLThresholdConfigSchema.optional(),
+  alerts: YAMLAlertsConfigSchema.omit({ sinks: true }).optional(),
+});
+
+type ScenarioFile = z.infer<typeof ScenarioFileSchema>;
+
+// =============================================================================
+// Resolution
+// =============================================================================
+
+function toMs(value: string | number, field: string): number {
+  return parseTimeDuration(value, field) * 1000;
+}
+
+/**
+ * Default slot name, matching what pglogical and native subscriptions create.
+ */
+function defaultSlotName(
+  subscription: string,
+  provider: ScenarioNode | undefined,
+  subscriber: ScenarioNode | undefined
+): string {
+  if (subscriber?.pglogical && provider) {
+    return `pgl_${provider.database}_${provider.id}_${subscription}`;
+  }
+  return subscription;
+}
+
+/**
+ * Split "schema.table" (schema defaults to public).
+ */
+function splitTableName(name: string): { schemaName: string; tableName: string } {
+  const dot = name.indexOf('.');
+  return dot > 0
+    ? { schemaName: name.slice(0, dot), tableName: name.slice(dot + 1) }
+    : { schemaName: 'public', tableName: name };
+}
+
+function resolveTable(
+  table: ScenarioFile['subscriptions'][number]['tables'][number],
+  field: string
+): ScenarioTable {
+  if (typeof table === 'string') {
+    return { ...splitTableName(table), copyMs: 0, primaryKey: true };
+  }
+  return {
+    ...splitTableName(table.name),
+    copyMs: toMs(table.copy, `${field}.copy`),
+    primaryKey: table.primary_key,
+  };
+}
+
+function resolveEvent(
+  event: ScenarioFile['events'][number],
+  index: number
+): ScenarioEvent {
+  const field = `events[${index}]`;
+  const atMs = toMs(event.at, `${field}.at`);
+
+  switch (event.type) {
+    case 'lag':
+      return {
+        type: 'lag',
+        atMs,
+        subscription: event.subscription,
+        toBytes: parseByteSize(event.to, `${field}.to`),
+        overMs: toMs(event.over, `${field}.over`),
+      };
+    case 'slot':
+      return {
+        type: 'slot',
+        atMs,
+        slot: event.slot,
+        ...(event.active !== undefined && { active: event.active }),
+        ...(event.wal_status !== undefined && { walStatus: event.wal_status }),
+        ...(event.retained !== undefined && {
+          retainedBytes: parseByteSize(event.retained, `${field}.retained`),
+        }),
+        overMs: toMs(event.over, `${field}.over`),
+      };
+    case 'outage':
+      return { type: 'outage', atMs, node: event.node, forMs: toMs(event.for, `${field}.for`) };
+    case 'conflicts':
+      return {
+        type: 'conflicts',
+        atMs,
+        subscription: event.subscription,
+        count: event.count,
+        overMs: toMs(event.over, `${field}.over`),
+        conflictType: event.conflict_type,
+        resolution: event.resolution,
+        ...splitTableName(event.table),
+      };
+    case 'apply_errors':
+      return {
+        type: 'apply_errors',
+        atMs,
+        subscription: event.subscription,
+        count: event.count,
+        overMs: toMs(event.over, `${field}.over`),
+      };
+    case 'spill':
+      return {
+        type: 'spill',
+        atMs,
+        slot: event.slot,
+        bytesPerSec: parseByteSize(event.rate, `${field}.rate`),
+        forMs: toMs(event.for, `${field}.for`),
+        txnBytes: parseByteSize(event.txn_size, `${field}.txn_size`),
+      };
+    case 'transaction':
+      return {
+        type: 'transaction',
+        atMs,
+        node: event.node,
+        forMs: toMs(event.for, `${field}.for`),
+        user: event.user,
+        application: event.application,
+        query: event.query,
+      };
+  }
+}
+
+/** When an event stops changing anything */
+function eventEndMs(event: ScenarioEvent): number {
+  return event.type === 'outage' || event.type === 'spill' || event.type === 'transaction'
+    ? event.atMs + event.forMs
+    : event.atMs + event.overMs;
+}
+
+/**
+ * Check that every name an entry refers to is defined.
+ */
+function validateReferences(scenario: Omit<Scenario, 'file'>): void {
+  const nodeIds = new Set(scenario.nodes.map((node) => node.id));
+  const subscriptionSlots = new Set(scenario.subscriptions.map((sub) => sub.slot));
+  const slotNames = new Set([...subscriptionSlots, ...scenario.slots.map((slot) => slot.name)]);
+  const subscriptionNames = new Set<string>();
+
+  for (const node of scenario.nodes) {
+    if (node.upstream === null) continue;
+    if (node.upstream === node.id) {
+      throw new ScenarioError(`Node "${node.id}" cannot stream from itself`);
+    }
+    if (!nodeIds.has(node.upstream) && !node.upstream.includes(':')) {
+      throw new ScenarioError(
+        `Node "${node.id}" references unknown upstream "${node.upstream}" (use host:port for a server outside the scenario)`
+      );
+    }
+  }
+
+  for (const sub of scenario.subscriptions) {
+    if (subscriptionNames.has(sub.name)) {
+      throw new ScenarioError(`Duplicate subscription "${sub.name}"`);
+    }
+    subscriptionNames.add(sub.name);
+    for (const nodeId of [sub.node, sub.provider]) {
+      if (!nodeIds.has(nodeId)) {
+        throw new ScenarioError(`Subscription "${sub.name}" references unknown node "${nodeId}"`);
+      }
+    }
+    if (sub.node === sub.provider) {
+      throw new ScenarioError(`Subscription "${sub.name}" cannot subscribe to its own node`);
+    }
+    if (scenario.nodes.some((node) => node.id === sub.node && node.upstream !== null)) {
+      throw new ScenarioError(`Subscription "${sub.name}": node "${sub.node}" is a read-only standby`);
+    }
+    const tables = new Set<string>();
+    for (const table of sub.tables) {
+      const name = `${table.schemaName}.${table.tableName}`;
+      if (tables.has(name)) {
+        throw new ScenarioError(`Subscription "${sub.name}" lists table "${name}" twice`);
+      }
+      tables.add(name);
+    }
+    if (sub.disableOnError && scenario.nodes.some((node) => node.id === sub.node && node.pglogical)) {
+      throw new ScenarioError(`Subscription "${sub.name}": disable_on_error is native only`);
+    }
+  }
+
+  for (const slot of scenario.slots) {
+    if (!nodeIds.has(slot.node)) {
+      throw new ScenarioError(`Slot "${slot.name}" references unknown node "${slot.node}"`);
+    }
+    if (subscriptionSlots.has(slot.name)) {
+      throw new ScenarioError(`Slot "${slot.name}" is already used by a subscription`);
+    }
+  }
+
+  scenario.events.forEach((event, index) => {
+    const where = `events[${index}]`;
+    if (
+      (event.type === 'lag' || event.type === 'conflicts' || event.type === 'apply_errors') &&
+      !subscriptionNames.has(event.subscription)
+    ) {
+      throw new ScenarioError(`${where} references unknown subscription "${event.subscription}"`);
+    }
+    if (event.type === 'apply_errors') {
+      const sub = scenario.subscriptions.find((candidate) => candidate.name === event.subscription);
+      if (scenario.nodes.some((node) => node.id === sub?.node && node.pglogical)) {
+        throw new ScenarioError(
+          `${where}: apply error counters are native only; "${event.subscription}" is a pglogical subscription`
+        );
+      }
+    }
+    if ((event.type === 'outage' || event.type === 'transaction') && !nodeIds.has(event.node)) {
+      throw new ScenarioError(`${where} references unknown node "${event.node}"`);
+    }
+    if (event.type === 'slot') {
+      if (!slotNames.has(event.slot)) {
+        throw new ScenarioError(`${where} references unknown slot "${event.slot}"`);
+      }
+      if (event.retainedBytes !== undefined && subscriptionSlots.has(event.slot)) {
+        throw new ScenarioError(
+          `${where}: subscription slots retain their lag; use a lag event for "${event.slot}"`
+        );
+      }
+    }
+    if (event.type === 'spill') {
+      if (!slotNames.has(event.slot)) {
+        throw new ScenarioError(`${where} references unknown slot "${event.slot}"`);
+      }
+      if (scenario.slots.some((slot) => slot.name === event.slot && slot.slotType !== 'logical')) {
+        throw new ScenarioError(`${where}: only logical slots spill; "${event.slot}" is physical`);
+      }
+      if (event.txnBytes <= 0) {
+        throw new ScenarioError(`${where}: txn_size must be greater than 0`);
+      }
+    }
+  });
+}
+
+function resolveScenario(raw: ScenarioFile, file: string): Scenario {
+  const nodes: ScenarioNode[] = Object.entries(raw.nodes).map(([id, node]) => ({
+    id,
+    host: node.host,
+    port: node.port,
+    database: node.database,
+    pglogical: node.pglogical,
+    version: node.version,
+    conflictHistory: node.pglogical && node.conflict_history,
+    walLevel: node.wal_level,
+    maxReplicationSlots: node.max_replication_slots,
+    maxWalSenders: node.max_wal_senders,
+    trackCommitTimestamp: node.track_commit_timestamp,
+    maxSlotWalKeepSizeBytes:
+      node.max_slot_wal_keep_size === undefined
+        ? null
+        : parseByteSize(node.max_slot_wal_keep_size, `nodes.${id}.max_slot_wal_keep_size`),
+    upstream: node.upstream ?? null,
+    replayLagBytes: parseByteSize(node.replay_lag, `nodes.${id}.replay_lag`),
+  }));
+  const nodesById = new Map(nodes.map((node) => [node.id, node]));
+
+  const subscriptions: ScenarioSubscription[] = raw.subscriptions.map((sub, index) => ({
+    name: sub.name,
+    node: sub.node,
+    provider: sub.provider,
+    slot: sub.slot ?? defaultSlotName(sub.name, nodesById.get(sub.provider), nodesById.get(sub.node)),
+    sets: sub.sets,
+    lagBytes: parseByteSize(sub.lag, `subscriptions[${index}].lag`),
+    tables: sub.tables.map((table, tableIndex) =>
+      resolveTable(table, `subscriptions[${index}].tables[${tableIndex}]`)
+    ),
+    disableOnError: sub.disable_on_error,
+  }));
+
+  const slots: ScenarioSlot[] = raw.slots.map((slot, index) => {
+    const node = nodesById.get(slot.node);
+    const logical = slot.type === 'logical';
+    return {
+      name: slot.name,
+      node: slot.node,
+      plugin: slot.plugin !== undefined ? slot.plugin : logical ? 'pgoutput' : null,
+      slotType: slot.type,
+      database: logical ? (node?.database ?? null) : null,
+      active: slot.active,
+      walStatus: slot.wal_status ?? null,
+      retainedBytes: parseByteSize(slot.retained, `slots[${index}].retained`),
+    };
+  });
+
+  const events = raw.events
+    .map((event, index) => resolveEvent(event, index))
+    .sort((a, b) => a.atMs - b.atMs);
+
+  const durationMs =
+    raw.duration !== undefined
+      ? toMs(raw.duration, 'duration')
+      : Math.max(0, ...events.map(eventEndMs)) + DEFAULT_TAIL_MS;
+  if (durationMs <= 0) {
+    throw new ScenarioError('duration must be greater than zero');
+  }
+
+  const scenario = {
+    name: raw.name,
+    description: raw.description ?? null,
+    durationMs,
+    loop: raw.loop,
+    walRateBytes:
+      raw.wal_rate !== undefined ? parseByteSize(raw.wal_rate, 'wal_rate') : DEFAULT_WAL_RATE_BYTES,
+    nodes,
+    subscriptions,
+    slots,
+    events,
+    // Schema-validated, so the YAML config shapes apply
+    thresholds: resolveThresholds(raw.thresholds as YAMLThresholdConfig | undefined),
+    alerts: { ...resolveAlertsConfig(raw.alerts as YAMLAlertsConfig | undefined), sinks: [] },
+  };
+  validateReferences(scenario);
+
+  return { file, ...scenario };
+}
+
+// =============================================================================
+// Loading
+// =============================================================================
+
+/**
+ * Parse scenario YAML.
+ *
+ * @param text - Scenario file contents
+ * @param file - File name (for the scenario and error messages)
+ * @returns Resolved scenario with events sorted by time
+ * @throws ScenarioError if the YAML or any value is invalid
+ */
+export function parseScenario(text: string, file: string): Scenario {
+  let parsed: unknown;
+  try {
+    parsed = parseYAML(text);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    throw new ScenarioError(`${file}: invalid YAML: ${message}`);
+  }
+
+  const result = ScenarioFileSchema.safeParse(parsed ?? {});
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const path = issue?.path.join('.') ?? '';
+    throw new ScenarioError(`${file}: ${path ? `${path}: ` : ''}${issue?.message ?? 'invalid scenario'}`);
+  }
+
+  try {
+    return resolveScenario(result.data, file);
+  } catch (err) {
+    if (err instanceof InvalidThresholdError) {
+      throw new ScenarioError(`${file}: invalid value for ${err.field}: ${err.value}`);
+    }
+    throw new ScenarioError(`${file}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
+/**
+ * Read and parse a scenario file.
+ *
+ * @param file - Path to the scenario YAML
+ * @returns Resolved scenario
+ * @throws ScenarioError if the file can't be read or is invalid
+ */
+export function loadScenario(file: string): Scenario {
+  let text: string;
+  try {
+    text = readFileSync(file, 'utf-8');
+  } catch (err) {
+    throw new ScenarioError(`Cannot read scenario: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  return parseScenario(text, file);
+}
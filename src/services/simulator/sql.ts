@@ -0,0 +1,674 @@
+/**
+ * Simulated Query Results
+ *
+ * Answers the polling service's catalog queries with rows shaped exactly like
+ * PostgreSQL would return them (bigints as strings, LSNs as text), derived
+ * from the scenario state. Queries are recognized by the relation or function
+ * they read from; anything else is rejected like an unknown relation would be.
+ */
+
+import {
+  countApplyErrors,
+  countConflicts,
+  countDecoding,
+  currentWalBytes,
+  evaluateScenario,
+  formatLsn,
+  listConflicts,
+  XIDS_PER_SECOND,
+} from './model.js';
+import type { ConflictType } from '../../types/conflicts.js';
+import type { Scenario, ScenarioNode, ScenarioState, ScenarioTable } from './types.js';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** The slots query only reports transactions open at least this long */
+const BLOCKER_MIN_MS = 60 * 1000;
+
+/** pglogical conflict_history rows are only read for the last 24 hours */
+const CONFLICT_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+/** First version with pg_subscription.subdisableonerr */
+const DISABLE_ON_ERROR_VERSION = 150000;
+
+/** WAL written per row a table's sequence hands out */
+const SEQUENCE_ROW_BYTES = 8192;
+
+/** pglogical synchronizes sequences this often, this far ahead of the provider */
+const PGLOGICAL_SEQUENCE_SYNC_MS = 60 * 1000;
+const PGLOGICAL_SEQUENCE_MARGIN = 1000;
+
+/** Native conflict counter column for each conflict type */
+const NATIVE_CONFLICT_COLUMNS: Record<ConflictType, string> = {
+  insert_insert: 'insert_conflicts',
+  update_update: 'update_origin_differs',
+  update_delete: 'update_missing',
+  delete_delete: 'delete_missing',
+};
+
+// =============================================================================
+// Context
+// =============================================================================
+
+/**
+ * Everything needed to answer one query.
+ */
+export interface QueryContext {
+  scenario: Scenario;
+  /** Wall-clock time the scenario started (ms since epoch) */
+  startedAt: number;
+  /** Milliseconds since the scenario started */
+  elapsedMs: number;
+}
+
+type Row = Record<string, unknown>;
+
+interface Evaluated extends QueryContext {
+  node: ScenarioNode;
+  state: ScenarioState;
+  currentWal: number;
+  now: Date;
+}
+
+/** Simulated backend pid for a subscription's apply worker (each apply error restarts it) */
+function workerPid(ctx: Evaluated, subscription: string): number {
+  const index = ctx.scenario.subscriptions.findIndex((sub) => sub.name === subscription);
+  const sub = ctx.scenario.subscriptions[index];
+  const restarts = sub ? countApplyErrors(ctx.scenario, sub, ctx.elapsedMs).count : 0;
+  return 20000 + index + 100 * restarts;
+}
+
+/** Whether a subscription's apply worker is running */
+function isStreaming(ctx: Evaluated, subscription: string): boolean {
+  const sub = ctx.scenario.subscriptions.find((candidate) => candidate.name === subscription);
+  if (!sub) return false;
+  const slot = ctx.state.slots.get(sub.slot);
+  return (
+    !ctx.state.downNodes.has(sub.provider) &&
+    !ctx.state.downNodes.has(sub.node) &&
+    slot !== undefined &&
+    slot.active
+  );
+}
+
+/**
+ * Host and port a standby streams from, or null if it isn't a standby.
+ */
+function upstreamAddress(ctx: Evaluated, node: ScenarioNode): { host: string; port: number } | null {
+  if (node.upstream === null) return null;
+  const upstream = ctx.scenario.nodes.find((candidate) => candidate.id === node.upstream);
+  if (upstream) return { host: upstream.host, port: upstream.port };
+  const colon = node.upstream.lastIndexOf(':');
+  return { host: node.upstream.slice(0, colon), port: Number(node.upstream.slice(colon + 1)) };
+}
+
+/**
+ * When the outage of a standby's upstream started (ms since the scenario
+ * started), or null while it streams. Upstreams outside the scenario never fail.
+ */
+function upstreamDownSinceMs(ctx: Evaluated, node: ScenarioNode): number | null {
+  if (node.upstream === null || !ctx.state.downNodes.has(node.upstream)) return null;
+  const runStartMs = ctx.elapsedMs - ctx.state.offsetMs;
+  const outages = ctx.scenario.events.flatMap((event) =>
+    event.type === 'outage' &&
+    event.node === node.upstream &&
+    event.atMs <= ctx.state.offsetMs &&
+    ctx.state.offsetMs < event.atMs + event.forMs
+      ? [runStartMs + event.atMs]
+      : []
+  );
+  return Math.min(...outages);
+}
+
+// =============================================================================
+// Row Builders
+// =============================================================================
+
+function subscriptionReplicationRows(ctx: Evaluated): Row[] {
+  return ctx.scenario.subscriptions
+    .filter((sub) => sub.provider === ctx.node.id && isStreaming(ctx, sub.name))
+    .map((sub) => {
+      const lag = ctx.state.lagBytes.get(sub.name) ?? 0;
+      const subscriber = ctx.scenario.nodes.find((node) => node.id === sub.node);
+      const replayLsn = formatLsn(ctx.currentWal - lag);
+      return {
+        application_name: sub.slot,
+        client_addr: subscriber?.host ?? null,
+        state: 'streaming',
+        lag_bytes: String(lag),
+        lag_seconds: (lag / ctx.scenario.walRateBytes).toFixed(3),
+        sync_state: 'async',
+        sent_lsn: formatLsn(ctx.currentWal),
+        write_lsn: replayLsn,
+        flush_lsn: replayLsn,
+        replay_lsn: replayLsn,
+      };
+    });
+}
+
+/** Standbys streaming from this node, as pg_stat_replication rows */
+function standbyReplicationRows(ctx: Evaluated): Row[] {
+  return ctx.scenario.nodes
+    .filter((node) => node.upstream === ctx.node.id && !ctx.state.downNodes.has(node.id))
+    .map((node) => {
+      const replayLsn = formatLsn(ctx.currentWal - node.replayLagBytes);
+      return {
+        application_name: node.id,
+        client_addr: node.host,
+        state: 'streaming',
+        lag_bytes: String(node.replayLagBytes),
+        lag_seconds: (node.replayLagBytes / ctx.scenario.walRateBytes).toFixed(3),
+        sync_state: 'async',
+        sent_lsn: formatLsn(ctx.currentWal),
+        write_lsn: formatLsn(ctx.currentWal),
+        flush_lsn: formatLsn(ctx.currentWal),
+        replay_lsn: replayLsn,
+      };
+    });
+}
+
+function replicationRows(ctx: Evaluated): Row[] {
+  return [...subscriptionReplicationRows(ctx), ...standbyReplicationRows(ctx)];
+}
+
+function slotRows(ctx: Evaluated): Row[] {
+  const version = ctx.node.version;
+  const maxKeep = version >= 130000 ? ctx.node.maxSlotWalKeepSizeBytes : null;
+  return [...ctx.state.slots.values()]
+    .filter((slot) => slot.node === ctx.node.id)
+    .map((slot, index) => {
+      const blocker =
+        slot.blocker && ctx.elapsedMs - slot.blocker.startedMs >= BLOCKER_MIN_MS ? slot.blocker : null;
+      return {
+        slot_name: slot.name,
+        plugin: slot.plugin,
+        slot_type: slot.slotType,
+        database: slot.database,
+        active: slot.active,
+        active_pid: slot.active ? 10000 + index : null,
+        retained_bytes: String(slot.retainedBytes),
+        pending_bytes: String(slot.pendingBytes),
+        wal_status: slot.walStatus,
+        current_wal_lsn: formatLsn(ctx.currentWal),
+        confirmed_flush_lsn:
+          slot.slotType === 'logical' ? formatLsn(ctx.currentWal - slot.pendingBytes) : null,
+        xmin_age: null,
+        catalog_xmin_age: slot.catalogXminAge,
+        safe_wal_size:
+          maxKeep !== null && slot.walStatus !== 'lost' ? String(maxKeep - slot.retainedBytes) : null,
+        max_slot_wal_keep_size: maxKeep === null ? null : String(maxKeep),
+        two_phase: version >= 140000 ? false : null,
+        inactive_since:
+          version >= 170000 && slot.inactiveSinceMs !== null
+            ? new Date(ctx.startedAt + slot.inactiveSinceMs)
+            : null,
+        blocker_pid: blocker?.pid ?? null,
+        blocker_user: blocker?.user ?? null,
+        blocker_application: blocker?.application ?? null,
+        blocker_state: blocker ? 'idle in transaction' : null,
+        blocker_xact_start: blocker ? new Date(ctx.startedAt + blocker.startedMs) : null,
+        blocker_xid_age: blocker ? Math.round(((ctx.elapsedMs - blocker.startedMs) / 1000) * XIDS_PER_SECOND) : null,
+        blocker_query: blocker?.query ?? null,
+      };
+    });
+}
+
+/**
+ * pg_stat_wal_receiver joined with the replay functions. While the upstream
+ * is down the receiver is gone and replay stops where the WAL ran out.
+ */
+function walReceiverRows(ctx: Evaluated): Row[] {
+  const address = upstreamAddress(ctx, ctx.node);
+  if (address === null) return [];
+
+  const downSinceMs = upstreamDownSinceMs(ctx, ctx.node);
+  if (downSinceMs !== null) {
+    const lsn = formatLsn(currentWalBytes(ctx.scenario, downSinceMs));
+    return [
+      {
+        status: null,
+        receive_lsn: lsn,
+        replay_lsn: lsn,
+        replay_lag_bytes: '0',
+        replay_lag_seconds: ((ctx.elapsedMs - downSinceMs) / 1000).toFixed(3),
+        last_replay_at: new Date(ctx.startedAt + downSinceMs),
+        sender_host: null,
+        sender_port: null,
+        conninfo: null,
+        slot_name: null,
+      },
+    ];
+  }
+
+  const lagSeconds = ctx.node.replayLagBytes / ctx.scenario.walRateBytes;
+  const sender = ctx.node.version >= 110000;
+  return [
+    {
+      status: 'streaming',
+      receive_lsn: formatLsn(ctx.currentWal),
+      replay_lsn: formatLsn(ctx.currentWal - ctx.node.replayLagBytes),
+      replay_lag_bytes: String(ctx.node.replayLagBytes),
+      replay_lag_seconds: lagSeconds.toFixed(3),
+      last_replay_at: new Date(ctx.now.getTime() - lagSeconds * 1000),
+      sender_host: sender ? address.host : null,
+      sender_port: sender ? address.port : null,
+      conninfo: `user=replicator password=******** host=${address.host} port=${address.port} application_name=${ctx.node.id}`,
+      slot_name: null,
+    },
+  ];
+}
+
+/**
+ * Current WAL position; a standby reports how far replay has got.
+ */
+function walPositionRows(ctx: Evaluated): Row[] {
+  if (ctx.node.upstream === null) {
+    return [{ in_recovery: false, lsn: formatLsn(ctx.currentWal) }];
+  }
+  const [receiver] = walReceiverRows(ctx);
+  return [{ in_recovery: true, lsn: receiver?.replay_lsn ?? null }];
+}
+
+function slotStatsRows(ctx: Evaluated): Row[] {
+  return [...ctx.state.slots.values()]
+    .filter((slot) => slot.node === ctx.node.id && slot.slotType === 'logical')
+    .map((slot) => {
+      const stats = countDecoding(ctx.scenario, slot.name, ctx.elapsedMs);
+      return {
+        slot_name: slot.name,
+        spill_txns: String(stats.spillTxns),
+        spill_bytes: String(stats.spillBytes),
+        stream_txns: '0',
+        stream_bytes: '0',
+        total_txns: String(stats.totalTxns),
+        total_bytes: String(stats.totalBytes),
+        stats_reset: null,
+      };
+    });
+}
+
+function nativeSubscriptionRows(ctx: Evaluated): Row[] {
+  if (ctx.node.pglogical) return [];
+  return ctx.scenario.subscriptions
+    .filter((sub) => sub.node === ctx.node.id)
+    .map((sub) => {
+      const streaming = isStreaming(ctx, sub.name);
+      const received = formatLsn(ctx.currentWal - (ctx.state.lagBytes.get(sub.name) ?? 0));
+      const errors = countApplyErrors(ctx.scenario, sub, ctx.elapsedMs);
+      return {
+        subscription_name: sub.name,
+        enabled: errors.disabledAtMs === null,
+        disable_on_error: ctx.node.version >= DISABLE_ON_ERROR_VERSION ? sub.disableOnError : null,
+        slot_name: sub.slot,
+        publications: sub.sets,
+        received_lsn: streaming ? received : null,
+        latest_end_lsn: streaming ? received : null,
+        last_message_time: streaming ? ctx.now : null,
+        worker_pid: streaming ? workerPid(ctx, sub.name) : null,
+      };
+    });
+}
+
+function pglogicalSubscriptionRows(ctx: Evaluated): Row[] {
+  if (!ctx.node.pglogical) return [];
+  return ctx.scenario.subscriptions
+    .filter((sub) => sub.node === ctx.node.id)
+    .map((sub) => {
+      const provider = ctx.scenario.nodes.find((node) => node.id === sub.provider);
+      const streaming = isStreaming(ctx, sub.name);
+      return {
+        subscription_name: sub.name,
+        status: streaming ? 'replicating' : 'down',
+        provider_node: sub.provider,
+        slot_name: sub.slot,
+        replication_sets: sub.sets,
+        provider_dsn: provider
+          ? `host=${provider.host} port=${provider.port} dbname=${provider.database}`
+          : null,
+        applied_lsn: formatLsn(ctx.currentWal - (ctx.state.lagBytes.get(sub.name) ?? 0)),
+        worker_pid: streaming ? workerPid(ctx, sub.name) : null,
+        last_state_change: streaming ? ctx.now : null,
+      };
+    });
+}
+
+/**
+ * Replication sets (pglogical) or publications (native) of a provider: one
+ * per set its pglogical or native subscribers consume, holding the tables
+ * those subscribers copy. Only pglogical providers have replication sets.
+ */
+function providedSets(ctx: Evaluated, pglogical: boolean): Map<string, ScenarioTable[]> {
+  const sets = new Map<string, ScenarioTable[]>();
+  if (pglogical && !ctx.node.pglogical) return sets;
+
+  for (const sub of ctx.scenario.subscriptions.filter((s) => s.provider === ctx.node.id)) {
+    const subscriber = ctx.scenario.nodes.find((node) => node.id === sub.node);
+    if (subscriber?.pglogical !== pglogical) continue;
+    for (const name of sub.sets) {
+      const tables = sets.get(name) ?? [];
+      for (const table of sub.tables) {
+        const listed = tables.some(
+          (t) => t.schemaName === table.schemaName && t.tableName === table.tableName
+        );
+        if (!listed) tables.push(table);
+      }
+      sets.set(name, tables);
+    }
+  }
+  return sets;
+}
+
+function publicationRows(ctx: Evaluated, pglogical: boolean): Row[] {
+  return [...providedSets(ctx, pglogical).keys()].sort().map((name) => ({
+    name,
+    all_tables: false,
+    publish_insert: true,
+    publish_update: true,
+    publish_delete: true,
+    publish_truncate: pglogical || ctx.node.version >= 110000 ? true : null,
+  }));
+}
+
+function publicationTableRows(ctx: Evaluated, pglogical: boolean): Row[] {
+  return [...providedSets(ctx, pglogical)].flatMap(([name, tables]) =>
+    tables.map((table) => ({
+      name,
+      schema_name: table.schemaName,
+      table_name: table.tableName,
+      column_list: null,
+      row_filter: null,
+    }))
+  );
+}
+
+/**
+ * Sequence owned by a table's primary key.
+ */
+function ownedSequenceName(table: ScenarioTable): string {
+  return `${table.tableName}_id_seq`;
+}
+
+/**
+ * Provider value of every owned sequence at a point in the scenario.
+ */
+function providerSequenceValue(ctx: Evaluated, elapsedMs: number): number {
+  const written = currentWalBytes(ctx.scenario, elapsedMs) - currentWalBytes(ctx.scenario, 0);
+  return 1000 + Math.floor(written / SEQUENCE_ROW_BYTES);
+}
+
+/**
+ * pg_sequences rows for the sequences of subscribed tables with a primary
+ * key. Native subscribers keep the value they had when their tables were
+ * copied; pglogical subscribers get the provider's value plus a margin
+ * every PGLOGICAL_SEQUENCE_SYNC_MS.
+ */
+function sequenceRows(ctx: Evaluated): Row[] {
+  const providerValue = providerSequenceValue(ctx, ctx.elapsedMs);
+  const subscriberValue = ctx.node.pglogical
+    ? providerSequenceValue(
+        ctx,
+        Math.floor(ctx.elapsedMs / PGLOGICAL_SEQUENCE_SYNC_MS) * PGLOGICAL_SEQUENCE_SYNC_MS
+      ) + PGLOGICAL_SEQUENCE_MARGIN
+    : providerSequenceValue(ctx, 0);
+
+  const rows = new Map<string, Row>();
+  for (const sub of ctx.scenario.subscriptions) {
+    const isProvider = sub.provider === ctx.node.id;
+    if (!isProvider && sub.node !== ctx.node.id) continue;
+    for (const table of sub.tables.filter((t) => t.primaryKey)) {
+      const key = `${table.schemaName}.${ownedSequenceName(table)}`;
+      // The provider's own value wins over a subscriber copy
+      if (!isProvider && rows.has(key)) continue;
+      rows.set(key, {
+        schema_name: table.schemaName,
+        sequence_name: ownedSequenceName(table),
+        last_value: String(isProvider ? providerValue : subscriberValue),
+        owner_table: `${table.schemaName}.${table.tableName}`,
+      });
+    }
+  }
+  return [...rows.entries()].sort(([a], [b]) => a.localeCompare(b)).map(([, row]) => row);
+}
+
+/**
+ * pglogical replication set sequences: the owned sequences of the set's tables.
+ */
+function replicationSetSequenceRows(ctx: Evaluated): Row[] {
+  return [...providedSets(ctx, true)].flatMap(([name, tables]) =>
+    tables
+      .filter((table) => table.primaryKey)
+      .map((table) => ({
+        name,
+        schema_name: table.schemaName,
+        sequence_name: ownedSequenceName(table),
+      }))
+  );
+}
+
+/**
+ * Tables without a primary key. Subscribed tables exist on both the
+ * provider and the subscriber.
+ */
+function tablesWithoutIdentityRows(ctx: Evaluated): Row[] {
+  const rows = new Map<string, Row>();
+  for (const sub of ctx.scenario.subscriptions) {
+    if (sub.node !== ctx.node.id && sub.provider !== ctx.node.id) continue;
+    for (const table of sub.tables.filter((t) => !t.primaryKey)) {
+      rows.set(`${table.schemaName}.${table.tableName}`, {
+        schema_name: table.schemaName,
+        table_name: table.tableName,
+        replica_identity: 'd',
+      });
+    }
+  }
+  return [...rows.values()];
+}
+
+/**
+ * pg_subscription_rel / pglogical.local_sync_status rows. Tables sit in data
+ * copy for their copy time at the start of every run, then are ready at the
+ * LSN the copy finished at.
+ */
+function tableSyncRows(ctx: Evaluated, pglogical: boolean): Row[] {
+  if (ctx.node.pglogical !== pglogical) return [];
+  const runStartMs = ctx.elapsedMs - ctx.state.offsetMs;
+  let copyWorker = 0;
+
+  return ctx.scenario.subscriptions
+    .filter((sub) => sub.node === ctx.node.id)
+    .flatMap((sub) =>
+      sub.tables.map((table) => {
+        const copying = ctx.state.offsetMs < table.copyMs;
+        const syncLsn = formatLsn(currentWalBytes(ctx.scenario, runStartMs + table.copyMs));
+        const row: Row = {
+          subscription_name: sub.name,
+          schema_name: table.schemaName,
+          table_name: table.tableName,
+          state_code: copying ? 'd' : 'r',
+        };
+        if (pglogical) {
+          return { ...row, sync_lsn: copying ? '0/0' : syncLsn };
+        }
+        return {
+          ...row,
+          sync_lsn: copying ? null : syncLsn,
+          worker_pid: copying ? 21000 + copyWorker++ : null,
+          worker_started_at: copying ? new Date(ctx.startedAt + runStartMs) : null,
+        };
+      })
+    );
+}
+
+function subscriptionStatsRows(ctx: Evaluated): Row[] {
+  if (ctx.node.pglogical) return [];
+  const counts = countConflicts(ctx.scenario, ctx.elapsedMs);
+  return ctx.scenario.subscriptions
+    .filter((sub) => sub.node === ctx.node.id)
+    .map((sub) => {
+      const row: Row = {
+        subscription_name: sub.name,
+        apply_error_count: String(countApplyErrors(ctx.scenario, sub, ctx.elapsedMs).count),
+        insert_conflicts: '0',
+        update_origin_differs: '0',
+        update_exists: '0',
+        update_missing: '0',
+        delete_origin_differs: '0',
+        delete_missing: '0',
+        multiple_unique_conflicts: '0',
+        stats_reset: null,
+      };
+      for (const [type, count] of counts.get(sub.name) ?? []) {
+        row[NATIVE_CONFLICT_COLUMNS[type]] = String(count);
+      }
+      return row;
+    });
+}
+
+function conflictHistoryRows(ctx: Evaluated, limit: number): Row[] {
+  return listConflicts(ctx.scenario, ctx.node.id, ctx.elapsedMs, CONFLICT_WINDOW_MS, limit).map(
+    (conflict) => {
+      const recordedAt = ctx.startedAt + conflict.elapsedMs;
+      const key = { id: 1000 + conflict.sequence };
+      return {
+        id: conflict.id,
+        recorded_at: new Date(recordedAt),
+        sub_name: conflict.subscription,
+        conflict_type: conflict.conflictType,
+        resolution: conflict.resolution,
+        schema_name: conflict.schemaName,
+        table_name: conflict.tableName,
+        index_name: `${conflict.tableName}_pkey`,
+        local_tuple: conflict.conflictType === 'update_delete' ? null : { ...key, version: 1 },
+        local_commit_ts: new Date(recordedAt - 2000),
+        remote_tuple: conflict.conflictType === 'delete_delete' ? null : { ...key, version: 2 },
+        remote_commit_ts: new Date(recordedAt - 500),
+        remote_commit_lsn: formatLsn(currentWalBytes(ctx.scenario, conflict.elapsedMs)),
+      };
+    }
+  );
+}
+
+// =============================================================================
+// Query Routing
+// =============================================================================
+
+/**
+ * The capability probe's pg_settings rows. Settings are reported as text,
+ * like pg_settings does.
+ */
+function settingRows(ctx: Evaluated): Row[] {
+  const { version } = ctx.node;
+  // 90600 -> "9.6.0" before PostgreSQL 10, 170000 -> "17.0" from then on
+  const serverVersion =
+    version < 100000
+      ? `${Math.floor(version / 10000)}.${Math.floor(version / 100) % 100}.${version % 100}`
+      : `${Math.floor(version / 10000)}.${version % 10000}`;
+  return [
+    { name: 'server_version_num', setting: String(version) },
+    { name: 'server_version', setting: serverVersion },
+    { name: 'wal_level', setting: ctx.node.walLevel },
+    { name: 'max_replication_slots', setting: String(ctx.node.maxReplicationSlots) },
+    { name: 'max_wal_senders', setting: String(ctx.node.maxWalSenders) },
+    { name: 'track_commit_timestamp', setting: ctx.node.trackCommitTimestamp ? 'on' : 'off' },
+    ...(version >= 130000
+      ? [{ name: 'max_slot_wal_keep_size', setting: String(maxSlotWalKeepSizeMb(ctx.node)) }]
+      : []),
+  ];
+}
+
+/**
+ * max_slot_wal_keep_size as pg_settings reports it: MB, -1 when unlimited.
+ */
+function maxSlotWalKeepSizeMb(node: ScenarioNode): number {
+  const bytes = node.maxSlotWalKeepSizeBytes;
+  return bytes === null ? -1 : Math.floor(bytes / (1024 * 1024));
+}
+
+/**
+ * Handlers in match order. The capability probe reads pg_settings once per
+ * connection; the other queries take the version from its result.
+ */
+const HANDLERS: { pattern: RegExp; rows: (ctx: Evaluated, params: unknown[]) => Row[] }[] = [
+  {
+    pattern: /FROM pg_extension/,
+    rows: (ctx) => (ctx.node.pglogical ? [{ extname: 'pglogical', extversion: '2.4.5' }] : []),
+  },
+  { pattern: /FROM pg_namespace/, rows: (ctx) => [{ has_schema: ctx.node.pglogical }] },
+  { pattern: /FROM pg_settings/, rows: settingRows },
+  { pattern: /FROM pg_stat_replication\b/, rows: replicationRows },
+  { pattern: /FROM pg_replication_slots/, rows: slotRows },
+  { pattern: /FROM pg_stat_replication_slots/, rows: slotStatsRows },
+  { pattern: /pg_stat_wal_receiver/, rows: walReceiverRows },
+  { pattern: /ELSE pg_current_wal_lsn\(\)/, rows: walPositionRows },
+  {
+    pattern: /pg_is_in_recovery\(\)/,
+    rows: (ctx) => [{ in_recovery: ctx.node.upstream !== null }],
+  },
+  { pattern: /FROM pg_subscription sub/, rows: nativeSubscriptionRows },
+  { pattern: /pglogical\.show_subscription_status/, rows: pglogicalSubscriptionRows },
+  { pattern: /FROM pg_stat_subscription_stats/, rows: subscriptionStatsRows },
+  { pattern: /FROM pg_subscription_rel/, rows: (ctx) => tableSyncRows(ctx, false) },
+  { pattern: /FROM pglogical\.local_sync_status/, rows: (ctx) => tableSyncRows(ctx, true) },
+  { pattern: /FROM pg_publication_tables/, rows: (ctx) => publicationTableRows(ctx, false) },
+  { pattern: /FROM pg_publication p/, rows: (ctx) => publicationRows(ctx, false) },
+  {
+    pattern: /FROM pglogical\.replication_set_table/,
+    rows: (ctx) => publicationTableRows(ctx, true),
+  },
+  { pattern: /FROM pglogical\.replication_set_seq/, rows: replicationSetSequenceRows },
+  { pattern: /FROM pglogical\.replication_set rs/, rows: (ctx) => publicationRows(ctx, true) },
+  {
+    pattern: /FROM pglogical\.conflict_history/,
+    rows: (ctx, params) => conflictHistoryRows(ctx, Number(params[0] ?? 500)),
+  },
+  {
+    pattern: /tablename = 'conflict_history'/,
+    rows: (ctx) => [
+      { table_exists: ctx.node.conflictHistory, is_enabled: ctx.node.conflictHistory },
+    ],
+  },
+  { pattern: /c\.relreplident/, rows: tablesWithoutIdentityRows },
+  { pattern: /FROM pg_sequences/, rows: sequenceRows },
+  { pattern: /pg_current_logfile/, rows: () => [{ logfile: null }] },
+];
+
+/**
+ * Answer a polling query for one simulated node.
+ *
+ * @param ctx - Scenario and time
+ * @param nodeId - Node the query runs on
+ * @param sql - Query text
+ * @param params - Query parameters
+ * @returns Result rows
+ * @throws Error if the node or query is unknown
+ */
+export function answerQuery(
+  ctx: QueryContext,
+  nodeId: string,
+  sql: string,
+  params: unknown[] = []
+): Row[] {
+  const node = ctx.scenario.nodes.find((candidate) => candidate.id === nodeId);
+  if (!node) {
+    throw new Error(`Unknown simulated node: ${nodeId}`);
+  }
+
+  const handler = HANDLERS.find((candidate) => candidate.pattern.test(sql));
+  if (!handler) {
+    const summary = sql.replace(/\s+/g, ' ').trim().slice(0, 60);
+    throw new Error(`Query not supported by the simulator: ${summary}`);
+  }
+
+  return handler.rows(
+    {
+      ...ctx,
+      node,
+      state: evaluateScenario(ctx.scenario, ctx.elapsedMs),
+      currentWal: currentWalBytes(ctx.scenario, ctx.elapsedMs),
+      now: new Date(ctx.startedAt + ctx.elapsedMs),
+    },
+    params
+  );
+}
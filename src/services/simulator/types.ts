@@ -0,0 +1,314 @@
+/**
+ * Simulator Types
+ *
+ * Scripted demo scenarios and the state the simulated cluster derives from
+ * them. Durations are resolved to milliseconds and sizes to bytes when a
+ * scenario file is parsed.
+ */
+
+import type { ResolvedAlertsConfig, ResolvedThresholds } from '../../config/defaults.js';
+import type { ConflictResolution, ConflictType } from '../../types/conflicts.js';
+import type { SlotType, WalStatus } from '../polling/types.js';
+
+// =============================================================================
+// Scenario Definition
+// =============================================================================
+
+/**
+ * A simulated PostgreSQL node.
+ */
+export interface ScenarioNode {
+  /** Node identifier (key in the scenario's nodes map) */
+  id: string;
+  host: string;
+  port: number;
+  database: string;
+  /** Whether the pglogical extension is installed */
+  pglogical: boolean;
+  /** server_version_num reported by the node */
+  version: number;
+  /** Whether pglogical.conflict_history is available and enabled */
+  conflictHistory: boolean;
+  /** wal_level setting */
+  walLevel: 'minimal' | 'replica' | 'logical';
+  /** max_replication_slots setting */
+  maxReplicationSlots: number;
+  /** max_wal_senders setting */
+  maxWalSenders: number;
+  /** track_commit_timestamp setting */
+  trackCommitTimestamp: boolean;
+  /** max_slot_wal_keep_size (null: unlimited) */
+  maxSlotWalKeepSizeBytes: number | null;
+  /**
+   * What a standby streams WAL from: a scenario node id, or "host:port" of
+   * a server outside the scenario (null: not a standby)
+   */
+  upstream: string | null;
+  /** WAL a standby has received but not replayed yet */
+  replayLagBytes: number;
+}
+
+/**
+ * A subscription on one node replicating from another.
+ * Its slot lives on the provider node.
+ */
+export interface ScenarioSubscription {
+  name: string;
+  /** Subscriber node id */
+  node: string;
+  /** Provider node id */
+  provider: string;
+  /** Slot name on the provider */
+  slot: string;
+  /** pglogical replication sets (publications for native subscriptions) */
+  sets: string[];
+  /** Lag at the start of the scenario */
+  lagBytes: number;
+  /** Subscribed tables */
+  tables: ScenarioTable[];
+  /** Whether an apply error disables the subscription for the rest of the run (native only) */
+  disableOnError: boolean;
+}
+
+/**
+ * A table of a subscription. It sits in initial data copy for copyMs at the
+ * start of every run, then is ready.
+ */
+export interface ScenarioTable {
+  schemaName: string;
+  tableName: string;
+  copyMs: number;
+  /** Whether the table has a primary key (REPLICA IDENTITY DEFAULT either way) */
+  primaryKey: boolean;
+}
+
+/**
+ * A replication slot not owned by a scenario subscription.
+ */
+export interface ScenarioSlot {
+  name: string;
+  node: string;
+  plugin: string | null;
+  slotType: SlotType;
+  database: string | null;
+  active: boolean;
+  walStatus: WalStatus | null;
+  retainedBytes: number;
+}
+
+/** Ramp a subscription's lag to a new value */
+export interface LagScenarioEvent {
+  type: 'lag';
+  atMs: number;
+  subscription: string;
+  toBytes: number;
+  overMs: number;
+}
+
+/** Change a slot's state, optionally ramping its retained WAL */
+export interface SlotScenarioEvent {
+  type: 'slot';
+  atMs: number;
+  slot: string;
+  active?: boolean;
+  walStatus?: WalStatus;
+  retainedBytes?: number;
+  overMs: number;
+}
+
+/** Take a node down for a while */
+export interface OutageScenarioEvent {
+  type: 'outage';
+  atMs: number;
+  node: string;
+  forMs: number;
+}
+
+/** Record a burst of conflicts on a subscription's node */
+export interface ConflictsScenarioEvent {
+  type: 'conflicts';
+  atMs: number;
+  subscription: string;
+  count: number;
+  overMs: number;
+  conflictType: ConflictType;
+  resolution: ConflictResolution;
+  schemaName: string;
+  tableName: string;
+}
+
+/** Fail a native subscription's apply worker repeatedly; each error restarts it */
+export interface ApplyErrorsScenarioEvent {
+  type: 'apply_errors';
+  atMs: number;
+  subscription: string;
+  count: number;
+  overMs: number;
+}
+
+/** Make a logical slot's decoder spill transactions to disk for a while */
+export interface SpillScenarioEvent {
+  type: 'spill';
+  atMs: number;
+  slot: string;
+  bytesPerSec: number;
+  forMs: number;
+  /** Average size of a spilled transaction */
+  txnBytes: number;
+}
+
+/** Keep a transaction open on a node, holding back its logical slots */
+export interface TransactionScenarioEvent {
+  type: 'transaction';
+  atMs: number;
+  node: string;
+  forMs: number;
+  user: string;
+  application: string;
+  query: string;
+}
+
+export type ScenarioEvent =
+  | LagScenarioEvent
+  | SlotScenarioEvent
+  | OutageScenarioEvent
+  | ConflictsScenarioEvent
+  | ApplyErrorsScenarioEvent
+  | SpillScenarioEvent
+  | TransactionScenarioEvent;
+
+/**
+ * A fully resolved scenario.
+ */
+export interface Scenario {
+  /** File the scenario was loaded from */
+  file: string;
+  name: string;
+  description: string | null;
+  /** Length of one run of the script */
+  durationMs: number;
+  /** Start over after durationMs instead of holding the final state */
+  loop: boolean;
+  /** WAL generated per second on every node; also converts lag bytes to seconds */
+  walRateBytes: number;
+  nodes: ScenarioNode[];
+  subscriptions: ScenarioSubscription[];
+  slots: ScenarioSlot[];
+  /** Events sorted by atMs */
+  events: ScenarioEvent[];
+  thresholds: ResolvedThresholds;
+  /** Alert settings (demo sessions never deliver to sinks) */
+  alerts: ResolvedAlertsConfig;
+}
+
+// =============================================================================
+// Evaluated State
+// =============================================================================
+
+/**
+ * Slot state at a point in the scenario.
+ */
+export interface SimulatedSlotState {
+  name: string;
+  node: string;
+  plugin: string | null;
+  slotType: SlotType;
+  database: string | null;
+  active: boolean;
+  walStatus: WalStatus | null;
+  retainedBytes: number;
+  pendingBytes: number;
+  /** Age of catalog_xmin in transactions (logical slots that still have their WAL) */
+  catalogXminAge: number | null;
+  /** When the slot was last released (ms since the scenario started, null while active) */
+  inactiveSinceMs: number | null;
+  /** Open transaction holding back restart_lsn */
+  blocker: SimulatedTransaction | null;
+  /** Owning subscription, if any */
+  subscription: string | null;
+}
+
+/**
+ * A transaction held open by a transaction event.
+ */
+export interface SimulatedTransaction {
+  /** Simulated backend pid */
+  pid: number;
+  node: string;
+  user: string;
+  application: string;
+  query: string;
+  /** When the transaction started (ms since the scenario started) */
+  startedMs: number;
+}
+
+/**
+ * Everything the simulated cluster reports at a point in the scenario.
+ */
+export interface ScenarioState {
+  /** Completed runs of the script (always 0 without loop) */
+  lap: number;
+  /** Position within the current run */
+  offsetMs: number;
+  /** Nodes currently in an outage */
+  downNodes: Set<string>;
+  /** Lag per subscription name */
+  lagBytes: Map<string, number>;
+  /** Slot state per slot name */
+  slots: Map<string, SimulatedSlotState>;
+  /** Oldest open transaction per node */
+  transactions: Map<string, SimulatedTransaction>;
+}
+
+/**
+ * A conflict generated by a conflicts event.
+ */
+export interface SimulatedConflict {
+  /** Stable id across polls */
+  id: string;
+  /** Node that recorded the conflict (the subscriber) */
+  node: string;
+  subscription: string;
+  /** Milliseconds since the scenario started */
+  elapsedMs: number;
+  conflictType: ConflictType;
+  resolution: ConflictResolution;
+  schemaName: string;
+  tableName: string;
+  /** Sequence number within the burst (used for tuple values) */
+  sequence: number;
+}
+
+/**
+ * Apply errors of a subscription since the scenario started.
+ */
+export interface SimulatedApplyErrors {
+  /** Cumulative apply_error_count */
+  count: number;
+  /** When disable_on_error disabled it in the current run (ms into the run, null while enabled) */
+  disabledAtMs: number | null;
+}
+
+/**
+ * Cumulative decoding counters of a logical slot.
+ */
+export interface SimulatedDecodingStats {
+  spillTxns: number;
+  spillBytes: number;
+  totalTxns: number;
+  totalBytes: number;
+}
+
+// =============================================================================
+// Cluster
+// =============================================================================
+
+/**
+ * Options for SimulatedCluster.
+ */
+export interface SimulatedClusterOptions {
+  /** Clock used for scenario time (default: Date.now) */
+  now?: () => number;
+  /** How often outage transitions are checked, in ms (default: 1000) */
+  healthCheckIntervalMs?: number;
+}
@@ -0,0 +1,47 @@
+/**
+ * Snapshot Formatting
+ *
+ * Renders a Snapshot as JSON, NDJSON, or YAML. Dates become ISO 8601 strings
+ * in every format so `jq` and `yq` see the same values.
+ *
+ * NDJSON emits one record per line, each tagged with `type`:
+ * - `cycle`: cycle id, timing, and cluster
+ * - `node`: one per configured node
+ * - `edge`: one per topology edge
+ */
+
+import { stringify as stringifyYAML } from 'yaml';
+
+import type { Snapshot, SnapshotFormat } from './types.js';
+
+/**
+ * Convert to JSON-safe plain data (Dates to ISO strings).
+ */
+function toPlain<T>(value: T): unknown {
+  return JSON.parse(JSON.stringify(value)) as unknown;
+}
+
+/**
+ * Render a snapshot in the requested format.
+ *
+ * @param snapshot - Snapshot to render
+ * @param format - Output format
+ * @returns Rendered text ending with a newline
+ */
+export function formatSnapshot(snapshot: Snapshot, format: SnapshotFormat): string {
+  switch (format) {
+    case 'json':
+      return `${JSON.stringify(snapshot, null, 2)}\n`;
+    case 'ndjson': {
+      const { nodes, edges, ...cycle } = snapshot;
+      const lines = [
+        JSON.stringify({ type: 'cycle', ...cycle }),
+        ...nodes.map((node) => JSON.stringify({ type: 'node', ...node })),
+        ...edges.map((edge) => JSON.stringify({ type: 'edge', ...edge })),
+      ];
+      return `${lines.join('\n')}\n`;
+    }
+    case 'yaml':
+      return stringifyYAML(toPlain(snapshot));
+  }
+}
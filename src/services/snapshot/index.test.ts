@@ -0,0 +1,173 @@
+/**
+ * Tests for `replmon snapshot` assembly and output formats
+ */
+import { describe, test, expect } from 'bun:test';
+import { parse as parseYAML } from 'yaml';
+import { buildSnapshot, formatSnapshot } from './index.js';
+import {
+  DEFAULT_THEME,
+  DEFAULT_THRESHOLDS,
+  DEFAULT_ALERTS,
+  DEFAULT_METRICS,
+  DEFAULT_HISTORY,
+} from '../../config/defaults.js';
+import type { Configuration } from '../../types/config.js';
+import type { NodeCapabilities, NodeData, PollingCycleResult, SlotData } from '../polling/types.js';
+import type { TopologyEdge } from '../../types/topology.js';
+
+const STARTED = new Date('2024-06-01T12:00:00Z');
+
+const config: Configuration = {
+  nodes: {
+    primary: { host: 'db1', port: 5432, database: 'app', user: 'postgres' },
+    replica: { host: 'db2', port: 5433, database: 'app', user: 'postgres' },
+  },
+  activeCluster: 'production',
+  theme: DEFAULT_THEME,
+  thresholds: DEFAULT_THRESHOLDS,
+  alerts: DEFAULT_ALERTS,
+  pglogical: false,
+  metrics: DEFAULT_METRICS,
+  history: DEFAULT_HISTORY,
+  source: 'file',
+};
+
+const slot: SlotData = {
+  nodeId: 'primary',
+  slotName: 'replica_slot',
+  plugin: null,
+  slotType: 'physical',
+  database: null,
+  active: true,
+  activePid: null,
+  retainedBytes: 2048,
+  pendingBytes: 0,
+  confirmedFlushLsn: null,
+  walStatus: 'reserved',
+  xminAge: null,
+  catalogXminAge: null,
+  safeWalSize: null,
+  maxSlotWalKeepSize: null,
+  twoPhase: null,
+  inactiveSince: null,
+  blocker: null,
+  isStale: false,
+  timestamp: STARTED,
+};
+
+const capabilities: NodeCapabilities = {
+  nodeId: 'primary',
+  versionNum: 170002,
+  version: '17.2',
+  hasPglogical: false,
+  pglogicalVersion: null,
+  walLevel: 'logical',
+  maxReplicationSlots: 10,
+  maxWalSenders: 10,
+  trackCommitTimestamp: false,
+  maxSlotWalKeepSizeMb: 1024,
+  conflictHistory: false,
+  probedAt: STARTED,
+};
+
+const edge: TopologyEdge = {
+  id: 'primary→replica',
+  sourceNodeId: 'primary',
+  targetNodeId: 'replica',
+  direction: 'unidirectional',
+  replicationType: 'native',
+  lagSeconds: 0.5,
+  lagBytes: 128,
+  subscriptionName: null,
+  status: 'streaming',
+};
+
+function entry<T>(data: T): NodeData<T> {
+  return {
+    nodeId: 'primary',
+    nodeName: 'primary',
+    success: true,
+    data,
+    durationMs: 12,
+    hasPglogical: false,
+  };
+}
+
+/** Cycle where only the primary was healthy */
+const result: PollingCycleResult = {
+  cycleId: 'cycle-1',
+  startedAt: STARTED,
+  completedAt: new Date(STARTED.getTime() + 20),
+  durationMs: 20,
+  stats: [entry([])],
+  subscriptions: [entry([])],
+  slots: [entry([slot])],
+  conflicts: [entry([])],
+  conflictEvents: [entry({ events: [], source: 'unavailable' as const })],
+  tableSync: [entry([])],
+  slotStats: [entry([])],
+  walReceivers: [entry([])],
+  walPositions: [entry([])],
+  publications: [entry([])],
+  sequences: [entry([])],
+  capabilities: [entry(capabilities)],
+};
+
+describe('buildSnapshot', () => {
+  test('includes every configured node in config order', () => {
+    const snapshot = buildSnapshot(config, result, new Map(), [edge]);
+    expect(snapshot.nodes.map((n) => n.nodeId)).toEqual(['primary', 'replica']);
+    expect(snapshot.cluster).toBe('production');
+    expect(snapshot.edges).toEqual([edge]);
+  });
+
+  test('copies polled data for healthy nodes', () => {
+    const [primary] = buildSnapshot(config, result, new Map(), []).nodes;
+    expect(primary!.success).toBe(true);
+    expect(primary!.error).toBeNull();
+    expect(primary!.slots).toEqual([slot]);
+    expect(primary!.capabilities).toEqual(capabilities);
+    expect(primary!.durationMs).toBe(12);
+  });
+
+  test('reports the connection error for nodes missing from the cycle', () => {
+    const errors = new Map([['replica', 'connect ECONNREFUSED']]);
+    const replica = buildSnapshot(config, result, errors, []).nodes[1]!;
+    expect(replica.success).toBe(false);
+    expect(replica.error).toBe('connect ECONNREFUSED');
+    expect(replica.durationMs).toBeNull();
+    expect(replica.capabilities).toBeNull();
+    expect(replica.host).toBe('db2');
+  });
+
+  test('reports per-node query errors from the cycle', () => {
+    const failed: PollingCycleResult = {
+      ...result,
+      stats: [{ ...entry([]), success: false, error: new Error('permission denied') }],
+    };
+    const [primary] = buildSnapshot(config, failed, new Map(), []).nodes;
+    expect(primary!.success).toBe(false);
+    expect(primary!.error).toBe('permission denied');
+  });
+});
+
+describe('formatSnapshot', () => {
+  const snapshot = buildSnapshot(config, result, new Map(), [edge]);
+
+  test('json renders dates as ISO strings', () => {
+    const parsed = JSON.parse(formatSnapshot(snapshot, 'json'));
+    expect(parsed.startedAt).toBe('2024-06-01T12:00:00.000Z');
+    expect(parsed.nodes).toHaveLength(2);
+  });
+
+  test('ndjson emits cycle, node and edge records', () => {
+    const lines = formatSnapshot(snapshot, 'ndjson').trimEnd().split('\n');
+    expect(lines.map((line) => JSON.parse(line).type)).toEqual(['cycle', 'node', 'node', 'edge']);
+    expect(JSON.parse(lines[0]!).nodes).toBeUndefined();
+  });
+
+  test('yaml round-trips to the same data as json', () => {
+    const fromYAML = parseYAML(formatSnapshot(snapshot, 'yaml'));
+    expect(fromYAML).toEqual(JSON.parse(formatSnapshot(snapshot, 'json')));
+  });
+});
@@ -0,0 +1,237 @@
+/**
+ * Snapshot Runner
+ *
+ * One-shot `replmon snapshot`: connects to every configured node, runs a
+ * single PollingService cycle, and returns the per-node PollingCycleResult
+ * together with the topology edges the TUI would draw.
+ *
+ * Nodes that do not connect within the timeout are included with their
+ * connection error instead of being dropped from the output.
+ */
+
+import { ConnectionManager } from '../connection-manager/index.js';
+import type { HealthStatus } from '../connection-manager/types.js';
+import { PollingService } from '../polling/index.js';
+import type { NodeData, PollingCycleResult } from '../polling/types.js';
+import { useStore } from '../../store/index.js';
+import { selectTopologyEdges } from '../../store/selectors/topology.js';
+import type { TopologyEdge } from '../../types/topology.js';
+import type { Configuration } from '../../types/config.js';
+import type { NodeSnapshot, Snapshot, SnapshotOptions } from './types.js';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Default time to wait for nodes to connect, in milliseconds */
+const DEFAULT_TIMEOUT_MS = 10000;
+
+/** How often to re-check node health while waiting */
+const HEALTH_WAIT_STEP_MS = 50;
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Wait until every node has either connected or failed its first health
+ * check. Unreachable nodes never emit an event, so this polls health state.
+ */
+async function waitForFirstHealthCheck(
+  manager: ConnectionManager,
+  timeoutMs: number
+): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  const settled = (health: HealthStatus): boolean =>
+    health.status === 'healthy' || health.consecutiveFailures > 0;
+
+  while (Date.now() < deadline) {
+    const health = [...manager.getAllHealth().values()];
+    if (health.every(settled)) {
+      return;
+    }
+    await new Promise((resolve) => setTimeout(resolve, HEALTH_WAIT_STEP_MS));
+  }
+}
+
+/**
+ * Run exactly one polling cycle and resolve with its result.
+ */
+function pollOnce(manager: ConnectionManager): Promise<PollingCycleResult> {
+  const pollingService = new PollingService(manager, { intervalMs: 60000 });
+  return new Promise((resolve) => {
+    // All-nodes-failed is reported per node from the data event that follows
+    pollingService.on('error', () => {});
+    pollingService.once('data', (result) => {
+      pollingService.stop();
+      resolve(result);
+    });
+    pollingService.start();
+  });
+}
+
+function findNode<T>(entries: NodeData<T>[], nodeId: string): NodeData<T> | undefined {
+  return entries.find((entry) => entry.nodeId === nodeId);
+}
+
+// =============================================================================
+// Snapshot Assembly
+// =============================================================================
+
+/**
+ * Assemble a snapshot from one polling cycle.
+ *
+ * Nodes missing from the cycle (not healthy when it ran) are reported with
+ * their connection error from `connectionErrors`.
+ *
+ * @param config - Resolved configuration (node order, connection targets)
+ * @param result - Polling cycle result
+ * @param connectionErrors - Last health check error per node
+ * @param edges - Topology edges derived from the cycle
+ * @returns Snapshot with one entry per configured node
+ */
+export function buildSnapshot(
+  config: Configuration,
+  result: PollingCycleResult,
+  connectionErrors: Map<string, string>,
+  edges: TopologyEdge[]
+): Snapshot {
+  const nodes: NodeSnapshot[] = Object.entries(config.nodes).map(([nodeId, node]) => {
+    const stats = findNode(result.stats, nodeId);
+    const slots = findNode(result.slots, nodeId);
+    const subscriptions = findNode(result.subscriptions, nodeId);
+    const conflicts = findNode(result.conflicts, nodeId);
+    const conflictEvents = findNode(result.conflictEvents, nodeId);
+    const tableSync = findNode(result.tableSync, nodeId);
+    const slotStats = findNode(result.slotStats, nodeId);
+    const walReceivers = findNode(result.walReceivers, nodeId);
+    const walPositions = findNode(result.walPositions, nodeId);
+    const publications = findNode(result.publications, nodeId);
+    const sequences = findNode(result.sequences, nodeId);
+    const capabilities = findNode(result.capabilities, nodeId);
+    const polled = [
+      stats,
+      slots,
+      subscriptions,
+      conflicts,
+      conflictEvents,
+      tableSync,
+      slotStats,
+      walReceivers,
+      walPositions,
+      publications,
+      sequences,
+      capabilities,
+    ];
+    const error =
+      polled.find((entry) => entry?.error)?.error?.message ??
+      (stats ? null : connectionErrors.get(nodeId) ?? 'Node did not connect');
+
+    return {
+      nodeId,
+      nodeName: stats?.nodeName ?? node.name ?? nodeId,
+      host: node.host,
+      port: node.port,
+      database: node.database,
+      success: polled.every((entry) => entry?.success === true),
+      error,
+      hasPglogical: stats?.hasPglogical ?? false,
+      durationMs: stats?.durationMs ?? null,
+      stats: stats?.data ?? [],
+      slots: slots?.data ?? [],
+      subscriptions: subscriptions?.data ?? [],
+      conflicts: conflicts?.data ?? [],
+      conflictEvents: conflictEvents?.data?.events ?? [],
+      conflictEventSource: conflictEvents?.data?.source ?? 'unavailable',
+      tableSync: tableSync?.data ?? [],
+      slotStats: slotStats?.data ?? [],
+      walReceiver: walReceivers?.data?.[0] ?? null,
+      walPosition: walPositions?.data?.[0] ?? null,
+      publications: publications?.data ?? [],
+      sequences: sequences?.data ?? [],
+      capabilities: capabilities?.data ?? null,
+    };
+  });
+
+  return {
+    cycleId: result.cycleId,
+    startedAt: result.startedAt,
+    completedAt: result.completedAt,
+    durationMs: result.durationMs,
+    cluster: config.activeCluster ?? null,
+    nodes,
+    edges,
+  };
+}
+
+/**
+ * Connect to every configured node, run one polling cycle, and disconnect.
+ *
+ * @param config - Resolved configuration
+ * @param options - Connection timeout
+ * @returns Snapshot of the cycle
+ */
+export async function takeSnapshot(
+  config: Configuration,
+  options: SnapshotOptions = {}
+): Promise<Snapshot> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const store = useStore.getState();
+  store.setPglogicalMode(config.pglogical);
+  store.initializeNodesInfo(
+    Object.entries(config.nodes).map(([id, node]) => ({
+      id,
+      name: id,
+      host: node.host,
+      port: node.port,
+      database: node.database,
+      hasPglogical: false,
+    }))
+  );
+
+  const manager = new ConnectionManager({
+    healthCheckIntervalMs: 60000,
+    unhealthyThreshold: 1,
+    shutdownTimeoutMs: 1000,
+  });
+
+  try {
+    await manager.initialize(
+      Object.entries(config.nodes).map(([id, node]) => ({
+        id,
+        config: {
+          host: node.host,
+          port: node.port,
+          database: node.database,
+          user: node.user,
+          name: node.name ?? id,
+          ...(node.password !== undefined && { password: node.password }),
+          pool: { max: 2, connectionTimeoutMs: timeoutMs },
+        },
+      }))
+    );
+    await waitForFirstHealthCheck(manager, timeoutMs);
+
+    const result = await pollOnce(manager);
+    store.handlePollingData(result);
+
+    const connectionErrors = new Map<string, string>();
+    for (const [nodeId, health] of manager.getAllHealth()) {
+      if (health.lastError) {
+        connectionErrors.set(nodeId, health.lastError);
+      }
+    }
+
+    return buildSnapshot(config, result, connectionErrors, selectTopologyEdges(useStore.getState()));
+  } finally {
+    await manager.shutdown();
+  }
+}
+
+// =============================================================================
+// Re-exports
+// =============================================================================
+
+export { formatSnapshot } from './format.js';
+export { SNAPSHOT_FORMATS } from './types.js';
+export type { Snapshot, NodeSnapshot, SnapshotFormat, SnapshotOptions } from './types.js';
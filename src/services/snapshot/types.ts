@@ -0,0 +1,113 @@
+/**
+ * Snapshot Command Types
+ *
+ * Type definitions for `replmon snapshot`, a one-shot dump of replication
+ * state for scripts, runbooks, and CI smoke tests.
+ */
+
+import type {
+  ReplicationStats,
+  SlotData,
+  SubscriptionData,
+  ConflictData,
+  ConflictEventRecord,
+  ConflictEventSource,
+  TableSyncData,
+  SlotStatsData,
+  WalReceiverData,
+  WalPositionData,
+  PublicationData,
+  SequenceData,
+  NodeCapabilities,
+} from '../polling/types.js';
+import type { TopologyEdge } from '../../types/topology.js';
+
+// =============================================================================
+// Output Format
+// =============================================================================
+
+/** Supported output formats */
+export type SnapshotFormat = 'json' | 'ndjson' | 'yaml';
+
+/** All output formats, for flag validation */
+export const SNAPSHOT_FORMATS: readonly SnapshotFormat[] = ['json', 'ndjson', 'yaml'];
+
+// =============================================================================
+// Snapshot Data
+// =============================================================================
+
+/**
+ * Replication state of a single node from one polling cycle.
+ */
+export interface NodeSnapshot {
+  /** Node identifier */
+  nodeId: string;
+  /** Node display name */
+  nodeName: string;
+  /** Connection target */
+  host: string;
+  port: number;
+  database: string;
+  /** Whether all queries for this node succeeded */
+  success: boolean;
+  /** Connection or query error message (null on success) */
+  error: string | null;
+  /** Whether pglogical is installed on this node */
+  hasPglogical: boolean;
+  /** Query time for this node in ms (null when the node was not polled) */
+  durationMs: number | null;
+  /** pg_stat_replication rows */
+  stats: ReplicationStats[];
+  /** Replication slots */
+  slots: SlotData[];
+  /** Subscriptions (native and pglogical) */
+  subscriptions: SubscriptionData[];
+  /** Aggregate conflict stats */
+  conflicts: ConflictData[];
+  /** Individual conflict records (pglogical) */
+  conflictEvents: ConflictEventRecord[];
+  /** Where conflictEvents came from */
+  conflictEventSource: ConflictEventSource;
+  /** Per-table sync state of this node's subscriptions */
+  tableSync: TableSyncData[];
+  /** Logical decoding statistics of this node's slots (PG14+) */
+  slotStats: SlotStatsData[];
+  /** WAL receiver of a standby (null when the node is not in recovery) */
+  walReceiver: WalReceiverData | null;
+  /** Current WAL position (null when the node was not polled) */
+  walPosition: WalPositionData | null;
+  /** Publications and replication sets of this node */
+  publications: PublicationData[];
+  /** Current values of this node's sequences */
+  sequences: SequenceData[];
+  /** Server version and replication settings (null when the node was not polled) */
+  capabilities: NodeCapabilities | null;
+}
+
+/**
+ * Complete snapshot of one polling cycle.
+ */
+export interface Snapshot {
+  /** Polling cycle identifier */
+  cycleId: string;
+  /** Cycle start */
+  startedAt: Date;
+  /** Cycle end */
+  completedAt: Date;
+  /** Total cycle duration in ms */
+  durationMs: number;
+  /** Active cluster name (if configured) */
+  cluster: string | null;
+  /** Per-node state, in configuration order */
+  nodes: NodeSnapshot[];
+  /** Replication edges derived by the topology selectors */
+  edges: TopologyEdge[];
+}
+
+/**
+ * Options for taking a snapshot against live nodes.
+ */
+export interface SnapshotOptions {
+  /** How long to wait for nodes to connect, in milliseconds (default: 10000) */
+  timeoutMs?: number;
+}
@@ -0,0 +1,66 @@
+/**
+ * Alerts Slice
+ *
+ * Manages alert state: thresholds, active alerts, and alert history.
+ * Alerts are evaluated by the AlertEngine; this slice only stores results.
+ */
+
+import type { StateCreator } from 'zustand';
+import type { ReplmonStore } from './types.js';
+import type { ResolvedThresholds } from '../config/defaults.js';
+import { DEFAULT_THRESHOLDS } from '../config/defaults.js';
+import type {
+  Alert,
+  AlertEvaluation,
+  AlertsSliceState,
+  AlertsSliceActions,
+} from '../types/alerts.js';
+import { MAX_ALERT_HISTORY } from '../types/alerts.js';
+
+/**
+ * Alerts slice type (state + actions).
+ */
+export type AlertsSlice = AlertsSliceState & AlertsSliceActions;
+
+/**
+ * Creates the alerts slice for the combined store.
+ */
+export const createAlertsSlice: StateCreator<
+  ReplmonStore,
+  [['zustand/subscribeWithSelector', never], ['zustand/devtools', never]],
+  [],
+  AlertsSlice
+> = (set, _get) => ({
+  // Initial state
+  thresholds: DEFAULT_THRESHOLDS,
+  alerts: new Map<string, Alert>(),
+  alertHistory: [],
+
+  // Actions
+
+  setThresholds: (thresholds: ResolvedThresholds) =>
+    set({ thresholds }, undefined, 'alerts/setThresholds'),
+
+  applyAlertEvaluation: (evaluation: AlertEvaluation) =>
+    set(
+      (state) => {
+        const alerts = new Map<string, Alert>();
+        for (const alert of evaluation.alerts) {
+          alerts.set(alert.id, alert);
+        }
+
+        if (evaluation.events.length === 0) {
+          return { alerts };
+        }
+
+        // Most recent first, capped
+        const newest = [...evaluation.events].reverse();
+        const alertHistory = [...newest, ...state.alertHistory].slice(0, MAX_ALERT_HISTORY);
+        return { alerts, alertHistory };
+      },
+      undefined,
+      'alerts/applyAlertEvaluation'
+    ),
+
+  clearAlertHistory: () => set({ alertHistory: [] }, undefined, 'alerts/clearAlertHistory'),
+});
@@ -3,7 +3,17 @@
  */
 import { describe, test, expect, beforeEach } from 'bun:test';
 import { useStore } from './index.js';
-import type { NodeInfo, LagSample, ModalConfig } from './types.js';
+import type {
+  NodeInfo,
+  LagSample,
+  ModalConfig,
+  SlotStatsData,
+  TableSyncData,
+  SubscriptionData,
+  ConflictData,
+} from './types.js';
+import type { Alert, AlertEvent } from '../types/alerts.js';
+import { MAX_ALERT_HISTORY } from '../types/alerts.js';
 
 // Reset store before each test
 beforeEach(() => {
@@ -11,6 +21,8 @@ beforeEach(() => {
   state.clearReplicationData();
   state.resetUIState();
   state.resetConnectionStates();
+  state.applyAlertEvaluation({ alerts: [], events: [] });
+  state.clearAlertHistory();
 });
 
 describe('Connection Slice', () => {
@@ -90,6 +102,7 @@ describe('Replication Slice', () => {
         nodeId: 'node1',
         subscriptionName: 'sub1',
         enabled: true,
+        disableOnError: false,
         status: 'replicating' as const,
         providerNode: null,
         providerHost: null,
@@ -122,9 +135,18 @@ describe('Replication Slice', () => {
         slotType: 'logical' as const,
         database: 'test',
         active: true,
+        activePid: null,
         retainedBytes: 1024,
         pendingBytes: 512,
+        confirmedFlushLsn: null,
         walStatus: null,
+        xminAge: null,
+        catalogXminAge: null,
+        safeWalSize: null,
+        maxSlotWalKeepSize: null,
+        twoPhase: null,
+        inactiveSince: null,
+        blocker: null,
         isStale: false,
         timestamp: new Date(),
       },
@@ -164,6 +186,234 @@ describe('Replication Slice', () => {
     expect(state.conflicts.get('node1')?.[0]?.applyErrorCount).toBe(5);
   });
 
+  test('setTableSync tracks how long tables have been in initial sync', () => {
+    const { setTableSync } = useStore.getState();
+    const table = (
+      tableName: string,
+      state: TableSyncData['state'],
+      timestamp: Date,
+      workerStartedAt: Date | null = null
+    ): TableSyncData => ({
+      nodeId: 'node1',
+      subscriptionName: 'sub1',
+      schemaName: 'public',
+      tableName,
+      state,
+      stateCode: state.charAt(0),
+      syncLsn: null,
+      workerPid: null,
+      workerStartedAt,
+      source: 'native',
+      timestamp,
+    });
+    const t0 = new Date('2024-06-01T12:00:00Z');
+    const t1 = new Date('2024-06-01T12:01:00Z');
+    const t2 = new Date('2024-06-01T12:02:00Z');
+    const workerStart = new Date('2024-06-01T11:30:00Z');
+
+    setTableSync('node1', [table('orders', 'data', t0), table('items', 'init', t0, workerStart)]);
+    setTableSync('node1', [table('orders', 'data', t1), table('items', 'data', t1)]);
+
+    let starts = useStore.getState().tableSyncStarts;
+    // First seen, or when the sync worker started if that was earlier
+    expect(starts.get('node1:sub1:public.orders')).toEqual(t0);
+    expect(starts.get('node1:sub1:public.items')).toEqual(workerStart);
+
+    setTableSync('node1', [table('orders', 'ready', t2), table('items', 'data', t2)]);
+
+    starts = useStore.getState().tableSyncStarts;
+    expect(starts.has('node1:sub1:public.orders')).toBe(false);
+    expect(starts.get('node1:sub1:public.items')).toEqual(workerStart);
+    expect(useStore.getState().tableSync.get('node1')?.[0]?.state).toBe('ready');
+  });
+
+  test('setSlotStats derives per-second rates from consecutive polls', () => {
+    const { setSlotStats } = useStore.getState();
+    const stats = (
+      spillBytes: number,
+      totalTxns: number,
+      timestamp: Date,
+      statsReset: Date | null = null
+    ): SlotStatsData => ({
+      nodeId: 'node1',
+      slotName: 'slot1',
+      spillTxns: 0,
+      spillBytes,
+      streamTxns: 0,
+      streamBytes: 0,
+      totalTxns,
+      totalBytes: 0,
+      statsReset,
+      timestamp,
+    });
+    const t0 = new Date('2024-06-01T12:00:00Z');
+    const t1 = new Date('2024-06-01T12:00:10Z');
+    const t2 = new Date('2024-06-01T12:00:20Z');
+
+    setSlotStats('node1', [stats(1000, 50, t0)]);
+    // No rate until a second poll
+    expect(useStore.getState().slotStatsRates.has('node1:slot1')).toBe(false);
+
+    setSlotStats('node1', [stats(51_000, 150, t1)]);
+    expect(useStore.getState().slotStatsRates.get('node1:slot1')).toMatchObject({
+      spillBytesPerSec: 5000,
+      totalTxnsPerSec: 10,
+      timestamp: t1,
+    });
+
+    // Counters were reset: no rate until the next poll
+    setSlotStats('node1', [stats(100, 5, t2, t2)]);
+    expect(useStore.getState().slotStatsRates.has('node1:slot1')).toBe(false);
+    expect(useStore.getState().slotStats.get('node1')?.[0]?.spillBytes).toBe(100);
+  });
+
+  test('setWalPosition derives a smoothed WAL rate and restarts it on promotion', () => {
+    const { setWalPosition } = useStore.getState();
+    const position = (lsn: string, seconds: number, inRecovery = false) => ({
+      nodeId: 'node1',
+      lsn,
+      inRecovery,
+      timestamp: new Date(Date.UTC(2024, 5, 1, 12, 0, seconds)),
+    });
+
+    setWalPosition('node1', position('0/1000000', 0));
+    expect(useStore.getState().walRates.has('node1')).toBe(false);
+
+    // 16 MB in 10s, then 0 bytes in 10s (smoothed, not dropped to zero)
+    setWalPosition('node1', position('0/2000000', 10));
+    expect(useStore.getState().walRates.get('node1')?.bytesPerSec).toBe(1677721.6);
+    setWalPosition('node1', position('0/2000000', 20));
+    expect(useStore.getState().walRates.get('node1')?.bytesPerSec).toBeCloseTo(1677721.6 * 0.7);
+
+    setWalPosition('node1', position('0/2100000', 30, true));
+    expect(useStore.getState().walRates.has('node1')).toBe(false);
+    expect(useStore.getState().walPositions.get('node1')?.inRecovery).toBe(true);
+  });
+
+  test('setSlots derives confirmed flush and retention rates from consecutive polls', () => {
+    const { setSlots } = useStore.getState();
+    const slot = (confirmedFlushLsn: string | null, retainedBytes: number, seconds: number) => ({
+      nodeId: 'node1',
+      slotName: 'slot1',
+      plugin: 'pgoutput',
+      slotType: 'logical' as const,
+      database: 'test',
+      active: true,
+      activePid: null,
+      retainedBytes,
+      pendingBytes: 0,
+      confirmedFlushLsn,
+      walStatus: null,
+      xminAge: null,
+      catalogXminAge: null,
+      safeWalSize: null,
+      maxSlotWalKeepSize: null,
+      twoPhase: null,
+      inactiveSince: null,
+      blocker: null,
+      isStale: false,
+      timestamp: new Date(Date.UTC(2024, 5, 1, 12, 0, seconds)),
+    });
+
+    setSlots('node1', [slot('0/1000000', 4096, 0)]);
+    expect(useStore.getState().slotWalRates.has('node1:slot1')).toBe(false);
+
+    setSlots('node1', [slot('0/1000A00', 6096, 10)]);
+    expect(useStore.getState().slotWalRates.get('node1:slot1')).toMatchObject({
+      confirmedFlushBytesPerSec: 256,
+      retainedBytesPerSec: 200,
+    });
+
+    // Confirmed flush went back: the slot was recreated
+    setSlots('node1', [slot('0/100', 0, 20)]);
+    expect(useStore.getState().slotWalRates.has('node1:slot1')).toBe(false);
+
+    setSlots('node1', []);
+    setSlots('node1', [slot('0/100', 0, 30)]);
+    expect(useStore.getState().slotWalRates.has('node1:slot1')).toBe(false);
+  });
+
+  test('tracks apply errors, worker restarts and auto-disabling per subscription', () => {
+    const { setSubscriptions, setConflicts } = useStore.getState();
+    const sub = (
+      workerPid: number | null,
+      timestamp: Date,
+      enabled = true
+    ): SubscriptionData => ({
+      nodeId: 'node1',
+      subscriptionName: 'sub1',
+      enabled,
+      disableOnError: true,
+      status: enabled ? 'replicating' : 'down',
+      providerNode: null,
+      providerHost: null,
+      providerPort: null,
+      slotName: 'sub1',
+      receivedLsn: null,
+      latestEndLsn: null,
+      replicationSets: ['pub'],
+      lastMessageTime: null,
+      workerPid,
+      source: 'native',
+      timestamp,
+    });
+    const errors = (applyErrorCount: number, timestamp: Date): ConflictData => ({
+      nodeId: 'node1',
+      subscriptionName: 'sub1',
+      applyErrorCount,
+      insertConflicts: 0,
+      updateOriginDiffers: 0,
+      updateExists: 0,
+      updateMissing: 0,
+      deleteOriginDiffers: 0,
+      deleteMissing: 0,
+      multipleUniqueConflicts: 0,
+      statsReset: null,
+      source: 'native',
+      timestamp,
+    });
+    const t0 = new Date('2024-06-01T12:00:00Z');
+    const t1 = new Date('2024-06-01T12:00:10Z');
+    const t2 = new Date('2024-06-01T12:00:20Z');
+    const t3 = new Date('2024-06-01T12:00:30Z');
+
+    setConflicts('node1', [errors(2, t0)]);
+    setSubscriptions('node1', [sub(100, t0)]);
+    // First poll is the baseline
+    expect(useStore.getState().workerHistory.get('node1:sub1')?.events).toEqual([]);
+
+    // Worker gone for a poll, then back with a new pid after two errors
+    setSubscriptions('node1', [sub(null, t1)]);
+    setConflicts('node1', [errors(4, t2)]);
+    setSubscriptions('node1', [sub(200, t2)]);
+
+    let history = useStore.getState().workerHistory.get('node1:sub1');
+    expect(history?.events).toEqual([
+      { type: 'apply_error', timestamp: t2, count: 2, previousPid: null, pid: null },
+      { type: 'worker_restart', timestamp: t2, count: 0, previousPid: 100, pid: 200 },
+    ]);
+    expect(history?.autoDisabled).toBe(false);
+
+    // The next error disables it
+    setConflicts('node1', [errors(5, t3)]);
+    setSubscriptions('node1', [sub(null, t3, false)]);
+
+    history = useStore.getState().workerHistory.get('node1:sub1');
+    expect(history?.events.map((event) => event.type)).toEqual([
+      'apply_error',
+      'worker_restart',
+      'apply_error',
+      'auto_disabled',
+    ]);
+    expect(history?.autoDisabled).toBe(true);
+
+    // Re-enabled by hand; dropped with the subscription
+    setSubscriptions('node1', [sub(300, new Date('2024-06-01T12:00:40Z'))]);
+    expect(useStore.getState().workerHistory.get('node1:sub1')?.autoDisabled).toBe(false);
+    setSubscriptions('node1', []);
+    expect(useStore.getState().workerHistory.has('node1:sub1')).toBe(false);
+  });
+
   test('appendLagSample adds sample to history', () => {
     const { appendLagSample } = useStore.getState();
     const sample: LagSample = {
@@ -201,6 +451,29 @@ describe('Replication Slice', () => {
     expect(history?.[299]?.lagBytes).toBe(304);
   });
 
+  test('restoreLagHistory prepends older samples to live history', () => {
+    const { appendLagSample, restoreLagHistory } = useStore.getState();
+    const at = (seconds: number) => new Date(Date.UTC(2024, 0, 1, 0, 0, seconds));
+
+    appendLagSample('node1', 'sub1', { timestamp: at(10), lagBytes: 10, lagSeconds: null });
+    restoreLagHistory(
+      new Map([
+        [
+          'node1:sub1',
+          [
+            { timestamp: at(1), lagBytes: 1, lagSeconds: 1 },
+            { timestamp: at(10), lagBytes: 99, lagSeconds: null },
+          ],
+        ],
+        ['node2:sub2', [{ timestamp: at(2), lagBytes: 2, lagSeconds: null }]],
+      ])
+    );
+
+    const { lagHistory } = useStore.getState();
+    expect(lagHistory.get('node1:sub1')?.map((s) => s.lagBytes)).toEqual([1, 10]);
+    expect(lagHistory.get('node2:sub2')?.map((s) => s.lagBytes)).toEqual([2]);
+  });
+
   test('markNodeStale adds node to stale set', () => {
     const { markNodeStale } = useStore.getState();
 
@@ -252,6 +525,81 @@ describe('Replication Slice', () => {
     expect(state.subscriptions.size).toBe(0);
     expect(state.staleNodes.size).toBe(0);
   });
+
+  test('handlePollingData records cycle duration and failed node queries', () => {
+    const { handlePollingData } = useStore.getState();
+    const failed = {
+      nodeId: 'node1',
+      nodeName: 'node1',
+      success: false,
+      error: new Error('connection refused'),
+      durationMs: 5,
+      hasPglogical: false,
+    };
+
+    handlePollingData({
+      cycleId: 'c1',
+      startedAt: new Date(),
+      completedAt: new Date(),
+      durationMs: 42,
+      stats: [failed],
+      subscriptions: [failed],
+      slots: [failed],
+      conflicts: [failed],
+      conflictEvents: [failed],
+      tableSync: [failed],
+      slotStats: [failed],
+      walReceivers: [failed],
+      walPositions: [failed],
+      publications: [failed],
+      sequences: [failed],
+      capabilities: [failed],
+    });
+
+    const state = useStore.getState();
+    expect(state.lastCycleDurationMs).toBe(42);
+    expect(state.pollingCycleCount).toBe(1);
+    // One failed node counts once per cycle, not once per category
+    expect(state.queryErrorCounts.get('node1')).toBe(1);
+  });
+
+  test('removeNodeData drops all data for a node', () => {
+    const { initializeNodesInfo, markNodeStale, appendLagSample, removeNodeData } =
+      useStore.getState();
+    initializeNodesInfo([
+      { id: 'node1', name: 'One', host: 'localhost', port: 5432, database: 'test', hasPglogical: false },
+      { id: 'node2', name: 'Two', host: 'localhost', port: 5433, database: 'test', hasPglogical: false },
+    ]);
+    markNodeStale('node1');
+    appendLagSample('node1', 'sub1', { timestamp: new Date(), lagBytes: 1, lagSeconds: null });
+    appendLagSample('node2', 'sub1', { timestamp: new Date(), lagBytes: 1, lagSeconds: null });
+
+    removeNodeData('node1');
+
+    const state = useStore.getState();
+    expect(state.nodes.has('node1')).toBe(false);
+    expect(state.nodes.has('node2')).toBe(true);
+    expect(state.staleNodes.has('node1')).toBe(false);
+    expect(state.lagHistory.has('node1:sub1')).toBe(false);
+    expect(state.lagHistory.has('node2:sub1')).toBe(true);
+  });
+
+  test('handlePollingError counts cycle-level errors', () => {
+    const { handlePollingError } = useStore.getState();
+    const error = {
+      message: 'All nodes failed during poll cycle',
+      cycleId: 'c1',
+      nodeErrors: [],
+      timestamp: new Date(),
+    };
+
+    handlePollingError(error);
+    handlePollingError(error);
+
+    const state = useStore.getState();
+    expect(state.pollingErrorCount).toBe(2);
+    expect(state.lastPollingError).toEqual(error);
+  });
 });
 
 describe('UI Slice', () => {
@@ -285,10 +633,19 @@ describe('UI Slice', () => {
     focusNextPanel(); // subscriptions -> slots
     expect(useStore.getState().focusedPanel).toBe('slots');
 
-    focusNextPanel(); // slots -> conflicts
+    focusNextPanel(); // slots -> publications
+    expect(useStore.getState().focusedPanel).toBe('publications');
+
+    focusNextPanel(); // publications -> conflicts
     expect(useStore.getState().focusedPanel).toBe('conflicts');
 
-    focusNextPanel(); // conflicts -> operations
+    focusNextPanel(); // conflicts -> alerts
+    expect(useStore.getState().focusedPanel).toBe('alerts');
+
+    focusNextPanel(); // alerts -> timeline
+    expect(useStore.getState().focusedPanel).toBe('timeline');
+
+    focusNextPanel(); // timeline -> operations
     expect(useStore.getState().focusedPanel).toBe('operations');
 
     focusNextPanel(); // operations -> topology (wrap)
@@ -301,8 +658,8 @@ describe('UI Slice', () => {
     focusPreviousPanel(); // topology -> operations (wrap)
     expect(useStore.getState().focusedPanel).toBe('operations');
 
-    focusPreviousPanel(); // operations -> conflicts
-    expect(useStore.getState().focusedPanel).toBe('conflicts');
+    focusPreviousPanel(); // operations -> timeline
+    expect(useStore.getState().focusedPanel).toBe('timeline');
   });
 
   test('openModal sets modal state and preserves focus', () => {
@@ -390,4 +747,114 @@ describe('UI Slice', () => {
     expect(state.activeModal).toBe(null);
     expect(state.selections.get('topology')).toBe(null);
   });
+
+  test('cycleTimelineWindow zooms through windows and hides the cursor', () => {
+    const { cycleTimelineWindow, moveTimelineCursor } = useStore.getState();
+    moveTimelineCursor(1, 50);
+
+    cycleTimelineWindow();
+    expect(useStore.getState().timelineWindow).toBe('1h');
+    expect(useStore.getState().timelineCursor).toBe(null);
+
+    cycleTimelineWindow();
+    expect(useStore.getState().timelineWindow).toBe('24h');
+
+    cycleTimelineWindow(); // wrap
+    expect(useStore.getState().timelineWindow).toBe('5m');
+  });
+
+  test('moveTimelineCursor starts at now and clamps to the chart', () => {
+    const { moveTimelineCursor, clearTimelineCursor } = useStore.getState();
+
+    moveTimelineCursor(1, 3); // first move shows the cursor
+    expect(useStore.getState().timelineCursor).toBe(0);
+
+    moveTimelineCursor(1, 3);
+    moveTimelineCursor(5, 3);
+    expect(useStore.getState().timelineCursor).toBe(3);
+
+    moveTimelineCursor(-10, 3);
+    expect(useStore.getState().timelineCursor).toBe(0);
+
+    clearTimelineCursor();
+    expect(useStore.getState().timelineCursor).toBe(null);
+  });
+
+  test('toggleTimelineSeries hides and shows a subscription', () => {
+    const { toggleTimelineSeries, toggleTimelineChartStyle } = useStore.getState();
+
+    toggleTimelineSeries('node1:sub1');
+    expect(useStore.getState().hiddenTimelineSeries.has('node1:sub1')).toBe(true);
+
+    toggleTimelineSeries('node1:sub1');
+    expect(useStore.getState().hiddenTimelineSeries.has('node1:sub1')).toBe(false);
+
+    toggleTimelineChartStyle();
+    expect(useStore.getState().timelineChartStyle).toBe('block');
+  });
+});
+
+describe('Alerts Slice', () => {
+  const now = new Date('2024-06-01T12:00:00Z');
+
+  const alert: Alert = {
+    id: 'replication_lag:node1:replica',
+    metric: 'replication_lag',
+    nodeId: 'node1',
+    subject: 'replica',
+    severity: 'warning',
+    state: 'firing',
+    value: 15,
+    threshold: 10,
+    pendingSince: now,
+    firedAt: now,
+    lastEvaluatedAt: now,
+  };
+
+  function event(id: string): AlertEvent {
+    return {
+      id,
+      alertId: alert.id,
+      metric: alert.metric,
+      nodeId: alert.nodeId,
+      subject: alert.subject,
+      severity: alert.severity,
+      transition: 'firing',
+      value: alert.value,
+      threshold: alert.threshold,
+      firedAt: now,
+      timestamp: now,
+    };
+  }
+
+  test('applyAlertEvaluation replaces active alerts and prepends history', () => {
+    const { applyAlertEvaluation } = useStore.getState();
+
+    applyAlertEvaluation({ alerts: [alert], events: [event('e1')] });
+    applyAlertEvaluation({ alerts: [], events: [event('e2'), event('e3')] });
+
+    const state = useStore.getState();
+    expect(state.alerts.size).toBe(0);
+    expect(state.alertHistory.map((e) => e.id)).toEqual(['e3', 'e2', 'e1']);
+  });
+
+  test('alert history is capped', () => {
+    const { applyAlertEvaluation } = useStore.getState();
+    const events = Array.from({ length: MAX_ALERT_HISTORY + 5 }, (_, i) => event(`e${i}`));
+
+    applyAlertEvaluation({ alerts: [], events });
+
+    const { alertHistory } = useStore.getState();
+    expect(alertHistory).toHaveLength(MAX_ALERT_HISTORY);
+    expect(alertHistory[0]!.id).toBe(`e${MAX_ALERT_HISTORY + 4}`);
+  });
+
+  test('removeNodeData drops alerts for the node', () => {
+    const { applyAlertEvaluation, removeNodeData } = useStore.getState();
+    applyAlertEvaluation({ alerts: [alert], events: [] });
+
+    removeNodeData('node1');
+
+    expect(useStore.getState().alerts.size).toBe(0);
+  });
 });
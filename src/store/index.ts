@@ -1,7 +1,8 @@
 /**
  * Combined Zustand Store
  *
- * Merges connection, replication, and UI slices with devtools middleware.
+ * Merges connection, replication, UI, operations, alerts, and replay slices with
+ * devtools middleware.
  *
  * Feature: 005-state-management
  */
@@ -20,6 +21,8 @@ import type {
 import { createReplicationSlice } from './replication.js';
 import { createUISlice } from './ui.js';
 import { createOperationsSlice } from './operations.js';
+import { createAlertsSlice } from './alerts.js';
+import { createReplaySlice } from './replay.js';
 
 // Re-export types for convenience
 export * from './types.js';
@@ -163,6 +166,12 @@ export const useStore = create<ReplmonStore>()(
 
       // === Operations Slice ===
       ...createOperationsSlice(set, get, api),
+
+      // === Alerts Slice ===
+      ...createAlertsSlice(set, get, api),
+
+      // === Replay Slice ===
+      ...createReplaySlice(set, get, api),
     })),
     {
       name: 'replmon-store',
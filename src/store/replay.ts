@@ -0,0 +1,34 @@
+/**
+ * Replay Slice
+ *
+ * Holds playback status while a recorded session is replayed. The
+ * ReplayController drives playback; this slice only mirrors its status
+ * for the header and footer.
+ */
+
+import type { StateCreator } from 'zustand';
+import type { ReplmonStore } from './types.js';
+import type { ReplaySliceState, ReplaySliceActions, ReplayStatus } from '../types/replay.js';
+
+/**
+ * Replay slice type (state + actions).
+ */
+export type ReplaySlice = ReplaySliceState & ReplaySliceActions;
+
+/**
+ * Creates the replay slice for the combined store.
+ */
+export const createReplaySlice: StateCreator<
+  ReplmonStore,
+  [['zustand/subscribeWithSelector', never], ['zustand/devtools', never]],
+  [],
+  ReplaySlice
+> = (set) => ({
+  // Initial state
+  replay: null,
+
+  // Actions
+
+  setReplayStatus: (status: ReplayStatus | null) =>
+    set({ replay: status }, undefined, 'replay/setReplayStatus'),
+});
@@ -19,15 +19,299 @@ import type {
   ConflictData,
   ConflictEvent,
   ConflictEventSource,
+  TableSyncData,
+  SlotStatsData,
+  SlotStatsRates,
+  WorkerEvent,
+  WorkerHistory,
+  WalReceiverData,
+  WalPositionData,
+  WalRate,
+  SlotWalRates,
+  PublicationData,
+  SequenceData,
+  NodeCapabilities,
   PollingCycleResult,
+  PollingError,
 } from './types.js';
-import { MAX_LAG_HISTORY_SAMPLES } from './types.js';
+import { MAX_LAG_HISTORY_SAMPLES, MAX_WORKER_EVENTS } from './types.js';
+import { getTableSyncKey, isInitialSync } from '../utils/table-sync.js';
+import { diffLsn, smoothRate } from '../utils/wal-rate.js';
 
 /**
  * Replication slice type (state + actions).
  */
 export type ReplicationSlice = ReplicationSliceState & ReplicationSliceActions;
 
+/**
+ * Update initial sync start times for one node's tables in place.
+ * A start is the earliest of when the table was first seen in initial sync
+ * and when its current sync worker started; it is dropped once the table
+ * is synchronized or no longer subscribed.
+ */
+function trackTableSyncStarts(
+  starts: Map<string, Date>,
+  nodeId: string,
+  tables: TableSyncData[]
+): void {
+  const syncing = new Set<string>();
+  for (const table of tables) {
+    if (!isInitialSync(table.state)) continue;
+    const key = getTableSyncKey(table);
+    syncing.add(key);
+
+    const seen = table.workerStartedAt ?? table.timestamp;
+    const previous = starts.get(key);
+    if (!previous || seen < previous) {
+      starts.set(key, seen);
+    }
+  }
+
+  for (const key of starts.keys()) {
+    if (key.startsWith(`${nodeId}:`) && !syncing.has(key)) {
+      starts.delete(key);
+    }
+  }
+}
+
+/**
+ * Update decoding rates for one node's slots in place from the previous
+ * and current counters. A slot has no rate on its first poll or when its
+ * counters were reset in between; slots that are gone lose theirs.
+ */
+function trackSlotStatsRates(
+  rates: Map<string, SlotStatsRates>,
+  nodeId: string,
+  previous: SlotStatsData[],
+  current: SlotStatsData[]
+): void {
+  const present = new Set<string>();
+  for (const stats of current) {
+    const key = `${nodeId}:${stats.slotName}`;
+    present.add(key);
+
+    const before = previous.find((candidate) => candidate.slotName === stats.slotName);
+    const seconds = before ? (stats.timestamp.getTime() - before.timestamp.getTime()) / 1000 : 0;
+    // Same sample again (e.g. a replayed frame); keep the last rate
+    if (before && seconds <= 0) continue;
+
+    const reset =
+      !before ||
+      (before.statsReset?.getTime() ?? null) !== (stats.statsReset?.getTime() ?? null) ||
+      stats.spillBytes < before.spillBytes ||
+      stats.streamBytes < before.streamBytes ||
+      stats.totalBytes < before.totalBytes;
+    if (reset) {
+      rates.delete(key);
+      continue;
+    }
+
+    rates.set(key, {
+      spillTxnsPerSec: (stats.spillTxns - before.spillTxns) / seconds,
+      spillBytesPerSec: (stats.spillBytes - before.spillBytes) / seconds,
+      streamTxnsPerSec: (stats.streamTxns - before.streamTxns) / seconds,
+      streamBytesPerSec: (stats.streamBytes - before.streamBytes) / seconds,
+      totalTxnsPerSec: (stats.totalTxns - before.totalTxns) / seconds,
+      totalBytesPerSec: (stats.totalBytes - before.totalBytes) / seconds,
+      timestamp: stats.timestamp,
+    });
+  }
+
+  for (const key of rates.keys()) {
+    if (key.startsWith(`${nodeId}:`) && !present.has(key)) {
+      rates.delete(key);
+    }
+  }
+}
+
+/**
+ * Update the WAL generation rate of one node in place from the previous
+ * and current position. The rate starts over when the position went back
+ * or switched between current and replayed (promotion), and is dropped
+ * when the position is unknown.
+ */
+function trackWalRate(
+  rates: Map<string, WalRate>,
+  nodeId: string,
+  previous: WalPositionData | undefined,
+  current: WalPositionData | undefined
+): void {
+  if (!current || !previous) {
+    rates.delete(nodeId);
+    return;
+  }
+
+  const seconds = (current.timestamp.getTime() - previous.timestamp.getTime()) / 1000;
+  // Same sample again (e.g. a replayed frame); keep the last rate
+  if (seconds <= 0) return;
+
+  const bytes = diffLsn(current.lsn, previous.lsn);
+  if (bytes === null || bytes < 0 || current.inRecovery !== previous.inRecovery) {
+    rates.delete(nodeId);
+    return;
+  }
+
+  rates.set(nodeId, {
+    bytesPerSec: smoothRate(rates.get(nodeId)?.bytesPerSec ?? null, bytes / seconds),
+    timestamp: current.timestamp,
+  });
+}
+
+/**
+ * Update WAL rates for one node's slots in place from the previous and
+ * current poll. A slot has no rate on its first poll or when its confirmed
+ * flush position went back (slot recreated); slots that are gone lose theirs.
+ */
+function trackSlotWalRates(
+  rates: Map<string, SlotWalRates>,
+  nodeId: string,
+  previous: SlotData[],
+  current: SlotData[]
+): void {
+  const present = new Set<string>();
+  for (const slot of current) {
+    const key = `${nodeId}:${slot.slotName}`;
+    present.add(key);
+
+    const before = previous.find((candidate) => candidate.slotName === slot.slotName);
+    const seconds = before ? (slot.timestamp.getTime() - before.timestamp.getTime()) / 1000 : 0;
+    // Same sample again (e.g. a replayed frame); keep the last rates
+    if (before && seconds <= 0) continue;
+
+    const flushed =
+      before?.confirmedFlushLsn && slot.confirmedFlushLsn
+        ? diffLsn(slot.confirmedFlushLsn, before.confirmedFlushLsn)
+        : null;
+    if (!before || (flushed !== null && flushed < 0)) {
+      rates.delete(key);
+      continue;
+    }
+
+    const last = rates.get(key);
+    rates.set(key, {
+      confirmedFlushBytesPerSec:
+        flushed === null
+          ? null
+          : smoothRate(last?.confirmedFlushBytesPerSec ?? null, flushed / seconds),
+      retainedBytesPerSec: smoothRate(
+        last?.retainedBytesPerSec ?? null,
+        (slot.retainedBytes - before.retainedBytes) / seconds
+      ),
+      timestamp: slot.timestamp,
+    });
+  }
+
+  for (const key of rates.keys()) {
+    if (key.startsWith(`${nodeId}:`) && !present.has(key)) {
+      rates.delete(key);
+    }
+  }
+}
+
+/**
+ * Subscriptions and apply error counters of one node at one poll.
+ */
+interface WorkerSnapshot {
+  subscriptions: SubscriptionData[];
+  conflicts: ConflictData[];
+}
+
+/**
+ * Update apply worker histories for one node's subscriptions in place from
+ * the previous and current poll. Records apply errors (counter increases,
+ * not resets), apply worker pid changes, and disable_on_error disabling a
+ * subscription after an apply error; subscriptions that are gone lose
+ * their history.
+ */
+function trackWorkerHistory(
+  histories: Map<string, WorkerHistory>,
+  nodeId: string,
+  previous: WorkerSnapshot,
+  current: WorkerSnapshot
+): void {
+  const present = new Set<string>();
+  for (const sub of current.subscriptions) {
+    const key = `${nodeId}:${sub.subscriptionName}`;
+    present.add(key);
+
+    const history = histories.get(key);
+    const events: WorkerEvent[] = [];
+    const errors = current.conflicts.find(
+      (row) => row.subscriptionName === sub.subscriptionName && row.source === 'native'
+    );
+    const errorsBefore = previous.conflicts.find(
+      (row) => row.subscriptionName === sub.subscriptionName && row.source === 'native'
+    );
+    const reset =
+      !errors ||
+      !errorsBefore ||
+      (errorsBefore.statsReset?.getTime() ?? null) !== (errors.statsReset?.getTime() ?? null);
+    if (!reset && errors.applyErrorCount > errorsBefore.applyErrorCount) {
+      events.push({
+        type: 'apply_error',
+        timestamp: errors.timestamp,
+        count: errors.applyErrorCount - errorsBefore.applyErrorCount,
+        previousPid: null,
+        pid: null,
+      });
+    }
+
+    const lastPid = history?.lastPid ?? null;
+    if (sub.workerPid !== null && lastPid !== null && sub.workerPid !== lastPid) {
+      events.push({
+        type: 'worker_restart',
+        timestamp: sub.timestamp,
+        count: 0,
+        previousPid: lastPid,
+        pid: sub.workerPid,
+      });
+    }
+
+    // The error is counted before the worker disables the subscription, so it
+    // shows up in the same poll or, when counters are polled first, the one before
+    const subBefore = previous.subscriptions.find(
+      (candidate) => candidate.subscriptionName === sub.subscriptionName
+    );
+    const erroredSince = [...(history?.events ?? []), ...events].some(
+      (event) =>
+        event.type === 'apply_error' && (!subBefore || event.timestamp > subBefore.timestamp)
+    );
+    const disabledNow =
+      subBefore?.enabled === true && !sub.enabled && sub.disableOnError === true && erroredSince;
+    if (disabledNow) {
+      events.push({
+        type: 'auto_disabled',
+        timestamp: sub.timestamp,
+        count: 0,
+        previousPid: null,
+        pid: null,
+      });
+    }
+
+    const autoDisabled = !sub.enabled && (disabledNow || (history?.autoDisabled ?? false));
+    const nextPid = sub.workerPid ?? lastPid;
+    const unchanged =
+      history !== undefined &&
+      events.length === 0 &&
+      history.lastPid === nextPid &&
+      history.autoDisabled === autoDisabled;
+    if (unchanged) continue;
+
+    const merged = [...(history?.events ?? []), ...events];
+    histories.set(key, {
+      lastPid: nextPid,
+      autoDisabled,
+      events: merged.length > MAX_WORKER_EVENTS ? merged.slice(-MAX_WORKER_EVENTS) : merged,
+    });
+  }
+
+  for (const key of histories.keys()) {
+    if (key.startsWith(`${nodeId}:`) && !present.has(key)) {
+      histories.delete(key);
+    }
+  }
+}
+
 /**
  * Creates the replication slice for the combined store.
  */
@@ -44,9 +328,26 @@ export const createReplicationSlice: StateCreator<
   conflicts: new Map(),
   conflictEvents: new Map(),
   conflictSources: new Map(),
+  tableSync: new Map(),
+  tableSyncStarts: new Map(),
+  slotStats: new Map(),
+  slotStatsRates: new Map(),
+  walReceivers: new Map(),
+  walPositions: new Map(),
+  walRates: new Map(),
+  slotWalRates: new Map(),
+  publications: new Map(),
+  sequences: new Map(),
+  capabilities: new Map(),
+  workerHistory: new Map(),
   lagHistory: new Map(),
   staleNodes: new Set(),
   lastUpdated: new Map(),
+  lastCycleDurationMs: null,
+  pollingCycleCount: 0,
+  queryErrorCounts: new Map(),
+  pollingErrorCount: 0,
+  lastPollingError: null,
 
   // Actions
 
@@ -67,8 +368,16 @@ export const createReplicationSlice: StateCreator<
     set(
       (state) => {
         const subscriptions = new Map(state.subscriptions);
+        const workerHistory = new Map(state.workerHistory);
+        const conflicts = state.conflicts.get(nodeId) ?? [];
+        trackWorkerHistory(
+          workerHistory,
+          nodeId,
+          { subscriptions: state.subscriptions.get(nodeId) ?? [], conflicts },
+          { subscriptions: data, conflicts }
+        );
         subscriptions.set(nodeId, data);
-        return { subscriptions };
+        return { subscriptions, workerHistory };
       },
       undefined,
       'replication/setSubscriptions'
@@ -78,8 +387,10 @@ export const createReplicationSlice: StateCreator<
     set(
       (state) => {
         const slots = new Map(state.slots);
+        const slotWalRates = new Map(state.slotWalRates);
+        trackSlotWalRates(slotWalRates, nodeId, state.slots.get(nodeId) ?? [], data);
         slots.set(nodeId, data);
-        return { slots };
+        return { slots, slotWalRates };
       },
       undefined,
       'replication/setSlots'
@@ -89,8 +400,16 @@ export const createReplicationSlice: StateCreator<
     set(
       (state) => {
         const conflicts = new Map(state.conflicts);
+        const workerHistory = new Map(state.workerHistory);
+        const subscriptions = state.subscriptions.get(nodeId) ?? [];
+        trackWorkerHistory(
+          workerHistory,
+          nodeId,
+          { subscriptions, conflicts: state.conflicts.get(nodeId) ?? [] },
+          { subscriptions, conflicts: data }
+        );
         conflicts.set(nodeId, data);
-        return { conflicts };
+        return { conflicts, workerHistory };
       },
       undefined,
       'replication/setConflicts'
@@ -118,6 +437,89 @@ export const createReplicationSlice: StateCreator<
       'replication/setConflictSource'
     ),
 
+  setTableSync: (nodeId: string, data: TableSyncData[]) =>
+    set(
+      (state) => {
+        const tableSync = new Map(state.tableSync);
+        const tableSyncStarts = new Map(state.tableSyncStarts);
+        tableSync.set(nodeId, data);
+        trackTableSyncStarts(tableSyncStarts, nodeId, data);
+        return { tableSync, tableSyncStarts };
+      },
+      undefined,
+      'replication/setTableSync'
+    ),
+
+  setSlotStats: (nodeId: string, data: SlotStatsData[]) =>
+    set(
+      (state) => {
+        const slotStats = new Map(state.slotStats);
+        const slotStatsRates = new Map(state.slotStatsRates);
+        trackSlotStatsRates(slotStatsRates, nodeId, state.slotStats.get(nodeId) ?? [], data);
+        slotStats.set(nodeId, data);
+        return { slotStats, slotStatsRates };
+      },
+      undefined,
+      'replication/setSlotStats'
+    ),
+
+  setWalReceivers: (nodeId: string, data: WalReceiverData[]) =>
+    set(
+      (state) => {
+        const walReceivers = new Map(state.walReceivers);
+        walReceivers.set(nodeId, data);
+        return { walReceivers };
+      },
+      undefined,
+      'replication/setWalReceivers'
+    ),
+
+  setWalPosition: (nodeId: string, data: WalPositionData) =>
+    set(
+      (state) => {
+        const walPositions = new Map(state.walPositions);
+        const walRates = new Map(state.walRates);
+        trackWalRate(walRates, nodeId, state.walPositions.get(nodeId), data);
+        walPositions.set(nodeId, data);
+        return { walPositions, walRates };
+      },
+      undefined,
+      'replication/setWalPosition'
+    ),
+
+  setPublications: (nodeId: string, data: PublicationData[]) =>
+    set(
+      (state) => {
+        const publications = new Map(state.publications);
+        publications.set(nodeId, data);
+        return { publications };
+      },
+      undefined,
+      'replication/setPublications'
+    ),
+
+  setSequences: (nodeId: string, data: SequenceData[]) =>
+    set(
+      (state) => {
+        const sequences = new Map(state.sequences);
+        sequences.set(nodeId, data);
+        return { sequences };
+      },
+      undefined,
+      'replication/setSequences'
+    ),
+
+  setCapabilities: (nodeId: string, data: NodeCapabilities) =>
+    set(
+      (state) => {
+        const capabilities = new Map(state.capabilities);
+        capabilities.set(nodeId, data);
+        return { capabilities };
+      },
+      undefined,
+      'replication/setCapabilities'
+    ),
+
   appendLagSample: (
     nodeId: string,
     subscriptionName: string,
@@ -144,6 +546,33 @@ export const createReplicationSlice: StateCreator<
       'replication/appendLagSample'
     ),
 
+  restoreLagHistory: (history: Map<string, LagSample[]>) =>
+    set(
+      (state) => {
+        const lagHistory = new Map(state.lagHistory);
+
+        // Restored samples precede live ones; FIFO eviction drops the oldest
+        for (const [key, restored] of history) {
+          const live = lagHistory.get(key) ?? [];
+          const firstLive = live[0]?.timestamp.getTime() ?? Infinity;
+          const updated = [
+            ...restored.filter((sample) => sample.timestamp.getTime() < firstLive),
+            ...live,
+          ];
+          lagHistory.set(
+            key,
+            updated.length > MAX_LAG_HISTORY_SAMPLES
+              ? updated.slice(-MAX_LAG_HISTORY_SAMPLES)
+              : updated
+          );
+        }
+
+        return { lagHistory };
+      },
+      undefined,
+      'replication/restoreLagHistory'
+    ),
+
   markNodeStale: (nodeId: string) =>
     set(
       (state) => {
@@ -201,10 +630,30 @@ export const createReplicationSlice: StateCreator<
         const staleNodes = new Set(state.staleNodes);
         const lastUpdated = new Map(state.lastUpdated);
         const nodes = new Map(state.nodes);
+        const queryErrorCounts = new Map(state.queryErrorCounts);
+
+        // Count failed node queries (a failed node fails every category)
+        const failedNodes = new Set<string>();
+        for (const nodeData of [...result.stats, ...result.slots, ...result.subscriptions]) {
+          if (!nodeData.success) {
+            failedNodes.add(nodeData.nodeId);
+          }
+        }
+        for (const nodeId of failedNodes) {
+          queryErrorCounts.set(nodeId, (queryErrorCounts.get(nodeId) ?? 0) + 1);
+        }
 
-        // Process slots first (needed for lag calculation)
+        // Process slots first (needed for lag calculation), with their WAL
+        // rates from the previous poll
+        const slotWalRates = new Map(state.slotWalRates);
         for (const nodeData of result.slots) {
           if (nodeData.success && nodeData.data) {
+            trackSlotWalRates(
+              slotWalRates,
+              nodeData.nodeId,
+              slots.get(nodeData.nodeId) ?? [],
+              nodeData.data
+            );
             slots.set(nodeData.nodeId, nodeData.data);
             staleNodes.delete(nodeData.nodeId);
             lastUpdated.set(nodeData.nodeId, result.completedAt);
@@ -282,6 +731,28 @@ export const createReplicationSlice: StateCreator<
           }
         }
 
+        // Track apply workers of nodes whose subscriptions or error counters were polled
+        const workerHistory = new Map(state.workerHistory);
+        const workerNodes = new Set(
+          [...result.subscriptions, ...result.conflicts]
+            .filter((nodeData) => nodeData.success && nodeData.data)
+            .map((nodeData) => nodeData.nodeId)
+        );
+        for (const nodeId of workerNodes) {
+          trackWorkerHistory(
+            workerHistory,
+            nodeId,
+            {
+              subscriptions: state.subscriptions.get(nodeId) ?? [],
+              conflicts: state.conflicts.get(nodeId) ?? [],
+            },
+            {
+              subscriptions: subscriptions.get(nodeId) ?? [],
+              conflicts: conflicts.get(nodeId) ?? [],
+            }
+          );
+        }
+
         // Process conflict events (individual records from pglogical)
         const conflictEvents = new Map(state.conflictEvents);
         const conflictSources = new Map(state.conflictSources);
@@ -312,6 +783,90 @@ export const createReplicationSlice: StateCreator<
           }
         }
 
+        // Process per-table sync states
+        const tableSync = new Map(state.tableSync);
+        const tableSyncStarts = new Map(state.tableSyncStarts);
+        for (const nodeData of result.tableSync) {
+          if (nodeData.success && nodeData.data) {
+            tableSync.set(nodeData.nodeId, nodeData.data);
+            trackTableSyncStarts(tableSyncStarts, nodeData.nodeId, nodeData.data);
+            staleNodes.delete(nodeData.nodeId);
+            lastUpdated.set(nodeData.nodeId, result.completedAt);
+          }
+        }
+
+        // Process slot decoding statistics (rates from the previous poll)
+        const slotStats = new Map(state.slotStats);
+        const slotStatsRates = new Map(state.slotStatsRates);
+        for (const nodeData of result.slotStats) {
+          if (nodeData.success && nodeData.data) {
+            trackSlotStatsRates(
+              slotStatsRates,
+              nodeData.nodeId,
+              slotStats.get(nodeData.nodeId) ?? [],
+              nodeData.data
+            );
+            slotStats.set(nodeData.nodeId, nodeData.data);
+            staleNodes.delete(nodeData.nodeId);
+            lastUpdated.set(nodeData.nodeId, result.completedAt);
+          }
+        }
+
+        // Process WAL receivers (standby side of physical replication)
+        const walReceivers = new Map(state.walReceivers);
+        for (const nodeData of result.walReceivers) {
+          if (nodeData.success && nodeData.data) {
+            walReceivers.set(nodeData.nodeId, nodeData.data);
+            staleNodes.delete(nodeData.nodeId);
+            lastUpdated.set(nodeData.nodeId, result.completedAt);
+          }
+        }
+
+        // Process WAL positions (generation rate from the previous poll)
+        const walPositions = new Map(state.walPositions);
+        const walRates = new Map(state.walRates);
+        for (const nodeData of result.walPositions) {
+          if (nodeData.success && nodeData.data) {
+            const position = nodeData.data[0];
+            trackWalRate(walRates, nodeData.nodeId, walPositions.get(nodeData.nodeId), position);
+            if (position) {
+              walPositions.set(nodeData.nodeId, position);
+            } else {
+              walPositions.delete(nodeData.nodeId);
+            }
+            staleNodes.delete(nodeData.nodeId);
+            lastUpdated.set(nodeData.nodeId, result.completedAt);
+          }
+        }
+
+        // Process publications and replication sets
+        const publications = new Map(state.publications);
+        for (const nodeData of result.publications) {
+          if (nodeData.success && nodeData.data) {
+            publications.set(nodeData.nodeId, nodeData.data);
+            staleNodes.delete(nodeData.nodeId);
+            lastUpdated.set(nodeData.nodeId, result.completedAt);
+          }
+        }
+
+        // Process sequence values
+        const sequences = new Map(state.sequences);
+        for (const nodeData of result.sequences) {
+          if (nodeData.success && nodeData.data) {
+            sequences.set(nodeData.nodeId, nodeData.data);
+            staleNodes.delete(nodeData.nodeId);
+            lastUpdated.set(nodeData.nodeId, result.completedAt);
+          }
+        }
+
+        // Process capability probe results
+        const capabilities = new Map(state.capabilities);
+        for (const nodeData of result.capabilities) {
+          if (nodeData.success && nodeData.data) {
+            capabilities.set(nodeData.nodeId, nodeData.data);
+          }
+        }
+
         // Process replication stats for physical replication lag
         // This updates lag for subscriptions where we have streaming replication stats
         for (const nodeData of result.stats) {
@@ -353,16 +908,137 @@ export const createReplicationSlice: StateCreator<
           conflicts,
           conflictEvents,
           conflictSources,
+          tableSync,
+          tableSyncStarts,
+          slotStats,
+          slotStatsRates,
+          walReceivers,
+          walPositions,
+          walRates,
+          slotWalRates,
+          publications,
+          sequences,
+          capabilities,
+          workerHistory,
           lagHistory,
           staleNodes,
           lastUpdated,
           nodes,
+          lastCycleDurationMs: result.durationMs,
+          pollingCycleCount: state.pollingCycleCount + 1,
+          queryErrorCounts,
         };
       },
       undefined,
       'replication/handlePollingData'
     ),
 
+  handlePollingError: (error: PollingError) =>
+    set(
+      (state) => ({
+        pollingErrorCount: state.pollingErrorCount + 1,
+        lastPollingError: error,
+      }),
+      undefined,
+      'replication/handlePollingError'
+    ),
+
+  removeNodeData: (nodeId: string) =>
+    set(
+      (state) => {
+        const nodes = new Map(state.nodes);
+        const subscriptions = new Map(state.subscriptions);
+        const slots = new Map(state.slots);
+        const conflicts = new Map(state.conflicts);
+        const conflictEvents = new Map(state.conflictEvents);
+        const conflictSources = new Map(state.conflictSources);
+        const tableSync = new Map(state.tableSync);
+        const tableSyncStarts = new Map(state.tableSyncStarts);
+        const slotStats = new Map(state.slotStats);
+        const slotStatsRates = new Map(state.slotStatsRates);
+        const walReceivers = new Map(state.walReceivers);
+        const walPositions = new Map(state.walPositions);
+        const walRates = new Map(state.walRates);
+        const slotWalRates = new Map(state.slotWalRates);
+        const publications = new Map(state.publications);
+        const sequences = new Map(state.sequences);
+        const capabilities = new Map(state.capabilities);
+        const workerHistory = new Map(state.workerHistory);
+        const staleNodes = new Set(state.staleNodes);
+        const lastUpdated = new Map(state.lastUpdated);
+        const queryErrorCounts = new Map(state.queryErrorCounts);
+        nodes.delete(nodeId);
+        subscriptions.delete(nodeId);
+        slots.delete(nodeId);
+        conflicts.delete(nodeId);
+        conflictEvents.delete(nodeId);
+        conflictSources.delete(nodeId);
+        tableSync.delete(nodeId);
+        trackTableSyncStarts(tableSyncStarts, nodeId, []);
+        slotStats.delete(nodeId);
+        trackSlotStatsRates(slotStatsRates, nodeId, [], []);
+        walReceivers.delete(nodeId);
+        walPositions.delete(nodeId);
+        walRates.delete(nodeId);
+        trackSlotWalRates(slotWalRates, nodeId, [], []);
+        publications.delete(nodeId);
+        sequences.delete(nodeId);
+        capabilities.delete(nodeId);
+        trackWorkerHistory(
+          workerHistory,
+          nodeId,
+          { subscriptions: [], conflicts: [] },
+          { subscriptions: [], conflicts: [] }
+        );
+        staleNodes.delete(nodeId);
+        lastUpdated.delete(nodeId);
+        queryErrorCounts.delete(nodeId);
+
+        // Lag history is keyed by `${nodeId}:${subscriptionName}`
+        const lagHistory = new Map(state.lagHistory);
+        for (const key of lagHistory.keys()) {
+          if (key.startsWith(`${nodeId}:`)) {
+            lagHistory.delete(key);
+          }
+        }
+
+        const alerts = new Map(state.alerts);
+        for (const [id, alert] of alerts) {
+          if (alert.nodeId === nodeId) {
+            alerts.delete(id);
+          }
+        }
+
+        return {
+          nodes,
+          subscriptions,
+          slots,
+          conflicts,
+          conflictEvents,
+          conflictSources,
+          tableSync,
+          tableSyncStarts,
+          slotStats,
+          slotStatsRates,
+          walReceivers,
+          walPositions,
+          walRates,
+          slotWalRates,
+          publications,
+          sequences,
+          capabilities,
+          workerHistory,
+          staleNodes,
+          lastUpdated,
+          queryErrorCounts,
+          lagHistory,
+          alerts,
+        };
+      },
+      undefined,
+      'replication/removeNodeData'
+    ),
+
   clearReplicationData: () =>
     set(
       () => ({
@@ -372,9 +1048,26 @@ export const createReplicationSlice: StateCreator<
         conflicts: new Map(),
         conflictEvents: new Map(),
         conflictSources: new Map(),
+        tableSync: new Map(),
+        tableSyncStarts: new Map(),
+        slotStats: new Map(),
+        slotStatsRates: new Map(),
+        walReceivers: new Map(),
+        walPositions: new Map(),
+        walRates: new Map(),
+        slotWalRates: new Map(),
+        publications: new Map(),
+        sequences: new Map(),
+        capabilities: new Map(),
+        workerHistory: new Map(),
         lagHistory: new Map(),
         staleNodes: new Set(),
         lastUpdated: new Map(),
+        lastCycleDurationMs: null,
+        pollingCycleCount: 0,
+        queryErrorCounts: new Map(),
+        pollingErrorCount: 0,
+        lastPollingError: null,
       }),
       undefined,
       'replication/clearReplicationData'
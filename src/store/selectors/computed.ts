@@ -12,6 +12,7 @@ import type {
   Panel,
   ModalType,
 } from '../types.js';
+import { totalConflicts } from '../../utils/conflicts.js';
 
 // =============================================================================
 // Basic UI Selectors
@@ -205,15 +206,7 @@ export const selectTotalConflictCount: Selector<number> = (state) => {
   let count = 0;
   for (const conflicts of state.conflicts.values()) {
     for (const conflict of conflicts) {
-      count +=
-        conflict.applyErrorCount +
-        conflict.insertConflicts +
-        conflict.updateOriginDiffers +
-        conflict.updateExists +
-        conflict.updateMissing +
-        conflict.deleteOriginDiffers +
-        conflict.deleteMissing +
-        conflict.multipleUniqueConflicts;
+      count += conflict.applyErrorCount + totalConflicts(conflict);
     }
   }
   return count;
@@ -232,17 +225,7 @@ export const selectSubscriptionsWithConflicts: Selector<string[]> = (state) => {
   const subsWithConflicts: string[] = [];
   for (const conflicts of state.conflicts.values()) {
     for (const conflict of conflicts) {
-      const totalConflicts =
-        conflict.applyErrorCount +
-        conflict.insertConflicts +
-        conflict.updateOriginDiffers +
-        conflict.updateExists +
-        conflict.updateMissing +
-        conflict.deleteOriginDiffers +
-        conflict.deleteMissing +
-        conflict.multipleUniqueConflicts;
-
-      if (totalConflicts > 0) {
+      if (conflict.applyErrorCount + totalConflicts(conflict) > 0) {
         subsWithConflicts.push(`${conflict.nodeId}:${conflict.subscriptionName}`);
       }
     }
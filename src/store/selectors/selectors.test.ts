@@ -109,6 +109,7 @@ describe('Subscription Selectors', () => {
     nodeId,
     subscriptionName: name,
     enabled: true,
+    disableOnError: false,
     status,
     providerNode: null,
         providerHost: null,
@@ -171,9 +172,18 @@ describe('Slot Selectors', () => {
     slotType: type,
     database: 'test',
     active,
+    activePid: null,
     retainedBytes: 1024,
     pendingBytes: 512,
+    confirmedFlushLsn: null,
     walStatus: null,
+    xminAge: null,
+    catalogXminAge: null,
+    safeWalSize: null,
+    maxSlotWalKeepSize: null,
+    twoPhase: null,
+    inactiveSince: null,
+    blocker: null,
     isStale: !active && true,
     timestamp: new Date(),
   });
@@ -392,6 +402,7 @@ describe('Computed Selectors', () => {
       nodeId: 'node1',
       subscriptionName: 'sub1',
       enabled: true,
+      disableOnError: false,
       status: 'replicating' as const,
       providerNode: null,
         providerHost: null,
@@ -412,9 +423,18 @@ describe('Computed Selectors', () => {
       slotType: 'logical' as const,
       database: 'test',
       active: true,
+      activePid: null,
       retainedBytes: 1024,
       pendingBytes: 512,
+      confirmedFlushLsn: null,
       walStatus: null,
+      xminAge: null,
+      catalogXminAge: null,
+      safeWalSize: null,
+      maxSlotWalKeepSize: null,
+      twoPhase: null,
+      inactiveSince: null,
+      blocker: null,
       isStale: false,
       timestamp: new Date(),
     }]);
@@ -19,6 +19,8 @@ import {
   deriveNodeRole,
   getLagSeverity,
   createEdgeId,
+  deriveStandbyEdges,
+  deriveExternalNodes,
 } from '../../utils/topology.js';
 
 // =============================================================================
@@ -30,7 +32,7 @@ import {
  *
  * Edges are created from:
  * 1. pglogical subscriptions where providerNode matches a configured node
- * 2. Native streaming replication (derived from replication stats)
+ * 2. Physical standbys (derived from their WAL receivers)
  *
  * For bidirectional detection, we check if edges exist in both directions.
  */
@@ -65,6 +67,9 @@ export const selectTopologyEdges: Selector<TopologyEdge[]> = (state) => {
     }
   }
 
+  // Build edges from standby WAL receivers
+  edges.push(...deriveStandbyEdges(state.nodes, state.walReceivers));
+
   // Mark bidirectional edges
   // For each edge A→B, check if B→A also exists
   for (const edge of edges) {
@@ -97,7 +102,8 @@ export const selectNodeEdges =
 
 /**
  * Select aggregated node data for topology rendering.
- * Includes role, edges, and display state for each node.
+ * Includes role, edges, and display state for each node, followed by
+ * external upstreams of standbys.
  */
 export const selectTopologyNodes: Selector<TopologyNodeData[]> = (state) => {
   const edges = selectTopologyEdges(state);
@@ -121,11 +127,14 @@ export const selectTopologyNodes: Selector<TopologyNodeData[]> = (state) => {
       isStale,
       isSelected: nodeId === selectedNodeId,
       hasPglogical: nodeInfo.hasPglogical,
+      isExternal: false,
+      walReceiver: state.walReceivers.get(nodeId)?.[0] ?? null,
       outgoingEdges,
       incomingEdges,
     });
   }
 
+  nodes.push(...deriveExternalNodes(edges));
   return nodes;
 };
 
@@ -164,7 +173,7 @@ export const selectEdgeLag =
     return {
       lagSeconds: edge.lagSeconds,
       lagBytes: edge.lagBytes,
-      severity: getLagSeverity(edge.lagSeconds),
+      severity: getLagSeverity(edge.lagSeconds, state.thresholds.replicationLag),
     };
   };
 
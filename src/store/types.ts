@@ -22,6 +22,19 @@ import type {
   SubscriptionStatus as _SubscriptionStatus,
   SubscriptionSource as _SubscriptionSource,
   ConflictSource as _ConflictSource,
+  TableSyncData as _TableSyncData,
+  TableSyncState as _TableSyncState,
+  SlotStatsData as _SlotStatsData,
+  SlotBlocker as _SlotBlocker,
+  WalReceiverData as _WalReceiverData,
+  WalReceiverStatus as _WalReceiverStatus,
+  WalPositionData as _WalPositionData,
+  PublicationData as _PublicationData,
+  PublicationOperations as _PublicationOperations,
+  PublicationTable as _PublicationTable,
+  PublicationSequence as _PublicationSequence,
+  SequenceData as _SequenceData,
+  NodeCapabilities as _NodeCapabilities,
 } from '../services/polling/types.js';
 
 import type {
@@ -39,6 +52,21 @@ import type {
   OperationsSliceActions as _OperationsSliceActions,
 } from '../types/operations.js';
 
+import type {
+  ReplaySliceState as _ReplaySliceState,
+  ReplaySliceActions as _ReplaySliceActions,
+} from '../types/replay.js';
+
+import type {
+  TimelineWindow as _TimelineWindow,
+  TimelineChartStyle as _TimelineChartStyle,
+} from '../types/timeline.js';
+
+import type {
+  AlertsSliceState as _AlertsSliceState,
+  AlertsSliceActions as _AlertsSliceActions,
+} from '../types/alerts.js';
+
 // Re-export types for use in store
 export type ReplicationStats = _ReplicationStats;
 export type SlotData = _SlotData;
@@ -54,12 +82,31 @@ export type WalStatus = _WalStatus;
 export type SubscriptionStatus = _SubscriptionStatus;
 export type SubscriptionSource = _SubscriptionSource;
 export type ConflictSource = _ConflictSource;
+export type TableSyncData = _TableSyncData;
+export type TableSyncState = _TableSyncState;
+export type SlotStatsData = _SlotStatsData;
+export type SlotBlocker = _SlotBlocker;
+export type WalReceiverData = _WalReceiverData;
+export type WalReceiverStatus = _WalReceiverStatus;
+export type WalPositionData = _WalPositionData;
+export type PublicationData = _PublicationData;
+export type PublicationOperations = _PublicationOperations;
+export type PublicationTable = _PublicationTable;
+export type PublicationSequence = _PublicationSequence;
+export type SequenceData = _SequenceData;
+export type NodeCapabilities = _NodeCapabilities;
 export type ConflictEvent = _ConflictEvent;
 export type ConflictEventSource = _ConflictEventSource;
 export type HealthStatus = _HealthStatus;
 export type PoolStats = _PoolStats;
 export type OperationsSliceState = _OperationsSliceState;
 export type OperationsSliceActions = _OperationsSliceActions;
+export type AlertsSliceState = _AlertsSliceState;
+export type AlertsSliceActions = _AlertsSliceActions;
+export type ReplaySliceState = _ReplaySliceState;
+export type ReplaySliceActions = _ReplaySliceActions;
+export type TimelineWindow = _TimelineWindow;
+export type TimelineChartStyle = _TimelineChartStyle;
 
 // =============================================================================
 // UI Types
@@ -72,13 +119,16 @@ export type Panel =
   | 'topology'
   | 'subscriptions'
   | 'slots'
+  | 'publications'
   | 'conflicts'
+  | 'alerts'
+  | 'timeline'
   | 'operations';
 
 /**
  * Modal dialog types.
  */
-export type ModalType = 'help' | 'operations' | 'confirmation' | 'details';
+export type ModalType = 'help' | 'operations' | 'confirmation' | 'details' | 'diagnostics';
 
 /**
  * Application screens.
@@ -124,6 +174,83 @@ export interface LagSample {
   lagSeconds: number | null;
 }
 
+/**
+ * Per-second logical decoding rates of a slot between two polls.
+ */
+export interface SlotStatsRates {
+  /** Transactions spilled to disk per second */
+  spillTxnsPerSec: number;
+  /** Bytes spilled to disk per second */
+  spillBytesPerSec: number;
+  /** In-progress transactions streamed per second */
+  streamTxnsPerSec: number;
+  /** Bytes streamed per second */
+  streamBytesPerSec: number;
+  /** Transactions decoded per second */
+  totalTxnsPerSec: number;
+  /** Bytes decoded per second */
+  totalBytesPerSec: number;
+  /** When the later of the two polls was taken */
+  timestamp: Date;
+}
+
+/**
+ * WAL generation rate of a node, smoothed over recent polls.
+ */
+export interface WalRate {
+  /** WAL written per second (replayed per second on a standby) */
+  bytesPerSec: number;
+  /** When the latest poll was taken */
+  timestamp: Date;
+}
+
+/**
+ * Per-second WAL movement of a slot, smoothed over recent polls.
+ */
+export interface SlotWalRates {
+  /** Advance of confirmed_flush_lsn (null for physical slots) */
+  confirmedFlushBytesPerSec: number | null;
+  /** Change in retained WAL (negative while the consumer catches up) */
+  retainedBytesPerSec: number;
+  /** When the latest poll was taken */
+  timestamp: Date;
+}
+
+/**
+ * Something that happened to a subscription's apply worker between two polls.
+ * - apply_error: apply_error_count went up
+ * - worker_restart: the apply worker came back with a different pid
+ * - auto_disabled: disable_on_error disabled the subscription after an apply error
+ */
+export type WorkerEventType = 'apply_error' | 'worker_restart' | 'auto_disabled';
+
+/**
+ * A timestamped apply worker event of a subscription.
+ */
+export interface WorkerEvent {
+  type: WorkerEventType;
+  /** When the poll that noticed it was taken */
+  timestamp: Date;
+  /** Apply errors since the previous poll (apply_error only, 0 otherwise) */
+  count: number;
+  /** Apply worker pid before the restart (worker_restart only) */
+  previousPid: number | null;
+  /** Apply worker pid after the restart (worker_restart only) */
+  pid: number | null;
+}
+
+/**
+ * Apply worker history of one subscription across polls.
+ */
+export interface WorkerHistory {
+  /** Last apply worker pid seen (kept while no worker is running) */
+  lastPid: number | null;
+  /** Whether disable_on_error disabled the subscription and it is still disabled */
+  autoDisabled: boolean;
+  /** Events, oldest first (at most MAX_WORKER_EVENTS) */
+  events: WorkerEvent[];
+}
+
 /**
  * Modal configuration data.
  */
@@ -178,12 +305,46 @@ export interface ReplicationSliceState {
   conflictEvents: Map<string, ConflictEvent[]>;
   /** Conflict data source per node (key: nodeId) */
   conflictSources: Map<string, ConflictEventSource>;
+  /** Per-table sync states per node (key: nodeId) */
+  tableSync: Map<string, TableSyncData[]>;
+  /** When each table still in initial sync started it (key: getTableSyncKey) */
+  tableSyncStarts: Map<string, Date>;
+  /** Logical decoding statistics per node (key: nodeId) */
+  slotStats: Map<string, SlotStatsData[]>;
+  /** Decoding rates per slot (key: `${nodeId}:${slotName}`), from the last two polls */
+  slotStatsRates: Map<string, SlotStatsRates>;
+  /** WAL receiver of each standby node (key: nodeId; empty when not in recovery) */
+  walReceivers: Map<string, WalReceiverData[]>;
+  /** Latest WAL position per node (key: nodeId) */
+  walPositions: Map<string, WalPositionData>;
+  /** WAL generation rate per node (key: nodeId), from recent polls */
+  walRates: Map<string, WalRate>;
+  /** WAL movement per slot (key: `${nodeId}:${slotName}`), from recent polls */
+  slotWalRates: Map<string, SlotWalRates>;
+  /** Publications and pglogical replication sets per node (key: nodeId) */
+  publications: Map<string, PublicationData[]>;
+  /** Sequence values per node (key: nodeId) */
+  sequences: Map<string, SequenceData[]>;
+  /** Server version and replication settings per node (key: nodeId) */
+  capabilities: Map<string, NodeCapabilities>;
+  /** Apply worker history per subscription (key: `${nodeId}:${subscriptionName}`) */
+  workerHistory: Map<string, WorkerHistory>;
   /** Lag history per subscription (key: `${nodeId}:${subscriptionName}`) */
   lagHistory: Map<string, LagSample[]>;
   /** Nodes with stale data (disconnected) */
   staleNodes: Set<string>;
   /** Last successful polling timestamp per node */
   lastUpdated: Map<string, Date>;
+  /** Duration of the most recent polling cycle in ms (null before first cycle) */
+  lastCycleDurationMs: number | null;
+  /** Number of polling cycles processed */
+  pollingCycleCount: number;
+  /** Cumulative failed node queries per node (key: nodeId) */
+  queryErrorCounts: Map<string, number>;
+  /** Cumulative cycle-level polling errors (PollingError events) */
+  pollingErrorCount: number;
+  /** Most recent cycle-level polling error */
+  lastPollingError: PollingError | null;
 }
 
 /**
@@ -200,6 +361,14 @@ export interface UISliceState {
   modalData: ModalConfig | null;
   /** Selected item per panel (nodeId, subscriptionName, slotName, etc.) */
   selections: Map<Panel, string | null>;
+  /** Lag Timeline zoom window */
+  timelineWindow: TimelineWindow;
+  /** Lag Timeline rendering style */
+  timelineChartStyle: TimelineChartStyle;
+  /** Lag Timeline cursor in columns from the right edge (null = hidden) */
+  timelineCursor: number | null;
+  /** Lag history keys hidden from the Lag Timeline chart */
+  hiddenTimelineSeries: Set<string>;
 }
 
 // =============================================================================
@@ -233,7 +402,7 @@ export interface ReplicationSliceActions {
   /** Update subscriptions for a node from polling data */
   setSubscriptions: (nodeId: string, data: SubscriptionData[]) => void;
 
-  /** Update slots for a node from polling data */
+  /** Update slots for a node from polling data (derives WAL rates from the previous poll) */
   setSlots: (nodeId: string, data: SlotData[]) => void;
 
   /** Update conflicts for a node from polling data */
@@ -245,6 +414,27 @@ export interface ReplicationSliceActions {
   /** Update conflict data source for a node */
   setConflictSource: (nodeId: string, source: ConflictEventSource) => void;
 
+  /** Update per-table sync states for a node (tracks initial sync starts) */
+  setTableSync: (nodeId: string, data: TableSyncData[]) => void;
+
+  /** Update slot decoding statistics for a node (derives rates from the previous poll) */
+  setSlotStats: (nodeId: string, data: SlotStatsData[]) => void;
+
+  /** Update WAL receiver status for a node */
+  setWalReceivers: (nodeId: string, data: WalReceiverData[]) => void;
+
+  /** Update the WAL position of a node (derives its WAL rate from the previous poll) */
+  setWalPosition: (nodeId: string, data: WalPositionData) => void;
+
+  /** Update publications and replication sets for a node */
+  setPublications: (nodeId: string, data: PublicationData[]) => void;
+
+  /** Update sequence values for a node */
+  setSequences: (nodeId: string, data: SequenceData[]) => void;
+
+  /** Update capability probe result for a node */
+  setCapabilities: (nodeId: string, data: NodeCapabilities) => void;
+
   /** Append lag sample for a subscription */
   appendLagSample: (
     nodeId: string,
@@ -252,6 +442,9 @@ export interface ReplicationSliceActions {
     sample: LagSample
   ) => void;
 
+  /** Prepend persisted lag samples (e.g., from the history store at startup) */
+  restoreLagHistory: (history: Map<string, LagSample[]>) => void;
+
   /** Mark a node's data as stale (on disconnect) */
   markNodeStale: (nodeId: string) => void;
 
@@ -267,6 +460,12 @@ export interface ReplicationSliceActions {
   /** Process complete polling cycle result */
   handlePollingData: (result: PollingCycleResult) => void;
 
+  /** Record a cycle-level polling error */
+  handlePollingError: (error: PollingError) => void;
+
+  /** Drop all data for a node removed from the configuration */
+  removeNodeData: (nodeId: string) => void;
+
   /** Clear all replication data (for reset) */
   clearReplicationData: () => void;
 }
@@ -299,6 +498,21 @@ export interface UISliceActions {
   /** Move selection down in current panel */
   selectNext: () => void;
 
+  /** Switch to the next Lag Timeline zoom window (5m → 1h → 24h) */
+  cycleTimelineWindow: () => void;
+
+  /** Switch the Lag Timeline between braille and block rendering */
+  toggleTimelineChartStyle: () => void;
+
+  /** Move the Lag Timeline cursor (positive = back in time), clamped to [0, maxOffset] */
+  moveTimelineCursor: (delta: number, maxOffset: number) => void;
+
+  /** Hide the Lag Timeline cursor */
+  clearTimelineCursor: () => void;
+
+  /** Show or hide a subscription on the Lag Timeline chart */
+  toggleTimelineSeries: (key: string) => void;
+
   /** Clear all UI state (for reset) */
   resetUIState: () => void;
 }
@@ -313,7 +527,9 @@ export interface UISliceActions {
 export type ReplmonStoreState = ConnectionSliceState &
   ReplicationSliceState &
   UISliceState &
-  OperationsSliceState;
+  OperationsSliceState &
+  AlertsSliceState &
+  ReplaySliceState;
 
 /**
  * Combined store actions.
@@ -321,7 +537,9 @@ export type ReplmonStoreState = ConnectionSliceState &
 export type ReplmonStoreActions = ConnectionSliceActions &
   ReplicationSliceActions &
   UISliceActions &
-  OperationsSliceActions;
+  OperationsSliceActions &
+  AlertsSliceActions &
+  ReplaySliceActions;
 
 /**
  * Complete store type (state + actions).
@@ -422,12 +640,21 @@ export type ActionName =
   | 'replication/setSubscriptions'
   | 'replication/setSlots'
   | 'replication/setConflicts'
+  | 'replication/setTableSync'
+  | 'replication/setSlotStats'
+  | 'replication/setWalReceivers'
+  | 'replication/setPublications'
+  | 'replication/setSequences'
+  | 'replication/setCapabilities'
   | 'replication/appendLagSample'
+  | 'replication/restoreLagHistory'
   | 'replication/markNodeStale'
   | 'replication/clearNodeStale'
   | 'replication/setLastUpdated'
   | 'replication/setNodePglogical'
   | 'replication/handlePollingData'
+  | 'replication/handlePollingError'
+  | 'replication/removeNodeData'
   | 'replication/clearReplicationData'
   | 'ui/setFocusedPanel'
   | 'ui/focusNextPanel'
@@ -437,6 +664,11 @@ export type ActionName =
   | 'ui/setSelection'
   | 'ui/selectPrevious'
   | 'ui/selectNext'
+  | 'ui/cycleTimelineWindow'
+  | 'ui/toggleTimelineChartStyle'
+  | 'ui/moveTimelineCursor'
+  | 'ui/clearTimelineCursor'
+  | 'ui/toggleTimelineSeries'
   | 'ui/resetUIState'
   | 'operations/startConfirmation'
   | 'operations/updateConfirmationInput'
@@ -445,7 +677,11 @@ export type ActionName =
   | 'operations/executeOperation/success'
   | 'operations/executeOperation/failure'
   | 'operations/addToHistory'
-  | 'operations/clearHistory';
+  | 'operations/clearHistory'
+  | 'alerts/setThresholds'
+  | 'alerts/applyAlertEvaluation'
+  | 'alerts/clearAlertHistory'
+  | 'replay/setReplayStatus';
 
 // =============================================================================
 // Constants
@@ -457,6 +693,11 @@ export type ActionName =
  */
 export const MAX_LAG_HISTORY_SAMPLES = 300;
 
+/**
+ * Maximum apply worker events kept per subscription.
+ */
+export const MAX_WORKER_EVENTS = 100;
+
 /**
  * Panel navigation order for Tab cycling.
  */
@@ -464,7 +705,10 @@ export const PANEL_ORDER: readonly Panel[] = [
   'topology',
   'subscriptions',
   'slots',
+  'publications',
   'conflicts',
+  'alerts',
+  'timeline',
   'operations',
 ] as const;
 
@@ -475,7 +719,10 @@ export const PANEL_SHORTCUTS: Readonly<Record<string, Panel>> = {
   t: 'topology',
   s: 'subscriptions',
   l: 'slots',
+  u: 'publications',
   c: 'conflicts',
+  a: 'alerts',
+  g: 'timeline',
   o: 'operations',
 } as const;
 
@@ -1,7 +1,8 @@
 /**
  * UI State Slice
  *
- * Manages UI state: focused panel, selections, modal state, and focus restoration.
+ * Manages UI state: focused panel, selections, modal state, focus restoration,
+ * and Lag Timeline view settings (zoom, chart style, cursor, hidden series).
  *
  * Feature: 005-state-management
  */
@@ -15,6 +16,9 @@ import type {
   ModalConfig,
 } from './types.js';
 import { PANEL_ORDER, DEFAULT_PANEL } from './types.js';
+import { TIMELINE_WINDOWS } from '../types/timeline.js';
+import { compareAlerts } from '../utils/alerts.js';
+import { getPublicationKey } from '../utils/publications.js';
 
 /**
  * UI slice type (state + actions).
@@ -39,9 +43,16 @@ export const createUISlice: StateCreator<
     ['topology', null],
     ['subscriptions', null],
     ['slots', null],
+    ['publications', null],
     ['conflicts', null],
+    ['alerts', null],
+    ['timeline', null],
     ['operations', null],
   ]),
+  timelineWindow: '5m',
+  timelineChartStyle: 'braille',
+  timelineCursor: null,
+  hiddenTimelineSeries: new Set(),
 
   // Actions
 
@@ -185,6 +196,57 @@ export const createUISlice: StateCreator<
     );
   },
 
+  cycleTimelineWindow: () =>
+    set(
+      (state) => {
+        const index = TIMELINE_WINDOWS.indexOf(state.timelineWindow);
+        const next = TIMELINE_WINDOWS[(index + 1) % TIMELINE_WINDOWS.length];
+        // Columns cover a different time span after zooming
+        return { timelineWindow: next ?? state.timelineWindow, timelineCursor: null };
+      },
+      undefined,
+      'ui/cycleTimelineWindow'
+    ),
+
+  toggleTimelineChartStyle: () =>
+    set(
+      (state) => ({
+        timelineChartStyle: state.timelineChartStyle === 'braille' ? 'block' : 'braille',
+      }),
+      undefined,
+      'ui/toggleTimelineChartStyle'
+    ),
+
+  moveTimelineCursor: (delta: number, maxOffset: number) =>
+    set(
+      (state) => {
+        // First move shows the cursor at the right edge ("now")
+        const current = state.timelineCursor;
+        const next = current === null ? 0 : current + delta;
+        return { timelineCursor: Math.max(0, Math.min(maxOffset, next)) };
+      },
+      undefined,
+      'ui/moveTimelineCursor'
+    ),
+
+  clearTimelineCursor: () =>
+    set(() => ({ timelineCursor: null }), undefined, 'ui/clearTimelineCursor'),
+
+  toggleTimelineSeries: (key: string) =>
+    set(
+      (state) => {
+        const hiddenTimelineSeries = new Set(state.hiddenTimelineSeries);
+        if (hiddenTimelineSeries.has(key)) {
+          hiddenTimelineSeries.delete(key);
+        } else {
+          hiddenTimelineSeries.add(key);
+        }
+        return { hiddenTimelineSeries };
+      },
+      undefined,
+      'ui/toggleTimelineSeries'
+    ),
+
   resetUIState: () =>
     set(
       () => ({
@@ -196,9 +258,16 @@ export const createUISlice: StateCreator<
           ['topology', null],
           ['subscriptions', null],
           ['slots', null],
+          ['publications', null],
           ['conflicts', null],
+          ['alerts', null],
+          ['timeline', null],
           ['operations', null],
         ]),
+        timelineWindow: '5m',
+        timelineChartStyle: 'braille',
+        timelineCursor: null,
+        hiddenTimelineSeries: new Set(),
       }),
       undefined,
       'ui/resetUIState'
@@ -214,7 +283,9 @@ function getSelectableItemsForPanel(state: ReplmonStore, panel: Panel): string[]
     case 'topology':
       return Array.from(state.nodes.keys());
 
-    case 'subscriptions': {
+    case 'subscriptions':
+    case 'timeline': {
+      // Timeline legend lists subscriptions in the same order
       const allSubs: string[] = [];
       for (const subs of state.subscriptions.values()) {
         for (const sub of subs) {
@@ -247,6 +318,33 @@ function getSelectableItemsForPanel(state: ReplmonStore, panel: Panel): string[]
       return allSlots.map((s) => s.id);
     }
 
+    case 'publications': {
+      // Collect all publications and replication sets with node info for sorting
+      const allPublications: { id: string; nodeName: string; name: string; source: string }[] = [];
+      for (const publications of state.publications.values()) {
+        for (const publication of publications) {
+          const nodeInfo = state.nodes.get(publication.nodeId);
+          // Orphaned publications are not displayed
+          if (!nodeInfo) continue;
+          allPublications.push({
+            id: getPublicationKey(publication),
+            nodeName: nodeInfo.name ?? publication.nodeId,
+            name: publication.name,
+            source: publication.source,
+          });
+        }
+      }
+      // Sort by nodeName, then name, then source to match visual display
+      allPublications.sort((a, b) => {
+        const nodeCompare = a.nodeName.localeCompare(b.nodeName);
+        if (nodeCompare !== 0) return nodeCompare;
+        const nameCompare = a.name.localeCompare(b.name);
+        if (nameCompare !== 0) return nameCompare;
+        return a.source.localeCompare(b.source);
+      });
+      return allPublications.map((p) => p.id);
+    }
+
     case 'conflicts': {
       // Collect all conflicts with their timestamps
       const allConflicts: { id: string; time: number }[] = [];
@@ -263,6 +361,12 @@ function getSelectableItemsForPanel(state: ReplmonStore, panel: Panel): string[]
       return allConflicts.map((c) => c.id);
     }
 
+    case 'alerts':
+      // Sorted to match visual display (firing first, then severity)
+      return Array.from(state.alerts.values())
+        .sort(compareAlerts)
+        .map((alert) => alert.id);
+
     case 'operations':
       // Operations panel doesn't have selectable items in the same way
       return [];
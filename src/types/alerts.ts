@@ -0,0 +1,198 @@
+/**
+ * Alert Type Definitions
+ *
+ * Types for threshold-driven alerts: active alert state, firing/resolved
+ * transitions, and the alerts store slice.
+ */
+
+import type { ResolvedThresholds } from '../config/defaults.js';
+
+// =============================================================================
+// Enumerations
+// =============================================================================
+
+/**
+ * Metric an alert is evaluated on (matches the `thresholds` config keys).
+ */
+export type AlertMetric = 'replication_lag' | 'slot_retention' | 'conflict_rate';
+
+/**
+ * Alert severity (which threshold level was crossed).
+ */
+export type AlertSeverity = 'warning' | 'critical';
+
+/**
+ * Lifecycle state of an active alert.
+ * - pending: threshold exceeded, waiting out the `for` duration
+ * - firing: threshold exceeded for at least the `for` duration
+ */
+export type AlertState = 'pending' | 'firing';
+
+/**
+ * Recorded alert transition.
+ * - firing: alert started firing, or changed severity while firing
+ * - resolved: value dropped below the threshold minus hysteresis
+ */
+export type AlertTransition = 'firing' | 'resolved';
+
+// =============================================================================
+// Entities
+// =============================================================================
+
+/**
+ * An active (pending or firing) alert.
+ */
+export interface Alert {
+  /** Stable identifier: `${metric}:${nodeId}:${subject}` */
+  id: string;
+  /** Metric being evaluated */
+  metric: AlertMetric;
+  /** Node the value was measured on */
+  nodeId: string;
+  /** Standby application name or slot name (null for node-level metrics) */
+  subject: string | null;
+  /** Current severity */
+  severity: AlertSeverity;
+  /** Lifecycle state */
+  state: AlertState;
+  /** Most recent value in canonical units (seconds, bytes, conflicts/min) */
+  value: number;
+  /** Threshold for the current severity */
+  threshold: number;
+  /** When the threshold was first exceeded */
+  pendingSince: Date;
+  /** When the alert started firing (null while pending) */
+  firedAt: Date | null;
+  /** When the alert was last evaluated */
+  lastEvaluatedAt: Date;
+}
+
+/**
+ * An alert state transition, kept in the alert history.
+ */
+export interface AlertEvent {
+  /** Unique event identifier */
+  id: string;
+  /** Alert this event belongs to */
+  alertId: string;
+  /** Metric being evaluated */
+  metric: AlertMetric;
+  /** Node the value was measured on */
+  nodeId: string;
+  /** Standby application name or slot name (null for node-level metrics) */
+  subject: string | null;
+  /** Severity at the time of the transition */
+  severity: AlertSeverity;
+  /** What happened */
+  transition: AlertTransition;
+  /** Value at the time of the transition */
+  value: number;
+  /** Threshold for the severity */
+  threshold: number;
+  /** When the alert started firing */
+  firedAt: Date;
+  /** When the transition happened */
+  timestamp: Date;
+}
+
+/**
+ * Result of evaluating one polling cycle.
+ */
+export interface AlertEvaluation {
+  /** All active alerts after this cycle */
+  alerts: Alert[];
+  /** Transitions that happened in this cycle */
+  events: AlertEvent[];
+}
+
+// =============================================================================
+// Panel Items
+// =============================================================================
+
+/**
+ * Active alert enriched for AlertsPanel display.
+ */
+export interface AlertListItem extends Alert {
+  /** Node display name (from NodeInfo) */
+  nodeName: string;
+  /** Whether the alert's node is stale (disconnected) */
+  isStale: boolean;
+  /** Whether this item is currently selected */
+  isSelected: boolean;
+  /** Formatted current value (e.g., "42.0s", "1.2 GB") */
+  formattedValue: string;
+  /** Formatted threshold for the current severity */
+  formattedThreshold: string;
+  /** Relative time since pending or firing (e.g., "3m ago") */
+  formattedSince: string;
+}
+
+/**
+ * Alert transition enriched for AlertsPanel history display.
+ */
+export interface AlertHistoryItem extends AlertEvent {
+  /** Node display name (from NodeInfo) */
+  nodeName: string;
+  /** Formatted value at the time of the transition */
+  formattedValue: string;
+  /** Relative time of the transition (e.g., "3m ago") */
+  formattedTime: string;
+}
+
+/**
+ * Return type of the useAlerts hook.
+ */
+export interface UseAlertsResult {
+  /** Active alerts: firing before pending, critical before warning */
+  items: AlertListItem[];
+  /** Currently selected item (null if none) */
+  selectedItem: AlertListItem | null;
+  /** Number of firing alerts */
+  firingCount: number;
+  /** Number of pending alerts */
+  pendingCount: number;
+  /** Recent transitions, most recent first */
+  history: AlertHistoryItem[];
+}
+
+// =============================================================================
+// Store Slice
+// =============================================================================
+
+/**
+ * Alerts slice state.
+ */
+export interface AlertsSliceState {
+  /** Thresholds used for alerting and severity colors */
+  thresholds: ResolvedThresholds;
+  /** Active alerts (key: alert id) */
+  alerts: Map<string, Alert>;
+  /** Alert transitions, most recent first */
+  alertHistory: AlertEvent[];
+}
+
+/**
+ * Alerts slice actions.
+ */
+export interface AlertsSliceActions {
+  /** Set thresholds from configuration */
+  setThresholds: (thresholds: ResolvedThresholds) => void;
+  /** Replace active alerts and record transitions from an evaluation */
+  applyAlertEvaluation: (evaluation: AlertEvaluation) => void;
+  /** Clear the alert history */
+  clearAlertHistory: () => void;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Maximum alert history entries kept in the store */
+export const MAX_ALERT_HISTORY = 200;
+
+/** Display labels for alert metrics */
+export const ALERT_METRIC_LABELS: Record<AlertMetric, string> = {
+  replication_lag: 'Replication lag',
+  slot_retention: 'Slot retention',
+  conflict_rate: 'Conflict rate',
+};
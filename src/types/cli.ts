@@ -35,6 +35,24 @@ export interface CLIArguments {
   /** Enable pglogical mode */
   pglogical?: boolean;
 
+  /** Bind address for the /metrics endpoint */
+  metricsHost?: string;
+
+  /** Serve /metrics on this port (enables the endpoint) */
+  metricsPort?: number;
+
+  /** Run as a service without the TUI */
+  headless?: boolean;
+
+  /** Record polling cycles to this file */
+  record?: string;
+
+  /** Replay this recording instead of connecting */
+  replay?: string;
+
+  /** Poll a simulated cluster scripted by this scenario file */
+  demo?: string;
+
   /** Show help text */
   help?: boolean;
 
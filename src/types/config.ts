@@ -11,12 +11,25 @@ import type { ConnectionConfig } from './connection.js';
 import type {
   ResolvedTheme,
   ResolvedThresholds,
+  ResolvedAlertsConfig,
+  ResolvedAlertSink,
+  ResolvedMetricsConfig,
+  ResolvedHistoryConfig,
   ThresholdLevels,
   ThemeColors,
 } from '../config/defaults.js';
 
-// Re-export theme and threshold types for convenience
-export type { ResolvedTheme, ResolvedThresholds, ThresholdLevels, ThemeColors };
+// Re-export theme, threshold, alert, metrics, and history types for convenience
+export type {
+  ResolvedTheme,
+  ResolvedThresholds,
+  ResolvedAlertsConfig,
+  ResolvedAlertSink,
+  ResolvedMetricsConfig,
+  ResolvedHistoryConfig,
+  ThresholdLevels,
+  ThemeColors,
+};
 
 /**
  * Resolved cluster configuration.
@@ -50,9 +63,18 @@ export interface Configuration {
   /** Resolved threshold configuration */
   thresholds: ResolvedThresholds;
 
+  /** Alert evaluation settings (for duration, hysteresis) */
+  alerts: ResolvedAlertsConfig;
+
   /** Enable pglogical-specific monitoring */
   pglogical: boolean;
 
+  /** Prometheus /metrics HTTP endpoint settings */
+  metrics: ResolvedMetricsConfig;
+
+  /** Persistent lag history settings */
+  history: ResolvedHistoryConfig;
+
   /** Source of configuration (for debugging) */
   source: 'file' | 'cli' | 'merged';
 
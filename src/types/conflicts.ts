@@ -161,6 +161,24 @@ export interface LogParseResult {
   newOffset: number;
 }
 
+/**
+ * A transaction an apply worker failed on, parsed from csvlog.
+ * The error context names the replication origin and where the remote
+ * transaction ends, which is the LSN to skip it to.
+ */
+export interface ApplyErrorLogEntry {
+  /** When the error was logged */
+  recordedAt: Date;
+  /** Replication origin name (native: "pg_<subscription oid>") */
+  originName: string | null;
+  /** Replication origin id (pglogical logs the id, not the name) */
+  originId: number | null;
+  /** End LSN of the failing remote transaction */
+  finishLsn: string;
+  /** Apply worker that logged the error */
+  source: 'native' | 'pglogical';
+}
+
 // =============================================================================
 // Hook Return Type
 // =============================================================================
@@ -98,6 +98,7 @@ export type {
   ConflictListItem,
   LogFileConfig,
   LogParseResult,
+  ApplyErrorLogEntry,
   UseConflictsResult,
 } from './conflicts.js';
 
@@ -108,3 +109,19 @@ export {
   RESOLUTION_LABELS,
   SOURCE_LABELS,
 } from './conflicts.js';
+
+// Alert types
+export type {
+  AlertMetric,
+  AlertSeverity,
+  AlertState,
+  AlertTransition,
+  Alert,
+  AlertEvent,
+  AlertEvaluation,
+  AlertListItem,
+  AlertHistoryItem,
+  UseAlertsResult,
+} from './alerts.js';
+
+export { ALERT_METRIC_LABELS } from './alerts.js';
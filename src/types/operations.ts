@@ -26,7 +26,7 @@ export type Severity = 'info' | 'warning' | 'danger';
 /**
  * Type of resource an operation targets
  */
-export type TargetType = 'subscription' | 'slot' | 'node' | 'table';
+export type TargetType = 'subscription' | 'slot' | 'node' | 'table' | 'sequence';
 
 /**
  * Which replication systems support the operation
@@ -213,6 +213,101 @@ export interface ResyncTableParams extends SubscriptionOperationParams {
   tableName: string;
 }
 
+/**
+ * Parameters for sequence synchronization
+ */
+export interface SyncSequenceParams {
+  /** Subscriber node whose sequence is behind */
+  nodeId: string;
+  /** Provider node the sequence is published from */
+  providerNodeId: string;
+  /** Schema of the sequence */
+  schemaName: string;
+  /** Name of the sequence */
+  sequenceName: string;
+  /** Whether the sequence is in a pglogical replication set or a native publication */
+  source: 'pglogical' | 'native';
+}
+
+/**
+ * Parameters for skipping the transaction a subscription fails to apply
+ */
+export interface SkipTransactionParams extends SubscriptionOperationParams {
+  /** Finish LSN of the failing transaction ("0/14C0378") */
+  lsn: string;
+  /** Native or pglogical subscription (a pglogical node can have both) */
+  source: 'pglogical' | 'native';
+}
+
+/**
+ * Parameters for creating a subscription
+ */
+export interface CreateSubscriptionParams {
+  /** Subscriber node the subscription is created on */
+  nodeId: string;
+  /** Name of the new subscription */
+  subscriptionName: string;
+  /** libpq connection string the subscriber connects to the provider with */
+  providerDsn: string;
+  /** Publications (native) or replication sets (pglogical) to subscribe to */
+  publications: string[];
+  /** CREATE SUBSCRIPTION or pglogical.create_subscription() */
+  source: 'pglogical' | 'native';
+  /** Copy the existing table data (copy_data / synchronize_data) */
+  copyData: boolean;
+  /** Copy the schema before the data (pglogical only) */
+  synchronizeStructure: boolean;
+  /**
+   * Also apply changes the provider received from other nodes (off for
+   * bidirectional pairs; always on for native subscribers before PostgreSQL 16)
+   */
+  forwardOrigins: boolean;
+}
+
+/**
+ * Choices made in the create-subscription wizard
+ */
+export interface SubscriptionDraft {
+  /** Subscriber node */
+  subscriberNodeId: string;
+  /** Provider node */
+  providerNodeId: string;
+  subscriptionName: string;
+  publications: string[];
+  source: 'pglogical' | 'native';
+  copyData: boolean;
+  synchronizeStructure: boolean;
+  forwardOrigins: boolean;
+}
+
+/**
+ * What dropping a subscription does with its slot on the provider
+ * - drop: the subscriber drops it (the provider is configured and reachable)
+ * - orphan: it is left on the provider (native: detached with slot_name = NONE)
+ */
+export type SlotCleanup = 'drop' | 'orphan';
+
+/**
+ * What happened to a dropped subscription's slot on the provider
+ * - dropped: it no longer exists
+ * - left: it still exists
+ * - unknown: the provider couldn't be checked, and it may still exist
+ */
+export type SlotOutcome = 'dropped' | 'left' | 'unknown';
+
+/**
+ * Parameters for dropping a subscription
+ */
+export interface DropSubscriptionParams extends SubscriptionOperationParams {
+  /** DROP SUBSCRIPTION or pglogical.drop_subscription() */
+  source: 'pglogical' | 'native';
+  /** Slot the subscription streams from on the provider (null: none) */
+  slotName: string | null;
+  /** Configured node the slot is on (null if it can't be resolved) */
+  providerNodeId: string | null;
+  slotCleanup: SlotCleanup;
+}
+
 /**
  * Parameters for slot operations
  */
@@ -233,6 +328,116 @@ export interface CreateSlotParams extends SlotOperationParams {
   outputPlugin?: string;
 }
 
+/**
+ * Parameters for advancing a slot
+ */
+export interface AdvanceSlotParams extends SlotOperationParams {
+  /** LSN to advance to (null for the node's current WAL position) */
+  targetLsn: string | null;
+}
+
+/**
+ * Parameters for copying a slot
+ */
+export interface CopySlotParams extends SlotOperationParams {
+  /** Name of the new slot */
+  newSlotName: string;
+  /** Type of the slot being copied */
+  slotType: 'logical' | 'physical';
+}
+
+/**
+ * Replication worker a terminate-worker operation targets
+ * - apply worker: a subscription's apply worker, on the subscriber
+ * - walsender: the walsender streaming from a slot, on the provider
+ */
+export type WorkerRole = 'apply worker' | 'walsender';
+
+/**
+ * A backend's row in pg_stat_activity
+ */
+export interface BackendActivity {
+  /** Backend PID */
+  pid: number;
+  /** Backend type (e.g., 'walsender', 'logical replication worker') */
+  backendType: string | null;
+  /** Role the backend is connected as */
+  user: string | null;
+  /** application_name (subscription name for native apply workers and walsenders) */
+  applicationName: string | null;
+  /** Client address (null for local and background workers) */
+  clientAddr: string | null;
+  /** Backend state (e.g., 'active', 'idle') */
+  state: string | null;
+  /** Wait event type, if waiting */
+  waitEventType: string | null;
+  /** Wait event, if waiting */
+  waitEvent: string | null;
+  /** When the backend started */
+  backendStart: Date | null;
+  /** backend_start as the server printed it (microsecond precision) */
+  backendStartText: string | null;
+  /** When the state last changed */
+  stateChange: Date | null;
+  /** Current or last query (truncated) */
+  query: string | null;
+}
+
+/**
+ * Parameters for terminating an apply worker or walsender
+ */
+export interface TerminateBackendParams {
+  /** Node the backend runs on */
+  nodeId: string;
+  /** Subscription or slot the backend serves */
+  resourceName: string;
+  /** Which worker the backend is */
+  role: WorkerRole;
+  /** Backend PID */
+  pid: number;
+  /** backend_start text when looked up, so a reused PID isn't terminated */
+  backendStart: string;
+}
+
+/**
+ * Whether a terminated worker came back
+ * - waiting: no poll since, or no new worker yet
+ * - restarted: a new backend serves the subscription or slot
+ * - not_restarted: no new backend within WORKER_RESTART_TIMEOUT_MS
+ */
+export type WorkerRestartStatus = 'waiting' | 'restarted' | 'not_restarted';
+
+/**
+ * Restart of the worker the latest terminate-worker operation terminated
+ */
+export interface WorkerRestart {
+  /** Result of the terminate-worker operation */
+  resultId: string;
+  /** Which worker was terminated */
+  role: WorkerRole;
+  /** PID that was terminated */
+  terminatedPid: number;
+  /** PID now serving the subscription or slot (null if none) */
+  pid: number | null;
+  status: WorkerRestartStatus;
+}
+
+/**
+ * Slot the latest drop-subscription operation left on the provider
+ */
+export interface LeftoverSlot {
+  /** Result of the drop-subscription operation */
+  resultId: string;
+  /** Provider node the slot is on */
+  nodeId: string;
+  nodeName: string;
+  slotName: string;
+  /** Whether the provider confirmed the slot still exists (else it couldn't be checked) */
+  verified: boolean;
+  /** Whether the provider is connected, so the slot can be dropped now */
+  available: boolean;
+}
+
 /**
  * Parameters for clearing conflict log
  */
@@ -251,10 +456,24 @@ export interface OperationExecutor {
   resumeSubscription: (params: SubscriptionOperationParams, queryFn: QueryFn) => Promise<OperationResult>;
   /** Resync a specific table */
   resyncTable: (params: ResyncTableParams, queryFn: QueryFn) => Promise<OperationResult>;
+  /** Catch a subscriber's sequence up with the provider */
+  synchronizeSequence: (params: SyncSequenceParams, queryFn: QueryFn) => Promise<OperationResult>;
+  /** Skip the transaction a subscription fails to apply */
+  skipTransaction: (params: SkipTransactionParams, queryFn: QueryFn) => Promise<OperationResult>;
+  /** Create a subscription to a provider's publications or replication sets */
+  createSubscription: (params: CreateSubscriptionParams, queryFn: QueryFn) => Promise<OperationResult>;
+  /** Drop a subscription, dropping or detaching its slot on the provider */
+  dropSubscription: (params: DropSubscriptionParams, queryFn: QueryFn) => Promise<OperationResult>;
   /** Create a replication slot */
   createSlot: (params: CreateSlotParams, queryFn: QueryFn) => Promise<OperationResult>;
   /** Drop a replication slot */
   dropSlot: (params: SlotOperationParams, queryFn: QueryFn) => Promise<OperationResult>;
+  /** Move a replication slot forward, releasing WAL it retains */
+  advanceSlot: (params: AdvanceSlotParams, queryFn: QueryFn) => Promise<OperationResult>;
+  /** Create a new replication slot at the position of an existing one */
+  copySlot: (params: CopySlotParams, queryFn: QueryFn) => Promise<OperationResult>;
+  /** Terminate an apply worker or walsender so it restarts */
+  terminateBackend: (params: TerminateBackendParams, queryFn: QueryFn) => Promise<OperationResult>;
   /** Clear conflict history */
   clearConflicts: (params: ClearConflictsParams, queryFn: QueryFn) => Promise<OperationResult>;
 }
@@ -338,7 +557,8 @@ export interface PrometheusExportProps {
 }
 
 /**
- * Props for TableSelector component (for resync operation)
+ * Props for TableSelector component (for resync operation, and the lists
+ * of the create-subscription wizard)
  */
 export interface TableSelectorProps {
   /** List of tables in the subscription */
@@ -347,10 +567,20 @@ export interface TableSelectorProps {
   readonly selectedIndex: number;
   /** Callback when selection changes */
   readonly onSelectionChange: (index: number) => void;
-  /** Callback when table is selected */
+  /** Callback when table is selected (with onToggle: when continuing) */
   readonly onTableSelect: (tableName: string) => void;
   /** Callback to go back */
   readonly onBack: () => void;
+  /** Heading (default: 'Select Table to Resync') */
+  readonly title?: string;
+  /** Warning below the heading (default: the resync truncation warning, null for none) */
+  readonly warning?: string | null;
+  /** Message when there are no items */
+  readonly emptyMessage?: string;
+  /** Checked items, for choosing several with Space */
+  readonly checked?: readonly string[];
+  /** Callback when Space toggles an item */
+  readonly onToggle?: (tableName: string) => void;
 }
 
 // =============================================================================
@@ -373,8 +603,23 @@ export interface UseOperationsResult {
   readonly isExecuting: boolean;
   /** Current context (panel, selection) */
   readonly currentContext: OperationContext | null;
-  /** Start an operation (shows confirmation if needed) */
-  readonly startOperation: (operation: Operation) => void;
+  /** Start an operation (shows confirmation if needed), with extra parameters for its context */
+  readonly startOperation: (
+    operation: Operation,
+    additionalParams?: Readonly<Record<string, unknown>>
+  ) => void;
+  /** Look up the LSN of the transaction the selected subscription fails on */
+  readonly findFailingLsn: () => Promise<string | null>;
+  /** Look up the apply worker or walsender behind the selected subscription or slot */
+  readonly findWorkerBackend: () => Promise<BackendActivity | null>;
+  /** Restart of the worker terminated last, followed over the next polls */
+  readonly workerRestart: WorkerRestart | null;
+  /** Confirm creating the subscription chosen in the wizard, previewing its SQL */
+  readonly startCreateSubscription: (draft: SubscriptionDraft) => void;
+  /** Slot the subscription dropped last left on its provider, while it still exists */
+  readonly leftoverSlot: LeftoverSlot | null;
+  /** Confirm dropping the leftover slot on its provider */
+  readonly startDropLeftoverSlot: () => void;
   /** Execute operation (after confirmation) */
   readonly executeOperation: () => Promise<OperationResult | null>;
   /** Update confirmation input */
@@ -427,6 +672,61 @@ export const OPERATIONS: readonly Operation[] = [
     targetType: 'table',
     availableFor: ['pglogical'],
   },
+  {
+    id: 'sync-sequence',
+    name: 'Synchronize Sequence',
+    description: 'Advance a published sequence on the subscriber to at least its value on the provider',
+    category: 'subscription',
+    severity: 'warning',
+    requiresConfirmation: true,
+    requiresTypeToConfirm: false,
+    targetType: 'sequence',
+    availableFor: ['pglogical', 'native'],
+  },
+  {
+    id: 'skip-transaction',
+    name: 'Skip Failing Transaction',
+    description: 'Skip the remote transaction the subscription fails to apply (its changes are lost on this node)',
+    category: 'subscription',
+    severity: 'danger',
+    requiresConfirmation: true,
+    requiresTypeToConfirm: true,
+    targetType: 'subscription',
+    availableFor: ['pglogical', 'native'],
+  },
+  {
+    id: 'create-subscription',
+    name: 'Create Subscription',
+    description: 'Subscribe a node to publications or replication sets on another node (copies existing data by default)',
+    category: 'subscription',
+    severity: 'warning',
+    requiresConfirmation: true,
+    requiresTypeToConfirm: false,
+    targetType: 'subscription',
+    availableFor: ['pglogical', 'native'],
+  },
+  {
+    id: 'drop-subscription',
+    name: 'Drop Subscription',
+    description: 'Remove the subscription; its slot on the provider is dropped too when the provider is reachable, otherwise left behind',
+    category: 'subscription',
+    severity: 'danger',
+    requiresConfirmation: true,
+    requiresTypeToConfirm: true,
+    targetType: 'subscription',
+    availableFor: ['pglogical', 'native'],
+  },
+  {
+    id: 'terminate-worker',
+    name: 'Terminate Replication Worker',
+    description: 'Terminate the apply worker (subscriptions) or walsender (slots) with pg_terminate_backend so it restarts',
+    category: 'subscription',
+    severity: 'warning',
+    requiresConfirmation: true,
+    requiresTypeToConfirm: false,
+    targetType: 'subscription',
+    availableFor: ['pglogical', 'native'],
+  },
   {
     id: 'create-slot',
     name: 'Create Replication Slot',
@@ -438,6 +738,28 @@ export const OPERATIONS: readonly Operation[] = [
     targetType: 'slot',
     availableFor: ['pglogical', 'native'],
   },
+  {
+    id: 'advance-slot',
+    name: 'Advance Replication Slot',
+    description: 'Move the slot forward to an LSN (default: current WAL position) so it stops retaining WAL; its consumer never receives the changes skipped',
+    category: 'slot',
+    severity: 'danger',
+    requiresConfirmation: true,
+    requiresTypeToConfirm: true,
+    targetType: 'slot',
+    availableFor: ['pglogical', 'native'],
+  },
+  {
+    id: 'copy-slot',
+    name: 'Copy Replication Slot',
+    description: 'Create a new slot at the same position as this one (the copy retains the same WAL)',
+    category: 'slot',
+    severity: 'warning',
+    requiresConfirmation: true,
+    requiresTypeToConfirm: false,
+    targetType: 'slot',
+    availableFor: ['pglogical', 'native'],
+  },
   {
     id: 'drop-slot',
     name: 'Drop Replication Slot',
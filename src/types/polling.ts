@@ -19,11 +19,20 @@ export type {
   SubscriptionStatus,
   SubscriptionSource,
   ConflictSource,
+  WalReceiverStatus,
   // Data types
   ReplicationStats,
   SlotData,
   SubscriptionData,
   ConflictData,
+  WalReceiverData,
+  WalPositionData,
+  PublicationData,
+  PublicationOperations,
+  PublicationTable,
+  PublicationSequence,
+  SequenceData,
+  NodeCapabilities,
   NodeData,
   PollingCycleResult,
   PollingError,
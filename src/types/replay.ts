@@ -0,0 +1,70 @@
+/**
+ * Replay Type Definitions
+ *
+ * Types for replaying a recorded session through the TUI: playback speed,
+ * playback status, and the replay store slice.
+ */
+
+// =============================================================================
+// Enumerations
+// =============================================================================
+
+/**
+ * Playback speed multiplier.
+ */
+export type ReplaySpeed = 1 | 10 | 60;
+
+/**
+ * Playback speeds in order (1/2/3 select them).
+ */
+export const REPLAY_SPEEDS: readonly ReplaySpeed[] = [1, 10, 60] as const;
+
+// =============================================================================
+// Entities
+// =============================================================================
+
+/**
+ * Playback position and controls state.
+ */
+export interface ReplayStatus {
+  /** Recording file being replayed */
+  file: string;
+  /** Whether playback is paused */
+  paused: boolean;
+  /** Whether playback reached the last frame */
+  ended: boolean;
+  /** Playback speed multiplier */
+  speed: ReplaySpeed;
+  /** Index of the last applied frame (-1 before the first) */
+  position: number;
+  /** Total number of frames */
+  frameCount: number;
+  /** Recorded time of the last applied frame (null before the first) */
+  currentTime: Date | null;
+  /** Recorded time of the first frame (null for an empty recording) */
+  startTime: Date | null;
+  /** Recorded time of the last frame (null for an empty recording) */
+  endTime: Date | null;
+  /** Whether the recording ended mid-write (e.g., replmon was killed) */
+  truncated: boolean;
+}
+
+// =============================================================================
+// Store Slice
+// =============================================================================
+
+/**
+ * Replay slice state.
+ */
+export interface ReplaySliceState {
+  /** Playback status (null when not replaying) */
+  replay: ReplayStatus | null;
+}
+
+/**
+ * Replay slice actions.
+ */
+export interface ReplaySliceActions {
+  /** Update playback status (null ends replay mode) */
+  setReplayStatus: (status: ReplayStatus | null) => void;
+}
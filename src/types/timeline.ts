@@ -0,0 +1,121 @@
+/**
+ * Lag Timeline Type Definitions
+ *
+ * Types for the Lag Timeline panel: zoom windows, chart series, and the
+ * data returned by the useLagTimeline hook.
+ */
+
+// =============================================================================
+// Enumerations
+// =============================================================================
+
+/**
+ * Time window shown by the timeline (zoom level).
+ */
+export type TimelineWindow = '5m' | '1h' | '24h';
+
+/**
+ * Chart rendering style.
+ * - braille: 2x4 dots per cell, best for overlaid lines
+ * - block: filled columns using eighth-block characters
+ */
+export type TimelineChartStyle = 'braille' | 'block';
+
+/**
+ * Unit of the plotted values.
+ */
+export type TimelineUnit = 'seconds' | 'bytes';
+
+/**
+ * Zoom windows in order (z cycles through them).
+ */
+export const TIMELINE_WINDOWS: readonly TimelineWindow[] = ['5m', '1h', '24h'] as const;
+
+/**
+ * Window length in milliseconds.
+ */
+export const TIMELINE_WINDOW_MS: Readonly<Record<TimelineWindow, number>> = {
+  '5m': 5 * 60_000,
+  '1h': 60 * 60_000,
+  '24h': 24 * 60 * 60_000,
+};
+
+// =============================================================================
+// Entities
+// =============================================================================
+
+/**
+ * A single plotted value.
+ */
+export interface TimelinePoint {
+  /** When the value was measured (bucket start for rollups) */
+  timestamp: Date;
+  /** Lag in the series unit */
+  value: number;
+}
+
+/**
+ * One line on the chart.
+ */
+export interface ChartSeries {
+  /** Stable identifier */
+  id: string;
+  /** Line color (hex) */
+  color: string;
+  /** Points ordered oldest first */
+  points: TimelinePoint[];
+}
+
+/**
+ * A subscription listed in the timeline legend.
+ */
+export interface TimelineSeriesItem {
+  /** Lag history key: `${nodeId}:${subscriptionName}` */
+  id: string;
+  /** Node the subscription lives on */
+  nodeId: string;
+  /** Node display name */
+  nodeName: string;
+  /** Subscription name */
+  subscriptionName: string;
+  /** Whether the series is drawn on the chart */
+  isVisible: boolean;
+  /** Whether the series is selected in the legend */
+  isSelected: boolean;
+  /** Whether the node's data is stale */
+  isStale: boolean;
+  /** Points in the current window, in the timeline unit */
+  points: TimelinePoint[];
+  /** Direction of the last three in-memory samples */
+  trend: 'increasing' | 'decreasing' | 'stable' | 'unknown';
+  /** Highest in-memory (5 minute) lag, formatted */
+  formattedPeak: string;
+}
+
+// =============================================================================
+// Hook Result
+// =============================================================================
+
+/**
+ * Data returned by useLagTimeline for the Lag Timeline panel.
+ */
+export interface UseLagTimelineResult {
+  /** Current zoom window */
+  window: TimelineWindow;
+  /** Chart rendering style */
+  chartStyle: TimelineChartStyle;
+  /** Cursor position in columns from the right edge (null = no cursor) */
+  cursor: number | null;
+  /** Unit of all plotted values */
+  unit: TimelineUnit;
+  /** Start of the window */
+  from: Date;
+  /** End of the window */
+  to: Date;
+  /** Legend entries (all subscriptions) */
+  items: TimelineSeriesItem[];
+  /** Whether the window needs the history store and it is disabled */
+  historyUnavailable: boolean;
+  /** Whether persisted history is being loaded */
+  isLoading: boolean;
+}
@@ -7,7 +7,7 @@
  * Feature: 008-topology-panel
  */
 
-import type { SubscriptionStatus } from './polling.js';
+import type { SubscriptionStatus, WalReceiverData } from './polling.js';
 
 // =============================================================================
 // Replication Types
@@ -15,8 +15,11 @@ import type { SubscriptionStatus } from './polling.js';
 
 /**
  * Type of replication relationship.
+ * - native: logical replication subscription
+ * - pglogical: pglogical subscription
+ * - physical: streaming standby (from pg_stat_wal_receiver)
  */
-export type ReplicationType = 'native' | 'pglogical';
+export type ReplicationType = 'native' | 'pglogical' | 'physical';
 
 /**
  * Direction of replication flow.
@@ -29,7 +32,7 @@ export type EdgeDirection = 'unidirectional' | 'bidirectional';
  */
 export type NodeRole =
   | 'primary' // Native replication: has standbys
-  | 'standby' // Native replication: connected to primary
+  | 'standby' // Physical standby (possibly cascading), or native subscriber
   | 'provider' // pglogical: other nodes subscribe to it
   | 'subscriber' // pglogical: subscribes to other nodes
   | 'bidirectional' // pglogical: both provider and subscriber
@@ -70,7 +73,7 @@ export interface TopologyEdge {
   /** Current lag in bytes */
   lagBytes: number;
 
-  /** Associated subscription name (pglogical only) */
+  /** Associated subscription name (null for physical standbys) */
   subscriptionName: string | null;
 
   /** Subscription status for this edge */
@@ -86,7 +89,7 @@ export interface TopologyEdge {
  * Aggregates node info, status, role, and connections.
  */
 export interface TopologyNodeData {
-  /** Node identifier from config */
+  /** Node identifier from config (or createExternalNodeId for upstreams outside it) */
   nodeId: string;
 
   /** Display name (same as nodeId) */
@@ -110,6 +113,12 @@ export interface TopologyNodeData {
   /** Whether node has pglogical installed */
   hasPglogical: boolean;
 
+  /** Whether this is an upstream seen only from a standby, not a configured node */
+  isExternal: boolean;
+
+  /** WAL receiver of a standby node (null when not in recovery) */
+  walReceiver: WalReceiverData | null;
+
   /** Outgoing edges (this node is source) */
   outgoingEdges: TopologyEdge[];
 
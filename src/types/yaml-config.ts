@@ -28,8 +28,17 @@ export interface YAMLConfigFile {
   /** Threshold settings for alerts */
   thresholds?: YAMLThresholdConfig;
 
+  /** Alert evaluation settings (duration, hysteresis) */
+  alerts?: YAMLAlertsConfig;
+
   /** Enable pglogical mode */
   pglogical?: boolean;
+
+  /** Prometheus /metrics HTTP endpoint */
+  metrics?: YAMLMetricsConfig;
+
+  /** Persistent lag history */
+  history?: YAMLHistoryConfig;
 }
 
 /**
@@ -132,3 +141,104 @@ export interface YAMLThresholdLevels {
   /** Critical threshold */
   critical?: number | string;
 }
+
+/**
+ * Alert evaluation settings from YAML.
+ */
+export interface YAMLAlertsConfig {
+  /** How long a threshold must stay exceeded before firing ("2m", "30s", or seconds) */
+  for?: number | string;
+
+  /** How far below a threshold a value must drop to resolve ("10%" or percent number) */
+  hysteresis?: number | string;
+
+  /** Notification sinks for firing/resolved transitions */
+  sinks?: YAMLAlertSinkConfig[];
+}
+
+/**
+ * Alert notification sink from YAML.
+ * String fields support environment variable interpolation.
+ */
+export interface YAMLAlertSinkConfig {
+  /** Sink type */
+  type: 'webhook' | 'command' | 'file';
+
+  /** Name used in logs (default: "<type>-<index>") */
+  name?: string;
+
+  /** Webhook URL (webhook) */
+  url?: string;
+
+  /** Webhook body template: generic, slack, pagerduty (webhook, default: generic) */
+  template?: string;
+
+  /** Extra HTTP headers (webhook) */
+  headers?: Record<string, string>;
+
+  /** PagerDuty integration key (webhook with pagerduty template) */
+  routing_key?: string;
+
+  /** Command line run with /bin/sh -c (command) */
+  command?: string;
+
+  /** NDJSON file path (file) */
+  path?: string;
+
+  /** Request / command timeout ("10s" or seconds) */
+  timeout?: number | string;
+
+  /** Retries after a failed delivery */
+  retries?: number;
+
+  /** Delay before the first retry ("1s" or seconds), doubled per retry */
+  retry_delay?: number | string;
+
+  /** Maximum notifications per minute (0 = unlimited) */
+  rate_limit?: number;
+
+  /** Minimum time between notifications for the same node/subscription/slot ("5m" or seconds) */
+  dedup_window?: number | string;
+}
+
+/**
+ * Prometheus metrics endpoint configuration from YAML.
+ */
+export interface YAMLMetricsConfig {
+  /** Serve the /metrics endpoint (default: false) */
+  enabled?: boolean;
+
+  /** Bind address (default: 127.0.0.1, supports env var interpolation) */
+  host?: string;
+
+  /** Listen port (may be string before interpolation) */
+  port?: number | string;
+}
+
+/**
+ * Persistent lag history configuration from YAML.
+ */
+export interface YAMLHistoryConfig {
+  /** Record samples to disk (default: true when the section is present) */
+  enabled?: boolean;
+
+  /** Directory for segment files (default: ~/.replmon/history, supports ~ and env vars) */
+  path?: string;
+
+  /** Retention per resolution ("6h", "7d", or seconds) */
+  retention?: YAMLHistoryRetention;
+}
+
+/**
+ * Retention per history resolution.
+ */
+export interface YAMLHistoryRetention {
+  /** Raw polling samples (default: 6h, minimum: 10m) */
+  raw?: number | string;
+
+  /** 1-minute rollups (default: 7d) */
+  '1m'?: number | string;
+
+  /** 10-minute rollups (default: 90d) */
+  '10m'?: number | string;
+}
@@ -0,0 +1,40 @@
+/**
+ * Alert Utility Functions
+ *
+ * Ordering shared by the Alerts panel and its keyboard navigation, and value
+ * formatting shared by the panel and the notifier.
+ */
+
+import type { Alert, AlertMetric } from '../types/alerts.js';
+import { formatBytes } from './format.js';
+import { formatLag } from './topology.js';
+
+/**
+ * Display order for active alerts: firing before pending, critical before
+ * warning, then longest-standing first.
+ */
+export function compareAlerts(a: Alert, b: Alert): number {
+  if (a.state !== b.state) return a.state === 'firing' ? -1 : 1;
+  if (a.severity !== b.severity) return a.severity === 'critical' ? -1 : 1;
+  const since = a.pendingSince.getTime() - b.pendingSince.getTime();
+  if (since !== 0) return since;
+  return a.id.localeCompare(b.id);
+}
+
+/**
+ * Format a value in the canonical unit of its metric.
+ *
+ * @param metric - Alert metric
+ * @param value - Seconds, bytes, or conflicts per minute
+ * @returns Formatted value (e.g., "42.0s", "1.2 GB", "3/min")
+ */
+export function formatAlertValue(metric: AlertMetric, value: number): string {
+  switch (metric) {
+    case 'replication_lag':
+      return formatLag(value);
+    case 'slot_retention':
+      return formatBytes(value);
+    case 'conflict_rate':
+      return `${value}/min`;
+  }
+}
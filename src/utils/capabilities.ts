@@ -0,0 +1,151 @@
+/**
+ * Node Capability Utility Functions
+ *
+ * Formats the capability probe result of a node and checks its settings
+ * against what the node's replication setup needs.
+ */
+
+import type {
+  NodeCapabilities,
+  PublicationData,
+  SlotData,
+} from '../services/polling/types.js';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Share of max_replication_slots in use that warns before slots run out */
+export const SLOT_USAGE_WARNING_RATIO = 0.8;
+
+/** First PostgreSQL version with the subscription origin option (16.0) */
+export const SUBSCRIPTION_ORIGIN_VERSION_NUM = 160000;
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * A setting that doesn't fit how the node is used.
+ */
+export interface CapabilityWarning {
+  /** Setting the warning is about (e.g. "wal_level") */
+  setting: string;
+  severity: 'warning' | 'critical';
+  message: string;
+}
+
+// =============================================================================
+// Functions
+// =============================================================================
+
+/**
+ * pglogical version for display.
+ *
+ * @returns Version, "installed" when only the schema was found, or "not installed"
+ */
+export function formatPglogicalVersion(
+  capabilities: Pick<NodeCapabilities, 'hasPglogical' | 'pglogicalVersion'>
+): string {
+  if (!capabilities.hasPglogical) return 'not installed';
+  return capabilities.pglogicalVersion ?? 'installed';
+}
+
+/**
+ * Whether a native subscription on the node can choose which origins it
+ * applies changes from. Before PostgreSQL 16 it applies all of them.
+ */
+export function supportsSubscriptionOrigin(
+  capabilities: Pick<NodeCapabilities, 'versionNum'>
+): boolean {
+  return capabilities.versionNum >= SUBSCRIPTION_ORIGIN_VERSION_NUM;
+}
+
+/**
+ * Misconfigured settings of a node, most severe first.
+ *
+ * A node needs wal_level = logical and free replication slots when it
+ * publishes (publications, replication sets or logical slots), walsenders for
+ * its active slots, and track_commit_timestamp for pglogical's commit
+ * timestamp conflict resolution.
+ *
+ * @param capabilities - Capability probe result
+ * @param slots - Replication slots on the node
+ * @param publications - Publications and replication sets on the node
+ * @returns Warnings (empty when the settings fit)
+ */
+export function getCapabilityWarnings(
+  capabilities: NodeCapabilities,
+  slots: Pick<SlotData, 'slotType' | 'active'>[],
+  publications: Pick<PublicationData, 'name'>[]
+): CapabilityWarning[] {
+  const warnings: CapabilityWarning[] = [];
+  const publishes = publications.length > 0 || slots.some((slot) => slot.slotType === 'logical');
+
+  if (capabilities.walLevel === 'minimal') {
+    warnings.push({
+      setting: 'wal_level',
+      severity: 'critical',
+      message: 'wal_level is minimal: no replication or slots are possible',
+    });
+  } else if (capabilities.walLevel === 'replica' && publishes) {
+    warnings.push({
+      setting: 'wal_level',
+      severity: 'critical',
+      message: 'wal_level is replica: logical decoding needs wal_level = logical',
+    });
+  }
+
+  const maxSlots = capabilities.maxReplicationSlots;
+  if (maxSlots !== null) {
+    if (maxSlots === 0 && publishes) {
+      warnings.push({
+        setting: 'max_replication_slots',
+        severity: 'critical',
+        message: 'max_replication_slots is 0: subscribers cannot create slots',
+      });
+    } else if (maxSlots > 0 && slots.length >= maxSlots) {
+      warnings.push({
+        setting: 'max_replication_slots',
+        severity: 'critical',
+        message: `All ${maxSlots} replication slots are in use`,
+      });
+    } else if (maxSlots > 0 && slots.length >= maxSlots * SLOT_USAGE_WARNING_RATIO) {
+      warnings.push({
+        setting: 'max_replication_slots',
+        severity: 'warning',
+        message: `${slots.length} of ${maxSlots} replication slots are in use`,
+      });
+    }
+  }
+
+  const maxSenders = capabilities.maxWalSenders;
+  const activeSlots = slots.filter((slot) => slot.active).length;
+  if (maxSenders !== null) {
+    if (maxSenders === 0 && publishes) {
+      warnings.push({
+        setting: 'max_wal_senders',
+        severity: 'critical',
+        message: 'max_wal_senders is 0: subscribers cannot connect',
+      });
+    } else if (maxSenders > 0 && activeSlots >= maxSenders) {
+      warnings.push({
+        setting: 'max_wal_senders',
+        severity: 'warning',
+        message: `${activeSlots} active slots use all ${maxSenders} walsenders`,
+      });
+    }
+  }
+
+  if (capabilities.hasPglogical && capabilities.trackCommitTimestamp === false) {
+    warnings.push({
+      setting: 'track_commit_timestamp',
+      severity: 'warning',
+      message: 'track_commit_timestamp is off: pglogical cannot resolve conflicts by commit time',
+    });
+  }
+
+  return warnings.sort((a, b) =>
+    a.severity === b.severity ? 0 : a.severity === 'critical' ? -1 : 1
+  );
+}
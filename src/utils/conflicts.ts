@@ -0,0 +1,24 @@
+/**
+ * Conflict Utility Functions
+ *
+ * Aggregation of native conflict stats rows shared by the store, alerts,
+ * history, and the check command.
+ */
+
+import type { ConflictData } from '../services/polling/types.js';
+
+/**
+ * Sum all conflict counters of a native conflict stats row. Apply errors are
+ * counted separately and not included.
+ */
+export function totalConflicts(row: ConflictData): number {
+  return (
+    row.insertConflicts +
+    row.updateOriginDiffers +
+    row.updateExists +
+    row.updateMissing +
+    row.deleteOriginDiffers +
+    row.deleteMissing +
+    row.multipleUniqueConflicts
+  );
+}
@@ -0,0 +1,34 @@
+/**
+ * Formatting Utility Functions
+ *
+ * Human-readable formatting shared by the TUI and the headless services.
+ */
+
+/**
+ * Format bytes to human-readable string.
+ *
+ * @param bytes - Number of bytes
+ * @returns Formatted string (e.g., "1.5 GB")
+ */
+export function formatBytes(bytes: number): string {
+  if (bytes < 0) bytes = 0;
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+}
+
+/**
+ * Format relative time from a date.
+ * @param date - The date to format
+ * @param now - Reference time (ms since epoch)
+ * @returns Human-readable relative time (e.g., "2m ago")
+ */
+export function formatRelativeTime(date: Date, now: number): string {
+  const diff = now - date.getTime();
+
+  if (diff < 60_000) return 'just now';
+  if (diff < 3600_000) return `${Math.floor(diff / 60_000)}m ago`;
+  if (diff < 86400_000) return `${Math.floor(diff / 3600_000)}h ago`;
+  return `${Math.floor(diff / 86400_000)}d ago`;
+}
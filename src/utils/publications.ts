@@ -0,0 +1,122 @@
+/**
+ * Publication Utility Functions
+ *
+ * Cross-references publications and pglogical replication sets with the
+ * subscriptions that consume them, and formats their replicated operations.
+ */
+
+import type {
+  PublicationData,
+  PublicationOperations,
+  SubscriptionData,
+} from '../services/polling/types.js';
+import { findNodeByHostPort } from './topology.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * A subscription consuming a publication or replication set.
+ */
+export interface PublicationConsumer {
+  /** Subscriber node */
+  nodeId: string;
+  subscriptionName: string;
+  status: SubscriptionData['status'];
+  enabled: boolean;
+  /**
+   * Whether the subscription was matched by publication name alone because
+   * its provider could not be resolved (native subscriptions don't report it)
+   */
+  matchedByName: boolean;
+}
+
+// =============================================================================
+// Functions
+// =============================================================================
+
+/**
+ * Key identifying a publication or replication set across polling cycles.
+ *
+ * @returns `${nodeId}:${source}:${name}`
+ */
+export function getPublicationKey(
+  publication: Pick<PublicationData, 'nodeId' | 'source' | 'name'>
+): string {
+  return `${publication.nodeId}:${publication.source}:${publication.name}`;
+}
+
+/**
+ * Configured node a subscription replicates from.
+ * Matches the provider's host:port first, then the pglogical node name.
+ *
+ * @returns Provider node ID, or null if it can't be resolved
+ */
+export function resolveProviderNodeId(
+  sub: Pick<SubscriptionData, 'providerHost' | 'providerPort' | 'providerNode'>,
+  nodes: Map<string, { host: string; port: number }>
+): string | null {
+  const byAddress = findNodeByHostPort(nodes, sub.providerHost, sub.providerPort);
+  if (byAddress) return byAddress;
+  if (sub.providerNode && nodes.has(sub.providerNode)) return sub.providerNode;
+  return null;
+}
+
+/**
+ * Subscriptions on other nodes that consume a publication or replication set.
+ * A subscription consumes it when it lists the name in replicationSets, has
+ * the same source, and replicates from the publication's node. Subscriptions
+ * whose provider can't be resolved are matched by name alone.
+ *
+ * @param publication - Publication or replication set
+ * @param subscriptions - Subscriptions per node (key: nodeId)
+ * @param nodes - Configured nodes, for resolving providers
+ * @returns Consumers sorted by subscriber node, then subscription name
+ */
+export function findPublicationConsumers(
+  publication: Pick<PublicationData, 'nodeId' | 'source' | 'name'>,
+  subscriptions: Map<string, SubscriptionData[]>,
+  nodes: Map<string, { host: string; port: number }>
+): PublicationConsumer[] {
+  const consumers: PublicationConsumer[] = [];
+
+  for (const [nodeId, nodeSubs] of subscriptions) {
+    if (nodeId === publication.nodeId) continue;
+
+    for (const sub of nodeSubs) {
+      if (sub.source !== publication.source) continue;
+      if (!sub.replicationSets.includes(publication.name)) continue;
+
+      const providerNodeId = resolveProviderNodeId(sub, nodes);
+      if (providerNodeId !== null && providerNodeId !== publication.nodeId) continue;
+
+      consumers.push({
+        nodeId,
+        subscriptionName: sub.subscriptionName,
+        status: sub.status,
+        enabled: sub.enabled,
+        matchedByName: providerNodeId === null,
+      });
+    }
+  }
+
+  return consumers.sort((a, b) => {
+    const nodeCompare = a.nodeId.localeCompare(b.nodeId);
+    if (nodeCompare !== 0) return nodeCompare;
+    return a.subscriptionName.localeCompare(b.subscriptionName);
+  });
+}
+
+/**
+ * Compact form of the replicated operations, one letter each
+ * (e.g. "IUDT", "IU--"). Unknown truncate (before PG11) shows as "?".
+ */
+export function formatPublicationOperations(operations: PublicationOperations): string {
+  return [
+    operations.insert ? 'I' : '-',
+    operations.update ? 'U' : '-',
+    operations.delete ? 'D' : '-',
+    operations.truncate === null ? '?' : operations.truncate ? 'T' : '-',
+  ].join('');
+}
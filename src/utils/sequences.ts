@@ -0,0 +1,164 @@
+/**
+ * Sequence Utility Functions
+ *
+ * Finds the sequences a publication or replication set covers and compares
+ * their values on the provider with each subscriber. Logical replication
+ * doesn't carry sequence changes, so a subscriber that is promoted with
+ * sequences behind the provider hands out ids that already exist.
+ */
+
+import type { PublicationData, SequenceData } from '../services/polling/types.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * How a subscriber's sequence compares to the provider's.
+ * - in_sync: at or past the provider's value
+ * - behind: below the provider's value, or never used while the provider's was
+ * - missing: the sequence doesn't exist on the subscriber
+ */
+export type SequenceDriftStatus = 'in_sync' | 'behind' | 'missing';
+
+/**
+ * A published sequence on one subscriber node.
+ */
+export interface SequenceDrift {
+  schemaName: string;
+  sequenceName: string;
+  /** Subscriber node */
+  nodeId: string;
+  /** last_value on the provider, as decimal text (null if never used) */
+  providerValue: string | null;
+  /** last_value on the subscriber, as decimal text (null if never used or missing) */
+  subscriberValue: string | null;
+  /** How far the subscriber is behind (null unless behind with a known value) */
+  behindBy: bigint | null;
+  status: SequenceDriftStatus;
+}
+
+// =============================================================================
+// Functions
+// =============================================================================
+
+/**
+ * Schema-qualified sequence name.
+ */
+export function getSequenceName(sequence: { schemaName: string; sequenceName: string }): string {
+  return `${sequence.schemaName}.${sequence.sequenceName}`;
+}
+
+/**
+ * Provider sequences a publication or replication set covers.
+ * pglogical replication sets list their sequences; native publications
+ * don't have any, so the sequences owned by their tables (serial and
+ * identity columns) are taken instead.
+ *
+ * @param publication - Publication or replication set
+ * @param providerSequences - Sequences on the publication's node
+ * @returns Covered sequences, in providerSequences order
+ */
+export function getPublicationSequences(
+  publication: Pick<PublicationData, 'source' | 'allTables' | 'tables' | 'sequences'>,
+  providerSequences: SequenceData[]
+): SequenceData[] {
+  if (publication.source === 'pglogical') {
+    const members = new Set(publication.sequences.map(getSequenceName));
+    return providerSequences.filter((sequence) => members.has(getSequenceName(sequence)));
+  }
+
+  const tables = new Set(
+    publication.tables.map((table) => `${table.schemaName}.${table.tableName}`)
+  );
+  return providerSequences.filter(
+    (sequence) =>
+      sequence.ownerTable !== null && (publication.allTables || tables.has(sequence.ownerTable))
+  );
+}
+
+/**
+ * Compare a publication's sequences on the provider with each subscriber.
+ * Subscriber nodes without sequence data (not polled yet, before PG10, or
+ * never read successfully) are skipped; a node whose query fails keeps its
+ * last values. Assumes ascending sequences.
+ *
+ * @param publication - Publication or replication set
+ * @param subscriberNodeIds - Nodes consuming the publication
+ * @param sequences - Sequences per node (key: nodeId)
+ * @returns One entry per sequence and subscriber, sorted by sequence, then node
+ */
+export function findSequenceDrift(
+  publication: Pick<PublicationData, 'nodeId' | 'source' | 'allTables' | 'tables' | 'sequences'>,
+  subscriberNodeIds: string[],
+  sequences: Map<string, SequenceData[]>
+): SequenceDrift[] {
+  const providerSequences = sequences.get(publication.nodeId);
+  if (!providerSequences) return [];
+
+  const published = getPublicationSequences(publication, providerSequences);
+  const drift: SequenceDrift[] = [];
+
+  for (const nodeId of new Set(subscriberNodeIds)) {
+    const subscriberSequences = sequences.get(nodeId);
+    if (!subscriberSequences) continue;
+    const byName = new Map(
+      subscriberSequences.map((sequence) => [getSequenceName(sequence), sequence])
+    );
+
+    for (const sequence of published) {
+      const subscriber = byName.get(getSequenceName(sequence));
+      const providerValue = sequence.lastValue;
+      const subscriberValue = subscriber?.lastValue ?? null;
+
+      // Compared as bigint: sequence values can exceed what a number holds exactly
+      let status: SequenceDriftStatus = 'in_sync';
+      let behindBy: bigint | null = null;
+      if (!subscriber) {
+        status = 'missing';
+      } else if (providerValue !== null) {
+        const gap = BigInt(providerValue) - BigInt(subscriberValue ?? providerValue);
+        if (subscriberValue === null || gap > 0n) {
+          status = 'behind';
+          behindBy = subscriberValue === null ? null : gap;
+        }
+      }
+
+      drift.push({
+        schemaName: sequence.schemaName,
+        sequenceName: sequence.sequenceName,
+        nodeId,
+        providerValue,
+        subscriberValue,
+        behindBy,
+        status,
+      });
+    }
+  }
+
+  return drift.sort((a, b) => {
+    const nameCompare = getSequenceName(a).localeCompare(getSequenceName(b));
+    if (nameCompare !== 0) return nameCompare;
+    return a.nodeId.localeCompare(b.nodeId);
+  });
+}
+
+/**
+ * Entry furthest behind the provider. Sequences never used on the
+ * subscriber count as behind by the provider's whole value.
+ *
+ * @returns The entry, or null if no subscriber is behind
+ */
+export function findMostBehindSequence<T extends SequenceDrift>(drift: T[]): T | null {
+  let mostBehind: T | null = null;
+  let mostBehindBy: bigint | null = null;
+  for (const entry of drift) {
+    if (entry.status !== 'behind') continue;
+    const behindBy = entry.behindBy ?? BigInt(entry.providerValue ?? 0);
+    if (mostBehindBy === null || behindBy > mostBehindBy) {
+      mostBehind = entry;
+      mostBehindBy = behindBy;
+    }
+  }
+  return mostBehind;
+}
@@ -0,0 +1,141 @@
+/**
+ * Slot Retention Utility Functions
+ *
+ * Explains what a replication slot is holding back: WAL (restart_lsn) and
+ * the transaction horizon (xmin / catalog_xmin) that vacuum cannot freeze past.
+ */
+
+import type { SlotData } from '../services/polling/types.js';
+import { parseLsn } from './wal-rate.js';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Transaction IDs available before wraparound (2^31) */
+export const XID_WRAPAROUND_LIMIT = 2147483648;
+
+/**
+ * Slot xmin age that needs attention: the default autovacuum_freeze_max_age,
+ * past which anti-wraparound vacuums run but cannot freeze beyond the slot.
+ */
+export const XMIN_AGE_WARNING = 200000000;
+
+/** Slot xmin age that is critical: roughly half way to wraparound */
+export const XMIN_AGE_CRITICAL = 1000000000;
+
+/** Unconfirmed WAL beyond which an active slot's consumer counts as behind */
+const CONSUMER_LAG_BYTES = 64 * 1024 * 1024;
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Severity of a slot's xmin age.
+ */
+export type XminSeverity = 'healthy' | 'warning' | 'critical';
+
+/**
+ * Main reason a slot retains WAL.
+ * - lost: the WAL it needed has been removed
+ * - transaction: a long-running transaction holds back restart_lsn
+ * - inactive: nothing is consuming the slot
+ * - lagging: the consumer is connected but behind
+ */
+export type RetentionCause = 'lost' | 'transaction' | 'inactive' | 'lagging';
+
+/** Display labels for retention causes */
+const RETENTION_CAUSE_LABELS: Record<RetentionCause, string> = {
+  lost: 'WAL removed (slot lost)',
+  transaction: 'long-running transaction',
+  inactive: 'no consumer connected',
+  lagging: 'consumer behind',
+};
+
+// =============================================================================
+// Functions
+// =============================================================================
+
+/**
+ * Age of the older of a slot's xmin and catalog_xmin.
+ *
+ * @returns Age in transactions, or null if the slot holds neither
+ */
+export function getSlotXminAge(slot: Pick<SlotData, 'xminAge' | 'catalogXminAge'>): number | null {
+  const ages = [slot.xminAge, slot.catalogXminAge].filter((age): age is number => age !== null);
+  return ages.length > 0 ? Math.max(...ages) : null;
+}
+
+/**
+ * How far an xmin age has used up the transaction ID space.
+ *
+ * @returns Percentage between 0 and 100
+ */
+export function getWraparoundPercent(xminAge: number): number {
+  return Math.min(100, Math.max(0, (xminAge / XID_WRAPAROUND_LIMIT) * 100));
+}
+
+/**
+ * Severity of a slot's xmin age.
+ */
+export function getXminSeverity(xminAge: number | null): XminSeverity {
+  if (xminAge === null) return 'healthy';
+  if (xminAge >= XMIN_AGE_CRITICAL) return 'critical';
+  if (xminAge >= XMIN_AGE_WARNING) return 'warning';
+  return 'healthy';
+}
+
+/**
+ * Main reason a slot retains WAL, or null if it is keeping up.
+ */
+export function getRetentionCause(
+  slot: Pick<SlotData, 'active' | 'walStatus' | 'pendingBytes' | 'blocker'>
+): RetentionCause | null {
+  if (slot.walStatus === 'lost') return 'lost';
+  if (slot.blocker !== null) return 'transaction';
+  if (!slot.active) return 'inactive';
+  if (slot.pendingBytes >= CONSUMER_LAG_BYTES) return 'lagging';
+  return null;
+}
+
+/**
+ * WAL a slot stops retaining when it is advanced. The slot's restart_lsn is
+ * taken as the node's current position minus the retained bytes, both from
+ * the same poll. Logical slots may keep some of it while older transactions
+ * are still decoding, so this is an upper bound.
+ *
+ * @param retainedBytes - WAL retained by the slot
+ * @param currentLsn - Current WAL position of the slot's node
+ * @param targetLsn - Where the slot is advanced to (null for the current position)
+ * @returns Bytes released, or null if currentLsn or targetLsn is unknown
+ */
+export function estimateReleasedBytes(
+  retainedBytes: number,
+  currentLsn: string | null,
+  targetLsn: string | null
+): number | null {
+  if (targetLsn === null) return retainedBytes;
+  const current = currentLsn === null ? null : parseLsn(currentLsn);
+  const target = parseLsn(targetLsn);
+  if (current === null || target === null) return null;
+  const released = target - (current - retainedBytes);
+  return Math.min(retainedBytes, Math.max(0, released));
+}
+
+/**
+ * Display label for a retention cause.
+ */
+export function getRetentionCauseLabel(cause: RetentionCause): string {
+  return RETENTION_CAUSE_LABELS[cause];
+}
+
+/**
+ * Format a transaction count compactly (e.g. "250.0M").
+ */
+export function formatXidAge(age: number): string {
+  if (age >= 1000000000) return `${(age / 1000000000).toFixed(2)}B`;
+  if (age >= 1000000) return `${(age / 1000000).toFixed(1)}M`;
+  if (age >= 1000) return `${(age / 1000).toFixed(1)}K`;
+  return String(age);
+}
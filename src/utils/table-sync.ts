@@ -0,0 +1,48 @@
+/**
+ * Table Sync Utility Functions
+ *
+ * Helpers shared by the store (copy start tracking) and the subscription
+ * detail view for per-table sync states.
+ */
+
+import type { TableSyncData, TableSyncState } from '../services/polling/types.js';
+
+/** Display labels for table sync states */
+const TABLE_SYNC_LABELS: Record<TableSyncState, string> = {
+  init: 'init',
+  structure: 'structure',
+  data: 'data copy',
+  constraints: 'constraints',
+  finished: 'copy done',
+  syncwait: 'sync wait',
+  catchup: 'catchup',
+  synchronized: 'synchronized',
+  ready: 'ready',
+  unknown: 'unknown',
+};
+
+/**
+ * Whether a table is still in its initial sync (copy not yet handed over
+ * to the apply worker).
+ */
+export function isInitialSync(state: TableSyncState): boolean {
+  return state !== 'synchronized' && state !== 'ready' && state !== 'unknown';
+}
+
+/**
+ * Display label for a table sync state.
+ */
+export function getTableSyncLabel(state: TableSyncState): string {
+  return TABLE_SYNC_LABELS[state];
+}
+
+/**
+ * Key identifying a table of a subscription across polling cycles.
+ *
+ * @returns `${nodeId}:${subscriptionName}:${schemaName}.${tableName}`
+ */
+export function getTableSyncKey(
+  table: Pick<TableSyncData, 'nodeId' | 'subscriptionName' | 'schemaName' | 'tableName'>
+): string {
+  return `${table.nodeId}:${table.subscriptionName}:${table.schemaName}.${table.tableName}`;
+}
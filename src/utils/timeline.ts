@@ -0,0 +1,36 @@
+/**
+ * Lag Timeline Utility Functions
+ *
+ * Unit selection and sample conversion shared by the Lag Timeline hook.
+ */
+
+import type { LagSample } from '../store/types.js';
+import type { TimelinePoint, TimelineUnit } from '../types/timeline.js';
+
+/**
+ * Pick the unit shared by all plotted series: seconds only when every
+ * series with data reports time-based lag, so overlays stay comparable.
+ */
+export function pickTimelineUnit(histories: LagSample[][]): TimelineUnit {
+  let hasData = false;
+  for (const samples of histories) {
+    const latest = samples[samples.length - 1];
+    if (!latest) continue;
+    if (latest.lagSeconds === null) return 'bytes';
+    hasData = true;
+  }
+  return hasData ? 'seconds' : 'bytes';
+}
+
+/**
+ * Convert lag samples to chart points in the given unit.
+ * Samples without time-based lag are skipped in seconds mode.
+ */
+export function toTimelinePoints(samples: LagSample[], unit: TimelineUnit): TimelinePoint[] {
+  const points: TimelinePoint[] = [];
+  for (const sample of samples) {
+    const value = unit === 'seconds' ? sample.lagSeconds : sample.lagBytes;
+    if (value !== null) points.push({ timestamp: sample.timestamp, value });
+  }
+  return points;
+}
@@ -7,35 +7,39 @@
  * Feature: 008-topology-panel
  */
 
+import type { ThresholdLevels } from '../config/defaults.js';
+import { DEFAULT_THRESHOLDS } from '../config/defaults.js';
 import type {
   LagSeverity,
   NodeRole,
   TopologyEdge,
+  TopologyNodeData,
 } from '../types/topology.js';
+import type { WalReceiverData, WalReceiverStatus } from '../types/polling.js';
+
+/** Prefix of node IDs for upstreams that are not configured nodes */
+const EXTERNAL_NODE_PREFIX = 'external:';
 
 // =============================================================================
 // Lag Severity & Formatting
 // =============================================================================
 
-/**
- * Lag severity thresholds in seconds.
- */
-const LAG_THRESHOLDS = {
-  WARNING: 5,
-  CRITICAL: 30,
-} as const;
-
 /**
  * Determine lag severity based on thresholds.
+ * Thresholds are inclusive, matching alert evaluation.
  *
  * @param lagSeconds - Lag duration in seconds (null if unavailable)
+ * @param thresholds - Replication lag thresholds in seconds
  * @returns Severity level for color coding
  */
-export function getLagSeverity(lagSeconds: number | null): LagSeverity {
+export function getLagSeverity(
+  lagSeconds: number | null,
+  thresholds: ThresholdLevels = DEFAULT_THRESHOLDS.replicationLag
+): LagSeverity {
   if (lagSeconds === null) return 'unknown';
-  if (lagSeconds < LAG_THRESHOLDS.WARNING) return 'normal';
-  if (lagSeconds <= LAG_THRESHOLDS.CRITICAL) return 'warning';
-  return 'critical';
+  if (lagSeconds >= thresholds.critical) return 'critical';
+  if (lagSeconds >= thresholds.warning) return 'warning';
+  return 'normal';
 }
 
 /**
@@ -80,6 +84,8 @@ export function getLagColor(
 
 /**
  * Derive node role from edge analysis.
+ * A node receiving physical replication is a standby even if it feeds
+ * further standbys (cascading replication).
  *
  * @param nodeId - Node identifier
  * @param edges - All topology edges
@@ -93,6 +99,11 @@ export function deriveNodeRole(nodeId: string, edges: TopologyEdge[]): NodeRole
       (e.sourceNodeId === nodeId || e.targetNodeId === nodeId) &&
       e.replicationType === 'pglogical'
   );
+  const isPhysicalTarget = edges.some(
+    (e) => e.targetNodeId === nodeId && e.replicationType === 'physical'
+  );
+
+  if (isPhysicalTarget) return 'standby';
 
   if (hasPglogical) {
     if (isSource && isTarget) return 'bidirectional';
@@ -204,3 +215,143 @@ export function getNodeEdges(
     outgoing: edges.filter((e) => e.sourceNodeId === nodeId),
   };
 }
+
+// =============================================================================
+// Standby Edges
+// =============================================================================
+
+/**
+ * Find configured node ID by host:port match.
+ *
+ * @param nodes - Configured nodes
+ * @param host - Host to match (null if unknown)
+ * @param port - Port to match (null if unknown)
+ * @returns Matching node ID, or null
+ */
+export function findNodeByHostPort(
+  nodes: Map<string, { host: string; port: number }>,
+  host: string | null,
+  port: number | null
+): string | null {
+  if (!host || !port) return null;
+
+  for (const [nodeId, nodeInfo] of nodes) {
+    if (nodeInfo.host === host && nodeInfo.port === port) {
+      return nodeId;
+    }
+  }
+  return null;
+}
+
+/**
+ * Node ID for an upstream that is not in the config.
+ *
+ * @param host - Upstream host as reported by the standby
+ * @param port - Upstream port
+ * @returns Node identifier (e.g., "external:10.0.0.5:5432")
+ */
+export function createExternalNodeId(host: string, port: number): string {
+  return `${EXTERNAL_NODE_PREFIX}${host}:${port}`;
+}
+
+/**
+ * Check whether a node ID was created by createExternalNodeId.
+ */
+export function isExternalNodeId(nodeId: string): boolean {
+  return nodeId.startsWith(EXTERNAL_NODE_PREFIX);
+}
+
+/**
+ * Map WAL receiver status to edge status.
+ */
+function getStandbyEdgeStatus(status: WalReceiverStatus | null): TopologyEdge['status'] {
+  switch (status) {
+    case 'streaming':
+      return 'streaming';
+    case 'starting':
+    case 'waiting':
+    case 'restarting':
+      return 'initializing';
+    case 'stopping':
+    case 'stopped':
+    case null:
+      return 'down';
+  }
+}
+
+/**
+ * Derive physical replication edges from the standbys' WAL receivers.
+ * The upstream is matched to a configured node by host:port; otherwise the
+ * edge starts at an external node, so standbys of an unconfigured primary
+ * (or cascading standbys of an unconfigured standby) still show up.
+ *
+ * @param nodes - Configured nodes
+ * @param walReceivers - WAL receivers per node (key: nodeId)
+ * @returns One edge per standby with a known upstream
+ */
+export function deriveStandbyEdges(
+  nodes: Map<string, { host: string; port: number }>,
+  walReceivers: Map<string, WalReceiverData[]>
+): TopologyEdge[] {
+  const edges: TopologyEdge[] = [];
+
+  for (const [nodeId, receivers] of walReceivers) {
+    const receiver = receivers[0];
+    if (!receiver?.upstreamHost || receiver.upstreamPort === null) continue;
+
+    const sourceNodeId =
+      findNodeByHostPort(nodes, receiver.upstreamHost, receiver.upstreamPort) ??
+      createExternalNodeId(receiver.upstreamHost, receiver.upstreamPort);
+
+    edges.push({
+      id: createEdgeId(sourceNodeId, nodeId),
+      sourceNodeId,
+      targetNodeId: nodeId,
+      direction: 'unidirectional',
+      replicationType: 'physical',
+      // Time since the last replayed commit grows while the primary is idle,
+      // so a standby that has replayed everything it received is not lagging
+      lagSeconds: receiver.replayLagBytes === 0 ? 0 : receiver.replayLagSeconds,
+      lagBytes: receiver.replayLagBytes ?? 0,
+      subscriptionName: null,
+      status: getStandbyEdgeStatus(receiver.status),
+    });
+  }
+
+  return edges;
+}
+
+/**
+ * Build topology nodes for the external upstreams referenced by edges.
+ *
+ * @param edges - All topology edges
+ * @returns One node per external upstream, in edge order
+ */
+export function deriveExternalNodes(edges: TopologyEdge[]): TopologyNodeData[] {
+  const nodes: TopologyNodeData[] = [];
+  const seen = new Set<string>();
+
+  for (const edge of edges) {
+    const nodeId = edge.sourceNodeId;
+    if (!isExternalNodeId(nodeId) || seen.has(nodeId)) continue;
+    seen.add(nodeId);
+
+    const hostInfo = nodeId.slice(EXTERNAL_NODE_PREFIX.length);
+    nodes.push({
+      nodeId,
+      displayName: hostInfo.slice(0, hostInfo.lastIndexOf(':')),
+      hostInfo,
+      connectionStatus: undefined,
+      role: deriveNodeRole(nodeId, edges),
+      isStale: false,
+      isSelected: false,
+      hasPglogical: false,
+      isExternal: true,
+      walReceiver: null,
+      outgoingEdges: edges.filter((e) => e.sourceNodeId === nodeId),
+      incomingEdges: [],
+    });
+  }
+
+  return nodes;
+}
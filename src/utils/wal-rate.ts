@@ -0,0 +1,155 @@
+/**
+ * WAL Rate Utility Functions
+ *
+ * Turns LSN samples into rates (WAL generated by a node, WAL confirmed by a
+ * slot's consumer) and projects when a slot's retained WAL reaches its
+ * limits at the current pace.
+ */
+
+import type { SlotData } from '../services/polling/types.js';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/**
+ * Weight of the newest sample in a smoothed rate. WAL is written in bursts,
+ * so the rate between two polls alone makes forecasts jump around.
+ */
+export const RATE_SMOOTHING = 0.3;
+
+/** Forecasts further out than this (7 days) are not shown */
+export const FORECAST_HORIZON_SECONDS = 7 * 24 * 60 * 60;
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Limit a slot's retained WAL is heading for.
+ * - critical_threshold: the configured slot_retention.critical
+ * - max_slot_wal_keep_size: past it the server invalidates the slot
+ */
+export type RetentionLimit = 'critical_threshold' | 'max_slot_wal_keep_size';
+
+/**
+ * When a slot's retained WAL reaches the nearest limit ahead of it.
+ */
+export interface SlotRetentionForecast {
+  limit: RetentionLimit;
+  /** Retained WAL at the limit */
+  limitBytes: number;
+  /** Time until the limit at the current growth rate */
+  secondsToLimit: number;
+}
+
+// =============================================================================
+// Functions
+// =============================================================================
+
+/**
+ * Byte position of an LSN ("16/B374D848").
+ *
+ * @returns Bytes, or null if the text is not an LSN
+ */
+export function parseLsn(lsn: string): number | null {
+  const match = /^([0-9A-Fa-f]{1,8})\/([0-9A-Fa-f]{1,8})$/.exec(lsn);
+  if (!match) return null;
+  return parseInt(match[1]!, 16) * 2 ** 32 + parseInt(match[2]!, 16);
+}
+
+/**
+ * Bytes between two LSNs (later minus earlier).
+ *
+ * @returns Difference in bytes, or null if either is not an LSN
+ */
+export function diffLsn(later: string, earlier: string): number | null {
+  const end = parseLsn(later);
+  const start = parseLsn(earlier);
+  return end === null || start === null ? null : end - start;
+}
+
+/**
+ * Exponentially smoothed rate.
+ *
+ * @param previous - Smoothed rate so far (null for the first sample)
+ * @param sample - Rate between the last two polls
+ */
+export function smoothRate(previous: number | null, sample: number): number {
+  return previous === null ? sample : previous + RATE_SMOOTHING * (sample - previous);
+}
+
+/**
+ * How fast a slot's retained WAL grows: WAL the node generates minus WAL
+ * the consumer confirms. Slots without a confirmed flush position
+ * (physical slots) use the change in retained bytes instead.
+ *
+ * @param walBytesPerSec - WAL generation rate of the slot's node
+ * @param confirmedFlushBytesPerSec - Confirmed flush advance of the slot
+ * @param retainedBytesPerSec - Change in retained bytes of the slot
+ * @returns Growth in bytes per second (negative when it shrinks), or null if unknown
+ */
+export function getRetentionGrowthRate(
+  walBytesPerSec: number | null,
+  confirmedFlushBytesPerSec: number | null,
+  retainedBytesPerSec: number | null
+): number | null {
+  if (walBytesPerSec !== null && confirmedFlushBytesPerSec !== null) {
+    return walBytesPerSec - confirmedFlushBytesPerSec;
+  }
+  return retainedBytesPerSec;
+}
+
+/**
+ * When a slot's retained WAL reaches slot_retention.critical or
+ * max_slot_wal_keep_size, whichever comes first.
+ *
+ * @param slot - Current retention and max_slot_wal_keep_size of the slot
+ * @param growthBytesPerSec - From getRetentionGrowthRate
+ * @param criticalBytes - slot_retention.critical threshold
+ * @returns Forecast, or null if retention isn't growing, the slot is lost,
+ *   it is past every limit, or the limit is beyond FORECAST_HORIZON_SECONDS
+ */
+export function forecastSlotRetention(
+  slot: Pick<SlotData, 'retainedBytes' | 'walStatus' | 'maxSlotWalKeepSize'>,
+  growthBytesPerSec: number | null,
+  criticalBytes: number
+): SlotRetentionForecast | null {
+  if (growthBytesPerSec === null || growthBytesPerSec <= 0) return null;
+  if (slot.walStatus === 'lost') return null;
+
+  const limits: { limit: RetentionLimit; limitBytes: number }[] = [
+    { limit: 'critical_threshold', limitBytes: criticalBytes },
+  ];
+  if (slot.maxSlotWalKeepSize !== null) {
+    limits.push({ limit: 'max_slot_wal_keep_size', limitBytes: slot.maxSlotWalKeepSize });
+  }
+
+  let nearest: SlotRetentionForecast | null = null;
+  for (const { limit, limitBytes } of limits) {
+    if (limitBytes <= slot.retainedBytes) continue;
+    const secondsToLimit = (limitBytes - slot.retainedBytes) / growthBytesPerSec;
+    if (!nearest || secondsToLimit < nearest.secondsToLimit) {
+      nearest = { limit, limitBytes, secondsToLimit };
+    }
+  }
+
+  return nearest && nearest.secondsToLimit <= FORECAST_HORIZON_SECONDS ? nearest : null;
+}
+
+/**
+ * Format a time until something happens, roughly (e.g. "~42m", "~3.5h").
+ */
+export function formatEta(seconds: number): string {
+  if (seconds < 60) return '<1m';
+  if (seconds < 3600) return `~${Math.round(seconds / 60)}m`;
+  if (seconds < 86400) return `~${(seconds / 3600).toFixed(1)}h`;
+  return `~${(seconds / 86400).toFixed(1)}d`;
+}
+
+/**
+ * Display label for a retention limit.
+ */
+export function getRetentionLimitLabel(limit: RetentionLimit): string {
+  return limit === 'critical_threshold' ? 'critical threshold' : 'max_slot_wal_keep_size';
+}
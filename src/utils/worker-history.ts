@@ -0,0 +1,98 @@
+/**
+ * Apply Worker History Utility Functions
+ *
+ * Summarizes the apply errors and apply worker restarts the store records
+ * for each subscription, detects workers stuck in a restart loop, and
+ * follows a terminated apply worker or walsender until it comes back.
+ */
+
+import type { WorkerEvent, WorkerEventType, WorkerHistory } from '../store/types.js';
+import type { WorkerRestartStatus } from '../types/operations.js';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Window over which restarts and apply errors count as recent */
+export const RECENT_WORKER_WINDOW_MS = 10 * 60 * 1000;
+
+/** Restarts within the window that make an apply worker crash-looping */
+export const CRASH_LOOP_RESTARTS = 3;
+
+/** How long a terminated apply worker or walsender has to come back */
+export const WORKER_RESTART_TIMEOUT_MS = 60 * 1000;
+
+// =============================================================================
+// Functions
+// =============================================================================
+
+/**
+ * Number of recent events of a type (apply errors count each error).
+ *
+ * @param history - Apply worker history, if any
+ * @param type - Event type to count
+ * @param now - Reference time
+ * @param windowMs - How far back to look
+ */
+export function countRecentWorkerEvents(
+  history: WorkerHistory | undefined,
+  type: WorkerEventType,
+  now: Date,
+  windowMs = RECENT_WORKER_WINDOW_MS
+): number {
+  if (!history) return 0;
+  const since = now.getTime() - windowMs;
+  return history.events
+    .filter((event) => event.type === type && event.timestamp.getTime() >= since)
+    .reduce((total, event) => total + (type === 'apply_error' ? event.count : 1), 0);
+}
+
+/**
+ * Whether the apply worker restarted CRASH_LOOP_RESTARTS times or more
+ * within the recent window.
+ */
+export function isCrashLooping(history: WorkerHistory | undefined, now: Date): boolean {
+  return countRecentWorkerEvents(history, 'worker_restart', now) >= CRASH_LOOP_RESTARTS;
+}
+
+/**
+ * Short description of an event for history listings.
+ */
+export function formatWorkerEvent(event: WorkerEvent): string {
+  switch (event.type) {
+    case 'apply_error':
+      return `${event.count} apply error${event.count !== 1 ? 's' : ''}`;
+    case 'worker_restart':
+      return `worker restarted (pid ${event.previousPid ?? '?'} → ${event.pid ?? '?'})`;
+    case 'auto_disabled':
+      return 'disabled by disable_on_error';
+  }
+}
+
+/**
+ * Whether a terminated worker came back, from the PID polled since for the
+ * subscription (workerPid) or slot (activePid) it served.
+ *
+ * @param terminatedPid - PID that was terminated
+ * @param terminatedAt - When it was terminated
+ * @param current - Latest polled PID and when it was polled (null if the subscription or slot is gone)
+ * @param now - Reference time
+ * @param timeoutMs - How long to wait for a new PID
+ */
+export function getWorkerRestartStatus(
+  terminatedPid: number,
+  terminatedAt: Date,
+  current: { pid: number | null; timestamp: Date } | null,
+  now: Date,
+  timeoutMs = WORKER_RESTART_TIMEOUT_MS
+): WorkerRestartStatus {
+  if (
+    current !== null &&
+    current.timestamp.getTime() > terminatedAt.getTime() &&
+    current.pid !== null &&
+    current.pid !== terminatedPid
+  ) {
+    return 'restarted';
+  }
+  return now.getTime() - terminatedAt.getTime() >= timeoutMs ? 'not_restarted' : 'waiting';
+}